@@ -0,0 +1,42 @@
+#!/usr/bin/env tsx
+/**
+ * Materialise holiday observances from the holiday rules
+ *
+ * Usage: npm run populate-holidays [-- <year>... [--country=CZE]]
+ * Defaults to the current and next year. Observances are also materialised
+ * on demand when a year is first queried; this script pre-fills them.
+ */
+import { config } from 'dotenv';
+import path from 'path';
+
+// Load environment variables
+config({ path: path.resolve(process.cwd(), '.env.local') });
+
+async function main() {
+  const args = process.argv.slice(2);
+  const countryCode = args.find(arg => arg.startsWith('--country='))?.split('=')[1] || 'CZE';
+  const currentYear = new Date().getFullYear();
+  const years = args.filter(arg => /^\d{4}$/.test(arg)).map(Number);
+  if (years.length === 0) {
+    years.push(currentYear, currentYear + 1);
+  }
+
+  const { holidayService } = await import('../src/lib/services/holiday-service');
+
+  for (const year of years) {
+    const count = await holidayService.materializeObservances(year, countryCode);
+    const holidays = await holidayService.getHolidaysForDateRange(`${year}-01-01`, `${year}-12-31`, 'CZ', countryCode);
+
+    console.log(`\n🗓️ ${countryCode} ${year}: ${count} holidays observed`);
+    holidays.forEach(holiday => {
+      console.log(`   ${holiday.observed_date}  ${holiday.holiday_name}${holiday.region_code ? ` (${holiday.region_code})` : ''}`);
+    });
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('❌ Failed to populate holiday observances:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,21 @@
+import { SavedAnalysisView } from "@/components/analysis/saved-analysis-view";
+import { Footer } from "@/components/layout/footer";
+
+export default async function SavedAnalysisPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <main className="pt-28 sm:pt-32 pb-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-5xl mx-auto">
+          <SavedAnalysisView analysisId={id} />
+        </div>
+      </main>
+      <Footer />
+    </div>
+  );
+}
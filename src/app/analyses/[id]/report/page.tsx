@@ -0,0 +1,81 @@
+import { notFound } from "next/navigation";
+import { z } from "zod";
+import { AnalysisReportView } from "@/components/analysis/analysis-report";
+import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { analysisHistoryService } from "@/lib/services/analysis-history";
+import { analysisReportBuilder } from "@/lib/services/analysis-report";
+import { holidayService } from "@/lib/services/holiday-service";
+import { getReportShareSecret, verifyReportShareToken } from "@/lib/utils/report-share-tokens";
+
+export const dynamic = "force-dynamic";
+
+export const metadata = {
+  title: "Conflict analysis report | Oslavu",
+  robots: { index: false }
+};
+
+export default async function AnalysisReportPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const { id } = await params;
+  if (!z.string().uuid().safeParse(id).success) {
+    notFound();
+  }
+
+  const analysis = await analysisHistoryService.getAnalysis(id);
+  if (!analysis) {
+    notFound();
+  }
+
+  // Analyses owned by an organisation need a share link from POST /api/analyses/[id]/share
+  const query = await searchParams;
+  if (analysis.organisationId) {
+    const token = Array.isArray(query.token) ? query.token[0] : query.token;
+    const secret = getReportShareSecret();
+    if (!token || !secret || !verifyReportShareToken(id, token, secret)) {
+      return <ShareLinkRequired invalidLink={Boolean(token)} />;
+    }
+  }
+
+  const branding = analysisReportBuilder.parseBranding(query);
+  const schoolHolidays = await holidayService.getSchoolHolidays(
+    analysis.request.dateRangeStart,
+    analysis.request.dateRangeEnd,
+    analysis.request.city
+  );
+  const report = analysisReportBuilder.buildReport(analysis, branding, new Date(), schoolHolidays);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <main className="pt-28 sm:pt-32 pb-12 px-4 sm:px-6 lg:px-8 print:p-0">
+        <div className="max-w-5xl mx-auto">
+          <AnalysisReportView report={report} />
+        </div>
+      </main>
+    </div>
+  );
+}
+
+function ShareLinkRequired({ invalidLink }: { invalidLink: boolean }) {
+  return (
+    <div className="min-h-screen bg-background">
+      <main className="pt-28 sm:pt-32 pb-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-xl mx-auto">
+          <Card>
+            <CardHeader>
+              <CardTitle>{invalidLink ? "This report link is invalid or has expired" : "This report needs a share link"}</CardTitle>
+              <CardDescription>
+                The analysis belongs to an organisation. Ask its owner for a new link; links are
+                created with an API key of the organisation and stay valid for a limited time.
+              </CardDescription>
+            </CardHeader>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
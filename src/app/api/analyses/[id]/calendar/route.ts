@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { analysisHistoryService } from '@/lib/services/analysis-history';
+import { calendarExportService } from '@/lib/services/calendar-export';
+import { canAccessOrganisationResource, getOptionalAuthContext } from '@/lib/utils/auth';
+
+const AnalysisIdSchema = z.string().uuid();
+
+/**
+ * GET /api/analyses/[id]/calendar - Download a saved analysis as an .ics file.
+ * Contains every competing event plus the recommended windows as all-day blocks.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await getOptionalAuthContext(request, 'events:read');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const { id } = await params;
+
+    const idValidation = AnalysisIdSchema.safeParse(id);
+    if (!idValidation.success) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid analysis ID',
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    const analysis = await analysisHistoryService.getAnalysis(id);
+    if (!analysis || !canAccessOrganisationResource(auth, analysis.organisationId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Analysis not found',
+        timestamp: new Date().toISOString()
+      }, { status: 404 });
+    }
+
+    const calendar = calendarExportService.buildAnalysisCalendar(analysis, {
+      analysisUrl: `${request.nextUrl.origin}/analyses/${analysis.id}`
+    });
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `attachment; filename="oslavu-analysis-${analysis.id}.ics"`,
+        // Saved analyses never change
+        'Cache-Control': `${analysis.organisationId ? 'private' : 'public'}, max-age=300`
+      }
+    });
+  } catch (error) {
+    console.error('Error exporting analysis calendar:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to export analysis calendar',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
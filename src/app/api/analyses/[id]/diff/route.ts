@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { analysisHistoryService } from '@/lib/services/analysis-history';
+import { analysisDiffService } from '@/lib/services/analysis-diff';
+import { canAccessOrganisationResource, getOptionalAuthContext } from '@/lib/utils/auth';
+
+const AnalysisIdSchema = z.string().uuid();
+
+/**
+ * GET /api/analyses/[id]/diff?compareTo=<id> - Diff two versions of the same analysis.
+ * Without compareTo the analysis is compared with the version it was re-run from.
+ * The older of the two runs is always used as the base.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await getOptionalAuthContext(request, 'events:read');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const { id } = await params;
+    const compareTo = request.nextUrl.searchParams.get('compareTo');
+
+    const idValidation = AnalysisIdSchema.safeParse(id);
+    const compareValidation = compareTo ? AnalysisIdSchema.safeParse(compareTo) : { success: true };
+    if (!idValidation.success || !compareValidation.success) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid analysis ID',
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    const analysis = await analysisHistoryService.getAnalysis(id);
+    if (!analysis || !canAccessOrganisationResource(auth, analysis.organisationId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Analysis not found',
+        timestamp: new Date().toISOString()
+      }, { status: 404 });
+    }
+
+    const otherId = compareTo || analysis.parentAnalysisId;
+    if (!otherId || otherId === analysis.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'No other version to compare with',
+        message: 'Re-run the analysis or pass a compareTo analysis ID',
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    const other = await analysisHistoryService.getAnalysis(otherId);
+    if (!other || !canAccessOrganisationResource(auth, other.organisationId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Comparison analysis not found',
+        timestamp: new Date().toISOString()
+      }, { status: 404 });
+    }
+
+    const comparisonErrors = analysisDiffService.validateComparable(analysis, other);
+    if (comparisonErrors.length > 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'Analyses are not comparable',
+        details: comparisonErrors,
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    const analysisIsNewer = new Date(analysis.createdAt).getTime() >= new Date(other.createdAt).getTime();
+    const [base, compare] = analysisIsNewer ? [other, analysis] : [analysis, other];
+    const diff = analysisDiffService.diffAnalyses(base, compare);
+
+    return NextResponse.json({
+      success: true,
+      data: diff,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error diffing analyses:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to diff analyses',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { analysisHistoryService } from '@/lib/services/analysis-history';
+import { canAccessOrganisationResource, getOptionalAuthContext } from '@/lib/utils/auth';
+import { withRateLimit, rateLimitPolicies } from '@/lib/utils/rate-limiting';
+import { enforceQuota } from '@/lib/utils/quotas';
+import { usageMeteringService } from '@/lib/services/usage-metering';
+
+const AnalysisIdSchema = z.string().uuid();
+
+/**
+ * POST /api/analyses/[id]/rerun - Re-run a saved analysis with today's data
+ * The new result is stored as a new version linked to the original analysis
+ */
+export const POST = withRateLimit(rateLimitPolicies.rerun, async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  const auth = await getOptionalAuthContext(request, 'analyze');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const { id } = await params;
+
+    const idValidation = AnalysisIdSchema.safeParse(id);
+    if (!idValidation.success) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid analysis ID',
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    const original = await analysisHistoryService.getAnalysis(id);
+    if (!original || !canAccessOrganisationResource(auth, original.organisationId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Analysis not found',
+        timestamp: new Date().toISOString()
+      }, { status: 404 });
+    }
+
+    // The re-run repeats the saved request, including its Perplexity research
+    const quotaResponse = await enforceQuota(auth, 'analysis')
+      || (original.request.enablePerplexityResearch ? await enforceQuota(auth, 'perplexity_research') : null);
+    if (quotaResponse) {
+      return quotaResponse;
+    }
+
+    const analysis = await usageMeteringService.withReservation(auth, 'analysis', 1, () =>
+      analysisHistoryService.rerunAnalysis(id)
+    );
+    if (!analysis) {
+      return NextResponse.json({
+        success: false,
+        error: 'Analysis not found',
+        timestamp: new Date().toISOString()
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        analysis
+      },
+      message: `Analysis re-run as version ${analysis.version}`,
+      timestamp: new Date().toISOString()
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error re-running analysis:', {
+      message: error instanceof Error ? error.message : 'Unknown error',
+      ...(process.env.NODE_ENV === 'development' && { fullError: error })
+    });
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to re-run analysis',
+      message: 'An error occurred while processing the analysis',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { analysisHistoryService } from '@/lib/services/analysis-history';
+import { canAccessOrganisationResource, getOptionalAuthContext } from '@/lib/utils/auth';
+
+const AnalysisIdSchema = z.string().uuid();
+
+/**
+ * GET /api/analyses/[id] - Get a saved analysis with its full result and version history
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await getOptionalAuthContext(request, 'events:read');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const { id } = await params;
+
+    const idValidation = AnalysisIdSchema.safeParse(id);
+    if (!idValidation.success) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid analysis ID',
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    const analysis = await analysisHistoryService.getAnalysis(id);
+    if (!analysis || !canAccessOrganisationResource(auth, analysis.organisationId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Analysis not found',
+        timestamp: new Date().toISOString()
+      }, { status: 404 });
+    }
+
+    const versions = await analysisHistoryService.getVersions(analysis);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        analysis,
+        versions
+      },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error fetching analysis:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch analysis',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { analysisHistoryService } from '@/lib/services/analysis-history';
+import { canAccessOrganisationResource, requireScope } from '@/lib/utils/auth';
+import {
+  createReportShareToken,
+  DEFAULT_REPORT_SHARE_HOURS,
+  getReportShareSecret,
+  MAX_REPORT_SHARE_HOURS
+} from '@/lib/utils/report-share-tokens';
+
+const AnalysisIdSchema = z.string().uuid();
+
+const ShareReportSchema = z.object({
+  expiresInHours: z.number().int().min(1).max(MAX_REPORT_SHARE_HOURS).optional()
+});
+
+/**
+ * POST /api/analyses/[id]/share - Create an expiring link to the client report
+ * Organisation analyses are only shown on the report page with such a link
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireScope(request, 'events:read');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const { id } = await params;
+
+    const idValidation = AnalysisIdSchema.safeParse(id);
+    if (!idValidation.success) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid analysis ID',
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    const body = await request.text();
+    const { expiresInHours = DEFAULT_REPORT_SHARE_HOURS } = ShareReportSchema.parse(body ? JSON.parse(body) : {});
+
+    const secret = getReportShareSecret();
+    if (!secret) {
+      return NextResponse.json({
+        success: false,
+        error: 'Report sharing is not configured',
+        timestamp: new Date().toISOString()
+      }, { status: 503 });
+    }
+
+    const analysis = await analysisHistoryService.getAnalysis(id);
+    if (!analysis || !canAccessOrganisationResource(auth, analysis.organisationId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Analysis not found',
+        timestamp: new Date().toISOString()
+      }, { status: 404 });
+    }
+
+    const expiresAt = new Date(Date.now() + expiresInHours * 60 * 60 * 1000);
+    const token = createReportShareToken(id, expiresAt, secret);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        token,
+        url: `/analyses/${id}/report?token=${token}`,
+        expiresAt: expiresAt.toISOString()
+      },
+      timestamp: new Date().toISOString()
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error sharing analysis report:', error);
+
+    if (error instanceof z.ZodError || error instanceof SyntaxError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid share request',
+        details: error instanceof z.ZodError ? error.errors : undefined,
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to share analysis report',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
@@ -1,18 +1,34 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { serverDatabaseService } from '@/lib/supabase';
+import { getOptionalAuthContext, requireScope } from '@/lib/utils/auth';
 
 /**
- * GET /api/analyses - Get all saved conflict analyses
+ * GET /api/analyses - Get saved conflict analyses.
+ * With an organisation API key only that organisation's analyses are listed,
+ * without a key only anonymous ones.
  */
 export async function GET(request: NextRequest) {
+  const auth = await getOptionalAuthContext(request, 'events:read');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
   try {
     console.log('Fetching all conflict analyses from database...');
     
     const { data: analyses, error } = await serverDatabaseService.executeWithRetry(async () => {
-      const result = await serverDatabaseService.getClient()
+      let query = serverDatabaseService.getClient()
         .from('conflict_analyses')
         .select('*')
         .order('created_at', { ascending: false });
+
+      if (!auth) {
+        query = query.is('organisation_id', null);
+      } else if (!auth.isOperator) {
+        query = query.eq('organisation_id', auth.organisationId);
+      }
+
+      const result = await query;
       return result;
     });
 
@@ -49,6 +65,18 @@ export async function GET(request: NextRequest) {
  * POST /api/analyses - Test database connection
  */
 export async function POST(request: NextRequest) {
+  const auth = await requireScope(request, 'org:admin');
+  if (auth instanceof Response) {
+    return auth;
+  }
+  if (!auth.isOperator) {
+    return NextResponse.json({
+      success: false,
+      error: 'Database connection test is only available to the operator',
+      timestamp: new Date().toISOString()
+    }, { status: 403 });
+  }
+
   try {
     console.log('Testing database connection...');
     
@@ -0,0 +1,94 @@
+// src/app/api/analyze/compare/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { cityComparisonService } from '@/lib/services/city-comparison';
+import { scoringProfileService } from '@/lib/services/scoring-profiles';
+import { CityComparisonRequestSchema } from '@/types/city-comparison';
+import { sanitizeCityName } from '@/lib/utils/input-sanitization';
+import { getOptionalAuthContext } from '@/lib/utils/auth';
+import { enforceQuota } from '@/lib/utils/quotas';
+import { usageMeteringService } from '@/lib/services/usage-metering';
+import { withRateLimit, rateLimitPolicies } from '@/lib/utils/rate-limiting';
+
+/**
+ * POST /api/analyze/compare - Run the same conflict analysis for several cities
+ * and return them ranked by their best date
+ */
+export const POST = withRateLimit(rateLimitPolicies.compare, async (request: NextRequest) => {
+  const auth = await getOptionalAuthContext(request, 'analyze');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const body = await request.json();
+    const validation = CityComparisonRequestSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid comparison request',
+        details: validation.error.errors,
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    const cityErrors: string[] = [];
+    const cities = validation.data.cities.map(city => {
+      const result = sanitizeCityName(city);
+      if (!result.isValid) {
+        cityErrors.push(`${city}: ${result.errors.join(', ')}`);
+      }
+      return result.sanitizedValue;
+    });
+
+    if (cityErrors.length > 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid city name',
+        details: cityErrors,
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    const scoringWeights = await scoringProfileService.resolveWeights({
+      profileId: validation.data.scoringProfileId,
+      userId: auth?.userId,
+      isOperator: auth?.isOperator
+    });
+    if (scoringWeights === null) {
+      return NextResponse.json({
+        success: false,
+        error: 'Scoring profile not found',
+        timestamp: new Date().toISOString()
+      }, { status: 404 });
+    }
+
+    // Each compared city counts as one analysis, and one Perplexity research when enabled
+    const quotaResponse = await enforceQuota(auth, 'analysis', cities.length)
+      || (validation.data.enablePerplexityResearch ? await enforceQuota(auth, 'perplexity_research', cities.length) : null);
+    if (quotaResponse) {
+      return quotaResponse;
+    }
+
+    const comparison = await usageMeteringService.withReservation(auth, 'analysis', cities.length, () =>
+      cityComparisonService.compareCities({ ...validation.data, cities }, scoringWeights, {
+        userId: auth?.userId,
+        organisationId: auth?.organisationId
+      })
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: comparison,
+      message: `Compared ${cities.length} cities`,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error comparing cities:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to compare cities',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+});
@@ -5,6 +5,7 @@ import { Event } from '@/types';
 import { sanitizeApiParameters, logSanitizationResults } from '@/lib/utils/input-sanitization';
 import { getCityCountryCode } from '@/lib/utils/city-country-mapping';
 import { cityNormalizationService } from '@/lib/services/city-normalization';
+import { ticketmasterEventProvider } from '@/lib/services/event-providers';
 
 // Helper function to create responses with proper headers
 function createResponse(data: any, options: { status?: number } = {}) {
@@ -19,22 +20,6 @@ function createResponse(data: any, options: { status?: number } = {}) {
   });
 }
 
-// Helper function to remove duplicate events
-function removeDuplicateEvents(events: Event[]): Event[] {
-  const uniqueEvents: Event[] = [];
-  const seenEvents = new Set<string>();
-
-  for (const event of events) {
-    const eventKey = `${event.title}-${event.date}-${event.venue || ''}`;
-    if (!seenEvents.has(eventKey)) {
-      seenEvents.add(eventKey);
-      uniqueEvents.push(event);
-    }
-  }
-
-  return uniqueEvents;
-}
-
 // Define the interface for transformed parameters
 interface TicketmasterTransformation {
   city?: string;
@@ -200,148 +185,16 @@ export async function GET(request: NextRequest) {
         }
       } else if (city && startDate && endDate) {
         // Get events for city and date range - use expanded category search
-        const searchCity = city;
-        const searchRadius = cleanRadius;
-        
-        console.log('🎟️ Using expanded category search for city search:', {
-          city: searchCity,
+        events = await ticketmasterEventProvider.searchCity({
+          city,
           startDate,
           endDate,
-          primaryCategory: category,
-          expandedCategories,
-          radius: searchRadius,
+          category: category || undefined,
+          classifications: expandedCategories,
+          radius: cleanRadius || undefined,
+          size: size || 25,
           useComprehensiveFallback
         });
-        
-        // Optimized search strategy: Start with primary category, then try broader search if needed
-        const allEvents: Event[] = [];
-        
-        // First, try the primary category with a larger size
-        try {
-          // FIXED: Use proper Ticketmaster category mapping
-          const ticketmasterClassification = ticketmasterService.mapCategoryToTicketmaster ? 
-            ticketmasterService.mapCategoryToTicketmaster(category) : category;
-          
-          console.log(`🎟️ Ticketmaster: Mapped category "${category}" to "${ticketmasterClassification}"`);
-          
-          // NEW APPROACH: For Prague, use country-based search with AI city detection directly
-          // Check normalized city name (handles both "Prague" and "Praha")
-          let primaryResult;
-          if (searchCity.toLowerCase() === 'prague') {
-            console.log(`🎟️ Route: Using country-based search with AI city detection for Prague`);
-            primaryResult = await ticketmasterService.getEventsByCountryWithAICityDetection(
-              searchCity,
-              'CZ',
-              startDate,
-              endDate,
-              category
-            );
-          } else {
-            console.log(`🎟️ Route: Using standard search for ${searchCity}`);
-            primaryResult = await ticketmasterService.getEvents({
-              city: searchCity,
-              countryCode: getCityCountryCode(searchCity),
-              radius: searchRadius,
-              startDateTime: `${startDate}T00:00:00Z`,
-              endDateTime: `${endDate}T23:59:59Z`,
-              classificationName: ticketmasterClassification,
-              page: 0,
-              size: Math.min(size || 25, 50),
-            });
-          }
-          
-          allEvents.push(...primaryResult.events);
-          console.log(`🎟️ Found ${primaryResult.events.length} events for primary category "${category}"`);
-          
-          // If we found events, we can stop here to avoid rate limiting
-          if (primaryResult.events.length > 0) {
-            console.log(`🎟️ Primary search successful, skipping additional category searches to avoid rate limits`);
-          } else {
-            // Only try additional categories if primary search returned no results
-            console.log(`🎟️ Primary search returned no results, trying additional categories...`);
-            
-            // Try one additional category with a delay to respect rate limits
-            for (const searchCategory of expandedCategories.slice(1, 3)) { // Limit to 2 additional categories
-              try {
-                // Add delay between requests to respect rate limits
-                await new Promise(resolve => setTimeout(resolve, 500));
-                
-                // FIXED: Use proper Ticketmaster category mapping for additional searches
-                const mappedCategory = ticketmasterService.mapCategoryToTicketmaster(searchCategory);
-                console.log(`🎟️ Ticketmaster: Mapped additional category "${searchCategory}" to "${mappedCategory}"`);
-                
-                const result = await ticketmasterService.getEvents({
-                  city: searchCity,
-                  countryCode: getCityCountryCode(searchCity),
-                  radius: searchRadius,
-                  startDateTime: `${startDate}T00:00:00Z`,
-                  endDateTime: `${endDate}T23:59:59Z`,
-                  classificationName: mappedCategory, // FIXED: Use mapped classification
-                  page: 0,
-                  size: 10, // Smaller size for additional searches
-                });
-                
-                allEvents.push(...result.events);
-                console.log(`🎟️ Found ${result.events.length} events for category "${searchCategory}"`);
-                
-                // If we found events in this category, we can stop to avoid rate limits
-                if (result.events.length > 0) {
-                  console.log(`🎟️ Found events in "${searchCategory}", stopping additional searches to avoid rate limits`);
-                  break;
-                }
-              } catch (error) {
-                console.warn(`🎟️ Failed to search category "${searchCategory}":`, error);
-                // If we hit rate limits, stop trying additional categories
-                if (error instanceof Error && (error.message.includes('429') || error.message.includes('rate limit'))) {
-                  console.log(`🎟️ Rate limit hit, stopping additional category searches`);
-                  break;
-                }
-              }
-            }
-          }
-        } catch (error) {
-          console.warn(`🎟️ Primary search failed:`, error);
-        }
-        
-        // Remove duplicates and limit results
-        const uniqueEvents = removeDuplicateEvents(allEvents);
-        events = uniqueEvents.slice(0, size || 25);
-        
-        console.log(`🎟️ Total unique events found: ${events.length} (from ${allEvents.length} total)`);
-        if (events.length === 0 && useComprehensiveFallback) {
-          console.log('🎟️ Ticketmaster: No events found with direct search, trying comprehensive fallback');
-          events = await ticketmasterService.getEventsWithComprehensiveFallback(
-            searchCity,
-            startDate,
-            endDate,
-            category || undefined,
-            searchRadius || '50'
-          );
-        }
-        
-        // NEW APPROACH: If no events found for Czech cities, use country-based search with AI city detection
-        // Check normalized city name (handles both "Prague" and "Praha")
-        if (events.length === 0 && (searchCity.toLowerCase() === 'prague' || searchCity.toLowerCase().includes('czech'))) {
-          console.log(`🎟️ Ticketmaster: No events found for ${searchCity}, trying country-based search with AI city detection`);
-          
-          try {
-            // FIXED: Use the new country-based search method
-            const countryResult = await ticketmasterService.getEventsByCountryWithAICityDetection(
-              searchCity,
-              'CZ',
-              startDate,
-              endDate,
-              category
-            );
-            
-            if (countryResult.events.length > 0) {
-              console.log(`🎟️ Ticketmaster: Country-based search found ${countryResult.events.length} events for ${searchCity}`);
-              events = countryResult.events;
-            }
-          } catch (error) {
-            console.warn('🎟️ Ticketmaster: Alternative Prague search failed:', error);
-          }
-        }
       } else {
         // Get general events (AI transformer disabled, using original params)
         const searchCity = city;
@@ -1,21 +1,20 @@
 // src/app/api/analyze/route.ts
-import { NextRequest, NextResponse } from 'next/server';
-import { conflictAnalysisService } from '@/lib/services/conflict-analysis';
+import { after, NextRequest, NextResponse } from 'next/server';
 import { AnalysisRequest } from '@/types';
 import { sanitizeApiParameters, logSanitizationResults } from '@/lib/utils/input-sanitization';
-import { serverDatabaseService } from '@/lib/supabase';
-import { withRateLimit, rateLimitConfigs, getClientIdentifier } from '@/lib/utils/rate-limiting';
-
-export async function POST(request: NextRequest) {
-  // Apply rate limiting (strict for expensive AI operations)
-  const rateLimitResult = withRateLimit({
-    ...rateLimitConfigs.strict,
-    identifier: getClientIdentifier(request),
-  });
-
-  const rateLimitResponse = await rateLimitResult(request);
-  if (rateLimitResponse) {
-    return rateLimitResponse;
+import { analysisHistoryService } from '@/lib/services/analysis-history';
+import { SavedAnalysisRequest } from '@/types/analysis-history';
+import { withRateLimit, rateLimitPolicies } from '@/lib/utils/rate-limiting';
+import { scoringProfileService } from '@/lib/services/scoring-profiles';
+import { getOptionalAuthContext } from '@/lib/utils/auth';
+import { enforceQuota } from '@/lib/utils/quotas';
+import { jobQueueService } from '@/lib/services/job-queue';
+
+export const POST = withRateLimit(rateLimitPolicies.analyze, async (request: NextRequest) => {
+  // Anonymous requests from the web app are allowed; with an API key the analysis belongs to its organisation
+  const auth = await getOptionalAuthContext(request, 'analyze');
+  if (auth instanceof Response) {
+    return auth;
   }
 
   try {
@@ -88,8 +87,38 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Perform conflict analysis
-    console.log('Starting conflict analysis for:', {
+    // Resolve the scoring profile; its weights are saved with the analysis
+    const scoringProfileId: string | undefined = sanitizedBody.scoringProfileId || undefined;
+    if (scoringProfileId && !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(scoringProfileId)) {
+      return NextResponse.json(
+        { error: 'Invalid scoring profile ID' },
+        { status: 400 }
+      );
+    }
+    const scoringWeights = await scoringProfileService.resolveWeights({
+      profileId: scoringProfileId,
+      userId: auth?.userId,
+      isOperator: auth?.isOperator
+    });
+    if (scoringWeights === null) {
+      return NextResponse.json(
+        { error: 'Scoring profile not found' },
+        { status: 404 }
+      );
+    }
+
+    // Sanitization turns unknown parameters into strings ("false" included), so the flags come from the raw body
+    const enablePerplexityResearch = body.enablePerplexityResearch === true;
+    const enableLLMRelevanceFilter = typeof body.enableLLMRelevanceFilter === 'boolean' ? body.enableLLMRelevanceFilter : true;
+
+    // Enforce the organisation's monthly plan quotas
+    const quotaResponse = await enforceQuota(auth, 'analysis')
+      || (enablePerplexityResearch ? await enforceQuota(auth, 'perplexity_research') : null);
+    if (quotaResponse) {
+      return quotaResponse;
+    }
+
+    console.log('Queueing conflict analysis for:', {
       city: sanitizedBody.city,
       category: sanitizedBody.category,
       dateRange: sanitizedBody.dateRange,
@@ -97,119 +126,38 @@ export async function POST(request: NextRequest) {
 
     // Map incoming request to service params using sanitized data
     // (preferredStart and preferredEnd already calculated above during validation)
-
-    const analysis = await conflictAnalysisService.analyzeConflicts({
+    const savedRequest: SavedAnalysisRequest = {
       city: sanitizedBody.city,
       category: sanitizedBody.category,
-      subcategory: sanitizedBody.subcategory,
+      subcategory: sanitizedBody.subcategory || null,
       expectedAttendees: sanitizedBody.expectedAttendees,
-      startDate: preferredStart,
-      endDate: preferredEnd,
       dateRangeStart: sanitizedBody.dateRange.start,
       dateRangeEnd: sanitizedBody.dateRange.end,
-      enableAdvancedAnalysis: true, // ENABLED for audience overlap analysis
-      enablePerplexityResearch: sanitizedBody.enablePerplexityResearch || false, // Optional Perplexity research
-      enableLLMRelevanceFilter: sanitizedBody.enableLLMRelevanceFilter || true, // Opt-in LLM relevance filtering
-      useComprehensiveFallback: false, // DISABLED for performance - was causing 5min delays
-    });
-    
-    console.log('Analysis completed:', {
-      recommendations: analysis.recommendedDates.length,
-      highRisk: analysis.highRiskDates.length,
-      eventsConsidered: analysis.allEvents.length,
-      avgScore: (() => {
-        const all = [...analysis.recommendedDates, ...analysis.highRiskDates];
-        if (all.length === 0) return 0;
-        return all.reduce((sum, r) => sum + r.conflictScore, 0) / all.length;
-      })(),
-    });
-
-    // Save analysis results to database
-    try {
-      console.log('Saving analysis results to database...');
-      
-      // Create analysis record for database (using actual schema)
-      const averageConflictScore = (() => {
-        const all = [...analysis.recommendedDates, ...analysis.highRiskDates];
-        if (all.length === 0) return 0;
-        return all.reduce((sum, r) => sum + r.conflictScore, 0) / all.length;
-      })();
-
-      const analysisRecord = {
-        user_id: null, // Anonymous analysis for now
-        // Top-level fields matching database schema
-        city: sanitizedBody.city,
-        category: sanitizedBody.category, // Top-level column for querying/filtering
-        subcategory: sanitizedBody.subcategory || null, // Top-level column for querying/filtering
-        preferred_dates: [preferredStart, preferredEnd],
-        expected_attendees: sanitizedBody.expectedAttendees,
-        date_range_start: sanitizedBody.dateRange.start,
-        date_range_end: sanitizedBody.dateRange.end,
-        results: {
-          // Store all analysis data in the results JSONB field
-          city: sanitizedBody.city,
-          category: sanitizedBody.category,
-          subcategory: sanitizedBody.subcategory || null,
-          preferred_dates: [preferredStart, preferredEnd],
-          expected_attendees: sanitizedBody.expectedAttendees,
-          date_range_start: sanitizedBody.dateRange.start,
-          date_range_end: sanitizedBody.dateRange.end,
-          request_data: {
-            city: sanitizedBody.city,
-            category: sanitizedBody.category,
-            expected_attendees: sanitizedBody.expectedAttendees,
-            date_range: sanitizedBody.dateRange,
-            preferred_dates: [preferredStart, preferredEnd]
-          },
-          conflict_score: averageConflictScore,
-          recommendedDates: analysis.recommendedDates,
-          highRiskDates: analysis.highRiskDates,
-          allEvents: analysis.allEvents,
-          analysisDate: analysis.analysisDate,
-          summary: {
-            totalRecommendations: analysis.recommendedDates.length,
-            totalHighRiskDates: analysis.highRiskDates.length,
-            totalEventsAnalyzed: analysis.allEvents.length,
-            averageConflictScore: averageConflictScore
-          }
-        }
-      };
-
-      // Insert into conflict_analyses table
-      const { data: savedAnalysis, error: saveError } = await serverDatabaseService.executeWithRetry(async () => {
-        const result = await serverDatabaseService.getClient()
-          .from('conflict_analyses')
-          .insert(analysisRecord)
-          .select()
-          .single();
-        return result;
-      });
-
-      if (saveError) {
-        // Handle schema cache errors gracefully
-        if (saveError.code === 'PGRST204') {
-          console.warn('⚠️ Database schema cache needs refresh. Analysis results not saved. Please refresh PostgREST schema cache in Supabase Dashboard (Settings → API → Refresh schema cache).');
-        } else {
-          console.error('Failed to save analysis to database:', saveError);
-        }
-        // Continue with response even if save fails - analysis is still valid
-      } else {
-        console.log('Analysis saved to database with ID:', savedAnalysis?.id);
-      }
-    } catch (saveError) {
-      // Handle schema cache errors gracefully
-      if (saveError instanceof Error && saveError.message.includes('PGRST204')) {
-        console.warn('⚠️ Database schema cache needs refresh. Analysis results not saved. Please refresh PostgREST schema cache in Supabase Dashboard.');
-      } else {
-        console.error('Error saving analysis to database:', saveError);
+      preferredStartDate: preferredStart,
+      preferredEndDate: preferredEnd,
+      enablePerplexityResearch, // Optional Perplexity research
+      enableLLMRelevanceFilter, // LLM relevance filtering is on unless explicitly disabled
+      scoringProfileId: scoringProfileId || null,
+      scoringWeights: scoringWeights || null,
+    };
+
+    // The analysis runs as a background job; poll GET /api/jobs/[id] for progress and the result
+    const job = await jobQueueService.enqueueAnalysis({ request: savedRequest }, auth);
+
+    // Start right after the response is sent; the jobs cron retries failed attempts
+    after(async () => {
+      try {
+        await jobQueueService.processJob(job.id);
+      } catch (error) {
+        console.error(`Failed to start analysis job ${job.id}:`, error);
       }
-      // Continue with response even if save fails - analysis is still valid
-    }
+    });
 
     return NextResponse.json({
-      data: analysis,
-      message: 'Analysis completed successfully'
-    });
+      jobId: job.id,
+      status: job.status,
+      message: 'Analysis queued'
+    }, { status: 202 });
 
   } catch (error) {
     // Log error server-side only, without exposing sensitive details
@@ -234,7 +182,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // Health check endpoint
 export async function GET() {
@@ -0,0 +1,109 @@
+// src/app/api/analyze/series/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { conflictAnalysisService } from '@/lib/services/conflict-analysis';
+import { scoringProfileService } from '@/lib/services/scoring-profiles';
+import { EventSeriesRequestSchema } from '@/types/event-series';
+import { sanitizeCityName } from '@/lib/utils/input-sanitization';
+import { getOptionalAuthContext } from '@/lib/utils/auth';
+import { enforceQuota } from '@/lib/utils/quotas';
+import { usageMeteringService } from '@/lib/services/usage-metering';
+import { withRateLimit, rateLimitPolicies } from '@/lib/utils/rate-limiting';
+
+/**
+ * POST /api/analyze/series - Find the best schedule for a recurring series
+ * or a multi-day block, with the risk of every occurrence
+ */
+export const POST = withRateLimit(rateLimitPolicies.series, async (request: NextRequest) => {
+  const auth = await getOptionalAuthContext(request, 'analyze');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const body = await request.json();
+    const validation = EventSeriesRequestSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid series request',
+        details: validation.error.errors,
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    const data = validation.data;
+    const cityResult = sanitizeCityName(data.city);
+    if (!cityResult.isValid) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid city name',
+        details: cityResult.errors,
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    const scoringWeights = await scoringProfileService.resolveWeights({
+      profileId: data.scoringProfileId,
+      userId: auth?.userId,
+      isOperator: auth?.isOperator
+    });
+    if (scoringWeights === null) {
+      return NextResponse.json({
+        success: false,
+        error: 'Scoring profile not found',
+        timestamp: new Date().toISOString()
+      }, { status: 404 });
+    }
+
+    const startDate = data.startDate || data.dateRange.start;
+    const endDate = new Date(`${startDate}T00:00:00Z`);
+    endDate.setUTCDate(endDate.getUTCDate() + data.series.durationDays - 1);
+
+    const quotaResponse = await enforceQuota(auth, 'analysis');
+    if (quotaResponse) {
+      return quotaResponse;
+    }
+
+    const result = await usageMeteringService.withReservation(auth, 'analysis', 1, () => conflictAnalysisService.analyzeSeries({
+      city: cityResult.sanitizedValue,
+      category: data.category,
+      subcategory: data.subcategory,
+      expectedAttendees: data.expectedAttendees,
+      startDate,
+      endDate: endDate.toISOString().split('T')[0],
+      dateRangeStart: data.dateRange.start,
+      dateRangeEnd: data.dateRange.end,
+      enableAdvancedAnalysis: false,
+      enablePerplexityResearch: false,
+      enableLLMRelevanceFilter: true,
+      useComprehensiveFallback: false,
+      series: data.series,
+      scoringWeights,
+      organisationId: auth?.organisationId || null
+    }));
+
+    if (!result.bestPattern) {
+      return NextResponse.json({
+        success: false,
+        error: 'No schedule fits in the date range',
+        message: 'Widen the date range or shorten the occurrences',
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: `Scored ${result.candidatesEvaluated} schedules`,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error analyzing event series:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to analyze event series',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+});
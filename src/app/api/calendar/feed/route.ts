@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { eventStorageService } from '@/lib/services/event-storage';
+import { calendarExportService } from '@/lib/services/calendar-export';
+
+// How far back and ahead the feed reaches
+const FEED_PAST_DAYS = 30;
+const FEED_FUTURE_MONTHS = 12;
+const FEED_EVENT_LIMIT = 1000;
+
+const FeedQuerySchema = z.object({
+  city: z.string().min(1).max(100),
+  category: z.string().min(1).max(50).optional()
+});
+
+/**
+ * GET /api/calendar/feed?city=&category= - Subscribable iCalendar feed of stored events.
+ * Calendar apps poll this URL, so it always reflects the current events table.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const validation = FeedQuerySchema.safeParse({
+      city: searchParams.get('city') || undefined,
+      category: searchParams.get('category') || undefined
+    });
+
+    if (!validation.success) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid feed parameters',
+        details: validation.error.errors,
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    const { city, category } = validation.data;
+
+    const start = new Date();
+    start.setDate(start.getDate() - FEED_PAST_DAYS);
+    const end = new Date();
+    end.setMonth(end.getMonth() + FEED_FUTURE_MONTHS);
+
+    const events = await eventStorageService.searchEvents({
+      city,
+      category,
+      start_date: start.toISOString().split('T')[0],
+      end_date: end.toISOString().split('T')[0],
+      limit: FEED_EVENT_LIMIT,
+      offset: 0
+    });
+
+    const calendar = calendarExportService.buildEventFeed(events, { city, category });
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `inline; filename="oslavu-${city.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.ics"`,
+        'Cache-Control': 'public, s-maxage=900, stale-while-revalidate=3600' // 15 min cache
+      }
+    });
+  } catch (error) {
+    console.error('Error building calendar feed:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to build calendar feed',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
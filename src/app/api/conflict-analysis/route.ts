@@ -3,7 +3,7 @@ import { eventQueryService } from '@/lib/services/event-queries';
 import { eventStorageService } from '@/lib/services/event-storage';
 import { serverDatabaseService } from '@/lib/supabase';
 import { z } from 'zod';
-import { withRateLimit, rateLimitConfigs, getClientIdentifier } from '@/lib/utils/rate-limiting';
+import { withRateLimit, rateLimitPolicies } from '@/lib/utils/rate-limiting';
 
 const ConflictAnalysisSchema = z.object({
   city: z.string().min(1).max(100),
@@ -23,18 +23,7 @@ const ConflictAnalysisSchema = z.object({
 /**
  * POST /api/conflict-analysis - Enhanced conflict analysis using stored data
  */
-export async function POST(request: NextRequest) {
-  // Apply rate limiting (standard for analysis operations)
-  const rateLimitResult = withRateLimit({
-    ...rateLimitConfigs.standard,
-    identifier: getClientIdentifier(request),
-  });
-
-  const rateLimitResponse = await rateLimitResult(request);
-  if (rateLimitResponse) {
-    return rateLimitResponse;
-  }
-
+export const POST = withRateLimit(rateLimitPolicies.conflictAnalysis, async (request: NextRequest) => {
   try {
     const body = await request.json();
     const validatedData = ConflictAnalysisSchema.parse(body);
@@ -234,4 +223,4 @@ export async function POST(request: NextRequest) {
       timestamp: new Date().toISOString()
     }, { status: 500 });
   }
-}
+});
@@ -7,7 +7,7 @@ const CityEventsQuerySchema = z.object({
   start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
   end_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
   category: z.string().optional(),
-  source: z.enum(['ticketmaster', 'predicthq', 'meetup', 'manual', 'brno']).optional(),
+  source: z.enum(['ticketmaster', 'predicthq', 'meetup', 'eventbrite', 'manual', 'brno']).optional(),
   limit: z.number().int().min(1).max(1000).default(50),
   offset: z.number().int().min(0).default(0),
   upcoming_only: z.boolean().optional().default(false),
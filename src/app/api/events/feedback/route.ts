@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { feedbackProcessorService } from '@/lib/services/feedback-processor';
+import { requireScope } from '@/lib/utils/auth';
+
+const SubmitFeedbackSchema = z.object({
+  eventId: z.string().uuid(),
+  feedbackType: z.enum(['attendee_correction', 'venue_correction', 'capacity_report']),
+  reportedAttendees: z.number().int().positive().optional(),
+  actualAttendees: z.number().int().positive().optional(),
+  attendanceSource: z.enum(['ticket_sales', 'manual_count', 'organizer_report']).optional(),
+  notes: z.string().max(2000).optional()
+});
+
+/**
+ * GET /api/events/feedback?eventId=<id> - List the feedback the caller's organisation submitted for an event
+ */
+export async function GET(request: NextRequest) {
+  const auth = await requireScope(request, 'events:read');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const eventId = request.nextUrl.searchParams.get('eventId');
+    if (!eventId || !z.string().uuid().safeParse(eventId).success) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid event ID',
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    // The operator sees the feedback of every organisation
+    const feedback = await feedbackProcessorService.getEventFeedback(
+      eventId,
+      auth.isOperator ? undefined : auth.organisationId || undefined
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        feedback,
+        count: feedback.length
+      },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error fetching event feedback:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch event feedback',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/events/feedback - Submit an attendance, venue or capacity correction for an event
+ */
+export async function POST(request: NextRequest) {
+  const auth = await requireScope(request, 'feedback:write');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const body = await request.json();
+    const validatedData = SubmitFeedbackSchema.parse(body);
+
+    const result = await feedbackProcessorService.processFeedback({
+      event_id: validatedData.eventId,
+      feedback_type: validatedData.feedbackType,
+      reported_attendees: validatedData.reportedAttendees,
+      actual_attendees: validatedData.actualAttendees,
+      attendance_source: validatedData.attendanceSource,
+      notes: validatedData.notes,
+      user_id: auth.userId,
+      organisation_id: auth.organisationId
+    });
+
+    if (!result.success) {
+      return NextResponse.json({
+        success: false,
+        error: result.message,
+        details: result.errors,
+        timestamp: new Date().toISOString()
+      }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: result.message,
+      timestamp: new Date().toISOString()
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error submitting event feedback:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid feedback data',
+        details: error.errors,
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to submit event feedback',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { eventImportService } from '@/lib/services/event-import';
+import { requireScope } from '@/lib/utils/auth';
+import { EventImportRequestSchema } from '@/types/event-import';
+
+/**
+ * Read the import request from JSON or from a multipart upload with a `file` field.
+ * In multipart requests `mapping` is a JSON string.
+ */
+async function readImportRequest(request: NextRequest): Promise<unknown> {
+  const contentType = request.headers.get('content-type') || '';
+  if (!contentType.includes('multipart/form-data')) {
+    return await request.json();
+  }
+
+  const formData = await request.formData();
+  const field = (name: string) => {
+    const value = formData.get(name);
+    return typeof value === 'string' && value !== '' ? value : undefined;
+  };
+  const file = formData.get('file');
+  const mapping = field('mapping');
+
+  return {
+    format: field('format'),
+    sourceName: field('sourceName') || (file instanceof File ? file.name : undefined),
+    city: field('city'),
+    category: field('category'),
+    delimiter: field('delimiter'),
+    timeZone: field('timeZone'),
+    mapping: mapping ? JSON.parse(mapping) : undefined,
+    url: field('url'),
+    content: file instanceof File ? await file.text() : undefined
+  };
+}
+
+/**
+ * POST /api/events/import - Import events from an ICS feed or CSV file.
+ * Accepts JSON with a url or content, or a multipart upload.
+ */
+export async function POST(request: NextRequest) {
+  const auth = await requireScope(request, 'scraper:admin');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const body = await readImportRequest(request);
+    const validatedData = EventImportRequestSchema.parse(body);
+
+    const result = await eventImportService.importEvents(validatedData);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        parsed: result.parsed,
+        duplicatesRemoved: result.duplicatesRemoved,
+        created: result.created,
+        updated: result.updated,
+        skipped: result.skipped,
+        errors: result.errors
+      },
+      message: `Imported ${result.created} new and ${result.updated} updated events`,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error importing events:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid import request',
+        details: error.errors,
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid JSON in request body or mapping',
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to import events',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
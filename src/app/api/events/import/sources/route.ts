@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { eventImportService } from '@/lib/services/event-import';
+import { requireScope } from '@/lib/utils/auth';
+import { EventImportSettingsSchema } from '@/types/event-import';
+
+const CreateImportSourceSchema = z.object({
+  name: z.string().min(1).max(100),
+  url: z.string().url(),
+  enabled: z.boolean().optional(),
+  config: EventImportSettingsSchema
+});
+
+/**
+ * GET /api/events/import/sources - List ICS/CSV imports registered in scraper_sources
+ */
+export async function GET(request: NextRequest) {
+  const auth = await requireScope(request, 'scraper:admin');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const sources = await eventImportService.listSources();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        sources,
+        count: sources.length
+      },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error fetching import sources:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch import sources',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/events/import/sources - Register an ICS feed or CSV URL that refreshes
+ * on the normal scraper sync schedule
+ */
+export async function POST(request: NextRequest) {
+  const auth = await requireScope(request, 'scraper:admin');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const body = await request.json();
+    const validatedData = CreateImportSourceSchema.parse(body);
+
+    const source = await eventImportService.createSource(validatedData);
+
+    return NextResponse.json({
+      success: true,
+      data: source,
+      message: 'Import source registered',
+      timestamp: new Date().toISOString()
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating import source:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid import source data',
+        details: error.errors,
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to create import source',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
@@ -1,11 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { dataSyncService } from '@/lib/services/data-sync';
-import { ticketmasterService } from '@/lib/services/ticketmaster';
-import { predicthqService } from '@/lib/services/predicthq';
+import { eventProviderRegistry } from '@/lib/services/event-provider-registry';
 import { z } from 'zod';
 
 const SyncRequestSchema = z.object({
-  sources: z.array(z.enum(['ticketmaster', 'predicthq', 'all'])).optional().default(['all']),
+  sources: z.array(z.string().refine(
+    source => source === 'all' || eventProviderRegistry.getSyncProviders().some(provider => provider.info.id === source),
+    source => ({ message: `Unknown or unconfigured sync source: ${source}` })
+  )).optional().default(['all']),
   cities: z.array(z.string()).optional(),
   start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
   end_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
@@ -24,7 +26,7 @@ export async function POST(request: NextRequest) {
 
     // Determine which sources to sync
     const sourcesToSync = validatedData.sources.includes('all') 
-      ? ['ticketmaster', 'predicthq'] 
+      ? eventProviderRegistry.getSyncProviders().map(provider => provider.info.id)
       : validatedData.sources;
 
     // If specific cities are provided, sync those cities
@@ -37,35 +39,20 @@ export async function POST(request: NextRequest) {
       })();
 
       for (const city of validatedData.cities) {
-        for (const source of sourcesToSync) {
-          try {
-            let result;
-            if (source === 'ticketmaster') {
-              result = await ticketmasterService.syncEventsForCity(city, startDate, endDate);
-            } else if (source === 'predicthq') {
-              result = await predicthqService.syncEventsForCity(city, startDate, endDate);
-            } else {
-              continue;
-            }
+        const syncResults = await dataSyncService.syncForCity(city, startDate, endDate, sourcesToSync);
 
-            results.push({
-              source,
-              city,
-              success: result.errors.length === 0,
-              events_found: result.events.length,
-              events_stored: result.stored,
-              errors: result.errors
-            });
-          } catch (error) {
-            results.push({
-              source,
-              city,
-              success: false,
-              events_found: 0,
-              events_stored: 0,
-              errors: [error instanceof Error ? error.message : 'Unknown error']
-            });
-          }
+        for (const result of syncResults) {
+          results.push({
+            source: result.source,
+            city,
+            success: result.success,
+            events_processed: result.events_processed,
+            events_created: result.events_created,
+            events_updated: result.events_updated,
+            events_skipped: result.events_skipped,
+            errors: result.errors,
+            duration_ms: result.duration_ms
+          });
         }
       }
     } else {
@@ -86,9 +73,9 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    const totalEvents = results.reduce((sum, r) => sum + (r.events_found || r.events_processed || 0), 0);
-    const totalStored = results.reduce((sum, r) => sum + (r.events_stored || r.events_created || 0), 0);
-    const totalErrors = results.reduce((sum, r) => sum + (r.errors?.length || 0), 0);
+    const totalEvents = results.reduce((sum, r) => sum + r.events_processed, 0);
+    const totalStored = results.reduce((sum, r) => sum + r.events_created, 0);
+    const totalErrors = results.reduce((sum, r) => sum + r.errors.length, 0);
 
     return NextResponse.json({
       success: true,
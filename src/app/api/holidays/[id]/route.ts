@@ -0,0 +1,172 @@
+// src/app/api/holidays/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { holidayService } from '@/lib/services/holiday-service';
+import { requireScope } from '@/lib/utils/auth';
+import { ApiError } from '@/lib/utils/error-handling';
+import { UpdateHolidaySchema } from '@/types/holidays';
+
+const HolidayIdSchema = z.string().uuid();
+
+function invalidIdResponse() {
+  return NextResponse.json({
+    success: false,
+    error: 'Invalid holiday ID',
+    timestamp: new Date().toISOString()
+  }, { status: 400 });
+}
+
+function notFoundResponse() {
+  return NextResponse.json({
+    success: false,
+    error: 'Holiday not found',
+    timestamp: new Date().toISOString()
+  }, { status: 404 });
+}
+
+function operatorOnlyResponse() {
+  return NextResponse.json({
+    success: false,
+    error: 'Only the operator can change holidays',
+    timestamp: new Date().toISOString()
+  }, { status: 403 });
+}
+
+/**
+ * GET /api/holidays/[id] - Get a holiday definition
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    if (!HolidayIdSchema.safeParse(id).success) {
+      return invalidIdResponse();
+    }
+
+    const holiday = await holidayService.getHoliday(id);
+    if (!holiday) {
+      return notFoundResponse();
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        holiday
+      },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error fetching holiday:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch holiday',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/holidays/[id] - Change a holiday's rule, impact or whether it is observed.
+ * Its generated observances are recomputed.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireScope(request, 'org:admin');
+  if (auth instanceof Response) {
+    return auth;
+  }
+  if (!auth.isOperator) {
+    return operatorOnlyResponse();
+  }
+
+  try {
+    const { id } = await params;
+    if (!HolidayIdSchema.safeParse(id).success) {
+      return invalidIdResponse();
+    }
+
+    const body = await request.json();
+    const updates = UpdateHolidaySchema.parse(body);
+
+    const holiday = await holidayService.updateHoliday(id, updates);
+    if (!holiday) {
+      return notFoundResponse();
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        holiday
+      },
+      message: 'Holiday updated successfully',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error updating holiday:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid holiday data',
+        details: error.errors,
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    if (error instanceof ApiError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString()
+      }, { status: error.statusCode });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update holiday',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/holidays/[id] - Delete a holiday with its observances
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireScope(request, 'org:admin');
+  if (auth instanceof Response) {
+    return auth;
+  }
+  if (!auth.isOperator) {
+    return operatorOnlyResponse();
+  }
+
+  try {
+    const { id } = await params;
+    if (!HolidayIdSchema.safeParse(id).success) {
+      return invalidIdResponse();
+    }
+
+    await holidayService.deleteHoliday(id);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Holiday deleted successfully',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error deleting holiday:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to delete holiday',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,176 @@
+// src/app/api/holidays/blackout-periods/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { blackoutPeriodService } from '@/lib/services/blackout-periods';
+import { canAccessOrganisationResource, canManageOrganisation, requireScope } from '@/lib/utils/auth';
+import { ApiError } from '@/lib/utils/error-handling';
+import { UpdateBlackoutPeriodSchema } from '@/types/holidays';
+
+const BlackoutPeriodIdSchema = z.string().uuid();
+
+function invalidIdResponse() {
+  return NextResponse.json({
+    success: false,
+    error: 'Invalid blackout period ID',
+    timestamp: new Date().toISOString()
+  }, { status: 400 });
+}
+
+function notFoundResponse() {
+  return NextResponse.json({
+    success: false,
+    error: 'Blackout period not found',
+    timestamp: new Date().toISOString()
+  }, { status: 404 });
+}
+
+/**
+ * GET /api/holidays/blackout-periods/[id] - Get a blackout period of the caller's organisation
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireScope(request, 'events:read');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const { id } = await params;
+    if (!BlackoutPeriodIdSchema.safeParse(id).success) {
+      return invalidIdResponse();
+    }
+
+    const blackoutPeriod = await blackoutPeriodService.getPeriod(id);
+    if (!blackoutPeriod || !canAccessOrganisationResource(auth, blackoutPeriod.organisation_id)) {
+      return notFoundResponse();
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        blackoutPeriod
+      },
+      timestamp: new Date().toISOString()
+    }, {
+      headers: {
+        'Cache-Control': 'private, no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching blackout period:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch blackout period',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/holidays/blackout-periods/[id] - Rename a blackout period or change its dates, city or impact
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireScope(request, 'org:admin');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const { id } = await params;
+    if (!BlackoutPeriodIdSchema.safeParse(id).success) {
+      return invalidIdResponse();
+    }
+
+    const existing = await blackoutPeriodService.getPeriod(id);
+    if (!existing || !canManageOrganisation(auth, existing.organisation_id)) {
+      return notFoundResponse();
+    }
+
+    const body = await request.json();
+    const updates = UpdateBlackoutPeriodSchema.parse(body);
+
+    const blackoutPeriod = await blackoutPeriodService.updatePeriod(id, updates);
+    if (!blackoutPeriod) {
+      return notFoundResponse();
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        blackoutPeriod
+      },
+      message: 'Blackout period updated successfully',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error updating blackout period:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid blackout period data',
+        details: error.errors,
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    if (error instanceof ApiError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString()
+      }, { status: error.statusCode });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update blackout period',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/holidays/blackout-periods/[id] - Delete a blackout period
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireScope(request, 'org:admin');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const { id } = await params;
+    if (!BlackoutPeriodIdSchema.safeParse(id).success) {
+      return invalidIdResponse();
+    }
+
+    const existing = await blackoutPeriodService.getPeriod(id);
+    if (!existing || !canManageOrganisation(auth, existing.organisation_id)) {
+      return notFoundResponse();
+    }
+
+    await blackoutPeriodService.deletePeriod(id);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Blackout period deleted successfully',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error deleting blackout period:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to delete blackout period',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,129 @@
+// src/app/api/holidays/blackout-periods/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { blackoutPeriodService } from '@/lib/services/blackout-periods';
+import { canAccessOrganisationResource, canManageOrganisation, requireScope } from '@/lib/utils/auth';
+import { AuthContext } from '@/types/organisations';
+import { CreateBlackoutPeriodSchema } from '@/types/holidays';
+
+const OrganisationIdSchema = z.string().uuid();
+
+/**
+ * Organisation the request is for: the caller's own, or ?organisationId=<id> with the operator key
+ */
+function resolveOrganisationId(request: NextRequest, auth: AuthContext): string | null {
+  const organisationId = request.nextUrl.searchParams.get('organisationId') || auth.organisationId;
+  return organisationId && OrganisationIdSchema.safeParse(organisationId).success ? organisationId : null;
+}
+
+function invalidOrganisationResponse(auth: AuthContext) {
+  return NextResponse.json({
+    success: false,
+    error: 'Invalid organisation ID',
+    message: auth.isOperator ? 'Pass ?organisationId=<id> with the operator key' : undefined,
+    timestamp: new Date().toISOString()
+  }, { status: 400 });
+}
+
+function organisationNotFoundResponse() {
+  return NextResponse.json({
+    success: false,
+    error: 'Organisation not found',
+    timestamp: new Date().toISOString()
+  }, { status: 404 });
+}
+
+/**
+ * GET /api/holidays/blackout-periods - List the blackout periods of the caller's organisation.
+ * The operator key passes ?organisationId=<id>.
+ */
+export async function GET(request: NextRequest) {
+  const auth = await requireScope(request, 'events:read');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const organisationId = resolveOrganisationId(request, auth);
+    if (!organisationId) {
+      return invalidOrganisationResponse(auth);
+    }
+    if (!canAccessOrganisationResource(auth, organisationId)) {
+      return organisationNotFoundResponse();
+    }
+
+    const blackoutPeriods = await blackoutPeriodService.listPeriods(organisationId);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        blackoutPeriods,
+        count: blackoutPeriods.length
+      },
+      timestamp: new Date().toISOString()
+    }, {
+      headers: {
+        'Cache-Control': 'private, no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching blackout periods:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch blackout periods',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/holidays/blackout-periods - Add a blackout period (all-hands, trade-fair week,
+ * exam period). It restricts only this organisation's analyses.
+ */
+export async function POST(request: NextRequest) {
+  const auth = await requireScope(request, 'org:admin');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const organisationId = resolveOrganisationId(request, auth);
+    if (!organisationId) {
+      return invalidOrganisationResponse(auth);
+    }
+    if (!canManageOrganisation(auth, organisationId)) {
+      return organisationNotFoundResponse();
+    }
+
+    const body = await request.json();
+    const validatedData = CreateBlackoutPeriodSchema.parse(body);
+
+    const blackoutPeriod = await blackoutPeriodService.createPeriod(organisationId, validatedData, auth.userId);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        blackoutPeriod
+      },
+      message: 'Blackout period created successfully',
+      timestamp: new Date().toISOString()
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating blackout period:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid blackout period data',
+        details: error.errors,
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to create blackout period',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
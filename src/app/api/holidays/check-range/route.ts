@@ -1,9 +1,19 @@
 // src/app/api/holidays/check-range/route.ts
 import { NextRequest, NextResponse } from 'next/server';
 import { holidayService } from '@/lib/services/holiday-service';
+import { getOptionalAuthContext } from '@/lib/utils/auth';
 import { HolidayServiceConfig } from '@/types/holidays';
 
+/**
+ * POST /api/holidays/check-range - Available and restricted dates in a range.
+ * Called with an organisation key, the organisation's blackout periods restrict dates too.
+ */
 export async function POST(request: NextRequest) {
+  const auth = await getOptionalAuthContext(request, 'events:read');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
   try {
     const body = await request.json();
     const { 
@@ -11,6 +21,7 @@ export async function POST(request: NextRequest) {
       end_date, 
       country_code, 
       region_code, 
+      city,
       include_cultural_events = true, 
       business_impact_threshold = 'partial' 
     } = body;
@@ -25,11 +36,17 @@ export async function POST(request: NextRequest) {
     const config: HolidayServiceConfig = {
       country_code,
       region_code,
+      city,
       include_cultural_events,
       business_impact_threshold
     };
 
-    const availability = await holidayService.checkDateRangeAvailability(start_date, end_date, config);
+    const availability = await holidayService.checkDateRangeAvailability(
+      start_date,
+      end_date,
+      config,
+      auth?.organisationId
+    );
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,171 @@
+// src/app/api/holidays/cultural-events/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { holidayService } from '@/lib/services/holiday-service';
+import { requireScope } from '@/lib/utils/auth';
+import { ApiError } from '@/lib/utils/error-handling';
+import { UpdateCulturalEventSchema } from '@/types/holidays';
+
+const CulturalEventIdSchema = z.string().uuid();
+
+function invalidIdResponse() {
+  return NextResponse.json({
+    success: false,
+    error: 'Invalid cultural event ID',
+    timestamp: new Date().toISOString()
+  }, { status: 400 });
+}
+
+function notFoundResponse() {
+  return NextResponse.json({
+    success: false,
+    error: 'Cultural event not found',
+    timestamp: new Date().toISOString()
+  }, { status: 404 });
+}
+
+function operatorOnlyResponse() {
+  return NextResponse.json({
+    success: false,
+    error: 'Only the operator can change cultural events',
+    timestamp: new Date().toISOString()
+  }, { status: 403 });
+}
+
+/**
+ * GET /api/holidays/cultural-events/[id] - Get a cultural event
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    if (!CulturalEventIdSchema.safeParse(id).success) {
+      return invalidIdResponse();
+    }
+
+    const culturalEvent = await holidayService.getCulturalEvent(id);
+    if (!culturalEvent) {
+      return notFoundResponse();
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        culturalEvent
+      },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error fetching cultural event:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch cultural event',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/holidays/cultural-events/[id] - Change a cultural event's date rule, duration or impact
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireScope(request, 'org:admin');
+  if (auth instanceof Response) {
+    return auth;
+  }
+  if (!auth.isOperator) {
+    return operatorOnlyResponse();
+  }
+
+  try {
+    const { id } = await params;
+    if (!CulturalEventIdSchema.safeParse(id).success) {
+      return invalidIdResponse();
+    }
+
+    const body = await request.json();
+    const updates = UpdateCulturalEventSchema.parse(body);
+
+    const culturalEvent = await holidayService.updateCulturalEvent(id, updates);
+    if (!culturalEvent) {
+      return notFoundResponse();
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        culturalEvent
+      },
+      message: 'Cultural event updated successfully',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error updating cultural event:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid cultural event data',
+        details: error.errors,
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    if (error instanceof ApiError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString()
+      }, { status: error.statusCode });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update cultural event',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/holidays/cultural-events/[id] - Delete a cultural event
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireScope(request, 'org:admin');
+  if (auth instanceof Response) {
+    return auth;
+  }
+  if (!auth.isOperator) {
+    return operatorOnlyResponse();
+  }
+
+  try {
+    const { id } = await params;
+    if (!CulturalEventIdSchema.safeParse(id).success) {
+      return invalidIdResponse();
+    }
+
+    await holidayService.deleteCulturalEvent(id);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Cultural event deleted successfully',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error deleting cultural event:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to delete cultural event',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
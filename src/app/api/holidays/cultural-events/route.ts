@@ -0,0 +1,99 @@
+// src/app/api/holidays/cultural-events/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { holidayService } from '@/lib/services/holiday-service';
+import { requireScope } from '@/lib/utils/auth';
+import { ApiError } from '@/lib/utils/error-handling';
+import { CreateCulturalEventSchema } from '@/types/holidays';
+
+/**
+ * GET /api/holidays/cultural-events - List cultural events, optionally of one country (?country=CZE)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const country = request.nextUrl.searchParams.get('country');
+    const culturalEvents = await holidayService.listCulturalEvents(country ? country.toUpperCase() : undefined);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        culturalEvents,
+        count: culturalEvents.length
+      },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error fetching cultural events:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch cultural events',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/holidays/cultural-events - Add a cultural event. Cultural events apply to
+ * every analysis in their country, so only the operator (shared API_KEY) can add them.
+ */
+export async function POST(request: NextRequest) {
+  const auth = await requireScope(request, 'org:admin');
+  if (auth instanceof Response) {
+    return auth;
+  }
+  if (!auth.isOperator) {
+    return NextResponse.json({
+      success: false,
+      error: 'Only the operator can add cultural events; use blackout periods for organisation dates',
+      timestamp: new Date().toISOString()
+    }, { status: 403 });
+  }
+
+  try {
+    const body = await request.json();
+    const validatedData = CreateCulturalEventSchema.parse(body);
+
+    const culturalEvent = await holidayService.createCulturalEvent(validatedData);
+    if (!culturalEvent) {
+      return NextResponse.json({
+        success: false,
+        error: 'Failed to create cultural event',
+        timestamp: new Date().toISOString()
+      }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        culturalEvent
+      },
+      message: 'Cultural event created successfully',
+      timestamp: new Date().toISOString()
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating cultural event:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid cultural event data',
+        details: error.errors,
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    if (error instanceof ApiError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString()
+      }, { status: error.statusCode });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to create cultural event',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
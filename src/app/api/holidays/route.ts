@@ -0,0 +1,99 @@
+// src/app/api/holidays/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { holidayService } from '@/lib/services/holiday-service';
+import { requireScope } from '@/lib/utils/auth';
+import { ApiError } from '@/lib/utils/error-handling';
+import { CreateHolidaySchema } from '@/types/holidays';
+
+/**
+ * GET /api/holidays - List holiday definitions, optionally of one country (?country=CZE)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const country = request.nextUrl.searchParams.get('country');
+    const holidays = await holidayService.listHolidays(country ? country.toUpperCase() : undefined);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        holidays,
+        count: holidays.length
+      },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error fetching holidays:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch holidays',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/holidays - Add a holiday. Holidays apply to every analysis in
+ * their country, so only the operator (shared API_KEY) can add them.
+ */
+export async function POST(request: NextRequest) {
+  const auth = await requireScope(request, 'org:admin');
+  if (auth instanceof Response) {
+    return auth;
+  }
+  if (!auth.isOperator) {
+    return NextResponse.json({
+      success: false,
+      error: 'Only the operator can add holidays; use blackout periods for organisation dates',
+      timestamp: new Date().toISOString()
+    }, { status: 403 });
+  }
+
+  try {
+    const body = await request.json();
+    const validatedData = CreateHolidaySchema.parse(body);
+
+    const holiday = await holidayService.createHoliday(validatedData);
+    if (!holiday) {
+      return NextResponse.json({
+        success: false,
+        error: 'Failed to create holiday',
+        timestamp: new Date().toISOString()
+      }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        holiday
+      },
+      message: 'Holiday created successfully',
+      timestamp: new Date().toISOString()
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating holiday:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid holiday data',
+        details: error.errors,
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    if (error instanceof ApiError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString()
+      }, { status: error.statusCode });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to create holiday',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { jobQueueService } from '@/lib/services/job-queue';
+import { canAccessOrganisationResource, getOptionalAuthContext } from '@/lib/utils/auth';
+import { isTerminalJobStatus } from '@/lib/utils/job-queue';
+
+const JobIdSchema = z.string().uuid();
+
+/**
+ * POST /api/jobs/[id]/cancel - Cancel a queued job, or stop a running one at its next step
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await getOptionalAuthContext(request, 'analyze');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const { id } = await params;
+
+    if (!JobIdSchema.safeParse(id).success) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid job ID',
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    const existing = await jobQueueService.getJob(id);
+    if (!existing || !canAccessOrganisationResource(auth, existing.organisationId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Job not found',
+        timestamp: new Date().toISOString()
+      }, { status: 404 });
+    }
+
+    if (isTerminalJobStatus(existing.status)) {
+      return NextResponse.json({
+        success: false,
+        error: `Job already ${existing.status}`,
+        timestamp: new Date().toISOString()
+      }, { status: 409 });
+    }
+
+    const job = await jobQueueService.cancelJob(id);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        job
+      },
+      message: job?.status === 'cancelled' ? 'Job cancelled' : 'Cancellation requested',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error cancelling job:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to cancel job',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { jobQueueService } from '@/lib/services/job-queue';
+import { canAccessOrganisationResource, getOptionalAuthContext } from '@/lib/utils/auth';
+
+const JobIdSchema = z.string().uuid();
+
+/**
+ * GET /api/jobs/[id] - Get a background job with its current step, progress and, once finished, its result
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await getOptionalAuthContext(request, 'events:read');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const { id } = await params;
+
+    if (!JobIdSchema.safeParse(id).success) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid job ID',
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    const job = await jobQueueService.getJob(id);
+    if (!job || !canAccessOrganisationResource(auth, job.organisationId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Job not found',
+        timestamp: new Date().toISOString()
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        job
+      },
+      timestamp: new Date().toISOString()
+    }, {
+      headers: {
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching job:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch job',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
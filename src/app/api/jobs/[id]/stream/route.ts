@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { jobQueueService } from '@/lib/services/job-queue';
+import { canAccessOrganisationResource, getOptionalAuthContext } from '@/lib/utils/auth';
+import { isTerminalJobStatus } from '@/lib/utils/job-queue';
+import { formatServerSentEvent, SERVER_SENT_EVENT_KEEPALIVE } from '@/lib/utils/server-sent-events';
+
+const JobIdSchema = z.string().uuid();
+
+const POLL_INTERVAL_MS = 1000;
+const KEEPALIVE_INTERVAL_MS = 15 * 1000;
+// Close before serverless time limits; EventSource reconnects and resumes from Last-Event-ID
+const MAX_STREAM_MS = 55 * 1000;
+const EVENT_BATCH_SIZE = 100;
+
+/**
+ * GET /api/jobs/[id]/stream - Stream a job's progress events as server-sent events.
+ * Emits `progress` events (ID = event ID) and a final `done` event with the finished job.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await getOptionalAuthContext(request, 'events:read');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const { id } = await params;
+
+    if (!JobIdSchema.safeParse(id).success) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid job ID',
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    const job = await jobQueueService.getJob(id);
+    if (!job || !canAccessOrganisationResource(auth, job.organisationId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Job not found',
+        timestamp: new Date().toISOString()
+      }, { status: 404 });
+    }
+
+    // Resume after the last event the client received
+    const resumeFrom = Number(request.headers.get('last-event-id') || request.nextUrl.searchParams.get('after') || 0);
+    const encoder = new TextEncoder();
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const startedAt = Date.now();
+        let cursor = Number.isFinite(resumeFrom) ? resumeFrom : 0;
+        let lastWriteAt = startedAt;
+
+        const send = (chunk: string) => {
+          controller.enqueue(encoder.encode(chunk));
+          lastWriteAt = Date.now();
+        };
+
+        try {
+          while (!request.signal.aborted) {
+            // Read the job before its events: once it is finished, every event is already stored
+            const current = await jobQueueService.getJob(id);
+
+            let batch;
+            do {
+              batch = await jobQueueService.getEvents(id, cursor, EVENT_BATCH_SIZE);
+              for (const { id: eventId, ...event } of batch) {
+                send(formatServerSentEvent({ id: eventId, event: 'progress', data: event }));
+                cursor = eventId;
+              }
+            } while (batch.length === EVENT_BATCH_SIZE);
+
+            if (!current || isTerminalJobStatus(current.status)) {
+              send(formatServerSentEvent({ event: 'done', data: { job: current } }));
+              break;
+            }
+
+            if (Date.now() - startedAt > MAX_STREAM_MS) {
+              break;
+            }
+            if (Date.now() - lastWriteAt > KEEPALIVE_INTERVAL_MS) {
+              send(SERVER_SENT_EVENT_KEEPALIVE);
+            }
+
+            await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+          }
+        } catch (error) {
+          console.error(`Error streaming job ${id}:`, error);
+          send(formatServerSentEvent({ event: 'stream-error', data: { error: 'Failed to stream job progress' } }));
+        } finally {
+          controller.close();
+        }
+      }
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'
+      }
+    });
+  } catch (error) {
+    console.error('Error streaming job:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to stream job',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
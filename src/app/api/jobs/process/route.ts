@@ -0,0 +1,67 @@
+// src/app/api/jobs/process/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { jobQueueService } from '@/lib/services/job-queue';
+
+// One analysis per invocation: it has to finish within both the function limit and the job lease
+export const maxDuration = 300;
+
+// Helper function to verify authorization
+function verifyAuthorization(request: NextRequest): boolean {
+  const authHeader = request.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    console.error('❌ CRON_SECRET not configured');
+    return false;
+  }
+
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    console.error('❌ Missing or invalid authorization header');
+    return false;
+  }
+
+  const token = authHeader.substring(7);
+  return token === cronSecret;
+}
+
+async function processJobs(request: NextRequest) {
+  if (!verifyAuthorization(request)) {
+    return NextResponse.json({
+      success: false,
+      error: 'Unauthorized',
+      message: 'Invalid or missing authorization token'
+    }, { status: 401 });
+  }
+
+  try {
+    const result = await jobQueueService.processDueJobs(1);
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('❌ Job processing failed:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Job processing failed',
+      details: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/jobs/process - Run queued jobs that are due (retries, jobs whose worker died)
+ */
+export async function POST(request: NextRequest) {
+  return processJobs(request);
+}
+
+/**
+ * GET /api/jobs/process - Same as POST, for Vercel cron which issues GET requests
+ */
+export async function GET(request: NextRequest) {
+  return processJobs(request);
+}
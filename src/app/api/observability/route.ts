@@ -24,6 +24,10 @@ export async function GET(request: NextRequest) {
         data.health = await observabilityService.getHealthStatus();
         break;
         
+      case 'parsers':
+        data.parsers = await observabilityService.getSiteParserStats();
+        break;
+        
       case 'baselines':
         if (city) {
           data.baselines = await observabilityService.checkSeasonalBaselines(city, month);
@@ -37,6 +41,7 @@ export async function GET(request: NextRequest) {
         data.sources = await observabilityService.getSourceMetrics();
         data.quality = await observabilityService.getNormalizationQuality();
         data.health = await observabilityService.getHealthStatus();
+        data.parsers = await observabilityService.getSiteParserStats();
         if (city) {
           data.baselines = await observabilityService.checkSeasonalBaselines(city, month);
         }
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { apiKeyService } from '@/lib/services/api-keys';
+import { canManageOrganisation, requireScope } from '@/lib/utils/auth';
+import { ApiError } from '@/lib/utils/error-handling';
+import { RotateApiKeySchema } from '@/types/organisations';
+
+const IdSchema = z.string().uuid();
+
+/**
+ * POST /api/organisations/[id]/api-keys/[keyId]/rotate - Replace an API key with a new one.
+ * The old key is revoked, or keeps working for `graceMinutes`. The new key is returned only in this response.
+ * Callers may rotate their own keys and keys of members whose role they manage.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; keyId: string }> }
+) {
+  const auth = await requireScope(request, 'org:admin');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const { id, keyId } = await params;
+    if (!IdSchema.safeParse(id).success || !IdSchema.safeParse(keyId).success) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid organisation or API key ID',
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { graceMinutes } = RotateApiKeySchema.parse(body);
+
+    const rotated = canManageOrganisation(auth, id)
+      ? await apiKeyService.rotateKey(id, keyId, auth, graceMinutes)
+      : null;
+    if (!rotated) {
+      return NextResponse.json({
+        success: false,
+        error: 'API key not found or no longer active',
+        timestamp: new Date().toISOString()
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        apiKey: rotated.apiKey,
+        key: rotated.key
+      },
+      message: 'API key rotated. Store the new key now - it will not be shown again.',
+      timestamp: new Date().toISOString()
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error rotating API key:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid rotation data',
+        details: error.errors,
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    if (error instanceof ApiError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString()
+      }, { status: error.statusCode });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to rotate API key',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
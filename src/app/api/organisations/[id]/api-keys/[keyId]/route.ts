@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { apiKeyService } from '@/lib/services/api-keys';
+import { canManageOrganisation, requireScope } from '@/lib/utils/auth';
+import { ApiError } from '@/lib/utils/error-handling';
+
+const IdSchema = z.string().uuid();
+
+/**
+ * DELETE /api/organisations/[id]/api-keys/[keyId] - Revoke an API key immediately.
+ * Callers may revoke their own keys and keys of members whose role they manage.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; keyId: string }> }
+) {
+  const auth = await requireScope(request, 'org:admin');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const { id, keyId } = await params;
+    if (!IdSchema.safeParse(id).success || !IdSchema.safeParse(keyId).success) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid organisation or API key ID',
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    const apiKey = canManageOrganisation(auth, id)
+      ? await apiKeyService.revokeKey(id, keyId, auth)
+      : null;
+    if (!apiKey) {
+      return NextResponse.json({
+        success: false,
+        error: 'API key not found',
+        timestamp: new Date().toISOString()
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        apiKey
+      },
+      message: 'API key revoked',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error revoking API key:', error);
+
+    if (error instanceof ApiError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString()
+      }, { status: error.statusCode });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to revoke API key',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
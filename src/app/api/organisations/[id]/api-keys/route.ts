@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { apiKeyService } from '@/lib/services/api-keys';
+import { canManageOrganisation, requireScope } from '@/lib/utils/auth';
+import { ApiError } from '@/lib/utils/error-handling';
+import { CreateApiKeySchema } from '@/types/organisations';
+
+const OrganisationIdSchema = z.string().uuid();
+
+function invalidIdResponse() {
+  return NextResponse.json({
+    success: false,
+    error: 'Invalid organisation ID',
+    timestamp: new Date().toISOString()
+  }, { status: 400 });
+}
+
+function notFoundResponse() {
+  return NextResponse.json({
+    success: false,
+    error: 'Organisation not found',
+    timestamp: new Date().toISOString()
+  }, { status: 404 });
+}
+
+/**
+ * GET /api/organisations/[id]/api-keys - List the organisation's API keys, including revoked ones.
+ * Only key prefixes are returned.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireScope(request, 'org:admin');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const { id } = await params;
+    if (!OrganisationIdSchema.safeParse(id).success) {
+      return invalidIdResponse();
+    }
+    if (!canManageOrganisation(auth, id)) {
+      return notFoundResponse();
+    }
+
+    const apiKeys = await apiKeyService.listKeys(id);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        apiKeys,
+        count: apiKeys.length
+      },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error fetching API keys:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch API keys',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/organisations/[id]/api-keys - Create an API key for a member.
+ * Organisation keys create keys for their own creator; only the operator may name another member.
+ * The key is returned only in this response.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireScope(request, 'org:admin');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const { id } = await params;
+    if (!OrganisationIdSchema.safeParse(id).success) {
+      return invalidIdResponse();
+    }
+    if (!canManageOrganisation(auth, id)) {
+      return notFoundResponse();
+    }
+
+    const body = await request.json();
+    const validatedData = CreateApiKeySchema.parse(body);
+
+    // A key can never grant more than the key that created it
+    const exceeding = validatedData.scopes.filter(scope => !auth.scopes.includes(scope));
+    if (exceeding.length > 0) {
+      return NextResponse.json({
+        success: false,
+        error: `Cannot grant scopes this API key does not have: ${exceeding.join(', ')}`,
+        timestamp: new Date().toISOString()
+      }, { status: 403 });
+    }
+
+    // The new key acts with its creator's role, so only the operator may create keys on behalf of another member
+    const createdBy = auth.isOperator ? validatedData.createdBy : auth.userId;
+    if (!createdBy) {
+      return NextResponse.json({
+        success: false,
+        error: 'createdBy is required when creating a key with the operator key',
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    const { apiKey, key } = await apiKeyService.createKey(id, { ...validatedData, createdBy });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        apiKey,
+        key
+      },
+      message: 'API key created. Store the key now - it will not be shown again.',
+      timestamp: new Date().toISOString()
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating API key:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid API key data',
+        details: error.errors,
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    if (error instanceof ApiError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString()
+      }, { status: error.statusCode });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to create API key',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
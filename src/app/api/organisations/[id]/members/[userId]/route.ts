@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { organisationService } from '@/lib/services/organisations';
+import { canManageOrganisation, requireScope } from '@/lib/utils/auth';
+import { ApiError } from '@/lib/utils/error-handling';
+import { UpdateOrganisationMemberSchema } from '@/types/organisations';
+
+const IdSchema = z.string().uuid();
+
+function invalidIdResponse() {
+  return NextResponse.json({
+    success: false,
+    error: 'Invalid organisation or user ID',
+    timestamp: new Date().toISOString()
+  }, { status: 400 });
+}
+
+function notFoundResponse() {
+  return NextResponse.json({
+    success: false,
+    error: 'Member not found',
+    timestamp: new Date().toISOString()
+  }, { status: 404 });
+}
+
+function apiErrorResponse(error: ApiError) {
+  return NextResponse.json({
+    success: false,
+    error: error.message,
+    timestamp: new Date().toISOString()
+  }, { status: error.statusCode });
+}
+
+/**
+ * PATCH /api/organisations/[id]/members/[userId] - Change a member's role
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; userId: string }> }
+) {
+  const auth = await requireScope(request, 'org:admin');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const { id, userId } = await params;
+    if (!IdSchema.safeParse(id).success || !IdSchema.safeParse(userId).success) {
+      return invalidIdResponse();
+    }
+    if (!canManageOrganisation(auth, id)) {
+      return notFoundResponse();
+    }
+
+    const body = await request.json();
+    const { role } = UpdateOrganisationMemberSchema.parse(body);
+
+    const member = await organisationService.updateMemberRole(id, userId, role, auth.role);
+    if (!member) {
+      return notFoundResponse();
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        member
+      },
+      message: 'Member role updated successfully',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error updating organisation member:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid member data',
+        details: error.errors,
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    if (error instanceof ApiError) {
+      return apiErrorResponse(error);
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update organisation member',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/organisations/[id]/members/[userId] - Remove a member. Keys they created stop working.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; userId: string }> }
+) {
+  const auth = await requireScope(request, 'org:admin');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const { id, userId } = await params;
+    if (!IdSchema.safeParse(id).success || !IdSchema.safeParse(userId).success) {
+      return invalidIdResponse();
+    }
+    if (!canManageOrganisation(auth, id)) {
+      return notFoundResponse();
+    }
+
+    const removed = await organisationService.removeMember(id, userId, auth.role);
+    if (!removed) {
+      return notFoundResponse();
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Member removed successfully',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error removing organisation member:', error);
+
+    if (error instanceof ApiError) {
+      return apiErrorResponse(error);
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to remove organisation member',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
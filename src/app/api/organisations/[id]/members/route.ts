@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { organisationService } from '@/lib/services/organisations';
+import { canManageOrganisation, requireScope } from '@/lib/utils/auth';
+import { ApiError } from '@/lib/utils/error-handling';
+import { AddOrganisationMemberSchema } from '@/types/organisations';
+
+const OrganisationIdSchema = z.string().uuid();
+
+function invalidIdResponse() {
+  return NextResponse.json({
+    success: false,
+    error: 'Invalid organisation ID',
+    timestamp: new Date().toISOString()
+  }, { status: 400 });
+}
+
+function notFoundResponse() {
+  return NextResponse.json({
+    success: false,
+    error: 'Organisation not found',
+    timestamp: new Date().toISOString()
+  }, { status: 404 });
+}
+
+/**
+ * GET /api/organisations/[id]/members - List members and their roles
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireScope(request, 'org:admin');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const { id } = await params;
+    if (!OrganisationIdSchema.safeParse(id).success) {
+      return invalidIdResponse();
+    }
+    if (!canManageOrganisation(auth, id)) {
+      return notFoundResponse();
+    }
+
+    const members = await organisationService.listMembers(id);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        members,
+        count: members.length
+      },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error fetching organisation members:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch organisation members',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/organisations/[id]/members - Add a user by email. Unknown emails are added to the users table.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireScope(request, 'org:admin');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const { id } = await params;
+    if (!OrganisationIdSchema.safeParse(id).success) {
+      return invalidIdResponse();
+    }
+    if (!canManageOrganisation(auth, id) || !(await organisationService.getOrganisation(id))) {
+      return notFoundResponse();
+    }
+
+    const body = await request.json();
+    const validatedData = AddOrganisationMemberSchema.parse(body);
+
+    const member = await organisationService.addMember(id, validatedData, auth.role);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        member
+      },
+      message: 'Member added successfully',
+      timestamp: new Date().toISOString()
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error adding organisation member:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid member data',
+        details: error.errors,
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    if (error instanceof ApiError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString()
+      }, { status: error.statusCode });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to add organisation member',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
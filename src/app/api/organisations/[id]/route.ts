@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { organisationService } from '@/lib/services/organisations';
+import { requireScope } from '@/lib/utils/auth';
+
+const OrganisationIdSchema = z.string().uuid();
+
+/**
+ * GET /api/organisations/[id] - Get an organisation. Any key of the organisation may read it.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireScope(request, 'events:read');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const { id } = await params;
+    if (!OrganisationIdSchema.safeParse(id).success) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid organisation ID',
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    const organisation = auth.isOperator || auth.organisationId === id
+      ? await organisationService.getOrganisation(id)
+      : null;
+    if (!organisation) {
+      return NextResponse.json({
+        success: false,
+        error: 'Organisation not found',
+        timestamp: new Date().toISOString()
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        organisation
+      },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error fetching organisation:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch organisation',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
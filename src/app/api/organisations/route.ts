@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { organisationService } from '@/lib/services/organisations';
+import { requireScope } from '@/lib/utils/auth';
+import { ApiError } from '@/lib/utils/error-handling';
+import { CreateOrganisationSchema } from '@/types/organisations';
+
+/**
+ * POST /api/organisations - Create an organisation with its owner.
+ * Only the operator (shared API_KEY) can create organisations.
+ */
+export async function POST(request: NextRequest) {
+  const auth = await requireScope(request, 'org:admin');
+  if (auth instanceof Response) {
+    return auth;
+  }
+  if (!auth.isOperator) {
+    return NextResponse.json({
+      success: false,
+      error: 'Only the operator can create organisations',
+      timestamp: new Date().toISOString()
+    }, { status: 403 });
+  }
+
+  try {
+    const body = await request.json();
+    const validatedData = CreateOrganisationSchema.parse(body);
+
+    const { organisation, owner } = await organisationService.createOrganisation(validatedData);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        organisation,
+        owner
+      },
+      message: 'Organisation created successfully',
+      timestamp: new Date().toISOString()
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating organisation:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid organisation data',
+        details: error.errors,
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    if (error instanceof ApiError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString()
+      }, { status: error.statusCode });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to create organisation',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
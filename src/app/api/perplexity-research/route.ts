@@ -3,7 +3,10 @@ import { NextRequest, NextResponse } from 'next/server';
 import { perplexityResearchService } from '@/lib/services/perplexity-research';
 import { PerplexityResearchParams } from '@/types/perplexity';
 import { z } from 'zod';
-import { withRateLimit, rateLimitConfigs, getClientIdentifier } from '@/lib/utils/rate-limiting';
+import { withRateLimit, rateLimitPolicies } from '@/lib/utils/rate-limiting';
+import { getOptionalAuthContext } from '@/lib/utils/auth';
+import { enforceQuota } from '@/lib/utils/quotas';
+import { usageMeteringService } from '@/lib/services/usage-metering';
 
 const PerplexityResearchSchema = z.object({
   city: z.string().min(1).max(100),
@@ -20,16 +23,11 @@ const PerplexityResearchSchema = z.object({
 /**
  * POST /api/perplexity-research - Perplexity-powered event conflict research
  */
-export async function POST(request: NextRequest) {
-  // Apply rate limiting (strict for expensive AI operations)
-  const rateLimitResult = withRateLimit({
-    ...rateLimitConfigs.strict,
-    identifier: getClientIdentifier(request),
-  });
-
-  const rateLimitResponse = await rateLimitResult(request);
-  if (rateLimitResponse) {
-    return rateLimitResponse;
+export const POST = withRateLimit(rateLimitPolicies.perplexityResearch, async (request: NextRequest) => {
+  // Anonymous requests from the web app are allowed; with an API key the research is metered to its organisation
+  const auth = await getOptionalAuthContext(request, 'analyze');
+  if (auth instanceof Response) {
+    return auth;
   }
 
   try {
@@ -52,7 +50,14 @@ export async function POST(request: NextRequest) {
       dateRange: validatedData.dateRange,
     };
 
-    const result = await perplexityResearchService.researchEventConflicts(params);
+    const quotaResponse = await enforceQuota(auth, 'perplexity_research');
+    if (quotaResponse) {
+      return quotaResponse;
+    }
+
+    const result = await usageMeteringService.meterCalls(auth, () =>
+      perplexityResearchService.researchEventConflicts(params)
+    );
 
     if (!result) {
       return NextResponse.json({
@@ -68,7 +73,9 @@ export async function POST(request: NextRequest) {
       timestamp: new Date().toISOString(),
     }, {
       headers: {
-        'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=600', // 5 min cache
+        'Cache-Control': auth
+          ? 'private, no-store' // metered per organisation
+          : 'public, s-maxage=300, stale-while-revalidate=600', // 5 min cache
       },
     });
   } catch (error) {
@@ -90,7 +97,7 @@ export async function POST(request: NextRequest) {
       timestamp: new Date().toISOString(),
     }, { status: 500 });
   }
-}
+});
 
 /**
  * GET /api/perplexity-research - Health check endpoint (secured)
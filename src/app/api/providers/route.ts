@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { eventProviderRegistry } from '@/lib/services/event-provider-registry';
+import { requireScope } from '@/lib/utils/auth';
+
+/**
+ * GET /api/providers - List registered event providers.
+ * `?health=true` also probes each provider and requires the scraper:admin scope.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const includeHealth = searchParams.get('health') === 'true';
+
+  if (includeHealth) {
+    const auth = await requireScope(request, 'scraper:admin');
+    if (auth instanceof Response) {
+      return auth;
+    }
+  }
+
+  try {
+    const health = includeHealth ? await eventProviderRegistry.checkHealth() : [];
+    const providers = eventProviderRegistry.list().map(provider => ({
+      ...provider.info,
+      configured: provider.isConfigured(),
+      ...(includeHealth && { health: health.find(h => h.provider === provider.info.id) || null })
+    }));
+
+    return NextResponse.json({
+      success: true,
+      data: { providers },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error listing event providers:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to list event providers',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,171 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { scoringProfileService } from '@/lib/services/scoring-profiles';
+import { canAccessUserResource, requireScope } from '@/lib/utils/auth';
+import { UpdateScoringProfileSchema } from '@/types/scoring-profiles';
+
+const ScoringProfileIdSchema = z.string().uuid();
+
+function invalidIdResponse() {
+  return NextResponse.json({
+    success: false,
+    error: 'Invalid scoring profile ID',
+    timestamp: new Date().toISOString()
+  }, { status: 400 });
+}
+
+function notFoundResponse() {
+  return NextResponse.json({
+    success: false,
+    error: 'Scoring profile not found',
+    timestamp: new Date().toISOString()
+  }, { status: 404 });
+}
+
+/**
+ * GET /api/scoring-profiles/[id] - Get a scoring profile
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireScope(request, 'analyze');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const { id } = await params;
+    if (!ScoringProfileIdSchema.safeParse(id).success) {
+      return invalidIdResponse();
+    }
+
+    // Other users' profiles look the same as missing ones
+    const profile = await scoringProfileService.getProfile(id);
+    if (!profile || !canAccessUserResource(auth, profile.userId)) {
+      return notFoundResponse();
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        profile
+      },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error fetching scoring profile:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch scoring profile',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/scoring-profiles/[id] - Rename a profile, change weights or make it the default
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireScope(request, 'analyze');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const { id } = await params;
+    if (!ScoringProfileIdSchema.safeParse(id).success) {
+      return invalidIdResponse();
+    }
+
+    const body = await request.json();
+    const updates = UpdateScoringProfileSchema.parse(body);
+
+    const existing = await scoringProfileService.getProfile(id);
+    if (!existing || !canAccessUserResource(auth, existing.userId)) {
+      return notFoundResponse();
+    }
+
+    const profile = await scoringProfileService.updateProfile(id, updates);
+    if (!profile) {
+      return notFoundResponse();
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        profile
+      },
+      message: 'Scoring profile updated successfully',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error updating scoring profile:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid scoring profile data',
+        details: error.errors,
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    if ((error as { code?: string })?.code === '23505') { // unique_violation
+      return NextResponse.json({
+        success: false,
+        error: 'A scoring profile with this name already exists',
+        timestamp: new Date().toISOString()
+      }, { status: 409 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update scoring profile',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/scoring-profiles/[id] - Delete a scoring profile
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireScope(request, 'analyze');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const { id } = await params;
+    if (!ScoringProfileIdSchema.safeParse(id).success) {
+      return invalidIdResponse();
+    }
+
+    const profile = await scoringProfileService.getProfile(id);
+    if (!profile || !canAccessUserResource(auth, profile.userId)) {
+      return notFoundResponse();
+    }
+
+    await scoringProfileService.deleteProfile(id);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Scoring profile deleted successfully',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error deleting scoring profile:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to delete scoring profile',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { scoringProfileService } from '@/lib/services/scoring-profiles';
+import { createForbiddenResponse, requireScope } from '@/lib/utils/auth';
+import { CreateScoringProfileSchema } from '@/types/scoring-profiles';
+import type { AuthContext } from '@/types/organisations';
+
+/**
+ * Profiles belong to the user who created the caller's API key. Keys of users
+ * who were removed have no owner and get a forbidden response.
+ */
+function requireProfileOwner(auth: AuthContext): Response | null {
+  if (!auth.isOperator && !auth.userId) {
+    return createForbiddenResponse('API key is not tied to a user');
+  }
+  return null;
+}
+
+/**
+ * GET /api/scoring-profiles - List the caller's scoring profiles
+ */
+export async function GET(request: NextRequest) {
+  const auth = await requireScope(request, 'analyze');
+  if (auth instanceof Response) {
+    return auth;
+  }
+  const ownerError = requireProfileOwner(auth);
+  if (ownerError) {
+    return ownerError;
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    // Only the operator lists other users' profiles
+    const userId = auth.isOperator ? searchParams.get('userId') || undefined : auth.userId!;
+
+    if (userId && !z.string().uuid().safeParse(userId).success) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid user ID',
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    const profiles = await scoringProfileService.listProfiles(userId);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        profiles,
+        count: profiles.length
+      },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error fetching scoring profiles:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch scoring profiles',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/scoring-profiles - Create a named scoring profile
+ */
+export async function POST(request: NextRequest) {
+  const auth = await requireScope(request, 'analyze');
+  if (auth instanceof Response) {
+    return auth;
+  }
+  const ownerError = requireProfileOwner(auth);
+  if (ownerError) {
+    return ownerError;
+  }
+
+  try {
+    const body = await request.json();
+    const validatedData = CreateScoringProfileSchema.parse(body);
+
+    const profile = await scoringProfileService.createProfile({
+      ...validatedData,
+      // Only the operator creates profiles on behalf of a user
+      userId: auth.isOperator ? validatedData.userId ?? null : auth.userId
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        profile
+      },
+      message: 'Scoring profile created successfully',
+      timestamp: new Date().toISOString()
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating scoring profile:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid scoring profile data',
+        details: error.errors,
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    if ((error as { code?: string })?.code === '23505') { // unique_violation
+      return NextResponse.json({
+        success: false,
+        error: 'A scoring profile with this name already exists',
+        timestamp: new Date().toISOString()
+      }, { status: 409 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to create scoring profile',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { eventScraperService } from '@/lib/services/event-scraper';
+import { requireScope } from '@/lib/utils/auth';
 
 export async function GET(request: NextRequest) {
   try {
@@ -15,6 +16,10 @@ export async function GET(request: NextRequest) {
         });
         
       case 'scrape':
+        const auth = await requireScope(request, 'scraper:admin');
+        if (auth instanceof Response) {
+          return auth;
+        }
         const scrapeResult = await eventScraperService.scrapeAllSources();
         return NextResponse.json({
           success: true,
@@ -38,6 +43,11 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
+  const auth = await requireScope(request, 'scraper:admin');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
   try {
     const body = await request.json();
     const { action, sourceId } = body;
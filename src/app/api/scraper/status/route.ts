@@ -1,6 +1,7 @@
 // src/app/api/scraper/status/route.ts
 import { NextRequest, NextResponse } from 'next/server';
 import { serverDatabaseService } from '@/lib/supabase';
+import { SCRAPER_SOURCES } from '@/lib/constants/event-sources';
 
 // Helper function to create responses with proper headers
 function createResponse(data: any, options: { status?: number } = {}) {
@@ -23,9 +24,8 @@ export async function GET(request: NextRequest) {
     const stats = await serverDatabaseService.getStats();
     
     // Get total scraped events (events with scraper sources)
-    const scrapedSources = ['goout', 'brnoexpat', 'firecrawl', 'agentql', 'scraper'];
     const totalScrapedEvents = Object.entries(stats.eventsBySource)
-      .filter(([source]) => scrapedSources.includes(source))
+      .filter(([source]) => SCRAPER_SOURCES.includes(source))
       .reduce((sum, [, count]) => sum + count, 0);
     
     // Get last sync information
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { usageMeteringService } from '@/lib/services/usage-metering';
+import { requireScope } from '@/lib/utils/auth';
+
+const OrganisationIdSchema = z.string().uuid();
+
+/**
+ * GET /api/usage - Consumption of the caller's organisation in the current month against its plan limits.
+ * The operator key passes ?organisationId=<id>.
+ */
+export async function GET(request: NextRequest) {
+  const auth = await requireScope(request, 'events:read');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const requestedId = request.nextUrl.searchParams.get('organisationId');
+    const organisationId = requestedId || auth.organisationId;
+
+    if (!organisationId || !OrganisationIdSchema.safeParse(organisationId).success) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid organisation ID',
+        message: auth.isOperator ? 'Pass ?organisationId=<id> with the operator key' : undefined,
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    const usage = auth.isOperator || auth.organisationId === organisationId
+      ? await usageMeteringService.getSummary(organisationId)
+      : null;
+    if (!usage) {
+      return NextResponse.json({
+        success: false,
+        error: 'Organisation not found',
+        timestamp: new Date().toISOString()
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        usage
+      },
+      timestamp: new Date().toISOString()
+    }, {
+      headers: {
+        'Cache-Control': 'private, no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching usage:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch usage',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { watchlistService } from '@/lib/services/watchlist';
+import { canAccessOrganisationResource, getOptionalAuthContext } from '@/lib/utils/auth';
+import { withRateLimit, rateLimitPolicies } from '@/lib/utils/rate-limiting';
+
+const WatchlistIdSchema = z.string().uuid();
+
+/**
+ * POST /api/watchlists/[id]/check - Re-score a watchlist now instead of waiting for the next sync
+ */
+export const POST = withRateLimit(rateLimitPolicies.watchlists, async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  const auth = await getOptionalAuthContext(request, 'analyze');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const { id } = await params;
+    if (!WatchlistIdSchema.safeParse(id).success) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid watchlist ID',
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    const watchlist = await watchlistService.getWatchlist(id);
+    if (!watchlist || !canAccessOrganisationResource(auth, watchlist.organisationId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Watchlist not found',
+        timestamp: new Date().toISOString()
+      }, { status: 404 });
+    }
+
+    const result = await watchlistService.checkWatchlist(watchlist, 'manual');
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: result.alerts.length > 0
+        ? `${result.alerts.length} alert(s) raised`
+        : 'No changes that require an alert',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error checking watchlist:', {
+      message: error instanceof Error ? error.message : 'Unknown error',
+      ...(process.env.NODE_ENV === 'development' && { fullError: error })
+    });
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to check watchlist',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+});
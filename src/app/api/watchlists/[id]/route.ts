@@ -0,0 +1,173 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { watchlistService } from '@/lib/services/watchlist';
+import { canAccessOrganisationResource, getOptionalAuthContext } from '@/lib/utils/auth';
+import { isPublicHttpsUrl, PUBLIC_WEBHOOK_URL_MESSAGE } from '@/lib/utils/webhook-urls';
+
+const WatchlistIdSchema = z.string().uuid();
+
+const UpdateWatchlistSchema = z.object({
+  name: z.string().max(200).nullable().optional(),
+  riskThreshold: z.enum(['Medium', 'High']).optional(),
+  highAttendanceThreshold: z.number().int().positive().optional(),
+  webhookUrl: z.string().url().refine(isPublicHttpsUrl, PUBLIC_WEBHOOK_URL_MESSAGE).nullable().optional(),
+  enabled: z.boolean().optional()
+});
+
+function invalidIdResponse() {
+  return NextResponse.json({
+    success: false,
+    error: 'Invalid watchlist ID',
+    timestamp: new Date().toISOString()
+  }, { status: 400 });
+}
+
+function notFoundResponse() {
+  return NextResponse.json({
+    success: false,
+    error: 'Watchlist not found',
+    timestamp: new Date().toISOString()
+  }, { status: 404 });
+}
+
+/**
+ * GET /api/watchlists/[id] - Get a watchlist with its recent alerts
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await getOptionalAuthContext(request, 'analyze');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const { id } = await params;
+    if (!WatchlistIdSchema.safeParse(id).success) {
+      return invalidIdResponse();
+    }
+
+    const watchlist = await watchlistService.getWatchlist(id);
+    if (!watchlist || !canAccessOrganisationResource(auth, watchlist.organisationId)) {
+      return notFoundResponse();
+    }
+
+    const alerts = await watchlistService.getAlerts(id);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        watchlist,
+        alerts
+      },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error fetching watchlist:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch watchlist',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/watchlists/[id] - Update alert settings or pause a watchlist
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await getOptionalAuthContext(request, 'analyze');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const { id } = await params;
+    if (!WatchlistIdSchema.safeParse(id).success) {
+      return invalidIdResponse();
+    }
+
+    const existing = await watchlistService.getWatchlist(id);
+    if (!existing || !canAccessOrganisationResource(auth, existing.organisationId)) {
+      return notFoundResponse();
+    }
+
+    const body = await request.json();
+    const updates = UpdateWatchlistSchema.parse(body);
+
+    const watchlist = await watchlistService.updateWatchlist(id, updates);
+    if (!watchlist) {
+      return notFoundResponse();
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        watchlist
+      },
+      message: 'Watchlist updated successfully',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error updating watchlist:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid watchlist data',
+        details: error.errors,
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update watchlist',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/watchlists/[id] - Delete a watchlist and its alerts
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await getOptionalAuthContext(request, 'analyze');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const { id } = await params;
+    if (!WatchlistIdSchema.safeParse(id).success) {
+      return invalidIdResponse();
+    }
+
+    const existing = await watchlistService.getWatchlist(id);
+    if (!existing || !canAccessOrganisationResource(auth, existing.organisationId)) {
+      return notFoundResponse();
+    }
+
+    await watchlistService.deleteWatchlist(id);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Watchlist deleted successfully',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error deleting watchlist:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to delete watchlist',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
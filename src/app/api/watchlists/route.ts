@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { watchlistService } from '@/lib/services/watchlist';
+import { getOptionalAuthContext } from '@/lib/utils/auth';
+import { withRateLimit, rateLimitPolicies } from '@/lib/utils/rate-limiting';
+import { isPublicHttpsUrl, PUBLIC_WEBHOOK_URL_MESSAGE } from '@/lib/utils/webhook-urls';
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+
+const CreateWatchlistSchema = z.object({
+  userId: z.string().uuid().nullable().optional(),
+  analysisId: z.string().uuid().nullable().optional(),
+  name: z.string().max(200).nullable().optional(),
+  city: z.string().min(1).max(100),
+  category: z.string().min(1).max(100),
+  subcategory: z.string().max(100).nullable().optional(),
+  dateRangeStart: dateSchema,
+  dateRangeEnd: dateSchema,
+  expectedAttendees: z.number().int().positive(),
+  riskThreshold: z.enum(['Medium', 'High']).optional(),
+  highAttendanceThreshold: z.number().int().positive().optional(),
+  webhookUrl: z.string().url().refine(isPublicHttpsUrl, PUBLIC_WEBHOOK_URL_MESSAGE).nullable().optional()
+}).refine(data => data.dateRangeEnd >= data.dateRangeStart, {
+  message: 'dateRangeEnd must not be before dateRangeStart',
+  path: ['dateRangeEnd']
+});
+
+/**
+ * GET /api/watchlists - List watchlists of the caller's organisation,
+ * or watchlists without an organisation when no API key is sent
+ */
+export async function GET(request: NextRequest) {
+  const auth = await getOptionalAuthContext(request, 'analyze');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get('userId') || undefined;
+    const city = searchParams.get('city') || undefined;
+    const activeOnly = searchParams.get('active') === 'true';
+
+    if (userId && !z.string().uuid().safeParse(userId).success) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid user ID',
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    const watchlists = await watchlistService.listWatchlists({
+      userId,
+      // The operator sees every organisation
+      organisationId: auth?.isOperator ? undefined : auth?.organisationId ?? null,
+      city,
+      activeOnly
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        watchlists,
+        count: watchlists.length
+      },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error fetching watchlists:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch watchlists',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/watchlists - Create a watchlist and score it once to set the baseline
+ */
+export const POST = withRateLimit(rateLimitPolicies.watchlists, async (request: NextRequest) => {
+  const auth = await getOptionalAuthContext(request, 'analyze');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const body = await request.json();
+    const validatedData = CreateWatchlistSchema.parse(body);
+
+    const watchlist = await watchlistService.createWatchlist({
+      ...validatedData,
+      // An organisation key's own user; only the operator creates on behalf of a user
+      userId: auth && !auth.isOperator ? auth.userId : validatedData.userId ?? null,
+      organisationId: auth?.organisationId ?? null
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        watchlist
+      },
+      message: 'Watchlist created successfully',
+      timestamp: new Date().toISOString()
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating watchlist:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid watchlist data',
+        details: error.errors,
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to create watchlist',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { webhookService } from '@/lib/services/webhooks';
+import { canManageOrganisationResource, requireScope } from '@/lib/utils/auth';
+
+const WebhookIdSchema = z.string().uuid();
+
+/**
+ * POST /api/webhooks/[id]/rotate-secret - Replace the signing secret of an endpoint
+ * The new secret is returned only in this response and applies to all later attempts.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireScope(request, 'org:admin');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const { id } = await params;
+    if (!WebhookIdSchema.safeParse(id).success) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid webhook ID',
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    const existing = await webhookService.getEndpoint(id);
+    const endpoint = existing && canManageOrganisationResource(auth, existing.organisationId)
+      ? await webhookService.rotateSecret(id)
+      : null;
+    if (!endpoint) {
+      return NextResponse.json({
+        success: false,
+        error: 'Webhook endpoint not found',
+        timestamp: new Date().toISOString()
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        endpoint: webhookService.toPublicEndpoint(endpoint),
+        secret: endpoint.secret
+      },
+      message: 'Signing secret rotated. Store the new secret now - it will not be shown again.',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error rotating webhook secret:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to rotate webhook secret',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,176 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { webhookService } from '@/lib/services/webhooks';
+import { canManageOrganisationResource, requireScope } from '@/lib/utils/auth';
+import { isPublicHttpsUrl, PUBLIC_WEBHOOK_URL_MESSAGE } from '@/lib/utils/webhook-urls';
+import { WEBHOOK_EVENT_TYPES } from '@/types/webhooks';
+
+const WebhookIdSchema = z.string().uuid();
+
+const UpdateWebhookSchema = z.object({
+  url: z.string().url().refine(isPublicHttpsUrl, PUBLIC_WEBHOOK_URL_MESSAGE).optional(),
+  description: z.string().max(200).nullable().optional(),
+  eventTypes: z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1).optional(),
+  enabled: z.boolean().optional(),
+  cities: z.array(z.string().min(1).max(100)).optional(),
+  minExpectedAttendees: z.number().int().positive().optional()
+});
+
+function invalidIdResponse() {
+  return NextResponse.json({
+    success: false,
+    error: 'Invalid webhook ID',
+    timestamp: new Date().toISOString()
+  }, { status: 400 });
+}
+
+function notFoundResponse() {
+  return NextResponse.json({
+    success: false,
+    error: 'Webhook endpoint not found',
+    timestamp: new Date().toISOString()
+  }, { status: 404 });
+}
+
+/**
+ * GET /api/webhooks/[id] - Get a webhook endpoint with its delivery log
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireScope(request, 'org:admin');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const { id } = await params;
+    if (!WebhookIdSchema.safeParse(id).success) {
+      return invalidIdResponse();
+    }
+
+    // Endpoints of other organisations look the same as missing ones
+    const endpoint = await webhookService.getEndpoint(id);
+    if (!endpoint || !canManageOrganisationResource(auth, endpoint.organisationId)) {
+      return notFoundResponse();
+    }
+
+    const deliveries = await webhookService.getDeliveries(id);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        endpoint: webhookService.toPublicEndpoint(endpoint),
+        deliveries
+      },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error fetching webhook endpoint:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch webhook endpoint',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/webhooks/[id] - Update a webhook endpoint
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireScope(request, 'org:admin');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const { id } = await params;
+    if (!WebhookIdSchema.safeParse(id).success) {
+      return invalidIdResponse();
+    }
+
+    const body = await request.json();
+    const updates = UpdateWebhookSchema.parse(body);
+
+    const existing = await webhookService.getEndpoint(id);
+    if (!existing || !canManageOrganisationResource(auth, existing.organisationId)) {
+      return notFoundResponse();
+    }
+
+    const endpoint = await webhookService.updateEndpoint(id, updates);
+    if (!endpoint) {
+      return notFoundResponse();
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        endpoint: webhookService.toPublicEndpoint(endpoint)
+      },
+      message: 'Webhook endpoint updated successfully',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error updating webhook endpoint:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid webhook data',
+        details: error.errors,
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update webhook endpoint',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/webhooks/[id] - Remove a webhook endpoint and its delivery log
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireScope(request, 'org:admin');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const { id } = await params;
+    if (!WebhookIdSchema.safeParse(id).success) {
+      return invalidIdResponse();
+    }
+
+    const endpoint = await webhookService.getEndpoint(id);
+    if (!endpoint || !canManageOrganisationResource(auth, endpoint.organisationId)) {
+      return notFoundResponse();
+    }
+
+    await webhookService.deleteEndpoint(id);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Webhook endpoint deleted successfully',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error deleting webhook endpoint:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to delete webhook endpoint',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+// src/app/api/webhooks/retry/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { webhookService } from '@/lib/services/webhooks';
+
+// Helper function to verify authorization
+function verifyAuthorization(request: NextRequest): boolean {
+  const authHeader = request.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    console.error('❌ CRON_SECRET not configured');
+    return false;
+  }
+
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    console.error('❌ Missing or invalid authorization header');
+    return false;
+  }
+
+  const token = authHeader.substring(7);
+  return token === cronSecret;
+}
+
+async function retryDeliveries(request: NextRequest) {
+  if (!verifyAuthorization(request)) {
+    return NextResponse.json({
+      success: false,
+      error: 'Unauthorized',
+      message: 'Invalid or missing authorization token'
+    }, { status: 401 });
+  }
+
+  try {
+    const result = await webhookService.retryDueDeliveries();
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('❌ Webhook retry failed:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Webhook retry failed',
+      details: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/webhooks/retry - Retry failed webhook deliveries whose backoff has elapsed
+ */
+export async function POST(request: NextRequest) {
+  return retryDeliveries(request);
+}
+
+/**
+ * GET /api/webhooks/retry - Same as POST, for Vercel cron which issues GET requests
+ */
+export async function GET(request: NextRequest) {
+  return retryDeliveries(request);
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { webhookService } from '@/lib/services/webhooks';
+import { requireScope } from '@/lib/utils/auth';
+import { isPublicHttpsUrl, PUBLIC_WEBHOOK_URL_MESSAGE } from '@/lib/utils/webhook-urls';
+import { WEBHOOK_EVENT_TYPES } from '@/types/webhooks';
+
+const CreateWebhookSchema = z.object({
+  userId: z.string().uuid().nullable().optional(),
+  url: z.string().url().refine(isPublicHttpsUrl, PUBLIC_WEBHOOK_URL_MESSAGE),
+  secret: z.string().min(16).max(200).optional(),
+  description: z.string().max(200).nullable().optional(),
+  eventTypes: z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1),
+  cities: z.array(z.string().min(1).max(100)).optional(),
+  minExpectedAttendees: z.number().int().positive().optional()
+});
+
+/**
+ * GET /api/webhooks - List the webhook endpoints of the caller's organisation
+ */
+export async function GET(request: NextRequest) {
+  const auth = await requireScope(request, 'org:admin');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get('userId') || undefined;
+
+    if (userId && !z.string().uuid().safeParse(userId).success) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid user ID',
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    const endpoints = await webhookService.listEndpoints({
+      userId,
+      // The operator sees every organisation
+      organisationId: auth.isOperator ? undefined : auth.organisationId
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        endpoints: endpoints.map(endpoint => webhookService.toPublicEndpoint(endpoint)),
+        count: endpoints.length
+      },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error fetching webhook endpoints:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch webhook endpoints',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/webhooks - Register a webhook endpoint
+ * The signing secret is returned only in this response.
+ */
+export async function POST(request: NextRequest) {
+  const auth = await requireScope(request, 'org:admin');
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const body = await request.json();
+    const validatedData = CreateWebhookSchema.parse(body);
+
+    const endpoint = await webhookService.createEndpoint({
+      ...validatedData,
+      // An organisation key's own user; only the operator registers on behalf of a user
+      userId: auth.isOperator ? validatedData.userId ?? null : auth.userId,
+      organisationId: auth.organisationId
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        endpoint: webhookService.toPublicEndpoint(endpoint),
+        secret: endpoint.secret
+      },
+      message: 'Webhook endpoint registered. Store the secret now - it will not be shown again.',
+      timestamp: new Date().toISOString()
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating webhook endpoint:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid webhook data',
+        details: error.errors,
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to create webhook endpoint',
+      timestamp: new Date().toISOString()
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,20 @@
+import { HolidayAdmin } from "@/components/dashboard/holiday-admin";
+
+export default function HolidayAdminPage() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="border-b bg-white">
+        <div className="container mx-auto px-4 py-6">
+          <h1 className="text-3xl font-bold text-gray-900">Holidays &amp; Blackout Dates</h1>
+          <p className="text-muted-foreground mt-2">
+            Dates your analyses avoid: your organisation&apos;s blackout periods, public holidays and cultural events
+          </p>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 py-8">
+        <HolidayAdmin />
+      </div>
+    </div>
+  );
+}
@@ -1,16 +1,25 @@
+import Link from "next/link";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { BarChart3, Calendar, Clock, TrendingUp } from "lucide-react";
+import { UsageCard } from "@/components/dashboard/usage-card";
 
 export default function DashboardPage() {
   return (
     <div className="min-h-screen bg-gray-50">
       <div className="border-b bg-white">
         <div className="container mx-auto px-4 py-6">
-          <h1 className="text-3xl font-bold text-gray-900">Dashboard</h1>
-          <p className="text-muted-foreground mt-2">
-            Track your event analyses and performance metrics
-          </p>
+          <div className="flex items-start justify-between">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Dashboard</h1>
+              <p className="text-muted-foreground mt-2">
+                Track your event analyses and performance metrics
+              </p>
+            </div>
+            <Button variant="outline" asChild>
+              <Link href="/dashboard/holidays">Holidays &amp; blackout dates</Link>
+            </Button>
+          </div>
         </div>
       </div>
 
@@ -121,36 +130,7 @@ export default function DashboardPage() {
             </CardContent>
           </Card>
 
-          <Card>
-            <CardHeader>
-              <CardTitle>Subscription Status</CardTitle>
-              <CardDescription>
-                Current plan and usage information
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-4">
-                <div className="flex items-center justify-between">
-                  <span className="font-semibold">Current Plan</span>
-                  <span className="text-primary font-semibold">Pro</span>
-                </div>
-                <div className="flex items-center justify-between">
-                  <span>Analyses Used</span>
-                  <span>12 / 25</span>
-                </div>
-                <div className="w-full bg-gray-200 rounded-full h-2">
-                  <div className="bg-primary h-2 rounded-full" style={{ width: '48%' }}></div>
-                </div>
-                <div className="flex items-center justify-between">
-                  <span>Billing Period</span>
-                  <span>Ends Feb 28, 2024</span>
-                </div>
-                <Button className="w-full mt-4">
-                  Upgrade Plan
-                </Button>
-              </div>
-            </CardContent>
-          </Card>
+          <UsageCard />
         </div>
       </div>
     </div>
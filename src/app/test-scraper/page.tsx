@@ -1,18 +1,20 @@
 'use client';
 
 import { useState } from 'react';
-import { eventScraperService } from '@/lib/services/event-scraper';
 
+// The scraper runs on the server; scraping all sources needs a key with the scraper:admin scope
 export default function TestScraperPage() {
   const [result, setResult] = useState<string>('');
   const [loading, setLoading] = useState(false);
+  const [apiKey, setApiKey] = useState('');
 
   const testConnection = async () => {
     setLoading(true);
     setResult('Testing scraper connection...');
     
     try {
-      const testResult = await eventScraperService.testConnection();
+      const response = await fetch('/api/scraper?action=test');
+      const testResult = await response.json();
       setResult(`Connection test: ${testResult.success ? '✅ Success' : '❌ Failed'}\n${testResult.message}`);
     } catch (error) {
       setResult(`❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -26,7 +28,15 @@ export default function TestScraperPage() {
     setResult('Starting scrape of all sources...');
     
     try {
-      const scrapeResult = await eventScraperService.scrapeAllSources();
+      const response = await fetch('/api/scraper?action=scrape', {
+        headers: { 'x-api-key': apiKey }
+      });
+      const body = await response.json();
+      if (!response.ok || !body.success) {
+        throw new Error(body.message || body.error || `Request failed with status ${response.status}`);
+      }
+
+      const scrapeResult = body.result;
       setResult(`Scraping completed:\n- Created: ${scrapeResult.created}\n- Skipped: ${scrapeResult.skipped}\n- Errors: ${scrapeResult.errors.length}\n\nErrors: ${scrapeResult.errors.join('\n')}`);
     } catch (error) {
       setResult(`❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -40,6 +50,15 @@ export default function TestScraperPage() {
       <h1 className="text-3xl font-bold mb-8">Web Scraper Test</h1>
       
       <div className="space-y-4">
+        <input
+          type="password"
+          value={apiKey}
+          onChange={e => setApiKey(e.target.value)}
+          placeholder="API key (scraper:admin)"
+          autoComplete="off"
+          className="block w-full max-w-md border border-gray-300 rounded py-2 px-3"
+        />
+
         <button
           onClick={testConnection}
           disabled={loading}
@@ -50,7 +69,7 @@ export default function TestScraperPage() {
         
         <button
           onClick={testScrapeAll}
-          disabled={loading}
+          disabled={loading || !apiKey}
           className="bg-green-500 hover:bg-green-700 text-white font-bold py-2 px-4 rounded disabled:opacity-50"
         >
           Test Scrape All Sources
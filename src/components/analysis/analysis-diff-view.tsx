@@ -0,0 +1,252 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { StatusBadge, InfoBadge } from "@/components/ui/status-badge";
+import { ArrowDownRight, ArrowUpRight, GitCompare, Loader2, Minus, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { AnalysisDiff, DiffEventSummary, RiskLevel } from "@/types/analysis-history";
+
+interface AnalysisDiffViewProps {
+  analysisId: string;
+  compareTo?: string | null;
+  onClose?: () => void;
+}
+
+const riskStatus = (riskLevel: RiskLevel) => {
+  switch (riskLevel) {
+    case 'Low': return 'success' as const;
+    case 'Medium': return 'warning' as const;
+    case 'High': return 'error' as const;
+    default: return 'neutral' as const;
+  }
+};
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const formatDateRange = (startDate: string, endDate: string) =>
+  startDate === endDate ? formatDate(startDate) : `${formatDate(startDate)} – ${formatDate(endDate)}`;
+
+function ScoreDelta({ delta }: { delta: number }) {
+  if (Math.abs(delta) < 0.05) {
+    return (
+      <span className="flex items-center text-xs text-muted-foreground">
+        <Minus className="h-3 w-3 mr-1" />0.0
+      </span>
+    );
+  }
+
+  // A higher conflict score is worse, so increases are shown in red
+  const Icon = delta > 0 ? ArrowUpRight : ArrowDownRight;
+  return (
+    <span className={cn("flex items-center text-xs font-medium", delta > 0 ? "text-red-600" : "text-green-600")}>
+      <Icon className="h-3 w-3 mr-1" />
+      {delta > 0 ? '+' : ''}{delta.toFixed(1)}
+    </span>
+  );
+}
+
+function EventList({ events, emptyMessage }: { events: DiffEventSummary[]; emptyMessage: string }) {
+  if (events.length === 0) {
+    return <p className="text-sm text-muted-foreground">{emptyMessage}</p>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {events.map(event => (
+        <div key={event.key} className="flex items-center justify-between text-sm">
+          <span className="truncate">{event.title}</span>
+          <span className="text-xs text-muted-foreground shrink-0 ml-2">
+            {formatDate(event.date)} • {event.venue || 'TBA'}
+            {event.expectedAttendees ? ` • ~${event.expectedAttendees.toLocaleString()}` : ''}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function AnalysisDiffView({ analysisId, compareTo, onClose }: AnalysisDiffViewProps) {
+  const { data: diff, isLoading, error } = useQuery<AnalysisDiff>({
+    queryKey: ['analysis-diff', analysisId, compareTo || null],
+    queryFn: async () => {
+      const query = compareTo ? `?compareTo=${compareTo}` : '';
+      const response = await fetch(`/api/analyses/${analysisId}/diff${query}`);
+      const body = await response.json();
+      if (!response.ok || !body.success) {
+        throw new Error(body.details?.join(', ') || body.error || 'Failed to compare analyses');
+      }
+      return body.data;
+    },
+    refetchOnWindowFocus: false,
+  });
+
+  const changedDates = diff?.dates.filter(d => d.status !== 'unchanged') || [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center space-x-2">
+              <GitCompare className="h-5 w-5" />
+              <span>What Changed</span>
+            </CardTitle>
+            {diff && (
+              <CardDescription className="mt-1">
+                {new Date(diff.baseAnalysisDate).toLocaleString()} → {new Date(diff.compareAnalysisDate).toLocaleString()}
+              </CardDescription>
+            )}
+          </div>
+          {onClose && (
+            <Button variant="ghost" size="sm" onClick={onClose} aria-label="Close comparison">
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading && (
+          <div className="py-6 flex items-center justify-center text-muted-foreground">
+            <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+            Comparing versions...
+          </div>
+        )}
+
+        {error && (
+          <p className="text-sm text-chart-error">
+            {error instanceof Error ? error.message : 'Failed to compare analyses'}
+          </p>
+        )}
+
+        {diff && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+              <div className="p-3 border rounded-lg">
+                <div className="text-xs text-muted-foreground">Average score</div>
+                <div className="flex items-center gap-2 font-semibold">
+                  {diff.summary.averageScoreBefore.toFixed(1)} → {diff.summary.averageScoreAfter.toFixed(1)}
+                  <ScoreDelta delta={diff.summary.averageScoreAfter - diff.summary.averageScoreBefore} />
+                </div>
+              </div>
+              <div className="p-3 border rounded-lg">
+                <div className="text-xs text-muted-foreground">Dates changed</div>
+                <div className="font-semibold">{diff.summary.datesChanged}</div>
+              </div>
+              <div className="p-3 border rounded-lg">
+                <div className="text-xs text-muted-foreground">Risk up / down</div>
+                <div className="font-semibold">
+                  <span className="text-red-600">{diff.summary.riskIncreased}</span>
+                  {' / '}
+                  <span className="text-green-600">{diff.summary.riskDecreased}</span>
+                </div>
+              </div>
+              <div className="p-3 border rounded-lg">
+                <div className="text-xs text-muted-foreground">Events new / gone</div>
+                <div className="font-semibold">
+                  {diff.summary.eventsAppeared} / {diff.summary.eventsDisappeared}
+                </div>
+              </div>
+            </div>
+
+            {diff.droppedFromRecommended.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-semibold text-red-600">Dropped out of recommended dates</h4>
+                {diff.droppedFromRecommended.map(dropped => (
+                  <div
+                    key={`${dropped.startDate}-${dropped.endDate}`}
+                    className="flex items-center justify-between p-3 border border-red-200 bg-red-50/50 rounded-lg text-sm"
+                  >
+                    <span>
+                      {formatDateRange(dropped.startDate, dropped.endDate)}
+                      <span className="text-xs text-muted-foreground ml-2">was #{dropped.previousRank}</span>
+                    </span>
+                    {dropped.after ? (
+                      <StatusBadge
+                        status={riskStatus(dropped.after.riskLevel)}
+                        label={`${dropped.after.riskLevel} risk · ${dropped.after.conflictScore.toFixed(1)}/20`}
+                        size="sm"
+                      />
+                    ) : (
+                      <InfoBadge label="No longer scored" size="sm" />
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {diff.newlyRecommended.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-semibold text-chart-success">Newly recommended</h4>
+                {diff.newlyRecommended.map(added => (
+                  <div
+                    key={`${added.startDate}-${added.endDate}`}
+                    className="flex items-center justify-between p-3 border rounded-lg text-sm"
+                  >
+                    <span>
+                      {formatDateRange(added.startDate, added.endDate)}
+                      <span className="text-xs text-muted-foreground ml-2">#{added.rank}</span>
+                    </span>
+                    <StatusBadge
+                      status={riskStatus(added.after.riskLevel)}
+                      label={`${added.after.riskLevel} risk · ${added.after.conflictScore.toFixed(1)}/20`}
+                      size="sm"
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold">Score and risk movement</h4>
+              {changedDates.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No date changed between these versions.</p>
+              ) : (
+                changedDates.map(date => (
+                  <div key={`${date.startDate}-${date.endDate}`} className="p-3 border rounded-lg text-sm space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium">{formatDateRange(date.startDate, date.endDate)}</span>
+                      <div className="flex items-center gap-2">
+                        {date.before && date.after && date.riskChange !== 'unchanged' && (
+                          <span className="text-xs text-muted-foreground">
+                            {date.before.riskLevel} → {date.after.riskLevel}
+                          </span>
+                        )}
+                        {date.status === 'added' && <InfoBadge label="Newly scored" size="sm" />}
+                        {date.status === 'removed' && <InfoBadge label="No longer scored" size="sm" />}
+                        <ScoreDelta delta={date.scoreDelta} />
+                      </div>
+                    </div>
+                    {date.eventsAppeared.length > 0 && (
+                      <div className="text-xs text-red-600">
+                        + {date.eventsAppeared.map(e => e.title).join(', ')}
+                      </div>
+                    )}
+                    {date.eventsDisappeared.length > 0 && (
+                      <div className="text-xs text-green-600">
+                        − {date.eventsDisappeared.map(e => e.title).join(', ')}
+                      </div>
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+
+            <div className="grid md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <h4 className="text-sm font-semibold">Competing events that appeared</h4>
+                <EventList events={diff.competingEventsAppeared} emptyMessage="No new competing events." />
+              </div>
+              <div className="space-y-2">
+                <h4 className="text-sm font-semibold">Competing events that disappeared</h4>
+                <EventList events={diff.competingEventsDisappeared} emptyMessage="No competing events disappeared." />
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
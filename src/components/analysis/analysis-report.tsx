@@ -0,0 +1,360 @@
+"use client";
+
+import { FormEvent, ReactNode, useState } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { StatusBadge } from "@/components/ui/status-badge";
+import { ConflictHeatmap } from "@/components/data-visualization/conflict-heatmap";
+import { ArrowLeft, Printer } from "lucide-react";
+import type { DateRecommendation } from "@/lib/services/conflict-analysis";
+import type { AnalysisReport, ReportBranding } from "@/types/analysis-report";
+
+interface AnalysisReportViewProps {
+  report: AnalysisReport;
+}
+
+const riskStatus = (riskLevel: DateRecommendation['riskLevel']) => {
+  switch (riskLevel) {
+    case 'Low': return 'success' as const;
+    case 'Medium': return 'warning' as const;
+    case 'High': return 'error' as const;
+    default: return 'neutral' as const;
+  }
+};
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const formatDateRange = (startDate: string, endDate: string) =>
+  startDate === endDate ? formatDate(startDate) : `${formatDate(startDate)} – ${formatDate(endDate)}`;
+
+const impactLabel: Record<'none' | 'partial' | 'full', string> = {
+  none: 'No impact',
+  partial: 'Partial',
+  full: 'Full'
+};
+
+function ReportSection({ title, description, children }: { title: string; description?: string; children: ReactNode }) {
+  return (
+    <section className="space-y-3 break-inside-avoid">
+      <div>
+        <h2 className="text-lg font-semibold">{title}</h2>
+        {description && <p className="text-sm text-muted-foreground">{description}</p>}
+      </div>
+      {children}
+    </section>
+  );
+}
+
+function CompetingEventsTable({ recommendation }: { recommendation: DateRecommendation }) {
+  return (
+    <div className="break-inside-avoid space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-medium">{formatDateRange(recommendation.startDate, recommendation.endDate)}</h3>
+        <StatusBadge
+          status={riskStatus(recommendation.riskLevel)}
+          label={`${recommendation.riskLevel} risk · ${recommendation.conflictScore.toFixed(1)}/20`}
+          size="sm"
+        />
+      </div>
+      {recommendation.competingEvents.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No competing events found.</p>
+      ) : (
+        <table className="w-full text-sm border-collapse">
+          <thead>
+            <tr className="border-b text-left text-xs text-muted-foreground">
+              <th className="py-1 pr-2 font-medium">Date</th>
+              <th className="py-1 pr-2 font-medium">Event</th>
+              <th className="py-1 pr-2 font-medium">Venue</th>
+              <th className="py-1 pr-2 font-medium">Category</th>
+              <th className="py-1 pr-2 font-medium text-right">Attendees</th>
+              <th className="py-1 font-medium">Source</th>
+            </tr>
+          </thead>
+          <tbody>
+            {recommendation.competingEvents.map(event => (
+              <tr key={event.id} className="border-b last:border-0 align-top">
+                <td className="py-1 pr-2 whitespace-nowrap">{formatDate(event.date)}</td>
+                <td className="py-1 pr-2">{event.title}</td>
+                <td className="py-1 pr-2">{event.venue || 'TBA'}</td>
+                <td className="py-1 pr-2">{event.subcategory ? `${event.category} · ${event.subcategory}` : event.category}</td>
+                <td className="py-1 pr-2 text-right">{event.expectedAttendees ? `~${event.expectedAttendees.toLocaleString()}` : '–'}</td>
+                <td className="py-1">{event.source}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+function BrandingForm({ analysisId, branding }: { analysisId: string; branding: ReportBranding }) {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [agencyName, setAgencyName] = useState(branding.agencyName || '');
+  const [preparedFor, setPreparedFor] = useState(branding.preparedFor || '');
+  const [logoUrl, setLogoUrl] = useState(branding.logoUrl || '');
+  const [notes, setNotes] = useState(branding.notes || '');
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const params = new URLSearchParams();
+    // Keep the share token of organisation reports
+    const token = searchParams.get('token');
+    if (token) params.set('token', token);
+    if (agencyName.trim()) params.set('agency', agencyName.trim());
+    if (preparedFor.trim()) params.set('client', preparedFor.trim());
+    if (logoUrl.trim()) params.set('logoUrl', logoUrl.trim());
+    if (notes.trim()) params.set('notes', notes.trim());
+    const query = params.toString();
+    router.replace(`/analyses/${analysisId}/report${query ? `?${query}` : ''}`);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="p-4 border rounded-lg space-y-3 print:hidden">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="report-agency">Agency name</Label>
+          <Input id="report-agency" value={agencyName} maxLength={100} onChange={e => setAgencyName(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="report-client">Prepared for</Label>
+          <Input id="report-client" value={preparedFor} maxLength={100} onChange={e => setPreparedFor(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="report-logo">Logo URL</Label>
+          <Input id="report-logo" type="url" placeholder="https://" value={logoUrl} onChange={e => setLogoUrl(e.target.value)} />
+        </div>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="report-notes">Notes for the client</Label>
+        <textarea
+          id="report-notes"
+          value={notes}
+          maxLength={2000}
+          rows={3}
+          onChange={e => setNotes(e.target.value)}
+          className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+        />
+      </div>
+      <Button type="submit" variant="outline" size="sm">Update report</Button>
+    </form>
+  );
+}
+
+export function AnalysisReportView({ report }: AnalysisReportViewProps) {
+  const { analysis, branding, heatmap, topRecommendations, highRiskDates, holidayRestrictions, seasonalFactors } = report;
+  const { request, result, summary } = analysis;
+  const seasonal = result.seasonalIntelligence;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-2 print:hidden">
+        <Button asChild variant="ghost" size="sm">
+          <Link href={`/analyses/${analysis.id}`}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to analysis
+          </Link>
+        </Button>
+        <Button size="sm" onClick={() => window.print()}>
+          <Printer className="h-4 w-4 mr-2" />
+          Print / Save as PDF
+        </Button>
+      </div>
+
+      <BrandingForm analysisId={analysis.id} branding={branding} />
+
+      <article className="bg-background border rounded-lg p-8 space-y-8 print:border-0 print:p-0">
+        <header className="flex items-start justify-between gap-6 border-b pb-6">
+          <div className="space-y-1">
+            <p className="text-xs uppercase tracking-wide text-muted-foreground">Event date conflict report</p>
+            <h1 className="text-2xl font-bold">
+              {request.subcategory ? `${request.category} · ${request.subcategory}` : request.category} in {request.city}
+            </h1>
+            {branding.preparedFor && <p className="text-sm">Prepared for {branding.preparedFor}</p>}
+            <p className="text-sm text-muted-foreground">
+              {request.expectedAttendees.toLocaleString()} expected attendees · preferred{' '}
+              {formatDateRange(request.preferredStartDate, request.preferredEndDate)} · analysed window{' '}
+              {formatDateRange(request.dateRangeStart, request.dateRangeEnd)}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              Analysis version {analysis.version}, run {new Date(result.analysisDate).toLocaleString('en-US')} ·
+              report generated {new Date(report.generatedAt).toLocaleString('en-US')}
+            </p>
+          </div>
+          {(branding.logoUrl || branding.agencyName) && (
+            <div className="text-right shrink-0 space-y-1">
+              {branding.logoUrl && (
+                <img src={branding.logoUrl} alt={branding.agencyName || 'Agency logo'} className="max-h-16 max-w-48 ml-auto object-contain" />
+              )}
+              {branding.agencyName && <p className="text-sm font-medium">{branding.agencyName}</p>}
+            </div>
+          )}
+        </header>
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 break-inside-avoid">
+          {[
+            { label: 'Recommended dates', value: summary.totalRecommendations },
+            { label: 'High-risk dates', value: summary.totalHighRiskDates },
+            { label: 'Events analysed', value: summary.totalEventsAnalyzed },
+            { label: 'Average score', value: `${summary.averageConflictScore.toFixed(1)}/20` }
+          ].map(metric => (
+            <div key={metric.label} className="p-3 border rounded-lg">
+              <div className="text-xs text-muted-foreground">{metric.label}</div>
+              <div className="text-xl font-semibold">{metric.value}</div>
+            </div>
+          ))}
+        </div>
+
+        {heatmap.length > 0 && (
+          <div className="break-inside-avoid">
+            <ConflictHeatmap
+              data={heatmap}
+              title="Conflict heatmap"
+              description="Worst conflict score of the analysed date windows covering each day (0–20)"
+              className="print:shadow-none"
+            />
+          </div>
+        )}
+
+        <ReportSection
+          title="Recommended dates"
+          description="Lowest-conflict date windows, best first"
+        >
+          {topRecommendations.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No low-risk dates were found in this analysis window.</p>
+          ) : (
+            <ol className="space-y-3">
+              {topRecommendations.map((rec, index) => (
+                <li key={`${rec.startDate}-${rec.endDate}`} className="p-3 border rounded-lg break-inside-avoid">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-semibold">{index + 1}. {formatDateRange(rec.startDate, rec.endDate)}</span>
+                    <StatusBadge
+                      status={riskStatus(rec.riskLevel)}
+                      label={`${rec.riskLevel} risk · ${rec.conflictScore.toFixed(1)}/20`}
+                      size="sm"
+                    />
+                  </div>
+                  {rec.reasons.length > 0 && (
+                    <ul className="mt-2 text-sm text-muted-foreground list-disc list-inside">
+                      {rec.reasons.map(reason => <li key={reason}>{reason}</li>)}
+                    </ul>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </ReportSection>
+
+        <ReportSection title="Competing events" description="Events competing for the same audience in each window">
+          <div className="space-y-6">
+            {[...topRecommendations, ...highRiskDates].map(rec => (
+              <CompetingEventsTable key={`${rec.startDate}-${rec.endDate}-${rec.riskLevel}`} recommendation={rec} />
+            ))}
+          </div>
+        </ReportSection>
+
+        {highRiskDates.length > 0 && (
+          <ReportSection title="Dates to avoid">
+            <ul className="text-sm space-y-1">
+              {highRiskDates.map(rec => (
+                <li key={`${rec.startDate}-${rec.endDate}`}>
+                  <span className="font-medium">{formatDateRange(rec.startDate, rec.endDate)}</span>
+                  {' '}– {rec.conflictScore.toFixed(1)}/20{rec.reasons[0] ? `, ${rec.reasons[0]}` : ''}
+                </li>
+              ))}
+            </ul>
+          </ReportSection>
+        )}
+
+        <ReportSection title="Holiday restrictions">
+          {holidayRestrictions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No public holidays or cultural events affect the analysed dates.</p>
+          ) : (
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr className="border-b text-left text-xs text-muted-foreground">
+                  <th className="py-1 pr-2 font-medium">Window</th>
+                  <th className="py-1 pr-2 font-medium">Holiday / event</th>
+                  <th className="py-1 pr-2 font-medium">Business impact</th>
+                  <th className="py-1 font-medium">Venue closures</th>
+                </tr>
+              </thead>
+              <tbody>
+                {holidayRestrictions.map(restriction => (
+                  <tr key={`${restriction.name}-${restriction.startDate}-${restriction.endDate}`} className="border-b last:border-0">
+                    <td className="py-1 pr-2 whitespace-nowrap">{formatDateRange(restriction.startDate, restriction.endDate)}</td>
+                    <td className="py-1 pr-2">
+                      {restriction.name}
+                      <span className="text-xs text-muted-foreground"> ({restriction.kind === 'holiday' ? 'holiday' : 'cultural event'})</span>
+                    </td>
+                    <td className="py-1 pr-2">{impactLabel[restriction.businessImpact] || restriction.businessImpact}</td>
+                    <td className="py-1">{restriction.venueClosureExpected ? 'Expected' : 'No'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </ReportSection>
+
+        {(seasonal || seasonalFactors.length > 0) && (
+          <ReportSection title="Seasonal factors">
+            {seasonal && (
+              <div className="text-sm space-y-2">
+                <p>
+                  {seasonal.hasSeasonalRisk
+                    ? `${seasonal.riskLevel} seasonal risk (confidence ${(seasonal.confidence * 100).toFixed(0)}%)`
+                    : 'No significant seasonal risks'}
+                </p>
+                {seasonal.seasonalFactors.length > 0 && (
+                  <ul className="list-disc list-inside text-muted-foreground">
+                    {seasonal.seasonalFactors.map(factor => <li key={factor}>{factor}</li>)}
+                  </ul>
+                )}
+              </div>
+            )}
+            {seasonalFactors.length > 0 && (
+              <table className="w-full text-sm border-collapse">
+                <thead>
+                  <tr className="border-b text-left text-xs text-muted-foreground">
+                    <th className="py-1 pr-2 font-medium">Window</th>
+                    <th className="py-1 pr-2 font-medium">Demand</th>
+                    <th className="py-1 pr-2 font-medium text-right">Seasonal ×</th>
+                    <th className="py-1 pr-2 font-medium text-right">Holiday ×</th>
+                    <th className="py-1 font-medium">Notes</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {seasonalFactors.map(factor => (
+                    <tr key={`${factor.startDate}-${factor.endDate}`} className="border-b last:border-0 align-top">
+                      <td className="py-1 pr-2 whitespace-nowrap">{formatDateRange(factor.startDate, factor.endDate)}</td>
+                      <td className="py-1 pr-2">{factor.demandLevel}</td>
+                      <td className="py-1 pr-2 text-right">{factor.seasonalMultiplier.toFixed(2)}</td>
+                      <td className="py-1 pr-2 text-right">{factor.holidayMultiplier.toFixed(2)}</td>
+                      <td className="py-1 text-muted-foreground">{factor.reasoning.join(' • ') || '–'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </ReportSection>
+        )}
+
+        {branding.notes && (
+          <ReportSection title="Notes">
+            <p className="text-sm whitespace-pre-wrap">{branding.notes}</p>
+          </ReportSection>
+        )}
+
+        <footer className="pt-4 border-t text-xs text-muted-foreground">
+          Conflict scores range from 0 (no competition) to 20. Prepared with Oslavu
+          {branding.agencyName ? ` for ${branding.agencyName}` : ''}.
+        </footer>
+      </article>
+    </div>
+  );
+}
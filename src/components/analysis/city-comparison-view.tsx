@@ -0,0 +1,172 @@
+"use client";
+
+import Link from "next/link";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { StatusBadge, InfoBadge } from "@/components/ui/status-badge";
+import { AlertTriangle, ExternalLink, MapPin, Trophy } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type {
+  CityComparisonDate,
+  CityComparisonEntry,
+  CityComparisonResult,
+  HolidayImpact
+} from "@/types/city-comparison";
+
+interface CityComparisonViewProps {
+  comparison: CityComparisonResult;
+}
+
+const riskStatus = (riskLevel: CityComparisonDate['riskLevel']) => {
+  switch (riskLevel) {
+    case 'Low': return 'success' as const;
+    case 'Medium': return 'warning' as const;
+    case 'High': return 'error' as const;
+    default: return 'neutral' as const;
+  }
+};
+
+const holidayLabels: Record<HolidayImpact, string> = {
+  none: 'No holiday impact',
+  partial: 'Partial holiday impact',
+  full: 'Holiday closures expected'
+};
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const formatDateRange = (startDate: string, endDate: string) =>
+  startDate === endDate ? formatDate(startDate) : `${formatDate(startDate)} – ${formatDate(endDate)}`;
+
+const formatMultiplier = (multiplier: number | null) =>
+  multiplier === null ? '—' : `×${multiplier.toFixed(2)}`;
+
+/**
+ * Side-by-side view of a multi-city comparison, best city first
+ */
+export function CityComparisonView({ comparison }: CityComparisonViewProps) {
+  const [winner] = comparison.cities;
+
+  return (
+    <Card className="glass-effect">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <MapPin className="h-5 w-5 text-chart-primary" />
+          <span>City Comparison</span>
+        </CardTitle>
+        <CardDescription>
+          {comparison.category} · {comparison.expectedAttendees.toLocaleString()} attendees ·{" "}
+          {formatDateRange(comparison.dateRange.start, comparison.dateRange.end)}
+          {winner?.bestDate && (
+            <> — <strong>{winner.city}</strong> has the lowest conflict score.</>
+          )}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <div
+            className="grid gap-4 min-w-max"
+            style={{ gridTemplateColumns: `repeat(${comparison.cities.length}, minmax(14rem, 1fr))` }}
+          >
+            {comparison.cities.map(entry => (
+              <CityColumn key={entry.city} entry={entry} />
+            ))}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function CityColumn({ entry }: { entry: CityComparisonEntry }) {
+  const isWinner = entry.rank === 1 && !!entry.bestDate;
+
+  return (
+    <div
+      className={cn(
+        "rounded-lg border p-4 space-y-4",
+        isWinner ? "border-chart-success bg-green-50/50 dark:bg-green-950/20" : "border-border"
+      )}
+    >
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold text-foreground">
+          {entry.rank}. {entry.city}
+        </h4>
+        {isWinner && <Trophy className="h-4 w-4 text-chart-success" />}
+      </div>
+
+      {entry.status === 'failed' && (
+        <div className="flex items-start space-x-2 text-sm text-chart-error">
+          <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+          <span>{entry.error || 'Analysis failed'}</span>
+        </div>
+      )}
+
+      {entry.status === 'completed' && !entry.bestDate && (
+        <p className="text-sm text-muted-foreground">No dates could be scored for this city.</p>
+      )}
+
+      {entry.bestDate && (
+        <>
+          <ComparisonDate date={entry.bestDate} label="Best date" />
+
+          {entry.alternatives.length > 0 && (
+            <div className="space-y-2 border-t pt-3">
+              <p className="text-xs font-medium text-muted-foreground uppercase">Alternatives</p>
+              {entry.alternatives.map(alternative => (
+                <div key={`${alternative.startDate}-${alternative.endDate}`} className="flex items-center justify-between text-sm">
+                  <span>{formatDateRange(alternative.startDate, alternative.endDate)}</span>
+                  <span className="text-muted-foreground">{alternative.conflictScore.toFixed(1)}/20</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+
+      <div className="flex items-center justify-between border-t pt-3 text-xs text-muted-foreground">
+        <span>{entry.totalEventsAnalyzed} events analyzed</span>
+        {entry.analysisId && (
+          <Button asChild variant="ghost" size="sm">
+            <Link href={`/analyses/${entry.analysisId}`}>
+              Full analysis
+              <ExternalLink className="h-3 w-3 ml-1" />
+            </Link>
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ComparisonDate({ date, label }: { date: CityComparisonDate; label: string }) {
+  return (
+    <div className="space-y-3">
+      <div>
+        <p className="text-xs font-medium text-muted-foreground uppercase">{label}</p>
+        <p className="text-lg font-semibold text-foreground">{formatDateRange(date.startDate, date.endDate)}</p>
+      </div>
+
+      <StatusBadge
+        status={riskStatus(date.riskLevel)}
+        label={`${date.riskLevel} risk · ${date.conflictScore.toFixed(1)}/20`}
+        variant="subtle"
+        size="sm"
+      />
+
+      <dl className="grid grid-cols-2 gap-2 text-sm">
+        <dt className="text-muted-foreground">Competing events</dt>
+        <dd className="text-right font-medium">{date.competingEventCount}</dd>
+        <dt className="text-muted-foreground">Seasonal demand</dt>
+        <dd className="text-right font-medium">{formatMultiplier(date.seasonalMultiplier)}</dd>
+      </dl>
+
+      <div className="space-y-1">
+        <InfoBadge label={holidayLabels[date.holidayImpact]} size="sm" />
+        {date.holidays.length > 0 && (
+          <p className="text-xs text-muted-foreground">{date.holidays.join(', ')}</p>
+        )}
+      </div>
+    </div>
+  );
+}
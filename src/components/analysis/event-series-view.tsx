@@ -0,0 +1,143 @@
+"use client";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { StatusBadge, InfoBadge } from "@/components/ui/status-badge";
+import { Repeat, Trophy } from "lucide-react";
+import type {
+  EventSeriesAnalysisResult,
+  EventSeriesOccurrence,
+  EventSeriesPatternResult
+} from "@/types/event-series";
+
+interface EventSeriesViewProps {
+  result: EventSeriesAnalysisResult;
+}
+
+const riskStatus = (riskLevel: EventSeriesOccurrence['riskLevel']) => {
+  switch (riskLevel) {
+    case 'Low': return 'success' as const;
+    case 'Medium': return 'warning' as const;
+    case 'High': return 'error' as const;
+    default: return 'neutral' as const;
+  }
+};
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+
+const formatDateRange = (startDate: string, endDate: string) =>
+  startDate === endDate ? formatDate(startDate) : `${formatDate(startDate)} – ${formatDate(endDate)}`;
+
+/**
+ * Best schedule for a recurring series or multi-day block, with the risk of
+ * every occurrence and how the organiser's own choice compares
+ */
+export function EventSeriesView({ result }: EventSeriesViewProps) {
+  const { bestPattern, requestedPattern, alternatives } = result;
+  const isBlock = result.series.type === 'multi_day';
+  const requestedIsBest = !!requestedPattern && requestedPattern.key === bestPattern?.key;
+
+  if (!bestPattern) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="glass-effect">
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Trophy className="h-5 w-5 text-chart-success" />
+            <span>{isBlock ? 'Best Start Date' : 'Best Schedule'}</span>
+          </CardTitle>
+          <CardDescription>
+            {bestPattern.label} · {result.candidatesEvaluated} {isBlock ? 'start dates' : 'schedules'} compared
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <PatternSummary pattern={bestPattern} />
+          <OccurrenceList occurrences={bestPattern.occurrences} />
+        </CardContent>
+      </Card>
+
+      {requestedPattern && !requestedIsBest && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Repeat className="h-5 w-5 text-chart-primary" />
+              <span>Your Preferred {isBlock ? 'Dates' : 'Schedule'}</span>
+            </CardTitle>
+            <CardDescription>{requestedPattern.label}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <PatternSummary pattern={requestedPattern} />
+            <OccurrenceList occurrences={requestedPattern.occurrences} />
+          </CardContent>
+        </Card>
+      )}
+
+      {alternatives.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Other Good Options</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="divide-y">
+              {alternatives.map(pattern => (
+                <div key={pattern.key} className="flex items-center justify-between py-2 text-sm">
+                  <span>{pattern.label}</span>
+                  <span className="text-muted-foreground">
+                    avg {pattern.averageScore.toFixed(1)}/20
+                    {pattern.highRiskOccurrences > 0 && ` · ${pattern.highRiskOccurrences} high risk`}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+function PatternSummary({ pattern }: { pattern: EventSeriesPatternResult }) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      <InfoBadge label={`Average ${pattern.averageScore.toFixed(1)}/20`} size="sm" />
+      <InfoBadge label={`Worst ${pattern.maxScore.toFixed(1)}/20`} size="sm" />
+      <StatusBadge
+        status={pattern.highRiskOccurrences > 0 ? 'error' : 'success'}
+        label={`${pattern.highRiskOccurrences} high-risk ${pattern.highRiskOccurrences === 1 ? 'occurrence' : 'occurrences'}`}
+        variant="subtle"
+        size="sm"
+      />
+    </div>
+  );
+}
+
+function OccurrenceList({ occurrences }: { occurrences: EventSeriesOccurrence[] }) {
+  return (
+    <div className="divide-y rounded-lg border">
+      {occurrences.map(occurrence => (
+        <div key={`${occurrence.startDate}-${occurrence.endDate}`} className="flex items-start justify-between gap-4 p-3">
+          <div>
+            <p className="text-sm font-medium text-foreground">
+              {formatDateRange(occurrence.startDate, occurrence.endDate)}
+            </p>
+            {occurrence.competingEvents.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {occurrence.competingEvents.slice(0, 3).map(event => event.title).join(', ')}
+                {occurrence.competingEvents.length > 3 && ` +${occurrence.competingEvents.length - 3} more`}
+              </p>
+            )}
+          </div>
+          <StatusBadge
+            status={riskStatus(occurrence.riskLevel)}
+            label={`${occurrence.riskLevel} · ${occurrence.conflictScore.toFixed(1)}`}
+            variant="subtle"
+            size="sm"
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
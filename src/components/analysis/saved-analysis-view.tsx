@@ -0,0 +1,353 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { StatusBadge, InfoBadge } from "@/components/ui/status-badge";
+import { AlertTriangle, Calendar, CalendarPlus, CheckCircle, Download, FileText, GitCompare, History, Loader2, MapPin, RefreshCw, Users } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { AnalysisDiffView } from "./analysis-diff-view";
+import { ScoreBreakdownDrawer } from "./score-breakdown-drawer";
+import type { DateRecommendation } from "@/lib/services/conflict-analysis";
+import type { SavedAnalysis, SavedAnalysisVersion } from "@/types/analysis-history";
+
+interface SavedAnalysisViewProps {
+  analysisId: string;
+}
+
+interface SavedAnalysisResponse {
+  analysis: SavedAnalysis;
+  versions: SavedAnalysisVersion[];
+}
+
+const riskStatus = (riskLevel: DateRecommendation['riskLevel']) => {
+  switch (riskLevel) {
+    case 'Low': return 'success' as const;
+    case 'Medium': return 'warning' as const;
+    case 'High': return 'error' as const;
+    default: return 'neutral' as const;
+  }
+};
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const formatDateRange = (startDate: string, endDate: string) =>
+  startDate === endDate ? formatDate(startDate) : `${formatDate(startDate)} – ${formatDate(endDate)}`;
+
+interface DateRecommendationListProps {
+  recommendations: DateRecommendation[];
+  emptyMessage: string;
+}
+
+function DateRecommendationList({ recommendations, emptyMessage }: DateRecommendationListProps) {
+  const [breakdownRecommendation, setBreakdownRecommendation] = useState<DateRecommendation | null>(null);
+
+  if (recommendations.length === 0) {
+    return <p className="text-sm text-muted-foreground">{emptyMessage}</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {recommendations.map(rec => (
+        <div key={`${rec.startDate}-${rec.endDate}`} className="p-4 border rounded-lg space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <div className="font-semibold">{formatDateRange(rec.startDate, rec.endDate)}</div>
+            <StatusBadge
+              status={riskStatus(rec.riskLevel)}
+              label={`${rec.riskLevel} risk · ${rec.conflictScore.toFixed(1)}/20`}
+              size="sm"
+            />
+          </div>
+          {rec.scoreBreakdown && (
+            <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setBreakdownRecommendation(rec)}>
+              Why this score?
+            </Button>
+          )}
+          {rec.reasons.length > 0 && (
+            <ul className="text-sm text-muted-foreground list-disc list-inside">
+              {rec.reasons.map(reason => (
+                <li key={reason}>{reason}</li>
+              ))}
+            </ul>
+          )}
+          {rec.holidayRestrictions && rec.holidayRestrictions.reasons.length > 0 && (
+            <div className="text-xs text-amber-700">
+              {rec.holidayRestrictions.reasons.join(' • ')}
+            </div>
+          )}
+          {rec.competingEvents.length > 0 && (
+            <div className="pt-2 border-t space-y-1">
+              <div className="text-xs font-medium text-muted-foreground">
+                Competing events ({rec.competingEvents.length})
+              </div>
+              {rec.competingEvents.map(event => (
+                <div key={event.id} className="flex items-center justify-between text-sm">
+                  <span className="truncate">{event.title}</span>
+                  <span className="text-xs text-muted-foreground shrink-0 ml-2">
+                    {formatDate(event.date)} • {event.venue || 'TBA'}
+                    {event.expectedAttendees ? ` • ~${event.expectedAttendees.toLocaleString()}` : ''}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+      <ScoreBreakdownDrawer
+        recommendation={breakdownRecommendation}
+        onClose={() => setBreakdownRecommendation(null)}
+      />
+    </div>
+  );
+}
+
+export function SavedAnalysisView({ analysisId }: SavedAnalysisViewProps) {
+  const router = useRouter();
+  // null compares against the version this analysis was re-run from
+  const [compareTo, setCompareTo] = useState<string | null>(null);
+  const [showDiff, setShowDiff] = useState(true);
+
+  const { data, isLoading, error } = useQuery<SavedAnalysisResponse>({
+    queryKey: ['saved-analysis', analysisId],
+    queryFn: async () => {
+      const response = await fetch(`/api/analyses/${analysisId}`);
+      const body = await response.json();
+      if (!response.ok || !body.success) {
+        throw new Error(body.error || 'Failed to load analysis');
+      }
+      return body.data;
+    },
+    refetchOnWindowFocus: false,
+  });
+
+  const rerun = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/analyses/${analysisId}/rerun`, { method: 'POST' });
+      const body = await response.json();
+      if (!response.ok || !body.success) {
+        throw new Error(body.error || 'Failed to re-run analysis');
+      }
+      return body.data.analysis as SavedAnalysis;
+    },
+    onSuccess: (analysis) => {
+      router.push(`/analyses/${analysis.id}`);
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="py-12 flex items-center justify-center text-muted-foreground">
+          <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+          Loading analysis...
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <Card className="border-chart-error/20 bg-red-50/50 dark:bg-red-950/20">
+        <CardContent className="py-8 text-center space-y-2">
+          <AlertTriangle className="h-10 w-10 mx-auto text-chart-error" />
+          <h3 className="text-lg font-semibold text-chart-error">Analysis Unavailable</h3>
+          <p className="text-sm text-muted-foreground">
+            {error instanceof Error ? error.message : 'This analysis could not be loaded'}
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { analysis, versions } = data;
+  const { request, result } = analysis;
+  const seasonal = result.seasonalIntelligence;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+            <div>
+              <CardTitle className="text-2xl">
+                {request.subcategory ? `${request.category} · ${request.subcategory}` : request.category}
+              </CardTitle>
+              <CardDescription className="mt-2 flex flex-wrap gap-x-4 gap-y-1">
+                <span className="flex items-center gap-1"><MapPin className="h-4 w-4" />{request.city}</span>
+                <span className="flex items-center gap-1"><Users className="h-4 w-4" />{request.expectedAttendees.toLocaleString()} attendees</span>
+                <span className="flex items-center gap-1">
+                  <Calendar className="h-4 w-4" />
+                  Preferred {formatDateRange(request.preferredStartDate, request.preferredEndDate)}
+                </span>
+              </CardDescription>
+              <p className="text-xs text-muted-foreground mt-2">
+                Version {analysis.version} · analysed {new Date(result.analysisDate).toLocaleString()} ·
+                window {formatDateRange(request.dateRangeStart, request.dateRangeEnd)}
+              </p>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button asChild variant="outline" size="sm">
+                <Link href={`/analyses/${analysis.id}/report`}>
+                  <FileText className="h-4 w-4 mr-2" />
+                  Client report
+                </Link>
+              </Button>
+              <Button asChild variant="outline" size="sm">
+                <a href={`/api/analyses/${analysis.id}/calendar`} download>
+                  <Download className="h-4 w-4 mr-2" />
+                  Download .ics
+                </a>
+              </Button>
+              <Button asChild variant="outline" size="sm">
+                <a
+                  href={`/api/calendar/feed?${new URLSearchParams({ city: request.city, category: request.category })}`}
+                  title="Copy this link into your calendar app to subscribe"
+                >
+                  <CalendarPlus className="h-4 w-4 mr-2" />
+                  Subscribe to {request.city} feed
+                </a>
+              </Button>
+              <Button
+                onClick={() => rerun.mutate()}
+                disabled={rerun.isPending}
+                variant="outline"
+                size="sm"
+              >
+                {rerun.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                )}
+                {rerun.isPending ? 'Re-running...' : "Re-run with today's data"}
+              </Button>
+            </div>
+          </div>
+          {rerun.error && (
+            <p className="text-sm text-chart-error mt-2">
+              {rerun.error instanceof Error ? rerun.error.message : 'Failed to re-run analysis'}
+            </p>
+          )}
+        </CardHeader>
+      </Card>
+
+      {showDiff && (compareTo || analysis.parentAnalysisId) && (
+        <AnalysisDiffView
+          analysisId={analysis.id}
+          compareTo={compareTo}
+          onClose={() => setShowDiff(false)}
+        />
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center space-x-2 text-chart-success">
+              <CheckCircle className="h-5 w-5" />
+              <span>Recommended Dates</span>
+            </CardTitle>
+            <InfoBadge label={`${result.recommendedDates.length} options`} size="sm" />
+          </div>
+        </CardHeader>
+        <CardContent>
+          <DateRecommendationList
+            recommendations={result.recommendedDates}
+            emptyMessage="No low-risk dates were found in this analysis window."
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2 text-red-600">
+            <AlertTriangle className="h-5 w-5" />
+            <span>High-Risk Dates</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <DateRecommendationList
+            recommendations={result.highRiskDates}
+            emptyMessage="No high-risk dates were detected."
+          />
+        </CardContent>
+      </Card>
+
+      {seasonal && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-amber-600">Seasonal Intelligence</CardTitle>
+            <CardDescription>
+              {seasonal.hasSeasonalRisk
+                ? `${seasonal.riskLevel} seasonal risk (confidence ${(seasonal.confidence * 100).toFixed(0)}%)`
+                : 'No significant seasonal risks'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            {seasonal.dataCoverageWarning && (
+              <p className="p-3 border border-amber-200 bg-amber-50 rounded-lg text-amber-800">
+                {seasonal.dataCoverageWarning}
+              </p>
+            )}
+            {seasonal.seasonalFactors.length > 0 && (
+              <ul className="list-disc list-inside text-muted-foreground">
+                {seasonal.seasonalFactors.map(factor => <li key={factor}>{factor}</li>)}
+              </ul>
+            )}
+            {seasonal.recommendations.length > 0 && (
+              <ul className="list-disc list-inside">
+                {seasonal.recommendations.map(rec => <li key={rec}>{rec}</li>)}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {versions.length > 1 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <History className="h-5 w-5" />
+              <span>Versions</span>
+            </CardTitle>
+            <CardDescription>Every run of this analysis, oldest first</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {versions.map(version => (
+              <div key={version.id} className="flex items-center gap-2">
+                <Link
+                  href={`/analyses/${version.id}`}
+                  className={cn(
+                    "flex-1 flex items-center justify-between p-3 border rounded-lg text-sm hover:bg-muted/50",
+                    version.id === analysis.id && "border-primary bg-muted/30"
+                  )}
+                >
+                  <span className="font-medium">Version {version.version}</span>
+                  <span className="text-muted-foreground">
+                    {new Date(version.createdAt).toLocaleDateString()} · avg score {version.averageConflictScore.toFixed(1)} ·
+                    {' '}{version.totalRecommendations} recommended
+                  </span>
+                </Link>
+                {version.id !== analysis.id && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      setCompareTo(version.id);
+                      setShowDiff(true);
+                    }}
+                  >
+                    <GitCompare className="h-4 w-4 mr-1" />
+                    Compare
+                  </Button>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+"use client";
+
+import { useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { InfoBadge } from "@/components/ui/status-badge";
+import { X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { DateRecommendation } from "@/lib/services/conflict-analysis";
+import type { ConflictEventContribution, ConflictScoreStep } from "@/types/score-breakdown";
+import type { ScoringWeights } from "@/types/scoring-profiles";
+
+interface ScoreBreakdownDrawerProps {
+  recommendation: DateRecommendation | null;
+  onClose: () => void;
+}
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const formatDateRange = (startDate: string, endDate: string) =>
+  startDate === endDate ? formatDate(startDate) : `${formatDate(startDate)} – ${formatDate(endDate)}`;
+
+const formatPoints = (value: number) => value.toFixed(1);
+
+const formatMultiplier = (value: number) => `×${value.toFixed(2)}`;
+
+const stepValue = (step: ConflictScoreStep) => {
+  switch (step.type) {
+    case 'add': return `+${formatPoints(step.value)}`;
+    case 'multiply': return formatMultiplier(step.value);
+    case 'cap': return `${formatPoints(step.delta)}`;
+  }
+};
+
+const WEIGHT_LABELS: Record<keyof ScoringWeights, string> = {
+  categoryMatch: 'Category match',
+  attendance: 'Attendance',
+  audienceOverlap: 'Audience overlap',
+  holidayPenalty: 'Holiday penalty',
+  seasonality: 'Seasonality',
+  distance: 'Nearby cities'
+};
+
+const stepColor = (step: ConflictScoreStep) => {
+  if (step.type === 'cap') return 'bg-chart-neutral';
+  return step.delta >= 0 ? 'bg-chart-error' : 'bg-chart-success';
+};
+
+/**
+ * Side drawer explaining how a date's conflict score was built: a waterfall
+ * of every step and the per-event contributions behind it
+ */
+export function ScoreBreakdownDrawer({ recommendation, onClose }: ScoreBreakdownDrawerProps) {
+  useEffect(() => {
+    if (!recommendation) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [recommendation, onClose]);
+
+  const breakdown = recommendation?.scoreBreakdown;
+  if (!recommendation || !breakdown) {
+    return null;
+  }
+
+  // Scale bars to the largest running total so uncapped steps still fit
+  const scale = Math.max(breakdown.maxScore, ...breakdown.steps.map(step => step.total - Math.min(step.delta, 0)));
+  const penalty = breakdown.holidayPenalty;
+  // Breakdowns saved before scoring profiles existed have no weights
+  const customWeights = breakdown.weights
+    ? (Object.keys(WEIGHT_LABELS) as Array<keyof ScoringWeights>).filter(key => breakdown.weights[key] !== 1)
+    : [];
+
+  return (
+    <>
+      <div
+        className="fixed inset-0 bg-foreground/10 backdrop-blur-sm z-40"
+        onClick={onClose}
+        aria-hidden="true"
+      />
+      <aside
+        className="fixed inset-y-0 right-0 z-50 w-full max-w-xl bg-background shadow-lg border-l border-border overflow-y-auto"
+        role="dialog"
+        aria-modal="true"
+        aria-label="Conflict score breakdown"
+      >
+        <div className="flex items-start justify-between gap-4 p-6 border-b border-border">
+          <div>
+            <h2 className="text-lg font-semibold text-foreground">Why this score?</h2>
+            <p className="text-sm text-muted-foreground">
+              {formatDateRange(recommendation.startDate, recommendation.endDate)} · {formatPoints(breakdown.finalScore)}/{breakdown.maxScore}
+            </p>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose} aria-label="Close breakdown">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="p-6 space-y-8">
+          <section className="space-y-3">
+            <h3 className="text-sm font-medium text-foreground">How the score adds up</h3>
+            {breakdown.steps.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No competing events on this date.</p>
+            ) : (
+              <div className="space-y-2">
+                {breakdown.steps.map((step, index) => {
+                  const start = step.total - step.delta;
+                  const left = (Math.min(start, step.total) / scale) * 100;
+                  const width = Math.max((Math.abs(step.delta) / scale) * 100, 0.5);
+                  return (
+                    <div key={index} className="grid grid-cols-[10rem_1fr_4rem] items-center gap-3 text-xs">
+                      <span className="truncate text-foreground" title={step.label}>{step.label}</span>
+                      <div className="relative h-4 rounded bg-muted">
+                        <div
+                          className={cn("absolute inset-y-0 rounded", stepColor(step))}
+                          style={{ left: `${left}%`, width: `${width}%` }}
+                        />
+                      </div>
+                      <span className="text-right tabular-nums text-muted-foreground">{stepValue(step)}</span>
+                    </div>
+                  );
+                })}
+                <div className="grid grid-cols-[10rem_1fr_4rem] items-center gap-3 text-xs font-medium pt-2 border-t">
+                  <span>Final score</span>
+                  <span />
+                  <span className="text-right tabular-nums">{formatPoints(breakdown.finalScore)}</span>
+                </div>
+              </div>
+            )}
+          </section>
+
+          {breakdown.contributions.length > 0 && (
+            <section className="space-y-3">
+              <h3 className="text-sm font-medium text-foreground">Competing events</h3>
+              <div className="divide-y rounded-lg border">
+                {breakdown.contributions.map(contribution => (
+                  <ContributionRow key={contribution.eventId} contribution={contribution} />
+                ))}
+              </div>
+              {breakdown.unscoredEvents > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {breakdown.unscoredEvents} less significant {breakdown.unscoredEvents === 1 ? 'event adds' : 'events add'} a flat {formatPoints(breakdown.unscoredEventsScore)} points.
+                </p>
+              )}
+            </section>
+          )}
+
+          <section className="space-y-3">
+            <h3 className="text-sm font-medium text-foreground">Adjustments</h3>
+            <dl className="grid grid-cols-2 gap-y-2 text-sm">
+              <dt className="text-muted-foreground">Audience size scaling</dt>
+              <dd className="text-right tabular-nums">{formatMultiplier(breakdown.audienceScalingFactor)}</dd>
+              <dt className="text-muted-foreground">Planned event size</dt>
+              <dd className="text-right tabular-nums">{formatMultiplier(breakdown.eventSizeMultiplier)}</dd>
+              <dt className="text-muted-foreground">Business impact of holidays</dt>
+              <dd className="text-right tabular-nums">+{formatPoints(penalty.businessImpact)}</dd>
+              <dt className="text-muted-foreground">Expected venue closures</dt>
+              <dd className="text-right tabular-nums">+{formatPoints(penalty.venueClosure)}</dd>
+              <dt className="text-muted-foreground">Public holidays</dt>
+              <dd className="text-right tabular-nums">+{formatPoints(penalty.publicHolidays)}</dd>
+              <dt className="text-muted-foreground">Cultural events</dt>
+              <dd className="text-right tabular-nums">+{formatPoints(penalty.culturalEvents)}</dd>
+            </dl>
+            {customWeights.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-xs font-medium text-foreground">Scoring profile weights</p>
+                <div className="flex flex-wrap gap-1">
+                  {customWeights.map(key => (
+                    <InfoBadge key={key} label={`${WEIGHT_LABELS[key]} ${formatMultiplier(breakdown.weights[key])}`} size="sm" />
+                  ))}
+                </div>
+              </div>
+            )}
+            {breakdown.uncappedScore > breakdown.maxScore && (
+              <p className="text-xs text-muted-foreground">
+                The raw score of {formatPoints(breakdown.uncappedScore)} is capped at {breakdown.maxScore}.
+              </p>
+            )}
+          </section>
+        </div>
+      </aside>
+    </>
+  );
+}
+
+function ContributionRow({ contribution }: { contribution: ConflictEventContribution }) {
+  const { components } = contribution;
+  const multipliers = [
+    { label: 'Duration', value: contribution.durationMultiplier },
+    { label: contribution.temporalProximity === 'on_date' ? 'Same day' : `Day ${contribution.temporalProximity}`, value: contribution.temporalMultiplier },
+    { label: 'Season', value: contribution.seasonalMultiplier },
+    { label: 'Holiday', value: contribution.holidayMultiplier },
+    { label: 'Audience overlap', value: contribution.audienceOverlapMultiplier },
+    { label: 'Nearby city', value: contribution.distanceMultiplier ?? 1 }
+  ].filter(multiplier => multiplier.value !== 1);
+
+  return (
+    <div className="p-3 space-y-2">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <p className="text-sm font-medium text-foreground truncate">{contribution.title}</p>
+          <p className="text-xs text-muted-foreground">
+            {formatDate(contribution.date)} • {contribution.venue || 'TBA'} • {contribution.subcategory || contribution.category}
+          </p>
+        </div>
+        <span className="text-sm font-semibold tabular-nums shrink-0">+{formatPoints(contribution.score)}</span>
+      </div>
+      <div className="flex flex-wrap gap-1">
+        <InfoBadge label={`Base ${formatPoints(components.base)}`} size="sm" />
+        {components.category > 0 && <InfoBadge label={`Category ${formatPoints(components.category)}`} size="sm" />}
+        {components.venue > 0 && <InfoBadge label={`Venue ${formatPoints(components.venue)}`} size="sm" />}
+        {components.promotion > 0 && <InfoBadge label={`Promotion ${formatPoints(components.promotion)}`} size="sm" />}
+        {components.attendance > 0 && <InfoBadge label={`Attendance ${formatPoints(components.attendance)}`} size="sm" />}
+        {components.depthBonus > 0 && <InfoBadge label={`Large event ${formatPoints(components.depthBonus)}`} size="sm" />}
+        {multipliers.map(multiplier => (
+          <InfoBadge key={multiplier.label} label={`${multiplier.label} ${formatMultiplier(multiplier.value)}`} size="sm" />
+        ))}
+        {contribution.audienceOverlap !== null && (
+          <InfoBadge label={`${Math.round(contribution.audienceOverlap * 100)}% shared audience`} size="sm" />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -121,7 +121,7 @@ export function CookieConsentBanner() {
 
   return (
     <div 
-      className="fixed bottom-0 left-0 right-0 z-50 p-4 md:p-6 animate-fade-in-up"
+      className="fixed bottom-0 left-0 right-0 z-50 print:hidden p-4 md:p-6 animate-fade-in-up"
       role="dialog"
       aria-live="polite"
       aria-label="Cookie consent banner"
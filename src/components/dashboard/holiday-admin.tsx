@@ -0,0 +1,451 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import type { BlackoutPeriod, CulturalEventDetails, HolidayDetails } from '@/types/holidays';
+
+const COUNTRIES = [
+  { code: 'CZE', name: 'Czech Republic' },
+  { code: 'SVK', name: 'Slovakia' },
+  { code: 'AUT', name: 'Austria' },
+  { code: 'POL', name: 'Poland' },
+  { code: 'DEU', name: 'Germany' }
+];
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const SELECT_CLASS_NAME = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+type BusinessImpact = 'none' | 'partial' | 'full';
+type ReferenceDateKind = 'holidays' | 'cultural-events';
+
+interface Credentials {
+  apiKey: string;
+  organisationId: string; // Only needed with the operator key
+}
+
+/**
+ * Call a holiday admin endpoint with the API key; throws with the API's error message
+ */
+async function callApi<T = any>(credentials: Credentials, path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(path, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': credentials.apiKey,
+      ...init.headers
+    }
+  });
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    const details = Array.isArray(result.details)
+      ? `: ${result.details.map((d: { message: string }) => d.message).join(', ')}`
+      : '';
+    throw new Error(`${result.message || result.error || 'Request failed'}${details}`);
+  }
+  return result.data;
+}
+
+function describeRule(item: HolidayDetails | CulturalEventDetails): string {
+  if (item.date_type === 'fixed' && item.month && item.day) {
+    return `${item.day} ${MONTHS[item.month - 1]}`;
+  }
+  if (item.date_type === 'variable' && item.easter_offset !== undefined && item.easter_offset !== null) {
+    return item.easter_offset === 0 ? 'Easter Sunday' : `Easter ${item.easter_offset > 0 ? '+' : ''}${item.easter_offset} days`;
+  }
+  return 'Floating date';
+}
+
+function impactVariant(impact: BusinessImpact): 'destructive' | 'secondary' | 'outline' {
+  return impact === 'full' ? 'destructive' : impact === 'partial' ? 'secondary' : 'outline';
+}
+
+/**
+ * Blackout periods of the organisation: dates its analyses treat as unavailable
+ */
+function BlackoutPeriodsPanel({ credentials }: { credentials: Credentials }) {
+  const query = credentials.organisationId ? `?organisationId=${encodeURIComponent(credentials.organisationId)}` : '';
+  const [periods, setPeriods] = useState<BlackoutPeriod[]>([]);
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [name, setName] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [city, setCity] = useState('');
+  const [businessImpact, setBusinessImpact] = useState<'partial' | 'full'>('full');
+
+  const loadPeriods = useCallback(async () => {
+    try {
+      const data = await callApi(credentials, `/api/holidays/blackout-periods${query}`);
+      setPeriods(data.blackoutPeriods);
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load blackout periods');
+    }
+  }, [credentials, query]);
+
+  useEffect(() => {
+    loadPeriods();
+  }, [loadPeriods]);
+
+  const addPeriod = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+
+    try {
+      await callApi(credentials, `/api/holidays/blackout-periods${query}`, {
+        method: 'POST',
+        body: JSON.stringify({
+          name,
+          start_date: startDate,
+          end_date: endDate || startDate,
+          city: city || null,
+          business_impact: businessImpact
+        })
+      });
+      setName('');
+      setStartDate('');
+      setEndDate('');
+      setCity('');
+      await loadPeriods();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add blackout period');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deletePeriod = async (id: string) => {
+    try {
+      await callApi(credentials, `/api/holidays/blackout-periods/${id}`, { method: 'DELETE' });
+      await loadPeriods();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete blackout period');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Blackout Periods</CardTitle>
+        <CardDescription>
+          Company all-hands, trade-fair weeks, exam periods. Only your organisation&apos;s analyses avoid these dates.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="space-y-2">
+          {periods.length === 0 && <p className="text-sm text-muted-foreground">No blackout periods yet</p>}
+          {periods.map(period => (
+            <div key={period.id} className="flex items-center justify-between p-3 border rounded-lg">
+              <div>
+                <div className="font-semibold">{period.name}</div>
+                <div className="text-sm text-muted-foreground">
+                  {period.start_date === period.end_date ? period.start_date : `${period.start_date} – ${period.end_date}`}
+                  {' · '}{period.city || 'All cities'}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge variant={impactVariant(period.business_impact)}>{period.business_impact}</Badge>
+                <Button variant="outline" size="sm" onClick={() => deletePeriod(period.id)}>
+                  Delete
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <form onSubmit={addPeriod} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="blackout-name">Name</Label>
+            <Input id="blackout-name" value={name} onChange={e => setName(e.target.value)} placeholder="Company all-hands" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="blackout-start">From</Label>
+            <Input id="blackout-start" type="date" value={startDate} onChange={e => setStartDate(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="blackout-end">To</Label>
+            <Input id="blackout-end" type="date" value={endDate} min={startDate} onChange={e => setEndDate(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="blackout-city">City (empty for all cities)</Label>
+            <Input id="blackout-city" value={city} onChange={e => setCity(e.target.value)} placeholder="Brno" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="blackout-impact">Impact</Label>
+            <select
+              id="blackout-impact"
+              value={businessImpact}
+              onChange={e => setBusinessImpact(e.target.value as 'partial' | 'full')}
+              className={SELECT_CLASS_NAME}
+            >
+              <option value="full">Full – never schedule</option>
+              <option value="partial">Partial – avoid if possible</option>
+            </select>
+          </div>
+          <Button type="submit" className="md:col-span-2" disabled={!name || !startDate || isSaving}>
+            {isSaving ? 'Saving...' : 'Add blackout period'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Holidays or cultural events of a country. Everyone can list them; only the
+ * operator key can change them, as they apply to every organisation.
+ */
+function ReferenceDatesPanel({ credentials, kind }: { credentials: Credentials; kind: ReferenceDateKind }) {
+  const isHolidays = kind === 'holidays';
+  const [country, setCountry] = useState('CZE');
+  const [items, setItems] = useState<Array<HolidayDetails | CulturalEventDetails>>([]);
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [name, setName] = useState('');
+  const [month, setMonth] = useState('1');
+  const [day, setDay] = useState('1');
+  const [type, setType] = useState(isHolidays ? 'public_holiday' : 'festival');
+  const [businessImpact, setBusinessImpact] = useState<BusinessImpact>('partial');
+  const [venueClosureExpected, setVenueClosureExpected] = useState(false);
+  const basePath = isHolidays ? '/api/holidays' : '/api/holidays/cultural-events';
+
+  const loadItems = useCallback(async () => {
+    try {
+      const data = await callApi(credentials, `${basePath}?country=${country}`);
+      setItems(isHolidays ? data.holidays : data.culturalEvents);
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load dates');
+    }
+  }, [credentials, basePath, isHolidays, country]);
+
+  useEffect(() => {
+    loadItems();
+  }, [loadItems]);
+
+  const addItem = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+
+    try {
+      await callApi(credentials, basePath, {
+        method: 'POST',
+        body: JSON.stringify({
+          name,
+          country_code: country,
+          date_type: 'fixed',
+          month: Number(month),
+          day: Number(day),
+          business_impact: businessImpact,
+          venue_closure_expected: venueClosureExpected,
+          ...(isHolidays ? { holiday_type: type } : { event_type: type })
+        })
+      });
+      setName('');
+      await loadItems();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add date');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleObserved = async (holiday: HolidayDetails) => {
+    try {
+      await callApi(credentials, `${basePath}/${holiday.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ is_observed: !holiday.is_observed })
+      });
+      await loadItems();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update holiday');
+    }
+  };
+
+  const deleteItem = async (id: string) => {
+    try {
+      await callApi(credentials, `${basePath}/${id}`, { method: 'DELETE' });
+      await loadItems();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete date');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{isHolidays ? 'Holidays' : 'Cultural Events'}</CardTitle>
+        <CardDescription>
+          {isHolidays
+            ? 'Public and regional holidays applied to every analysis in the country'
+            : 'Festivals and traditions that affect attendance across the country'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label htmlFor={`${kind}-country`}>Country</Label>
+          <select id={`${kind}-country`} value={country} onChange={e => setCountry(e.target.value)} className={SELECT_CLASS_NAME}>
+            {COUNTRIES.map(c => (
+              <option key={c.code} value={c.code}>{c.name}</option>
+            ))}
+          </select>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="space-y-2 max-h-96 overflow-y-auto">
+          {items.length === 0 && <p className="text-sm text-muted-foreground">Nothing defined for this country</p>}
+          {items.map(item => (
+            <div key={item.id} className="flex items-center justify-between p-3 border rounded-lg">
+              <div>
+                <div className="font-semibold">{item.name}</div>
+                <div className="text-sm text-muted-foreground">
+                  {describeRule(item)}
+                  {item.region_code && ` · ${item.region_code}`}
+                  {'holiday_type' in item ? ` · ${item.holiday_type}` : ` · ${item.event_type}`}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge variant={impactVariant(item.business_impact)}>{item.business_impact}</Badge>
+                {'is_observed' in item && (
+                  <Button variant="outline" size="sm" onClick={() => toggleObserved(item)}>
+                    {item.is_observed ? 'Observed' : 'Not observed'}
+                  </Button>
+                )}
+                <Button variant="outline" size="sm" onClick={() => deleteItem(item.id)}>
+                  Delete
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <form onSubmit={addItem} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor={`${kind}-name`}>Name</Label>
+            <Input id={`${kind}-name`} value={name} onChange={e => setName(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`${kind}-month`}>Month</Label>
+            <select id={`${kind}-month`} value={month} onChange={e => setMonth(e.target.value)} className={SELECT_CLASS_NAME}>
+              {MONTHS.map((label, index) => (
+                <option key={label} value={index + 1}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`${kind}-day`}>Day</Label>
+            <Input id={`${kind}-day`} type="number" min="1" max="31" value={day} onChange={e => setDay(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`${kind}-type`}>{isHolidays ? 'Holiday type' : 'Event type'}</Label>
+            <Input id={`${kind}-type`} value={type} onChange={e => setType(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`${kind}-impact`}>Business impact</Label>
+            <select
+              id={`${kind}-impact`}
+              value={businessImpact}
+              onChange={e => setBusinessImpact(e.target.value as BusinessImpact)}
+              className={SELECT_CLASS_NAME}
+            >
+              <option value="none">None</option>
+              <option value="partial">Partial</option>
+              <option value="full">Full</option>
+            </select>
+          </div>
+          <label className="flex items-center gap-2 text-sm md:col-span-2">
+            <input
+              type="checkbox"
+              checked={venueClosureExpected}
+              onChange={e => setVenueClosureExpected(e.target.checked)}
+            />
+            Venues are expected to close
+          </label>
+          <Button type="submit" className="md:col-span-2" disabled={!name || !type || isSaving}>
+            {isSaving ? 'Saving...' : isHolidays ? 'Add holiday' : 'Add cultural event'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Admin screen for an organisation's blackout periods and, with the operator
+ * key, the shared holidays and cultural events. The key is only kept in component state.
+ */
+export function HolidayAdmin() {
+  const [apiKey, setApiKey] = useState('');
+  const [organisationId, setOrganisationId] = useState('');
+  const [credentials, setCredentials] = useState<Credentials | null>(null);
+
+  if (!credentials) {
+    return (
+      <Card className="max-w-xl">
+        <CardHeader>
+          <CardTitle>Connect</CardTitle>
+          <CardDescription>
+            An organisation key with the org:admin scope manages blackout periods
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form
+            onSubmit={e => {
+              e.preventDefault();
+              setCredentials({ apiKey, organisationId: organisationId.trim() });
+            }}
+            className="space-y-4"
+          >
+            <div className="space-y-2">
+              <Label htmlFor="holiday-admin-api-key">API key</Label>
+              <Input
+                id="holiday-admin-api-key"
+                type="password"
+                value={apiKey}
+                onChange={e => setApiKey(e.target.value)}
+                placeholder="osk_..."
+                autoComplete="off"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="holiday-admin-organisation">Organisation ID (operator key only)</Label>
+              <Input
+                id="holiday-admin-organisation"
+                value={organisationId}
+                onChange={e => setOrganisationId(e.target.value)}
+                autoComplete="off"
+              />
+            </div>
+            <Button type="submit" className="w-full" disabled={!apiKey}>
+              Manage dates
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex justify-end">
+        <Button variant="outline" onClick={() => setCredentials(null)}>
+          Use another key
+        </Button>
+      </div>
+      <BlackoutPeriodsPanel credentials={credentials} />
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <ReferenceDatesPanel credentials={credentials} kind="holidays" />
+        <ReferenceDatesPanel credentials={credentials} kind="cultural-events" />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import type { MeterUsage, UsageMeter, UsageSummary } from '@/types/usage';
+
+const METER_LABELS: Record<UsageMeter, string> = {
+  analysis: 'Analyses',
+  perplexity_research: 'Perplexity research',
+  openai_overlap_call: 'OpenAI overlap calls'
+};
+
+const PLAN_LABELS: Record<UsageSummary['plan'], string> = {
+  starter: 'Starter',
+  pro: 'Pro',
+  agency: 'Agency'
+};
+
+function MeterRow({ meter }: { meter: MeterUsage }) {
+  const barColor = meter.percentUsed === null || meter.percentUsed < 80
+    ? 'bg-primary'
+    : meter.percentUsed < 100 ? 'bg-yellow-500' : 'bg-red-500';
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-sm">
+        <span>{METER_LABELS[meter.meter]}</span>
+        <span>
+          {meter.used}{meter.limit === null ? ' (unlimited)' : ` / ${meter.limit}`}
+        </span>
+      </div>
+      {meter.percentUsed !== null && (
+        <div className="w-full bg-gray-200 rounded-full h-2">
+          <div className={`${barColor} h-2 rounded-full`} style={{ width: `${meter.percentUsed}%` }}></div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Monthly consumption against the plan limits of the organisation that owns an API key.
+ * The key is only kept in component state.
+ */
+export function UsageCard() {
+  const [apiKey, setApiKey] = useState('');
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadUsage = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsLoading(true);
+
+    try {
+      const response = await fetch('/api/usage', {
+        headers: { 'x-api-key': apiKey }
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || result.error || 'Failed to load usage');
+      }
+      setUsage(result.data.usage);
+    } catch (err) {
+      setUsage(null);
+      setError(err instanceof Error ? err.message : 'Failed to load usage');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Subscription Status</CardTitle>
+        <CardDescription>
+          Current plan and usage this month
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {usage ? (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <span className="font-semibold">Current Plan</span>
+              <span className="text-primary font-semibold">{PLAN_LABELS[usage.plan]}</span>
+            </div>
+            {usage.meters.map(meter => (
+              <MeterRow key={meter.meter} meter={meter} />
+            ))}
+            <div className="flex items-center justify-between">
+              <span>Billing Period</span>
+              <span>Resets {new Date(usage.periodEnd).toLocaleDateString()}</span>
+            </div>
+            <Button variant="outline" className="w-full mt-4" onClick={() => setUsage(null)}>
+              Use another key
+            </Button>
+          </div>
+        ) : (
+          <form onSubmit={loadUsage} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="usage-api-key">Organisation API key</Label>
+              <Input
+                id="usage-api-key"
+                type="password"
+                value={apiKey}
+                onChange={e => setApiKey(e.target.value)}
+                placeholder="osk_..."
+                autoComplete="off"
+              />
+            </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <Button type="submit" className="w-full" disabled={!apiKey || isLoading}>
+              {isLoading ? 'Loading...' : 'Show usage'}
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -9,6 +9,7 @@ export interface ConflictDataPoint {
   riskLevel: 'Low' | 'Medium' | 'High';
   eventCount: number;
   dayOfWeek: string;
+  schoolHoliday?: string; // School break covering the day, e.g. "Spring break (Brno-město)"
 }
 
 export interface ConflictHeatmapProps {
@@ -20,6 +21,9 @@ export interface ConflictHeatmapProps {
   onDateClick?: (date: string) => void;
 }
 
+// YYYY-MM-DD strings parse as UTC midnight; read them as local dates so weekdays and day numbers match the calendar
+const parseLocalDate = (dateString: string): Date => new Date(`${dateString.split('T')[0]}T00:00:00`);
+
 const getRiskColor = (riskLevel: string, conflictScore: number): string => {
   const intensity = Math.min(conflictScore / 20, 1);
   
@@ -52,10 +56,13 @@ export const ConflictHeatmap: React.FC<ConflictHeatmapProps> = ({
   showLegend = true,
   onDateClick
 }) => {
-  // Group data by weeks
+  const hasSchoolHolidays = data.some(point => point.schoolHoliday);
+
+  // Group data by weeks, padding the first week so days line up with the weekday labels
   const groupedData = React.useMemo(() => {
-    const weeks: ConflictDataPoint[][] = [];
-    let currentWeek: ConflictDataPoint[] = [];
+    const weeks: (ConflictDataPoint | null)[][] = [];
+    const firstDay = data.length > 0 ? parseLocalDate(data[0].date).getDay() : 0;
+    let currentWeek: (ConflictDataPoint | null)[] = Array(firstDay).fill(null);
     
     data.forEach((point, index) => {
       currentWeek.push(point);
@@ -71,7 +78,7 @@ export const ConflictHeatmap: React.FC<ConflictHeatmapProps> = ({
   }, [data]);
 
   const formatDate = (dateString: string): string => {
-    const date = new Date(dateString);
+    const date = parseLocalDate(dateString);
     return date.toLocaleDateString('en-US', { 
       month: 'short', 
       day: 'numeric' 
@@ -79,7 +86,7 @@ export const ConflictHeatmap: React.FC<ConflictHeatmapProps> = ({
   };
 
   const formatTooltipDate = (dateString: string): string => {
-    const date = new Date(dateString);
+    const date = parseLocalDate(dateString);
     return date.toLocaleDateString('en-US', { 
       weekday: 'long',
       month: 'long', 
@@ -112,7 +119,9 @@ export const ConflictHeatmap: React.FC<ConflictHeatmapProps> = ({
           <div className="space-y-1">
             {groupedData.map((week, weekIndex) => (
               <div key={weekIndex} className="grid grid-cols-7 gap-1">
-                {week.map((dataPoint, dayIndex) => (
+                {week.map((dataPoint, dayIndex) => dataPoint === null ? (
+                  <div key={`${weekIndex}-${dayIndex}`} className="aspect-square" />
+                ) : (
                   <div
                     key={`${weekIndex}-${dayIndex}`}
                     className={cn(
@@ -124,11 +133,14 @@ export const ConflictHeatmap: React.FC<ConflictHeatmapProps> = ({
                     onClick={() => onDateClick?.(dataPoint.date)}
                   >
                     <span className={cn("text-xs font-medium", getRiskTextColor(dataPoint.riskLevel))}>
-                      {new Date(dataPoint.date).getDate()}
+                      {parseLocalDate(dataPoint.date).getDate()}
                     </span>
+                    {dataPoint.schoolHoliday && (
+                      <span className="absolute bottom-1 h-1.5 w-1.5 rounded-full bg-blue-500" />
+                    )}
                     
                     {/* Tooltip */}
-                    <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 px-3 py-2 bg-popover border rounded-md shadow-lg opacity-0 group-hover:opacity-100 transition-opacity duration-200 pointer-events-none z-20 min-w-48">
+                    <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 px-3 py-2 print:hidden bg-popover border rounded-md shadow-lg opacity-0 group-hover:opacity-100 transition-opacity duration-200 pointer-events-none z-20 min-w-48">
                       <div className="text-sm font-medium text-popover-foreground">
                         {formatTooltipDate(dataPoint.date)}
                       </div>
@@ -136,6 +148,9 @@ export const ConflictHeatmap: React.FC<ConflictHeatmapProps> = ({
                         <div>Conflict Score: {dataPoint.conflictScore.toFixed(1)}/20</div>
                         <div>Risk Level: <span className={getRiskTextColor(dataPoint.riskLevel)}>{dataPoint.riskLevel}</span></div>
                         <div>Events Found: {dataPoint.eventCount}</div>
+                        {dataPoint.schoolHoliday && (
+                          <div className="text-blue-700 dark:text-blue-400">School break: {dataPoint.schoolHoliday}</div>
+                        )}
                       </div>
                       {/* Tooltip arrow */}
                       <div className="absolute top-full left-1/2 transform -translate-x-1/2 w-0 h-0 border-l-4 border-r-4 border-t-4 border-transparent border-t-popover"></div>
@@ -164,13 +179,21 @@ export const ConflictHeatmap: React.FC<ConflictHeatmapProps> = ({
                     <div className="w-3 h-3 rounded-sm" style={{ backgroundColor: getRiskColor('High', 10) }} />
                     <span className="text-xs text-red-700 dark:text-red-400">High</span>
                   </div>
+                  {hasSchoolHolidays && (
+                    <div className="flex items-center space-x-1">
+                      <div className="w-1.5 h-1.5 rounded-full bg-blue-500" />
+                      <span className="text-xs text-blue-700 dark:text-blue-400">School break</span>
+                    </div>
+                  )}
                 </div>
               </div>
               
-              <div className="flex items-center space-x-2 text-xs text-muted-foreground">
-                <TrendingUp className="h-3 w-3" />
-                <span>Click dates for details</span>
-              </div>
+              {onDateClick && (
+                <div className="flex items-center space-x-2 text-xs text-muted-foreground">
+                  <TrendingUp className="h-3 w-3" />
+                  <span>Click dates for details</span>
+                </div>
+              )}
             </div>
           )}
         </div>
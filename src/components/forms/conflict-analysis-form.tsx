@@ -7,7 +7,7 @@ import { z } from "zod";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { MapPin, Users, Tag, Calendar, Music } from "lucide-react";
+import { MapPin, Users, Tag, Calendar, Music, GitCompare, Repeat } from "lucide-react";
 import { EVENT_CATEGORIES } from "@/types";
 import { SUBCATEGORY_TAXONOMY, getAllSubcategoriesForCategory } from "@/lib/constants/subcategory-taxonomy";
 
@@ -18,6 +18,11 @@ const analysisSchema = z.object({
   expectedAttendees: z.number().min(1, "Expected attendees is required"),
   startDate: z.string().min(1, "Start date is required"),
   endDate: z.string().min(1, "End date is required"),
+  compareCities: z.string().max(500).optional(),
+  planningMode: z.enum(["single", "recurring", "multi_day"]).optional(),
+  recurrenceFrequency: z.enum(["weekly", "monthly"]).optional(),
+  recurrenceInterval: z.string().optional(),
+  seriesMonths: z.string().optional(),
 }).refine((data) => {
   const start = new Date(data.startDate);
   const end = new Date(data.endDate);
@@ -53,10 +58,16 @@ export function ConflictAnalysisForm({ onAnalysisComplete }: ConflictAnalysisFor
     formState: { errors },
   } = useForm<AnalysisForm>({
     resolver: zodResolver(analysisSchema),
-    defaultValues: {},
+    defaultValues: {
+      planningMode: "single",
+      recurrenceFrequency: "weekly",
+      recurrenceInterval: "1",
+      seriesMonths: "6",
+    },
   });
 
   const selectedCategory = watch("category");
+  const planningMode = watch("planningMode") || "single";
 
   // Update available subcategories when category changes
   useEffect(() => {
@@ -112,18 +123,32 @@ export function ConflictAnalysisForm({ onAnalysisComplete }: ConflictAnalysisFor
     };
   };
 
+  // A recurring series is analysed from its first occurrence for the chosen number of months
+  const calculateSeriesRange = (startDate: string, months: number) => {
+    const seriesEnd = new Date(startDate);
+    seriesEnd.setMonth(seriesEnd.getMonth() + months);
+    seriesEnd.setDate(seriesEnd.getDate() - 1);
+
+    return {
+      dateRangeStart: startDate,
+      dateRangeEnd: seriesEnd.toISOString().split('T')[0],
+    };
+  };
+
   const onSubmit = async (data: AnalysisForm) => {
     setLoading(true);
     try {
       console.log("Analysis request:", data);
       
       // Calculate automatic analysis range
-      const analysisRange = calculateAnalysisRange(
-        data.startDate, 
-        data.endDate, 
-        data.expectedAttendees, 
-        data.category
-      );
+      const analysisRange = data.planningMode === "recurring"
+        ? calculateSeriesRange(data.startDate, Number(data.seriesMonths || 6))
+        : calculateAnalysisRange(
+            data.startDate, 
+            data.endDate, 
+            data.expectedAttendees, 
+            data.category
+          );
       
       // Create enhanced data with automatic analysis range
       const enhancedData = {
@@ -183,6 +208,23 @@ export function ConflictAnalysisForm({ onAnalysisComplete }: ConflictAnalysisFor
         )}
       </div>
 
+      {planningMode === "single" && (
+        <div className="space-y-2">
+          <Label htmlFor="compareCities" className="flex items-center space-x-2">
+            <GitCompare className="h-4 w-4" />
+            <span>Compare With Other Cities (optional)</span>
+          </Label>
+          <Input
+            id="compareCities"
+            placeholder="e.g., Brno, Vienna"
+            {...register("compareCities")}
+          />
+          <p className="text-xs text-muted-foreground">
+            Separate cities with commas to compare up to 5 cities side by side for the same dates.
+          </p>
+        </div>
+      )}
+
       <div className="space-y-2">
         <Label htmlFor="category" className="flex items-center space-x-2">
           <Tag className="h-4 w-4" />
@@ -251,6 +293,75 @@ export function ConflictAnalysisForm({ onAnalysisComplete }: ConflictAnalysisFor
         )}
       </div>
 
+      <div className="space-y-2">
+        <Label htmlFor="planningMode" className="flex items-center space-x-2">
+          <Repeat className="h-4 w-4" />
+          <span>Planning Mode</span>
+        </Label>
+        <select
+          id="planningMode"
+          className="flex h-10 w-full rounded-xl border border-border/50 bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 transition-all duration-200 focus:shadow-lg focus:shadow-primary/25"
+          {...register("planningMode")}
+        >
+          <option value="single">Single event</option>
+          <option value="recurring">Recurring series</option>
+          <option value="multi_day">Multi-day block (find the best start date)</option>
+        </select>
+        {planningMode === "recurring" && (
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="recurrenceFrequency" className="text-sm text-muted-foreground">
+                Repeats
+              </Label>
+              <select
+                id="recurrenceFrequency"
+                className="flex h-10 w-full rounded-xl border border-border/50 bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 transition-all duration-200 focus:shadow-lg focus:shadow-primary/25"
+                {...register("recurrenceFrequency")}
+              >
+                <option value="weekly">Weekly</option>
+                <option value="monthly">Monthly</option>
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="recurrenceInterval" className="text-sm text-muted-foreground">
+                Every
+              </Label>
+              <select
+                id="recurrenceInterval"
+                className="flex h-10 w-full rounded-xl border border-border/50 bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 transition-all duration-200 focus:shadow-lg focus:shadow-primary/25"
+                {...register("recurrenceInterval")}
+              >
+                <option value="1">1</option>
+                <option value="2">2</option>
+                <option value="3">3</option>
+                <option value="4">4</option>
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="seriesMonths" className="text-sm text-muted-foreground">
+                For (months)
+              </Label>
+              <select
+                id="seriesMonths"
+                className="flex h-10 w-full rounded-xl border border-border/50 bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 transition-all duration-200 focus:shadow-lg focus:shadow-primary/25"
+                {...register("seriesMonths")}
+              >
+                <option value="3">3</option>
+                <option value="6">6</option>
+                <option value="12">12</option>
+              </select>
+            </div>
+          </div>
+        )}
+        {planningMode !== "single" && (
+          <p className="text-xs text-muted-foreground">
+            {planningMode === "recurring"
+              ? "The first day below sets the weekday you have in mind; every other weekday and offset is scored too."
+              : "The dates below set the block length; every start date around them is scored."}
+          </p>
+        )}
+      </div>
+
       <div className="space-y-2">
         <Label className="flex items-center space-x-2">
           <Calendar className="h-4 w-4" />
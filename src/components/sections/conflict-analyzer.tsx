@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useEffect, useRef } from "react";
+import Link from "next/link";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -8,17 +9,32 @@ import { Label } from "@/components/ui/label";
 import { StatusBadge, SuccessBadge, WarningBadge, ErrorBadge, InfoBadge } from "@/components/ui/status-badge";
 import { ProgressIndicator, ProgressStep } from "@/components/ui/progress-indicator";
 import { MetricCard } from "@/components/ui/metric-card";
-import { Calendar, MapPin, Users, Target, AlertTriangle, CheckCircle, Loader2, RefreshCw, Building, BarChart3, Clock, Zap, Music, Gift, Star, TrendingUp, TrendingDown } from "lucide-react";
+import { Calendar, MapPin, Users, Target, AlertTriangle, CheckCircle, Loader2, RefreshCw, Building, BarChart3, Clock, Zap, Music, Gift, Star, TrendingUp, TrendingDown, Link2 } from "lucide-react";
 import { ConflictAnalysisForm } from "@/components/forms/conflict-analysis-form";
-import { conflictAnalysisService, ConflictAnalysisResult, DateRecommendation } from "@/lib/services/conflict-analysis";
+import { CityComparisonView } from "@/components/analysis/city-comparison-view";
+import { EventSeriesView } from "@/components/analysis/event-series-view";
+import { ScoreBreakdownDrawer } from "@/components/analysis/score-breakdown-drawer";
+import type { CityComparisonResult } from "@/types/city-comparison";
+import type { EventSeriesAnalysisResult, EventSeriesPattern } from "@/types/event-series";
+import type { ConflictAnalysisResult, DateRecommendation } from "@/lib/services/conflict-analysis";
+import { isTerminalJobStatus } from "@/lib/utils/job-queue";
+import { applyAnalysisProgressEvent, createAnalysisProgressState, describeAnalysisProgress } from "@/lib/utils/analysis-progress";
+import type { Job } from "@/types/jobs";
+import type { AnalysisProgressEvent, AnalysisProgressState } from "@/types/analysis-progress";
 // OpenAI service is now accessed via API endpoint
 
 export function ConflictAnalyzer() {
   const [analysisResult, setAnalysisResult] = useState<ConflictAnalysisResult | null>(null);
+  const [analysisId, setAnalysisId] = useState<string | null>(null);
+  const [comparisonResult, setComparisonResult] = useState<CityComparisonResult | null>(null);
+  const [seriesResult, setSeriesResult] = useState<EventSeriesAnalysisResult | null>(null);
+  const [breakdownRecommendation, setBreakdownRecommendation] = useState<DateRecommendation | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [openaiAvailable, setOpenaiAvailable] = useState(false);
   const [currentAnalysisStep, setCurrentAnalysisStep] = useState<string>('');
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  const [liveProgress, setLiveProgress] = useState<AnalysisProgressState>(createAnalysisProgressState);
   const currentStepRef = useRef<string>('');
 
   const analysisSteps: ProgressStep[] = [
@@ -75,12 +91,118 @@ export function ConflictAnalyzer() {
     currentStepRef.current = stepId;
   };
 
+  // Job steps shown in the progress indicator; saving is part of generating recommendations
+  const toProgressStep = (jobStep: string | null) => {
+    if (jobStep === 'queued' || !jobStep) return 'initializing';
+    if (jobStep === 'saving' || jobStep === 'complete') return 'generating-recommendations';
+    return jobStep;
+  };
+
+  // Follow an analysis job over server-sent events, rendering its progress events as they arrive.
+  // Falls back to polling when the stream cannot be opened.
+  const streamAnalysisJob = (jobId: string): Promise<Job> => {
+    if (typeof EventSource === 'undefined') {
+      return pollAnalysisJob(jobId);
+    }
+
+    return new Promise((resolve, reject) => {
+      const source = new EventSource(`/api/jobs/${jobId}/stream`);
+      const fallBackToPolling = () => {
+        source.close();
+        pollAnalysisJob(jobId).then(resolve, reject);
+      };
+
+      source.addEventListener('progress', message => {
+        const event: AnalysisProgressEvent = JSON.parse((message as MessageEvent).data);
+        setLiveProgress(state => applyAnalysisProgressEvent(state, event));
+        if (event.type === 'step') {
+          updateAnalysisProgress(toProgressStep(event.step));
+        }
+      });
+      source.addEventListener('done', message => {
+        source.close();
+        const { job } = JSON.parse((message as MessageEvent).data);
+        if (job) {
+          resolve(job);
+        } else {
+          reject(new Error('Analysis job not found'));
+        }
+      });
+      source.addEventListener('stream-error', fallBackToPolling);
+      source.onerror = () => {
+        // EventSource reconnects by itself unless the server refused the stream
+        if (source.readyState === EventSource.CLOSED) {
+          fallBackToPolling();
+        }
+      };
+    });
+  };
+
+  // Follow an analysis job until it finishes, mirroring its step in the progress indicator
+  const pollAnalysisJob = async (jobId: string): Promise<Job> => {
+    while (true) {
+      const response = await fetch(`/api/jobs/${jobId}`, { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok || !data.data?.job) {
+        throw new Error(data.error || 'Failed to load analysis progress');
+      }
+
+      const job: Job = data.data.job;
+      if (isTerminalJobStatus(job.status)) {
+        return job;
+      }
+
+      const step = toProgressStep(job.currentStep);
+      if (step !== currentStepRef.current) {
+        updateAnalysisProgress(step);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, 1500));
+    }
+  };
+
+  const cancelAnalysis = async () => {
+    if (!activeJobId) return;
+    try {
+      await fetch(`/api/jobs/${activeJobId}/cancel`, { method: 'POST' });
+    } catch (err) {
+      console.error('Failed to cancel analysis:', err);
+    }
+  };
+
   const handleAnalysisComplete = async (formData: any) => {
     setLoading(true);
     setError(null);
     setAnalysisResult(null);
+    setAnalysisId(null);
+    setComparisonResult(null);
+    setSeriesResult(null);
+    setLiveProgress(createAnalysisProgressState());
     setCurrentAnalysisStep('initializing');
 
+    // Recurring series and multi-day blocks are scored across every possible schedule
+    const durationDays = Math.round(
+      (new Date(formData.endDate).getTime() - new Date(formData.startDate).getTime()) / (1000 * 60 * 60 * 24)
+    ) + 1;
+    const series: EventSeriesPattern | null = formData.planningMode === 'recurring'
+      ? {
+          type: 'recurring',
+          frequency: formData.recurrenceFrequency || 'weekly',
+          interval: Number(formData.recurrenceInterval || 1),
+          durationDays: Math.min(durationDays, 7)
+        }
+      : formData.planningMode === 'multi_day'
+        ? { type: 'multi_day', durationDays }
+        : null;
+
+    // Extra cities switch the request to a side-by-side comparison
+    const cities: string[] = [formData.city, ...(formData.compareCities || '').split(',')]
+      .map((city: string) => city.trim())
+      .filter((city: string, index: number, all: string[]) =>
+        city.length > 0 && all.findIndex(other => other.toLowerCase() === city.toLowerCase()) === index
+      );
+    const isComparison = !series && cities.length > 1;
+
     // Track progress intervals
     let progressInterval: NodeJS.Timeout | null = null;
     const startTime = Date.now();
@@ -97,7 +219,8 @@ export function ConflictAnalyzer() {
 
     // Expected total time - start with a conservative estimate
     // Will dynamically adjust if the API call takes longer
-    let expectedTotalTime = 25000; // Start with 25 seconds estimate
+    // Cities in a comparison run in parallel, but the slowest one decides the total
+    let expectedTotalTime = isComparison ? 40000 : 25000; // Start with 25 seconds estimate
     let apiCallStartTime: number | null = null;
 
     try {
@@ -109,54 +232,86 @@ export function ConflictAnalyzer() {
       // Step 2: Start fetching events and make API call
       apiCallStartTime = Date.now();
       
-      // Start progress tracking based on elapsed time
-      progressInterval = setInterval(() => {
-        const elapsed = Date.now() - startTime;
-        const currentStep = currentStepRef.current;
-
-        // Dynamically adjust expected time if API call is taking longer than expected
-        if (apiCallStartTime && elapsed > expectedTotalTime * 0.8) {
-          // If we're past 80% of expected time and still waiting, extend the estimate
-          const apiElapsed = Date.now() - apiCallStartTime;
-          if (apiElapsed > expectedTotalTime * 0.7) {
-            expectedTotalTime = Math.max(expectedTotalTime, apiElapsed * 1.5);
+      // Single analyses report real progress from their job; comparisons and series estimate it from elapsed time
+      if (series || isComparison) {
+        progressInterval = setInterval(() => {
+          const elapsed = Date.now() - startTime;
+          const currentStep = currentStepRef.current;
+
+          // Dynamically adjust expected time if API call is taking longer than expected
+          if (apiCallStartTime && elapsed > expectedTotalTime * 0.8) {
+            // If we're past 80% of expected time and still waiting, extend the estimate
+            const apiElapsed = Date.now() - apiCallStartTime;
+            if (apiElapsed > expectedTotalTime * 0.7) {
+              expectedTotalTime = Math.max(expectedTotalTime, apiElapsed * 1.5);
+            }
           }
-        }
 
-        const progress = Math.min(elapsed / expectedTotalTime, 0.95); // Cap at 95% until complete
-
-        // Update stages based on progress
-        if (progress >= stageTimings['generating-recommendations'] && 
-            currentStep !== 'generating-recommendations' && 
-            currentStep !== 'complete' &&
-            currentStep !== '') {
-          updateAnalysisProgress('generating-recommendations');
-        } else if (progress >= stageTimings['analyzing-conflicts'] && 
-                   (currentStep === 'fetching-events' || currentStep === '')) {
-          updateAnalysisProgress('analyzing-conflicts');
-        }
-      }, 800); // Check every 800ms for smoother updates
+          const progress = Math.min(elapsed / expectedTotalTime, 0.95); // Cap at 95% until complete
+
+          // Update stages based on progress
+          if (progress >= stageTimings['generating-recommendations'] && 
+              currentStep !== 'generating-recommendations' && 
+              currentStep !== 'complete' &&
+              currentStep !== '') {
+            updateAnalysisProgress('generating-recommendations');
+          } else if (progress >= stageTimings['analyzing-conflicts'] && 
+                     (currentStep === 'fetching-events' || currentStep === '')) {
+            updateAnalysisProgress('analyzing-conflicts');
+          }
+        }, 800); // Check every 800ms for smoother updates
+      }
       
       // Call the API endpoint
-      const response = await fetch('/api/analyze', {
+      const endpoint = series ? '/api/analyze/series' : isComparison ? '/api/analyze/compare' : '/api/analyze';
+      const requestBody = series
+        ? {
+            city: formData.city,
+            category: formData.category,
+            subcategory: formData.subcategory,
+            expectedAttendees: formData.expectedAttendees,
+            dateRange: {
+              start: formData.dateRangeStart,
+              end: formData.dateRangeEnd
+            },
+            startDate: formData.startDate,
+            series
+          }
+        : isComparison
+        ? {
+            cities,
+            category: formData.category,
+            subcategory: formData.subcategory,
+            expectedAttendees: formData.expectedAttendees,
+            dateRange: {
+              start: formData.dateRangeStart,
+              end: formData.dateRangeEnd
+            },
+            preferredDates: [formData.startDate, formData.endDate],
+            enablePerplexityResearch: false, // Kept off so several cities finish in reasonable time
+            enableLLMRelevanceFilter: true
+          }
+        : {
+            city: formData.city,
+            category: formData.category,
+            subcategory: formData.subcategory,
+            expectedAttendees: formData.expectedAttendees,
+            dateRange: {
+              start: formData.dateRangeStart,
+              end: formData.dateRangeEnd
+            },
+            preferredDates: [formData.startDate, formData.endDate],
+            enableAdvancedAnalysis: true, // Always enabled for best results
+            enablePerplexityResearch: true, // Enable Perplexity online research for comprehensive event discovery
+            enableLLMRelevanceFilter: true
+          };
+
+      const response = await fetch(endpoint, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          city: formData.city,
-          category: formData.category,
-          subcategory: formData.subcategory,
-          expectedAttendees: formData.expectedAttendees,
-          dateRange: {
-            start: formData.dateRangeStart,
-            end: formData.dateRangeEnd
-          },
-          preferredDates: [formData.startDate, formData.endDate],
-          enableAdvancedAnalysis: true, // Always enabled for best results
-          enablePerplexityResearch: true, // Enable Perplexity online research for comprehensive event discovery
-          enableLLMRelevanceFilter: true 
-        })
+        body: JSON.stringify(requestBody)
       });
 
       // Clear the progress interval
@@ -165,6 +320,26 @@ export function ConflictAnalyzer() {
         progressInterval = null;
       }
 
+      // Parse response
+      const data = await response.json();
+
+      if (response.status === 202 && data.jobId) {
+        setActiveJobId(data.jobId);
+        const job = await streamAnalysisJob(data.jobId);
+        setActiveJobId(null);
+
+        if (job.status === 'succeeded' && job.result) {
+          updateAnalysisProgress('complete');
+          await new Promise(resolve => setTimeout(resolve, 300));
+          setAnalysisResult(job.result.data);
+          setAnalysisId(job.result.analysisId);
+        } else {
+          setError(job.status === 'cancelled' ? 'Analysis cancelled' : job.lastError || 'Failed to analyze conflicts');
+          setCurrentAnalysisStep('');
+        }
+        return;
+      }
+
       // Ensure all intermediate steps are marked as completed
       // Transition through steps if API call completed before progress tracker reached them
       const currentStep = currentStepRef.current;
@@ -181,17 +356,21 @@ export function ConflictAnalyzer() {
       }
       // If already on generating-recommendations, we can proceed directly to complete
 
-      // Parse response
-      const data = await response.json();
-      
       if (response.ok && data.data) {
         // Mark all steps as completed
         updateAnalysisProgress('complete');
         // Small delay to show completion state
         await new Promise(resolve => setTimeout(resolve, 300));
-        setAnalysisResult(data.data);
+        if (series) {
+          setSeriesResult(data.data);
+        } else if (isComparison) {
+          setComparisonResult(data.data);
+        } else {
+          setAnalysisResult(data.data);
+          setAnalysisId(data.analysisId || null);
+        }
       } else {
-        setError(data.error || 'Failed to analyze conflicts');
+        setError(data.details?.[0]?.message || data.error || 'Failed to analyze conflicts');
         setCurrentAnalysisStep('');
       }
     } catch (err) {
@@ -202,6 +381,7 @@ export function ConflictAnalyzer() {
       }
       setError(err instanceof Error ? err.message : 'Failed to analyze conflicts');
       setCurrentAnalysisStep('');
+      setActiveJobId(null);
     } finally {
       // Ensure interval is cleared
       if (progressInterval) {
@@ -445,10 +625,20 @@ export function ConflictAnalyzer() {
                     <CardDescription>
                       Processing your event data and calculating conflict scores
                     </CardDescription>
+                    {activeJobId && (
+                      <Button variant="outline" size="sm" className="w-fit" onClick={cancelAnalysis}>
+                        Cancel analysis
+                      </Button>
+                    )}
                   </CardHeader>
                   <CardContent className="space-y-6">
                     <ProgressIndicator 
-                      steps={analysisSteps.map(step => {
+                      steps={analysisSteps.map(baseStep => {
+                        // Streamed analyses describe what each step has actually done so far
+                        const step = {
+                          ...baseStep,
+                          description: describeAnalysisProgress(liveProgress, baseStep.id) ?? baseStep.description
+                        };
                         const currentStepIndex = analysisSteps.findIndex(s => s.id === currentAnalysisStep);
                         const stepIndex = analysisSteps.findIndex(s => s.id === step.id);
                         
@@ -485,14 +675,35 @@ export function ConflictAnalyzer() {
                       currentStep={currentAnalysisStep}
                       variant="vertical"
                     />
+
+                    {liveProgress.recommendations.length > 0 && (
+                      <div className="space-y-2 pt-4 border-t">
+                        <p className="text-sm font-medium">Best dates so far</p>
+                        {liveProgress.recommendations.map(rec => (
+                          <div
+                            key={`${rec.startDate}-${rec.endDate}`}
+                            className={`flex items-center justify-between p-3 rounded-lg ${getRiskBgColor(rec.riskLevel)}`}
+                          >
+                            <span className={`text-sm font-medium ${getRiskTextColor(rec.riskLevel)}`}>
+                              {formatDateRange(rec.startDate, rec.endDate)}
+                            </span>
+                            <span className="text-xs text-muted-foreground">
+                              Score {rec.conflictScore.toFixed(1)}/20 · {rec.competingEventCount} competing events
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
                     
                     <div className="grid grid-cols-1 md:grid-cols-3 gap-4 pt-4 border-t">
                       <MetricCard
                         title="Data Sources"
-                        value="3+"
+                        value={liveProgress.providers.length > 0 ? liveProgress.providers.length : "3+"}
                         icon={BarChart3}
                         colorScheme="info"
-                        description="APIs being queried"
+                        description={liveProgress.deduplication
+                          ? `${liveProgress.deduplication.unique} unique events`
+                          : liveProgress.providers.length > 0 ? "APIs answered" : "APIs being queried"}
                         isLoading={false}
                       />
                       <MetricCard
@@ -539,6 +750,8 @@ export function ConflictAnalyzer() {
                           onClick={() => {
                             setError(null);
                             setAnalysisResult(null);
+                            setComparisonResult(null);
+                            setSeriesResult(null);
                           }} 
                           variant="ghost" 
                           size="sm"
@@ -552,8 +765,31 @@ export function ConflictAnalyzer() {
                 </Card>
               )}
 
+              {comparisonResult && (
+                <CityComparisonView comparison={comparisonResult} />
+              )}
+
+              {seriesResult && (
+                <EventSeriesView result={seriesResult} />
+              )}
+
               {analysisResult && (
                 <>
+                  {analysisId && (
+                    <Card className="glass-effect">
+                      <CardContent className="py-4 flex items-center justify-between gap-4">
+                        <div className="text-sm text-muted-foreground">
+                          This analysis has been saved. Share or revisit it any time.
+                        </div>
+                        <Button asChild variant="outline" size="sm">
+                          <Link href={`/analyses/${analysisId}`}>
+                            <Link2 className="h-4 w-4 mr-2" />
+                            Permalink
+                          </Link>
+                        </Button>
+                      </CardContent>
+                    </Card>
+                  )}
 
                   <Card className="border-chart-success/20 bg-green-50/50 dark:bg-green-950/20 animate-scale-in">
                     <CardHeader>
@@ -740,6 +976,15 @@ export function ConflictAnalyzer() {
                                     ) : (
                                       <>
                                         Conflict Score: {range.recommendations[0].conflictScore.toFixed(1)}/20 (Low Risk)
+                                        {range.recommendations[0].scoreBreakdown && (
+                                          <button
+                                            type="button"
+                                            className="ml-2 underline underline-offset-2"
+                                            onClick={() => setBreakdownRecommendation(range.recommendations[0])}
+                                          >
+                                            Why this score?
+                                          </button>
+                                        )}
                                       </>
                                     )}
                                   </div>
@@ -1173,6 +1418,15 @@ export function ConflictAnalyzer() {
                                   ) : (
                                     <>
                                       Conflict Score: {range.recommendations[0].conflictScore.toFixed(1)}/20
+                                      {range.recommendations[0].scoreBreakdown && (
+                                        <button
+                                          type="button"
+                                          className="ml-2 underline underline-offset-2"
+                                          onClick={() => setBreakdownRecommendation(range.recommendations[0])}
+                                        >
+                                          Why this score?
+                                        </button>
+                                      )}
                                     </>
                                   )}
                                 </div>
@@ -1320,6 +1574,15 @@ export function ConflictAnalyzer() {
                                 
                                 <div className={`text-base ${hasConflicts ? (recommendation.conflictScore >= 6 ? 'text-red-700' : 'text-orange-700') : getRiskColor(recommendation.riskLevel)} mb-3`}>
                                   Conflict Score: {recommendation.conflictScore.toFixed(1)}/20
+                                  {recommendation.scoreBreakdown && (
+                                    <button
+                                      type="button"
+                                      className="ml-2 text-sm underline underline-offset-2"
+                                      onClick={() => setBreakdownRecommendation(recommendation)}
+                                    >
+                                      Why this score?
+                                    </button>
+                                  )}
                                 </div>
                                 
                                 <div className={`text-sm ${detailColor} mb-3`}>
@@ -1963,7 +2226,7 @@ export function ConflictAnalyzer() {
                 </>
               )}
 
-              {!loading && !error && !analysisResult && (
+              {!loading && !error && !analysisResult && !comparisonResult && !seriesResult && (
                 <Card>
                   <CardContent className="py-12">
                     <div className="text-center text-gray-500">
@@ -1977,6 +2240,11 @@ export function ConflictAnalyzer() {
           </div>
         </div>
       </div>
+
+      <ScoreBreakdownDrawer
+        recommendation={breakdownRecommendation}
+        onClose={() => setBreakdownRecommendation(null)}
+      />
     </section>
   );
 }
\ No newline at end of file
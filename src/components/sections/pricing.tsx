@@ -10,6 +10,7 @@ import {
   Building2
 } from "lucide-react";
 import { useState } from "react";
+import { PLAN_ANNUAL_ANALYSES } from "@/lib/services/usage-quotas";
 
 export function Pricing() {
   const [isAnnual, setIsAnnual] = useState(false);
@@ -21,7 +22,7 @@ export function Pricing() {
       period: "month",
       description: "Perfect for small to mid-size conference organizers or agencies",
       features: [
-        "Up to 25 analyses/year",
+        `Up to ${PLAN_ANNUAL_ANALYSES.starter} analyses/year`,
         "Basic conflict detection",
         "Email support",
       ],
@@ -36,7 +37,7 @@ export function Pricing() {
       period: "month",
       description: "Ideal for corporate event managers and agencies running multiple events",
       features: [
-        "Up to 100 analyses/year",
+        `Up to ${PLAN_ANNUAL_ANALYSES.pro} analyses/year`,
         "Branded reports (PDF export)",
         "Audience overlap analysis",
         "Priority support",
@@ -0,0 +1,2 @@
+// Sources of events stored in the events table by the scraper, including ICS/CSV imports
+export const SCRAPER_SOURCES = ['goout', 'brnoexpat', 'firecrawl', 'agentql', 'scraper', 'import'];
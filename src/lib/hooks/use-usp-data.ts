@@ -1,5 +1,5 @@
 import { useQuery } from '@tanstack/react-query';
-import { USPData } from '@/lib/services/api-registry';
+import type { USPData } from '@/lib/services/api-registry';
 
 /**
  * Custom hook to fetch and manage USP data
@@ -0,0 +1,129 @@
+// Tests for diffing two versions of a saved conflict analysis
+import { analysisDiffService } from '../analysis-diff';
+import type { Event } from '@/types';
+import type { DateRecommendation } from '../conflict-analysis';
+import type { SavedAnalysis } from '@/types/analysis-history';
+
+describe('AnalysisDiffService', () => {
+  const makeEvent = (id: string, title: string, date: string): Event => ({
+    id,
+    title,
+    date,
+    city: 'Prague',
+    category: 'Technology',
+    source: 'manual',
+    createdAt: '2025-01-01T00:00:00Z',
+    updatedAt: '2025-01-01T00:00:00Z'
+  });
+
+  const makeRec = (
+    startDate: string,
+    conflictScore: number,
+    riskLevel: DateRecommendation['riskLevel'],
+    competingEvents: Event[] = []
+  ): DateRecommendation => ({
+    startDate,
+    endDate: startDate,
+    conflictScore,
+    riskLevel,
+    competingEvents,
+    reasons: []
+  });
+
+  const makeAnalysis = (
+    id: string,
+    recommendedDates: DateRecommendation[],
+    highRiskDates: DateRecommendation[],
+    averageConflictScore = 0
+  ): SavedAnalysis => ({
+    id,
+    userId: null,
+    organisationId: null,
+    request: {
+      city: 'Prague',
+      category: 'Technology',
+      subcategory: null,
+      expectedAttendees: 500,
+      dateRangeStart: '2025-03-01',
+      dateRangeEnd: '2025-03-31',
+      preferredStartDate: '2025-03-10',
+      preferredEndDate: '2025-03-10'
+    },
+    result: {
+      recommendedDates,
+      highRiskDates,
+      allEvents: [],
+      analysisDate: '2025-01-01T00:00:00Z'
+    },
+    summary: {
+      totalRecommendations: recommendedDates.length,
+      totalHighRiskDates: highRiskDates.length,
+      totalEventsAnalyzed: 0,
+      averageConflictScore
+    },
+    version: 1,
+    parentAnalysisId: null,
+    rootAnalysisId: id,
+    createdAt: '2025-01-01T00:00:00Z'
+  });
+
+  it('reports no changes for identical runs', () => {
+    const rec = makeRec('2025-03-10', 1, 'Low', [makeEvent('1', 'Tech Meetup', '2025-03-10')]);
+    const diff = analysisDiffService.diffAnalyses(makeAnalysis('a', [rec], []), makeAnalysis('b', [rec], []));
+
+    expect(diff.summary.datesChanged).toBe(0);
+    expect(diff.competingEventsAppeared).toHaveLength(0);
+    expect(diff.droppedFromRecommended).toHaveLength(0);
+    expect(diff.dates[0].status).toBe('unchanged');
+  });
+
+  it('detects a recommended date that became high risk because of a new event', () => {
+    const before = makeAnalysis('a', [makeRec('2025-03-10', 1, 'Low'), makeRec('2025-03-17', 2, 'Low')], []);
+    const conference = makeEvent('2', 'Prague Tech Summit', '2025-03-10T09:00:00Z');
+    const after = makeAnalysis('b', [makeRec('2025-03-17', 2, 'Low')], [makeRec('2025-03-10', 9, 'High', [conference])]);
+
+    const diff = analysisDiffService.diffAnalyses(before, after);
+
+    expect(diff.droppedFromRecommended).toEqual([
+      expect.objectContaining({ startDate: '2025-03-10', previousRank: 1, nowHighRisk: true })
+    ]);
+    expect(diff.competingEventsAppeared.map(e => e.title)).toEqual(['Prague Tech Summit']);
+
+    const changed = diff.dates.find(d => d.startDate === '2025-03-10')!;
+    expect(changed.status).toBe('changed');
+    expect(changed.riskChange).toBe('increased');
+    expect(changed.scoreDelta).toBe(8);
+    expect(changed.eventsAppeared).toHaveLength(1);
+    expect(diff.summary.riskIncreased).toBe(1);
+  });
+
+  it('matches events by title and day even when their IDs change between runs', () => {
+    const before = makeAnalysis('a', [makeRec('2025-03-10', 3, 'Medium', [makeEvent('old-id', 'Jazz Night ', '2025-03-10')])], []);
+    const after = makeAnalysis('b', [makeRec('2025-03-10', 3, 'Medium', [makeEvent('new-id', 'jazz night', '2025-03-10T19:00:00Z')])], []);
+
+    const diff = analysisDiffService.diffAnalyses(before, after);
+
+    expect(diff.competingEventsAppeared).toHaveLength(0);
+    expect(diff.competingEventsDisappeared).toHaveLength(0);
+    expect(diff.summary.datesChanged).toBe(0);
+  });
+
+  it('reports dates that are newly recommended or no longer scored', () => {
+    const before = makeAnalysis('a', [makeRec('2025-03-03', 1, 'Low')], []);
+    const after = makeAnalysis('b', [makeRec('2025-03-24', 0, 'Low')], []);
+
+    const diff = analysisDiffService.diffAnalyses(before, after);
+
+    expect(diff.newlyRecommended).toEqual([expect.objectContaining({ startDate: '2025-03-24', rank: 1 })]);
+    expect(diff.droppedFromRecommended[0].after).toBeUndefined();
+    expect(diff.dates.map(d => d.status)).toEqual(['removed', 'added']);
+  });
+
+  it('rejects analyses for different cities or categories', () => {
+    const prague = makeAnalysis('a', [], []);
+    const brno = { ...makeAnalysis('b', [], []), request: { ...prague.request, city: 'Brno', category: 'Music' } };
+
+    expect(analysisDiffService.validateComparable(prague, brno)).toHaveLength(2);
+    expect(analysisDiffService.validateComparable(prague, makeAnalysis('c', [], []))).toHaveLength(0);
+  });
+});
@@ -0,0 +1,144 @@
+// Tests for assembling printable client reports
+import { analysisReportBuilder } from '../analysis-report';
+import type { Event } from '@/types';
+import type { DateRecommendation } from '../conflict-analysis';
+import type { SavedAnalysis } from '@/types/analysis-history';
+import type { SchoolHoliday } from '@/types/holidays';
+
+describe('AnalysisReportBuilder', () => {
+  const makeEvent = (id: string, date: string, endDate?: string): Event => ({
+    id,
+    title: `Event ${id}`,
+    date,
+    endDate,
+    city: 'Prague',
+    category: 'Technology',
+    source: 'manual',
+    createdAt: '2025-01-01T00:00:00Z',
+    updatedAt: '2025-01-01T00:00:00Z'
+  });
+
+  const makeRec = (
+    startDate: string,
+    endDate: string,
+    conflictScore: number,
+    riskLevel: DateRecommendation['riskLevel'],
+    extra: Partial<DateRecommendation> = {}
+  ): DateRecommendation => ({
+    startDate,
+    endDate,
+    conflictScore,
+    riskLevel,
+    competingEvents: [],
+    reasons: [],
+    ...extra
+  });
+
+  const makeAnalysis = (recommendedDates: DateRecommendation[], highRiskDates: DateRecommendation[], allEvents: Event[] = []): SavedAnalysis => ({
+    id: 'analysis-1',
+    userId: null,
+    organisationId: null,
+    request: {
+      city: 'Prague',
+      category: 'Technology',
+      subcategory: null,
+      expectedAttendees: 500,
+      dateRangeStart: '2025-03-02',
+      dateRangeEnd: '2025-03-08',
+      preferredStartDate: '2025-03-04',
+      preferredEndDate: '2025-03-04'
+    },
+    result: { recommendedDates, highRiskDates, allEvents, analysisDate: '2025-01-01T00:00:00Z' },
+    summary: { totalRecommendations: recommendedDates.length, totalHighRiskDates: highRiskDates.length, totalEventsAnalyzed: allEvents.length, averageConflictScore: 4 },
+    version: 1,
+    parentAnalysisId: null,
+    rootAnalysisId: 'analysis-1',
+    createdAt: '2025-01-01T00:00:00Z'
+  });
+
+  it('builds one heatmap cell per day using the worst covering window', () => {
+    const analysis = makeAnalysis(
+      [makeRec('2025-03-03', '2025-03-04', 2, 'Low')],
+      [makeRec('2025-03-04', '2025-03-05', 14, 'High')],
+      [makeEvent('1', '2025-03-04'), makeEvent('2', '2025-03-03T19:00:00Z', '2025-03-05')]
+    );
+
+    const heatmap = analysisReportBuilder.buildHeatmap(analysis);
+
+    expect(heatmap.map(point => point.date)).toEqual([
+      '2025-03-02', '2025-03-03', '2025-03-04', '2025-03-05', '2025-03-06', '2025-03-07', '2025-03-08'
+    ]);
+    expect(heatmap[0]).toEqual({ date: '2025-03-02', conflictScore: 0, riskLevel: 'Low', eventCount: 0, dayOfWeek: 'Sun' });
+    expect(heatmap[1]).toEqual(expect.objectContaining({ conflictScore: 2, riskLevel: 'Low', eventCount: 1 }));
+    expect(heatmap[2]).toEqual(expect.objectContaining({ conflictScore: 14, riskLevel: 'High', eventCount: 2 }));
+    expect(heatmap[3]).toEqual(expect.objectContaining({ conflictScore: 14, eventCount: 1 }));
+  });
+
+  it('marks days in the city\'s school breaks', () => {
+    const springBreak: SchoolHoliday = {
+      id: 'sh-1',
+      country_id: 'cze',
+      district: 'Praha 6-10',
+      kind: 'spring',
+      name: 'Spring break',
+      start_date: '2025-03-03',
+      end_date: '2025-03-09',
+      school_year: '2024/2025',
+      created_at: '2025-01-01T00:00:00Z'
+    };
+
+    const heatmap = analysisReportBuilder.buildHeatmap(makeAnalysis([], []), [springBreak]);
+
+    expect(heatmap[0].schoolHoliday).toBeUndefined();
+    expect(heatmap[1].schoolHoliday).toBe('Spring break (Praha 6-10)');
+    expect(heatmap[6].schoolHoliday).toBe('Spring break (Praha 6-10)');
+  });
+
+  it('collects holiday restrictions once per holiday and window, sorted by date', () => {
+    const restrictions = {
+      holidays: [{ holiday_name: 'Easter Monday', holiday_type: 'public_holiday', business_impact: 'full', venue_closure_expected: true, is_observed: true }],
+      cultural_events: [{ event_name: 'Prague Spring', event_type: 'festival', business_impact: 'partial', venue_closure_expected: false, duration_days: 20 }],
+      business_impact: 'full' as const,
+      venue_closure_expected: true,
+      reasons: []
+    };
+    const rec = makeRec('2025-04-21', '2025-04-21', 9, 'Medium', { holidayRestrictions: restrictions });
+
+    const result = analysisReportBuilder.collectHolidayRestrictions([
+      rec,
+      rec,
+      makeRec('2025-04-01', '2025-04-01', 1, 'Low')
+    ]);
+
+    expect(result).toEqual([
+      expect.objectContaining({ name: 'Easter Monday', kind: 'holiday', businessImpact: 'full', venueClosureExpected: true }),
+      expect.objectContaining({ name: 'Prague Spring', kind: 'cultural_event', businessImpact: 'partial' })
+    ]);
+  });
+
+  it('limits the report to the top recommendations and high-risk dates', () => {
+    const recommended = Array.from({ length: 8 }, (_, i) => makeRec(`2025-03-0${i + 1}`, `2025-03-0${i + 1}`, i, 'Low'));
+    const report = analysisReportBuilder.buildReport(makeAnalysis(recommended, []), {}, new Date('2025-02-01T00:00:00Z'));
+
+    expect(report.topRecommendations).toHaveLength(5);
+    expect(report.topRecommendations[0].startDate).toBe('2025-03-01');
+    expect(report.generatedAt).toBe('2025-02-01T00:00:00.000Z');
+  });
+
+  it('reads branding from query parameters and drops unsafe logo URLs', () => {
+    expect(analysisReportBuilder.parseBranding({
+      agency: '  Event Agency  ',
+      client: ['Acme', 'Other'],
+      logoUrl: 'javascript:alert(1)',
+      notes: 'x'.repeat(3000)
+    })).toEqual({
+      agencyName: 'Event Agency',
+      preparedFor: 'Acme',
+      logoUrl: undefined,
+      notes: 'x'.repeat(2000)
+    });
+
+    expect(analysisReportBuilder.parseBranding({ logoUrl: 'https://example.com/logo.png' }).logoUrl)
+      .toBe('https://example.com/logo.png');
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * @jest-environment node
+ */
+// Tests for who may rotate and revoke an organisation's API keys
+import { apiKeyService } from '../api-keys';
+import { AuthorizationError } from '@/lib/utils/error-handling';
+import { AuthContext, OrganisationRole } from '@/types/organisations';
+
+const ORGANISATION_ID = '00000000-0000-4000-8000-000000000000';
+const OWNER_ID = '11111111-1111-4111-8111-111111111111';
+const ADMIN_ID = '22222222-2222-4222-8222-222222222222';
+const MEMBER_ID = '33333333-3333-4333-8333-333333333333';
+
+const memberRoles: Record<string, OrganisationRole> = {
+  [OWNER_ID]: 'owner',
+  [ADMIN_ID]: 'admin',
+  [MEMBER_ID]: 'member'
+};
+
+const storedKeys: Record<string, any> = {
+  'key-owner': { id: 'key-owner', organisation_id: ORGANISATION_ID, name: 'Owner', key_prefix: 'aaaaaaaa', scopes: ['org:admin'], created_by: OWNER_ID },
+  'key-admin': { id: 'key-admin', organisation_id: ORGANISATION_ID, name: 'Admin', key_prefix: 'bbbbbbbb', scopes: ['org:admin'], created_by: ADMIN_ID },
+  'key-member': { id: 'key-member', organisation_id: ORGANISATION_ID, name: 'Member', key_prefix: 'cccccccc', scopes: ['analyze'], created_by: MEMBER_ID }
+};
+
+const inserted: any[] = [];
+const updated: any[] = [];
+
+jest.mock('../organisations', () => ({
+  organisationService: {
+    getMemberRole: async (_organisationId: string, userId: string) => memberRoles[userId] || null
+  }
+}));
+
+jest.mock('@/lib/supabase', () => ({
+  serverDatabaseService: {
+    executeWithRetry: async (operation: () => Promise<any>) => operation(),
+    getClient: () => ({
+      from: () => {
+        let id: string | null = null;
+        let row: any = null;
+        const query: any = {
+          select: () => query,
+          eq: (column: string, value: string) => {
+            if (column === 'id') id = value;
+            return query;
+          },
+          insert: (values: any) => {
+            row = { id: `rotated-${inserted.length}`, ...values };
+            inserted.push(row);
+            return query;
+          },
+          update: (values: any) => {
+            updated.push(values);
+            return query;
+          },
+          is: () => query,
+          single: async () => {
+            if (row) return { data: row, error: null };
+            return id && storedKeys[id]
+              ? { data: storedKeys[id], error: null }
+              : { data: null, error: { code: 'PGRST116' } };
+          },
+          then: (resolve: (value: any) => void) => resolve({ error: null })
+        };
+        return query;
+      }
+    })
+  }
+}));
+
+function actor(userId: string): AuthContext {
+  return {
+    organisationId: ORGANISATION_ID,
+    userId,
+    apiKeyId: null,
+    role: memberRoles[userId],
+    scopes: ['org:admin'],
+    isOperator: false
+  };
+}
+
+describe('ApiKeyService', () => {
+  describe('rotateKey', () => {
+    beforeEach(() => {
+      inserted.length = 0;
+    });
+
+    it('rotates the caller\'s own key for its creator', async () => {
+      const rotated = await apiKeyService.rotateKey(ORGANISATION_ID, 'key-admin', actor(ADMIN_ID));
+      expect(rotated?.apiKey.createdBy).toBe(ADMIN_ID);
+      expect(rotated?.apiKey.rotatedFromId).toBe('key-admin');
+    });
+
+    it('rotates keys of members whose role the caller manages', async () => {
+      const rotated = await apiKeyService.rotateKey(ORGANISATION_ID, 'key-member', actor(ADMIN_ID));
+      expect(rotated?.apiKey.createdBy).toBe(MEMBER_ID);
+    });
+
+    it('refuses to rotate keys of members above the caller', async () => {
+      await expect(apiKeyService.rotateKey(ORGANISATION_ID, 'key-owner', actor(ADMIN_ID)))
+        .rejects.toBeInstanceOf(AuthorizationError);
+      await expect(apiKeyService.rotateKey(ORGANISATION_ID, 'key-admin', actor(MEMBER_ID)))
+        .rejects.toBeInstanceOf(AuthorizationError);
+      expect(inserted).toHaveLength(0);
+    });
+  });
+
+  describe('revokeKey', () => {
+    beforeEach(() => {
+      updated.length = 0;
+    });
+
+    it('revokes the caller\'s own key and keys of members whose role it manages', async () => {
+      expect(await apiKeyService.revokeKey(ORGANISATION_ID, 'key-member', actor(MEMBER_ID))).not.toBeNull();
+      expect(await apiKeyService.revokeKey(ORGANISATION_ID, 'key-member', actor(ADMIN_ID))).not.toBeNull();
+      expect(updated).toHaveLength(2);
+    });
+
+    it('refuses to revoke keys of members above the caller', async () => {
+      await expect(apiKeyService.revokeKey(ORGANISATION_ID, 'key-owner', actor(ADMIN_ID)))
+        .rejects.toBeInstanceOf(AuthorizationError);
+      await expect(apiKeyService.revokeKey(ORGANISATION_ID, 'key-admin', actor(MEMBER_ID)))
+        .rejects.toBeInstanceOf(AuthorizationError);
+      expect(updated).toHaveLength(0);
+    });
+  });
+});
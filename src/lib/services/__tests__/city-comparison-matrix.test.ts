@@ -0,0 +1,90 @@
+// Tests for ranking cities in a multi-city comparison
+import { cityComparisonMatrix } from '../city-comparison-matrix';
+import type { ConflictAnalysisResult, DateRecommendation } from '../conflict-analysis';
+
+describe('CityComparisonMatrix', () => {
+  const makeRec = (
+    startDate: string,
+    conflictScore: number,
+    extra: Partial<DateRecommendation> = {}
+  ): DateRecommendation => ({
+    startDate,
+    endDate: startDate,
+    conflictScore,
+    riskLevel: conflictScore >= 12 ? 'High' : conflictScore >= 6 ? 'Medium' : 'Low',
+    competingEvents: [],
+    reasons: [],
+    ...extra
+  });
+
+  const makeResult = (recommendedDates: DateRecommendation[], highRiskDates: DateRecommendation[] = []): ConflictAnalysisResult => ({
+    recommendedDates,
+    highRiskDates,
+    allEvents: [],
+    analysisDate: '2025-01-01T00:00:00Z'
+  });
+
+  const seasonal = (seasonalMultiplier: number): DateRecommendation['seasonalFactors'] => ({
+    demandLevel: 'moderate',
+    seasonalMultiplier,
+    holidayMultiplier: 1,
+    seasonalReasoning: [],
+    holidayReasoning: [],
+    optimalityScore: 0.5,
+    venueAvailability: 0.8
+  });
+
+  const holiday = (name: string, businessImpact: 'none' | 'partial' | 'full'): DateRecommendation['holidayRestrictions'] => ({
+    holidays: [{ holiday_name: name, business_impact: businessImpact }],
+    cultural_events: [],
+    business_impact: businessImpact,
+    venue_closure_expected: businessImpact === 'full',
+    reasons: []
+  });
+
+  it('picks the lowest-scoring date and breaks ties on holiday impact', () => {
+    const entry = cityComparisonMatrix.summarizeCity('Prague', makeResult(
+      [
+        makeRec('2025-09-10', 3, { holidayRestrictions: holiday('St. Wenceslas Day', 'full') }),
+        makeRec('2025-09-12', 3, { seasonalFactors: seasonal(1.2) }),
+        makeRec('2025-09-15', 5)
+      ],
+      [makeRec('2025-09-20', 14)]
+    ), 'analysis-prague');
+
+    expect(entry.bestDate).toEqual(expect.objectContaining({
+      startDate: '2025-09-12',
+      seasonalMultiplier: 1.2,
+      holidayImpact: 'none'
+    }));
+    expect(entry.alternatives.map(date => date.startDate)).toEqual(['2025-09-10', '2025-09-15']);
+    expect(entry.alternatives[0].holidays).toEqual(['St. Wenceslas Day']);
+    expect(entry.analysisId).toBe('analysis-prague');
+  });
+
+  it('ranks cities by their best date and puts failed cities last', () => {
+    const ranked = cityComparisonMatrix.rankCities([
+      cityComparisonMatrix.failedCity('Vienna', 'Analysis failed for this city'),
+      cityComparisonMatrix.summarizeCity('Prague', makeResult([makeRec('2025-09-12', 6)]), null),
+      cityComparisonMatrix.summarizeCity('Brno', makeResult([makeRec('2025-09-12', 6, { seasonalFactors: seasonal(0.9) })]), null),
+      cityComparisonMatrix.summarizeCity('Ostrava', makeResult([makeRec('2025-09-13', 2)]), null)
+    ]);
+
+    expect(ranked.map(entry => [entry.rank, entry.city])).toEqual([
+      [1, 'Ostrava'],
+      [2, 'Brno'],
+      [3, 'Prague'],
+      [4, 'Vienna']
+    ]);
+  });
+
+  it('keeps a city with no scored dates below cities with results', () => {
+    const ranked = cityComparisonMatrix.rankCities([
+      cityComparisonMatrix.summarizeCity('Plzeň', makeResult([]), null),
+      cityComparisonMatrix.summarizeCity('Prague', makeResult([makeRec('2025-09-12', 18)]), null)
+    ]);
+
+    expect(ranked[0].city).toBe('Prague');
+    expect(ranked[1]).toEqual(expect.objectContaining({ city: 'Plzeň', status: 'completed', bestDate: null, rank: 2 }));
+  });
+});
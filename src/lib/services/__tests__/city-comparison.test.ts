@@ -0,0 +1,116 @@
+/**
+ * @jest-environment node
+ */
+// Tests for running the conflict analyses of a comparison concurrently
+import type { Event } from '@/types';
+import type { ConflictAnalysisResult } from '../conflict-analysis';
+
+// Every query returns no rows
+jest.mock('@/lib/supabase', () => {
+  const query: any = new Proxy(() => query, {
+    get: (_target, property) => property === 'then'
+      ? (resolve: (value: unknown) => unknown) => resolve({ data: [], error: null, count: 0 })
+      : query,
+    apply: () => query
+  });
+  return {
+    createClient: () => query,
+    supabase: query,
+    serverDatabaseService: { getClient: () => query, executeWithRetry: (operation: () => unknown) => operation() }
+  };
+});
+
+// Services create their OpenAI clients when loaded; none is called here
+jest.mock('openai', () => ({ __esModule: true, default: class OpenAI {} }));
+process.env.OPENAI_API_KEY = 'test-openai-key';
+
+// Loaded after the key is set
+const { cityComparisonService } = require('../city-comparison') as typeof import('../city-comparison');
+const { cityComparisonMatrix } = require('../city-comparison-matrix') as typeof import('../city-comparison-matrix');
+const { conflictAnalysisService } = require('../conflict-analysis') as typeof import('../conflict-analysis');
+const { analysisHistoryService } = require('../analysis-history') as typeof import('../analysis-history');
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function makeEvent(id: string, city: string, title: string, expectedAttendees: number): Event {
+  return {
+    id,
+    title,
+    date: '2026-03-12T19:00:00Z',
+    city,
+    venue: `${city} Arena`,
+    category: 'Entertainment',
+    expectedAttendees,
+    source: 'ticketmaster',
+    createdAt: '2026-01-01T00:00:00Z',
+    updatedAt: '2026-01-01T00:00:00Z'
+  };
+}
+
+const eventsByCity: Record<string, Event[]> = {
+  Prague: [makeEvent('prague-1', 'Prague', 'Prague Festival', 8000)],
+  Brno: [
+    makeEvent('brno-1', 'Brno', 'Brno Concert', 3000),
+    makeEvent('brno-2', 'Brno', 'Brno Show', 2000)
+  ]
+};
+
+describe('CityComparisonService', () => {
+  let resultsByCity: Record<string, ConflictAnalysisResult>;
+
+  beforeEach(() => {
+    resultsByCity = {};
+    const summarizeCity = cityComparisonMatrix.summarizeCity.bind(cityComparisonMatrix);
+    jest.spyOn(cityComparisonMatrix, 'summarizeCity').mockImplementation((city, result, analysisId) => {
+      resultsByCity[city] = result;
+      return summarizeCity(city, result, analysisId);
+    });
+
+    const service = conflictAnalysisService as any;
+
+    // Prague's events arrive first, so Prague is still scoring after Brno's events arrive
+    jest.spyOn(service, 'fetchEventsFromAPI').mockImplementation(async (params: any) => {
+      await delay(params.city === 'Prague' ? 0 : 20);
+      const events = eventsByCity[params.city];
+      return { filteredEvents: events, allEvents: events };
+    });
+    jest.spyOn(service, 'generatePotentialDates').mockImplementation(async () => {
+      await delay(50);
+      return [{ startDate: '2026-03-12', endDate: '2026-03-12' }];
+    });
+    jest.spyOn(service, 'isEventSignificant').mockResolvedValue(true);
+    jest.spyOn(service, 'calculateConflictScoreWithBreakdown').mockImplementation(
+      async (competingEvents: any) => ({ score: competingEvents.length, breakdown: undefined })
+    );
+    jest.spyOn(service, 'getHolidayConfigForCity').mockResolvedValue(null);
+    jest.spyOn(analysisHistoryService, 'saveAnalysis').mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('scores each city against its own events when the analyses run at the same time', async () => {
+    const result = await cityComparisonService.compareCities({
+      cities: ['Prague', 'Brno'],
+      category: 'Entertainment',
+      subcategory: 'Concerts',
+      expectedAttendees: 500,
+      dateRange: { start: '2026-03-12', end: '2026-03-12' },
+      enableLLMRelevanceFilter: false
+    });
+
+    const competingTitles = (city: string) => {
+      const { recommendedDates, highRiskDates } = resultsByCity[city];
+      return [...recommendedDates, ...highRiskDates]
+        .flatMap(rec => rec.competingEvents.map(event => event.title))
+        .sort();
+    };
+
+    expect(competingTitles('Prague')).toEqual(['Prague Festival']);
+    expect(competingTitles('Brno')).toEqual(['Brno Concert', 'Brno Show']);
+    expect(result.cities.map(entry => [entry.city, entry.bestDate?.competingEventCount])).toEqual(
+      expect.arrayContaining([['Prague', 1], ['Brno', 2]])
+    );
+  });
+});
@@ -0,0 +1,73 @@
+// Tests for the step-by-step explanation of conflict scores
+import { conflictScoreBreakdownBuilder, MAX_CONFLICT_SCORE } from '../conflict-score-breakdown';
+import type { ConflictEventContribution } from '@/types/score-breakdown';
+
+describe('ConflictScoreBreakdownBuilder', () => {
+  const makeContribution = (eventId: string, score: number): ConflictEventContribution => ({
+    eventId,
+    title: `Event ${eventId}`,
+    date: '2026-05-16',
+    category: 'Music',
+    components: { base: 5, category: 0, venue: 0, promotion: 0, attendance: 0, depthBonus: 0 },
+    durationMultiplier: 1,
+    temporalProximity: 'on_date',
+    temporalMultiplier: 1,
+    seasonalMultiplier: 1,
+    holidayMultiplier: 1,
+    audienceOverlap: null,
+    audienceOverlapMultiplier: 1,
+    distanceMultiplier: 1,
+    score
+  });
+
+  it('replays every step to the final score', () => {
+    const breakdown = conflictScoreBreakdownBuilder.build({
+      contributions: [makeContribution('a', 3), makeContribution('b', 5)],
+      unscoredEvents: 2,
+      audienceScalingFactor: 0.5,
+      expectedAttendees: 800
+    });
+
+    // (3 + 5 + 2 * 2) * 0.5 * 1.05
+    expect(breakdown.finalScore).toBeCloseTo(6.3);
+    expect(breakdown.steps.map(step => step.type)).toEqual(['add', 'add', 'add', 'multiply', 'multiply']);
+    expect(breakdown.steps[breakdown.steps.length - 1].total).toBeCloseTo(breakdown.finalScore);
+    const replayed = breakdown.steps.reduce((total, step) => total + step.delta, 0);
+    expect(replayed).toBeCloseTo(breakdown.finalScore);
+    expect(breakdown.contributions.map(contribution => contribution.eventId)).toEqual(['b', 'a']);
+  });
+
+  it('adds the holiday penalty and records the cap', () => {
+    const breakdown = conflictScoreBreakdownBuilder.build({
+      contributions: [makeContribution('a', 10)],
+      unscoredEvents: 0,
+      audienceScalingFactor: 1,
+      expectedAttendees: 200,
+      holidayRestrictions: {
+        business_impact: 'partial',
+        venue_closure_expected: false,
+        holidays: [{ holiday_name: 'Labour Day' }],
+        cultural_events: [{ name: 'Majáles' }, { name: 'Fair' }]
+      }
+    });
+
+    expect(breakdown.holidayPenalty).toEqual({
+      businessImpact: 8,
+      venueClosure: 0,
+      publicHolidays: 3,
+      culturalEvents: 2,
+      total: 13
+    });
+    expect(breakdown.uncappedScore).toBe(23);
+    expect(breakdown.finalScore).toBe(MAX_CONFLICT_SCORE);
+    const cap = breakdown.steps[breakdown.steps.length - 1];
+    expect(cap.type).toBe('cap');
+    expect(cap.delta).toBe(-3);
+  });
+
+  it('scales larger planned events', () => {
+    expect(conflictScoreBreakdownBuilder.eventSizeMultiplier(300)).toBe(1);
+    expect(conflictScoreBreakdownBuilder.eventSizeMultiplier(501)).toBe(1.05);
+    expect(conflictScoreBreakdownBuilder.eventSizeMultiplier(1001)).toBe(1.1);
+  });
+});
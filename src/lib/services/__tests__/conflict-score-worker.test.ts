@@ -0,0 +1,112 @@
+/**
+ * @jest-environment node
+ */
+// Tests for scoring busy dates in the Web Worker
+import type { Event } from '@/types';
+import type { ConflictCalculationOutput } from '@/lib/workers/conflict-analysis-worker';
+
+// Every query returns no rows
+jest.mock('@/lib/supabase', () => {
+  const query: any = new Proxy(() => query, {
+    get: (_target, property) => property === 'then'
+      ? (resolve: (value: unknown) => unknown) => resolve({ data: [], error: null, count: 0 })
+      : query,
+    apply: () => query
+  });
+  return {
+    createClient: () => query,
+    supabase: query,
+    serverDatabaseService: { getClient: () => query, executeWithRetry: (operation: () => unknown) => operation() }
+  };
+});
+
+// Services create their OpenAI clients when loaded; none is called here
+jest.mock('openai', () => ({ __esModule: true, default: class OpenAI {} }));
+process.env.OPENAI_API_KEY = 'test-openai-key';
+
+// Loaded after the key is set
+const { conflictAnalysisService } = require('../conflict-analysis') as typeof import('../conflict-analysis');
+
+function makeEvent(index: number): Event {
+  return {
+    id: `event-${index}`,
+    title: `Concert ${index}`,
+    date: '2026-03-12T19:00:00Z',
+    city: 'Prague',
+    venue: 'O2 Arena',
+    category: 'Entertainment',
+    source: 'ticketmaster',
+    createdAt: '2026-01-01T00:00:00Z',
+    updatedAt: '2026-01-01T00:00:00Z'
+  };
+}
+
+function makeContribution(event: Event): ConflictCalculationOutput['contributions'][number] {
+  return {
+    eventId: event.id,
+    title: event.title,
+    date: event.date,
+    category: event.category,
+    venue: event.venue,
+    components: { base: 3, category: 2, venue: 4, promotion: 0, attendance: 0, depthBonus: 0 },
+    durationMultiplier: 1,
+    temporalProximity: 'on_date',
+    temporalMultiplier: 1,
+    seasonalMultiplier: 1,
+    holidayMultiplier: 1,
+    audienceOverlap: null,
+    audienceOverlapMultiplier: 1,
+    distanceMultiplier: 1,
+    score: 9
+  };
+}
+
+describe('ConflictAnalysisService worker scoring', () => {
+  const service = conflictAnalysisService as any;
+  const competingEvents = Array.from({ length: 60 }, (_, index) => makeEvent(index));
+  const params = {
+    city: 'Prague',
+    category: 'Entertainment',
+    expectedAttendees: 500,
+    dateRange: { start: '2026-03-12', end: '2026-03-12' }
+  };
+  const config = { depth: 'medium', maxComparisons: 20, stringSimilarityThreshold: 0.8, spatialRadius: 50 };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('builds the breakdown from the contributions the worker returns', async () => {
+    const workerResult: ConflictCalculationOutput = {
+      contributions: competingEvents.slice(0, 2).map(makeContribution),
+      unscoredEvents: 58,
+      processingTime: 1,
+      eventsProcessed: 2
+    };
+    jest.spyOn(service, 'executeInWorker').mockResolvedValue(workerResult);
+    const fallback = jest.spyOn(service, 'calculateConflictScoreFallback');
+
+    const { score, breakdown } = await service.calculateConflictScoreWithBreakdown(
+      competingEvents, 500, 'Entertainment', params, config
+    );
+
+    expect(fallback).not.toHaveBeenCalled();
+    expect(breakdown.contributions.map((contribution: any) => contribution.eventId)).toEqual(['event-0', 'event-1']);
+    expect(breakdown.unscoredEvents).toBe(58);
+    expect(score).toBe(breakdown.finalScore);
+    expect(score).toBeGreaterThan(0);
+  });
+
+  it('scores on the main thread with a breakdown when no worker is available', async () => {
+    jest.spyOn(service, 'executeInWorker').mockImplementation(
+      (_type: unknown, _data: unknown, fallbackFn: () => Promise<unknown>) => fallbackFn()
+    );
+
+    const { score, breakdown } = await service.calculateConflictScoreWithBreakdown(
+      competingEvents, 500, 'Entertainment', params, config
+    );
+
+    expect(breakdown.contributions.length).toBeGreaterThan(0);
+    expect(score).toBe(breakdown.finalScore);
+  });
+});
@@ -0,0 +1,160 @@
+// Tests for ICS and CSV import parsing
+import { eventImportParser } from '../event-import-parser';
+import type { EventImportConfig } from '@/types/event-import';
+
+describe('EventImportParser', () => {
+  const icsConfig: EventImportConfig = { format: 'ics', sourceName: 'Divadlo Archa', city: 'Prague', category: 'Entertainment' };
+
+  const ics = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'BEGIN:VEVENT',
+    'UID:archa-101@example.com',
+    'DTSTART:20251010T220000Z',
+    'DTEND:20251011T000000Z',
+    'SUMMARY:Jazz\\, Blues & Soul',
+    'DESCRIPTION:Line one\\nLine two with a long text that is folded onto the',
+    '  next line',
+    'LOCATION:Divadlo Archa\\, Na Poříčí 26',
+    'URL:https://example.com/program/101',
+    'CATEGORIES:Music,Jazz',
+    'BEGIN:VALARM',
+    'DESCRIPTION:Reminder',
+    'END:VALARM',
+    'END:VEVENT',
+    'BEGIN:VEVENT',
+    'UID:archa-102@example.com',
+    'DTSTART;VALUE=DATE:20251020',
+    'DTEND;VALUE=DATE:20251023',
+    'SUMMARY:Festival weekend',
+    'END:VEVENT',
+    'BEGIN:VEVENT',
+    'UID:archa-103@example.com',
+    'DTSTART;TZID=Europe/Prague:20251101T193000',
+    'SUMMARY:Cancelled show',
+    'STATUS:CANCELLED',
+    'END:VEVENT',
+    'BEGIN:VEVENT',
+    'UID:archa-104@example.com',
+    'SUMMARY:No start',
+    'END:VEVENT',
+    'END:VCALENDAR'
+  ].join('\r\n');
+
+  it('converts VEVENTs into import events', () => {
+    const result = eventImportParser.parseICalendarEvents(ics, icsConfig);
+
+    expect(result.totalRecords).toBe(4);
+    expect(result.events).toHaveLength(2);
+    expect(result.events[0]).toEqual(expect.objectContaining({
+      title: 'Jazz, Blues & Soul',
+      description: 'Line one\nLine two with a long text that is folded onto the next line',
+      venue: 'Divadlo Archa, Na Poříčí 26',
+      city: 'Prague',
+      category: 'Music',
+      subcategory: 'Jazz',
+      source: 'import',
+      url: 'https://example.com/program/101'
+    }));
+  });
+
+  it('uses the feed time zone for UTC timestamps', () => {
+    const [concert] = eventImportParser.parseICalendarEvents(ics, icsConfig).events;
+
+    // 22:00 UTC is after midnight in Prague
+    expect(concert.date).toBe('2025-10-11');
+    expect(concert.end_date).toBeUndefined();
+  });
+
+  it('treats all-day DTEND as exclusive', () => {
+    const festival = eventImportParser.parseICalendarEvents(ics, icsConfig).events[1];
+
+    expect(festival.date).toBe('2025-10-20');
+    expect(festival.end_date).toBe('2025-10-22');
+    expect(festival.category).toBe('Entertainment');
+  });
+
+  it('reports events without a start and skips cancelled ones', () => {
+    const result = eventImportParser.parseICalendarEvents(ics, icsConfig);
+
+    expect(result.errors).toEqual(['Event 4 (archa-104@example.com): missing SUMMARY or DTSTART']);
+    expect(result.events.map(e => e.title)).not.toContain('Cancelled show');
+  });
+
+  it('keeps source IDs stable across imports', () => {
+    const first = eventImportParser.parseICalendarEvents(ics, icsConfig).events;
+    const second = eventImportParser.parseICalendarEvents(ics, icsConfig).events;
+
+    expect(first[0].source_id).toBe(second[0].source_id);
+    expect(first[0].source_id).toMatch(/^import_divadlo_archa_[0-9a-f]{16}$/);
+    expect(first[0].source_id).not.toBe(first[1].source_id);
+  });
+
+  describe('CSV', () => {
+    const csvConfig: EventImportConfig = {
+      format: 'csv',
+      sourceName: 'Sono Centrum',
+      city: 'Brno',
+      mapping: {
+        title: 'Název',
+        date: 'Datum',
+        endDate: 'Do',
+        venue: 'Sál',
+        category: 'Žánr',
+        expectedAttendees: 'Kapacita',
+        url: 'Odkaz'
+      }
+    };
+
+    const csv = [
+      '\uFEFFNázev;Datum;Do;Sál;Žánr;Kapacita;Odkaz',
+      '"Koncert; speciál";10. 4. 2030;;Velký sál;Music;1 200;https://example.com/a',
+      'Výstava;2030-05-01;2030-05-03;"Foyer ""B""";;;not a url',
+      ';2030-06-01;;;;;',
+      'Party;31.2.2030;;;;;'
+    ].join('\r\n');
+
+    it('maps columns and detects the semicolon delimiter', () => {
+      const result = eventImportParser.parseCsvEvents(csv, csvConfig);
+
+      expect(result.totalRecords).toBe(4);
+      expect(result.events).toHaveLength(2);
+      expect(result.events[0]).toEqual(expect.objectContaining({
+        title: 'Koncert; speciál',
+        date: '2030-04-10',
+        city: 'Brno',
+        venue: 'Velký sál',
+        category: 'Music',
+        expected_attendees: 1200,
+        url: 'https://example.com/a',
+        source: 'import'
+      }));
+      expect(result.events[1]).toEqual(expect.objectContaining({
+        title: 'Výstava',
+        end_date: '2030-05-03',
+        venue: 'Foyer "B"',
+        category: 'Other',
+        url: undefined
+      }));
+    });
+
+    it('reports rows with missing fields or invalid dates', () => {
+      const result = eventImportParser.parseCsvEvents(csv, csvConfig);
+
+      expect(result.errors).toEqual([
+        'Row 4: missing title or date',
+        'Row 5: unrecognised date "31.2.2030"'
+      ]);
+    });
+
+    it('rejects mappings that reference unknown columns', () => {
+      const result = eventImportParser.parseCsvEvents(csv, {
+        ...csvConfig,
+        mapping: { title: 'Title', date: 'Datum' }
+      });
+
+      expect(result.events).toEqual([]);
+      expect(result.errors).toEqual(['Columns not found in CSV header: Title']);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+// Tests for generating and ranking recurring series and multi-day block schedules
+import { eventSeriesPlanner } from '../event-series-planner';
+import type { EventSeriesCandidate, EventSeriesOccurrence } from '@/types/event-series';
+
+describe('EventSeriesPlanner', () => {
+  const score = (candidate: EventSeriesCandidate, scores: number[]): EventSeriesOccurrence[] =>
+    candidate.occurrences.map((occurrence, index) => ({
+      ...occurrence,
+      conflictScore: scores[index],
+      riskLevel: scores[index] <= 2 ? 'Low' : scores[index] <= 6 ? 'Medium' : 'High',
+      competingEvents: [],
+      reasons: []
+    }));
+
+  it('generates every weekday and offset for a fortnightly series with equal occurrence counts', () => {
+    // 2026-01-01 is a Thursday
+    const candidates = eventSeriesPlanner.generateCandidates(
+      { type: 'recurring', frequency: 'weekly', interval: 2, durationDays: 1 },
+      '2026-01-01',
+      '2026-06-30'
+    );
+
+    expect(candidates).toHaveLength(14);
+    const counts = new Set(candidates.map(candidate => candidate.occurrences.length));
+    expect(counts.size).toBe(1);
+
+    const thursdays = candidates.find(candidate => candidate.key === 'weekly-2:+0')!;
+    expect(thursdays.weekday).toBe(4);
+    expect(thursdays.label).toBe('Every 2 weeks on Thursday, starting 2026-01-01');
+    expect(thursdays.occurrences.slice(0, 3).map(occurrence => occurrence.startDate))
+      .toEqual(['2026-01-01', '2026-01-15', '2026-01-29']);
+  });
+
+  it('places monthly occurrences on the nth or last weekday of each month', () => {
+    const candidates = eventSeriesPlanner.generateCandidates(
+      { type: 'recurring', frequency: 'monthly', interval: 1, durationDays: 1, occurrences: 3 },
+      '2026-01-01',
+      '2026-06-30'
+    );
+
+    const secondThursday = candidates.find(candidate => candidate.key === 'monthly-1:4:2:+0')!;
+    expect(secondThursday.label).toBe('Second Thursday of every month, starting 2026-01-08');
+    expect(secondThursday.occurrences.map(occurrence => occurrence.startDate))
+      .toEqual(['2026-01-08', '2026-02-12', '2026-03-12']);
+
+    const lastFriday = candidates.find(candidate => candidate.key === 'monthly-1:5:-1:+0')!;
+    expect(lastFriday.occurrences.map(occurrence => occurrence.startDate))
+      .toEqual(['2026-01-30', '2026-02-27', '2026-03-27']);
+  });
+
+  it('limits multi-day blocks to the allowed start weekdays', () => {
+    const candidates = eventSeriesPlanner.generateCandidates(
+      { type: 'multi_day', durationDays: 3, startWeekdays: [5] },
+      '2026-06-01',
+      '2026-06-30'
+    );
+
+    expect(candidates.map(candidate => candidate.occurrences[0])).toEqual([
+      { startDate: '2026-06-05', endDate: '2026-06-07' },
+      { startDate: '2026-06-12', endDate: '2026-06-14' },
+      { startDate: '2026-06-19', endDate: '2026-06-21' },
+      { startDate: '2026-06-26', endDate: '2026-06-28' }
+    ]);
+  });
+
+  it('finds the requested pattern from the preferred start date', () => {
+    expect(eventSeriesPlanner.getRequestedKey(
+      { type: 'recurring', frequency: 'weekly', interval: 2, durationDays: 1 },
+      '2026-01-01',
+      '2026-01-22'
+    )).toBe('weekly-2:+7');
+
+    expect(eventSeriesPlanner.getRequestedKey(
+      { type: 'recurring', frequency: 'monthly', interval: 1, durationDays: 1 },
+      '2026-01-01',
+      '2026-01-29'
+    )).toBe('monthly-1:4:-1:+0');
+  });
+
+  it('ranks patterns by average score, then by high-risk occurrences', () => {
+    const candidates = eventSeriesPlanner.generateCandidates(
+      { type: 'recurring', frequency: 'weekly', interval: 1, durationDays: 1, occurrences: 3 },
+      '2026-01-01',
+      '2026-03-31'
+    );
+    const [thursday, friday, saturday] = candidates;
+
+    const result = eventSeriesPlanner.buildResult(
+      { type: 'recurring', frequency: 'weekly', interval: 1, durationDays: 1 },
+      [
+        eventSeriesPlanner.summarizePattern(thursday, score(thursday, [1, 1, 10])),
+        eventSeriesPlanner.summarizePattern(friday, score(friday, [4, 4, 4])),
+        eventSeriesPlanner.summarizePattern(saturday, score(saturday, [0, 1, 2]))
+      ],
+      thursday.key,
+      new Date('2025-12-01T00:00:00Z')
+    );
+
+    expect(result.bestPattern?.key).toBe(saturday.key);
+    expect(result.bestPattern?.averageScore).toBe(1);
+    expect(result.alternatives.map(pattern => pattern.key)).toEqual([friday.key, thursday.key]);
+    expect(result.requestedPattern).toEqual(expect.objectContaining({ key: thursday.key, maxScore: 10, highRiskOccurrences: 1 }));
+  });
+});
@@ -0,0 +1,132 @@
+// Tests for the Eventbrite provider against recorded API responses
+import { EventbriteService } from '../eventbrite';
+import { dataTransformer } from '../data-transformer';
+import organizerEventsPage1 from './fixtures/eventbrite/organizer-events-page-1.json';
+import organizerEventsPage2 from './fixtures/eventbrite/organizer-events-page-2.json';
+
+function jsonResponse(body: unknown, status: number = 200) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: status === 200 ? 'OK' : 'Error',
+    json: async () => body,
+    text: async () => JSON.stringify(body)
+  };
+}
+
+describe('EventbriteService', () => {
+  const fetchMock = jest.fn();
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(organizerEventsPage1))
+      .mockResolvedValueOnce(jsonResponse(organizerEventsPage2));
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('follows continuation tokens across pages', async () => {
+    const service = new EventbriteService('token', ['48291736450']);
+
+    const events = await service.getOrganizerEvents('48291736450', '2025-11-01', '2025-11-30');
+
+    expect(events.map(e => e.id)).toEqual(['1034567890123', '1034567890456', '1034567890789']);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    const [firstUrl, firstInit] = fetchMock.mock.calls[0];
+    expect(firstUrl).toContain('/organizers/48291736450/events/');
+    expect(firstUrl).toContain('start_date.range_start=2025-11-01T00%3A00%3A00');
+    expect(firstUrl).not.toContain('continuation=');
+    expect(firstInit.headers.Authorization).toBe('Bearer token');
+    expect(fetchMock.mock.calls[1][0]).toContain('continuation=eyJwYWdlIjogMn0');
+  });
+
+  it('returns in-person events in the city, matching its aliases', async () => {
+    const service = new EventbriteService('token', ['48291736450']);
+
+    const events = await service.getEventsForCity(['Prague', 'praha'], '2025-11-01', '2025-11-30');
+
+    // The online workshop and the Brno workshop are left out
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      id: 'eventbrite_1034567890123',
+      title: 'Prague AI Meetup #42',
+      date: '2025-11-12T17:30:00Z',
+      endDate: '2025-11-12T20:00:00Z',
+      city: 'Prague',
+      venue: 'Impact Hub Praha D10',
+      category: 'Technology',
+      subcategory: 'High Tech',
+      expectedAttendees: 180,
+      source: 'eventbrite',
+      sourceId: '1034567890123',
+      imageUrl: 'https://img.evbuc.com/prague-ai-meetup-42.jpg'
+    });
+    expect(events[0].description).toBe('Talks on running LLMs in production, followed by networking.\n\nOrganised by Prague AI Community');
+  });
+
+  it('throws on API errors', async () => {
+    fetchMock.mockReset();
+    fetchMock.mockResolvedValueOnce(jsonResponse({ error: 'INVALID_AUTH' }, 401));
+    const service = new EventbriteService('bad-token', ['48291736450']);
+
+    await expect(service.getEventsForCity(['Brno'], '2025-11-01', '2025-11-30')).rejects.toThrow('Eventbrite API error: 401');
+  });
+
+  it('needs a token and organisers to be configured', () => {
+    expect(new EventbriteService('', ['48291736450']).isConfigured()).toBe(false);
+    expect(new EventbriteService('token', []).isConfigured()).toBe(false);
+    expect(new EventbriteService('token', ['48291736450']).isConfigured()).toBe(true);
+  });
+});
+
+describe('DataTransformer eventbrite transformer', () => {
+  const [meetup, onlineWorkshop] = organizerEventsPage1.events;
+  const [brnoWorkshop] = organizerEventsPage2.events;
+
+  it('maps ticket capacity to an explicit attendee estimate', () => {
+    const event = dataTransformer.transformEvent('eventbrite', meetup);
+
+    expect(event).toMatchObject({
+      title: 'Prague AI Meetup #42',
+      city: 'Prague',
+      category: 'Technology',
+      expected_attendees: 180,
+      attendee_source: 'explicit',
+      source: 'eventbrite',
+      source_id: '1034567890123',
+      url: 'https://www.eventbrite.com/e/prague-ai-meetup-42-tickets-1034567890123'
+    });
+  });
+
+  it('falls back to the venue capacity, the format and the summary', () => {
+    const workshop = dataTransformer.transformEvent('eventbrite', brnoWorkshop);
+    expect(workshop.expected_attendees).toBe(120);
+    expect(workshop.subcategory).toBe('Class, Training, or Workshop');
+
+    const online = dataTransformer.transformEvent('eventbrite', onlineWorkshop);
+    expect(online.category).toBe('Business');
+    expect(online.description).toBe('A hands-on product discovery workshop\n\nOrganised by Prague AI Community');
+    expect(online.image_url).toBeUndefined();
+  });
+
+  it('accepts events already mapped by EventbriteService', async () => {
+    global.fetch = jest.fn()
+      .mockResolvedValueOnce(jsonResponse(organizerEventsPage1))
+      .mockResolvedValueOnce(jsonResponse(organizerEventsPage2)) as unknown as typeof fetch;
+    const [mapped] = await new EventbriteService('token', ['48291736450']).getEventsForCity(['Brno'], '2025-11-01', '2025-11-30');
+
+    expect(dataTransformer.transformEvent('eventbrite', mapped)).toMatchObject({
+      title: 'Brno Frontend Workshop',
+      city: 'Brno',
+      venue: 'Kumst',
+      source: 'eventbrite',
+      source_id: '1034567890789'
+    });
+  });
+});
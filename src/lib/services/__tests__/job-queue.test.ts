@@ -0,0 +1,119 @@
+// Tests for claiming and running due jobs
+import { jobQueueService } from '../job-queue';
+import { analysisHistoryService } from '@/lib/services/analysis-history';
+import { usageMeteringService } from '@/lib/services/usage-metering';
+import { JobLeaseLostError } from '@/lib/utils/job-queue';
+
+// Progress events are written to job_events and always succeed
+jest.mock('@/lib/supabase', () => ({
+  serverDatabaseService: {
+    getClient: () => ({ from: () => ({ insert: async () => ({ error: null }) }) })
+  }
+}));
+jest.mock('@/lib/services/analysis-history', () => ({
+  analysisHistoryService: {
+    toConflictAnalysisParams: () => ({}),
+    saveAnalysis: jest.fn()
+  }
+}));
+jest.mock('@/lib/services/conflict-analysis', () => ({
+  conflictAnalysisService: { analyzeConflicts: async () => ({ recommendedDates: [] }) }
+}));
+jest.mock('@/lib/services/usage-metering', () => ({
+  usageMeteringService: {
+    meterCalls: async (_owner: unknown, fn: () => Promise<unknown>) => fn(),
+    record: jest.fn()
+  }
+}));
+
+describe('JobQueueService', () => {
+  const service = jobQueueService as any;
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('processDueJobs', () => {
+    it('claims each job only when the previous one has finished', async () => {
+      const calls: string[] = [];
+      const queue = ['job-1', 'job-2'];
+      jest.spyOn(service, 'claimJobs').mockImplementation(async (limit: any) => {
+        calls.push(`claim ${limit}`);
+        const id = queue.shift();
+        return id ? [{ id }] : [];
+      });
+      jest.spyOn(service, 'runJob').mockImplementation(async (job: any) => {
+        calls.push(`run ${job.id}`);
+        return job.id === 'job-1';
+      });
+
+      const summary = await jobQueueService.processDueJobs(5);
+
+      expect(calls).toEqual(['claim 1', 'run job-1', 'claim 1', 'run job-2', 'claim 1']);
+      expect(summary).toEqual({ attempted: 2, succeeded: 1, failed: 1 });
+    });
+
+    it('stops after the limit', async () => {
+      const claimJobs = jest.spyOn(service, 'claimJobs').mockResolvedValue([{ id: 'job' }]);
+      jest.spyOn(service, 'runJob').mockResolvedValue(true);
+
+      const summary = await jobQueueService.processDueJobs(3);
+
+      expect(claimJobs).toHaveBeenCalledTimes(3);
+      expect(summary.attempted).toBe(3);
+    });
+  });
+
+  describe('runAnalysis', () => {
+    const job = {
+      id: 'job-1',
+      payload: { request: {} },
+      organisationId: 'org-1',
+      userId: null,
+      apiKeyId: 'key-1'
+    };
+
+    beforeEach(() => {
+      jest.spyOn(service, 'reportProgress').mockResolvedValue(undefined);
+      (usageMeteringService.record as jest.Mock).mockReset();
+      (analysisHistoryService.saveAnalysis as jest.Mock).mockReset();
+    });
+
+    it('charges the analysis once it is saved', async () => {
+      (analysisHistoryService.saveAnalysis as jest.Mock).mockResolvedValue({ id: 'analysis-1' });
+
+      const result = await service.runAnalysis(job);
+
+      expect(result.analysisId).toBe('analysis-1');
+      expect(usageMeteringService.record).toHaveBeenCalledTimes(1);
+      expect(usageMeteringService.record).toHaveBeenCalledWith({ organisationId: 'org-1', apiKeyId: 'key-1' }, 'analysis');
+    });
+
+    it('does not charge an attempt that fails while saving', async () => {
+      (analysisHistoryService.saveAnalysis as jest.Mock).mockRejectedValue(new Error('database unavailable'));
+
+      await expect(service.runAnalysis(job)).rejects.toThrow('database unavailable');
+      expect(usageMeteringService.record).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('runJob', () => {
+    const job = { id: 'job-1', attempts: 1, maxAttempts: 3 };
+
+    it('leaves a job taken over by a newer attempt alone', async () => {
+      jest.spyOn(service, 'runAnalysis').mockRejectedValue(new JobLeaseLostError('job-1', 1));
+      const updateJob = jest.spyOn(service, 'updateJob').mockResolvedValue(undefined);
+
+      expect(await service.runJob(job)).toBe(false);
+      expect(updateJob).not.toHaveBeenCalled();
+    });
+
+    it('re-queues a failed attempt that still holds the job', async () => {
+      jest.spyOn(service, 'runAnalysis').mockRejectedValue(new Error('provider timeout'));
+      const updateJob = jest.spyOn(service, 'updateJob').mockResolvedValue(undefined);
+
+      expect(await service.runJob(job)).toBe(false);
+      expect(updateJob).toHaveBeenCalledWith(job, expect.objectContaining({ status: 'queued', last_error: 'provider timeout' }));
+    });
+  });
+});
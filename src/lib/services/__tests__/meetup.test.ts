@@ -0,0 +1,160 @@
+// Tests for the Meetup provider against stubbed GraphQL responses
+import { MeetupService } from '../meetup';
+import { dataTransformer } from '../data-transformer';
+import keywordSearchPage1 from './fixtures/meetup/keyword-search-page-1.json';
+import keywordSearchPage2 from './fixtures/meetup/keyword-search-page-2.json';
+
+function jsonResponse(body: unknown, status: number = 200) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: status === 200 ? 'OK' : 'Error',
+    json: async () => body,
+    text: async () => JSON.stringify(body)
+  };
+}
+
+describe('MeetupService', () => {
+  const fetchMock = jest.fn();
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(keywordSearchPage1))
+      .mockResolvedValueOnce(jsonResponse(keywordSearchPage2));
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('searches around the city centre and follows the cursor', async () => {
+    const service = new MeetupService('token');
+
+    const events = await service.getEventsForCity({
+      city: 'Praha',
+      startDate: '2025-11-01',
+      endDate: '2025-11-30',
+      radiusKm: 16
+    });
+
+    expect(events.map(e => e.id)).toEqual(['meetup_309112233', 'meetup_309114455', 'meetup_309117788']);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    const firstRequest = JSON.parse(init.body);
+    expect(url).toBe('https://api.meetup.com/gql');
+    expect(init.headers.Authorization).toBe('Bearer token');
+    expect(firstRequest.variables.filter).toMatchObject({
+      lat: 50.0755,
+      lon: 14.4378,
+      radius: 10,
+      eventType: 'PHYSICAL',
+      startDateRange: '2025-11-01T00:00:00',
+      endDateRange: '2025-11-30T23:59:59'
+    });
+    expect(firstRequest.variables.input).toEqual({ first: 50 });
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body).variables.input).toEqual({ first: 50, after: 'MjA=' });
+  });
+
+  it('maps RSVP counts to expected attendees and leaves events without RSVPs unset', async () => {
+    const service = new MeetupService('token');
+
+    const [jsMeetup, breakfast, gamesNight] = await service.getEventsForCity({
+      city: 'Prague',
+      startDate: '2025-11-01',
+      endDate: '2025-11-30'
+    });
+
+    expect(jsMeetup).toMatchObject({
+      title: 'Prague JS Meetup: November',
+      date: '2025-11-18T17:00:00.000Z',
+      endDate: '2025-11-18T20:00:00.000Z',
+      city: 'Prague',
+      venue: 'Node5',
+      category: 'Technology',
+      expectedAttendees: 142,
+      source: 'meetup',
+      sourceId: '309112233',
+      url: 'https://www.meetup.com/praguejs/events/309112233/'
+    });
+    expect(jsMeetup.description).toBe('Three talks on TypeScript tooling and performance.\n\nHosted by Prague JS');
+    expect(breakfast).toMatchObject({ category: 'Business', expectedAttendees: 23, description: 'Hosted by Prague Founders' });
+    expect(gamesNight.expectedAttendees).toBeUndefined();
+  });
+
+  it('throws on GraphQL errors', async () => {
+    fetchMock.mockReset();
+    fetchMock.mockResolvedValueOnce(jsonResponse({ errors: [{ message: 'Not authorized' }] }));
+    const service = new MeetupService('bad-token');
+
+    await expect(service.getEventsForCity({ city: 'Brno', startDate: '2025-11-01', endDate: '2025-11-30' }))
+      .rejects.toThrow('Meetup API error: Not authorized');
+  });
+
+  it('only searches cities it has a centre for', async () => {
+    const service = new MeetupService('token');
+
+    expect(service.hasCoordinates('Hradec Králové')).toBe(true);
+    expect(service.hasCoordinates('Atlantis')).toBe(false);
+    await expect(service.getEventsForCity({ city: 'Atlantis', startDate: '2025-11-01', endDate: '2025-11-30' }))
+      .rejects.toThrow('No Meetup search centre');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('needs an access token to be configured', () => {
+    expect(new MeetupService('').isConfigured()).toBe(false);
+    expect(new MeetupService('token').isConfigured()).toBe(true);
+  });
+});
+
+describe('DataTransformer meetup transformer', () => {
+  const jsMeetup = keywordSearchPage1.data.keywordSearch.edges[0].node.result;
+  const [breakfast, gamesNight] = keywordSearchPage2.data.keywordSearch.edges.map(edge => edge.node.result);
+
+  it('attributes attendance to RSVPs, with more confidence once the event is full', () => {
+    const open = dataTransformer.transformEvent('meetup', jsMeetup);
+    expect(open).toMatchObject({
+      expected_attendees: 142,
+      attendee_source: 'rsvp_count',
+      attendee_confidence: 0.6,
+      attendee_reasoning: ['142 RSVPs on Meetup']
+    });
+
+    const atLimit = dataTransformer.transformEvent('meetup', { ...jsMeetup, going: 150 });
+    expect(atLimit.attendee_confidence).toBe(0.8);
+    expect(atLimit.attendee_reasoning).toEqual(['150 RSVPs on Meetup', 'RSVP limit of 150 reached']);
+
+    expect(dataTransformer.transformEvent('meetup', breakfast).attendee_source).toBe('rsvp_count');
+  });
+
+  it('does not attribute estimates to RSVPs', () => {
+    const event = dataTransformer.transformEvent('meetup', gamesNight);
+
+    expect(event.attendee_source).toBeUndefined();
+    expect(event.category).toBe('Entertainment');
+    expect(event.end_date).toBe('2025-11-25T22:00:00.000Z');
+  });
+
+  it('keeps the RSVP attribution for events already mapped by MeetupService', async () => {
+    global.fetch = jest.fn()
+      .mockResolvedValueOnce(jsonResponse(keywordSearchPage1))
+      .mockResolvedValueOnce(jsonResponse(keywordSearchPage2)) as unknown as typeof fetch;
+    const [mapped, , unattended] = await new MeetupService('token').getEventsForCity({
+      city: 'Prague',
+      startDate: '2025-11-01',
+      endDate: '2025-11-30'
+    });
+
+    expect(dataTransformer.transformEvent('meetup', mapped)).toMatchObject({
+      title: 'Prague JS Meetup: November',
+      expected_attendees: 142,
+      attendee_source: 'rsvp_count',
+      source: 'meetup',
+      source_id: '309112233'
+    });
+    expect(dataTransformer.transformEvent('meetup', unattended).attendee_source).toBeUndefined();
+  });
+});
@@ -0,0 +1,66 @@
+// Tests for resolving the scoring profile an analysis is weighed with
+import { scoringProfileService } from '../scoring-profiles';
+
+const OWNER_ID = '11111111-1111-4111-8111-111111111111';
+const OTHER_USER_ID = '22222222-2222-4222-8222-222222222222';
+
+const storedRows: Record<string, any> = {
+  'profile-owned': {
+    id: 'profile-owned',
+    user_id: OWNER_ID,
+    name: 'B2B conference',
+    weights: { categoryMatch: 2 },
+    is_default: false
+  },
+  'profile-shared': {
+    id: 'profile-shared',
+    user_id: null,
+    name: 'Festivals',
+    weights: { distance: 0 },
+    is_default: false
+  }
+};
+
+jest.mock('@/lib/supabase', () => ({
+  serverDatabaseService: {
+    getClient: () => ({
+      from: () => {
+        let id: string | null = null;
+        const query: any = {
+          select: () => query,
+          eq: (column: string, value: string) => {
+            if (column === 'id') id = value;
+            return query;
+          },
+          single: async () => id && storedRows[id]
+            ? { data: storedRows[id], error: null }
+            : { data: null, error: { code: 'PGRST116' } }
+        };
+        return query;
+      }
+    })
+  }
+}));
+
+describe('ScoringProfileService', () => {
+  describe('resolveWeights', () => {
+    it('returns the weights of the caller\'s own profile', async () => {
+      const weights = await scoringProfileService.resolveWeights({ profileId: 'profile-owned', userId: OWNER_ID });
+      expect(weights?.categoryMatch).toBe(2);
+    });
+
+    it('treats another user\'s profile as missing', async () => {
+      expect(await scoringProfileService.resolveWeights({ profileId: 'profile-owned', userId: OTHER_USER_ID })).toBeNull();
+      expect(await scoringProfileService.resolveWeights({ profileId: 'profile-owned' })).toBeNull();
+    });
+
+    it('lets the operator and anyone using a profile without an owner through', async () => {
+      expect(await scoringProfileService.resolveWeights({ profileId: 'profile-owned', isOperator: true })).not.toBeNull();
+      expect((await scoringProfileService.resolveWeights({ profileId: 'profile-shared' }))?.distance).toBe(0);
+    });
+
+    it('returns null for a profile that does not exist', async () => {
+      expect(await scoringProfileService.resolveWeights({ profileId: 'profile-missing', userId: OWNER_ID })).toBeNull();
+    });
+  });
+});
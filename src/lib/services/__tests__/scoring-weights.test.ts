@@ -0,0 +1,41 @@
+// Tests for applying scoring profile weights
+import { DEFAULT_SCORING_WEIGHTS, scoringWeightCalculator } from '../scoring-weights';
+import { conflictScoreBreakdownBuilder } from '../conflict-score-breakdown';
+
+describe('ScoringWeightCalculator', () => {
+  it('fills missing and invalid weights with the defaults', () => {
+    const weights = scoringWeightCalculator.resolve({ attendance: 2, seasonality: -1, distance: Number.NaN });
+
+    expect(weights).toEqual({ ...DEFAULT_SCORING_WEIGHTS, attendance: 2 });
+    expect(scoringWeightCalculator.resolve(null)).toEqual(DEFAULT_SCORING_WEIGHTS);
+  });
+
+  it('only keys the cache for non-default weights', () => {
+    expect(scoringWeightCalculator.cacheKey(undefined)).toBe('');
+    expect(scoringWeightCalculator.cacheKey({ categoryMatch: 1 })).toBe('');
+    expect(scoringWeightCalculator.cacheKey({ categoryMatch: 0.5 })).toBe('0.5:1:1:1:1:1');
+  });
+
+  it('scales how far a multiplier moves the score', () => {
+    expect(scoringWeightCalculator.scaleMultiplier(1.4, 1)).toBeCloseTo(1.4);
+    expect(scoringWeightCalculator.scaleMultiplier(1.4, 0)).toBe(1);
+    expect(scoringWeightCalculator.scaleMultiplier(1.4, 2)).toBeCloseTo(1.8);
+    expect(scoringWeightCalculator.scaleMultiplier(0.6, 3)).toBe(0);
+  });
+
+  it('weights the holiday penalty in the score breakdown', () => {
+    const breakdown = conflictScoreBreakdownBuilder.build({
+      contributions: [],
+      unscoredEvents: 1,
+      audienceScalingFactor: 1,
+      expectedAttendees: 100,
+      holidayRestrictions: { business_impact: 'full', venue_closure_expected: false, holidays: [{}], cultural_events: [] },
+      weights: { ...DEFAULT_SCORING_WEIGHTS, holidayPenalty: 0.5 }
+    });
+
+    // (15 + 3) * 0.5 on top of the flat 2 points
+    expect(breakdown.holidayPenalty.total).toBe(9);
+    expect(breakdown.finalScore).toBe(11);
+    expect(breakdown.weights.holidayPenalty).toBe(0.5);
+  });
+});
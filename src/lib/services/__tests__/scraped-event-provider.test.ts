@@ -0,0 +1,89 @@
+// Tests for the scraped event provider's database query
+import { scrapedEventProvider } from '../event-providers';
+
+const storedRows = [
+  {
+    id: 'event-import-1',
+    title: 'Jazz Night',
+    date: '2026-03-12T19:00:00Z',
+    city: 'Brno',
+    category: 'Entertainment',
+    source: 'import',
+    source_id: 'import_venue-programme_jazz-night'
+  },
+  {
+    id: 'event-goout-1',
+    title: 'Indie Evening',
+    date: '2026-03-13T20:00:00Z',
+    city: 'Brno',
+    category: 'Entertainment',
+    source: 'goout',
+    source_id: 'goout_indie-evening'
+  },
+  {
+    id: 'event-ticketmaster-1',
+    title: 'Arena Show',
+    date: '2026-03-14T20:00:00Z',
+    city: 'Brno',
+    category: 'Entertainment',
+    source: 'ticketmaster',
+    source_id: 'tm_1'
+  }
+];
+
+// Query builder that applies the source filter and ignores the others
+function createQuery() {
+  let sources: string[] | null = null;
+  const query: any = {
+    select: () => query,
+    order: () => query,
+    gte: () => query,
+    lte: () => query,
+    or: () => query,
+    range: () => query,
+    in: (column: string, values: string[]) => {
+      if (column === 'source') sources = values;
+      return query;
+    },
+    then: (resolve: (value: unknown) => unknown, reject?: (reason: unknown) => unknown) => {
+      const data = storedRows.filter(row => !sources || sources.includes(row.source));
+      return Promise.resolve({ data, error: null, count: data.length }).then(resolve, reject);
+    }
+  };
+  return query;
+}
+
+jest.mock('@/lib/supabase', () => ({
+  serverDatabaseService: {
+    getClient: () => ({ from: () => createQuery() }),
+    executeWithRetry: (operation: () => Promise<unknown>) => operation()
+  }
+}));
+
+jest.mock('../city-normalization', () => ({
+  cityNormalizationService: {
+    normalizeCityForAPI: async (city: string) => ({ normalized: city, aliases: [] })
+  }
+}));
+
+// Needs an OpenAI key when loaded; unused by this provider
+jest.mock('../city-recognition', () => ({ cityRecognitionService: {} }));
+
+jest.mock('../ai-normalization', () => ({
+  aiNormalizationService: {
+    normalizeEvents: async (events: any[]) => events.map(event => ({ ...event, rawData: {} }))
+  }
+}));
+
+describe('ScrapedEventProvider', () => {
+  it('returns events stored by ICS/CSV imports alongside scraped ones', async () => {
+    const { events } = await scrapedEventProvider.queryEvents({
+      city: 'Brno',
+      startDate: '2026-03-01',
+      endDate: '2026-03-31'
+    });
+
+    expect(events.map(event => event.id)).toEqual(['event-import-1', 'event-goout-1']);
+    expect(events[0]).toMatchObject({ title: 'Jazz Night', source: 'import' });
+  });
+});
@@ -0,0 +1,123 @@
+// Tests for the GoOut and Ticketportal site parsers
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { getSiteParser, parseLocalDate, SiteParseError } from '../site-parsers';
+
+function fixture(name: string): string {
+  return readFileSync(join(__dirname, 'fixtures', name), 'utf8');
+}
+
+describe('parseLocalDate', () => {
+  it('reads ISO and Czech dates as the local calendar date', () => {
+    expect(parseLocalDate('2025-11-14T20:00:00+01:00')).toBe('2025-11-14');
+    expect(parseLocalDate('2025-11-14T00:30:00+01:00')).toBe('2025-11-14');
+    expect(parseLocalDate('14.11.2025 20:00')).toBe('2025-11-14');
+    expect(parseLocalDate('5. 12. 2025')).toBe('2025-12-05');
+  });
+
+  it('rejects dates that do not exist', () => {
+    expect(parseLocalDate('31.2.2025')).toBeNull();
+    expect(parseLocalDate('2025-13-01')).toBeNull();
+    expect(parseLocalDate('zítra')).toBeNull();
+    expect(parseLocalDate(undefined)).toBeNull();
+  });
+});
+
+describe('GoOutParser', () => {
+  const parser = getSiteParser('goout')!;
+
+  it('parses a detail page from its JSON-LD', () => {
+    const { events, skipped } = parser.parse(
+      fixture('goout/event-detail.html'),
+      'https://goout.net/cs/please-the-trees/szxbmsd/',
+      'GoOut Praha'
+    );
+
+    expect(skipped).toBe(0);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      title: 'Please The Trees & hosté',
+      description: 'Křest nového alba. Support: Manon Meurt',
+      date: '2025-11-14',
+      end_date: undefined,
+      city: 'Praha',
+      venue: 'Lucerna Music Bar',
+      category: 'Entertainment',
+      expected_attendees: 800,
+      source: 'scraper',
+      url: 'https://goout.net/cs/please-the-trees/szxbmsd/',
+      image_url: 'https://goout.net/i/123/please-the-trees.jpg'
+    });
+    expect(events[0].source_id).toMatch(/^GoOut_Praha_[0-9a-f]{16}$/);
+  });
+
+  it('parses listing cards, taking the city from the listing URL', () => {
+    const { events, skipped } = parser.parse(
+      fixture('goout/listing.html'),
+      'https://goout.net/cs/brno/akce/',
+      'GoOut Brno'
+    );
+
+    // The card without a date is dropped rather than guessed
+    expect(skipped).toBe(1);
+    expect(events.map(e => [e.title, e.date, e.venue, e.city])).toEqual([
+      ['Jazz na dvoře', '2025-11-20', 'Stará pekárna', 'Brno'],
+      ['Brno Design Days', '2025-11-22', 'Moravská galerie', 'Brno']
+    ]);
+    expect(events[0].url).toBe('https://goout.net/cs/jazz-na-dvore/szabcde/event/');
+    expect(events[0].image_url).toBe('https://goout.net/i/200/jazz.jpg');
+  });
+
+  it('gives the same events the same source IDs on every run', () => {
+    const html = fixture('goout/listing.html');
+    const first = parser.parse(html, 'https://goout.net/cs/brno/akce/', 'GoOut Brno');
+    const second = parser.parse(html, 'https://goout.net/cs/brno/akce/', 'GoOut Brno');
+
+    expect(second.events.map(e => e.source_id)).toEqual(first.events.map(e => e.source_id));
+  });
+});
+
+describe('TicketportalParser', () => {
+  const parser = getSiteParser('ticketportal')!;
+
+  it('parses listing cards, splitting the venue line into venue and city', () => {
+    const { events, skipped } = parser.parse(
+      fixture('ticketportal/listing.html'),
+      'https://www.ticketportal.cz/koncerty',
+      'Ticketportal'
+    );
+
+    // 31.2.2025 is not a date
+    expect(skipped).toBe(1);
+    expect(events).toHaveLength(2);
+    expect(events[0]).toMatchObject({
+      title: 'Tomáš Klus – Tour 2025',
+      date: '2025-11-14',
+      venue: 'Forum Karlín',
+      city: 'Praha',
+      url: 'https://www.ticketportal.cz/event/Tomas-Klus-Tour-2025',
+      image_url: 'https://www.ticketportal.cz/images/klus.jpg'
+    });
+    expect(events[1]).toMatchObject({
+      title: 'Brněnské Vánoce',
+      date: '2025-12-05',
+      end_date: '2025-12-07',
+      venue: 'Výstaviště Brno, Pavilon G2',
+      city: 'Brno'
+    });
+  });
+
+  it('fails on pages without event markup, so the scraper falls back to the LLM', () => {
+    expect(() => parser.parse(fixture('ticketportal/no-events.html'), 'https://www.ticketportal.cz/hledat?q=x', 'Ticketportal'))
+      .toThrow(SiteParseError);
+  });
+});
+
+describe('getSiteParser', () => {
+  it('only has parsers for the dedicated sites', () => {
+    expect(getSiteParser('goout')?.preset).toBe('goout');
+    expect(getSiteParser('ticketportal')?.preset).toBe('ticketportal');
+    expect(getSiteParser('kudyznudy')).toBeNull();
+    expect(getSiteParser('generic')).toBeNull();
+  });
+});
@@ -0,0 +1,85 @@
+// Tests for quota checks that count queued and running analysis jobs
+import { usageMeteringService } from '../usage-metering';
+
+const tables: Record<string, any[]> = {
+  usage_events: [
+    { meter: 'analysis', quantity: 4 },
+    { meter: 'perplexity_research', quantity: 4 }
+  ],
+  jobs: [
+    { payload: { request: { enablePerplexityResearch: true } } },
+    { payload: { request: { enablePerplexityResearch: false } } },
+    { payload: { request: {} } }
+  ]
+};
+
+// Each table returns its rows whatever the filters
+jest.mock('@/lib/supabase', () => ({
+  serverDatabaseService: {
+    getClient: () => ({
+      from: (table: string) => {
+        const query: any = {
+          select: () => query,
+          eq: () => query,
+          gte: () => query,
+          in: () => query,
+          then: (resolve: (value: unknown) => unknown) => resolve({ data: tables[table], error: null })
+        };
+        return query;
+      }
+    })
+  }
+}));
+
+jest.mock('@/lib/services/organisations', () => ({
+  organisationService: {
+    getOrganisation: async () => ({ id: 'org-1', plan: 'pro' })
+  }
+}));
+
+describe('UsageMeteringService', () => {
+  describe('checkQuota', () => {
+    it('counts queued and running analysis jobs as used', async () => {
+      const check = await usageMeteringService.checkQuota('org-1', 'analysis');
+      expect(check.used).toBe(7);
+      expect(check.allowed).toBe(true);
+    });
+
+    it('refuses a request that only fits without the pending jobs', async () => {
+      const check = await usageMeteringService.checkQuota('org-1', 'analysis', 3);
+      expect(check.allowed).toBe(false);
+    });
+
+    it('counts pending jobs with Perplexity research against that quota', async () => {
+      const check = await usageMeteringService.checkQuota('org-1', 'perplexity_research');
+      expect(check.used).toBe(5);
+    });
+  });
+
+  describe('withReservation', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('keeps the reservation of work that succeeded', async () => {
+      jest.spyOn(usageMeteringService, 'reserve').mockResolvedValue('reservation-1');
+      const release = jest.spyOn(usageMeteringService, 'release').mockResolvedValue();
+
+      const result = await usageMeteringService.withReservation(null, 'analysis', 2, async () => 'done');
+      expect(result).toBe('done');
+      expect(release).not.toHaveBeenCalled();
+    });
+
+    it('releases the reservation when the work fails or finds nothing', async () => {
+      jest.spyOn(usageMeteringService, 'reserve').mockResolvedValue('reservation-1');
+      const release = jest.spyOn(usageMeteringService, 'release').mockResolvedValue();
+
+      await expect(usageMeteringService.withReservation(null, 'analysis', 1, async () => {
+        throw new Error('analysis failed');
+      })).rejects.toThrow('analysis failed');
+      expect(await usageMeteringService.withReservation(null, 'analysis', 1, async () => null)).toBeNull();
+      expect(release).toHaveBeenCalledTimes(2);
+      expect(release).toHaveBeenCalledWith('reservation-1');
+    });
+  });
+});
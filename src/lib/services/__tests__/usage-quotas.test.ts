@@ -0,0 +1,69 @@
+// Tests for plan quotas and billing periods
+import { PLAN_ANNUAL_ANALYSES, PLAN_QUOTAS, usageQuotaCalculator } from '../usage-quotas';
+import { countUsage, setUsageScopeResolver, UsageScope } from '@/lib/utils/usage-scope';
+
+describe('UsageQuotaCalculator', () => {
+  const now = new Date('2026-02-14T10:30:00Z');
+
+  it('uses the calendar month in UTC as billing period', () => {
+    const { start, end } = usageQuotaCalculator.getBillingPeriod(now);
+
+    expect(start.toISOString()).toBe('2026-02-01T00:00:00.000Z');
+    expect(end.toISOString()).toBe('2026-03-01T00:00:00.000Z');
+    expect(usageQuotaCalculator.getBillingPeriod(new Date('2026-12-31T23:59:59Z')).end.toISOString())
+      .toBe('2027-01-01T00:00:00.000Z');
+  });
+
+  it('allows usage up to the plan limit', () => {
+    const limit = PLAN_QUOTAS.starter.analysis as number;
+
+    expect(usageQuotaCalculator.checkQuota('starter', 'analysis', limit - 1, 1, now).allowed).toBe(true);
+
+    const check = usageQuotaCalculator.checkQuota('starter', 'analysis', limit - 1, 2, now);
+    expect(check.allowed).toBe(false);
+    expect(check.limit).toBe(limit);
+    expect(check.resetsAt).toBe('2026-03-01T00:00:00.000Z');
+  });
+
+  it('never blocks unlimited meters', () => {
+    expect(usageQuotaCalculator.checkQuota('agency', 'analysis', 10_000, 5, now).allowed).toBe(true);
+    expect(usageQuotaCalculator.checkQuota('starter', 'openai_overlap_call', 10_000, 1, now).allowed).toBe(true);
+  });
+
+  it('spreads the advertised yearly analyses over the monthly meter', () => {
+    expect(PLAN_QUOTAS.starter.analysis).toBe(2);
+    expect(PLAN_QUOTAS.pro.analysis).toBe(8);
+  });
+
+  it('never allows more analyses a year than the pricing page advertises', () => {
+    for (const plan of Object.keys(PLAN_ANNUAL_ANALYSES) as Array<keyof typeof PLAN_ANNUAL_ANALYSES>) {
+      expect(12 * (PLAN_QUOTAS[plan].analysis as number)).toBeLessThanOrEqual(PLAN_ANNUAL_ANALYSES[plan]);
+    }
+  });
+
+  it('summarizes every meter against the plan', () => {
+    const summary = usageQuotaCalculator.summarize('org-1', 'pro', { analysis: 12, perplexity_research: 5 }, now);
+
+    expect(summary.periodStart).toBe('2026-02-01T00:00:00.000Z');
+    expect(summary.meters).toEqual([
+      { meter: 'analysis', used: 12, limit: 8, remaining: 0, percentUsed: 100 },
+      { meter: 'perplexity_research', used: 5, limit: 50, remaining: 45, percentUsed: 10 },
+      { meter: 'openai_overlap_call', used: 0, limit: null, remaining: null, percentUsed: null }
+    ]);
+  });
+});
+
+describe('countUsage', () => {
+  afterEach(() => setUsageScopeResolver(() => undefined));
+
+  it('counts into the active scope and ignores calls outside one', () => {
+    countUsage('openai_overlap_call');
+
+    const scope: UsageScope = { counts: {} };
+    setUsageScopeResolver(() => scope);
+    countUsage('openai_overlap_call');
+    countUsage('openai_overlap_call', 2);
+
+    expect(scope.counts).toEqual({ openai_overlap_call: 3 });
+  });
+});
@@ -0,0 +1,109 @@
+// Tests for watchlist alert rules
+import { watchlistAlertEvaluator } from '../watchlist-alerts';
+import type { Watchlist, WatchlistAlertEvent, WatchlistScore } from '@/types/watchlists';
+
+describe('WatchlistAlertEvaluator', () => {
+  const makeWatchlist = (overrides: Partial<Watchlist> = {}): Watchlist => ({
+    id: 'watchlist-1',
+    userId: null,
+    organisationId: null,
+    analysisId: null,
+    name: 'Spring conference',
+    city: 'Prague',
+    category: 'Technology',
+    subcategory: null,
+    dateRangeStart: '2025-04-10',
+    dateRangeEnd: '2025-04-11',
+    expectedAttendees: 500,
+    riskThreshold: 'High',
+    highAttendanceThreshold: 1000,
+    webhookUrl: null,
+    enabled: true,
+    lastConflictScore: 2,
+    lastRiskLevel: 'Low',
+    lastCompetingEventKeys: ['tech meetup|2025-04-10'],
+    lastCheckedAt: '2025-03-01T00:00:00Z',
+    createdAt: '2025-03-01T00:00:00Z',
+    updatedAt: '2025-03-01T00:00:00Z',
+    ...overrides
+  });
+
+  const makeEvent = (title: string, date: string, expectedAttendees?: number): WatchlistAlertEvent => ({
+    key: watchlistAlertEvaluator.getEventKey({ title, date }),
+    title,
+    date,
+    expectedAttendees,
+    source: 'scraper'
+  });
+
+  const makeScore = (conflictScore: number, riskLevel: WatchlistScore['riskLevel'], events: WatchlistAlertEvent[]): WatchlistScore => ({
+    conflictScore,
+    riskLevel,
+    competingEvents: events
+  });
+
+  it('does not alert on the first check', () => {
+    const watchlist = makeWatchlist({ lastCheckedAt: null, lastRiskLevel: null, lastCompetingEventKeys: [] });
+    const score = makeScore(12, 'High', [makeEvent('Big Festival', '2025-04-10', 20000)]);
+
+    expect(watchlistAlertEvaluator.evaluate(watchlist, score)).toEqual([]);
+  });
+
+  it('does not alert when nothing relevant changed', () => {
+    const score = makeScore(2, 'Low', [makeEvent('Tech Meetup', '2025-04-10', 80)]);
+
+    expect(watchlistAlertEvaluator.evaluate(makeWatchlist(), score)).toEqual([]);
+  });
+
+  it('alerts when the risk rises above the threshold and a large event appears', () => {
+    const festival = makeEvent('Big Festival', '2025-04-10T18:00:00Z', 20000);
+    const score = makeScore(12, 'High', [makeEvent('Tech Meetup', '2025-04-10', 80), festival]);
+
+    const alerts = watchlistAlertEvaluator.evaluate(makeWatchlist(), score);
+
+    expect(alerts.map(a => a.alertType)).toEqual(['risk_threshold_crossed', 'high_attendance_event']);
+    expect(alerts[0]).toEqual(expect.objectContaining({
+      previousRiskLevel: 'Low',
+      riskLevel: 'High',
+      previousConflictScore: 2,
+      conflictScore: 12
+    }));
+    expect(alerts[0].events.map(e => e.title)).toEqual(['Big Festival']);
+    expect(alerts[1].events).toEqual([festival]);
+  });
+
+  it('alerts when the risk drops back below the threshold', () => {
+    const watchlist = makeWatchlist({ lastRiskLevel: 'High', lastConflictScore: 11 });
+    const alerts = watchlistAlertEvaluator.evaluate(watchlist, makeScore(5, 'Medium', []));
+
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0].alertType).toBe('risk_threshold_crossed');
+    expect(alerts[0].message).toContain('dropped from High to Medium');
+  });
+
+  it('respects a Medium risk threshold', () => {
+    const watchlist = makeWatchlist({ riskThreshold: 'Medium' });
+    const alerts = watchlistAlertEvaluator.evaluate(watchlist, makeScore(4, 'Medium', []));
+
+    expect(alerts.map(a => a.alertType)).toEqual(['risk_threshold_crossed']);
+  });
+
+  it('ignores new events below the attendance threshold and events already seen', () => {
+    const score = makeScore(2, 'Low', [
+      makeEvent('tech  meetup', '2025-04-10T19:00:00Z', 5000),
+      makeEvent('Small Workshop', '2025-04-11', 40)
+    ]);
+
+    expect(watchlistAlertEvaluator.evaluate(makeWatchlist(), score)).toEqual([]);
+  });
+
+  it('deduplicates competing events by title and day', () => {
+    const events = watchlistAlertEvaluator.toAlertEvents([
+      { id: '1', title: 'Jazz Night', date: '2025-04-10', city: 'Prague', category: 'Music', source: 'ticketmaster', createdAt: '', updatedAt: '' },
+      { id: '2', title: 'jazz night', date: '2025-04-10T20:00:00Z', city: 'Prague', category: 'Music', source: 'brno', createdAt: '', updatedAt: '' }
+    ]);
+
+    expect(events).toHaveLength(1);
+    expect(events[0].key).toBe('jazz night|2025-04-10');
+  });
+});
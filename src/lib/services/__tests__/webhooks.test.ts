@@ -0,0 +1,85 @@
+// Tests for choosing the webhook endpoints an event is sent to and retrying deliveries
+import { webhookService } from '../webhooks';
+import type { WebhookEndpoint } from '@/types/webhooks';
+
+jest.mock('@/lib/supabase', () => ({ serverDatabaseService: {} }));
+
+function makeEndpoint(id: string, organisationId: string | null): WebhookEndpoint {
+  return {
+    id,
+    userId: null,
+    organisationId,
+    url: `https://hooks.example.com/${id}`,
+    secret: 'whsec_test_secret_value',
+    description: null,
+    eventTypes: ['analysis.completed', 'sync.completed'],
+    enabled: true,
+    cities: [],
+    minExpectedAttendees: 1000,
+    createdAt: '2026-01-01T00:00:00Z',
+    updatedAt: '2026-01-01T00:00:00Z'
+  };
+}
+
+describe('WebhookService', () => {
+  const service = webhookService as any;
+  let deliveredTo: string[];
+
+  beforeEach(() => {
+    deliveredTo = [];
+    jest.spyOn(service, 'getActiveEndpoints').mockResolvedValue([
+      makeEndpoint('operator', null),
+      makeEndpoint('org-a', 'org-a-id'),
+      makeEndpoint('org-b', 'org-b-id')
+    ]);
+    jest.spyOn(service, 'createAndDeliver').mockImplementation(async (endpoint: any) => {
+      deliveredTo.push(endpoint.id);
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('dispatch', () => {
+    it('sends an organisation\'s analyses only to its endpoints and the operator\'s', async () => {
+      await webhookService.dispatch('analysis.completed', { analysisId: 'a1' }, { organisationId: 'org-a-id' });
+      expect(deliveredTo).toEqual(['operator', 'org-a']);
+    });
+
+    it('sends anonymous analyses only to operator endpoints', async () => {
+      await webhookService.dispatch('analysis.completed', { analysisId: 'a2' }, { organisationId: null });
+      expect(deliveredTo).toEqual(['operator']);
+    });
+
+    it('sends events about shared data to every subscribed endpoint', async () => {
+      await webhookService.dispatch('sync.completed', { source: 'goout' });
+      expect(deliveredTo).toEqual(['operator', 'org-a', 'org-b']);
+    });
+  });
+
+  describe('retryDueDeliveries', () => {
+    it('sends only the deliveries it claimed, one claim at a time', async () => {
+      const calls: string[] = [];
+      const queue = [
+        { id: 'd1', endpoint_id: 'org-a', payload: {}, attempts: 1 },
+        { id: 'd2', endpoint_id: 'org-b', payload: {}, attempts: 2 }
+      ];
+      jest.spyOn(service, 'claimDueDeliveries').mockImplementation(async (limit: any) => {
+        calls.push(`claim ${limit}`);
+        const row = queue.shift();
+        return row ? [row] : [];
+      });
+      jest.spyOn(service, 'getEndpoint').mockImplementation(async (id: any) => makeEndpoint(id, `${id}-id`));
+      jest.spyOn(service, 'deliver').mockImplementation(async (_endpoint: any, delivery: any) => {
+        calls.push(`send ${delivery.id}`);
+        return delivery.id === 'd1';
+      });
+
+      const summary = await webhookService.retryDueDeliveries();
+
+      expect(calls).toEqual(['claim 1', 'send d1', 'claim 1', 'send d2', 'claim 1']);
+      expect(summary).toEqual({ attempted: 2, succeeded: 1, failed: 1 });
+    });
+  });
+});
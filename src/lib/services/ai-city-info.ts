@@ -38,6 +38,7 @@ Return a JSON object with this exact structure:
   "name_en": "English city name (e.g., 'Prague', 'Brno')",
   "name_cs": "Czech city name if applicable (e.g., 'Praha', 'Brno'), or null",
   "country_code": "CZ",
+  "region_code": "CZ-JM",
   "population": 24538,
   "latitude": 48.7590,
   "longitude": 16.8820
@@ -47,12 +48,13 @@ Requirements:
 - Use accurate, current population data (as of 2024-2025)
 - Provide precise coordinates (latitude, longitude) in decimal degrees
 - For Czech cities, include both English and Czech names
+- country_code is ISO 3166-1 alpha-2; region_code is the ISO 3166-2 code of the city's first-level region (kraj, Land, voivodeship), or null
 - If city is not found or unclear, return null
 - Return only valid JSON, no additional text
 
 Examples:
-- "Břeclav" -> {"name_en": "Breclav", "name_cs": "Břeclav", "country_code": "CZ", "population": 24538, "latitude": 48.7590, "longitude": 16.8820}
-- "Velké Meziříčí" -> {"name_en": "Velke Mezirici", "name_cs": "Velké Meziříčí", "country_code": "CZ", "population": 11800, "latitude": 49.3550, "longitude": 16.0125}
+- "Břeclav" -> {"name_en": "Breclav", "name_cs": "Břeclav", "country_code": "CZ", "region_code": "CZ-JM", "population": 24538, "latitude": 48.7590, "longitude": 16.8820}
+- "Velké Meziříčí" -> {"name_en": "Velke Mezirici", "name_cs": "Velké Meziříčí", "country_code": "CZ", "region_code": "CZ-VY", "population": 11800, "latitude": 49.3550, "longitude": 16.0125}
 
 Return only the JSON object.`;
 
@@ -117,6 +119,7 @@ Return only the JSON object.`;
           name_en: result.name_en,
           name_cs: result.name_cs || null,
           country_code: result.country_code || 'CZ',
+          region_code: result.region_code || undefined,
           population: result.population || null,
           latitude: result.latitude || null,
           longitude: result.longitude || null,
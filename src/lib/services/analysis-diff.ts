@@ -0,0 +1,225 @@
+// src/lib/services/analysis-diff.ts
+import type { Event } from '@/types';
+import type { DateRecommendation } from './conflict-analysis';
+import {
+  AnalysisDiff,
+  DateRecommendationDiff,
+  DateSnapshot,
+  DiffEventSummary,
+  RiskLevel,
+  SavedAnalysis
+} from '@/types/analysis-history';
+
+const RISK_ORDER: Record<RiskLevel, number> = { Low: 0, Medium: 1, High: 2 };
+
+// Score changes smaller than this are treated as noise from rounding
+const SCORE_EPSILON = 0.05;
+
+/**
+ * Compares two runs of the same conflict analysis and explains what changed:
+ * competing events that appeared or disappeared, score and risk movement per date,
+ * and recommended dates that dropped out of the top list.
+ */
+export class AnalysisDiffService {
+  /**
+   * Check that two analyses can be meaningfully compared
+   */
+  validateComparable(base: SavedAnalysis, compare: SavedAnalysis): string[] {
+    const errors: string[] = [];
+
+    if (base.request.city.toLowerCase() !== compare.request.city.toLowerCase()) {
+      errors.push(`City differs (${base.request.city} vs ${compare.request.city})`);
+    }
+    if (base.request.category !== compare.request.category) {
+      errors.push(`Category differs (${base.request.category} vs ${compare.request.category})`);
+    }
+    if (base.request.dateRangeStart !== compare.request.dateRangeStart ||
+        base.request.dateRangeEnd !== compare.request.dateRangeEnd) {
+      errors.push('Analysis date window differs');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Diff two saved analyses. `base` is the older run, `compare` the newer one.
+   */
+  diffAnalyses(base: SavedAnalysis, compare: SavedAnalysis): AnalysisDiff {
+    const beforeDates = this.indexDates(base.result.recommendedDates, base.result.highRiskDates);
+    const afterDates = this.indexDates(compare.result.recommendedDates, compare.result.highRiskDates);
+
+    const dateKeys = Array.from(new Set([...beforeDates.keys(), ...afterDates.keys()])).sort();
+    const dates: DateRecommendationDiff[] = dateKeys.map(key =>
+      this.diffDate(beforeDates.get(key), afterDates.get(key))
+    );
+
+    // Competing events across the whole analysis, not just per date
+    const beforeEvents = this.collectCompetingEvents([...base.result.recommendedDates, ...base.result.highRiskDates]);
+    const afterEvents = this.collectCompetingEvents([...compare.result.recommendedDates, ...compare.result.highRiskDates]);
+    const competingEventsAppeared = Array.from(afterEvents.values()).filter(e => !beforeEvents.has(e.key));
+    const competingEventsDisappeared = Array.from(beforeEvents.values()).filter(e => !afterEvents.has(e.key));
+
+    // Recommended top list changes
+    const afterRecommendedKeys = compare.result.recommendedDates.map(r => this.dateKey(r));
+    const beforeRecommendedKeys = base.result.recommendedDates.map(r => this.dateKey(r));
+    const afterHighRiskKeys = new Set(compare.result.highRiskDates.map(r => this.dateKey(r)));
+
+    const droppedFromRecommended = base.result.recommendedDates
+      .map((rec, index) => ({ rec, index }))
+      .filter(({ rec }) => !afterRecommendedKeys.includes(this.dateKey(rec)))
+      .map(({ rec, index }) => {
+        const after = afterDates.get(this.dateKey(rec));
+        return {
+          startDate: rec.startDate,
+          endDate: rec.endDate,
+          previousRank: index + 1,
+          nowHighRisk: afterHighRiskKeys.has(this.dateKey(rec)),
+          after: after ? this.snapshot(after.rec, after.recommended) : undefined
+        };
+      });
+
+    const newlyRecommended = compare.result.recommendedDates
+      .map((rec, index) => ({ rec, index }))
+      .filter(({ rec }) => !beforeRecommendedKeys.includes(this.dateKey(rec)))
+      .map(({ rec, index }) => ({
+        startDate: rec.startDate,
+        endDate: rec.endDate,
+        rank: index + 1,
+        after: this.snapshot(rec, true)
+      }));
+
+    return {
+      baseAnalysisId: base.id,
+      compareAnalysisId: compare.id,
+      baseAnalysisDate: base.result.analysisDate,
+      compareAnalysisDate: compare.result.analysisDate,
+      summary: {
+        averageScoreBefore: base.summary.averageConflictScore,
+        averageScoreAfter: compare.summary.averageConflictScore,
+        datesChanged: dates.filter(d => d.status !== 'unchanged').length,
+        riskIncreased: dates.filter(d => d.riskChange === 'increased').length,
+        riskDecreased: dates.filter(d => d.riskChange === 'decreased').length,
+        eventsAppeared: competingEventsAppeared.length,
+        eventsDisappeared: competingEventsDisappeared.length
+      },
+      competingEventsAppeared,
+      competingEventsDisappeared,
+      droppedFromRecommended,
+      newlyRecommended,
+      dates
+    };
+  }
+
+  /**
+   * Compare a single date range between runs
+   */
+  private diffDate(
+    before: { rec: DateRecommendation; recommended: boolean } | undefined,
+    after: { rec: DateRecommendation; recommended: boolean } | undefined
+  ): DateRecommendationDiff {
+    const rec = (after || before)!.rec;
+    const beforeSnapshot = before ? this.snapshot(before.rec, before.recommended) : undefined;
+    const afterSnapshot = after ? this.snapshot(after.rec, after.recommended) : undefined;
+
+    const beforeEvents = this.collectCompetingEvents(before ? [before.rec] : []);
+    const afterEvents = this.collectCompetingEvents(after ? [after.rec] : []);
+    const eventsAppeared = Array.from(afterEvents.values()).filter(e => !beforeEvents.has(e.key));
+    const eventsDisappeared = Array.from(beforeEvents.values()).filter(e => !afterEvents.has(e.key));
+
+    const scoreDelta = (afterSnapshot?.conflictScore ?? 0) - (beforeSnapshot?.conflictScore ?? 0);
+
+    let riskChange: DateRecommendationDiff['riskChange'] = 'unchanged';
+    if (beforeSnapshot && afterSnapshot) {
+      const delta = RISK_ORDER[afterSnapshot.riskLevel] - RISK_ORDER[beforeSnapshot.riskLevel];
+      riskChange = delta > 0 ? 'increased' : delta < 0 ? 'decreased' : 'unchanged';
+    }
+
+    let status: DateRecommendationDiff['status'];
+    if (!beforeSnapshot) {
+      status = 'added';
+    } else if (!afterSnapshot) {
+      status = 'removed';
+    } else if (
+      Math.abs(scoreDelta) > SCORE_EPSILON ||
+      riskChange !== 'unchanged' ||
+      beforeSnapshot.recommended !== afterSnapshot.recommended ||
+      eventsAppeared.length > 0 ||
+      eventsDisappeared.length > 0
+    ) {
+      status = 'changed';
+    } else {
+      status = 'unchanged';
+    }
+
+    return {
+      startDate: rec.startDate,
+      endDate: rec.endDate,
+      status,
+      before: beforeSnapshot,
+      after: afterSnapshot,
+      scoreDelta: Math.round(scoreDelta * 100) / 100,
+      riskChange,
+      eventsAppeared,
+      eventsDisappeared
+    };
+  }
+
+  private indexDates(
+    recommended: DateRecommendation[],
+    highRisk: DateRecommendation[]
+  ): Map<string, { rec: DateRecommendation; recommended: boolean }> {
+    const index = new Map<string, { rec: DateRecommendation; recommended: boolean }>();
+    highRisk.forEach(rec => index.set(this.dateKey(rec), { rec, recommended: false }));
+    // Recommended dates take precedence if a range appears in both lists
+    recommended.forEach(rec => index.set(this.dateKey(rec), { rec, recommended: true }));
+    return index;
+  }
+
+  private snapshot(rec: DateRecommendation, recommended: boolean): DateSnapshot {
+    return {
+      conflictScore: rec.conflictScore,
+      riskLevel: rec.riskLevel,
+      recommended,
+      competingEventCount: rec.competingEvents.length
+    };
+  }
+
+  private collectCompetingEvents(recs: DateRecommendation[]): Map<string, DiffEventSummary> {
+    const events = new Map<string, DiffEventSummary>();
+    for (const rec of recs) {
+      for (const event of rec.competingEvents || []) {
+        const summary = this.summarizeEvent(event);
+        if (!events.has(summary.key)) {
+          events.set(summary.key, summary);
+        }
+      }
+    }
+    return events;
+  }
+
+  /**
+   * Events are matched by normalized title and day rather than ID, because
+   * scraped and Perplexity events can get new IDs between runs.
+   */
+  private summarizeEvent(event: Event): DiffEventSummary {
+    const day = (event.date || '').split('T')[0];
+    const title = (event.title || '').toLowerCase().replace(/\s+/g, ' ').trim();
+    return {
+      key: `${title}|${day}`,
+      id: event.id,
+      title: event.title,
+      date: event.date,
+      venue: event.venue,
+      category: event.category,
+      expectedAttendees: event.expectedAttendees,
+      source: event.source
+    };
+  }
+
+  private dateKey(rec: { startDate: string; endDate: string }): string {
+    return `${rec.startDate}_${rec.endDate}`;
+  }
+}
+
+// Export singleton instance
+export const analysisDiffService = new AnalysisDiffService();
@@ -0,0 +1,377 @@
+// src/lib/services/analysis-history.ts
+import { serverDatabaseService } from '@/lib/supabase';
+import { conflictAnalysisService, ConflictAnalysisParams, ConflictAnalysisResult } from './conflict-analysis';
+import { webhookService } from './webhooks';
+import {
+  SavedAnalysis,
+  SavedAnalysisRequest,
+  SavedAnalysisSummary,
+  SavedAnalysisVersion
+} from '@/types/analysis-history';
+
+const MAX_VERSION_ATTEMPTS = 5; // Concurrent re-runs of the same analysis that may race for a version number
+
+/**
+ * Persists conflict analysis runs with their full results so they can be
+ * revisited via permalink and re-run against fresh event data.
+ */
+export class AnalysisHistoryService {
+  private db = serverDatabaseService;
+
+  /**
+   * Map a saved request onto the parameters used by the conflict analysis service.
+   * The organisation's blackout periods apply to the analysis.
+   */
+  toConflictAnalysisParams(request: SavedAnalysisRequest, organisationId: string | null = null): ConflictAnalysisParams {
+    return {
+      city: request.city,
+      category: request.category,
+      subcategory: request.subcategory || '',
+      expectedAttendees: request.expectedAttendees,
+      startDate: request.preferredStartDate,
+      endDate: request.preferredEndDate,
+      dateRangeStart: request.dateRangeStart,
+      dateRangeEnd: request.dateRangeEnd,
+      enableAdvancedAnalysis: true, // ENABLED for audience overlap analysis
+      enablePerplexityResearch: request.enablePerplexityResearch || false,
+      enableLLMRelevanceFilter: request.enableLLMRelevanceFilter ?? true,
+      useComprehensiveFallback: false, // DISABLED for performance - was causing 5min delays
+      scoringWeights: request.scoringWeights || undefined,
+      organisationId,
+    };
+  }
+
+  /**
+   * Save an analysis result. Pass parentAnalysisId to store it as a new version of an existing analysis.
+   * Returns null when the record could not be saved - the analysis itself is still valid in that case.
+   */
+  async saveAnalysis(
+    request: SavedAnalysisRequest,
+    result: ConflictAnalysisResult,
+    options: { parentAnalysisId?: string; userId?: string | null; organisationId?: string | null } = {}
+  ): Promise<SavedAnalysis | null> {
+    try {
+      let parent: SavedAnalysis | null = null;
+      if (options.parentAnalysisId) {
+        parent = await this.getAnalysis(options.parentAnalysisId);
+        if (!parent) {
+          console.warn(`Parent analysis ${options.parentAnalysisId} not found, saving as a new analysis`);
+        }
+      }
+
+      const rootAnalysisId = parent ? (parent.rootAnalysisId || parent.id) : null;
+      let version = 1;
+      let savedRow: any = null;
+      let error: any = null;
+
+      for (let attempt = 1; attempt <= MAX_VERSION_ATTEMPTS; attempt++) {
+        version = rootAnalysisId ? await this.getNextVersion(rootAnalysisId) : 1;
+        const record = this.buildAnalysisRecord(request, result, {
+          userId: options.userId ?? parent?.userId ?? null,
+          organisationId: options.organisationId ?? parent?.organisationId ?? null,
+          parentAnalysisId: parent?.id ?? null,
+          rootAnalysisId,
+          version
+        });
+
+        ({ data: savedRow, error } = await this.db.executeWithRetry(async () => {
+          return await this.db.getClient()
+            .from('conflict_analyses')
+            .insert(record)
+            .select()
+            .single();
+        }));
+
+        // A concurrent re-run saved this version first (23505 = unique violation); take the next one
+        if (!rootAnalysisId || error?.code !== '23505') {
+          break;
+        }
+      }
+
+      if (error) {
+        // Handle schema cache errors gracefully
+        if (error.code === 'PGRST204') {
+          console.warn('⚠️ Database schema cache needs refresh. Analysis results not saved. Please refresh PostgREST schema cache in Supabase Dashboard (Settings → API → Refresh schema cache).');
+        } else {
+          console.error('Failed to save analysis to database:', error);
+        }
+        return null;
+      }
+
+      // Original analyses are the root of their own version chain
+      if (!savedRow.root_analysis_id) {
+        const { error: rootError } = await this.db.getClient()
+          .from('conflict_analyses')
+          .update({ root_analysis_id: savedRow.id })
+          .eq('id', savedRow.id);
+
+        if (rootError) {
+          console.warn(`Failed to set root analysis for ${savedRow.id}:`, rootError);
+        } else {
+          savedRow.root_analysis_id = savedRow.id;
+        }
+      }
+
+      console.log(`Analysis saved to database with ID: ${savedRow.id} (version ${version})`);
+      const savedAnalysis = this.mapRowToSavedAnalysis(savedRow);
+
+      await webhookService.dispatch('analysis.completed', {
+        analysisId: savedAnalysis.id,
+        version: savedAnalysis.version,
+        parentAnalysisId: savedAnalysis.parentAnalysisId,
+        permalink: `/analyses/${savedAnalysis.id}`,
+        request,
+        summary: savedAnalysis.summary,
+        recommendedDates: result.recommendedDates.slice(0, 5).map(rec => ({
+          startDate: rec.startDate,
+          endDate: rec.endDate,
+          conflictScore: rec.conflictScore,
+          riskLevel: rec.riskLevel
+        }))
+      }, { organisationId: savedAnalysis.organisationId });
+
+      return savedAnalysis;
+    } catch (error) {
+      // Handle schema cache errors gracefully
+      if (error instanceof Error && error.message.includes('PGRST204')) {
+        console.warn('⚠️ Database schema cache needs refresh. Analysis results not saved. Please refresh PostgREST schema cache in Supabase Dashboard.');
+      } else {
+        console.error('Error saving analysis to database:', error);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Get a saved analysis by ID
+   */
+  async getAnalysis(id: string): Promise<SavedAnalysis | null> {
+    const { data, error } = await this.db.getClient()
+      .from('conflict_analyses')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') { // PGRST116 = no rows returned
+        return null;
+      }
+      console.error(`Error fetching analysis ${id}:`, error);
+      throw error;
+    }
+
+    return data ? this.mapRowToSavedAnalysis(data) : null;
+  }
+
+  /**
+   * Get all versions in the re-run chain of an analysis, oldest first
+   */
+  async getVersions(analysis: SavedAnalysis): Promise<SavedAnalysisVersion[]> {
+    const rootId = analysis.rootAnalysisId || analysis.id;
+
+    const { data, error } = await this.db.getClient()
+      .from('conflict_analyses')
+      .select('id, version, parent_analysis_id, created_at, results')
+      .or(`id.eq.${rootId},root_analysis_id.eq.${rootId}`)
+      .order('version', { ascending: true });
+
+    if (error) {
+      console.error(`Error fetching versions for analysis ${rootId}:`, error);
+      return [];
+    }
+
+    return (data || []).map(row => {
+      const summary = this.extractSummary(row.results || {});
+      return {
+        id: row.id,
+        version: row.version || 1,
+        parentAnalysisId: row.parent_analysis_id || null,
+        averageConflictScore: summary.averageConflictScore,
+        totalRecommendations: summary.totalRecommendations,
+        createdAt: row.created_at
+      };
+    });
+  }
+
+  /**
+   * Re-run a saved analysis with today's data and store it as a new version linked to the original
+   */
+  async rerunAnalysis(id: string): Promise<SavedAnalysis | null> {
+    const original = await this.getAnalysis(id);
+    if (!original) {
+      return null;
+    }
+
+    console.log(`🔁 Re-running analysis ${id} (version ${original.version}) with current data`);
+    const result = await conflictAnalysisService.analyzeConflicts(
+      this.toConflictAnalysisParams(original.request, original.organisationId)
+    );
+
+    const saved = await this.saveAnalysis(original.request, result, { parentAnalysisId: original.id });
+    if (!saved) {
+      throw new Error('Failed to save re-run analysis');
+    }
+
+    return saved;
+  }
+
+  /**
+   * Build the database record for an analysis.
+   * The result is stored in the results JSONB field alongside the legacy keys other consumers read.
+   */
+  private buildAnalysisRecord(
+    request: SavedAnalysisRequest,
+    result: ConflictAnalysisResult,
+    meta: {
+      userId: string | null;
+      organisationId: string | null;
+      parentAnalysisId: string | null;
+      rootAnalysisId: string | null;
+      version: number;
+    }
+  ) {
+    const summary = this.calculateSummary(result);
+    const preferredDates = [request.preferredStartDate, request.preferredEndDate];
+
+    return {
+      user_id: meta.userId,
+      organisation_id: meta.organisationId,
+      parent_analysis_id: meta.parentAnalysisId,
+      root_analysis_id: meta.rootAnalysisId,
+      version: meta.version,
+      // Top-level fields matching database schema
+      city: request.city,
+      category: request.category, // Top-level column for querying/filtering
+      subcategory: request.subcategory || null, // Top-level column for querying/filtering
+      preferred_dates: preferredDates,
+      expected_attendees: request.expectedAttendees,
+      date_range_start: request.dateRangeStart,
+      date_range_end: request.dateRangeEnd,
+      results: {
+        // Store all analysis data in the results JSONB field
+        city: request.city,
+        category: request.category,
+        subcategory: request.subcategory || null,
+        preferred_dates: preferredDates,
+        expected_attendees: request.expectedAttendees,
+        date_range_start: request.dateRangeStart,
+        date_range_end: request.dateRangeEnd,
+        request_data: {
+          city: request.city,
+          category: request.category,
+          subcategory: request.subcategory || null,
+          expected_attendees: request.expectedAttendees,
+          date_range: { start: request.dateRangeStart, end: request.dateRangeEnd },
+          preferred_dates: preferredDates,
+          enable_perplexity_research: request.enablePerplexityResearch || false,
+          enable_llm_relevance_filter: request.enableLLMRelevanceFilter ?? true,
+          scoring_profile_id: request.scoringProfileId || null,
+          scoring_weights: request.scoringWeights || null
+        },
+        conflict_score: summary.averageConflictScore,
+        recommendedDates: result.recommendedDates,
+        highRiskDates: result.highRiskDates,
+        allEvents: result.allEvents,
+        analysisDate: result.analysisDate,
+        userPreferredStartDate: result.userPreferredStartDate,
+        userPreferredEndDate: result.userPreferredEndDate,
+        deduplicationMetrics: result.deduplicationMetrics,
+        seasonalIntelligence: result.seasonalIntelligence,
+        summary
+      }
+    };
+  }
+
+  /**
+   * Calculate summary statistics for an analysis result
+   */
+  private calculateSummary(result: ConflictAnalysisResult): SavedAnalysisSummary {
+    const all = [...result.recommendedDates, ...result.highRiskDates];
+    const averageConflictScore = all.length === 0
+      ? 0
+      : all.reduce((sum, r) => sum + r.conflictScore, 0) / all.length;
+
+    return {
+      totalRecommendations: result.recommendedDates.length,
+      totalHighRiskDates: result.highRiskDates.length,
+      totalEventsAnalyzed: result.allEvents.length,
+      averageConflictScore
+    };
+  }
+
+  private extractSummary(results: Record<string, any>): SavedAnalysisSummary {
+    if (results.summary) {
+      return results.summary as SavedAnalysisSummary;
+    }
+    return {
+      totalRecommendations: results.recommendedDates?.length || 0,
+      totalHighRiskDates: results.highRiskDates?.length || 0,
+      totalEventsAnalyzed: results.allEvents?.length || 0,
+      averageConflictScore: results.conflict_score || 0
+    };
+  }
+
+  private async getNextVersion(rootId: string): Promise<number> {
+    const { data, error } = await this.db.getClient()
+      .from('conflict_analyses')
+      .select('version')
+      .or(`id.eq.${rootId},root_analysis_id.eq.${rootId}`)
+      .order('version', { ascending: false })
+      .limit(1);
+
+    if (error) {
+      console.warn(`Failed to determine next version for ${rootId}, defaulting to 2:`, error);
+      return 2;
+    }
+
+    return (data?.[0]?.version || 1) + 1;
+  }
+
+  /**
+   * Convert a conflict_analyses row into a SavedAnalysis.
+   * Older rows predate the version columns and the full result payload, so every field is defaulted.
+   */
+  private mapRowToSavedAnalysis(row: any): SavedAnalysis {
+    const results = row.results || {};
+    const requestData = results.request_data || {};
+    const preferredDates: string[] = row.preferred_dates || results.preferred_dates || [];
+
+    return {
+      id: row.id,
+      userId: row.user_id || null,
+      organisationId: row.organisation_id || null,
+      request: {
+        city: row.city,
+        category: row.category,
+        subcategory: row.subcategory || null,
+        expectedAttendees: row.expected_attendees,
+        dateRangeStart: row.date_range_start,
+        dateRangeEnd: row.date_range_end,
+        preferredStartDate: preferredDates[0] || row.date_range_start,
+        preferredEndDate: preferredDates[1] || row.date_range_end,
+        enablePerplexityResearch: requestData.enable_perplexity_research || false,
+        enableLLMRelevanceFilter: requestData.enable_llm_relevance_filter ?? true,
+        scoringProfileId: requestData.scoring_profile_id || null,
+        scoringWeights: requestData.scoring_weights || null
+      },
+      result: {
+        recommendedDates: results.recommendedDates || [],
+        highRiskDates: results.highRiskDates || [],
+        allEvents: results.allEvents || [],
+        analysisDate: results.analysisDate || row.created_at,
+        userPreferredStartDate: results.userPreferredStartDate || preferredDates[0],
+        userPreferredEndDate: results.userPreferredEndDate || preferredDates[1],
+        deduplicationMetrics: results.deduplicationMetrics,
+        seasonalIntelligence: results.seasonalIntelligence
+      },
+      summary: this.extractSummary(results),
+      version: row.version || 1,
+      parentAnalysisId: row.parent_analysis_id || null,
+      rootAnalysisId: row.root_analysis_id || null,
+      createdAt: row.created_at
+    };
+  }
+}
+
+// Export singleton instance
+export const analysisHistoryService = new AnalysisHistoryService();
@@ -0,0 +1,198 @@
+// src/lib/services/analysis-report.ts
+import type { ConflictDataPoint } from '@/components/data-visualization/conflict-heatmap';
+import type { DateRecommendation } from '@/lib/services/conflict-analysis';
+import type { SavedAnalysis } from '@/types/analysis-history';
+import type { SchoolHoliday } from '@/types/holidays';
+import { formatSchoolHoliday, getSchoolHolidaysOnDate } from '@/lib/utils/school-holidays';
+import type {
+  AnalysisReport,
+  ReportBranding,
+  ReportHolidayRestriction,
+  ReportSeasonalFactor
+} from '@/types/analysis-report';
+
+const TOP_RECOMMENDATIONS = 5;
+const TOP_HIGH_RISK_DATES = 5;
+// Keeps the heatmap on a single printed page
+const MAX_HEATMAP_DAYS = 120;
+const MAX_NOTES_LENGTH = 2000;
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Assembles the printable client report for a saved analysis.
+ * Kept free of database access so it can be tested in isolation.
+ */
+export class AnalysisReportBuilder {
+  buildReport(
+    analysis: SavedAnalysis,
+    branding: ReportBranding = {},
+    now: Date = new Date(),
+    schoolHolidays: SchoolHoliday[] = []
+  ): AnalysisReport {
+    const { result } = analysis;
+    const topRecommendations = result.recommendedDates.slice(0, TOP_RECOMMENDATIONS);
+    const highRiskDates = result.highRiskDates.slice(0, TOP_HIGH_RISK_DATES);
+
+    return {
+      analysis,
+      branding,
+      heatmap: this.buildHeatmap(analysis, schoolHolidays),
+      topRecommendations,
+      highRiskDates,
+      holidayRestrictions: this.collectHolidayRestrictions([...result.recommendedDates, ...result.highRiskDates]),
+      seasonalFactors: this.collectSeasonalFactors([...topRecommendations, ...highRiskDates]),
+      generatedAt: now.toISOString()
+    };
+  }
+
+  /**
+   * One heatmap cell per day of the analysis window. Each day takes the worst
+   * score of the analysed date windows covering it; days outside every
+   * analysed window score 0. Days in one of the city's school breaks are
+   * marked with the break.
+   */
+  buildHeatmap(analysis: SavedAnalysis, schoolHolidays: SchoolHoliday[] = []): ConflictDataPoint[] {
+    const { request, result } = analysis;
+    const windows = [...result.recommendedDates, ...result.highRiskDates];
+    const points: ConflictDataPoint[] = [];
+
+    const day = new Date(`${request.dateRangeStart}T00:00:00Z`);
+    const end = new Date(`${request.dateRangeEnd}T00:00:00Z`);
+
+    while (day <= end && points.length < MAX_HEATMAP_DAYS) {
+      const date = day.toISOString().split('T')[0];
+      const covering = windows.filter(window =>
+        this.toDay(window.startDate) <= date && date <= this.toDay(window.endDate)
+      );
+      const worst = covering.reduce<DateRecommendation | null>(
+        (current, window) => (!current || window.conflictScore > current.conflictScore ? window : current),
+        null
+      );
+      const eventCount = result.allEvents.filter(event => {
+        const start = this.toDay(event.date);
+        const eventEnd = event.endDate ? this.toDay(event.endDate) : start;
+        return start <= date && date <= eventEnd;
+      }).length;
+      const schoolBreaks = getSchoolHolidaysOnDate(schoolHolidays, date);
+
+      points.push({
+        date,
+        conflictScore: worst ? worst.conflictScore : 0,
+        riskLevel: worst ? worst.riskLevel : 'Low',
+        eventCount,
+        dayOfWeek: DAY_NAMES[day.getUTCDay()],
+        schoolHoliday: schoolBreaks.length > 0 ? schoolBreaks.map(formatSchoolHoliday).join(', ') : undefined
+      });
+
+      day.setUTCDate(day.getUTCDate() + 1);
+    }
+
+    return points;
+  }
+
+  /**
+   * Holidays and cultural events from every analysed window, one row per
+   * holiday and window
+   */
+  collectHolidayRestrictions(windows: DateRecommendation[]): ReportHolidayRestriction[] {
+    const seen = new Set<string>();
+    const restrictions: ReportHolidayRestriction[] = [];
+
+    for (const window of windows) {
+      const holidayRestrictions = window.holidayRestrictions;
+      if (!holidayRestrictions) continue;
+
+      const entries: ReportHolidayRestriction[] = [
+        ...(holidayRestrictions.holidays || []).map((holiday: any) => ({
+          startDate: window.startDate,
+          endDate: window.endDate,
+          name: holiday.holiday_name,
+          kind: 'holiday' as const,
+          type: holiday.holiday_type,
+          businessImpact: holiday.business_impact,
+          venueClosureExpected: !!holiday.venue_closure_expected
+        })),
+        ...(holidayRestrictions.cultural_events || []).map((event: any) => ({
+          startDate: window.startDate,
+          endDate: window.endDate,
+          name: event.event_name,
+          kind: 'cultural_event' as const,
+          type: event.event_type,
+          businessImpact: event.business_impact,
+          venueClosureExpected: !!event.venue_closure_expected
+        }))
+      ];
+
+      for (const entry of entries) {
+        const key = `${entry.name}|${entry.startDate}|${entry.endDate}`;
+        if (!entry.name || seen.has(key)) continue;
+        seen.add(key);
+        restrictions.push(entry);
+      }
+    }
+
+    return restrictions.sort((a, b) => a.startDate.localeCompare(b.startDate));
+  }
+
+  collectSeasonalFactors(windows: DateRecommendation[]): ReportSeasonalFactor[] {
+    const seen = new Set<string>();
+    const factors: ReportSeasonalFactor[] = [];
+
+    for (const window of windows) {
+      const key = `${window.startDate}|${window.endDate}`;
+      if (!window.seasonalFactors || seen.has(key)) continue;
+      seen.add(key);
+
+      factors.push({
+        startDate: window.startDate,
+        endDate: window.endDate,
+        demandLevel: window.seasonalFactors.demandLevel,
+        seasonalMultiplier: window.seasonalFactors.seasonalMultiplier,
+        holidayMultiplier: window.seasonalFactors.holidayMultiplier,
+        optimalityScore: window.seasonalFactors.optimalityScore,
+        reasoning: [
+          ...(window.seasonalFactors.seasonalReasoning || []),
+          ...(window.seasonalFactors.holidayReasoning || [])
+        ]
+      });
+    }
+
+    return factors.sort((a, b) => a.startDate.localeCompare(b.startDate));
+  }
+
+  /**
+   * Read branding from query parameters. Only http(s) logo URLs are kept.
+   */
+  parseBranding(params: Record<string, string | string[] | undefined>): ReportBranding {
+    const read = (name: string, maxLength: number): string | undefined => {
+      const raw = params[name];
+      const value = (Array.isArray(raw) ? raw[0] : raw)?.trim();
+      return value ? value.slice(0, maxLength) : undefined;
+    };
+
+    const logoUrl = read('logoUrl', 500);
+    let safeLogoUrl: string | undefined;
+    if (logoUrl) {
+      try {
+        const url = new URL(logoUrl);
+        safeLogoUrl = url.protocol === 'https:' || url.protocol === 'http:' ? url.toString() : undefined;
+      } catch {
+        safeLogoUrl = undefined;
+      }
+    }
+
+    return {
+      agencyName: read('agency', 100),
+      logoUrl: safeLogoUrl,
+      preparedFor: read('client', 100),
+      notes: read('notes', MAX_NOTES_LENGTH)
+    };
+  }
+
+  private toDay(date: string): string {
+    return date.split('T')[0];
+  }
+}
+
+// Export singleton instance
+export const analysisReportBuilder = new AnalysisReportBuilder();
@@ -0,0 +1,256 @@
+// src/lib/services/api-keys.ts
+import { timingSafeEqual } from 'crypto';
+import { serverDatabaseService } from '@/lib/supabase';
+import { organisationService } from './organisations';
+import {
+  canManageApiKey,
+  generateApiKey,
+  getEffectiveScopes,
+  getUngrantableScopes,
+  hashApiKey,
+  isApiKeyActive,
+  parseApiKeyPrefix
+} from '@/lib/utils/api-keys';
+import { AuthorizationError } from '@/lib/utils/error-handling';
+import { ApiKey, AuthContext, CreateApiKeyData, CreatedApiKey } from '@/types/organisations';
+
+/**
+ * Issues, rotates, revokes and verifies per-organisation API keys.
+ * Keys are stored as SHA-256 hashes and looked up by their random prefix.
+ */
+export class ApiKeyService {
+  private db = serverDatabaseService;
+
+  /**
+   * Create a key for a member of the organisation. The scopes must be ones the member's role may grant.
+   */
+  async createKey(organisationId: string, data: CreateApiKeyData & { createdBy: string }, rotatedFromId: string | null = null): Promise<CreatedApiKey> {
+    const role = await organisationService.getMemberRole(organisationId, data.createdBy);
+    if (!role) {
+      throw new AuthorizationError('API keys can only be created by members of the organisation');
+    }
+
+    const ungrantable = getUngrantableScopes(role, data.scopes);
+    if (ungrantable.length > 0) {
+      throw new AuthorizationError(`A ${role} cannot grant the ${ungrantable.join(', ')} scope`);
+    }
+
+    const { key, prefix, hash } = generateApiKey();
+
+    const { data: row, error } = await this.db.executeWithRetry(async () => {
+      return await this.db.getClient()
+        .from('api_keys')
+        .insert({
+          organisation_id: organisationId,
+          name: data.name,
+          key_prefix: prefix,
+          key_hash: hash,
+          scopes: Array.from(new Set(data.scopes)),
+          created_by: data.createdBy,
+          rotated_from_id: rotatedFromId,
+          expires_at: data.expiresAt || null
+        })
+        .select()
+        .single();
+    });
+
+    if (error) {
+      console.error('Failed to create API key:', error);
+      throw error;
+    }
+
+    return { apiKey: this.mapRowToApiKey(row), key };
+  }
+
+  /**
+   * Get a key of an organisation by ID
+   */
+  async getKey(organisationId: string, id: string): Promise<ApiKey | null> {
+    const { data, error } = await this.db.getClient()
+      .from('api_keys')
+      .select('*')
+      .eq('organisation_id', organisationId)
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') { // PGRST116 = no rows returned
+        return null;
+      }
+      console.error(`Error fetching API key ${id}:`, error);
+      throw error;
+    }
+
+    return data ? this.mapRowToApiKey(data) : null;
+  }
+
+  /**
+   * List the keys of an organisation, newest first. Revoked keys are included.
+   */
+  async listKeys(organisationId: string): Promise<ApiKey[]> {
+    const { data, error } = await this.db.getClient()
+      .from('api_keys')
+      .select('*')
+      .eq('organisation_id', organisationId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error(`Error fetching API keys of organisation ${organisationId}:`, error);
+      throw error;
+    }
+
+    return (data || []).map(row => this.mapRowToApiKey(row));
+  }
+
+  /**
+   * Revoke a key immediately. Like rotation, only the key's creator and members
+   * who manage the creator's role may revoke it.
+   */
+  async revokeKey(organisationId: string, id: string, actor: AuthContext): Promise<ApiKey | null> {
+    const existing = await this.getKey(organisationId, id);
+    if (!existing) {
+      return null;
+    }
+
+    await this.assertCanManageKey(organisationId, existing, actor, 'revoke');
+
+    const { data, error } = await this.db.getClient()
+      .from('api_keys')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('organisation_id', organisationId)
+      .eq('id', id)
+      .is('revoked_at', null)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        // Unknown or already revoked
+        return await this.getKey(organisationId, id);
+      }
+      console.error(`Error revoking API key ${id}:`, error);
+      throw error;
+    }
+
+    return this.mapRowToApiKey(data);
+  }
+
+  /**
+   * Replace a key with a new one with the same name and scopes. The old key is
+   * revoked, or keeps working for graceMinutes so clients can switch over.
+   * The new key acts as the old key's creator, so the caller must own the key
+   * or manage its creator's role.
+   */
+  async rotateKey(organisationId: string, id: string, actor: AuthContext, graceMinutes: number = 0): Promise<CreatedApiKey | null> {
+    const existing = await this.getKey(organisationId, id);
+    if (!existing || !isApiKeyActive(existing)) {
+      return null;
+    }
+
+    await this.assertCanManageKey(organisationId, existing, actor, 'rotate');
+
+    const rotated = await this.createKey(organisationId, {
+      name: existing.name,
+      scopes: existing.scopes,
+      createdBy: existing.createdBy,
+      expiresAt: existing.expiresAt
+    }, existing.id);
+
+    const retireAt = new Date(Date.now() + graceMinutes * 60 * 1000).toISOString();
+    const { error } = await this.db.getClient()
+      .from('api_keys')
+      .update(graceMinutes > 0 ? { expires_at: retireAt } : { revoked_at: retireAt })
+      .eq('id', existing.id);
+
+    if (error) {
+      console.error(`Error retiring rotated API key ${id}:`, error);
+      throw error;
+    }
+
+    return rotated;
+  }
+
+  /**
+   * Resolve a presented key to the organisation and scopes it grants.
+   * Returns null for unknown, revoked or expired keys.
+   */
+  async authenticate(key: string): Promise<AuthContext | null> {
+    const prefix = parseApiKeyPrefix(key);
+    if (!prefix) {
+      return null;
+    }
+
+    const { data, error } = await this.db.getClient()
+      .from('api_keys')
+      .select('*')
+      .eq('key_prefix', prefix)
+      .limit(1);
+
+    if (error) {
+      console.error('Error looking up API key:', error);
+      throw error;
+    }
+
+    const row = data?.[0];
+    if (!row || !this.hashMatches(key, row.key_hash)) {
+      return null;
+    }
+
+    const apiKey = this.mapRowToApiKey(row);
+    if (!isApiKeyActive(apiKey)) {
+      return null;
+    }
+
+    const role = await organisationService.getMemberRole(apiKey.organisationId, apiKey.createdBy);
+
+    // Usage tracking must never block the request
+    this.db.getClient()
+      .from('api_keys')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', apiKey.id)
+      .then(({ error: touchError }) => {
+        if (touchError) console.warn(`Failed to record use of API key ${apiKey.id}:`, touchError);
+      });
+
+    return {
+      organisationId: apiKey.organisationId,
+      userId: apiKey.createdBy,
+      apiKeyId: apiKey.id,
+      role,
+      scopes: getEffectiveScopes(apiKey.scopes, role),
+      isOperator: false
+    };
+  }
+
+  private async assertCanManageKey(organisationId: string, key: ApiKey, actor: AuthContext, action: string): Promise<void> {
+    const creatorRole = await organisationService.getMemberRole(organisationId, key.createdBy);
+    if (!canManageApiKey(actor, key.createdBy, creatorRole)) {
+      throw new AuthorizationError(`A ${actor.role} cannot ${action} keys of a ${creatorRole || 'former member'}`);
+    }
+  }
+
+  private hashMatches(key: string, storedHash: string): boolean {
+    const expected = Buffer.from(storedHash, 'hex');
+    const provided = Buffer.from(hashApiKey(key), 'hex');
+    return expected.length === provided.length && timingSafeEqual(expected, provided);
+  }
+
+  private mapRowToApiKey(row: any): ApiKey {
+    return {
+      id: row.id,
+      organisationId: row.organisation_id,
+      name: row.name,
+      keyPrefix: row.key_prefix,
+      scopes: row.scopes || [],
+      createdBy: row.created_by,
+      lastUsedAt: row.last_used_at || null,
+      expiresAt: row.expires_at || null,
+      revokedAt: row.revoked_at || null,
+      rotatedFromId: row.rotated_from_id || null,
+      createdAt: row.created_at
+    };
+  }
+}
+
+// Export singleton instance
+export const apiKeyService = new ApiKeyService();
@@ -3,6 +3,8 @@
  * Centralized service to track and manage all available APIs and data sources
  */
 
+import { eventProviderRegistry } from './event-provider-registry';
+
 export interface DataSource {
   id: string;
   name: string;
@@ -28,16 +30,17 @@ export interface USPData {
 }
 
 class APIRegistryService {
+  // Event providers come from the provider registry; sources listed here are not event providers
   private dataSources: DataSource[] = [
-    {
-      id: 'ticketmaster',
-      name: 'Ticketmaster Discovery',
-      type: 'api',
-      status: 'active',
-      description: 'Global event discovery API covering concerts, sports, and entertainment events',
-      endpoint: 'https://app.ticketmaster.com/discovery/v2/',
-      coverage: ['Global'],
-    },
+    ...eventProviderRegistry.list().map(({ info }) => ({
+      id: info.id,
+      name: info.name,
+      type: info.type,
+      status: info.status,
+      description: info.description,
+      endpoint: info.endpoint,
+      coverage: info.coverage,
+    })),
     {
       id: 'perplexity',
       name: 'Perplexity AI',
@@ -47,40 +50,6 @@ class APIRegistryService {
       endpoint: 'https://api.perplexity.ai/',
       coverage: ['Global'],
     },
-    {
-      id: 'brno-local',
-      name: 'Brno official events',
-      type: 'local',
-      status: 'active',
-      description: 'Local event data for Brno, Czech Republic',
-      coverage: ['Brno, Czech Republic'],
-    },
-    {
-      id: 'local-scraping',
-      name: 'Local Website Scraping',
-      type: 'scraper',
-      status: 'active',
-      description: 'Automated web scraping from thousands of local event websites and calendars to capture comprehensive event coverage across Czech cities',
-      coverage: ['Multiple Cities, Czech Republic'],
-    },
-    {
-      id: 'eventbrite',
-      name: 'Eventbrite',
-      type: 'api',
-      status: 'inactive',
-      description: 'Event discovery and ticketing platform',
-      endpoint: 'https://www.eventbriteapi.com/v3/',
-      coverage: ['Global'],
-    },
-    {
-      id: 'meetup',
-      name: 'Meetup',
-      type: 'api',
-      status: 'inactive',
-      description: 'Community events and meetups platform',
-      endpoint: 'https://api.meetup.com/',
-      coverage: ['Global'],
-    },
   ];
 
   /**
@@ -0,0 +1,183 @@
+// src/lib/services/blackout-periods.ts
+import { serverDatabaseService } from '@/lib/supabase';
+import { ApiError } from '@/lib/utils/error-handling';
+import {
+  BlackoutPeriod,
+  CreateBlackoutPeriodData,
+  UpdateBlackoutPeriodData
+} from '@/types/holidays';
+
+/**
+ * Organisation blackout periods: dates an organisation keeps free of events.
+ * They only restrict that organisation's own analyses.
+ */
+export class BlackoutPeriodService {
+  private db = serverDatabaseService;
+
+  /**
+   * List an organisation's blackout periods, earliest first
+   */
+  async listPeriods(organisationId: string): Promise<BlackoutPeriod[]> {
+    const { data, error } = await this.db.getClient()
+      .from('organisation_blackout_periods')
+      .select('*')
+      .eq('organisation_id', organisationId)
+      .order('start_date', { ascending: true });
+
+    if (error) {
+      console.error(`Error fetching blackout periods of organisation ${organisationId}:`, error);
+      throw error;
+    }
+
+    return (data || []).map(row => this.mapRowToPeriod(row));
+  }
+
+  /**
+   * Get a blackout period by ID
+   */
+  async getPeriod(id: string): Promise<BlackoutPeriod | null> {
+    const { data, error } = await this.db.getClient()
+      .from('organisation_blackout_periods')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') { // PGRST116 = no rows returned
+        return null;
+      }
+      console.error(`Error fetching blackout period ${id}:`, error);
+      throw error;
+    }
+
+    return data ? this.mapRowToPeriod(data) : null;
+  }
+
+  /**
+   * Create a blackout period for an organisation
+   */
+  async createPeriod(
+    organisationId: string,
+    data: CreateBlackoutPeriodData,
+    createdBy: string | null = null
+  ): Promise<BlackoutPeriod> {
+    const { data: row, error } = await this.db.executeWithRetry(async () => {
+      return await this.db.getClient()
+        .from('organisation_blackout_periods')
+        .insert({
+          organisation_id: organisationId,
+          name: data.name,
+          description: data.description || null,
+          start_date: data.start_date,
+          end_date: data.end_date,
+          city: data.city || null,
+          business_impact: data.business_impact || 'full',
+          created_by: createdBy
+        })
+        .select()
+        .single();
+    });
+
+    if (error) {
+      console.error('Failed to create blackout period:', error);
+      throw error;
+    }
+
+    return this.mapRowToPeriod(row);
+  }
+
+  /**
+   * Update a blackout period. Throws a 400 ApiError when the dates end up reversed.
+   */
+  async updatePeriod(id: string, updates: UpdateBlackoutPeriodData): Promise<BlackoutPeriod | null> {
+    const existing = await this.getPeriod(id);
+    if (!existing) {
+      return null;
+    }
+
+    const startDate = updates.start_date ?? existing.start_date;
+    const endDate = updates.end_date ?? existing.end_date;
+    if (endDate < startDate) {
+      throw new ApiError('end_date must not be before start_date', 400);
+    }
+
+    const updateData: Record<string, any> = {};
+    if (updates.name !== undefined) updateData.name = updates.name;
+    if (updates.description !== undefined) updateData.description = updates.description;
+    if (updates.start_date !== undefined) updateData.start_date = updates.start_date;
+    if (updates.end_date !== undefined) updateData.end_date = updates.end_date;
+    if (updates.city !== undefined) updateData.city = updates.city;
+    if (updates.business_impact !== undefined) updateData.business_impact = updates.business_impact;
+
+    const { data, error } = await this.db.getClient()
+      .from('organisation_blackout_periods')
+      .update(updateData)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      console.error(`Error updating blackout period ${id}:`, error);
+      throw error;
+    }
+
+    return this.mapRowToPeriod(data);
+  }
+
+  /**
+   * Delete a blackout period
+   */
+  async deletePeriod(id: string): Promise<void> {
+    const { error } = await this.db.getClient()
+      .from('organisation_blackout_periods')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error(`Error deleting blackout period ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * An organisation's blackout periods overlapping a date range
+   */
+  async getPeriodsForRange(organisationId: string, startDate: string, endDate: string): Promise<BlackoutPeriod[]> {
+    const { data, error } = await this.db.getClient()
+      .from('organisation_blackout_periods')
+      .select('*')
+      .eq('organisation_id', organisationId)
+      .lte('start_date', endDate)
+      .gte('end_date', startDate)
+      .order('start_date', { ascending: true });
+
+    if (error) {
+      console.error(`Error fetching blackout periods of organisation ${organisationId}:`, error);
+      throw error;
+    }
+
+    return (data || []).map(row => this.mapRowToPeriod(row));
+  }
+
+  private mapRowToPeriod(row: any): BlackoutPeriod {
+    return {
+      id: row.id,
+      organisation_id: row.organisation_id,
+      name: row.name,
+      description: row.description || undefined,
+      start_date: row.start_date,
+      end_date: row.end_date,
+      city: row.city || undefined,
+      business_impact: row.business_impact,
+      created_by: row.created_by || undefined,
+      created_at: row.created_at,
+      updated_at: row.updated_at
+    };
+  }
+}
+
+// Export singleton instance
+export const blackoutPeriodService = new BlackoutPeriodService();
@@ -0,0 +1,173 @@
+// src/lib/services/calendar-export.ts
+import type { Event } from '@/types';
+import type { DatabaseEvent } from '@/lib/types/events';
+import type { SavedAnalysis } from '@/types/analysis-history';
+import { buildICalendar, ICalEvent } from '@/lib/utils/icalendar';
+
+const UID_DOMAIN = 'oslavu-app.vercel.app';
+
+// Subscribed feeds are refreshed roughly as often as the events table is synced
+const FEED_REFRESH_HOURS = 6;
+
+/**
+ * Fields shared by analysis results and stored events that end up in a calendar entry
+ */
+interface CalendarEventSource {
+  id: string;
+  title: string;
+  description?: string;
+  date: string;
+  endDate?: string;
+  city: string;
+  venue?: string;
+  category: string;
+  subcategory?: string;
+  expectedAttendees?: number;
+  source: string;
+  url?: string;
+}
+
+/**
+ * Turns saved analyses and stored events into iCalendar documents
+ */
+export class CalendarExportService {
+  /**
+   * Calendar with every competing event of an analysis plus its recommended
+   * windows as all-day blocks
+   */
+  buildAnalysisCalendar(analysis: SavedAnalysis, options: { analysisUrl?: string } = {}): string {
+    const { request, result } = analysis;
+    const events: ICalEvent[] = [];
+
+    result.recommendedDates.forEach(recommendation => {
+      const descriptionLines = [
+        `Conflict score: ${recommendation.conflictScore.toFixed(1)}/20 (${recommendation.riskLevel} risk)`,
+        `Competing events: ${recommendation.competingEvents.length}`,
+        ...recommendation.reasons.map(reason => `- ${reason}`)
+      ];
+      if (options.analysisUrl) {
+        descriptionLines.push('', `Analysis: ${options.analysisUrl}`);
+      }
+
+      events.push({
+        uid: `recommended-${analysis.id}-${recommendation.startDate}-${recommendation.endDate}@${UID_DOMAIN}`,
+        summary: `Recommended: ${request.category} event in ${request.city}`,
+        description: descriptionLines.join('\n'),
+        location: request.city,
+        url: options.analysisUrl,
+        start: recommendation.startDate,
+        end: recommendation.endDate,
+        allDay: true,
+        categories: ['Oslavu recommendation'],
+        status: 'TENTATIVE',
+        transparent: true
+      });
+    });
+
+    // The same competing event usually appears under several date windows
+    const seen = new Set<string>();
+    const recommendations = [...result.recommendedDates, ...result.highRiskDates];
+    for (const recommendation of recommendations) {
+      for (const event of recommendation.competingEvents) {
+        if (seen.has(event.id)) continue;
+        seen.add(event.id);
+        events.push(this.toCalendarEvent(this.fromAnalysisEvent(event)));
+      }
+    }
+
+    return buildICalendar({
+      name: `Oslavu: ${request.category} in ${request.city}`,
+      description: `Competing events and recommended dates for ${request.dateRangeStart} – ${request.dateRangeEnd}`,
+      events
+    });
+  }
+
+  /**
+   * Subscribable feed of stored events for a city and optional category
+   */
+  buildEventFeed(events: DatabaseEvent[], filter: { city: string; category?: string }): string {
+    const name = filter.category
+      ? `Oslavu: ${filter.category} events in ${filter.city}`
+      : `Oslavu: events in ${filter.city}`;
+
+    return buildICalendar({
+      name,
+      description: `Events tracked by Oslavu for ${filter.city}${filter.category ? ` (${filter.category})` : ''}`,
+      refreshIntervalHours: FEED_REFRESH_HOURS,
+      events: events.map(event => this.toCalendarEvent(this.fromDatabaseEvent(event), event.updated_at))
+    });
+  }
+
+  private toCalendarEvent(event: CalendarEventSource, lastModified?: string): ICalEvent {
+    const allDay = this.isAllDay(event.date) && (!event.endDate || this.isAllDay(event.endDate));
+
+    return {
+      uid: `event-${event.id}@${UID_DOMAIN}`,
+      summary: event.title,
+      description: this.buildDescription(event),
+      location: [event.venue, event.city].filter(Boolean).join(', '),
+      url: event.url,
+      start: event.date,
+      end: event.endDate,
+      allDay,
+      categories: [event.category, event.subcategory].filter((c): c is string => !!c),
+      status: 'CONFIRMED',
+      lastModified
+    };
+  }
+
+  private buildDescription(event: CalendarEventSource): string {
+    const lines: string[] = [];
+    if (event.description) lines.push(event.description, '');
+    if (event.venue) lines.push(`Venue: ${event.venue}`);
+    if (event.expectedAttendees) lines.push(`Expected attendees: ~${event.expectedAttendees.toLocaleString('en-US')}`);
+    lines.push(`Source: ${event.source}`);
+    if (event.url) lines.push(`URL: ${event.url}`);
+    return lines.join('\n');
+  }
+
+  /**
+   * Dates without a time component (or at exactly midnight UTC) are stored
+   * for events whose start time is unknown
+   */
+  private isAllDay(date: string): boolean {
+    return !date.includes('T') || /T00:00(:00(\.0+)?)?(Z|\+00:00)?$/.test(date);
+  }
+
+  private fromAnalysisEvent(event: Event): CalendarEventSource {
+    return {
+      id: event.id,
+      title: event.title,
+      description: event.description,
+      date: event.date,
+      endDate: event.endDate,
+      city: event.city,
+      venue: event.venue,
+      category: event.category,
+      subcategory: event.subcategory,
+      expectedAttendees: event.expectedAttendees,
+      source: event.source,
+      url: event.url
+    };
+  }
+
+  private fromDatabaseEvent(event: DatabaseEvent): CalendarEventSource {
+    return {
+      id: event.id,
+      title: event.title,
+      description: event.description,
+      date: event.date,
+      endDate: event.end_date,
+      city: event.city,
+      venue: event.venue,
+      category: event.category,
+      subcategory: event.subcategory,
+      expectedAttendees: event.expected_attendees,
+      source: event.source,
+      url: event.url
+    };
+  }
+}
+
+// Export singleton instance
+export const calendarExportService = new CalendarExportService();
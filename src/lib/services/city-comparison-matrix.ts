@@ -0,0 +1,112 @@
+// src/lib/services/city-comparison-matrix.ts
+import type { ConflictAnalysisResult, DateRecommendation } from './conflict-analysis';
+import type {
+  CityComparisonDate,
+  CityComparisonEntry,
+  HolidayImpact
+} from '@/types/city-comparison';
+
+const HOLIDAY_IMPACT_ORDER: Record<HolidayImpact, number> = { none: 0, partial: 1, full: 2 };
+const ALTERNATIVE_DATES = 2;
+
+/**
+ * Turns per-city conflict analyses into a ranked comparison matrix.
+ * Kept free of database access so it can be tested in isolation.
+ */
+export class CityComparisonMatrix {
+  /**
+   * Reduce one city's analysis to its best dates. Dates are ordered by
+   * conflict score, then holiday impact, then seasonal demand.
+   */
+  summarizeCity(
+    city: string,
+    result: ConflictAnalysisResult,
+    analysisId: string | null
+  ): CityComparisonEntry {
+    const seen = new Set<string>();
+    const dates = [...result.recommendedDates, ...result.highRiskDates]
+      .filter(recommendation => {
+        const key = `${recommendation.startDate}|${recommendation.endDate}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .map(recommendation => this.toComparisonDate(recommendation))
+      .sort((a, b) => this.compareDates(a, b));
+
+    return {
+      city,
+      status: 'completed',
+      rank: 0,
+      analysisId,
+      bestDate: dates[0] || null,
+      alternatives: dates.slice(1, 1 + ALTERNATIVE_DATES),
+      totalEventsAnalyzed: result.allEvents.length
+    };
+  }
+
+  failedCity(city: string, error: string): CityComparisonEntry {
+    return {
+      city,
+      status: 'failed',
+      rank: 0,
+      analysisId: null,
+      bestDate: null,
+      alternatives: [],
+      totalEventsAnalyzed: 0,
+      error
+    };
+  }
+
+  /**
+   * Rank cities by their best date. Cities without a usable date come last,
+   * in the order they were requested.
+   */
+  rankCities(entries: CityComparisonEntry[]): CityComparisonEntry[] {
+    return entries
+      .map((entry, index) => ({ entry, index }))
+      .sort((a, b) => {
+        const aDate = a.entry.bestDate;
+        const bDate = b.entry.bestDate;
+        if (aDate && bDate) {
+          return this.compareDates(aDate, bDate) || a.index - b.index;
+        }
+        if (aDate) return -1;
+        if (bDate) return 1;
+        return a.index - b.index;
+      })
+      .map(({ entry }, index) => ({ ...entry, rank: index + 1 }));
+  }
+
+  toComparisonDate(recommendation: DateRecommendation): CityComparisonDate {
+    const restrictions = recommendation.holidayRestrictions;
+    const holidays = [
+      ...(restrictions?.holidays || []).map((holiday: any) => holiday.holiday_name),
+      ...(restrictions?.cultural_events || []).map((event: any) => event.event_name)
+    ].filter((name): name is string => typeof name === 'string' && name.length > 0);
+
+    return {
+      startDate: recommendation.startDate,
+      endDate: recommendation.endDate,
+      conflictScore: recommendation.conflictScore,
+      riskLevel: recommendation.riskLevel,
+      seasonalMultiplier: recommendation.seasonalFactors?.seasonalMultiplier ?? null,
+      holidayImpact: restrictions?.business_impact || 'none',
+      holidays: Array.from(new Set(holidays)),
+      competingEventCount: recommendation.competingEvents.length
+    };
+  }
+
+  private compareDates(a: CityComparisonDate, b: CityComparisonDate): number {
+    if (a.conflictScore !== b.conflictScore) {
+      return a.conflictScore - b.conflictScore;
+    }
+    if (a.holidayImpact !== b.holidayImpact) {
+      return HOLIDAY_IMPACT_ORDER[a.holidayImpact] - HOLIDAY_IMPACT_ORDER[b.holidayImpact];
+    }
+    return (a.seasonalMultiplier ?? 1) - (b.seasonalMultiplier ?? 1);
+  }
+}
+
+// Export singleton instance
+export const cityComparisonMatrix = new CityComparisonMatrix();
@@ -0,0 +1,71 @@
+// src/lib/services/city-comparison.ts
+import { SavedAnalysisRequest } from '@/types/analysis-history';
+import { CityComparisonRequest, CityComparisonResult } from '@/types/city-comparison';
+import { ScoringWeights } from '@/types/scoring-profiles';
+import { analysisHistoryService } from './analysis-history';
+import { cityComparisonMatrix } from './city-comparison-matrix';
+import { conflictAnalysisService } from './conflict-analysis';
+
+/**
+ * Runs the same conflict analysis for several cities at once and ranks the
+ * cities by their best date. Each city's analysis is saved like a regular
+ * analysis so its full result stays reachable from the comparison.
+ */
+export class CityComparisonService {
+  async compareCities(
+    request: CityComparisonRequest,
+    scoringWeights?: ScoringWeights,
+    owner: { userId?: string | null; organisationId?: string | null } = {}
+  ): Promise<CityComparisonResult> {
+    const preferredDates: [string, string] = request.preferredDates || [request.dateRange.start, request.dateRange.end];
+
+    console.log(`🏙️ Comparing ${request.cities.length} cities for ${request.category}: ${request.cities.join(', ')}`);
+
+    const settled = await Promise.allSettled(request.cities.map(async city => {
+      const savedRequest: SavedAnalysisRequest = {
+        city,
+        category: request.category,
+        subcategory: request.subcategory,
+        expectedAttendees: request.expectedAttendees,
+        dateRangeStart: request.dateRange.start,
+        dateRangeEnd: request.dateRange.end,
+        preferredStartDate: preferredDates[0],
+        preferredEndDate: preferredDates[1],
+        enablePerplexityResearch: request.enablePerplexityResearch || false,
+        enableLLMRelevanceFilter: request.enableLLMRelevanceFilter ?? true,
+        scoringProfileId: request.scoringProfileId || null,
+        scoringWeights: scoringWeights || null
+      };
+
+      const result = await conflictAnalysisService.analyzeConflicts(
+        analysisHistoryService.toConflictAnalysisParams(savedRequest, owner.organisationId || null)
+      );
+      const saved = await analysisHistoryService.saveAnalysis(savedRequest, result, owner);
+
+      return cityComparisonMatrix.summarizeCity(city, result, saved?.id || null);
+    }));
+
+    const entries = settled.map((outcome, index) => {
+      if (outcome.status === 'fulfilled') {
+        return outcome.value;
+      }
+
+      const city = request.cities[index];
+      console.error(`❌ Comparison analysis failed for ${city}:`, outcome.reason);
+      return cityComparisonMatrix.failedCity(city, 'Analysis failed for this city');
+    });
+
+    return {
+      category: request.category,
+      subcategory: request.subcategory,
+      expectedAttendees: request.expectedAttendees,
+      dateRange: request.dateRange,
+      preferredDates,
+      cities: cityComparisonMatrix.rankCities(entries),
+      comparedAt: new Date().toISOString()
+    };
+  }
+}
+
+// Export singleton instance
+export const cityComparisonService = new CityComparisonService();
@@ -7,7 +7,8 @@ export interface CityInfo {
   id: string;
   name_en: string;
   name_cs?: string;
-  country_code: string;
+  country_code: string; // ISO 3166-1 alpha-2
+  region_code?: string; // ISO 3166-2 (e.g. 'CZ-JM', 'DE-BY')
   population?: number;
   latitude?: number;
   longitude?: number;
@@ -150,6 +151,7 @@ export class CityDatabaseService {
             name_en: cityInfo.name_en,
             name_cs: cityInfo.name_cs || null,
             country_code: cityInfo.country_code || 'CZ',
+            region_code: cityInfo.region_code || null,
             population: cityInfo.population,
             latitude: cityInfo.latitude,
             longitude: cityInfo.longitude,
@@ -250,6 +252,64 @@ export class CityDatabaseService {
     }
   }
 
+  /**
+   * Find cities across the border within maxDistance (e.g. Vienna for
+   * Bratislava), whose holidays also affect attendance
+   * Returns the closest matches first
+   */
+  async findCrossBorderCities(
+    city: CityInfo,
+    maxDistance: number = 100,
+    minPopulation: number = 50000
+  ): Promise<NearbyCityInfo[]> {
+    try {
+      if (!city.latitude || !city.longitude) {
+        return [];
+      }
+
+      const { data: allCities, error } = await serverDatabaseService.executeWithRetry(async () => {
+        return await serverDatabaseService.getClient()
+          .from('cities')
+          .select('*')
+          .neq('country_code', city.country_code)
+          .gte('population', minPopulation);
+      });
+
+      if (error) {
+        console.error('Error finding cross-border cities:', error);
+        return [];
+      }
+
+      const crossBorderCities: NearbyCityInfo[] = [];
+      for (const row of allCities || []) {
+        if (!row.latitude || !row.longitude) continue;
+
+        const distance = this.calculateDistance(
+          city.latitude,
+          city.longitude,
+          parseFloat(row.latitude),
+          parseFloat(row.longitude)
+        );
+
+        if (distance <= maxDistance) {
+          crossBorderCities.push({
+            ...this.mapToCityInfo(row),
+            distance_km: distance,
+            impact_factor: this.calculateImpactFactor(distance, row.population || 0)
+          });
+        }
+      }
+
+      // Sort by distance (closest first)
+      crossBorderCities.sort((a, b) => a.distance_km - b.distance_km);
+
+      return crossBorderCities;
+    } catch (error) {
+      console.error('Error finding cross-border cities:', error);
+      return [];
+    }
+  }
+
   /**
    * Get impact cities for a small city
    * Returns nearby larger cities that could draw attendees away
@@ -473,6 +533,7 @@ export class CityDatabaseService {
       name_en: row.name_en,
       name_cs: row.name_cs,
       country_code: row.country_code,
+      region_code: row.region_code || undefined,
       population: row.population,
       latitude: row.latitude ? parseFloat(row.latitude) : undefined,
       longitude: row.longitude ? parseFloat(row.longitude) : undefined,
@@ -17,6 +17,20 @@ import { PerplexityConflictResearch } from '@/types/perplexity';
 import { calculateSubcategoryOverlap, SUBCATEGORY_TAXONOMY } from '@/lib/constants/subcategory-taxonomy';
 import { subcategoryExtractionService } from './subcategory-extraction';
 import { aiEventRelevanceService } from './ai-event-relevance';
+import { eventSeriesPlanner } from './event-series-planner';
+import { EventSeriesAnalysisResult, EventSeriesOccurrence, EventSeriesPattern } from '@/types/event-series';
+import { conflictScoreBreakdownBuilder, MAX_CONFLICT_SCORE } from './conflict-score-breakdown';
+import { ConflictEventContribution, ConflictScoreBreakdown, ConflictScoreComponents } from '@/types/score-breakdown';
+import { scoringWeightCalculator } from './scoring-weights';
+import { ScoringWeights } from '@/types/scoring-profiles';
+import type { AnalysisPipelineStep } from '@/types/jobs';
+import type { AnalysisProgressEvent } from '@/types/analysis-progress';
+import type { EventProvider, EventProviderQuery } from '@/types/event-providers';
+import { toPartialRecommendations } from '@/lib/utils/analysis-progress';
+import { eventProviderRegistry, EventProviderTimeoutError } from './event-provider-registry';
+import type { ConflictCalculationOutput } from '@/lib/workers/conflict-analysis-worker';
+
+type ProgressEmitter = (event: AnalysisProgressEvent) => void;
 
 // High-performance data structures for conflict detection
 interface EventIndex {
@@ -36,7 +50,7 @@ interface ConflictSeverityConfig {
 }
 
 interface ConflictCache {
-  comparisons: Map<string, number>; // event pair -> conflict score
+  comparisons: Map<string, ConflictEventContribution>; // event pair -> scored contribution
   expiry: Map<string, number>; // cache key -> expiry timestamp
   ttl: number; // time to live in ms
 }
@@ -77,6 +91,8 @@ export interface DateRecommendation {
     business_impact: 'none' | 'partial' | 'full';
     venue_closure_expected: boolean;
     reasons: string[];
+    blackout_periods?: any[]; // the analysing organisation's own blackout periods
+    long_weekend?: any; // the long weekend the date is a bridge day or weekend day of
   };
   seasonalFactors?: {
     demandLevel: string;
@@ -97,6 +113,7 @@ export interface DateRecommendation {
     avgConflictScore: number;
     minConflictScore: number;
   };
+  scoreBreakdown?: ConflictScoreBreakdown; // How conflictScore was built; absent for consolidated ranges
 }
 
 export interface ConflictAnalysisParams {
@@ -113,16 +130,21 @@ export interface ConflictAnalysisParams {
   enableLLMRelevanceFilter?: boolean; // enable LLM-based relevance filtering (defaults to false - opt-in)
   searchRadius?: string; // search radius for geographic coverage (e.g., "50km", "25miles")
   useComprehensiveFallback?: boolean; // use comprehensive fallback strategies
+  series?: EventSeriesPattern; // recurring series or multi-day block, scored by analyzeSeries()
+  scoringWeights?: Partial<ScoringWeights>; // scoring profile weights (missing weights default to 1)
+  organisationId?: string | null; // analysing organisation; its blackout periods restrict dates
 }
 
-export class ConflictAnalysisService {
-  // Request deduplication cache
-  private requestCache = new Map<string, Promise<any>>();
-  private cacheExpiry = new Map<string, number>();
-  private readonly CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+export interface ConflictAnalysisOptions {
+  // Called when a pipeline step starts; an error thrown here aborts the analysis (used for job cancellation)
+  onProgress?: (step: AnalysisPipelineStep) => Promise<void> | void;
+  // Receives detailed progress (per-provider fetches, dedup counts, scored dates, Perplexity status, best dates so far)
+  onEvent?: (event: AnalysisProgressEvent) => void;
+}
 
-  // High-performance conflict detection
-  private eventIndex: EventIndex | null = null;
+export class ConflictAnalysisService {
+  // High-performance conflict detection. Each analysis builds its own EventIndex
+  // and passes it down, as analyses run concurrently on this instance.
   private conflictCache: ConflictCache = {
     comparisons: new Map(),
     expiry: new Map(),
@@ -255,10 +277,10 @@ export class ConflictAnalysisService {
   }
 
   /**
-   * Get cached conflict score or calculate and cache it
+   * Get cached event contribution to a conflict score
    */
-  private getCachedConflictScore(eventId1: string, eventId2: string, config: ConflictSeverityConfig): number | null {
-    const cacheKey = `${eventId1}-${eventId2}-${config.depth}`;
+  private getCachedContribution(eventId1: string, eventId2: string, config: ConflictSeverityConfig, weightsKey: string = ''): ConflictEventContribution | null {
+    const cacheKey = `${eventId1}-${eventId2}-${config.depth}${weightsKey ? `-${weightsKey}` : ''}`;
     const now = Date.now();
     
     // Check if cache entry exists and is not expired
@@ -272,13 +294,13 @@ export class ConflictAnalysisService {
   }
 
   /**
-   * Cache conflict score with expiry
+   * Cache event contribution with expiry
    */
-  private setCachedConflictScore(eventId1: string, eventId2: string, config: ConflictSeverityConfig, score: number): void {
-    const cacheKey = `${eventId1}-${eventId2}-${config.depth}`;
+  private setCachedContribution(eventId1: string, eventId2: string, config: ConflictSeverityConfig, contribution: ConflictEventContribution, weightsKey: string = ''): void {
+    const cacheKey = `${eventId1}-${eventId2}-${config.depth}${weightsKey ? `-${weightsKey}` : ''}`;
     const expiry = Date.now() + this.conflictCache.ttl;
     
-    this.conflictCache.comparisons.set(cacheKey, score);
+    this.conflictCache.comparisons.set(cacheKey, contribution);
     this.conflictCache.expiry.set(cacheKey, expiry);
   }
 
@@ -407,14 +429,27 @@ export class ConflictAnalysisService {
   /**
    * Analyze conflicts for event dates
    */
-  async analyzeConflicts(params: ConflictAnalysisParams): Promise<ConflictAnalysisResult> {
+  async analyzeConflicts(params: ConflictAnalysisParams, options: ConflictAnalysisOptions = {}): Promise<ConflictAnalysisResult> {
     const startTime = Date.now();
+    const emit: ProgressEmitter = event => {
+      try {
+        options.onEvent?.(event);
+      } catch (error) {
+        console.warn('Progress listener failed:', error);
+      }
+    };
+    const enterStep = async (step: AnalysisPipelineStep) => {
+      emit({ type: 'step', step });
+      await options.onProgress?.(step);
+    };
+
     try {
       console.log('Starting conflict analysis with params:', params);
       
       // Fetch events from multiple APIs
+      await enterStep('fetching-events');
       const fetchStartTime = Date.now();
-      const { filteredEvents, allEvents, deduplicationResult } = await this.fetchEventsFromAPI(params);
+      const { filteredEvents, allEvents, deduplicationResult } = await this.fetchEventsFromAPI(params, emit);
       const fetchTime = Date.now() - fetchStartTime;
       console.log(`Total filtered events: ${filteredEvents.length}, Total unfiltered events: ${allEvents.length} (took ${fetchTime}ms)`);
       
@@ -423,7 +458,7 @@ export class ConflictAnalysisService {
       
       // Pre-process events into high-performance data structures
       const preprocessStartTime = Date.now();
-      this.eventIndex = this.preprocessEvents(filteredEvents);
+      const eventIndex = this.preprocessEvents(filteredEvents);
       const preprocessTime = Date.now() - preprocessStartTime;
       console.log(`Event preprocessing completed in ${preprocessTime}ms`);
       
@@ -431,10 +466,13 @@ export class ConflictAnalysisService {
       this.cleanExpiredCache();
       
       // Generate date recommendations using optimized algorithms
+      await enterStep('analyzing-conflicts');
       const analysisStartTime = Date.now();
       const dateRecommendations = await this.generateDateRecommendationsOptimized(
         params,
-        filteredEvents
+        filteredEvents,
+        eventIndex,
+        emit
       );
       const analysisTime = Date.now() - analysisStartTime;
       console.log(`Generated ${dateRecommendations.length} date recommendations (took ${analysisTime}ms)`);
@@ -444,11 +482,14 @@ export class ConflictAnalysisService {
         console.log(`Recommendation ${index + 1}: ${rec.startDate} to ${rec.endDate} - Score: ${rec.conflictScore}, Risk: ${rec.riskLevel}, Competing Events: ${rec.competingEvents.length}`);
       });
 
+      await enterStep('generating-recommendations');
+
       // Extract and analyze Perplexity-recommended dates BEFORE categorization
       // This ensures they're included in the final recommendations
       const perplexityRecommendedDates = await this.extractAndAnalyzePerplexityRecommendedDates(
         dateRecommendations,
-        params
+        params,
+        eventIndex
       );
       
       // Add Perplexity-recommended dates to the recommendations array (if not already present)
@@ -740,7 +781,7 @@ export class ConflictAnalysisService {
   /**
    * Fetch events from multiple APIs (Ticketmaster, PredictHQ, and Brno)
    */
-  private async fetchEventsFromAPI(params: ConflictAnalysisParams): Promise<{ filteredEvents: Event[], allEvents: Event[], deduplicationResult?: any }> {
+  private async fetchEventsFromAPI(params: ConflictAnalysisParams, emit: ProgressEmitter = () => {}): Promise<{ filteredEvents: Event[], allEvents: Event[], deduplicationResult?: any }> {
     // Validate required parameters
     if (!params.city) {
       throw new Error('City is required');
@@ -768,129 +809,6 @@ export class ConflictAnalysisService {
       console.log(`Using correct country code: ${correctCountryCode} for city: ${normalizedCity}`);
     }
 
-    // Use normalized city name for API calls (encode properly for URLs)
-    const encodedCity = encodeURIComponent(normalizedCity);
-    const queryParams = new URLSearchParams({
-      city: normalizedCity, // Use normalized city name
-      startDate: params.dateRangeStart,
-      endDate: params.dateRangeEnd,
-      category: params.category,
-      size: '25', // Reduced from 50 for faster responses
-      useComprehensiveFallback: 'true' // Always use comprehensive fallback for better event discovery
-    });
-
-    // Add radius only for PredictHQ (Ticketmaster city variations work better without radius)
-    // Note: PredictHQ is disabled, so we don't need to build these params
-    const ticketmasterQueryParams = new URLSearchParams(queryParams);
-    // const predicthqQueryParams = new URLSearchParams(queryParams); // PredictHQ disabled
-    // predicthqQueryParams.set('radius', params.searchRadius || '50km'); // PredictHQ disabled
-
-    // Log query params only in development mode
-    if (process.env.NODE_ENV === 'development') {
-      console.log('Fetching events with params:', queryParams.toString());
-    }
-
-    // Get base URL for server-side requests
-    const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 
-      (process.env.NODE_ENV === 'production' 
-        ? 'https://oslavu-app.vercel.app'
-        : `http://localhost:${process.env.PORT || 3000}`);
-
-    // Debug logging (only in development mode)
-    if (process.env.NODE_ENV === 'development') {
-      console.log('🔍 Debug Info:');
-      console.log('NODE_ENV:', process.env.NODE_ENV);
-      console.log('NEXT_PUBLIC_BASE_URL:', process.env.NEXT_PUBLIC_BASE_URL);
-      console.log('Final baseUrl:', baseUrl);
-      console.log('API Keys availability:');
-      console.log('- TICKETMASTER_API_KEY:', !!process.env.TICKETMASTER_API_KEY);
-      // console.log('- PREDICTHQ_API_KEY:', !!process.env.PREDICTHQ_API_KEY); // PredictHQ disabled
-      console.log('API URLs being called:');
-      console.log('- Ticketmaster:', `${baseUrl}/api/analyze/events/ticketmaster?${ticketmasterQueryParams.toString()}`);
-      // console.log('- PredictHQ:', `${baseUrl}/api/analyze/events/predicthq?${predicthqQueryParams.toString()}`); // PredictHQ disabled
-      console.log('- Brno:', `${baseUrl}/api/analyze/events/brno?${new URLSearchParams({
-        startDate: params.dateRangeStart,
-        endDate: params.dateRangeEnd
-      }).toString()}`);
-    }
-
-    // Use consistent search parameters for all APIs with expanded category mapping
-    const expandedCategories = this.getExpandedCategories(params.category);
-    const ticketmasterExpandedCategories = this.getTicketmasterExpandedCategories(params.category);
-    
-    const standardTicketmasterParams = new URLSearchParams({
-      city: normalizedCity, // Use normalized city name for API
-      startDate: params.dateRangeStart,
-      endDate: params.dateRangeEnd,
-      category: params.category,
-      expandedCategories: ticketmasterExpandedCategories.join(','), // FIXED: Use Ticketmaster-specific categories
-      size: '25'
-    });
-
-    // PredictHQ disabled - no longer building params
-    // const standardPredicthqParams = new URLSearchParams({
-    //   city: params.city,
-    //   startDate: params.dateRangeStart,
-    //   endDate: params.dateRangeEnd,
-    //   category: params.category,
-    //   expandedCategories: expandedCategories.join(','),
-    //   size: '25',
-    //   radius: params.searchRadius || '50km'
-    // });
-
-    // Create timeout controller for API requests
-    const timeoutMs = 6000; // Consistent 6 second timeout for all requests
-    const createTimeoutFetch = (url: string, apiName: string) => {
-      // Get API-specific timeout (more reasonable values for external APIs)
-      let specificTimeout = timeoutMs;
-      if (apiName === 'ticketmaster') {
-        specificTimeout = 8000; // Restored to reasonable timeout for external API
-      } else if (apiName === 'predicthq') {
-        specificTimeout = 10000; // Restored to reasonable timeout for external API
-      } else if (apiName === 'brno') { 
-        specificTimeout = 6000; // Restored to reasonable timeout for external API
-      }
-
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), specificTimeout);
-      
-      return fetch(url, { 
-        signal: controller.signal,
-        headers: {
-          'Accept-Encoding': 'gzip, deflate, br',
-          'Accept': 'application/json'
-        }
-      }).finally(() => clearTimeout(timeoutId));
-    };
-
-    // Request deduplication helper
-    const getCachedRequest = (url: string, apiName: string) => {
-      const now = Date.now();
-      const cacheKey = `${apiName}:${url}`;
-      
-      // Clean expired entries
-      if (this.cacheExpiry.has(cacheKey) && this.cacheExpiry.get(cacheKey)! < now) {
-        console.log(`🧹 Cleaning expired cache entry for ${apiName}`);
-        this.requestCache.delete(cacheKey);
-        this.cacheExpiry.delete(cacheKey);
-      }
-      
-      // Return cached request or create new one
-      if (this.requestCache.has(cacheKey)) {
-        const expiryTime = this.cacheExpiry.get(cacheKey);
-        const remainingTime = expiryTime ? Math.round((expiryTime - now) / 1000) : 0;
-        console.log(`🔄 Using cached request for ${apiName} (expires in ${remainingTime}s)`);
-        return this.requestCache.get(cacheKey)!;
-      }
-      
-      console.log(`🆕 Creating new request for ${apiName}`);
-      const request = createTimeoutFetch(url, apiName);
-      this.requestCache.set(cacheKey, request);
-      this.cacheExpiry.set(cacheKey, now + this.CACHE_TTL);
-      
-      return request;
-    };
-
     // Check if city is small and find nearby impact cities
     // Small cities should include events from nearby larger cities that could affect attendance
     // Analysis remains for the submitted city, but includes nearby competing events
@@ -931,140 +849,83 @@ export class ConflictAnalysisService {
       // Continue analysis without impact cities - don't fail entire analysis
     }
 
-    // Optimized parallel execution
-    console.log(`🚀 Starting optimized parallel API requests...`);
-    const startTime = Date.now();
-    
-    // Create API request promises with consistent parameters
-    const ticketmasterUrl = `${baseUrl}/api/analyze/events/ticketmaster?${standardTicketmasterParams.toString()}`;
-    // const predicthqUrl = `${baseUrl}/api/analyze/events/predicthq?${standardPredicthqParams.toString()}`; // PredictHQ disabled
-    const brnoUrl = `${baseUrl}/api/analyze/events/brno?${new URLSearchParams({
+    // Query every registered provider that covers the city. Small cities also query
+    // providers for their impact cities; those events carry impact metadata for scoring.
+    const providerQuery: EventProviderQuery = {
+      city: normalizedCity,
       startDate: params.dateRangeStart,
-      endDate: params.dateRangeEnd
-    }).toString()}`;
-
-    console.log('🔗 API URLs being called:');
-    console.log(`  Ticketmaster: ${ticketmasterUrl}`);
-    // console.log(`  PredictHQ: ${predicthqUrl}`); // PredictHQ disabled
-    console.log(`  Brno: ${brnoUrl}`);
-
-    // Add scraped events URL
-    const scrapedUrl = `${baseUrl}/api/events/scraped?${queryParams.toString()}`;
-    console.log(`  Scraped: ${scrapedUrl}`);
+      endDate: params.dateRangeEnd,
+      category: params.category,
+      size: 25 // Reduced from 50 for faster responses
+    };
 
-    const apiRequests: Array<{
+    const providerRequests: Array<{
       name: string;
-      promise: Promise<Response>;
+      provider: EventProvider;
+      query: EventProviderQuery;
       metadata?: { impact_factor: number; distance_km: number; source_city: string };
-    }> = [
-      {
-        name: 'ticketmaster',
-        promise: createTimeoutFetch(ticketmasterUrl, 'ticketmaster') // Temporarily disable caching for debugging
-      },
-      // PredictHQ disabled
-      // {
-      //   name: 'predicthq', 
-      //   promise: createTimeoutFetch(predicthqUrl, 'predicthq') // Temporarily disable caching for debugging
-      // },
-      {
-        name: 'brno',
-        promise: createTimeoutFetch(brnoUrl, 'brno') // Temporarily disable caching for debugging
-      },
-      {
-        name: 'scraped',
-        promise: createTimeoutFetch(scrapedUrl, 'scraped') // Add scraped events
-      }
-    ];
+    }> = eventProviderRegistry.getProvidersForCity(normalizedCity).map(provider => ({
+      name: provider.info.id,
+      provider,
+      query: providerQuery
+    }));
 
-    // Add API requests for nearby impact cities (for small cities)
     for (const impactCity of impactCities) {
-      const impactCityParams = new URLSearchParams({
-        city: impactCity.name,
-        startDate: params.dateRangeStart,
-        endDate: params.dateRangeEnd,
-        category: params.category,
-        expandedCategories: ticketmasterExpandedCategories.join(','),
-        size: '25'
-      });
-      const impactCityUrl = `${baseUrl}/api/analyze/events/ticketmaster?${impactCityParams.toString()}`;
-      console.log(`  Impact City (${impactCity.name}): ${impactCityUrl}`);
-      
-      apiRequests.push({
-        name: `impact-${impactCity.name.toLowerCase()}`,
-        promise: createTimeoutFetch(impactCityUrl, 'ticketmaster'),
-        metadata: { impact_factor: impactCity.impact_factor, distance_km: impactCity.distance_km, source_city: impactCity.name }
-      });
+      for (const provider of eventProviderRegistry.getProvidersForCity(impactCity.name)) {
+        providerRequests.push({
+          name: `impact-${impactCity.name.toLowerCase()}`,
+          provider,
+          query: { ...providerQuery, city: impactCity.name },
+          metadata: { impact_factor: impactCity.impact_factor, distance_km: impactCity.distance_km, source_city: impactCity.name }
+        });
+      }
     }
 
-    // Optimized parallel execution
+    console.log(`🚀 Starting ${providerRequests.length} provider requests: ${providerRequests.map(r => r.name === r.provider.info.id ? r.name : `${r.provider.info.id} (${r.query.city})`).join(', ')}`);
+    const startTime = Date.now();
+
     const allEvents: Event[] = [];
-    const responses: Array<{name: string, status: 'fulfilled' | 'rejected', value?: any, reason?: any}> = [];
-    let completedCount = 0;
-    
-    // Process requests as they complete
-    const processResponse = async (apiRequest: typeof apiRequests[0], index: number) => {
+    const eventCounts: Record<string, number> = {};
+
+    const processRequest = async (providerRequest: typeof providerRequests[0]) => {
       const requestStartTime = Date.now();
-      console.log(`🚀 Starting request for ${apiRequest.name}...`);
-      
+
       try {
-        const response = await apiRequest.promise;
-        const requestTime = Date.now() - requestStartTime;
-        console.log(`📡 ${apiRequest.name}: Response received in ${requestTime}ms, status: ${response.status}`);
-        
-        responses[index] = { name: apiRequest.name, status: 'fulfilled', value: response };
-        
-        // Process the response immediately
-        if (response.ok) {
-          const events = await this.extractEventsFromResponse(response, apiRequest.name);
-          
-          // For impact city events, mark them with metadata for conflict scoring
-          if (apiRequest.metadata) {
-            const metadata = apiRequest.metadata;
-            events.forEach(event => {
-              // Mark events from nearby cities with impact metadata
-              (event as any).impactCityMetadata = {
-                sourceCity: metadata.source_city,
-                distance_km: metadata.distance_km,
-                impact_factor: metadata.impact_factor
-              };
-            });
-            console.log(`📍 ${apiRequest.name}: Added ${events.length} events from nearby city ${metadata.source_city} (impact factor: ${metadata.impact_factor.toFixed(2)})`);
-          }
-          
-          allEvents.push(...events);
-          console.log(`✅ ${apiRequest.name}: Added ${events.length} events (total: ${allEvents.length})`);
-        } else {
-          console.warn(`❌ ${apiRequest.name}: HTTP error ${response.status}`);
+        const events = await eventProviderRegistry.fetchFromProvider(providerRequest.provider, providerRequest.query);
+
+        // For impact city events, mark them with metadata for conflict scoring
+        if (providerRequest.metadata) {
+          const metadata = providerRequest.metadata;
+          events.forEach(event => {
+            (event as any).impactCityMetadata = {
+              sourceCity: metadata.source_city,
+              distance_km: metadata.distance_km,
+              impact_factor: metadata.impact_factor
+            };
+          });
+          console.log(`📍 ${providerRequest.name}: Added ${events.length} events from nearby city ${metadata.source_city} (impact factor: ${metadata.impact_factor.toFixed(2)})`);
         }
+
+        allEvents.push(...events);
+        const providerId = providerRequest.provider.info.id;
+        eventCounts[providerId] = (eventCounts[providerId] || 0) + events.length;
+        console.log(`✅ ${providerRequest.name}: Added ${events.length} events in ${Date.now() - requestStartTime}ms (total: ${allEvents.length})`);
+        emit({ type: 'provider-fetched', provider: providerRequest.name, status: 'ok', eventCount: events.length, durationMs: Date.now() - requestStartTime });
       } catch (error) {
         const requestTime = Date.now() - requestStartTime;
-        responses[index] = { name: apiRequest.name, status: 'rejected', reason: error };
-        
-        if (error instanceof Error && error.name === 'AbortError') {
-          console.warn(`⏰ ${apiRequest.name}: Request timed out after ${requestTime}ms`);
+        const timedOut = error instanceof EventProviderTimeoutError;
+
+        if (timedOut) {
+          console.warn(`⏰ ${providerRequest.name}: Request timed out after ${requestTime}ms`);
         } else {
-          console.warn(`⚠️ ${apiRequest.name}: Request failed after ${requestTime}ms:`, error);
+          console.warn(`⚠️ ${providerRequest.name}: Request failed after ${requestTime}ms:`, error);
         }
+        emit({ type: 'provider-fetched', provider: providerRequest.name, status: timedOut ? 'timeout' : 'error', eventCount: 0, durationMs: requestTime });
       }
-      
-      completedCount++;
-      return false;
     };
 
-    // Process all requests in parallel
-    const racePromises = apiRequests.map((req, idx) => processResponse(req, idx));
-    
-    // Wait for all requests to complete
-    try {
-      await Promise.allSettled(racePromises);
-    } catch (error) {
-      console.warn('Error in parallel request processing:', error);
-    }
-
-    // Create legacy response format for compatibility
-    // Note: PredictHQ is disabled, so responses array has 3 items instead of 4
-    const [ticketmasterResponse, brnoResponse, scrapedResponse] = responses;
-    const predicthqResponse = { name: 'predicthq', status: 'fulfilled' as const, value: { success: true, data: { events: [], total: 0, source: 'predicthq' } } };
+    // Process all requests in parallel; failures are reported per provider
+    await Promise.allSettled(providerRequests.map(processRequest));
 
     const totalFetchTime = Date.now() - startTime;
     console.log(`🚀 API requests completed in ${totalFetchTime}ms`);
@@ -1112,6 +973,13 @@ export class ConflictAnalysisService {
     console.log(`📊 Events after semantic deduplication: ${uniqueEvents.length}`);
     console.log(`📊 Duplicates removed: ${deduplicationResult.duplicatesRemoved}`);
     console.log(`⏱️ Deduplication took ${deduplicationResult.processingTimeMs}ms`);
+    emit({
+      type: 'events-deduplicated',
+      fetched: allEvents.length,
+      afterLocationFilter: locationFilteredEvents.length,
+      unique: uniqueEvents.length,
+      duplicatesRemoved: deduplicationResult.duplicatesRemoved
+    });
 
     // Log search strategy summary
     console.log(`🎯 SEARCH SUMMARY:`);
@@ -1123,20 +991,8 @@ export class ConflictAnalysisService {
     console.log(`  - Geographic Filtering: Strict city-based filtering enabled`);
     console.log(`  - Category Filtering: Applied at API level and post-processing`);
 
-    // Update USP data with event counts from different sources
+    // Update USP data with the number of events each provider returned
     try {
-      const eventCounts: Record<string, number> = {};
-      
-      // Count events by source (you might need to add source tracking to events)
-      // For now, we'll estimate based on the total events and known sources
-      const activeSources = ['ticketmaster', 'brno-local']; // PredictHQ disabled
-      const eventsPerSource = Math.floor(uniqueEvents.length / activeSources.length);
-      
-      activeSources.forEach(sourceId => {
-        eventCounts[sourceId] = eventsPerSource;
-      });
-      
-      // Update USP data
       await USPUpdater.updateMultipleEventCounts(eventCounts);
     } catch (error) {
       console.error('Failed to update USP data:', error);
@@ -1160,13 +1016,17 @@ export class ConflictAnalysisService {
    */
   private async generateDateRecommendationsOptimized(
     params: ConflictAnalysisParams,
-    events: Event[]
+    events: Event[],
+    eventIndex: EventIndex,
+    emit: ProgressEmitter = () => {}
   ): Promise<DateRecommendation[]> {
     const recommendations: DateRecommendation[] = [];
     
     // Generate potential dates around the preferred dates
     const potentialDates = await this.generatePotentialDates(params);
     console.log(`Generated ${potentialDates.length} potential date ranges to analyze`);
+    let scoredCount = 0;
+    emit({ type: 'dates-scored', scored: 0, total: potentialDates.length });
     
     // Process dates in parallel for better performance
     const datePromises = potentialDates.map(async (dateRange, index) => {
@@ -1177,7 +1037,8 @@ export class ConflictAnalysisService {
       let competingEvents = await this.findCompetingEventsOptimized(
         dateRange.startDate,
         dateRange.endDate,
-        params
+        params,
+        eventIndex
       );
 
       // FIXED: Don't calculate conflict score yet - wait until after Perplexity events are added
@@ -1193,14 +1054,16 @@ export class ConflictAnalysisService {
           dateRange.startDate,
           params.category,
           params.subcategory,
-          'CZ'
+          'CZ',
+          params.city
         );
         
         const holidayImpact = await holidayConflictDetector.getHolidayImpact(
           dateRange.startDate,
           params.category,
           params.subcategory,
-          'CZ'
+          'CZ',
+          params.city
         );
         
         seasonalFactors = {
@@ -1236,7 +1099,7 @@ export class ConflictAnalysisService {
       const severityLevel = this.determineSeverityLevel(competingEvents.length);
       const config = this.severityConfigs[severityLevel];
 
-      let conflictScore = await this.calculateConflictScoreOptimized(
+      const { score: conflictScore, breakdown: scoreBreakdown } = await this.calculateConflictScoreWithBreakdown(
         competingEvents,
         params.expectedAttendees,
         params.category,
@@ -1263,6 +1126,7 @@ export class ConflictAnalysisService {
 
       const dateTime = Date.now() - dateStartTime;
       console.log(`✅ Date range ${index + 1} analyzed in ${dateTime}ms (Score: ${conflictScore}, Risk: ${riskLevel}, Events: ${competingEvents.length})`);
+      emit({ type: 'dates-scored', scored: ++scoredCount, total: potentialDates.length });
 
       return {
         startDate: dateRange.startDate,
@@ -1275,13 +1139,15 @@ export class ConflictAnalysisService {
         holidayRestrictions: dateRange.holidayRestrictions,
         seasonalFactors,
         // Perplexity research will be added in batch pass
-        perplexityResearch: undefined
+        perplexityResearch: undefined,
+        scoreBreakdown
       };
     });
 
     // Wait for all date analyses to complete (first pass - without Perplexity for most dates)
     const results = await Promise.all(datePromises);
     recommendations.push(...results);
+    emit({ type: 'partial-recommendations', recommendations: toPartialRecommendations(recommendations) });
 
     // OPTIMIZATION: Batch Perplexity research - Call once for all prioritized dates
     // This reduces API calls from N calls to 1 call, significantly reducing costs
@@ -1366,6 +1232,7 @@ export class ConflictAnalysisService {
       
       if (datesForPerplexity.length > 0) {
         console.log(`🔍 Perplexity Batch: Calling for ${datesForPerplexity.length} date ranges in a single API call (preferred: ${preferredRec ? 1 : 0}, high-risk: ${highRiskFutureDates.length}, recommended: ${recommendedDatesForPerplexity.length})`);
+        emit({ type: 'perplexity', status: 'started', dateCount: datesForPerplexity.length });
         
         try {
           // Call batch research method - single API call for all dates
@@ -1413,7 +1280,7 @@ export class ConflictAnalysisService {
                   r.startDate === rec.startDate && r.endDate === rec.endDate
                 );
                 
-                const updatedConflictScore = await this.calculateConflictScoreOptimized(
+                const { score: updatedConflictScore, breakdown: updatedBreakdown } = await this.calculateConflictScoreWithBreakdown(
                   rec.competingEvents,
                   params.expectedAttendees,
                   params.category,
@@ -1424,6 +1291,7 @@ export class ConflictAnalysisService {
                 
                 // Update conflict score and risk level
                 rec.conflictScore = updatedConflictScore;
+                rec.scoreBreakdown = updatedBreakdown;
                 rec.riskLevel = this.determineRiskLevel(updatedConflictScore);
                 rec.reasons = this.generateReasons(rec.competingEvents, updatedConflictScore);
                 
@@ -1436,8 +1304,12 @@ export class ConflictAnalysisService {
           }
           
           console.log(`✅ Perplexity Batch: Completed analysis for ${datesForPerplexity.length} date ranges from single API call`);
+          emit({ type: 'perplexity', status: 'completed', dateCount: datesForPerplexity.length });
+          // Perplexity events may have changed scores
+          emit({ type: 'partial-recommendations', recommendations: toPartialRecommendations(recommendations) });
         } catch (error) {
           console.warn('Perplexity batch research failed:', error);
+          emit({ type: 'perplexity', status: 'failed', dateCount: datesForPerplexity.length });
           // Continue without Perplexity research - don't break analysis
         }
       }
@@ -1453,7 +1325,8 @@ export class ConflictAnalysisService {
    */
   private async extractAndAnalyzePerplexityRecommendedDates(
     existingRecommendations: DateRecommendation[],
-    params: ConflictAnalysisParams
+    params: ConflictAnalysisParams,
+    eventIndex: EventIndex
   ): Promise<DateRecommendation[]> {
     if (!params.enablePerplexityResearch) {
       return [];
@@ -1506,7 +1379,8 @@ export class ConflictAnalysisService {
         const competingEvents = await this.findCompetingEventsOptimized(
           startDate,
           endDate,
-          params
+          params,
+          eventIndex
         );
         
         // Get Perplexity research for this date
@@ -1547,14 +1421,14 @@ export class ConflictAnalysisService {
         let holidayRestrictions;
         if (holidayConfig) {
           try {
-            const holidayCheck = await holidayService.checkDateAvailability(startDate, holidayConfig);
+            const holidayCheck = await holidayService.checkDateAvailability(startDate, holidayConfig, params.organisationId);
             holidayRestrictions = holidayCheck.restrictions;
           } catch (error) {
             console.warn('Failed to check holiday restrictions for Perplexity-recommended date:', error);
           }
         }
         
-        const conflictScore = await this.calculateConflictScoreOptimized(
+        const { score: conflictScore, breakdown: scoreBreakdown } = await this.calculateConflictScoreWithBreakdown(
           competingEvents,
           params.expectedAttendees,
           params.category,
@@ -1573,14 +1447,16 @@ export class ConflictAnalysisService {
             startDate,
             params.category,
             params.subcategory,
-            'CZ'
+            'CZ',
+            params.city
           );
           
           const holidayImpact = await holidayConflictDetector.getHolidayImpact(
             startDate,
             params.category,
             params.subcategory,
-            'CZ'
+            'CZ',
+            params.city
           );
           
           seasonalFactors = {
@@ -1624,7 +1500,8 @@ export class ConflictAnalysisService {
           audienceOverlap,
           holidayRestrictions,
           seasonalFactors,
-          perplexityResearch: perplexityResearch ?? undefined
+          perplexityResearch: perplexityResearch ?? undefined,
+          scoreBreakdown
         } as DateRecommendation;
       } catch (error) {
         console.warn(`Failed to analyze Perplexity-recommended date ${dateStr}:`, error);
@@ -1740,7 +1617,7 @@ export class ConflictAnalysisService {
     // Check holiday restrictions for preferred date
     if (holidayConfig) {
       try {
-        const holidayCheck = await holidayService.checkDateAvailability(params.startDate, holidayConfig);
+        const holidayCheck = await holidayService.checkDateAvailability(params.startDate, holidayConfig, params.organisationId);
         preferredDateInfo.holidayRestrictions = holidayCheck.restrictions;
       } catch (error) {
         console.warn('Failed to check holiday restrictions for preferred date:', error);
@@ -1771,7 +1648,7 @@ export class ConflictAnalysisService {
         // Check holiday restrictions for this date
         if (holidayConfig) {
           try {
-            const holidayCheck = await holidayService.checkDateAvailability(dateInfo.startDate, holidayConfig);
+            const holidayCheck = await holidayService.checkDateAvailability(dateInfo.startDate, holidayConfig, params.organisationId);
             dateInfo.holidayRestrictions = holidayCheck.restrictions;
           } catch (error) {
             console.warn(`Failed to check holiday restrictions for ${dateInfo.startDate}:`, error);
@@ -1812,7 +1689,7 @@ export class ConflictAnalysisService {
           // Check holiday restrictions for this date
           if (holidayConfig) {
             try {
-              const holidayCheck = await holidayService.checkDateAvailability(dateStr.startDate, holidayConfig);
+              const holidayCheck = await holidayService.checkDateAvailability(dateStr.startDate, holidayConfig, params.organisationId);
               dateStr.holidayRestrictions = holidayCheck.restrictions;
             } catch (error) {
               console.warn(`Failed to check holiday restrictions for ${dateStr.startDate}:`, error);
@@ -1829,41 +1706,16 @@ export class ConflictAnalysisService {
   }
 
   /**
-   * Get holiday configuration for a specific city
+   * Get holiday configuration for a specific city; its country and region
+   * come from the city database
    */
   private async getHolidayConfigForCity(city: string): Promise<HolidayServiceConfig | null> {
     try {
-      // Map city names to country codes and regions
-      const cityMapping: Record<string, { country: string; region?: string }> = {
-        'Prague': { country: 'CZE', region: 'CZ-PR' },
-        'Praha': { country: 'CZE', region: 'CZ-PR' },
-        'Brno': { country: 'CZE', region: 'CZ-JM' },
-        'Ostrava': { country: 'CZE', region: 'CZ-MO' },
-        'Plzen': { country: 'CZE', region: 'CZ-PL' },
-        'Plzeň': { country: 'CZE', region: 'CZ-PL' },
-        'Liberec': { country: 'CZE', region: 'CZ-LI' },
-        'Olomouc': { country: 'CZE', region: 'CZ-OL' },
-        'České Budějovice': { country: 'CZE', region: 'CZ-SO' },
-        'Hradec Králové': { country: 'CZE', region: 'CZ-KR' },
-        'Pardubice': { country: 'CZE', region: 'CZ-PA' },
-        'Zlín': { country: 'CZE', region: 'CZ-ZL' },
-        'Karlovy Vary': { country: 'CZE', region: 'CZ-KA' },
-        'Ústí nad Labem': { country: 'CZE', region: 'CZ-US' },
-        'Jihlava': { country: 'CZE', region: 'CZ-VY' }
-      };
-
-      const mapping = cityMapping[city];
-      if (!mapping) {
+      const config = await holidayService.getHolidayConfigForCity(city);
+      if (!config) {
         console.log(`No holiday configuration found for city: ${city}`);
-        return null;
       }
-
-      return {
-        country_code: mapping.country,
-        region_code: mapping.region,
-        include_cultural_events: true,
-        business_impact_threshold: 'partial'
-      };
+      return config;
     } catch (error) {
       console.error('Error getting holiday configuration for city:', error);
       return null;
@@ -1877,13 +1729,9 @@ export class ConflictAnalysisService {
   private async findCompetingEventsOptimized(
     startDate: string,
     endDate: string,
-    params: ConflictAnalysisParams
+    params: ConflictAnalysisParams,
+    eventIndex: EventIndex
   ): Promise<Event[]> {
-    if (!this.eventIndex) {
-      console.warn('Event index not available, falling back to legacy method');
-      return [];
-    }
-
     const startTime = Date.now();
     const start = new Date(startDate);
     const end = new Date(endDate);
@@ -1907,7 +1755,7 @@ export class ConflictAnalysisService {
     
     // Find events by date using the index
     for (const date of datesInExtendedRange) {
-      const eventsOnDate = this.eventIndex.byDate.get(date);
+      const eventsOnDate = eventIndex.byDate.get(date);
       if (eventsOnDate) {
         for (const eventId of eventsOnDate) {
           competingEventIds.add(eventId);
@@ -1948,7 +1796,7 @@ export class ConflictAnalysisService {
     };
 
     for (const eventId of competingEventIds) {
-      const event = this.eventIndex.events.get(eventId);
+      const event = eventIndex.events.get(eventId);
       if (!event) continue;
       
       // Check if the event occurs within the extended temporal window
@@ -2126,9 +1974,9 @@ export class ConflictAnalysisService {
         for (const [eventId, result] of relevanceResults) {
           llmRelevanceResults.set(eventId, result.isRelevant);
           if (!result.isRelevant) {
-            console.log(`❌ LLM filtered out "${this.eventIndex?.events.get(eventId)?.title}": ${result.reasoning.join('; ')}`);
+            console.log(`❌ LLM filtered out "${eventIndex.events.get(eventId)?.title}": ${result.reasoning.join('; ')}`);
           } else {
-            console.log(`✅ LLM approved "${this.eventIndex?.events.get(eventId)?.title}": ${result.reasoning.join('; ')}`);
+            console.log(`✅ LLM approved "${eventIndex.events.get(eventId)?.title}": ${result.reasoning.join('; ')}`);
           }
         }
       } catch (error) {
@@ -2211,7 +2059,7 @@ export class ConflictAnalysisService {
     // Convert event IDs back to Event objects
     const competingEvents: Event[] = [];
     for (const eventId of filteredEventIds) {
-      const event = this.eventIndex.events.get(eventId);
+      const event = eventIndex.events.get(eventId);
       if (event) {
         competingEvents.push(event);
       }
@@ -2293,9 +2141,40 @@ export class ConflictAnalysisService {
     config: ConflictSeverityConfig,
     holidayRestrictions?: any
   ): Promise<number> {
+    const { score } = await this.calculateConflictScoreWithBreakdown(
+      competingEvents,
+      expectedAttendees,
+      category,
+      params,
+      config,
+      holidayRestrictions
+    );
+    return score;
+  }
+
+  /**
+   * Calculate conflict score together with the breakdown that explains it.
+   * A Web Worker scores the events of busy dates; the breakdown is then built
+   * from the contributions it returns.
+   */
+  private async calculateConflictScoreWithBreakdown(
+    competingEvents: Event[],
+    expectedAttendees: number,
+    category: string,
+    params: ConflictAnalysisParams,
+    config: ConflictSeverityConfig,
+    holidayRestrictions?: any
+  ): Promise<{ score: number; breakdown: ConflictScoreBreakdown }> {
     if (competingEvents.length === 0) {
       console.log('No competing events, score = 0');
-      return 0;
+      // Holiday penalties are only applied on top of competing events
+      const breakdown = conflictScoreBreakdownBuilder.build({
+        contributions: [],
+        unscoredEvents: 0,
+        audienceScalingFactor: 1,
+        expectedAttendees: 0
+      });
+      return { score: 0, breakdown };
     }
 
     const startTime = Date.now();
@@ -2308,30 +2187,45 @@ export class ConflictAnalysisService {
     // OPTIMIZED: Increased threshold to 50 for better performance on small datasets
     if (competingEvents.length > 50) {
       try {
-        const workerResult = await this.executeInWorker<{score: number, processingTime: number, eventsProcessed: number}>(
+        const weights = scoringWeightCalculator.resolve(params.scoringWeights);
+        const workerResult = await this.executeInWorker<ConflictCalculationOutput | null>(
           'calculateConflictScore',
           {
             competingEvents,
             expectedAttendees,
             category,
-            config
+            plannedSubcategory: params.subcategory,
+            config,
+            weights
           },
-          async () => {
-            const score = await this.calculateConflictScoreFallback(competingEvents, expectedAttendees, category, config);
-            return { score, processingTime: 0, eventsProcessed: competingEvents.length };
-          }
+          // Without a worker the events are scored on the main thread below
+          async () => null
         );
 
-        const totalTime = Date.now() - startTime;
-        console.log(`✅ Web Worker conflict score calculation completed in ${totalTime}ms: ${workerResult.score}`);
-        return workerResult.score;
+        if (workerResult) {
+          // The worker cannot reach the database, so the holiday restrictions
+          // and audience scaling are applied here, as on the main thread
+          const breakdown = conflictScoreBreakdownBuilder.build({
+            contributions: workerResult.contributions,
+            unscoredEvents: workerResult.unscoredEvents,
+            audienceScalingFactor: this.calculateAudienceScalingFactor(expectedAttendees, competingEvents),
+            expectedAttendees,
+            holidayRestrictions,
+            weights
+          });
+
+          const totalTime = Date.now() - startTime;
+          console.log(`✅ Web Worker conflict score calculation completed in ${totalTime}ms: ${breakdown.finalScore}`);
+          return { score: breakdown.finalScore, breakdown };
+        }
       } catch (error) {
         console.warn('Web Worker failed, falling back to main thread:', error);
       }
     }
 
     // Fallback to main thread calculation
-    return await this.calculateConflictScoreFallback(competingEvents, expectedAttendees, category, config, params, holidayRestrictions);
+    const breakdown = await this.calculateConflictScoreFallback(competingEvents, expectedAttendees, category, config, params, holidayRestrictions);
+    return { score: breakdown.finalScore, breakdown };
   }
 
   /**
@@ -2343,10 +2237,12 @@ export class ConflictAnalysisService {
     category: string,
     config: ConflictSeverityConfig,
     params?: ConflictAnalysisParams,
-    holidayRestrictions?: any
-  ): Promise<number> {
+    holidayRestrictions?: any,
+    weights: ScoringWeights = scoringWeightCalculator.resolve(params?.scoringWeights)
+  ): Promise<ConflictScoreBreakdown> {
     const startTime = Date.now();
-    let score = 0;
+    const contributions: ConflictEventContribution[] = [];
+    const weightsKey = scoringWeightCalculator.cacheKey(weights);
     // OPTIMIZED: Reduced logging in production
     if (process.env.NODE_ENV !== 'production') {
       console.log(`🔄 Using main thread for conflict score calculation`);
@@ -2368,182 +2264,172 @@ export class ConflictAnalysisService {
 
     // Process events with caching
     for (const { event } of sortedEvents) {
-      let eventScore = 0;
-      
       // Check cache first
-      const cachedScore = this.getCachedConflictScore('planned', event.id, config);
+      const cachedContribution = this.getCachedContribution('planned', event.id, config, weightsKey);
       
-      if (cachedScore !== null) {
-        eventScore = cachedScore;
-        console.log(`  "${event.title}": cached score = ${eventScore}`);
+      if (cachedContribution !== null) {
+        contributions.push(cachedContribution);
+        console.log(`  "${event.title}": cached score = ${cachedContribution.score}`);
+        continue;
+      }
+
+      // Calculate score using optimized algorithm
+      const { components, durationMultiplier } = this.calculateEventConflictComponents(event, category, config, params?.subcategory, weights);
+      let eventScore = Object.values(components).reduce((sum, points) => sum + points, 0) * durationMultiplier;
+      
+      // Apply temporal proximity multiplier
+      // Events on the date have full impact, events before/after have reduced impact
+      const temporalProximity: ConflictEventContribution['temporalProximity'] = (event as any).temporalProximity || 'on_date';
+      let temporalMultiplier = 1.0;
+      if (temporalProximity === 'before') {
+        // Events before can reduce budget/availability, but less impact than on-date
+        temporalMultiplier = 0.6; // 60% impact
+      } else if (temporalProximity === 'after') {
+        // Events after can reduce attendance, but less impact than on-date
+        temporalMultiplier = 0.7; // 70% impact
       } else {
-        // Calculate score using optimized algorithm
-        eventScore = this.calculateEventConflictScore(event, category, config, params?.subcategory);
+        // Events on the date have full impact
+        temporalMultiplier = 1.0; // 100% impact
+      }
+      eventScore *= temporalMultiplier;
+      if (temporalProximity !== 'on_date') {
+        console.log(`  "${event.title}": temporal proximity ${temporalProximity} -> multiplier ${temporalMultiplier.toFixed(2)}x -> adjusted score = ${eventScore.toFixed(2)}`);
+      }
+      
+      // Apply seasonal and holiday multipliers before audience overlap
+      let seasonalMultiplierValue = 1;
+      let holidayMultiplierValue = 1;
+      try {
+        const seasonalMultiplier = await seasonalityEngine.getSeasonalMultiplier(
+          event.date,
+          event.category,
+          event.subcategory || undefined,
+          'CZ', // Default to Czech Republic
+          event.city
+        );
         
-        // Apply temporal proximity multiplier
-        // Events on the date have full impact, events before/after have reduced impact
-        const temporalProximity = (event as any).temporalProximity || 'on_date';
-        let temporalMultiplier = 1.0;
-        if (temporalProximity === 'before') {
-          // Events before can reduce budget/availability, but less impact than on-date
-          temporalMultiplier = 0.6; // 60% impact
-        } else if (temporalProximity === 'after') {
-          // Events after can reduce attendance, but less impact than on-date
-          temporalMultiplier = 0.7; // 70% impact
-        } else {
-          // Events on the date have full impact
-          temporalMultiplier = 1.0; // 100% impact
-        }
-        eventScore *= temporalMultiplier;
-        if (temporalProximity !== 'on_date') {
-          console.log(`  "${event.title}": temporal proximity ${temporalProximity} -> multiplier ${temporalMultiplier.toFixed(2)}x -> adjusted score = ${eventScore.toFixed(2)}`);
-        }
+        const holidayMultiplier = await holidayConflictDetector.getHolidayMultiplier(
+          event.date,
+          event.category,
+          event.subcategory || undefined,
+          'CZ', // Default to Czech Republic
+          event.city
+        );
         
-        // Note: Duration multiplier is already applied inside calculateEventConflictScore()
-        // No need to apply it again here to avoid double multiplication
+        // Apply multipliers to base score, scaled by the seasonality weight
+        seasonalMultiplierValue = scoringWeightCalculator.scaleMultiplier(seasonalMultiplier.multiplier, weights.seasonality);
+        holidayMultiplierValue = scoringWeightCalculator.scaleMultiplier(holidayMultiplier, weights.seasonality);
+        eventScore = eventScore * seasonalMultiplierValue * holidayMultiplierValue;
         
-        // Apply seasonal and holiday multipliers before audience overlap
+        console.log(`  "${event.title}": seasonal ${seasonalMultiplierValue.toFixed(2)}x, holiday ${holidayMultiplierValue.toFixed(2)}x -> adjusted score = ${eventScore.toFixed(2)}`);
+      } catch (seasonalityError) {
+        console.warn(`  "${event.title}": seasonality analysis failed, using base score:`, seasonalityError);
+        // Continue with base score if seasonality analysis fails
+      }
+      
+      // Apply audience overlap analysis if enabled and available
+      let audienceOverlap: number | null = null;
+      let audienceOverlapMultiplier = 1;
+      if (params?.enableAdvancedAnalysis) {
+        // Create a mock event for the user's planned event
+        const plannedEvent: Event = {
+          id: 'planned_event',
+          title: 'Planned Event',
+          date: params.startDate,
+          city: params.city,
+          category: params.category,
+          subcategory: params.subcategory,
+          expectedAttendees: params.expectedAttendees,
+          source: 'manual',
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString()
+        };
+
+        // Calculate audience overlap with longer timeout and fallback logic
         try {
-          const seasonalMultiplier = await seasonalityEngine.getSeasonalMultiplier(
-            event.date,
-            event.category,
-            event.subcategory || undefined,
-            'CZ' // Default to Czech Republic
+          const overlap = await Promise.race([
+            openaiAudienceOverlapService.isAvailable()
+              ? openaiAudienceOverlapService.predictAudienceOverlap(plannedEvent, event)
+              : audienceOverlapService.predictAudienceOverlap(plannedEvent, event),
+            new Promise((_, reject) => 
+              setTimeout(() => reject(new Error('Audience overlap analysis timeout')), 10000) // Increased to 10 seconds
+            )
+          ]) as any;
+
+          // Apply audience overlap multiplier with improved logic
+          const overlapMultiplier = scoringWeightCalculator.scaleMultiplier(
+            this.calculateAudienceOverlapMultiplier(overlap.overlapScore, event.category, category),
+            weights.audienceOverlap
           );
-          
-          const holidayMultiplier = await holidayConflictDetector.getHolidayMultiplier(
-            event.date,
-            event.category,
-            event.subcategory || undefined,
-            'CZ' // Default to Czech Republic
+          eventScore *= overlapMultiplier;
+          audienceOverlap = overlap.overlapScore;
+          audienceOverlapMultiplier = overlapMultiplier;
+          console.log(`  "${event.title}": audience overlap ${(overlap.overlapScore * 100).toFixed(1)}% -> multiplier ${overlapMultiplier.toFixed(2)} (${openaiAudienceOverlapService.isAvailable() ? 'AI-powered' : 'rule-based'})`);
+        } catch (overlapError) {
+          // Fallback: Use conservative overlap estimation based on category similarity
+          const fallbackOverlap = this.estimateOverlapFromCategories(event.category, category);
+          const overlapMultiplier = scoringWeightCalculator.scaleMultiplier(
+            this.calculateAudienceOverlapMultiplier(fallbackOverlap, event.category, category),
+            weights.audienceOverlap
           );
-          
-          // Apply multipliers to base score
-          eventScore = eventScore * seasonalMultiplier.multiplier * holidayMultiplier;
-          
-          console.log(`  "${event.title}": seasonal ${seasonalMultiplier.multiplier.toFixed(2)}x, holiday ${holidayMultiplier.toFixed(2)}x -> adjusted score = ${eventScore.toFixed(2)}`);
-        } catch (seasonalityError) {
-          console.warn(`  "${event.title}": seasonality analysis failed, using base score:`, seasonalityError);
-          // Continue with base score if seasonality analysis fails
-        }
-        
-        // Apply audience overlap analysis if enabled and available
-        if (params?.enableAdvancedAnalysis) {
-          // Create a mock event for the user's planned event
-          const plannedEvent: Event = {
-            id: 'planned_event',
-            title: 'Planned Event',
-            date: params.startDate,
-            city: params.city,
-            category: params.category,
-            subcategory: params.subcategory,
-            expectedAttendees: params.expectedAttendees,
-            source: 'manual',
-            createdAt: new Date().toISOString(),
-            updatedAt: new Date().toISOString()
-          };
-
-          // Calculate audience overlap with longer timeout and fallback logic
-          try {
-            const overlap = await Promise.race([
-              openaiAudienceOverlapService.isAvailable()
-                ? openaiAudienceOverlapService.predictAudienceOverlap(plannedEvent, event)
-                : audienceOverlapService.predictAudienceOverlap(plannedEvent, event),
-              new Promise((_, reject) => 
-                setTimeout(() => reject(new Error('Audience overlap analysis timeout')), 10000) // Increased to 10 seconds
-              )
-            ]) as any;
-
-            // Apply audience overlap multiplier with improved logic
-            const overlapMultiplier = this.calculateAudienceOverlapMultiplier(overlap.overlapScore, event.category, category);
-            eventScore *= overlapMultiplier;
-            console.log(`  "${event.title}": audience overlap ${(overlap.overlapScore * 100).toFixed(1)}% -> multiplier ${overlapMultiplier.toFixed(2)} (${openaiAudienceOverlapService.isAvailable() ? 'AI-powered' : 'rule-based'})`);
-          } catch (overlapError) {
-            // Fallback: Use conservative overlap estimation based on category similarity
-            const fallbackOverlap = this.estimateOverlapFromCategories(event.category, category);
-            const overlapMultiplier = this.calculateAudienceOverlapMultiplier(fallbackOverlap, event.category, category);
-            eventScore *= overlapMultiplier;
-            console.log(`  "${event.title}": audience overlap analysis failed, using fallback estimation ${(fallbackOverlap * 100).toFixed(1)}% -> multiplier ${overlapMultiplier.toFixed(2)}`);
-          }
+          eventScore *= overlapMultiplier;
+          audienceOverlap = fallbackOverlap;
+          audienceOverlapMultiplier = overlapMultiplier;
+          console.log(`  "${event.title}": audience overlap analysis failed, using fallback estimation ${(fallbackOverlap * 100).toFixed(1)}% -> multiplier ${overlapMultiplier.toFixed(2)}`);
         }
-        
-        // Cache the result
-        this.setCachedConflictScore('planned', event.id, config, eventScore);
-        console.log(`  "${event.title}": final calculated score = ${eventScore}`);
       }
       
-      score += eventScore;
-    }
+      // Events from nearby cities (small city analysis) count with the distance weight
+      const distanceMultiplier = (event as any).impactCityMetadata ? weights.distance : 1;
+      eventScore *= distanceMultiplier;
+
+      const contribution: ConflictEventContribution = {
+        eventId: event.id,
+        title: event.title,
+        date: event.date,
+        category: event.category,
+        subcategory: event.subcategory,
+        venue: event.venue,
+        components,
+        durationMultiplier,
+        temporalProximity,
+        temporalMultiplier,
+        seasonalMultiplier: seasonalMultiplierValue,
+        holidayMultiplier: holidayMultiplierValue,
+        audienceOverlap,
+        audienceOverlapMultiplier,
+        distanceMultiplier,
+        score: eventScore
+      };
 
-    // Add base score for remaining events (not processed in detail for performance)
-    const remainingEvents = competingEvents.length - sortedEvents.length;
-    if (remainingEvents > 0) {
-      const remainingScore = remainingEvents * 2; // Further reduced base score for unprocessed events
-      score += remainingScore;
-      console.log(`Added base score for ${remainingEvents} remaining events: +${remainingScore}`);
+      // Cache the result
+      this.setCachedContribution('planned', event.id, config, contribution, weightsKey);
+      console.log(`  "${event.title}": final calculated score = ${eventScore}`);
+      contributions.push(contribution);
     }
 
-    console.log(`Base score before attendee adjustment: ${score}`);
+    // Remaining events (not processed in detail for performance) get a flat base score
+    const remainingEvents = competingEvents.length - sortedEvents.length;
 
     // Apply proportional scaling based on audience size and overlap
     // Smaller events should have proportionally lower conflict scores
     const audienceScalingFactor = this.calculateAudienceScalingFactor(expectedAttendees, competingEvents);
-    score *= audienceScalingFactor;
-    console.log(`Audience scaling factor: ${audienceScalingFactor.toFixed(2)} (${expectedAttendees} attendees) -> adjusted score: ${score}`);
 
-    // Adjust based on expected attendees (larger events are more affected by conflicts)
-    if (expectedAttendees > 1000) {
-      score *= 1.1; // Reduced from 1.05 to 1.1
-      console.log(`Large event (${expectedAttendees} attendees): score *= 1.1 = ${score}`);
-    } else if (expectedAttendees > 500) {
-      score *= 1.05; // Reduced from 1.05 to 1.05
-      console.log(`Medium event (${expectedAttendees} attendees): score *= 1.05 = ${score}`);
-    }
-
-    // Apply holiday restrictions penalty
-    if (holidayRestrictions) {
-      const holidayPenalty = this.calculateHolidayPenalty(holidayRestrictions);
-      score += holidayPenalty;
-      console.log(`Holiday restrictions penalty: +${holidayPenalty} -> adjusted score: ${score}`);
-    }
+    // The builder applies the planned event size multiplier, the holiday
+    // restrictions penalty and the cap, recording each step
+    const breakdown = conflictScoreBreakdownBuilder.build({
+      contributions,
+      unscoredEvents: remainingEvents,
+      audienceScalingFactor,
+      expectedAttendees,
+      holidayRestrictions,
+      weights
+    });
+    console.log(`Remaining events: ${remainingEvents} (+${breakdown.unscoredEventsScore}), audience scaling ${audienceScalingFactor.toFixed(2)}, size multiplier ${breakdown.eventSizeMultiplier}, holiday penalty +${breakdown.holidayPenalty.total} -> ${breakdown.uncappedScore} (capped at ${MAX_CONFLICT_SCORE})`);
 
-    // Cap the score at 20 (adjusted for new scoring system)
-    const finalScore = Math.min(score, 20);
     const calculationTime = Date.now() - startTime;
-    console.log(`✅ Main thread conflict score calculation completed in ${calculationTime}ms: ${finalScore}`);
-    return finalScore;
-  }
-
-  /**
-   * Calculate holiday penalty based on restrictions
-   */
-  private calculateHolidayPenalty(holidayRestrictions: any): number {
-    if (!holidayRestrictions) return 0;
-
-    let penalty = 0;
-
-    // Full business closure penalty
-    if (holidayRestrictions.business_impact === 'full') {
-      penalty += 15; // High penalty for full closure
-    } else if (holidayRestrictions.business_impact === 'partial') {
-      penalty += 8; // Medium penalty for partial impact
-    }
-
-    // Venue closure penalty
-    if (holidayRestrictions.venue_closure_expected) {
-      penalty += 10; // High penalty for venue closure
-    }
-
-    // Holiday count penalty
-    const holidayCount = holidayRestrictions.holidays?.length || 0;
-    const culturalEventCount = holidayRestrictions.cultural_events?.length || 0;
-    
-    penalty += holidayCount * 3; // 3 points per public holiday
-    penalty += culturalEventCount * 1; // 1 point per cultural event
-
-    console.log(`Holiday penalty calculation: business_impact=${holidayRestrictions.business_impact}, venue_closure=${holidayRestrictions.venue_closure_expected}, holidays=${holidayCount}, cultural_events=${culturalEventCount} -> penalty=${penalty}`);
-
-    return penalty;
+    console.log(`✅ Main thread conflict score calculation completed in ${calculationTime}ms: ${breakdown.finalScore}`);
+    return breakdown;
   }
 
   /**
@@ -2579,36 +2465,45 @@ export class ConflictAnalysisService {
   }
 
   /**
-   * Calculate conflict score for a single event using optimized algorithm
+   * Score the parts of a single competing event using optimized algorithm.
+   * The event's score is the sum of the components times the duration multiplier.
    */
-  private calculateEventConflictScore(event: Event, category: string, config: ConflictSeverityConfig, plannedSubcategory?: string): number {
-    let eventScore = 0;
-    
-    // Base score for any competing event - increased to catch more events
-    eventScore += 5;
-    
-    // Smart category conflict scoring based on audience overlap
-    const categoryConflictScore = this.calculateCategoryConflictScore(
-      event.category, 
-      category,
-      event.subcategory,
-      plannedSubcategory
-    );
-    eventScore += categoryConflictScore;
+  private calculateEventConflictComponents(
+    event: Event,
+    category: string,
+    config: ConflictSeverityConfig,
+    plannedSubcategory?: string,
+    weights: ScoringWeights = scoringWeightCalculator.resolve()
+  ): { components: ConflictScoreComponents; durationMultiplier: number } {
+    const components: ConflictScoreComponents = {
+      // Base score for any competing event - increased to catch more events
+      base: 5,
+      // Smart category conflict scoring based on audience overlap
+      category: this.calculateCategoryConflictScore(
+        event.category, 
+        category,
+        event.subcategory,
+        plannedSubcategory
+      ) * weights.categoryMatch,
+      venue: 0,
+      promotion: 0,
+      attendance: 0,
+      depthBonus: 0
+    };
     
     // Higher score for events with venues (more significant) - increased
     if (event.venue) {
-      eventScore += 6;
+      components.venue = 6;
     }
     
     // Higher score for events with images (more professional/promoted) - increased
     if (event.imageUrl) {
-      eventScore += 3;
+      components.promotion += 3;
     }
     
     // Higher score for events with descriptions (more detailed/promoted) - increased
     if (event.description && event.description.length > 50) {
-      eventScore += 2;
+      components.promotion += 2;
     }
     
     // Higher score for events with expected attendees (indicates significant events)
@@ -2616,9 +2511,9 @@ export class ConflictAnalysisService {
     if (event.expectedAttendees && event.expectedAttendees > 100) {
       // For events with 1000+ attendees, add significant points
       if (event.expectedAttendees >= 1000) {
-        eventScore += Math.min(event.expectedAttendees / 50, 10); // Up to 10 points for very large events (1000+ = 20 points, 5000+ = 10 points)
+        components.attendance = Math.min(event.expectedAttendees / 50, 10); // Up to 10 points for very large events (1000+ = 20 points, 5000+ = 10 points)
       } else {
-        eventScore += Math.min(event.expectedAttendees / 100, 5); // Up to 5 points for medium events
+        components.attendance = Math.min(event.expectedAttendees / 100, 5); // Up to 5 points for medium events
       }
     }
     
@@ -2626,20 +2521,23 @@ export class ConflictAnalysisService {
     if (config.depth === 'deep') {
       // More detailed analysis for deep mode
       if (event.expectedAttendees && event.expectedAttendees > 500) {
-        eventScore += 3; // Increased for large events
+        components.depthBonus += 3; // Increased for large events
       }
       // Additional bonus for very large events (festivals)
       if (event.expectedAttendees && event.expectedAttendees >= 1000) {
-        eventScore += 5; // Extra points for major festivals
+        components.depthBonus += 5; // Extra points for major festivals
       }
     }
     
-    // Apply duration multiplier (longer events = higher conflict impact)
+    // Attendance-driven points follow the scoring profile's attendance weight
+    components.attendance *= weights.attendance;
+    components.depthBonus *= weights.attendance;
+    
+    // Duration multiplier (longer events = higher conflict impact)
     const eventDuration = this.calculateEventDuration(event);
     const durationMultiplier = this.getDurationMultiplier(eventDuration);
-    eventScore *= durationMultiplier;
     
-    return eventScore;
+    return { components, durationMultiplier };
   }
 
   /**
@@ -3090,42 +2988,6 @@ export class ConflictAnalysisService {
     return categoryExpansions[primaryCategory] || [primaryCategory];
   }
 
-  /**
-   * Get Ticketmaster-specific expanded categories
-   * FIXED: Uses correct Ticketmaster classification names
-   */
-  private getTicketmasterExpandedCategories(primaryCategory: string): string[] {
-    const ticketmasterExpansions: Record<string, string[]> = {
-      // FIXED: Entertainment - use correct Ticketmaster classifications
-      'Entertainment': ['Music', 'Arts & Theatre', 'Film'], // FIXED: Was ['Entertainment', 'Music', 'Arts & Culture', ...]
-      'Music': ['Music'],
-      'Arts & Culture': ['Arts & Theatre'], // FIXED: Map to correct classification
-      'Sports': ['Sports'],
-      'Film': ['Film'],
-      'Theater': ['Arts & Theatre'],
-      'Comedy': ['Arts & Theatre'],
-      'Dance': ['Arts & Theatre'],
-      'Opera': ['Arts & Theatre'],
-      
-      // FIXED: Business categories - use Miscellaneous
-      'Business': ['Miscellaneous'], // FIXED: Was ['Business', 'Marketing', ...]
-      'Technology': ['Miscellaneous'], // FIXED: Was ['Technology', 'Business', ...]
-      'Marketing': ['Miscellaneous'], // FIXED: Was ['Marketing', 'Business', ...]
-      'Finance': ['Miscellaneous'], // FIXED: Was ['Finance', 'Business']
-      'Healthcare': ['Miscellaneous'], // FIXED: Was ['Healthcare']
-      'Education': ['Miscellaneous'], // FIXED: Was ['Education', 'Academic', ...]
-      'Academic': ['Miscellaneous'], // FIXED: Was ['Academic']
-      'Professional Development': ['Miscellaneous'], // FIXED: Was ['Professional Development']
-      'Networking': ['Miscellaneous'], // FIXED: Was ['Networking', 'Business', ...]
-      'Conferences': ['Miscellaneous'], // FIXED: Was ['Conferences', 'Business', ...]
-      'Trade Shows': ['Miscellaneous'], // FIXED: Was ['Trade Shows', 'Business', ...]
-      'Workshops': ['Miscellaneous'], // FIXED: Was ['Workshops']
-      'Seminars': ['Miscellaneous'], // FIXED: Was ['Seminars']
-    };
-
-    return ticketmasterExpansions[primaryCategory] || [primaryCategory];
-  }
-
   /**
    * Check if an event is significant for conflict analysis using audience overlap
    */
@@ -4066,98 +3928,102 @@ export class ConflictAnalysisService {
 
 
   /**
-   * Extract events from API response (moved from inline processing for optimization)
+   * Score every possible schedule of a recurring series or multi-day block.
+   * Each occurrence is scored like a single date window (competing events
+   * within the temporal window plus holiday restrictions); schedules are
+   * ranked by their average occurrence score.
+   * params.startDate marks the organiser's preferred first occurrence.
    */
-  private async extractEventsFromResponse(response: Response, apiName: string): Promise<Event[]> {
-    if (!response.ok) {
-      console.warn(`${apiName}: API returned error status ${response.status}`);
-      return [];
+  async analyzeSeries(params: ConflictAnalysisParams): Promise<EventSeriesAnalysisResult> {
+    const series = params.series;
+    if (!series) {
+      throw new Error('analyzeSeries requires params.series');
     }
 
-    try {
-      // Clone the response to avoid "body already read" errors
-      const responseClone = response.clone();
-      let result;
-      
-      try {
-        result = await responseClone.json();
-      } catch (jsonError) {
-        // If JSON parsing fails, try reading as text for debugging
-        console.error(`${apiName}: JSON parsing failed, trying text:`, jsonError);
-        const responseText = await response.text();
-        console.error(`${apiName}: Response text:`, responseText.substring(0, 500));
-        return [];
-      }
-      
-      let events: Event[] = [];
-
-      // Handle different response structures based on API
-      if (apiName === 'ticketmaster') {
-        console.log('🎟️ Ticketmaster API response structure:', result);
-        if (result.success && result.data?.events) {
-          events = result.data.events;
-        } else if (result.data?.events) {
-          events = result.data.events;
-        } else if (result.data && Array.isArray(result.data)) {
-          events = result.data;
-        } else if (Array.isArray(result)) {
-          events = result;
-        } else if (result.data) {
-          events = Array.isArray(result.data) ? result.data : [];
-        }
-        console.log(`🎟️ Ticketmaster: Extracted ${events.length} events`);
-      } else if (apiName === 'predicthq') {
-        console.log('🔮 PredictHQ API response structure:', {
-          success: result.success,
-          hasData: !!result.data,
-          hasEvents: !!result.data?.events,
-          eventsLength: result.data?.events?.length || 0
-        });
-        if (result.success && result.data?.events) {
-          events = result.data.events;
-        } else if (result.data?.events) {
-          events = result.data.events;
-        } else if (result.data && Array.isArray(result.data)) {
-          events = result.data;
-        } else if (Array.isArray(result)) {
-          events = result;
-        } else if (result.data) {
-          events = Array.isArray(result.data) ? result.data : [];
-        }
-        console.log(`🔮 PredictHQ: Extracted ${events.length} events`);
-      } else if (apiName === 'brno') {
-        console.log('🏛️ Brno API response structure:', result);
-        if (result.data?.events) {
-          events = result.data.events;
-        } else if (result.data && Array.isArray(result.data)) {
-          events = result.data;
-        } else if (Array.isArray(result)) {
-          events = result;
-        } else if (result.data) {
-          events = Array.isArray(result.data) ? result.data : [];
-        }
-        console.log(`🏛️ Brno: Extracted ${events.length} events`);
-      } else if (apiName === 'scraped') {
-        console.log('🔍 Scraped events API response structure:', result);
-        if (result.success && result.data?.events) {
-          events = result.data.events;
-        } else if (result.data?.events) {
-          events = result.data.events;
-        } else if (result.data && Array.isArray(result.data)) {
-          events = result.data;
-        } else if (Array.isArray(result)) {
-          events = result;
-        } else if (result.data) {
-          events = Array.isArray(result.data) ? result.data : [];
-        }
-        console.log(`🔍 Scraped: Extracted ${events.length} events`);
+    const startTime = Date.now();
+    const candidates = eventSeriesPlanner.generateCandidates(series, params.dateRangeStart, params.dateRangeEnd);
+    console.log(`📆 Scoring ${candidates.length} ${series.type} schedules between ${params.dateRangeStart} and ${params.dateRangeEnd}`);
+
+    if (candidates.length === 0) {
+      return eventSeriesPlanner.buildResult(series, [], null);
+    }
+
+    const { filteredEvents, allEvents } = await this.fetchEventsFromAPI(params);
+    const eventIndex = this.preprocessEvents(filteredEvents);
+    this.cleanExpiredCache();
+
+    const holidayConfig = await this.getHolidayConfigForCity(params.city);
+
+    // Schedules share occurrences (e.g. a block starting on the same day), so each window is scored once
+    const occurrenceScores = new Map<string, Promise<EventSeriesOccurrence>>();
+    const scoreOccurrence = (startDate: string, endDate: string): Promise<EventSeriesOccurrence> => {
+      const key = `${startDate}|${endDate}`;
+      let score = occurrenceScores.get(key);
+      if (!score) {
+        score = this.scoreSeriesOccurrence(startDate, endDate, params, holidayConfig, eventIndex);
+        occurrenceScores.set(key, score);
       }
+      return score;
+    };
 
-      return events;
-    } catch (error) {
-      console.error(`${apiName}: Error processing response:`, error);
-      return [];
+    const patterns = await Promise.all(candidates.map(async candidate => {
+      const occurrences = await Promise.all(
+        candidate.occurrences.map(occurrence => scoreOccurrence(occurrence.startDate, occurrence.endDate))
+      );
+      return eventSeriesPlanner.summarizePattern(candidate, occurrences);
+    }));
+
+    const requestedKey = params.startDate >= params.dateRangeStart && params.startDate <= params.dateRangeEnd
+      ? eventSeriesPlanner.getRequestedKey(series, params.dateRangeStart, params.startDate)
+      : null;
+    const result = eventSeriesPlanner.buildResult(series, patterns, requestedKey);
+
+    console.log(`✅ Series analysis completed in ${Date.now() - startTime}ms: ${occurrenceScores.size} windows scored from ${allEvents.length} events, best "${result.bestPattern?.label}" (avg ${result.bestPattern?.averageScore})`);
+
+    return result;
+  }
+
+  /**
+   * Score one occurrence of a series with the same competing-event and
+   * holiday logic used for single date windows
+   */
+  private async scoreSeriesOccurrence(
+    startDate: string,
+    endDate: string,
+    params: ConflictAnalysisParams,
+    holidayConfig: HolidayServiceConfig | null,
+    eventIndex: EventIndex
+  ): Promise<EventSeriesOccurrence> {
+    let holidayRestrictions;
+    if (holidayConfig) {
+      try {
+        const holidayCheck = await holidayService.checkDateAvailability(startDate, holidayConfig, params.organisationId);
+        holidayRestrictions = holidayCheck.restrictions;
+      } catch (error) {
+        console.warn(`Failed to check holiday restrictions for ${startDate}:`, error);
+      }
     }
+
+    const competingEvents = await this.findCompetingEventsOptimized(startDate, endDate, params, eventIndex);
+    const config = this.severityConfigs[this.determineSeverityLevel(competingEvents.length)];
+    const conflictScore = await this.calculateConflictScoreOptimized(
+      competingEvents,
+      params.expectedAttendees,
+      params.category,
+      params,
+      config,
+      holidayRestrictions
+    );
+
+    return {
+      startDate,
+      endDate,
+      conflictScore,
+      riskLevel: this.determineRiskLevel(conflictScore),
+      competingEvents,
+      reasons: this.generateReasons(competingEvents, conflictScore),
+      holidayRestrictions
+    };
   }
 
   /**
@@ -4181,7 +4047,8 @@ export class ConflictAnalysisService {
         params.startDate,
         params.category,
         params.subcategory,
-        'CZ'
+        'CZ',
+        params.city
       );
       
       // Get holiday impact
@@ -4189,7 +4056,8 @@ export class ConflictAnalysisService {
         params.startDate,
         params.category,
         params.subcategory,
-        'CZ'
+        'CZ',
+        params.city
       );
       
       // Enhance recommendations with seasonal factors
@@ -4395,6 +4263,8 @@ export class ConflictAnalysisService {
       // Merge holiday restrictions (combine all holidays and events)
       const allHolidays = new Map();
       const allCulturalEvents = new Map();
+      const allBlackoutPeriods = new Map();
+      const longWeekend = rangesWithHolidays.find(r => r.holidayRestrictions?.long_weekend)?.holidayRestrictions?.long_weekend;
       let businessImpact: 'none' | 'partial' | 'full' = 'none';
       let venueClosureExpected = false;
       
@@ -4406,6 +4276,9 @@ export class ConflictAnalysisService {
           r.holidayRestrictions.cultural_events?.forEach((e: any) => {
             allCulturalEvents.set(e.event_name || e.name, e);
           });
+          r.holidayRestrictions.blackout_periods?.forEach((p: any) => {
+            allBlackoutPeriods.set(p.id, p);
+          });
           if (r.holidayRestrictions.business_impact === 'full') {
             businessImpact = 'full';
           } else if (r.holidayRestrictions.business_impact === 'partial' && businessImpact !== 'full') {
@@ -4422,7 +4295,9 @@ export class ConflictAnalysisService {
         cultural_events: Array.from(allCulturalEvents.values()),
         business_impact: businessImpact,
         venue_closure_expected: venueClosureExpected,
-        reasons: [...new Set(rangesWithHolidays.flatMap(r => r.holidayRestrictions?.reasons || []))]
+        reasons: [...new Set(rangesWithHolidays.flatMap(r => r.holidayRestrictions?.reasons || []))],
+        ...(allBlackoutPeriods.size > 0 && { blackout_periods: Array.from(allBlackoutPeriods.values()) }),
+        ...(longWeekend && { long_weekend: longWeekend })
       };
     }
     
@@ -4924,9 +4799,6 @@ export class ConflictAnalysisService {
     this.terminateWorker();
     this.conflictCache.comparisons.clear();
     this.conflictCache.expiry.clear();
-    this.requestCache.clear();
-    this.cacheExpiry.clear();
-    this.eventIndex = null;
     console.log('✅ Conflict analysis service cleanup completed');
   }
 }
@@ -0,0 +1,127 @@
+// src/lib/services/conflict-score-breakdown.ts
+import type {
+  ConflictEventContribution,
+  ConflictScoreBreakdown,
+  ConflictScoreStep,
+  HolidayPenaltyBreakdown
+} from '@/types/score-breakdown';
+import type { ScoringWeights } from '@/types/scoring-profiles';
+import { scoringWeightCalculator } from './scoring-weights';
+
+export const MAX_CONFLICT_SCORE = 20;
+// Flat score for competing events beyond the severity config's maxComparisons
+export const UNSCORED_EVENT_SCORE = 2;
+
+interface BreakdownInput {
+  contributions: ConflictEventContribution[];
+  unscoredEvents: number;
+  audienceScalingFactor: number;
+  expectedAttendees: number;
+  holidayRestrictions?: any;
+  weights?: ScoringWeights;
+}
+
+/**
+ * Combines per-event contributions into the final conflict score and records
+ * every step, so a recommendation can be explained line by line.
+ * Kept free of database access so it can be tested in isolation.
+ */
+export class ConflictScoreBreakdownBuilder {
+  build(input: BreakdownInput): ConflictScoreBreakdown {
+    const steps: ConflictScoreStep[] = [];
+    let total = 0;
+
+    const add = (label: string, value: number, eventId?: string) => {
+      total += value;
+      steps.push({ label, type: 'add', value, delta: value, total, eventId });
+    };
+    const multiply = (label: string, value: number) => {
+      if (value === 1) return;
+      const before = total;
+      total *= value;
+      steps.push({ label, type: 'multiply', value, delta: total - before, total });
+    };
+
+    for (const contribution of input.contributions) {
+      add(contribution.title, contribution.score, contribution.eventId);
+    }
+
+    const unscoredEventsScore = input.unscoredEvents * UNSCORED_EVENT_SCORE;
+    if (input.unscoredEvents > 0) {
+      add(`${input.unscoredEvents} other ${input.unscoredEvents === 1 ? 'event' : 'events'}`, unscoredEventsScore);
+    }
+
+    multiply('Audience size scaling', input.audienceScalingFactor);
+
+    const eventSizeMultiplier = this.eventSizeMultiplier(input.expectedAttendees);
+    multiply('Planned event size', eventSizeMultiplier);
+
+    const weights = scoringWeightCalculator.resolve(input.weights);
+    const holidayPenalty = this.holidayPenalty(input.holidayRestrictions, weights.holidayPenalty);
+    if (holidayPenalty.total > 0) {
+      add('Holiday restrictions', holidayPenalty.total);
+    }
+
+    const uncappedScore = total;
+    const finalScore = Math.min(uncappedScore, MAX_CONFLICT_SCORE);
+    if (finalScore < uncappedScore) {
+      steps.push({
+        label: `Capped at ${MAX_CONFLICT_SCORE}`,
+        type: 'cap',
+        value: MAX_CONFLICT_SCORE,
+        delta: finalScore - uncappedScore,
+        total: finalScore
+      });
+    }
+
+    return {
+      contributions: [...input.contributions].sort((a, b) => b.score - a.score),
+      unscoredEvents: input.unscoredEvents,
+      unscoredEventsScore,
+      audienceScalingFactor: input.audienceScalingFactor,
+      eventSizeMultiplier,
+      holidayPenalty,
+      uncappedScore,
+      finalScore,
+      maxScore: MAX_CONFLICT_SCORE,
+      steps,
+      weights
+    };
+  }
+
+  eventSizeMultiplier(expectedAttendees: number): number {
+    if (expectedAttendees > 1000) return 1.1;
+    if (expectedAttendees > 500) return 1.05;
+    return 1;
+  }
+
+  /**
+   * Penalty points for holidays and cultural events on the date, scaled by the
+   * scoring profile's holiday penalty weight
+   */
+  holidayPenalty(holidayRestrictions: any, weight: number = 1): HolidayPenaltyBreakdown {
+    if (!holidayRestrictions) {
+      return { businessImpact: 0, venueClosure: 0, publicHolidays: 0, culturalEvents: 0, total: 0 };
+    }
+
+    // Full business closure weighs more than partial impact
+    const businessImpact = (holidayRestrictions.business_impact === 'full'
+      ? 15
+      : holidayRestrictions.business_impact === 'partial' ? 8 : 0) * weight;
+    const venueClosure = (holidayRestrictions.venue_closure_expected ? 10 : 0) * weight;
+    // 3 points per public holiday, 1 per cultural event
+    const publicHolidays = (holidayRestrictions.holidays?.length || 0) * 3 * weight;
+    const culturalEvents = (holidayRestrictions.cultural_events?.length || 0) * 1 * weight;
+
+    return {
+      businessImpact,
+      venueClosure,
+      publicHolidays,
+      culturalEvents,
+      total: businessImpact + venueClosure + publicHolidays + culturalEvents
+    };
+  }
+}
+
+// Export singleton instance
+export const conflictScoreBreakdownBuilder = new ConflictScoreBreakdownBuilder();
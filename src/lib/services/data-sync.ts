@@ -5,10 +5,11 @@ import {
   CreateEventData,
   UpsertResult 
 } from '@/lib/types/events';
+import type { EventProvider } from '@/types/event-providers';
 import { eventStorageService } from './event-storage';
 import { dataTransformer } from './data-transformer';
-import { ticketmasterService } from './ticketmaster';
-import { predicthqService } from './predicthq';
+import { eventProviderRegistry } from './event-provider-registry';
+import { watchlistService } from './watchlist';
 
 /**
  * Data synchronization service for periodic data updates
@@ -57,7 +58,7 @@ export class DataSyncService {
   }
 
   /**
-   * Perform full synchronization from all sources
+   * Perform full synchronization from every provider with scheduled syncs
    */
   async performFullSync(): Promise<SyncResult[]> {
     const results: SyncResult[] = [];
@@ -65,13 +66,15 @@ export class DataSyncService {
     console.log('Starting full data synchronization...');
     
     try {
-      // Sync from Ticketmaster
-      const ticketmasterResult = await this.syncFromTicketmaster();
-      results.push(ticketmasterResult);
+      // Sync the next 6 months
+      const startDate = new Date().toISOString().split('T')[0];
+      const endDate = new Date();
+      endDate.setMonth(endDate.getMonth() + 6);
+      const endDateString = endDate.toISOString().split('T')[0];
 
-      // Sync from PredictHQ
-      const predicthqResult = await this.syncFromPredictHQ();
-      results.push(predicthqResult);
+      for (const provider of eventProviderRegistry.getSyncProviders()) {
+        results.push(await this.syncProvider(provider, provider.info.syncCities || [], startDate, endDateString));
+      }
 
       // Log overall results
       const totalProcessed = results.reduce((sum, r) => sum + r.events_processed, 0);
@@ -80,6 +83,9 @@ export class DataSyncService {
       const totalErrors = results.reduce((sum, r) => sum + r.errors.length, 0);
 
       console.log(`Full sync completed: ${totalProcessed} processed, ${totalCreated} created, ${totalUpdated} updated, ${totalErrors} errors`);
+
+      // Re-check watched dates against the freshly synced events
+      await this.rescoreWatchlists();
       
       return results;
     } catch (error) {
@@ -89,205 +95,25 @@ export class DataSyncService {
   }
 
   /**
-   * Sync events from Ticketmaster
-   */
-  async syncFromTicketmaster(): Promise<SyncResult> {
-    const startTime = Date.now();
-    const result: SyncResult = {
-      source: 'ticketmaster',
-      success: false,
-      events_processed: 0,
-      events_created: 0,
-      events_updated: 0,
-      events_skipped: 0,
-      errors: [],
-      duration_ms: 0
-    };
-
-    try {
-      console.log('Syncing events from Ticketmaster...');
-      
-      // Update sync status
-      this.updateSyncStatus('ticketmaster', 'in_progress', 0, []);
-
-      // Get events from major cities for the next 6 months
-      const cities = ['Prague', 'Brno', 'Ostrava', 'Olomouc', 'Plzen', 'Liberec', 'Hradec Králové'];
-      const allEvents: CreateEventData[] = [];
-      
-      const startDate = new Date().toISOString().split('T')[0];
-      const endDate = new Date();
-      endDate.setMonth(endDate.getMonth() + 6);
-      const endDateString = endDate.toISOString().split('T')[0];
-
-      for (const city of cities) {
-        try {
-          console.log(`Fetching Ticketmaster events for ${city}...`);
-          const events = await ticketmasterService.getEventsForCity(
-            city,
-            startDate,
-            endDateString
-          );
-
-          // Transform events to standardized format
-          for (const event of events) {
-            try {
-              const transformedEvent = dataTransformer.transformEvent('ticketmaster', event);
-              allEvents.push(transformedEvent);
-            } catch (error) {
-              result.errors.push(`Failed to transform event "${event.title}": ${error instanceof Error ? error.message : 'Unknown error'}`);
-            }
-          }
-
-          console.log(`Found ${events.length} events for ${city}`);
-        } catch (error) {
-          result.errors.push(`Failed to fetch events for ${city}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        }
-      }
-
-      result.events_processed = allEvents.length;
-
-      // Save events to database
-      if (allEvents.length > 0) {
-        const saveResult = await eventStorageService.saveEvents(allEvents);
-        result.events_created = saveResult.created;
-        result.events_updated = saveResult.updated;
-        result.events_skipped = saveResult.skipped;
-        result.errors.push(...saveResult.errors);
-      }
-
-      result.success = result.errors.length === 0;
-      result.duration_ms = Date.now() - startTime;
-
-      // Update sync status
-      this.updateSyncStatus('ticketmaster', result.success ? 'success' : 'error', result.events_processed, result.errors);
-
-      console.log(`Ticketmaster sync completed: ${result.events_processed} processed, ${result.events_created} created, ${result.events_updated} updated`);
-      
-      return result;
-    } catch (error) {
-      result.success = false;
-      result.errors.push(`Ticketmaster sync failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      result.duration_ms = Date.now() - startTime;
-
-      this.updateSyncStatus('ticketmaster', 'error', result.events_processed, result.errors);
-      
-      console.error('Ticketmaster sync failed:', error);
-      return result;
-    }
-  }
-
-  /**
-   * Sync events from PredictHQ
-   */
-  async syncFromPredictHQ(): Promise<SyncResult> {
-    const startTime = Date.now();
-    const result: SyncResult = {
-      source: 'predicthq',
-      success: false,
-      events_processed: 0,
-      events_created: 0,
-      events_updated: 0,
-      events_skipped: 0,
-      errors: [],
-      duration_ms: 0
-    };
-
-    try {
-      console.log('Syncing events from PredictHQ...');
-      
-      // Update sync status
-      this.updateSyncStatus('predicthq', 'in_progress', 0, []);
-
-      // Get events from major cities for the next 6 months
-      const cities = ['Prague', 'Brno', 'Ostrava', 'Olomouc', 'Plzen', 'Hradec Králové', 'Liberec', 'Pardubice', 'Zlín', 'Havířov', 'Kladno', 'Most', 'Karlovy Vary', 'Jihlava', 'Třebíč', 'Jablonec nad Nisou', 'Mělník', 'Nový Jičín', 'Frýdek-Místek', 'Opava', 'Děčín', 'Zlín', 'Chrudim', 'Trutnov', 'Mladá Boleslav', 'Příbram', 'Byškovice', 'Jindřichův Hradec', 'Nový Jičín'];
-      const allEvents: CreateEventData[] = [];
-      
-      const startDate = new Date().toISOString().split('T')[0];
-      const endDate = new Date();
-      endDate.setMonth(endDate.getMonth() + 6);
-      const endDateString = endDate.toISOString().split('T')[0];
-
-      for (const city of cities) {
-        try {
-          console.log(`Fetching PredictHQ events for ${city}...`);
-          const events = await predicthqService.getEventsForCity(
-            city,
-            startDate,
-            endDateString
-          );
-
-          // Transform events to standardized format
-          for (const event of events) {
-            try {
-              const transformedEvent = dataTransformer.transformEvent('predicthq', event);
-              allEvents.push(transformedEvent);
-            } catch (error) {
-              result.errors.push(`Failed to transform event "${event.title}": ${error instanceof Error ? error.message : 'Unknown error'}`);
-            }
-          }
-
-          console.log(`Found ${events.length} events for ${city}`);
-        } catch (error) {
-          result.errors.push(`Failed to fetch events for ${city}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        }
-      }
-
-      result.events_processed = allEvents.length;
-
-      // Save events to database
-      if (allEvents.length > 0) {
-        const saveResult = await eventStorageService.saveEvents(allEvents);
-        result.events_created = saveResult.created;
-        result.events_updated = saveResult.updated;
-        result.events_skipped = saveResult.skipped;
-        result.errors.push(...saveResult.errors);
-      }
-
-      result.success = result.errors.length === 0;
-      result.duration_ms = Date.now() - startTime;
-
-      // Update sync status
-      this.updateSyncStatus('predicthq', result.success ? 'success' : 'error', result.events_processed, result.errors);
-
-      console.log(`PredictHQ sync completed: ${result.events_processed} processed, ${result.events_created} created, ${result.events_updated} updated`);
-      
-      return result;
-    } catch (error) {
-      result.success = false;
-      result.errors.push(`PredictHQ sync failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      result.duration_ms = Date.now() - startTime;
-
-      this.updateSyncStatus('predicthq', 'error', result.events_processed, result.errors);
-      
-      console.error('PredictHQ sync failed:', error);
-      return result;
-    }
-  }
-
-  /**
-   * Sync events for a specific city and date range
+   * Sync events for a specific city and date range. Defaults to every provider
+   * with scheduled syncs.
    */
   async syncForCity(
     city: string,
     startDate: string,
     endDate: string,
-    sources: string[] = ['ticketmaster', 'predicthq']
+    sources: string[] = eventProviderRegistry.getSyncProviders().map(provider => provider.info.id)
   ): Promise<SyncResult[]> {
     const results: SyncResult[] = [];
 
     for (const source of sources) {
       try {
-        let result: SyncResult;
-        
-        if (source === 'ticketmaster') {
-          result = await this.syncTicketmasterForCity(city, startDate, endDate);
-        } else if (source === 'predicthq') {
-          result = await this.syncPredictHQForCity(city, startDate, endDate);
-        } else {
+        const provider = eventProviderRegistry.get(source);
+        if (!provider || !provider.info.capabilities.includes('scheduled-sync')) {
           throw new Error(`Unknown source: ${source}`);
         }
-        
-        results.push(result);
+
+        results.push(await this.syncProvider(provider, [city], startDate, endDate));
       } catch (error) {
         console.error(`Sync failed for ${source} in ${city}:`, error);
         results.push({
@@ -303,20 +129,26 @@ export class DataSyncService {
       }
     }
 
+    if (results.some(r => r.success)) {
+      await this.rescoreWatchlists([city]);
+    }
+
     return results;
   }
 
   /**
-   * Sync Ticketmaster events for a specific city
+   * Fetch a provider's events for the given cities and store them
    */
-  private async syncTicketmasterForCity(
-    city: string,
+  private async syncProvider(
+    provider: EventProvider,
+    cities: string[],
     startDate: string,
     endDate: string
   ): Promise<SyncResult> {
+    const source = provider.info.id;
     const startTime = Date.now();
     const result: SyncResult = {
-      source: 'ticketmaster',
+      source,
       success: false,
       events_processed: 0,
       events_created: 0,
@@ -327,77 +159,40 @@ export class DataSyncService {
     };
 
     try {
-      const events = await ticketmasterService.getEventsForCity(city, startDate, endDate);
-      const transformedEvents: CreateEventData[] = [];
-
-      for (const event of events) {
-        try {
-          const transformedEvent = dataTransformer.transformEvent('ticketmaster', event);
-          transformedEvents.push(transformedEvent);
-        } catch (error) {
-          result.errors.push(`Failed to transform event "${event.title}": ${error instanceof Error ? error.message : 'Unknown error'}`);
-        }
-      }
-
-      result.events_processed = transformedEvents.length;
-
-      if (transformedEvents.length > 0) {
-        const saveResult = await eventStorageService.saveEvents(transformedEvents);
-        result.events_created = saveResult.created;
-        result.events_updated = saveResult.updated;
-        result.events_skipped = saveResult.skipped;
-        result.errors.push(...saveResult.errors);
-      }
-
-      result.success = result.errors.length === 0;
-      result.duration_ms = Date.now() - startTime;
+      console.log(`Syncing events from ${provider.info.name}...`);
+      
+      // Update sync status
+      this.updateSyncStatus(source, 'in_progress', 0, []);
 
-      return result;
-    } catch (error) {
-      result.success = false;
-      result.errors.push(`Ticketmaster sync failed for ${city}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      result.duration_ms = Date.now() - startTime;
-      return result;
-    }
-  }
+      const allEvents: CreateEventData[] = [];
 
-  /**
-   * Sync PredictHQ events for a specific city
-   */
-  private async syncPredictHQForCity(
-    city: string,
-    startDate: string,
-    endDate: string
-  ): Promise<SyncResult> {
-    const startTime = Date.now();
-    const result: SyncResult = {
-      source: 'predicthq',
-      success: false,
-      events_processed: 0,
-      events_created: 0,
-      events_updated: 0,
-      events_skipped: 0,
-      errors: [],
-      duration_ms: 0
-    };
+      for (const city of cities) {
+        try {
+          console.log(`Fetching ${provider.info.name} events for ${city}...`);
+          const events = provider.fetchAllEvents
+            ? await provider.fetchAllEvents(city, startDate, endDate)
+            : await provider.fetchEvents({ city, startDate, endDate });
 
-    try {
-      const events = await predicthqService.getEventsForCity(city, startDate, endDate);
-      const transformedEvents: CreateEventData[] = [];
+          // Transform events to standardized format
+          for (const event of events) {
+            try {
+              allEvents.push(dataTransformer.transformEvent(source, event));
+            } catch (error) {
+              result.errors.push(`Failed to transform event "${event.title}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+          }
 
-      for (const event of events) {
-        try {
-          const transformedEvent = dataTransformer.transformEvent('predicthq', event);
-          transformedEvents.push(transformedEvent);
+          console.log(`Found ${events.length} events for ${city}`);
         } catch (error) {
-          result.errors.push(`Failed to transform event "${event.title}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+          result.errors.push(`Failed to fetch events for ${city}: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
       }
 
-      result.events_processed = transformedEvents.length;
+      result.events_processed = allEvents.length;
 
-      if (transformedEvents.length > 0) {
-        const saveResult = await eventStorageService.saveEvents(transformedEvents);
+      // Save events to database
+      if (allEvents.length > 0) {
+        const saveResult = await eventStorageService.saveEvents(allEvents);
         result.events_created = saveResult.created;
         result.events_updated = saveResult.updated;
         result.events_skipped = saveResult.skipped;
@@ -407,11 +202,20 @@ export class DataSyncService {
       result.success = result.errors.length === 0;
       result.duration_ms = Date.now() - startTime;
 
+      // Update sync status
+      this.updateSyncStatus(source, result.success ? 'success' : 'error', result.events_processed, result.errors);
+
+      console.log(`${provider.info.name} sync completed: ${result.events_processed} processed, ${result.events_created} created, ${result.events_updated} updated`);
+      
       return result;
     } catch (error) {
       result.success = false;
-      result.errors.push(`PredictHQ sync failed for ${city}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      result.errors.push(`${provider.info.name} sync failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
       result.duration_ms = Date.now() - startTime;
+
+      this.updateSyncStatus(source, 'error', result.events_processed, result.errors);
+      
+      console.error(`${provider.info.name} sync failed:`, error);
       return result;
     }
   }
@@ -520,6 +324,17 @@ export class DataSyncService {
     return this.syncStatus.get(source);
   }
 
+  /**
+   * Re-score watchlists after a sync. Never throws so a sync result is always returned.
+   */
+  private async rescoreWatchlists(cities?: string[]): Promise<void> {
+    try {
+      await watchlistService.rescoreWatchlists('data_sync', { cities });
+    } catch (error) {
+      console.error('Watchlist re-scoring after sync failed:', error);
+    }
+  }
+
   /**
    * Update sync status for a source
    */
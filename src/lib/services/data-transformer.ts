@@ -38,6 +38,20 @@ export class DataTransformer {
       validate: this.validateEvent.bind(this)
     });
 
+    // Eventbrite transformer
+    this.transformers.set('eventbrite', {
+      source: 'eventbrite',
+      transform: this.transformEventbriteEvent.bind(this),
+      validate: this.validateEvent.bind(this)
+    });
+
+    // Meetup transformer
+    this.transformers.set('meetup', {
+      source: 'meetup',
+      transform: this.transformMeetupEvent.bind(this),
+      validate: this.validateEvent.bind(this)
+    });
+
     // Scraper event transformer
     this.transformers.set('scraper', {
       source: 'scraper',
@@ -259,6 +273,136 @@ export class DataTransformer {
     };
   }
 
+  /**
+   * Transform Eventbrite event (with venue, organizer, category, subcategory
+   * and format expanded) to standardized format. Also accepts events already
+   * mapped by EventbriteService, as scheduled syncs pass them.
+   */
+  private transformEventbriteEvent(ebEvent: any): CreateEventData {
+    if (!ebEvent.name && ebEvent.title) {
+      return {
+        title: ebEvent.title,
+        description: ebEvent.description,
+        date: ebEvent.date,
+        end_date: ebEvent.endDate,
+        city: ebEvent.city,
+        venue: ebEvent.venue,
+        category: ebEvent.category,
+        subcategory: ebEvent.subcategory,
+        expected_attendees: ebEvent.expectedAttendees,
+        source: 'eventbrite',
+        source_id: ebEvent.sourceId,
+        url: ebEvent.url,
+        image_url: ebEvent.imageUrl,
+      };
+    }
+
+    const venueName = ebEvent.venue?.name || undefined;
+    const organizerName = ebEvent.organizer?.name;
+    const category = this.mapEventbriteCategory(ebEvent.category_id || ebEvent.category?.id);
+
+    // Ticket capacity is set by the organiser; fall back to the venue's capacity
+    const capacity = ebEvent.capacity || ebEvent.venue?.capacity;
+
+    const description = [
+      ebEvent.description?.text || ebEvent.summary || '',
+      organizerName ? `Organised by ${organizerName}` : ''
+    ].filter(Boolean).join('\n\n');
+
+    return {
+      title: ebEvent.name.text,
+      description,
+      date: ebEvent.start.utc,
+      end_date: ebEvent.end?.utc,
+      city: this.normalizeCityName(ebEvent.venue?.address?.city || 'Unknown'),
+      venue: venueName,
+      category,
+      subcategory: ebEvent.subcategory?.name || ebEvent.format?.name,
+      expected_attendees: capacity || this.estimateAttendeesFromVenue(venueName, category),
+      ...(capacity && {
+        attendee_source: 'explicit' as const,
+        attendee_confidence: 0.7,
+        attendee_reasoning: ['Ticket capacity published on Eventbrite']
+      }),
+      source: 'eventbrite',
+      source_id: ebEvent.id,
+      url: ebEvent.url,
+      image_url: ebEvent.logo?.url,
+    };
+  }
+
+  /**
+   * Transform Meetup GraphQL event. Also accepts events already mapped by
+   * MeetupService, as scheduled syncs pass them; those carry an attendance
+   * figure only when it is an RSVP count.
+   */
+  private transformMeetupEvent(meetupEvent: any): CreateEventData {
+    if (!meetupEvent.dateTime && meetupEvent.date) {
+      return {
+        title: meetupEvent.title,
+        description: meetupEvent.description,
+        date: meetupEvent.date,
+        end_date: meetupEvent.endDate,
+        city: meetupEvent.city,
+        venue: meetupEvent.venue,
+        category: meetupEvent.category,
+        subcategory: meetupEvent.subcategory,
+        ...(meetupEvent.expectedAttendees
+          ? this.rsvpAttendance(meetupEvent.expectedAttendees)
+          : { expected_attendees: this.estimateAttendeesFromVenue(meetupEvent.venue, meetupEvent.category) }),
+        source: 'meetup',
+        source_id: meetupEvent.sourceId,
+        url: meetupEvent.url,
+        image_url: meetupEvent.imageUrl,
+      };
+    }
+
+    const venueName = meetupEvent.venue?.name || undefined;
+    const groupName = meetupEvent.group?.name;
+    const category = this.mapMeetupCategory(meetupEvent.group?.topicCategory?.name);
+    const going = meetupEvent.going || 0;
+
+    const description = [
+      meetupEvent.description || '',
+      groupName ? `Hosted by ${groupName}` : ''
+    ].filter(Boolean).join('\n\n');
+
+    return {
+      title: meetupEvent.title,
+      description,
+      date: new Date(meetupEvent.dateTime).toISOString(),
+      end_date: meetupEvent.endTime ? new Date(meetupEvent.endTime).toISOString() : undefined,
+      city: this.normalizeCityName(meetupEvent.venue?.city || 'Unknown'),
+      venue: venueName,
+      category,
+      subcategory: meetupEvent.group?.topicCategory?.name,
+      ...(going > 0
+        ? this.rsvpAttendance(going, meetupEvent.maxTickets)
+        : { expected_attendees: this.estimateAttendeesFromVenue(venueName, category) }),
+      source: 'meetup',
+      source_id: meetupEvent.id,
+      url: meetupEvent.eventUrl,
+      image_url: meetupEvent.imageUrl || undefined,
+    };
+  }
+
+  /**
+   * Attendance from "going" RSVPs. RSVPs keep arriving until the event, so an
+   * open event's count is a lower bound; a full event's is close to final.
+   */
+  private rsvpAttendance(going: number, rsvpLimit?: number | null): Partial<CreateEventData> {
+    const isFull = !!rsvpLimit && going >= rsvpLimit;
+    return {
+      expected_attendees: going,
+      attendee_source: 'rsvp_count',
+      attendee_confidence: isFull ? 0.8 : 0.6,
+      attendee_reasoning: [
+        `${going} RSVPs on Meetup`,
+        ...(isFull ? [`RSVP limit of ${rsvpLimit} reached`] : [])
+      ]
+    };
+  }
+
   /**
    * Transform manual event to standardized format
    */
@@ -317,6 +461,45 @@ export class DataTransformer {
     }
   }
 
+  /**
+   * Map Eventbrite category IDs to standardized categories
+   */
+  private mapEventbriteCategory(categoryId?: string): string {
+    const categoryMap: Record<string, string> = {
+      '101': 'Business', // Business & Professional
+      '102': 'Technology', // Science & Technology
+      '103': 'Entertainment', // Music
+      '104': 'Entertainment', // Film, Media & Entertainment
+      '105': 'Arts & Culture', // Performing & Visual Arts
+      '107': 'Healthcare', // Health & Wellness
+      '108': 'Sports', // Sports & Fitness
+      '113': 'Arts & Culture', // Community & Culture
+      '115': 'Education', // Family & Education
+      '120': 'Education', // School Activities
+    };
+
+    return (categoryId && categoryMap[categoryId]) || 'Other';
+  }
+
+  /**
+   * Map Meetup group topic categories to standardized categories
+   */
+  private mapMeetupCategory(topicCategory?: string): string {
+    const categoryMap: Record<string, string> = {
+      'Technology': 'Technology',
+      'Science & Education': 'Education',
+      'Career & Business': 'Business',
+      'Art & Culture': 'Arts & Culture',
+      'Music': 'Entertainment',
+      'Movements & Politics': 'Other',
+      'Health & Wellbeing': 'Healthcare',
+      'Sports & Fitness': 'Sports',
+      'Games': 'Entertainment',
+    };
+
+    return (topicCategory && categoryMap[topicCategory]) || 'Other';
+  }
+
   /**
    * Map Ticketmaster categories to standardized categories
    */
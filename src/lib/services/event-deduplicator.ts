@@ -46,6 +46,7 @@ export class EventDeduplicator {
     'brnoexpat': 1,
     'firecrawl': 1,
     'scraper': 1,
+    'import': 1,
     'manual': 0
   };
 
@@ -0,0 +1,226 @@
+// src/lib/services/event-import-parser.ts
+import { createHash } from 'crypto';
+import type { CreateEventData } from '@/lib/types/events';
+import type { EventImportConfig, EventImportParseResult } from '@/types/event-import';
+import { ICalDateValue, parseICalendar } from '@/lib/utils/icalendar';
+import { parseCsv } from '@/lib/utils/csv';
+
+const DEFAULT_TIME_ZONE = 'Europe/Prague';
+const DEFAULT_CATEGORY = 'Other';
+
+// Field limits from CreateEventSchema - longer values are truncated instead of failing validation
+const MAX_TITLE_LENGTH = 500;
+const MAX_DESCRIPTION_LENGTH = 2000;
+const MAX_VENUE_LENGTH = 200;
+const MAX_URL_LENGTH = 500;
+
+/**
+ * Converts ICS feeds and CSV spreadsheets into events ready for normalization.
+ * Kept free of database and network access so it can be tested in isolation.
+ */
+export class EventImportParser {
+  /**
+   * Parse file content in the configured format
+   */
+  parse(content: string, config: EventImportConfig): EventImportParseResult {
+    return config.format === 'csv'
+      ? this.parseCsvEvents(content, config)
+      : this.parseICalendarEvents(content, config);
+  }
+
+  /**
+   * Convert the VEVENTs of an iCalendar feed. Cancelled events are skipped and
+   * recurring events are imported as their first occurrence only.
+   */
+  parseICalendarEvents(content: string, config: EventImportConfig): EventImportParseResult {
+    const parsedEvents = parseICalendar(content);
+    const timeZone = config.timeZone || DEFAULT_TIME_ZONE;
+    const events: CreateEventData[] = [];
+    const errors: string[] = [];
+
+    parsedEvents.forEach((event, index) => {
+      if (event.status === 'CANCELLED') {
+        return;
+      }
+      if (!event.summary || !event.start) {
+        errors.push(`Event ${index + 1}${event.uid ? ` (${event.uid})` : ''}: missing SUMMARY or DTSTART`);
+        return;
+      }
+
+      const date = this.toEventDate(event.start, timeZone);
+      let endDate: string | undefined;
+      if (event.end) {
+        // All-day DTEND values are exclusive
+        endDate = event.end.time
+          ? this.toEventDate(event.end, timeZone)
+          : this.addDays(event.end.date, -1);
+      }
+
+      events.push({
+        title: event.summary.slice(0, MAX_TITLE_LENGTH),
+        description: event.description?.slice(0, MAX_DESCRIPTION_LENGTH),
+        date,
+        end_date: endDate && endDate > date ? endDate : undefined,
+        city: config.city || '',
+        venue: event.location?.slice(0, MAX_VENUE_LENGTH),
+        category: event.categories[0] || config.category || DEFAULT_CATEGORY,
+        subcategory: event.categories[1],
+        source: 'import',
+        source_id: this.buildSourceId(config.sourceName, event.uid || `${event.summary}|${date}`),
+        url: this.cleanUrl(event.url)
+      });
+    });
+
+    return { events, totalRecords: parsedEvents.length, errors };
+  }
+
+  /**
+   * Convert spreadsheet rows using the configured column mapping
+   */
+  parseCsvEvents(content: string, config: EventImportConfig): EventImportParseResult {
+    const mapping = config.mapping;
+    if (!mapping) {
+      return { events: [], totalRecords: 0, errors: ['CSV imports require a column mapping'] };
+    }
+
+    const { headers, rows } = parseCsv(content, config.delimiter);
+    const missingColumns = Object.values(mapping).filter(column => column && !headers.includes(column));
+    if (missingColumns.length > 0) {
+      return {
+        events: [],
+        totalRecords: rows.length,
+        errors: [`Columns not found in CSV header: ${missingColumns.join(', ')}`]
+      };
+    }
+
+    const events: CreateEventData[] = [];
+    const errors: string[] = [];
+
+    rows.forEach((row, index) => {
+      // Header is line 1
+      const line = index + 2;
+      const value = (column?: string): string | undefined => (column && row[column]) || undefined;
+
+      const title = value(mapping.title);
+      const rawDate = value(mapping.date);
+      if (!title || !rawDate) {
+        errors.push(`Row ${line}: missing title or date`);
+        return;
+      }
+
+      const date = this.parseDate(rawDate);
+      if (!date) {
+        errors.push(`Row ${line}: unrecognised date "${rawDate}"`);
+        return;
+      }
+
+      const rawEndDate = value(mapping.endDate);
+      const endDate = rawEndDate ? this.parseDate(rawEndDate) : null;
+      if (rawEndDate && !endDate) {
+        errors.push(`Row ${line}: unrecognised end date "${rawEndDate}", importing as a single-day event`);
+      }
+
+      events.push({
+        title: title.slice(0, MAX_TITLE_LENGTH),
+        description: value(mapping.description)?.slice(0, MAX_DESCRIPTION_LENGTH),
+        date,
+        end_date: endDate && endDate > date ? endDate : undefined,
+        city: value(mapping.city) || config.city || '',
+        venue: value(mapping.venue)?.slice(0, MAX_VENUE_LENGTH),
+        category: value(mapping.category) || config.category || DEFAULT_CATEGORY,
+        subcategory: value(mapping.subcategory),
+        expected_attendees: this.parseAttendees(value(mapping.expectedAttendees)),
+        source: 'import',
+        source_id: this.buildSourceId(config.sourceName, value(mapping.sourceId) || `${title}|${date}`),
+        url: this.cleanUrl(value(mapping.url)),
+        image_url: this.cleanUrl(value(mapping.imageUrl))
+      });
+    });
+
+    return { events, totalRecords: rows.length, errors };
+  }
+
+  /**
+   * Parse the date formats seen in venue spreadsheets: ISO (2025-04-10),
+   * Czech (10.4.2025 or 10. 4. 2025) and day-first slashes (10/04/2025).
+   * A trailing time is ignored.
+   */
+  parseDate(input: string): string | null {
+    const value = input.trim();
+
+    const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+    if (iso) {
+      return this.formatDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+    }
+
+    const dayFirst = value.match(/^(\d{1,2})\s*[./]\s*(\d{1,2})\s*[./]\s*(\d{4})/);
+    if (dayFirst) {
+      return this.formatDate(Number(dayFirst[3]), Number(dayFirst[2]), Number(dayFirst[1]));
+    }
+
+    return null;
+  }
+
+  /**
+   * Stable per-source ID so re-importing the same feed updates events instead of duplicating them
+   */
+  buildSourceId(sourceName: string, key: string): string {
+    const slug = sourceName.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '').slice(0, 60);
+    const hash = createHash('sha256').update(`${sourceName}|${key}`).digest('hex').substring(0, 16);
+    return `import_${slug}_${hash}`.substring(0, 100);
+  }
+
+  /**
+   * Date of a DTSTART/DTEND value. UTC timestamps are converted to the feed's
+   * time zone; floating and TZID values already carry the local date.
+   */
+  private toEventDate(value: ICalDateValue, timeZone: string): string {
+    if (!value.utc || !value.time) {
+      return value.date;
+    }
+
+    // en-CA formats dates as YYYY-MM-DD
+    return new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit'
+    }).format(new Date(`${value.date}T${value.time}Z`));
+  }
+
+  private addDays(date: string, days: number): string {
+    const result = new Date(`${date}T00:00:00Z`);
+    result.setUTCDate(result.getUTCDate() + days);
+    return result.toISOString().split('T')[0];
+  }
+
+  private formatDate(year: number, month: number, day: number): string | null {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+      return null;
+    }
+    return date.toISOString().split('T')[0];
+  }
+
+  private parseAttendees(value?: string): number | undefined {
+    if (!value) return undefined;
+    const attendees = parseInt(value.replace(/[\s,.]/g, ''), 10);
+    return Number.isFinite(attendees) && attendees >= 0 && attendees <= 1000000 ? attendees : undefined;
+  }
+
+  /**
+   * Keep only absolute http(s) URLs - anything else would fail event validation
+   */
+  private cleanUrl(value?: string): string | undefined {
+    if (!value || value.length > MAX_URL_LENGTH) return undefined;
+    try {
+      const url = new URL(value.trim());
+      return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+// Export singleton instance
+export const eventImportParser = new EventImportParser();
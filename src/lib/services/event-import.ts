@@ -0,0 +1,331 @@
+// src/lib/services/event-import.ts
+import type { Event } from '@/types';
+import type { CreateEventData, DatabaseEvent } from '@/lib/types/events';
+import { serverDatabaseService } from '@/lib/supabase';
+import {
+  CreateEventImportSourceData,
+  EventImportConfig,
+  EventImportRequest,
+  EventImportResult,
+  EventImportSettings,
+  EventImportSource
+} from '@/types/event-import';
+import { aiNormalizationService } from './ai-normalization';
+import { eventDeduplicator } from './event-deduplicator';
+import { eventStorageService } from './event-storage';
+import { eventImportParser } from './event-import-parser';
+
+const FETCH_TIMEOUT_MS = 30000;
+const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+// searchEvents limit - enough for one city over a programme's date range
+const MAX_STORED_EVENTS_PER_CITY = 1000;
+
+/**
+ * Imports venue programmes published as ICS feeds or CSV spreadsheets.
+ * Events go through the same normalization, deduplication and storage
+ * pipeline as other sources.
+ */
+export class EventImportService {
+  private db = serverDatabaseService;
+
+  /**
+   * Run a one-off import from a URL or uploaded content
+   */
+  async importEvents(request: EventImportRequest): Promise<EventImportResult> {
+    const content = request.content ?? (request.url ? await this.fetchContent(request.url) : null);
+    if (content === null) {
+      throw new Error('Either url or content is required');
+    }
+
+    const config: EventImportConfig = {
+      format: request.format,
+      sourceName: request.sourceName,
+      city: request.city,
+      category: request.category,
+      mapping: request.mapping,
+      delimiter: request.delimiter,
+      timeZone: request.timeZone
+    };
+
+    console.log(`📥 Importing ${config.format.toUpperCase()} events for ${config.sourceName}`);
+
+    const parsed = eventImportParser.parse(content, config);
+    const result: EventImportResult = {
+      parsed: parsed.events.length,
+      duplicatesRemoved: 0,
+      created: 0,
+      updated: 0,
+      skipped: 0,
+      errors: [...parsed.errors],
+      events: []
+    };
+
+    if (parsed.events.length === 0) {
+      return result;
+    }
+
+    const normalized = await this.normalizeEvents(parsed.events, result.errors);
+    result.skipped += parsed.events.length - normalized.length;
+
+    const unique = await this.removeStoredDuplicates(normalized);
+    result.duplicatesRemoved = normalized.length - unique.length;
+
+    if (unique.length > 0) {
+      const saveResult = await eventStorageService.saveEvents(unique);
+      result.created = saveResult.created;
+      result.updated = saveResult.updated;
+      result.skipped += saveResult.skipped;
+      result.errors.push(...saveResult.errors);
+    }
+
+    result.events = unique;
+
+    console.log(`✅ Imported ${config.sourceName}: ${result.parsed} parsed, ${result.duplicatesRemoved} duplicates, ${result.created} created, ${result.updated} updated`);
+
+    return result;
+  }
+
+  /**
+   * Import a feed registered in scraper_sources. Called by the scraper on the sync schedule.
+   */
+  async importFromSource(source: { name: string; url: string; config: Record<string, any> }): Promise<EventImportResult> {
+    const settings = source.config as EventImportSettings;
+    if (settings.format !== 'ics' && settings.format !== 'csv') {
+      throw new Error(`Import source ${source.name} has no valid format in its config`);
+    }
+
+    return this.importEvents({
+      ...settings,
+      sourceName: source.name,
+      url: source.url
+    });
+  }
+
+  /**
+   * Register an import so it refreshes with the other scraper sources
+   */
+  async createSource(data: CreateEventImportSourceData): Promise<EventImportSource> {
+    const { data: row, error } = await this.db.executeWithRetry(async () => {
+      return await this.db.getClient()
+        .from('scraper_sources')
+        .insert({
+          name: data.name,
+          url: data.url,
+          type: 'import',
+          enabled: data.enabled ?? true,
+          config: data.config
+        })
+        .select()
+        .single();
+    });
+
+    if (error) {
+      console.error('Failed to create import source:', error);
+      throw error;
+    }
+
+    return this.mapRowToSource(row);
+  }
+
+  /**
+   * List registered import sources
+   */
+  async listSources(): Promise<EventImportSource[]> {
+    const { data, error } = await this.db.executeWithRetry(async () => {
+      return await this.db.getClient()
+        .from('scraper_sources')
+        .select('*')
+        .eq('type', 'import')
+        .order('name');
+    });
+
+    if (error) {
+      console.error('Failed to list import sources:', error);
+      throw error;
+    }
+
+    return (data || []).map((row: any) => this.mapRowToSource(row));
+  }
+
+  /**
+   * Run parsed events through AI normalization. Events whose city cannot be
+   * determined are dropped.
+   */
+  private async normalizeEvents(events: CreateEventData[], errors: string[]): Promise<CreateEventData[]> {
+    const normalized = await aiNormalizationService.normalizeEvents(events.map(event => ({
+      title: event.title,
+      description: event.description,
+      date: event.date,
+      endDate: event.end_date,
+      city: event.city,
+      venue: event.venue,
+      category: event.category,
+      subcategory: event.subcategory,
+      source: event.source,
+      sourceId: event.source_id,
+      url: event.url,
+      imageUrl: event.image_url,
+      expectedAttendees: event.expected_attendees
+    })));
+
+    const result: CreateEventData[] = [];
+    normalized.forEach((event, index) => {
+      const original = events[index];
+      const city = event.city && event.city !== 'Unknown' ? event.city : original.city;
+      if (!city) {
+        errors.push(`Skipped "${original.title}" (${original.date}): city unknown - set a default city or map a city column`);
+        return;
+      }
+
+      result.push({
+        ...original,
+        title: event.title,
+        city,
+        category: event.category
+      });
+    });
+
+    return result;
+  }
+
+  /**
+   * Drop imported events that duplicate events already stored from other
+   * sources, and duplicates within the import itself. Events stored by an
+   * earlier run of the same import share a source_id and are updated instead.
+   */
+  private async removeStoredDuplicates(events: CreateEventData[]): Promise<CreateEventData[]> {
+    const importedById = new Map<string, CreateEventData>();
+    const importedEvents: Event[] = events.map(event => {
+      const id = `import:${event.source_id}`;
+      importedById.set(id, event);
+      return this.toEvent(id, event);
+    });
+    const importedSourceIds = new Set(events.map(event => event.source_id));
+
+    const storedEvents = (await this.getStoredEvents(events))
+      .filter(event => !event.source_id || !importedSourceIds.has(event.source_id));
+    const storedIds = new Set(storedEvents.map(event => event.id));
+
+    let deduplication;
+    try {
+      deduplication = await eventDeduplicator.deduplicateEvents([
+        ...storedEvents.map(event => this.toEvent(event.id, event)),
+        ...importedEvents
+      ]);
+    } catch (error) {
+      // Without embeddings we still avoid re-import duplicates through source_id upserts
+      console.warn('⚠️ Import deduplication unavailable, storing all imported events:', error);
+      return events;
+    }
+
+    const dropped = new Set<string>();
+    for (const group of deduplication.duplicateGroups) {
+      const members = [group.primary, ...group.duplicates.map(duplicate => duplicate.event)];
+      const matchesStoredEvent = members.some(member => storedIds.has(member.id));
+
+      for (const member of members) {
+        if (!importedById.has(member.id)) continue;
+        if (matchesStoredEvent || member !== group.primary) {
+          dropped.add(member.id);
+        }
+      }
+    }
+
+    return importedEvents
+      .filter(event => !dropped.has(event.id))
+      .map(event => importedById.get(event.id)!);
+  }
+
+  /**
+   * Stored events in the cities and date range covered by the import
+   */
+  private async getStoredEvents(events: CreateEventData[]): Promise<DatabaseEvent[]> {
+    const dates = events.map(event => event.date).sort();
+    const cities = Array.from(new Set(events.map(event => event.city)));
+
+    const results = await Promise.all(cities.map(city =>
+      eventStorageService.searchEvents({
+        city,
+        start_date: dates[0],
+        end_date: dates[dates.length - 1],
+        limit: MAX_STORED_EVENTS_PER_CITY,
+        offset: 0
+      }).catch(error => {
+        console.warn(`⚠️ Failed to load stored events for ${city}:`, error);
+        return [] as DatabaseEvent[];
+      })
+    ));
+
+    return results.flat();
+  }
+
+  private toEvent(id: string, event: CreateEventData | DatabaseEvent): Event {
+    return {
+      id,
+      title: event.title,
+      description: event.description,
+      date: event.date,
+      endDate: event.end_date,
+      city: event.city,
+      venue: event.venue,
+      category: event.category,
+      subcategory: event.subcategory,
+      expectedAttendees: event.expected_attendees,
+      source: event.source as Event['source'],
+      sourceId: event.source_id,
+      url: event.url,
+      imageUrl: event.image_url,
+      createdAt: 'created_at' in event ? event.created_at : new Date().toISOString(),
+      updatedAt: 'updated_at' in event ? event.updated_at : new Date().toISOString()
+    };
+  }
+
+  /**
+   * Download a feed or spreadsheet, refusing anything larger than MAX_IMPORT_BYTES
+   */
+  private async fetchContent(url: string): Promise<string> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(url, {
+        headers: { 'Accept': 'text/calendar, text/csv, text/plain, */*' },
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`);
+      }
+
+      const contentLength = Number(response.headers.get('content-length') || 0);
+      if (contentLength > MAX_IMPORT_BYTES) {
+        throw new Error(`Import file is too large (${contentLength} bytes, max ${MAX_IMPORT_BYTES})`);
+      }
+
+      const content = await response.text();
+      if (content.length > MAX_IMPORT_BYTES) {
+        throw new Error(`Import file is too large (max ${MAX_IMPORT_BYTES} bytes)`);
+      }
+
+      return content;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  private mapRowToSource(row: any): EventImportSource {
+    return {
+      id: row.id,
+      name: row.name,
+      url: row.url,
+      enabled: row.enabled,
+      config: row.config || {},
+      lastScrapedAt: row.last_scraped_at || null,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+}
+
+// Export singleton instance
+export const eventImportService = new EventImportService();
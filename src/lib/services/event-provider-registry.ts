@@ -0,0 +1,125 @@
+// src/lib/services/event-provider-registry.ts
+import { Event } from '@/types';
+import type {
+  EventProvider,
+  EventProviderHealth,
+  EventProviderQuery
+} from '@/types/event-providers';
+import { checkRateLimit, MemoryRateLimitStore } from '@/lib/utils/rate-limit-store';
+import {
+  brnoEventProvider,
+  eventbriteEventProvider,
+  meetupEventProvider,
+  predicthqEventProvider,
+  scrapedEventProvider,
+  ticketmasterEventProvider
+} from './event-providers';
+
+/**
+ * Raised when a provider fetch exceeds the provider's timeout
+ */
+export class EventProviderTimeoutError extends Error {
+  constructor(providerId: string, timeoutMs: number) {
+    super(`${providerId} did not respond within ${timeoutMs}ms`);
+    this.name = 'EventProviderTimeoutError';
+  }
+}
+
+/**
+ * Raised when a provider's request budget for the current window is spent
+ */
+export class EventProviderRateLimitError extends Error {
+  constructor(providerId: string, public retryAfter?: number) {
+    super(`${providerId} request budget exhausted${retryAfter ? `, retry in ${retryAfter}s` : ''}`);
+    this.name = 'EventProviderRateLimitError';
+  }
+}
+
+/**
+ * Registry of event providers. Conflict analyses, scheduled syncs and the USP
+ * data all read their sources from here, so a new provider only needs an
+ * EventProvider implementation and a register() call below.
+ */
+export class EventProviderRegistry {
+  private providers = new Map<string, EventProvider>();
+  // Provider budgets are counted per instance, without database or auth access
+  private budgets = new MemoryRateLimitStore();
+
+  register(provider: EventProvider): void {
+    if (this.providers.has(provider.info.id)) {
+      throw new Error(`Event provider ${provider.info.id} is already registered`);
+    }
+    this.providers.set(provider.info.id, provider);
+  }
+
+  get(id: string): EventProvider | null {
+    return this.providers.get(id) || null;
+  }
+
+  list(): EventProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  /**
+   * Active, configured providers that have events for the city
+   */
+  getProvidersForCity(city: string): EventProvider[] {
+    return this.list().filter(provider =>
+      provider.info.status === 'active' &&
+      provider.isConfigured() &&
+      provider.supportsCity(city)
+    );
+  }
+
+  /**
+   * Configured providers whose events scheduled syncs store
+   */
+  getSyncProviders(): EventProvider[] {
+    return this.list().filter(provider =>
+      provider.info.capabilities.includes('scheduled-sync') &&
+      provider.isConfigured() &&
+      (provider.info.syncCities?.length || 0) > 0
+    );
+  }
+
+  /**
+   * Fetch events from a provider within its request budget and timeout
+   */
+  async fetchFromProvider(provider: EventProvider, query: EventProviderQuery): Promise<Event[]> {
+    const { maxRequests, windowMs } = provider.info.rateLimit;
+    const budget = await checkRateLimit(`provider:${provider.info.id}`, maxRequests, windowMs, this.budgets);
+    if (!budget.success) {
+      throw new EventProviderRateLimitError(provider.info.id, budget.retryAfter);
+    }
+
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(
+        () => reject(new EventProviderTimeoutError(provider.info.id, provider.info.timeoutMs)),
+        provider.info.timeoutMs
+      );
+    });
+
+    try {
+      return await Promise.race([provider.fetchEvents(query), timeout]);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Health of every registered provider
+   */
+  async checkHealth(): Promise<EventProviderHealth[]> {
+    return Promise.all(this.list().map(provider => provider.healthCheck()));
+  }
+}
+
+// Export singleton instance
+export const eventProviderRegistry = new EventProviderRegistry();
+eventProviderRegistry.register(ticketmasterEventProvider);
+eventProviderRegistry.register(predicthqEventProvider);
+eventProviderRegistry.register(eventbriteEventProvider);
+eventProviderRegistry.register(meetupEventProvider);
+eventProviderRegistry.register(brnoEventProvider);
+eventProviderRegistry.register(scrapedEventProvider);
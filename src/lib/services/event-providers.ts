@@ -0,0 +1,647 @@
+// src/lib/services/event-providers.ts
+import { Event } from '@/types';
+import type {
+  EventProvider,
+  EventProviderHealth,
+  EventProviderInfo,
+  EventProviderQuery
+} from '@/types/event-providers';
+import { serverDatabaseService } from '@/lib/supabase';
+import { getCityCountryCode } from '@/lib/utils/city-country-mapping';
+import { getCategorySynonyms, normalizeCategory } from '@/lib/constants/taxonomy';
+import { SCRAPER_SOURCES } from '@/lib/constants/event-sources';
+import { ticketmasterService } from './ticketmaster';
+import { predicthqService } from './predicthq';
+import { brnoEventsService } from './brno';
+import { eventbriteService } from './eventbrite';
+import { meetupService } from './meetup';
+import { cityRecognitionService } from './city-recognition';
+import { aiNormalizationService } from './ai-normalization';
+import { cityNormalizationService } from './city-normalization';
+
+const KM_PER_MILE = 1.609344;
+
+// Cities whose events scheduled syncs store
+const CZECH_SYNC_CITIES = ['Prague', 'Brno', 'Ostrava', 'Olomouc', 'Plzen', 'Liberec', 'Hradec Králové'];
+const PREDICTHQ_SYNC_CITIES = [
+  'Prague', 'Brno', 'Ostrava', 'Olomouc', 'Plzen', 'Hradec Králové', 'Liberec', 'Pardubice', 'Zlín', 'Havířov',
+  'Kladno', 'Most', 'Karlovy Vary', 'Jihlava', 'Třebíč', 'Jablonec nad Nisou', 'Mělník', 'Nový Jičín',
+  'Frýdek-Místek', 'Opava', 'Děčín', 'Chrudim', 'Trutnov', 'Mladá Boleslav', 'Příbram', 'Byškovice',
+  'Jindřichův Hradec'
+];
+
+/**
+ * Time a health probe and turn its outcome into an EventProviderHealth
+ */
+async function probeHealth(
+  provider: EventProvider,
+  probe: () => Promise<unknown>
+): Promise<EventProviderHealth> {
+  const startTime = Date.now();
+  const checkedAt = new Date().toISOString();
+
+  if (!provider.isConfigured()) {
+    return {
+      provider: provider.info.id,
+      healthy: false,
+      configured: false,
+      latencyMs: 0,
+      message: 'Provider is not configured',
+      checkedAt
+    };
+  }
+
+  try {
+    await probe();
+    return {
+      provider: provider.info.id,
+      healthy: true,
+      configured: true,
+      latencyMs: Date.now() - startTime,
+      checkedAt
+    };
+  } catch (error) {
+    return {
+      provider: provider.info.id,
+      healthy: false,
+      configured: true,
+      latencyMs: Date.now() - startTime,
+      message: error instanceof Error ? error.message : 'Unknown error',
+      checkedAt
+    };
+  }
+}
+
+/**
+ * Ticketmaster Discovery API
+ */
+export class TicketmasterEventProvider implements EventProvider {
+  readonly info: EventProviderInfo = {
+    id: 'ticketmaster',
+    name: 'Ticketmaster Discovery',
+    type: 'api',
+    status: 'active',
+    description: 'Global event discovery API covering concerts, sports, and entertainment events',
+    endpoint: 'https://app.ticketmaster.com/discovery/v2/',
+    coverage: ['Global'],
+    capabilities: ['radius-search', 'category-filter', 'scheduled-sync'],
+    rateLimit: { maxRequests: 5, windowMs: 1000 }, // Discovery API allows 5 requests per second
+    timeoutMs: 8000,
+    syncCities: CZECH_SYNC_CITIES
+  };
+
+  isConfigured(): boolean {
+    const apiKey = process.env.TICKETMASTER_API_KEY;
+    return !!(apiKey && apiKey.length > 10 && !apiKey.includes('your_') && !apiKey.includes('here'));
+  }
+
+  supportsCity(): boolean {
+    return true;
+  }
+
+  async fetchEvents(query: EventProviderQuery): Promise<Event[]> {
+    return this.searchCity({
+      city: query.city,
+      startDate: query.startDate,
+      endDate: query.endDate,
+      category: query.category,
+      radius: query.radiusKm ? String(Math.round(query.radiusKm / KM_PER_MILE)) : undefined,
+      size: query.size,
+      useComprehensiveFallback: true
+    });
+  }
+
+  async fetchAllEvents(city: string, startDate: string, endDate: string): Promise<Event[]> {
+    return ticketmasterService.getEventsForCity(city, startDate, endDate);
+  }
+
+  /**
+   * Search strategy for a city and date range: the primary category first, up to
+   * two related Ticketmaster classifications when it finds nothing, then the
+   * comprehensive fallback and, for Czech cities, the country-wide search.
+   * `radius` is in miles.
+   */
+  async searchCity(options: {
+    city: string;
+    startDate: string;
+    endDate: string;
+    category?: string;
+    classifications?: string[];
+    radius?: string;
+    size?: number;
+    useComprehensiveFallback?: boolean;
+  }): Promise<Event[]> {
+    const { city, startDate, endDate, category, radius, useComprehensiveFallback } = options;
+    const size = options.size || 25;
+    const classifications = options.classifications || this.getExpandedClassifications(category || '');
+
+    console.log('🎟️ Using expanded category search for city search:', {
+      city,
+      startDate,
+      endDate,
+      primaryCategory: category,
+      classifications,
+      radius,
+      useComprehensiveFallback
+    });
+
+    // Optimized search strategy: Start with primary category, then try broader search if needed
+    const allEvents: Event[] = [];
+
+    try {
+      const ticketmasterClassification = category ? ticketmasterService.mapCategoryToTicketmaster(category) : undefined;
+      console.log(`🎟️ Ticketmaster: Mapped category "${category}" to "${ticketmasterClassification}"`);
+
+      // For Prague, use country-based search with AI city detection directly
+      let primaryResult;
+      if (city.toLowerCase() === 'prague') {
+        console.log(`🎟️ Using country-based search with AI city detection for Prague`);
+        primaryResult = await ticketmasterService.getEventsByCountryWithAICityDetection(city, 'CZ', startDate, endDate, category);
+      } else {
+        console.log(`🎟️ Using standard search for ${city}`);
+        primaryResult = await ticketmasterService.getEvents({
+          city,
+          countryCode: getCityCountryCode(city),
+          radius,
+          startDateTime: `${startDate}T00:00:00Z`,
+          endDateTime: `${endDate}T23:59:59Z`,
+          classificationName: ticketmasterClassification,
+          page: 0,
+          size: Math.min(size, 50),
+        });
+      }
+
+      allEvents.push(...primaryResult.events);
+      console.log(`🎟️ Found ${primaryResult.events.length} events for primary category "${category}"`);
+
+      // Only try additional categories if primary search returned no results, to avoid rate limiting
+      if (primaryResult.events.length === 0) {
+        console.log(`🎟️ Primary search returned no results, trying additional categories...`);
+
+        for (const searchCategory of classifications.slice(1, 3)) { // Limit to 2 additional categories
+          try {
+            // Add delay between requests to respect rate limits
+            await new Promise(resolve => setTimeout(resolve, 500));
+
+            const mappedCategory = ticketmasterService.mapCategoryToTicketmaster(searchCategory);
+            console.log(`🎟️ Ticketmaster: Mapped additional category "${searchCategory}" to "${mappedCategory}"`);
+
+            const result = await ticketmasterService.getEvents({
+              city,
+              countryCode: getCityCountryCode(city),
+              radius,
+              startDateTime: `${startDate}T00:00:00Z`,
+              endDateTime: `${endDate}T23:59:59Z`,
+              classificationName: mappedCategory,
+              page: 0,
+              size: 10, // Smaller size for additional searches
+            });
+
+            allEvents.push(...result.events);
+            console.log(`🎟️ Found ${result.events.length} events for category "${searchCategory}"`);
+
+            if (result.events.length > 0) {
+              break;
+            }
+          } catch (error) {
+            console.warn(`🎟️ Failed to search category "${searchCategory}":`, error);
+            // If we hit rate limits, stop trying additional categories
+            if (error instanceof Error && (error.message.includes('429') || error.message.includes('rate limit'))) {
+              console.log(`🎟️ Rate limit hit, stopping additional category searches`);
+              break;
+            }
+          }
+        }
+      }
+    } catch (error) {
+      console.warn(`🎟️ Primary search failed:`, error);
+    }
+
+    let events = this.removeDuplicateEvents(allEvents).slice(0, size);
+    console.log(`🎟️ Total unique events found: ${events.length} (from ${allEvents.length} total)`);
+
+    if (events.length === 0 && useComprehensiveFallback) {
+      console.log('🎟️ Ticketmaster: No events found with direct search, trying comprehensive fallback');
+      events = await ticketmasterService.getEventsWithComprehensiveFallback(city, startDate, endDate, category, radius || '50');
+    }
+
+    // If no events found for Czech cities, use country-based search with AI city detection
+    if (events.length === 0 && (city.toLowerCase() === 'prague' || city.toLowerCase().includes('czech'))) {
+      console.log(`🎟️ Ticketmaster: No events found for ${city}, trying country-based search with AI city detection`);
+
+      try {
+        const countryResult = await ticketmasterService.getEventsByCountryWithAICityDetection(city, 'CZ', startDate, endDate, category);
+        if (countryResult.events.length > 0) {
+          console.log(`🎟️ Ticketmaster: Country-based search found ${countryResult.events.length} events for ${city}`);
+          events = countryResult.events;
+        }
+      } catch (error) {
+        console.warn('🎟️ Ticketmaster: Alternative Prague search failed:', error);
+      }
+    }
+
+    return events;
+  }
+
+  async healthCheck(): Promise<EventProviderHealth> {
+    return probeHealth(this, () => ticketmasterService.testBasicConnection());
+  }
+
+  /**
+   * Ticketmaster classifications related to a category
+   */
+  private getExpandedClassifications(primaryCategory: string): string[] {
+    const ticketmasterExpansions: Record<string, string[]> = {
+      'Entertainment': ['Music', 'Arts & Theatre', 'Film'],
+      'Music': ['Music'],
+      'Arts & Culture': ['Arts & Theatre'],
+      'Sports': ['Sports'],
+      'Film': ['Film'],
+      'Theater': ['Arts & Theatre'],
+      'Comedy': ['Arts & Theatre'],
+      'Dance': ['Arts & Theatre'],
+      'Opera': ['Arts & Theatre'],
+
+      // Business categories have no own classification
+      'Business': ['Miscellaneous'],
+      'Technology': ['Miscellaneous'],
+      'Marketing': ['Miscellaneous'],
+      'Finance': ['Miscellaneous'],
+      'Healthcare': ['Miscellaneous'],
+      'Education': ['Miscellaneous'],
+      'Academic': ['Miscellaneous'],
+      'Professional Development': ['Miscellaneous'],
+      'Networking': ['Miscellaneous'],
+      'Conferences': ['Miscellaneous'],
+      'Trade Shows': ['Miscellaneous'],
+      'Workshops': ['Miscellaneous'],
+      'Seminars': ['Miscellaneous'],
+    };
+
+    return ticketmasterExpansions[primaryCategory] || [primaryCategory];
+  }
+
+  private removeDuplicateEvents(events: Event[]): Event[] {
+    const uniqueEvents: Event[] = [];
+    const seenEvents = new Set<string>();
+
+    for (const event of events) {
+      const eventKey = `${event.title}-${event.date}-${event.venue || ''}`;
+      if (!seenEvents.has(eventKey)) {
+        seenEvents.add(eventKey);
+        uniqueEvents.push(event);
+      }
+    }
+
+    return uniqueEvents;
+  }
+}
+
+/**
+ * PredictHQ API. Inactive in analyses; its events are still stored by scheduled syncs.
+ */
+export class PredictHQEventProvider implements EventProvider {
+  readonly info: EventProviderInfo = {
+    id: 'predicthq',
+    name: 'PredictHQ',
+    type: 'api',
+    status: 'inactive',
+    description: 'Event intelligence API with attendance predictions and local impact rankings',
+    endpoint: 'https://api.predicthq.com/v1/',
+    coverage: ['Global'],
+    capabilities: ['radius-search', 'category-filter', 'attendance-estimates', 'scheduled-sync'],
+    rateLimit: { maxRequests: 10, windowMs: 1000 },
+    timeoutMs: 10000,
+    syncCities: PREDICTHQ_SYNC_CITIES
+  };
+
+  isConfigured(): boolean {
+    return !!process.env.PREDICTHQ_API_KEY;
+  }
+
+  supportsCity(): boolean {
+    return true;
+  }
+
+  async fetchEvents(query: EventProviderQuery): Promise<Event[]> {
+    if (query.radiusKm) {
+      return predicthqService.getEventsWithRadius(
+        query.city,
+        query.startDate,
+        query.endDate,
+        `${query.radiusKm}km`,
+        query.category
+      );
+    }
+    return predicthqService.getEventsForCity(query.city, query.startDate, query.endDate, query.category);
+  }
+
+  async fetchAllEvents(city: string, startDate: string, endDate: string): Promise<Event[]> {
+    return predicthqService.getEventsForCity(city, startDate, endDate);
+  }
+
+  async healthCheck(): Promise<EventProviderHealth> {
+    return probeHealth(this, () => predicthqService.getEvents({ limit: 1 }));
+  }
+}
+
+/**
+ * Eventbrite, read from the configured organisers (Czech tech meetups and workshops)
+ */
+export class EventbriteEventProvider implements EventProvider {
+  readonly info: EventProviderInfo = {
+    id: 'eventbrite',
+    name: 'Eventbrite',
+    type: 'api',
+    status: 'active',
+    description: 'Event discovery and ticketing platform where most Czech tech meetups and workshops are ticketed',
+    endpoint: 'https://www.eventbriteapi.com/v3/',
+    coverage: ['Global'],
+    capabilities: ['attendance-estimates', 'scheduled-sync'],
+    rateLimit: { maxRequests: 100, windowMs: 60 * 60 * 1000 }, // Each fetch pages through every organiser; the API allows 2,000 calls per hour
+    timeoutMs: 8000,
+    syncCities: CZECH_SYNC_CITIES
+  };
+
+  isConfigured(): boolean {
+    return eventbriteService.isConfigured();
+  }
+
+  supportsCity(): boolean {
+    return true;
+  }
+
+  async fetchEvents(query: EventProviderQuery): Promise<Event[]> {
+    const events = await this.fetchAllEvents(query.city, query.startDate, query.endDate);
+    return query.size ? events.slice(0, query.size) : events;
+  }
+
+  async fetchAllEvents(city: string, startDate: string, endDate: string): Promise<Event[]> {
+    return eventbriteService.getEventsForCity([city, ...cityRecognitionService.getCityAliases(city)], startDate, endDate);
+  }
+
+  async healthCheck(): Promise<EventProviderHealth> {
+    return probeHealth(this, () => eventbriteService.testConnection());
+  }
+}
+
+/**
+ * Meetup group events around a city's centre, with RSVP counts as attendance
+ */
+export class MeetupEventProvider implements EventProvider {
+  readonly info: EventProviderInfo = {
+    id: 'meetup',
+    name: 'Meetup',
+    type: 'api',
+    status: 'active',
+    description: 'Community events and meetups platform',
+    endpoint: 'https://api.meetup.com/gql',
+    coverage: ['Global'],
+    capabilities: ['radius-search', 'attendance-estimates', 'scheduled-sync'],
+    rateLimit: { maxRequests: 30, windowMs: 60 * 1000 }, // Each fetch may page through several requests; the API allows 500 points per minute
+    timeoutMs: 10000,
+    syncCities: CZECH_SYNC_CITIES
+  };
+
+  isConfigured(): boolean {
+    return meetupService.isConfigured();
+  }
+
+  supportsCity(city: string): boolean {
+    return !!this.resolveCity(city);
+  }
+
+  async fetchEvents(query: EventProviderQuery): Promise<Event[]> {
+    const events = await meetupService.getEventsForCity({
+      city: this.resolveCity(query.city) || query.city,
+      startDate: query.startDate,
+      endDate: query.endDate,
+      radiusKm: query.radiusKm
+    });
+    return query.size ? events.slice(0, query.size) : events;
+  }
+
+  async fetchAllEvents(city: string, startDate: string, endDate: string): Promise<Event[]> {
+    return meetupService.getEventsForCity({ city: this.resolveCity(city) || city, startDate, endDate });
+  }
+
+  async healthCheck(): Promise<EventProviderHealth> {
+    return probeHealth(this, () => meetupService.testConnection());
+  }
+
+  /**
+   * The city, or the first alias of it, that Meetup has a search centre for
+   */
+  private resolveCity(city: string): string | undefined {
+    return [city, ...cityRecognitionService.getCityAliases(city)].find(name => meetupService.hasCoordinates(name));
+  }
+}
+
+/**
+ * Official events feed of the City of Brno
+ */
+export class BrnoEventProvider implements EventProvider {
+  readonly info: EventProviderInfo = {
+    id: 'brno',
+    name: 'Brno official events',
+    type: 'local',
+    status: 'active',
+    description: 'Local event data for Brno, Czech Republic',
+    endpoint: 'https://services6.arcgis.com/fUWVlHWZNxUvTUh8/arcgis/rest/services/Events/FeatureServer/0/',
+    coverage: ['Brno, Czech Republic'],
+    capabilities: [],
+    rateLimit: { maxRequests: 60, windowMs: 60 * 1000 },
+    timeoutMs: 6000
+  };
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  supportsCity(city: string): boolean {
+    return city.trim().toLowerCase() === 'brno';
+  }
+
+  async fetchEvents(query: EventProviderQuery): Promise<Event[]> {
+    return brnoEventsService.getEvents({
+      startDate: query.startDate,
+      endDate: query.endDate,
+      pageSize: 200
+    });
+  }
+
+  async healthCheck(): Promise<EventProviderHealth> {
+    return probeHealth(this, () => brnoEventsService.getEvents({ pageSize: 1 }));
+  }
+}
+
+/**
+ * Events stored by the local website scrapers (GoOut, BrnoExpat, Firecrawl, AgentQL)
+ */
+export class ScrapedEventProvider implements EventProvider {
+  readonly info: EventProviderInfo = {
+    id: 'scraped',
+    name: 'Local Website Scraping',
+    type: 'scraper',
+    status: 'active',
+    description: 'Automated web scraping from thousands of local event websites and calendars to capture comprehensive event coverage across Czech cities',
+    coverage: ['Multiple Cities, Czech Republic'],
+    capabilities: ['category-filter'],
+    rateLimit: { maxRequests: 120, windowMs: 60 * 1000 },
+    timeoutMs: 6000
+  };
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  supportsCity(): boolean {
+    return true;
+  }
+
+  async fetchEvents(query: EventProviderQuery): Promise<Event[]> {
+    const { events } = await this.queryEvents({
+      city: query.city,
+      startDate: query.startDate,
+      endDate: query.endDate,
+      category: query.category,
+      limit: query.size
+    });
+    return events;
+  }
+
+  /**
+   * Query stored scraped events. Cities match their aliases (Praha/Prague) and
+   * categories their taxonomy synonyms; results are AI-normalized.
+   */
+  async queryEvents(filters: {
+    city?: string;
+    startDate?: string;
+    endDate?: string;
+    category?: string;
+    search?: string;
+    page?: number;
+    limit?: number;
+  }): Promise<{ events: Event[]; total: number }> {
+    const page = Math.max(0, filters.page || 0);
+    const limit = Math.min(100, filters.limit || 25);
+
+    // Normalize city name for database queries (e.g., "Praha" -> "Prague")
+    // This ensures we find events stored with either Czech or English city names
+    let normalizedCity = filters.city;
+    let cityAliases: string[] = [];
+    if (filters.city) {
+      const cityNormalization = await cityNormalizationService.normalizeCityForAPI(filters.city);
+      normalizedCity = cityNormalization.normalized;
+      cityAliases = cityNormalization.aliases;
+      console.log(`✅ City normalized: "${filters.city}" -> "${normalizedCity}" (aliases: ${cityAliases.length})`);
+    }
+
+    // Build query - include all scraper sources
+    let query = serverDatabaseService.getClient()
+      .from('events')
+      .select('*')
+      .in('source', SCRAPER_SOURCES)
+      .order('date', { ascending: true });
+
+    if (filters.startDate) {
+      query = query.gte('date', `${filters.startDate}T00:00:00Z`);
+    }
+
+    if (filters.endDate) {
+      query = query.lte('date', `${filters.endDate}T23:59:59Z`);
+    }
+
+    if (normalizedCity) {
+      // Query using normalized city and aliases for fuzzy matching
+      const citySearchTerms = [normalizedCity, ...cityAliases.slice(0, 5)]; // Limit aliases to avoid too many OR conditions
+      query = query.or(citySearchTerms.map(term => `city.ilike.*${term}*`).join(','));
+    }
+
+    if (filters.category) {
+      // Use AI-first category matching with synonyms
+      const synonyms = getCategorySynonyms(normalizeCategory(filters.category));
+      query = query.or(synonyms.map(syn => `category.ilike.*${syn}*`).join(','));
+    }
+
+    if (filters.search) {
+      // Use * for wildcards in ilike operator
+      query = query.or(`title.ilike.*${filters.search}*,description.ilike.*${filters.search}*,venue.ilike.*${filters.search}*`);
+    }
+
+    const from = page * limit;
+    query = query.range(from, from + limit - 1);
+
+    const { data: rows, error, count } = await serverDatabaseService.executeWithRetry(async () => {
+      return await query;
+    });
+
+    if (error) {
+      console.error('❌ Scraped events query failed:', error);
+      throw new Error(`Database query failed: ${error.message}`);
+    }
+
+    const rawEvents = (rows || []).map((event: any) => ({
+      id: event.id,
+      title: event.title,
+      description: event.description,
+      date: event.date,
+      endDate: event.end_date,
+      city: event.city,
+      venue: event.venue,
+      category: event.category,
+      subcategory: event.subcategory,
+      expectedAttendees: event.expected_attendees,
+      source: event.source,
+      sourceId: event.source_id,
+      url: event.url,
+      imageUrl: event.image_url
+    }));
+
+    const normalizedEvents = await aiNormalizationService.normalizeEvents(rawEvents);
+
+    const events = normalizedEvents.map(event => ({
+      id: event.id,
+      title: event.title,
+      description: event.description,
+      date: event.date,
+      endDate: event.endDate,
+      city: event.city,
+      venue: event.venue,
+      category: event.category,
+      subcategory: event.subcategory,
+      expectedAttendees: event.expectedAttendees,
+      source: event.source,
+      sourceId: event.sourceId,
+      url: event.url,
+      imageUrl: event.imageUrl,
+      createdAt: (event.rawData as any).createdAt || new Date().toISOString(),
+      updatedAt: (event.rawData as any).updatedAt || new Date().toISOString(),
+      // Add AI metadata (optional for backward compatibility)
+      ...(event.confidence && { confidence: event.confidence }),
+      ...(event.confidence && { normalized: true })
+    })) as Event[];
+
+    return { events, total: count || events.length };
+  }
+
+  async healthCheck(): Promise<EventProviderHealth> {
+    return probeHealth(this, async () => {
+      const { error } = await serverDatabaseService.getClient()
+        .from('events')
+        .select('id', { count: 'exact', head: true })
+        .in('source', SCRAPER_SOURCES);
+      if (error) {
+        throw new Error(error.message);
+      }
+    });
+  }
+}
+
+// Export singleton instances
+export const ticketmasterEventProvider = new TicketmasterEventProvider();
+export const predicthqEventProvider = new PredictHQEventProvider();
+export const eventbriteEventProvider = new EventbriteEventProvider();
+export const meetupEventProvider = new MeetupEventProvider();
+export const brnoEventProvider = new BrnoEventProvider();
+export const scrapedEventProvider = new ScrapedEventProvider();
@@ -9,12 +9,17 @@ import { CrawlConfigurationService } from '@/lib/services/crawl-configuration.se
 import { CrawlConfig } from '@/lib/types/crawl';
 import OpenAI from 'openai';
 import { eventCleaningService } from './event-cleaning.service';
+import { watchlistService } from './watchlist';
+import { webhookService } from './webhooks';
+import { eventImportService } from './event-import';
+import { getSiteParser } from './site-parsers';
+import { observabilityService } from './observability';
 
 interface ScraperSource {
   id: string;
   name: string;
   url: string;
-  type: 'firecrawl' | 'agentql' | 'api';
+  type: 'firecrawl' | 'agentql' | 'api' | 'import';
   enabled: boolean;
   config: Record<string, any>;
   last_scraped_at?: string;
@@ -90,9 +95,13 @@ export class EventScraperService {
   }
 
   /**
-   * Scrape events from a specific source
+   * Scrape events from a specific source.
+   * Watchlists are re-scored afterwards unless the caller does it once for a batch of sources.
    */
-  async scrapeSource(sourceId: string): Promise<CreateEventData[]> {
+  async scrapeSource(
+    sourceId: string,
+    options: { rescoreWatchlists?: boolean } = {}
+  ): Promise<CreateEventData[]> {
     console.log(`🔍 Scraping source: ${sourceId}`);
     
     try {
@@ -112,6 +121,7 @@ export class EventScraperService {
       
       try {
         let events: CreateEventData[] = [];
+        let importResult: ScraperResult | null = null;
         
         switch (source.type) {
           case 'firecrawl':
@@ -123,12 +133,19 @@ export class EventScraperService {
           case 'api':
             events = await this.scrapeWithAPI(source);
             break;
+          case 'import': {
+            // ICS/CSV imports run their own normalization, deduplication and storage
+            const imported = await eventImportService.importFromSource(source);
+            events = imported.events;
+            importResult = imported;
+            break;
+          }
           default:
             throw new Error(`Unsupported scraper type: ${source.type}`);
         }
         
         // Process and store events
-        const result = await this.processScrapedEvents(events, source.name);
+        const result = importResult || await this.processScrapedEvents(events, source.name);
         
         // Complete sync log with enhanced metrics
         await this.completeSyncLog(syncLogId, 'success', {
@@ -141,6 +158,11 @@ export class EventScraperService {
         });
         
         console.log(`✅ Scraped ${events.length} events from ${source.name} (${result.created} created, ${result.skipped} skipped)`);
+
+        if (options.rescoreWatchlists !== false && result.created + result.updated > 0) {
+          await this.rescoreWatchlists();
+        }
+
         return events;
         
       } catch (error) {
@@ -177,7 +199,7 @@ export class EventScraperService {
       for (const source of sources) {
         try {
           console.log(`🔍 Scraping source: ${source.name}`);
-          const events = await this.scrapeSource(source.id);
+          const events = await this.scrapeSource(source.id, { rescoreWatchlists: false });
           
           // Count results
           const eventsToStore = events.filter(event => {
@@ -196,6 +218,12 @@ export class EventScraperService {
       }
       
       console.log(`✅ Scraping completed: ${result.created} created, ${result.skipped} skipped, ${result.errors.length} errors`);
+
+      // Re-check watched dates once for the whole batch
+      if (result.created > 0) {
+        await this.rescoreWatchlists();
+      }
+
       return result;
       
     } catch (error) {
@@ -475,7 +503,7 @@ export class EventScraperService {
             if (!markdown && !html) continue;
             
             // Extract URLs from listing pages (quick pass)
-            const extracted = await this.extractEventsGeneric({ markdown, html }, source.name);
+            const extracted = await this.extractEventsGeneric({ markdown, html, url: page.url }, source.name);
             extracted.forEach(e => {
               if (e.url) {
                 eventUrls.add(e.url);
@@ -528,7 +556,7 @@ export class EventScraperService {
                   }
                   
                   // Extract events from the detail page
-                  const extracted = await this.extractEventsGeneric({ markdown, html }, source.name);
+                  const extracted = await this.extractEventsGeneric({ markdown, html, url: eventUrl }, source.name);
                   if (extracted.length === 0) {
                     console.warn(`⚠️ No events extracted from event detail page: ${eventUrl}`);
                     return null;
@@ -626,7 +654,7 @@ export class EventScraperService {
             const html = (page as any).html || '';
             if (!markdown && !html) continue;
             pagesProcessed++;
-            const events = await this.extractEventsGeneric({ markdown, html }, source.name);
+            const events = await this.extractEventsGeneric({ markdown, html, url: page.url }, source.name);
             
             // Phase 2: Enhanced Diagnostic Logging - Log events per page
             const contentLength = (markdown || html || '').length;
@@ -706,7 +734,7 @@ export class EventScraperService {
                 pagesProcessed++;
                 
                 // Extract event URLs from pagination pages
-                const extracted = await this.extractEventsGeneric({ markdown, html }, source.name);
+                const extracted = await this.extractEventsGeneric({ markdown, html, url: page.url }, source.name);
                 const htmlLinks = this.extractEventLinksFromHTML(html, pagUrl);
                 const eventUrlsFromPage = new Set<string>();
                 extracted.forEach(e => {
@@ -733,7 +761,7 @@ export class EventScraperService {
                       const eventHtml: string = (scrapeResult?.html) || (scrapeResult?.data?.html) || '';
                       
                       if (eventMarkdown || eventHtml) {
-                        const eventExtracted = await this.extractEventsGeneric({ markdown: eventMarkdown, html: eventHtml }, source.name);
+                        const eventExtracted = await this.extractEventsGeneric({ markdown: eventMarkdown, html: eventHtml, url: eventUrl }, source.name);
                         if (eventExtracted.length > 0) {
                           const event = eventExtracted[0];
                           if (!event.url) event.url = eventUrl;
@@ -824,7 +852,7 @@ export class EventScraperService {
           console.warn('⚠️ Firecrawl returned no content (markdown/html)');
         }
 
-        const extracted = await this.extractEventsGeneric({ markdown, html }, source.name);
+        const extracted = await this.extractEventsGeneric({ markdown, html, url: source.url }, source.name);
         // Clean events before transformation
         const cleanedExtracted = extracted.map(e => eventCleaningService.cleanEvent(e, source.name));
         lastEvents = cleanedExtracted
@@ -903,7 +931,7 @@ export class EventScraperService {
             const md = (page as any).markdown || (page as any).content || '';
             const h = (page as any).html || '';
             if (!md && !h) continue;
-            const evts = await this.extractEventsGeneric({ markdown: md, html: h }, source.name);
+            const evts = await this.extractEventsGeneric({ markdown: md, html: h, url: page.url }, source.name);
             // Clean events before transformation
             const cleanedEvts = evts.map(e => eventCleaningService.cleanEvent(e, source.name));
             const transformedEvts = cleanedEvts
@@ -937,7 +965,7 @@ export class EventScraperService {
             const md2 = (page as any).markdown || (page as any).content || '';
             const h2 = (page as any).html || '';
             if (!md2 && !h2) continue;
-            const ev2 = await this.extractEventsGeneric({ markdown: md2, html: h2 }, source.name);
+            const ev2 = await this.extractEventsGeneric({ markdown: md2, html: h2, url: page.url }, source.name);
             // Clean events before transformation
             const cleanedEv2 = ev2.map(e => eventCleaningService.cleanEvent(e, source.name));
             const transformedEv2 = cleanedEv2
@@ -1396,13 +1424,19 @@ CRITICAL REMINDERS FOR RETRY:
   }
 
   /**
-   * Generic extraction flow: structured-data first, then chunked LLM
+   * Generic extraction flow: the site's dedicated parser when it has one, then
+   * structured data, then chunked LLM
    */
   private async extractEventsGeneric(
-    content: { markdown: string; html: string },
+    content: { markdown: string; html: string; url?: string },
     sourceName: string
   ): Promise<ScrapedEvent[]> {
     const { markdown, html } = content;
+    const parsed = await this.extractEventsWithSiteParser(content, sourceName);
+    if (parsed) {
+      return this.postNormalizeAndFilter(parsed);
+    }
+
     const structured = this.extractEventsFromStructuredData(html || markdown || '');
     if (structured.length > 0) {
       console.log(`🔍 Structured data extraction found ${structured.length} events`);
@@ -1445,6 +1479,67 @@ CRITICAL REMINDERS FOR RETRY:
     return this.postNormalizeAndFilter(regexEvents);
   }
 
+  /**
+   * Deterministic extraction for sites with a dedicated parser (GoOut,
+   * Ticketportal). Returns null when the site has no parser or parsing fails,
+   * so the caller falls back to LLM extraction. Each run is reported to
+   * observability for per-parser success rates.
+   */
+  private async extractEventsWithSiteParser(
+    content: { html: string; url?: string },
+    sourceName: string
+  ): Promise<ScrapedEvent[] | null> {
+    if (!content.url || !content.html) return null;
+
+    let hostname: string;
+    try {
+      hostname = new URL(content.url).hostname;
+    } catch {
+      return null;
+    }
+
+    const parser = getSiteParser(CrawlConfigurationService.getPresetForHost(hostname));
+    if (!parser) return null;
+
+    try {
+      const { events, skipped } = parser.parse(content.html, content.url, sourceName);
+      console.log(`🧩 ${parser.preset} parser found ${events.length} events (${skipped} skipped) on ${content.url}`);
+      await observabilityService.logSiteParserRun({
+        parser: parser.preset,
+        pageUrl: content.url,
+        succeeded: true,
+        eventsParsed: events.length,
+        eventsSkipped: skipped
+      });
+
+      return events.map(event => ({
+        title: event.title,
+        description: event.description,
+        date: event.date,
+        endDate: event.end_date,
+        city: event.city,
+        venue: event.venue,
+        category: event.category,
+        subcategory: event.subcategory,
+        url: event.url,
+        imageUrl: event.image_url,
+        expectedAttendees: event.expected_attendees
+      }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.warn(`⚠️ ${message}; falling back to LLM extraction for ${content.url}`);
+      await observabilityService.logSiteParserRun({
+        parser: parser.preset,
+        pageUrl: content.url,
+        succeeded: false,
+        eventsParsed: 0,
+        eventsSkipped: 0,
+        error: message
+      });
+      return null;
+    }
+  }
+
   /**
    * Extract schema.org/Event from JSON-LD or Microdata in HTML/Markdown string
    */
@@ -2544,7 +2639,7 @@ CRITICAL REMINDERS FOR RETRY:
       // Extract metadata fields separately
       const { started_at, events_processed, events_created, events_updated, events_skipped, errors, ...restMetadata } = metadata;
 
-      await this.db.executeWithRetry(async () => {
+      const { data: syncLog } = await this.db.executeWithRetry(async () => {
         const updateData: any = {
           status,
           completed_at: completedAt,
@@ -2564,7 +2659,23 @@ CRITICAL REMINDERS FOR RETRY:
         return await this.db.getClient()
           .from('sync_logs')
           .update(updateData)
-          .eq('id', syncLogId);
+          .eq('id', syncLogId)
+          .select('source')
+          .single();
+      });
+
+      // Goes to every organisation's endpoints, so only the number of errors is sent, not their internal messages
+      await webhookService.dispatch('sync.completed', {
+        syncLogId,
+        source: syncLog?.source || null,
+        status,
+        completedAt,
+        durationMs,
+        eventsProcessed: events_processed || 0,
+        eventsCreated: events_created || 0,
+        eventsUpdated: events_updated || 0,
+        eventsSkipped: events_skipped || 0,
+        errorCount: (errors || []).length
       });
 
     } catch (error) {
@@ -2572,6 +2683,17 @@ CRITICAL REMINDERS FOR RETRY:
     }
   }
 
+  /**
+   * Re-score watchlists after scraping. Never throws so scraping results are always returned.
+   */
+  private async rescoreWatchlists(): Promise<void> {
+    try {
+      await watchlistService.rescoreWatchlists('scraper_sync');
+    } catch (error) {
+      console.error('❌ Watchlist re-scoring after scrape failed:', error);
+    }
+  }
+
   /**
    * Enforce rate limiting with Czech source support
    */
@@ -0,0 +1,252 @@
+// src/lib/services/event-series-planner.ts
+import {
+  EventSeriesAnalysisResult,
+  EventSeriesCandidate,
+  EventSeriesOccurrence,
+  EventSeriesPattern,
+  EventSeriesPatternResult,
+  MAX_SERIES_OCCURRENCES,
+  MultiDayBlockPattern,
+  RecurringSeriesPattern
+} from '@/types/event-series';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const WEEK_OF_MONTH_NAMES: Record<number, string> = { 1: 'First', 2: 'Second', 3: 'Third', 4: 'Fourth', [-1]: 'Last' };
+const WEEKS_OF_MONTH = [1, 2, 3, 4, -1];
+const ALTERNATIVE_PATTERNS = 5;
+
+/**
+ * Generates the schedules a recurring series or multi-day block could follow
+ * and ranks them once each occurrence has been scored.
+ * Kept free of database access so it can be tested in isolation.
+ */
+export class EventSeriesPlanner {
+  /**
+   * Every weekday/offset choice for the series within the date range. All
+   * candidates of a series get the same number of occurrences so their
+   * average scores are comparable.
+   */
+  generateCandidates(series: EventSeriesPattern, rangeStart: string, rangeEnd: string): EventSeriesCandidate[] {
+    let candidates: EventSeriesCandidate[];
+
+    if (series.type === 'multi_day') {
+      candidates = this.generateBlockCandidates(series, rangeStart, rangeEnd);
+    } else if (series.frequency === 'weekly') {
+      candidates = this.generateWeeklyCandidates(series, rangeStart, rangeEnd);
+    } else {
+      candidates = this.generateMonthlyCandidates(series, rangeStart, rangeEnd);
+    }
+
+    candidates = candidates.filter(candidate => candidate.occurrences.length > 0);
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    const fittingCount = Math.min(...candidates.map(candidate => candidate.occurrences.length));
+    const count = Math.min(
+      series.type === 'recurring' && series.occurrences ? series.occurrences : fittingCount,
+      MAX_SERIES_OCCURRENCES
+    );
+
+    return candidates
+      .filter(candidate => candidate.occurrences.length >= count)
+      .map(candidate => ({ ...candidate, occurrences: candidate.occurrences.slice(0, count) }));
+  }
+
+  /**
+   * Key of the candidate that starts on the organiser's chosen date
+   */
+  getRequestedKey(series: EventSeriesPattern, rangeStart: string, startDate: string): string {
+    const offsetDays = this.daysBetween(rangeStart, startDate);
+
+    if (series.type === 'multi_day') {
+      return `block:+${offsetDays}`;
+    }
+
+    if (series.frequency === 'weekly') {
+      const period = 7 * series.interval;
+      return `weekly-${series.interval}:+${offsetDays % period}`;
+    }
+
+    const day = Number(startDate.slice(8, 10));
+    const week = Math.ceil(day / 7);
+    const monthOffset = (this.monthIndex(startDate) - this.monthIndex(rangeStart)) % series.interval;
+    return `monthly-${series.interval}:${this.weekday(startDate)}:${week > 4 ? -1 : week}:+${monthOffset}`;
+  }
+
+  summarizePattern(candidate: EventSeriesCandidate, occurrences: EventSeriesOccurrence[]): EventSeriesPatternResult {
+    const scores = occurrences.map(occurrence => occurrence.conflictScore);
+    const averageScore = scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : 0;
+
+    return {
+      key: candidate.key,
+      label: candidate.label,
+      weekday: candidate.weekday,
+      offsetDays: candidate.offsetDays,
+      weekOfMonth: candidate.weekOfMonth,
+      occurrences,
+      averageScore: Math.round(averageScore * 100) / 100,
+      maxScore: scores.length > 0 ? Math.max(...scores) : 0,
+      highRiskOccurrences: occurrences.filter(occurrence => occurrence.riskLevel === 'High').length
+    };
+  }
+
+  /**
+   * Lowest average score first; ties go to fewer high-risk occurrences,
+   * then to the lower worst occurrence
+   */
+  rankPatterns(patterns: EventSeriesPatternResult[]): EventSeriesPatternResult[] {
+    return patterns
+      .map((pattern, index) => ({ pattern, index }))
+      .sort((a, b) =>
+        a.pattern.averageScore - b.pattern.averageScore ||
+        a.pattern.highRiskOccurrences - b.pattern.highRiskOccurrences ||
+        a.pattern.maxScore - b.pattern.maxScore ||
+        a.index - b.index
+      )
+      .map(({ pattern }) => pattern);
+  }
+
+  buildResult(
+    series: EventSeriesPattern,
+    patterns: EventSeriesPatternResult[],
+    requestedKey: string | null,
+    now: Date = new Date()
+  ): EventSeriesAnalysisResult {
+    const ranked = this.rankPatterns(patterns);
+
+    return {
+      series,
+      bestPattern: ranked[0] || null,
+      requestedPattern: requestedKey ? ranked.find(pattern => pattern.key === requestedKey) || null : null,
+      alternatives: ranked.slice(1, 1 + ALTERNATIVE_PATTERNS),
+      candidatesEvaluated: patterns.length,
+      analysisDate: now.toISOString()
+    };
+  }
+
+  private generateWeeklyCandidates(series: RecurringSeriesPattern, rangeStart: string, rangeEnd: string): EventSeriesCandidate[] {
+    const period = 7 * series.interval;
+    const candidates: EventSeriesCandidate[] = [];
+
+    for (let offsetDays = 0; offsetDays < period; offsetDays++) {
+      const firstDate = this.addDays(rangeStart, offsetDays);
+      const weekday = this.weekday(firstDate);
+      const occurrences: EventSeriesCandidate['occurrences'] = [];
+
+      for (let startDate = firstDate; ; startDate = this.addDays(startDate, period)) {
+        const endDate = this.addDays(startDate, series.durationDays - 1);
+        if (endDate > rangeEnd) break;
+        occurrences.push({ startDate, endDate });
+      }
+
+      const every = series.interval === 1 ? 'Every week' : `Every ${series.interval} weeks`;
+      candidates.push({
+        key: `weekly-${series.interval}:+${offsetDays}`,
+        label: `${every} on ${WEEKDAY_NAMES[weekday]}, starting ${firstDate}`,
+        weekday,
+        offsetDays,
+        occurrences
+      });
+    }
+
+    return candidates;
+  }
+
+  private generateMonthlyCandidates(series: RecurringSeriesPattern, rangeStart: string, rangeEnd: string): EventSeriesCandidate[] {
+    const candidates: EventSeriesCandidate[] = [];
+    const firstMonth = this.monthIndex(rangeStart);
+    const lastMonth = this.monthIndex(rangeEnd);
+
+    for (let monthOffset = 0; monthOffset < series.interval; monthOffset++) {
+      for (let weekday = 0; weekday < 7; weekday++) {
+        for (const weekOfMonth of WEEKS_OF_MONTH) {
+          const occurrences: EventSeriesCandidate['occurrences'] = [];
+
+          for (let month = firstMonth + monthOffset; month <= lastMonth; month += series.interval) {
+            const startDate = this.nthWeekdayOfMonth(month, weekday, weekOfMonth);
+            const endDate = this.addDays(startDate, series.durationDays - 1);
+            if (startDate >= rangeStart && endDate <= rangeEnd) {
+              occurrences.push({ startDate, endDate });
+            }
+          }
+
+          const every = series.interval === 1 ? 'every month' : `every ${series.interval} months`;
+          const from = occurrences.length > 0 ? `, starting ${occurrences[0].startDate}` : '';
+          candidates.push({
+            key: `monthly-${series.interval}:${weekday}:${weekOfMonth}:+${monthOffset}`,
+            label: `${WEEK_OF_MONTH_NAMES[weekOfMonth]} ${WEEKDAY_NAMES[weekday]} of ${every}${from}`,
+            weekday,
+            weekOfMonth,
+            occurrences
+          });
+        }
+      }
+    }
+
+    return candidates;
+  }
+
+  private generateBlockCandidates(series: MultiDayBlockPattern, rangeStart: string, rangeEnd: string): EventSeriesCandidate[] {
+    const candidates: EventSeriesCandidate[] = [];
+
+    for (let offsetDays = 0; ; offsetDays++) {
+      const startDate = this.addDays(rangeStart, offsetDays);
+      const endDate = this.addDays(startDate, series.durationDays - 1);
+      if (endDate > rangeEnd) break;
+
+      const weekday = this.weekday(startDate);
+      if (series.startWeekdays && !series.startWeekdays.includes(weekday)) continue;
+
+      candidates.push({
+        key: `block:+${offsetDays}`,
+        label: `${series.durationDays} ${series.durationDays === 1 ? 'day' : 'days'} from ${WEEKDAY_NAMES[weekday]} ${startDate}`,
+        weekday,
+        offsetDays,
+        occurrences: [{ startDate, endDate }]
+      });
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Date of the nth (or last, for -1) weekday in a month counted from year 0
+   */
+  private nthWeekdayOfMonth(monthIndex: number, weekday: number, weekOfMonth: number): string {
+    const year = Math.floor(monthIndex / 12);
+    const month = monthIndex % 12;
+
+    if (weekOfMonth === -1) {
+      const last = new Date(Date.UTC(year, month + 1, 0));
+      last.setUTCDate(last.getUTCDate() - ((last.getUTCDay() - weekday + 7) % 7));
+      return last.toISOString().split('T')[0];
+    }
+
+    const first = new Date(Date.UTC(year, month, 1));
+    first.setUTCDate(1 + ((weekday - first.getUTCDay() + 7) % 7) + (weekOfMonth - 1) * 7);
+    return first.toISOString().split('T')[0];
+  }
+
+  private monthIndex(date: string): number {
+    return Number(date.slice(0, 4)) * 12 + Number(date.slice(5, 7)) - 1;
+  }
+
+  private weekday(date: string): number {
+    return new Date(`${date}T00:00:00Z`).getUTCDay();
+  }
+
+  private addDays(date: string, days: number): string {
+    const result = new Date(`${date}T00:00:00Z`);
+    result.setUTCDate(result.getUTCDate() + days);
+    return result.toISOString().split('T')[0];
+  }
+
+  private daysBetween(from: string, to: string): number {
+    return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+  }
+}
+
+// Export singleton instance
+export const eventSeriesPlanner = new EventSeriesPlanner();
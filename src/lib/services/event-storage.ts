@@ -14,6 +14,7 @@ import {
 } from '@/lib/types/events';
 import { dataTransformer } from './data-transformer';
 import { venueCapacityService } from './venue-capacity';
+import { webhookService } from './webhooks';
 
 /**
  * Event storage service for managing events in the database
@@ -61,12 +62,19 @@ export class EventStorageService {
       const batchSize = 100;
       const batches = this.chunkArray(validatedEvents, batchSize);
 
+      const insertedEvents: DatabaseEvent[] = [];
       for (const batch of batches) {
         const batchResult = await this.processBatch(batch);
         result.created += batchResult.created;
         result.updated += batchResult.updated;
         result.skipped += batchResult.skipped;
         result.errors.push(...batchResult.errors);
+        insertedEvents.push(...batchResult.insertedEvents);
+      }
+
+      // Notify webhook subscribers about newly stored high-attendance events
+      if (insertedEvents.length > 0) {
+        await webhookService.dispatchHighImpactEvents(insertedEvents);
       }
 
       return result;
@@ -80,12 +88,13 @@ export class EventStorageService {
   /**
    * Process a batch of events with upsert logic
    */
-  private async processBatch(events: CreateEventData[]): Promise<UpsertResult> {
-    const result: UpsertResult = {
+  private async processBatch(events: CreateEventData[]): Promise<UpsertResult & { insertedEvents: DatabaseEvent[] }> {
+    const result: UpsertResult & { insertedEvents: DatabaseEvent[] } = {
       created: 0,
       updated: 0,
       skipped: 0,
-      errors: []
+      errors: [],
+      insertedEvents: []
     };
 
     try {
@@ -126,6 +135,7 @@ export class EventStorageService {
         const insertResult = await this.insertEvents(eventsToInsert);
         result.created += insertResult.created;
         result.errors.push(...insertResult.errors);
+        result.insertedEvents.push(...insertResult.events);
       }
 
       // Update existing events
@@ -339,8 +349,8 @@ export class EventStorageService {
   /**
    * Insert new events
    */
-  private async insertEvents(events: CreateEventData[]): Promise<{ created: number; errors: string[] }> {
-    const result = { created: 0, errors: [] as string[] };
+  private async insertEvents(events: CreateEventData[]): Promise<{ created: number; events: DatabaseEvent[]; errors: string[] }> {
+    const result = { created: 0, events: [] as DatabaseEvent[], errors: [] as string[] };
 
     try {
       const { data, error } = await this.db.executeWithRetry(async () => {
@@ -493,6 +503,7 @@ export class EventStorageService {
       }
 
       result.created = data?.length || 0;
+      result.events = (data || []) as DatabaseEvent[];
     } catch (error) {
       console.error('Error inserting events:', error);
       result.errors.push(`Insert failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
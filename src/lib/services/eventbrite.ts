@@ -0,0 +1,181 @@
+// src/lib/services/eventbrite.ts
+import { Event } from '@/types';
+import { CreateEventData } from '@/lib/types/events';
+import { dataTransformer } from './data-transformer';
+
+interface EventbriteDateTime {
+  timezone: string;
+  local: string; // 2025-10-14T18:00:00
+  utc: string; // 2025-10-14T16:00:00Z
+}
+
+interface EventbriteEvent {
+  id: string;
+  name: { text: string; html?: string };
+  description?: { text: string | null; html?: string | null };
+  summary?: string | null;
+  url: string;
+  start: EventbriteDateTime;
+  end?: EventbriteDateTime;
+  status: 'draft' | 'live' | 'started' | 'ended' | 'completed' | 'canceled';
+  online_event: boolean;
+  capacity?: number | null;
+  logo?: { url: string } | null;
+  venue?: {
+    id: string;
+    name: string | null;
+    capacity?: number | null;
+    address?: { city?: string | null; country?: string | null; localized_address_display?: string | null };
+  } | null;
+  organizer?: { id: string; name: string | null } | null;
+  category?: { id: string; name: string } | null;
+  subcategory?: { id: string; name: string } | null;
+  format?: { id: string; name: string } | null;
+}
+
+interface EventbriteEventsResponse {
+  pagination: {
+    object_count: number;
+    page_number: number;
+    page_size: number;
+    page_count: number;
+    continuation?: string;
+    has_more_items: boolean;
+  };
+  events: EventbriteEvent[];
+}
+
+const MAX_PAGES_PER_ORGANIZER = 10;
+
+/**
+ * Eventbrite API v3. Eventbrite has no public location search, so events are
+ * read from the organisers listed in EVENTBRITE_ORGANIZER_IDS (e.g. the Czech
+ * tech meetup and workshop organisers) and filtered by venue city.
+ */
+export class EventbriteService {
+  private readonly baseUrl = 'https://www.eventbriteapi.com/v3';
+  private readonly apiToken: string;
+  private readonly organizerIds: string[];
+
+  constructor(apiToken?: string, organizerIds?: string[]) {
+    this.apiToken = apiToken ?? process.env.EVENTBRITE_API_TOKEN ?? '';
+    this.organizerIds = organizerIds ?? (process.env.EVENTBRITE_ORGANIZER_IDS || '')
+      .split(',')
+      .map(id => id.trim())
+      .filter(Boolean);
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiToken && this.organizerIds.length > 0;
+  }
+
+  /**
+   * Events of the configured organisers held in one of `cityNames` (a city and
+   * its aliases, e.g. Prague and Praha) within the date range
+   */
+  async getEventsForCity(cityNames: string[], startDate: string, endDate: string): Promise<Event[]> {
+    const wantedCities = new Set(cityNames.map(name => this.normalizeCity(name)));
+    const events: Event[] = [];
+
+    for (const organizerId of this.organizerIds) {
+      const rawEvents = await this.getOrganizerEvents(organizerId, startDate, endDate);
+
+      for (const rawEvent of rawEvents) {
+        const venueCity = rawEvent.venue?.address?.city;
+        if (rawEvent.online_event || !venueCity || !wantedCities.has(this.normalizeCity(venueCity))) {
+          continue;
+        }
+        events.push(this.toEvent(dataTransformer.transformEvent('eventbrite', rawEvent)));
+      }
+    }
+
+    console.log(`🎫 Eventbrite: ${events.length} events in ${cityNames[0]} from ${this.organizerIds.length} organisers`);
+    return events;
+  }
+
+  /**
+   * Live events of an organiser starting within the date range, following
+   * continuation tokens up to MAX_PAGES_PER_ORGANIZER pages
+   */
+  async getOrganizerEvents(organizerId: string, startDate: string, endDate: string): Promise<EventbriteEvent[]> {
+    const events: EventbriteEvent[] = [];
+    let continuation: string | undefined;
+
+    for (let page = 0; page < MAX_PAGES_PER_ORGANIZER; page++) {
+      const searchParams = new URLSearchParams({
+        status: 'live',
+        order_by: 'start_asc',
+        'start_date.range_start': `${startDate}T00:00:00`,
+        'start_date.range_end': `${endDate}T23:59:59`,
+        expand: 'venue,organizer,category,subcategory,format',
+        page_size: '50'
+      });
+      if (continuation) {
+        searchParams.set('continuation', continuation);
+      }
+
+      const response = await fetch(`${this.baseUrl}/organizers/${encodeURIComponent(organizerId)}/events/?${searchParams.toString()}`, {
+        headers: {
+          'Authorization': `Bearer ${this.apiToken}`,
+          'Accept': 'application/json'
+        }
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Eventbrite API error: ${response.status} ${response.statusText} - ${errorText}`);
+      }
+
+      const data: EventbriteEventsResponse = await response.json();
+      events.push(...(data.events || []));
+
+      if (!data.pagination?.has_more_items || !data.pagination.continuation) {
+        break;
+      }
+      continuation = data.pagination.continuation;
+    }
+
+    return events;
+  }
+
+  /**
+   * Minimal authenticated request, for health checks
+   */
+  async testConnection(): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/users/me/`, {
+      headers: { 'Authorization': `Bearer ${this.apiToken}`, 'Accept': 'application/json' }
+    });
+    if (!response.ok) {
+      throw new Error(`Eventbrite API error: ${response.status} ${response.statusText}`);
+    }
+  }
+
+  private toEvent(event: CreateEventData): Event {
+    const now = new Date().toISOString();
+    return {
+      id: `eventbrite_${event.source_id}`,
+      title: event.title,
+      description: event.description,
+      date: event.date,
+      endDate: event.end_date,
+      city: event.city,
+      venue: event.venue,
+      category: event.category,
+      subcategory: event.subcategory,
+      expectedAttendees: event.expected_attendees,
+      source: 'eventbrite',
+      sourceId: event.source_id,
+      url: event.url,
+      imageUrl: event.image_url,
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+
+  private normalizeCity(city: string): string {
+    return city.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+  }
+}
+
+// Export singleton instance
+export const eventbriteService = new EventbriteService();
@@ -10,6 +10,8 @@ export interface EventFeedback {
   actual_attendees?: number;
   attendance_source?: 'ticket_sales' | 'manual_count' | 'organizer_report';
   notes?: string;
+  user_id?: string | null;
+  organisation_id?: string | null;
 }
 
 export interface FeedbackSummary {
@@ -99,6 +101,8 @@ export class FeedbackProcessorService {
         .from('event_feedback')
         .insert({
           event_id: feedback.event_id,
+          user_id: feedback.user_id || null,
+          organisation_id: feedback.organisation_id || null,
           feedback_type: feedback.feedback_type,
           reported_attendees: feedback.reported_attendees,
           actual_attendees: feedback.actual_attendees,
@@ -405,16 +409,22 @@ export class FeedbackProcessorService {
   }
 
   /**
-   * Get all feedback for an event
+   * Get all feedback for an event, optionally only the feedback submitted by one organisation
    */
-  async getEventFeedback(eventId: string): Promise<any[]> {
+  async getEventFeedback(eventId: string, organisationId?: string): Promise<any[]> {
     try {
       const { data, error } = await this.db.executeWithRetry(async () => {
-        const result = await this.db.getClient()
+        let query = this.db.getClient()
           .from('event_feedback')
           .select('*')
           .eq('event_id', eventId)
           .order('created_at', { ascending: false });
+
+        if (organisationId) {
+          query = query.eq('organisation_id', organisationId);
+        }
+
+        const result = await query;
         return result;
       });
 
@@ -10,13 +10,19 @@
  * - Category-specific holiday impact multipliers
  * - Integration with existing holiday-service.ts functions
  * - Performance-optimized batch holiday queries
- * - Regional holiday support with Czech Republic focus
+ * - Holidays of the event city's country and region (CZ, SK, AT, PL, DE)
+ * - Cross-border holidays for cities near a border (e.g. Austria for Bratislava)
+ * - Long weekends and bridge days around Tuesday/Thursday public holidays
  * 
  * @fileoverview Holiday impact detection for enhanced conflict analysis
  */
 
 import { supabase } from '@/lib/supabase';
 import { holidayService } from './holiday-service';
+import { formatSchoolHoliday } from '@/lib/utils/school-holidays';
+import { crossBorderImpactMultiplier } from '@/lib/utils/holiday-countries';
+import { describeLongWeekend, findLongWeekends, LONG_WEEKEND_SEARCH_DAYS } from '@/lib/utils/long-weekends';
+import { HolidayLocation } from '@/types/holidays';
 import {
   HolidayImpact,
   HolidayConflict,
@@ -44,41 +50,45 @@ export class HolidayConflictDetector {
    * @param date - Target date for analysis
    * @param category - Event category
    * @param subcategory - Event subcategory (optional)
-   * @param region - Geographic region (defaults to CZ)
+   * @param region - Impact rule region (defaults to the CZ baseline rules)
+   * @param city - Event city; selects its country's and region's holidays,
+   *   neighbouring countries' holidays near a border and its district's school breaks
    * @returns Promise<HolidayConflict[]>
    */
   async detectHolidayConflicts(
     date: string,
     category: string,
     subcategory?: string,
-    region: string = 'CZ'
+    region: string = 'CZ',
+    city?: string
   ): Promise<HolidayConflict[]> {
     const startTime = Date.now();
     
     try {
       // Check cache first
-      const cacheKey = `holiday_conflicts_${date}_${category}_${subcategory || 'null'}_${region}`;
+      const cacheKey = `holiday_conflicts_${date}_${category}_${subcategory || 'null'}_${region}_${city || 'null'}`;
       const cached = this.getCachedResult(cacheKey);
       if (cached) {
         console.log(`Cache hit for holiday conflicts: ${cacheKey}`);
         return cached;
       }
 
-      // Get holidays for the date using existing holiday service
-      const holidays = await holidayService.getHolidaysForDateRange(
-        date,
-        date,
-        region
-      );
-
-      if (!holidays || holidays.length === 0) {
+      // Get holiday impact rules for this category
+      const impactRules = await this.getHolidayImpactRules(category, subcategory, region);
+      if (impactRules.length === 0) {
         this.setCachedResult(cacheKey, []);
         return [];
       }
 
-      // Get holiday impact rules for this category
-      const impactRules = await this.getHolidayImpactRules(category, subcategory, region);
-      
+      // A holiday affects the date when the date falls in its impact window,
+      // so look from the longest window after a holiday to the longest before one
+      const windowStart = this.shiftDate(date, -Math.max(...impactRules.map(rule => rule.daysAfter)));
+      const windowEnd = this.shiftDate(date, Math.max(...impactRules.map(rule => rule.daysBefore)));
+      const location = city ? await holidayService.resolveHolidayLocation(city) : null;
+      const holidays = location
+        ? await holidayService.getHolidaysForDateRange(windowStart, windowEnd, location.region_code, location.country_code)
+        : await holidayService.getHolidaysForDateRange(windowStart, windowEnd, region);
+
       // Process each holiday to check for conflicts
       const conflicts: HolidayConflict[] = [];
       
@@ -92,7 +102,7 @@ export class HolidayConflictDetector {
           // Check if the date falls within the impact window
           const isWithinImpactWindow = this.isDateWithinImpactWindow(
             date,
-            holiday.observed_date || holiday.date,
+            holiday.observed_date,
             rule.daysBefore,
             rule.daysAfter
           );
@@ -102,17 +112,56 @@ export class HolidayConflictDetector {
               name: holiday.holiday_name,
               nameNative: holiday.holiday_name_native,
               holidayType: holiday.holiday_type,
-              date: holiday.observed_date || holiday.date,
+              date: holiday.observed_date,
               impactMultiplier: rule.impactMultiplier,
               daysBefore: rule.daysBefore,
               daysAfter: rule.daysAfter,
               businessImpact: holiday.business_impact as BusinessImpact,
-              venueClosureExpected: holiday.venue_closure_expected
+              venueClosureExpected: holiday.venue_closure_expected,
+              countryCode: location?.country_code
             });
           }
         }
       }
 
+      if (location && location.cross_border.length > 0) {
+        const homeDates = new Set(holidays.map(holiday => holiday.observed_date));
+        conflicts.push(...await this.detectCrossBorderConflicts(date, location, impactRules, windowStart, windowEnd, homeDates));
+      }
+
+      // School breaks depend on the city's district (spring breaks rotate by okres)
+      const schoolRules = impactRules.filter(rule => rule.holidayType === 'school_holiday');
+      if (city && schoolRules.length > 0) {
+        const schoolHolidays = await holidayService.getSchoolHolidays(windowStart, windowEnd, city, location?.country_code);
+
+        for (const schoolHoliday of schoolHolidays) {
+          for (const rule of schoolRules) {
+            if (this.isDateWithinImpactWindow(date, schoolHoliday.start_date, rule.daysBefore, rule.daysAfter, schoolHoliday.end_date)) {
+              conflicts.push({
+                name: formatSchoolHoliday(schoolHoliday),
+                nameNative: schoolHoliday.name_native,
+                holidayType: 'school_holiday',
+                date: schoolHoliday.start_date,
+                impactMultiplier: rule.impactMultiplier,
+                daysBefore: rule.daysBefore,
+                daysAfter: rule.daysAfter,
+                businessImpact: 'none',
+                venueClosureExpected: false
+              });
+            }
+          }
+        }
+      }
+
+      // People leave town for the whole long weekend, bridge days included,
+      // although only the holiday itself is an observance
+      const longWeekendRules = impactRules.filter(rule =>
+        rule.holidayType === 'long_weekend' || rule.holidayType === 'bridge_day'
+      );
+      if (longWeekendRules.length > 0) {
+        conflicts.push(...await this.detectLongWeekendConflicts(date, longWeekendRules, location, region));
+      }
+
       // Cache the result
       this.setCachedResult(cacheKey, conflicts);
 
@@ -134,16 +183,18 @@ export class HolidayConflictDetector {
    * @param category - Event category
    * @param subcategory - Event subcategory (optional)
    * @param region - Geographic region
+   * @param city - Event city (optional)
    * @returns Promise<number>
    */
   async getHolidayMultiplier(
     date: string,
     category: string,
     subcategory?: string,
-    region: string = 'CZ'
+    region: string = 'CZ',
+    city?: string
   ): Promise<number> {
     try {
-      const conflicts = await this.detectHolidayConflicts(date, category, subcategory, region);
+      const conflicts = await this.detectHolidayConflicts(date, category, subcategory, region, city);
       
       if (conflicts.length === 0) {
         return 1.0; // No holiday impact
@@ -171,17 +222,19 @@ export class HolidayConflictDetector {
    * @param category - Event category
    * @param subcategory - Event subcategory (optional)
    * @param region - Geographic region
+   * @param city - Event city (optional)
    * @returns Promise<HolidayImpact>
    */
   async getHolidayImpact(
     date: string,
     category: string,
     subcategory?: string,
-    region: string = 'CZ'
+    region: string = 'CZ',
+    city?: string
   ): Promise<HolidayImpact> {
     try {
-      const conflicts = await this.detectHolidayConflicts(date, category, subcategory, region);
-      const multiplier = await this.getHolidayMultiplier(date, category, subcategory, region);
+      const conflicts = await this.detectHolidayConflicts(date, category, subcategory, region, city);
+      const multiplier = await this.getHolidayMultiplier(date, category, subcategory, region, city);
       
       // Calculate total impact level
       const totalImpact = this.calculateTotalImpact(multiplier, conflicts);
@@ -233,16 +286,16 @@ export class HolidayConflictDetector {
         region
       );
 
-      if (!holidays || holidays.length === 0) {
+      if (holidays.length === 0) {
         return [];
       }
 
       // Convert to HolidayConflict format
-      const conflicts: HolidayConflict[] = holidays.map((holiday: any) => ({
+      const conflicts: HolidayConflict[] = holidays.map(holiday => ({
         name: holiday.holiday_name,
         nameNative: holiday.holiday_name_native,
         holidayType: holiday.holiday_type,
-        date: holiday.observed_date || holiday.date,
+        date: holiday.observed_date,
         impactMultiplier: 1.5, // Default multiplier
         daysBefore: 1,
         daysAfter: 1,
@@ -325,7 +378,7 @@ export class HolidayConflictDetector {
         );
       }
 
-      return rules;
+      return rules.map(rule => this.toImpactRule(rule));
 
     } catch (error) {
       console.error('Error fetching holiday impact rules:', error);
@@ -334,13 +387,156 @@ export class HolidayConflictDetector {
   }
 
   /**
-   * Check if a date is within the impact window of a holiday
+   * Holidays of neighbouring countries near the event city, weighted down by
+   * distance; dates already covered by a home holiday are skipped so shared
+   * holidays (e.g. Christmas) are not counted twice
+   */
+  private async detectCrossBorderConflicts(
+    date: string,
+    location: HolidayLocation,
+    impactRules: HolidayImpactRule[],
+    windowStart: string,
+    windowEnd: string,
+    homeDates: Set<string>
+  ): Promise<HolidayConflict[]> {
+    const conflicts: HolidayConflict[] = [];
+
+    for (const neighbour of location.cross_border) {
+      const holidays = await holidayService.getHolidaysForDateRange(
+        windowStart,
+        windowEnd,
+        neighbour.region_code,
+        neighbour.country_code
+      );
+
+      for (const holiday of holidays) {
+        if (homeDates.has(holiday.observed_date)) continue;
+
+        for (const rule of impactRules.filter(rule => rule.holidayType === holiday.holiday_type)) {
+          if (!this.isDateWithinImpactWindow(date, holiday.observed_date, rule.daysBefore, rule.daysAfter)) continue;
+
+          conflicts.push({
+            name: `${holiday.holiday_name} (${neighbour.city}, ${neighbour.distance_km} km)`,
+            nameNative: holiday.holiday_name_native,
+            holidayType: holiday.holiday_type,
+            date: holiday.observed_date,
+            impactMultiplier: crossBorderImpactMultiplier(rule.impactMultiplier, neighbour.distance_km),
+            daysBefore: rule.daysBefore,
+            daysAfter: rule.daysAfter,
+            businessImpact: holiday.business_impact as BusinessImpact,
+            venueClosureExpected: false,
+            countryCode: neighbour.country_code,
+            crossBorder: true
+          });
+        }
+      }
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * Bridge days and the other non-holiday days of long weekends formed by the
+   * home country's public holidays. Holiday dates themselves are left to the
+   * public_holiday rules, and bridge days only get the bridge_day rules.
+   */
+  private async detectLongWeekendConflicts(
+    date: string,
+    rules: HolidayImpactRule[],
+    location: HolidayLocation | null,
+    region: string
+  ): Promise<HolidayConflict[]> {
+    const searchStart = this.shiftDate(date, -LONG_WEEKEND_SEARCH_DAYS);
+    const searchEnd = this.shiftDate(date, LONG_WEEKEND_SEARCH_DAYS);
+    const holidays = (location
+      ? await holidayService.getHolidaysForDateRange(searchStart, searchEnd, location.region_code, location.country_code)
+      : await holidayService.getHolidaysForDateRange(searchStart, searchEnd, region)
+    ).filter(holiday => holiday.holiday_type === 'public_holiday');
+
+    const conflicts: HolidayConflict[] = [];
+    const holidayDates = holidays.map(holiday => holiday.observed_date);
+    if (holidayDates.includes(date)) {
+      return conflicts;
+    }
+
+    for (const longWeekend of findLongWeekends(holidayDates)) {
+      const holidayNames = holidays
+        .filter(holiday => longWeekend.holiday_dates.includes(holiday.observed_date))
+        .map(holiday => holiday.holiday_name);
+      const isBridgeDay = longWeekend.bridge_days.includes(date);
+
+      for (const rule of rules) {
+        if (rule.holidayType === 'bridge_day' && isBridgeDay) {
+          conflicts.push({
+            name: `Bridge day ${date} (${holidayNames.join(', ')})`,
+            holidayType: 'bridge_day',
+            date,
+            impactMultiplier: rule.impactMultiplier,
+            daysBefore: rule.daysBefore,
+            daysAfter: rule.daysAfter,
+            businessImpact: 'none',
+            venueClosureExpected: false,
+            countryCode: location?.country_code
+          });
+        } else if (
+          rule.holidayType === 'long_weekend' &&
+          !isBridgeDay &&
+          this.isDateWithinImpactWindow(date, longWeekend.start_date, rule.daysBefore, rule.daysAfter, longWeekend.end_date)
+        ) {
+          conflicts.push({
+            name: `${describeLongWeekend(longWeekend)} (${holidayNames.join(', ')})`,
+            holidayType: 'long_weekend',
+            date: longWeekend.start_date,
+            impactMultiplier: rule.impactMultiplier,
+            daysBefore: rule.daysBefore,
+            daysAfter: rule.daysAfter,
+            businessImpact: 'none',
+            venueClosureExpected: false,
+            countryCode: location?.country_code
+          });
+        }
+      }
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * Map a holiday_impact_rules row to HolidayImpactRule
+   */
+  private toImpactRule(row: any): HolidayImpactRule {
+    return {
+      id: row.id,
+      holidayType: row.holiday_type,
+      eventCategory: row.event_category,
+      eventSubcategory: row.event_subcategory || undefined,
+      daysBefore: row.days_before,
+      daysAfter: row.days_after,
+      impactMultiplier: Number(row.impact_multiplier),
+      impactType: row.impact_type,
+      region: row.region,
+      yearStart: row.year_start || undefined,
+      yearEnd: row.year_end || undefined,
+      confidence: Number(row.confidence),
+      dataSource: row.data_source,
+      reasoning: row.reasoning,
+      expertSource: row.expert_source || undefined,
+      lastUpdatedBy: row.last_updated_by || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  /**
+   * Check if a date is within the impact window of a holiday, or of a
+   * multi-day break ending on `holidayEndDate`
    */
   private isDateWithinImpactWindow(
     targetDate: string,
     holidayDate: string,
     daysBefore: number,
-    daysAfter: number
+    daysAfter: number,
+    holidayEndDate: string = holidayDate
   ): boolean {
     const target = new Date(targetDate);
     const holiday = new Date(holidayDate);
@@ -348,12 +544,21 @@ export class HolidayConflictDetector {
     const startWindow = new Date(holiday);
     startWindow.setDate(startWindow.getDate() - daysBefore);
     
-    const endWindow = new Date(holiday);
+    const endWindow = new Date(holidayEndDate);
     endWindow.setDate(endWindow.getDate() + daysAfter);
     
     return target >= startWindow && target <= endWindow;
   }
 
+  /**
+   * Date (YYYY-MM-DD) a number of days before or after another
+   */
+  private shiftDate(date: string, days: number): string {
+    const shifted = new Date(`${date}T00:00:00Z`);
+    shifted.setUTCDate(shifted.getUTCDate() + days);
+    return shifted.toISOString().split('T')[0];
+  }
+
   /**
    * Calculate total impact level from multiplier and conflicts
    */
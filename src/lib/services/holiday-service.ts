@@ -2,6 +2,7 @@
 import { serverDatabaseService } from '@/lib/supabase';
 import {
   HolidayInfo,
+  HolidayObservanceInfo,
   CulturalEventInfo,
   DateAvailabilityCheck,
   HolidayServiceConfig,
@@ -11,46 +12,78 @@ import {
   Region,
   HolidayType,
   Holiday,
-  CulturalEvent
+  CulturalEvent,
+  SchoolHoliday,
+  HolidayLocation,
+  HolidayDetails,
+  CulturalEventDetails,
+  BlackoutPeriod,
+  CreateHolidayData,
+  UpdateHolidayData,
+  CreateCulturalEventData,
+  UpdateCulturalEventData
 } from '@/types/holidays';
+import { ApiError } from '@/lib/utils/error-handling';
+import { evaluateHolidayRule, HolidayRule, isCompleteHolidayRule, yearsInRange } from '@/lib/utils/holiday-rules';
+import { applyBlackoutPeriods } from '@/lib/utils/blackout-periods';
+import { describeLongWeekend, findLongWeekendOnDate, findLongWeekends, getLongWeekendSearchRange } from '@/lib/utils/long-weekends';
+import { blackoutPeriodService } from './blackout-periods';
+import { filterSchoolHolidaysForCity } from '@/lib/utils/school-holidays';
+import {
+  CROSS_BORDER_MAX_DISTANCE_KM,
+  isRegionOfCountry,
+  selectCrossBorderNeighbours,
+  toHolidayCountryCode
+} from '@/lib/utils/holiday-countries';
 
 export class HolidayService {
   private supabase = serverDatabaseService.getClient();
+  private materializedYears = new Set<string>(); // country:year already materialised
+  private locations = new Map<string, HolidayLocation>(); // resolved cities, by lowercase name
 
   /**
-   * Check if a specific date is available for events based on holidays and cultural events
+   * Check if a specific date is available for events based on holidays and cultural events,
+   * and on the blackout periods of the organisation when one is given
    */
   async checkDateAvailability(
+    date: string,
+    config: HolidayServiceConfig,
+    organisationId?: string | null
+  ): Promise<DateAvailabilityCheck> {
+    const availability = await this.checkHolidayRestrictions(date, config);
+    if (!organisationId) {
+      return availability;
+    }
+
+    const blackoutPeriods = await this.getBlackoutPeriods(organisationId, date, date);
+    return applyBlackoutPeriods(availability, blackoutPeriods, config.business_impact_threshold, config.city);
+  }
+
+  /**
+   * Holidays and cultural events restricting a date
+   */
+  private async checkHolidayRestrictions(
     date: string,
     config: HolidayServiceConfig
   ): Promise<DateAvailabilityCheck> {
     try {
-      const { data: holidays, error: holidayError } = await this.supabase
-        .rpc('get_holidays_for_date', {
-          target_date: date,
-          country_code: config.country_code,
-          region_code: config.region_code || null
-        });
-
-      if (holidayError) {
-        console.error('Error fetching holidays:', holidayError);
-        // If the function doesn't exist, return a safe default
-        if (holidayError.message.includes('function') || holidayError.message.includes('does not exist')) {
-          console.warn('Holiday system not set up yet, returning safe default');
-          return {
-            date,
-            is_available: true,
-            restrictions: {
-              holidays: [],
-              cultural_events: [],
-              business_impact: 'none',
-              venue_closure_expected: false,
-              reasons: ['Holiday system not yet configured']
-            }
-          };
-        }
-        throw new Error('Failed to fetch holiday data');
-      }
+      // Evaluated from the holiday rules, which also cover floating holidays
+      // (e.g. Buß- und Bettag) that the get_holidays_for_date function cannot.
+      // The surrounding week shows whether the date is part of a long weekend.
+      const searchRange = getLongWeekendSearchRange(date);
+      const nearbyHolidays = await this.getHolidaysForDateRange(
+        searchRange.start_date,
+        searchRange.end_date,
+        config.region_code,
+        config.country_code
+      );
+      const holidays = nearbyHolidays.filter(holiday => holiday.observed_date === date);
+      const longWeekend = findLongWeekendOnDate(
+        findLongWeekends(nearbyHolidays
+          .filter(holiday => holiday.holiday_type === 'public_holiday')
+          .map(holiday => holiday.observed_date)),
+        date
+      );
 
       let culturalEvents: CulturalEventInfo[] = [];
       if (config.include_cultural_events) {
@@ -78,6 +111,14 @@ export class HolidayService {
       const venueClosureExpected = this.checkVenueClosure(holidayList, culturalEvents);
       const reasons = this.generateRestrictionReasons(holidayList, culturalEvents);
 
+      // Not a holiday, so the date stays available, but attendance drops as
+      // people leave town for the long weekend
+      if (longWeekend && !longWeekend.holiday_dates.includes(date)) {
+        reasons.push(longWeekend.bridge_days.includes(date)
+          ? `Bridge day: most people take it off (${describeLongWeekend(longWeekend)})`
+          : `Long weekend: ${describeLongWeekend(longWeekend)}`);
+      }
+
       return {
         date,
         is_available: isAvailable,
@@ -86,7 +127,8 @@ export class HolidayService {
           cultural_events: culturalEvents,
           business_impact: businessImpact,
           venue_closure_expected: venueClosureExpected,
-          reasons
+          reasons,
+          ...(longWeekend ? { long_weekend: longWeekend } : {})
         }
       };
     } catch (error) {
@@ -107,21 +149,31 @@ export class HolidayService {
   }
 
   /**
-   * Check availability for a range of dates
+   * Check availability for a range of dates. With an organisation, its private
+   * blackout periods restrict dates too; other organisations' never do.
    */
   async checkDateRangeAvailability(
     startDate: string,
     endDate: string,
-    config: HolidayServiceConfig
+    config: HolidayServiceConfig,
+    organisationId?: string | null
   ): Promise<DateRangeAvailability> {
     const start = new Date(startDate);
     const end = new Date(endDate);
     const availableDates: string[] = [];
     const restrictedDates: DateAvailabilityCheck[] = [];
+    const blackoutPeriods = organisationId
+      ? await this.getBlackoutPeriods(organisationId, startDate, endDate)
+      : [];
 
     for (let date = new Date(start); date <= end; date.setDate(date.getDate() + 1)) {
       const dateStr = date.toISOString().split('T')[0];
-      const availability = await this.checkDateAvailability(dateStr, config);
+      const availability = applyBlackoutPeriods(
+        await this.checkHolidayRestrictions(dateStr, config),
+        blackoutPeriods,
+        config.business_impact_threshold,
+        config.city
+      );
       
       if (availability.is_available) {
         availableDates.push(dateStr);
@@ -295,6 +347,424 @@ export class HolidayService {
     return data;
   }
 
+  /**
+   * List holidays with their type, country and region codes, optionally of one country (alpha-3)
+   */
+  async listHolidays(countryCode?: string): Promise<HolidayDetails[]> {
+    let query = this.supabase
+      .from('holidays')
+      .select(`
+        *,
+        holiday_types!inner(name),
+        countries!inner(code),
+        regions(code)
+      `)
+      .order('month', { ascending: true, nullsFirst: false })
+      .order('day', { ascending: true, nullsFirst: false })
+      .order('name');
+
+    if (countryCode) {
+      query = query.eq('countries.code', countryCode);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching holidays:', error);
+      throw error;
+    }
+
+    return (data || []).map((row: any) => this.mapRowToHolidayDetails(row));
+  }
+
+  /**
+   * Get a holiday by ID
+   */
+  async getHoliday(id: string): Promise<HolidayDetails | null> {
+    const { data, error } = await this.supabase
+      .from('holidays')
+      .select(`
+        *,
+        holiday_types!inner(name),
+        countries!inner(code),
+        regions(code)
+      `)
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') { // PGRST116 = no rows returned
+        return null;
+      }
+      console.error(`Error fetching holiday ${id}:`, error);
+      throw error;
+    }
+
+    return data ? this.mapRowToHolidayDetails(data) : null;
+  }
+
+  /**
+   * Create a holiday from country, region and holiday type codes. Throws a 400
+   * ApiError for unknown codes or an incomplete date rule.
+   */
+  async createHoliday(data: CreateHolidayData): Promise<HolidayDetails | null> {
+    this.assertCompleteRule(data);
+
+    const countryId = await this.resolveCountryId(data.country_code);
+    const holiday = await this.addHoliday({
+      name: data.name,
+      name_native: data.name_native || undefined,
+      description: data.description || undefined,
+      holiday_type_id: await this.resolveHolidayTypeId(data.holiday_type),
+      country_id: countryId,
+      region_id: data.region_code ? await this.resolveRegionId(countryId, data.region_code) : undefined,
+      date_type: data.date_type,
+      ...this.toRuleFields(data),
+      is_observed: data.is_observed ?? true,
+      business_impact: data.business_impact,
+      venue_closure_expected: data.venue_closure_expected
+    });
+    if (!holiday) {
+      return null;
+    }
+
+    await this.refreshObservances(data.country_code);
+    return await this.getHoliday(holiday.id);
+  }
+
+  /**
+   * Update a holiday. Observances generated from the old rule are removed and
+   * regenerated from the new one; those entered by hand (with notes) are kept.
+   */
+  async updateHoliday(id: string, updates: UpdateHolidayData): Promise<HolidayDetails | null> {
+    const existing = await this.getHoliday(id);
+    if (!existing) {
+      return null;
+    }
+
+    this.assertCompleteRule({ ...existing, ...updates });
+
+    const updateData: Record<string, any> = {};
+    for (const field of ['name', 'name_native', 'description', 'is_observed', 'business_impact', 'venue_closure_expected'] as const) {
+      if (updates[field] !== undefined) updateData[field] = updates[field];
+    }
+    Object.assign(updateData, this.toRuleFields(updates));
+    if (updates.holiday_type !== undefined) {
+      updateData.holiday_type_id = await this.resolveHolidayTypeId(updates.holiday_type);
+    }
+    if (updates.region_code !== undefined) {
+      updateData.region_id = updates.region_code
+        ? await this.resolveRegionId(existing.country_id, updates.region_code)
+        : null;
+    }
+
+    const { error } = await this.supabase
+      .from('holidays')
+      .update(updateData)
+      .eq('id', id);
+
+    if (error) {
+      console.error(`Error updating holiday ${id}:`, error);
+      throw error;
+    }
+
+    const { data: removed, error: observanceError } = await this.supabase
+      .from('holiday_observances')
+      .delete()
+      .eq('holiday_id', id)
+      .is('notes', null)
+      .select('observed_date');
+
+    if (observanceError) {
+      console.warn(`Could not remove generated observances of holiday ${id}:`, observanceError);
+    }
+
+    const removedYears = (removed || []).map(row => Number(String(row.observed_date).slice(0, 4)));
+    await this.refreshObservances(existing.country_code, removedYears);
+    return await this.getHoliday(id);
+  }
+
+  /**
+   * Delete a holiday with its observances
+   */
+  async deleteHoliday(id: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('holidays')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error(`Error deleting holiday ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * List cultural events with their country and region codes, optionally of one country (alpha-3)
+   */
+  async listCulturalEvents(countryCode?: string): Promise<CulturalEventDetails[]> {
+    let query = this.supabase
+      .from('cultural_events')
+      .select(`
+        *,
+        countries!inner(code),
+        regions(code)
+      `)
+      .order('month', { ascending: true, nullsFirst: false })
+      .order('day', { ascending: true, nullsFirst: false })
+      .order('name');
+
+    if (countryCode) {
+      query = query.eq('countries.code', countryCode);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching cultural events:', error);
+      throw error;
+    }
+
+    return (data || []).map((row: any) => this.mapRowToCulturalEventDetails(row));
+  }
+
+  /**
+   * Get a cultural event by ID
+   */
+  async getCulturalEvent(id: string): Promise<CulturalEventDetails | null> {
+    const { data, error } = await this.supabase
+      .from('cultural_events')
+      .select(`
+        *,
+        countries!inner(code),
+        regions(code)
+      `)
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      console.error(`Error fetching cultural event ${id}:`, error);
+      throw error;
+    }
+
+    return data ? this.mapRowToCulturalEventDetails(data) : null;
+  }
+
+  /**
+   * Create a cultural event from country and region codes. Throws a 400
+   * ApiError for unknown codes or an incomplete date rule.
+   */
+  async createCulturalEvent(data: CreateCulturalEventData): Promise<CulturalEventDetails | null> {
+    this.assertCompleteRule(data);
+
+    const countryId = await this.resolveCountryId(data.country_code);
+    const event = await this.addCulturalEvent({
+      name: data.name,
+      name_native: data.name_native || undefined,
+      description: data.description || undefined,
+      country_id: countryId,
+      region_id: data.region_code ? await this.resolveRegionId(countryId, data.region_code) : undefined,
+      event_type: data.event_type,
+      date_type: data.date_type,
+      ...this.toRuleFields(data),
+      duration_days: data.duration_days ?? 1,
+      business_impact: data.business_impact,
+      venue_closure_expected: data.venue_closure_expected
+    });
+
+    return event ? await this.getCulturalEvent(event.id) : null;
+  }
+
+  /**
+   * Update a cultural event
+   */
+  async updateCulturalEvent(id: string, updates: UpdateCulturalEventData): Promise<CulturalEventDetails | null> {
+    const existing = await this.getCulturalEvent(id);
+    if (!existing) {
+      return null;
+    }
+
+    this.assertCompleteRule({ ...existing, ...updates });
+
+    const updateData: Record<string, any> = {};
+    for (const field of ['name', 'name_native', 'description', 'event_type', 'duration_days', 'business_impact', 'venue_closure_expected'] as const) {
+      if (updates[field] !== undefined) updateData[field] = updates[field];
+    }
+    Object.assign(updateData, this.toRuleFields(updates));
+    if (updates.region_code !== undefined) {
+      updateData.region_id = updates.region_code
+        ? await this.resolveRegionId(existing.country_id, updates.region_code)
+        : null;
+    }
+
+    const { error } = await this.supabase
+      .from('cultural_events')
+      .update(updateData)
+      .eq('id', id);
+
+    if (error) {
+      console.error(`Error updating cultural event ${id}:`, error);
+      throw error;
+    }
+
+    return await this.getCulturalEvent(id);
+  }
+
+  /**
+   * Delete a cultural event
+   */
+  async deleteCulturalEvent(id: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('cultural_events')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error(`Error deleting cultural event ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Blackout periods of an organisation in a range; none when they cannot be
+   * loaded, so the holiday check still completes
+   */
+  private async getBlackoutPeriods(organisationId: string, startDate: string, endDate: string): Promise<BlackoutPeriod[]> {
+    try {
+      return await blackoutPeriodService.getPeriodsForRange(organisationId, startDate, endDate);
+    } catch (error) {
+      console.warn(`Could not load blackout periods of organisation ${organisationId}:`, error);
+      return [];
+    }
+  }
+
+  private async resolveCountryId(countryCode: string): Promise<string> {
+    const { data, error } = await this.supabase
+      .from('countries')
+      .select('id')
+      .eq('code', countryCode.toUpperCase())
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) throw new ApiError(`Unknown country: ${countryCode}`, 400);
+    return data.id;
+  }
+
+  private async resolveRegionId(countryId: string, regionCode: string): Promise<string> {
+    const { data, error } = await this.supabase
+      .from('regions')
+      .select('id')
+      .eq('country_id', countryId)
+      .eq('code', regionCode)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) throw new ApiError(`Unknown region for this country: ${regionCode}`, 400);
+    return data.id;
+  }
+
+  private async resolveHolidayTypeId(holidayType: string): Promise<string> {
+    const { data, error } = await this.supabase
+      .from('holiday_types')
+      .select('id')
+      .eq('name', holidayType)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) throw new ApiError(`Unknown holiday type: ${holidayType}`, 400);
+    return data.id;
+  }
+
+  /**
+   * Throw a 400 ApiError unless the date rule can be evaluated
+   */
+  private assertCompleteRule(rule: Record<string, any>): void {
+    const normalised = Object.fromEntries(
+      Object.entries(rule).map(([key, value]) => [key, value ?? undefined])
+    ) as HolidayRule;
+
+    if (!isCompleteHolidayRule(normalised)) {
+      throw new ApiError(
+        'Incomplete date rule: fixed dates need month and day, variable dates easter_offset, ' +
+        'floating dates month, weekday and week_of_month or day',
+        400
+      );
+    }
+    if (normalised.year_start && normalised.year_end && normalised.year_end < normalised.year_start) {
+      throw new ApiError('year_end must not be before year_start', 400);
+    }
+  }
+
+  /**
+   * Date rule fields present in a create or update request, with nulls kept to clear a field
+   */
+  private toRuleFields(data: Partial<Record<keyof HolidayRule, any>>): Record<string, any> {
+    const fields: Record<string, any> = {};
+    for (const field of ['date_type', 'month', 'day', 'weekday', 'week_of_month', 'easter_offset', 'year_start', 'year_end'] as const) {
+      if (data[field] !== undefined) fields[field] = data[field];
+    }
+    return fields;
+  }
+
+  /**
+   * Regenerate a country's observances after one of its holidays changed. Every
+   * server instance materialises a year only once, so the years others may
+   * already have done (the current and next year, those this instance did and
+   * those the change removed observances from) are regenerated right away
+   * rather than on this instance's next query.
+   */
+  private async refreshObservances(countryCode: string, touchedYears: number[] = []): Promise<void> {
+    const currentYear = new Date().getUTCFullYear();
+    const years = new Set([currentYear, currentYear + 1, ...touchedYears]);
+    for (const key of Array.from(this.materializedYears)) {
+      const [code, year] = key.split(':');
+      if (code === countryCode) years.add(Number(year));
+    }
+
+    // Years that fail here are retried on this instance's next query
+    this.forgetMaterializedYears(countryCode);
+    for (const year of Array.from(years).sort((a, b) => a - b)) {
+      try {
+        await this.materializeObservances(year, countryCode);
+      } catch (error) {
+        console.warn(`Could not regenerate ${countryCode} holidays for ${year}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Have a country's observances materialised again on the next query
+   */
+  private forgetMaterializedYears(countryCode: string): void {
+    for (const key of Array.from(this.materializedYears)) {
+      if (key.startsWith(`${countryCode}:`)) {
+        this.materializedYears.delete(key);
+      }
+    }
+  }
+
+  private mapRowToHolidayDetails(row: any): HolidayDetails {
+    const { holiday_types, countries, regions, ...holiday } = row;
+    return {
+      ...holiday,
+      holiday_type: holiday_types.name,
+      country_code: countries.code,
+      region_code: regions?.code || undefined
+    };
+  }
+
+  private mapRowToCulturalEventDetails(row: any): CulturalEventDetails {
+    const { countries, regions, ...event } = row;
+    return {
+      ...event,
+      country_code: countries.code,
+      region_code: regions?.code || undefined
+    };
+  }
+
   /**
    * Determine if a date is available based on restrictions
    */
@@ -403,74 +873,261 @@ export class HolidayService {
   }
 
   /**
-   * Get holidays for a date range
-   * Note: The database function get_holidays_for_date_range doesn't exist,
-   * so we use get_holidays_for_date in a loop as a fallback
+   * Compute every holiday's date in a year from its rule and store it in
+   * holiday_observances, so any year can be queried without a seeding script.
+   * Observances entered by hand (those with notes) and existing is_observed
+   * flags are kept; generated observances left on another date are removed.
+   * Returns the number of holidays observed that year.
+   */
+  async materializeObservances(year: number, countryCode: string = 'CZE'): Promise<number> {
+    const { data: holidays, error } = await this.supabase
+      .from('holidays')
+      .select(`
+        id, date_type, month, day, weekday, week_of_month, easter_offset, year_start, year_end, is_observed,
+        countries!inner(code)
+      `)
+      .eq('countries.code', countryCode);
+
+    if (error) {
+      throw new Error(`Failed to load holiday rules: ${error.message}`);
+    }
+
+    const observances = (holidays || []).flatMap(holiday => {
+      const observedDate = evaluateHolidayRule(holiday, year);
+      return observedDate
+        ? [{ holiday_id: holiday.id, observed_date: observedDate, is_observed: holiday.is_observed ?? true }]
+        : [];
+    });
+
+    if (observances.length > 0) {
+      const { error: upsertError } = await this.supabase
+        .from('holiday_observances')
+        .upsert(observances, { onConflict: 'holiday_id,observed_date', ignoreDuplicates: true });
+
+      if (upsertError) {
+        throw new Error(`Failed to store holiday observances: ${upsertError.message}`);
+      }
+
+      const { data: existing, error: existingError } = await this.supabase
+        .from('holiday_observances')
+        .select('id, holiday_id, observed_date')
+        .in('holiday_id', observances.map(o => o.holiday_id))
+        .is('notes', null)
+        .gte('observed_date', `${year}-01-01`)
+        .lte('observed_date', `${year}-12-31`);
+
+      if (existingError) {
+        throw new Error(`Failed to load holiday observances: ${existingError.message}`);
+      }
+
+      const expected = new Set(observances.map(o => `${o.holiday_id}:${o.observed_date}`));
+      const staleIds = (existing || [])
+        .filter(o => !expected.has(`${o.holiday_id}:${o.observed_date}`))
+        .map(o => o.id);
+
+      if (staleIds.length > 0) {
+        const { error: deleteError } = await this.supabase
+          .from('holiday_observances')
+          .delete()
+          .in('id', staleIds);
+
+        if (deleteError) {
+          throw new Error(`Failed to remove stale holiday observances: ${deleteError.message}`);
+        }
+        console.log(`🗓️ Removed ${staleIds.length} stale ${countryCode} holiday observances for ${year}`);
+      }
+    }
+
+    this.materializedYears.add(`${countryCode}:${year}`);
+    return observances.length;
+  }
+
+  /**
+   * Get holidays observed in a date range, national ones plus those of the
+   * given region (e.g. CZ-PR). Observances are materialised from the holiday
+   * rules the first time a year is queried.
    */
   async getHolidaysForDateRange(
     startDate: string,
     endDate: string,
-    region: string = 'CZ'
-  ): Promise<any[]> {
+    region: string = 'CZ',
+    countryCode: string = 'CZE'
+  ): Promise<HolidayObservanceInfo[]> {
     try {
-      // Try the date range function first (if it exists in the future)
-      const { data, error } = await this.supabase
-        .rpc('get_holidays_for_date_range', {
-          start_date: startDate,
-          end_date: endDate,
-          country_code: 'CZE',
-          region_code: region
-        });
-
-      // If function doesn't exist, use get_holidays_for_date in a loop
-      if (error && (error.message?.includes('function') || error.message?.includes('does not exist') || error.code === 'PGRST202')) {
-        console.warn('get_holidays_for_date_range function not found, using get_holidays_for_date in a loop');
-        
-        const holidays: any[] = [];
-        const start = new Date(startDate);
-        const end = new Date(endDate);
-        
-        // Iterate through each date in the range
-        for (let date = new Date(start); date <= end; date.setDate(date.getDate() + 1)) {
-          const dateStr = date.toISOString().split('T')[0];
-          const { data: dayHolidays, error: dayError } = await this.supabase
-            .rpc('get_holidays_for_date', {
-              target_date: dateStr,
-              country_code: 'CZE',
-              region_code: region || null
-            });
-          
-          if (!dayError && dayHolidays) {
-            holidays.push(...dayHolidays);
-          }
+      for (const year of yearsInRange(startDate, endDate)) {
+        if (this.materializedYears.has(`${countryCode}:${year}`)) continue;
+        try {
+          await this.materializeObservances(year, countryCode);
+        } catch (error) {
+          // Observances stored earlier are still usable
+          console.warn(`Could not materialise ${countryCode} holidays for ${year}:`, error);
         }
-        
-        return holidays;
       }
 
+      const { data, error } = await this.supabase
+        .from('holiday_observances')
+        .select(`
+          holiday_id,
+          observed_date,
+          is_observed,
+          holidays!inner(
+            name,
+            name_native,
+            business_impact,
+            venue_closure_expected,
+            holiday_types!inner(name),
+            countries!inner(code),
+            regions(code)
+          )
+        `)
+        .eq('holidays.countries.code', countryCode)
+        .eq('is_observed', true)
+        .gte('observed_date', startDate)
+        .lte('observed_date', endDate)
+        .order('observed_date');
+
       if (error) {
         console.error('Error fetching holidays for date range:', error);
         return [];
       }
 
-      return data || [];
+      return (data || [])
+        .filter((row: any) => !row.holidays.regions || row.holidays.regions.code === region)
+        .map((row: any) => ({
+          holiday_id: row.holiday_id,
+          observed_date: row.observed_date,
+          holiday_name: row.holidays.name,
+          holiday_name_native: row.holidays.name_native || undefined,
+          holiday_type: row.holidays.holiday_types.name,
+          business_impact: row.holidays.business_impact,
+          venue_closure_expected: row.holidays.venue_closure_expected,
+          is_observed: row.is_observed,
+          region_code: row.holidays.regions?.code
+        }));
     } catch (error) {
       console.error('Error in getHolidaysForDateRange:', error);
       return [];
     }
   }
 
+  /**
+   * Get school breaks overlapping a date range: nationwide breaks plus, when a
+   * city is given, the breaks of its school districts (without a city, every
+   * district's spring break is returned). A city in another country has none.
+   */
+  async getSchoolHolidays(
+    startDate: string,
+    endDate: string,
+    city?: string,
+    countryCode: string = 'CZE'
+  ): Promise<SchoolHoliday[]> {
+    if (city) {
+      const location = await this.resolveHolidayLocation(city);
+      if (location && location.country_code !== countryCode) return [];
+    }
+
+    const { data, error } = await this.supabase
+      .from('school_holidays')
+      .select(`
+        *,
+        countries!inner(code)
+      `)
+      .eq('countries.code', countryCode)
+      .lte('start_date', endDate)
+      .gte('end_date', startDate)
+      .order('start_date');
+
+    if (error) {
+      console.error('Error fetching school holidays:', error);
+      return [];
+    }
+
+    const holidays: SchoolHoliday[] = (data || []).map(({ countries, ...holiday }) => ({
+      ...holiday,
+      region_id: holiday.region_id || undefined,
+      district: holiday.district || undefined,
+      name_native: holiday.name_native || undefined
+    }));
+
+    return city ? filterSchoolHolidaysForCity(holidays, city) : holidays;
+  }
+
   /**
    * Get configuration for specific Czech region
    */
   getCzechRegionConfig(regionCode: string): HolidayServiceConfig {
+    return this.getRegionConfig('CZE', regionCode);
+  }
+
+  /**
+   * Get configuration for a country (alpha-3, e.g. 'AUT') and optionally one
+   * of its regions (e.g. 'AT-9'), whose regional holidays then apply
+   */
+  getRegionConfig(countryCode: string, regionCode?: string): HolidayServiceConfig {
     return {
-      country_code: 'CZE',
+      country_code: countryCode,
       region_code: regionCode,
       include_cultural_events: true,
       business_impact_threshold: 'partial'
     };
   }
+
+  /**
+   * Get configuration for an event city from the country and region the city
+   * database has for it; null when the city is unknown or its country has no
+   * holiday data
+   */
+  async getHolidayConfigForCity(city: string): Promise<HolidayServiceConfig | null> {
+    const location = await this.resolveHolidayLocation(city);
+    return location
+      ? { ...this.getRegionConfig(location.country_code, location.region_code), city }
+      : null;
+  }
+
+  /**
+   * Resolve the holiday country and region of a city via the city database,
+   * with the nearest city of each neighbouring country close enough for its
+   * holidays to matter (e.g. Vienna for Bratislava)
+   */
+  async resolveHolidayLocation(city: string): Promise<HolidayLocation | null> {
+    const key = city.trim().toLowerCase();
+    const cached = this.locations.get(key);
+    if (cached) return cached;
+
+    try {
+      // Loaded lazily: the city database's AI fallback requires OPENAI_API_KEY,
+      // which the holiday API routes otherwise do not need
+      const { cityDatabaseService } = await import('./city-database');
+
+      const cityInfo = await cityDatabaseService.getCityInfo(city);
+      const countryCode = cityInfo ? toHolidayCountryCode(cityInfo.country_code) : null;
+      if (!cityInfo || !countryCode) {
+        console.log(`No holiday country found for city: ${city}`);
+        return null;
+      }
+
+      const nearby = await cityDatabaseService.findCrossBorderCities(cityInfo, CROSS_BORDER_MAX_DISTANCE_KM);
+      const location: HolidayLocation = {
+        city: cityInfo.name_en,
+        country_code: countryCode,
+        region_code: cityInfo.region_code && isRegionOfCountry(cityInfo.region_code, countryCode)
+          ? cityInfo.region_code
+          : undefined,
+        cross_border: selectCrossBorderNeighbours(nearby, countryCode).map(neighbour => ({
+          city: neighbour.name_en,
+          country_code: toHolidayCountryCode(neighbour.country_code)!,
+          region_code: neighbour.region_code,
+          distance_km: Math.round(neighbour.distance_km)
+        }))
+      };
+
+      this.locations.set(key, location);
+      return location;
+    } catch (error) {
+      console.error('Error resolving holiday location for city:', error);
+      return null;
+    }
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,421 @@
+// src/lib/services/job-queue.ts
+import { serverDatabaseService } from '@/lib/supabase';
+import { analysisHistoryService } from '@/lib/services/analysis-history';
+import { conflictAnalysisService } from '@/lib/services/conflict-analysis';
+import { usageMeteringService } from '@/lib/services/usage-metering';
+import {
+  getAnalysisStepProgress,
+  getJobRetryDelayMs,
+  isTerminalJobStatus,
+  JOB_LEASE_SECONDS,
+  JOB_MAX_ATTEMPTS,
+  JobCancelledError,
+  JobLeaseLostError
+} from '@/lib/utils/job-queue';
+import { AnalysisJobPayload, AnalysisJobResult, AnalysisJobStep, Job } from '@/types/jobs';
+import type { AnalysisProgressEvent, JobProgressEvent } from '@/types/analysis-progress';
+import type { AuthContext } from '@/types/organisations';
+
+type JobOwner = Pick<AuthContext, 'organisationId' | 'userId' | 'apiKeyId'>;
+
+const EVENT_FLUSH_INTERVAL_MS = 500;
+
+/**
+ * Buffers a job's progress events and writes them in batches, so a burst of
+ * events (e.g. one per scored date) costs a single insert
+ */
+class JobEventRecorder {
+  private buffer: AnalysisProgressEvent[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(private jobId: string, private db = serverDatabaseService) {}
+
+  record(event: AnalysisProgressEvent): void {
+    this.buffer.push(event);
+    if (!this.timer) {
+      this.timer = setTimeout(() => {
+        void this.flush();
+      }, EVENT_FLUSH_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * Write buffered events. Events are informational, so failures are only logged.
+   */
+  flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const events = this.buffer;
+    this.buffer = [];
+    if (events.length === 0) {
+      return this.pending;
+    }
+
+    // Chain writes so events keep their order
+    this.pending = this.pending.then(async () => {
+      const { error } = await this.db.getClient()
+        .from('job_events')
+        .insert(events.map(({ type, ...data }) => ({ job_id: this.jobId, type, data })));
+
+      if (error) {
+        console.error(`Failed to record progress events of job ${this.jobId}:`, error);
+      }
+    });
+    return this.pending;
+  }
+}
+
+/**
+ * Durable queue for long-running analyses. Jobs are persisted in the jobs table,
+ * started right after enqueueing by the analyze route and picked up again by the
+ * /api/jobs/process cron when an attempt failed or its worker died.
+ */
+export class JobQueueService {
+  private db = serverDatabaseService;
+
+  /**
+   * Queue an analysis
+   */
+  async enqueueAnalysis(payload: AnalysisJobPayload, owner: JobOwner | null): Promise<Job> {
+    const { data: row, error } = await this.db.executeWithRetry(async () => {
+      return await this.db.getClient()
+        .from('jobs')
+        .insert({
+          type: 'analysis',
+          payload,
+          current_step: 'queued',
+          max_attempts: JOB_MAX_ATTEMPTS,
+          organisation_id: owner?.organisationId || null,
+          user_id: owner?.userId || null,
+          api_key_id: owner?.apiKeyId || null
+        })
+        .select()
+        .single();
+    });
+
+    if (error) {
+      console.error('Failed to enqueue analysis job:', error);
+      throw error;
+    }
+
+    return this.mapRowToJob(row);
+  }
+
+  /**
+   * Get a job by ID
+   */
+  async getJob(id: string): Promise<Job | null> {
+    const { data, error } = await this.db.getClient()
+      .from('jobs')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') { // PGRST116 = no rows returned
+        return null;
+      }
+      console.error(`Error fetching job ${id}:`, error);
+      throw error;
+    }
+
+    return data ? this.mapRowToJob(data) : null;
+  }
+
+  /**
+   * Cancel a job. Queued jobs are cancelled immediately; running jobs stop at
+   * their next step. Finished jobs are returned unchanged.
+   */
+  async cancelJob(id: string): Promise<Job | null> {
+    const job = await this.getJob(id);
+    if (!job || isTerminalJobStatus(job.status)) {
+      return job;
+    }
+
+    const now = new Date().toISOString();
+    const updates = job.status === 'queued'
+      ? { status: 'cancelled', cancel_requested_at: now, finished_at: now }
+      : { cancel_requested_at: now };
+
+    const { data, error } = await this.db.getClient()
+      .from('jobs')
+      .update(updates)
+      .eq('id', id)
+      .eq('status', job.status)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') { // Status changed meanwhile
+        return this.getJob(id);
+      }
+      console.error(`Failed to cancel job ${id}:`, error);
+      throw error;
+    }
+
+    return this.mapRowToJob(data);
+  }
+
+  /**
+   * Progress events of a job recorded after `afterId`, oldest first
+   */
+  async getEvents(jobId: string, afterId: number = 0, limit: number = 100): Promise<JobProgressEvent[]> {
+    const { data, error } = await this.db.getClient()
+      .from('job_events')
+      .select('*')
+      .eq('job_id', jobId)
+      .gt('id', afterId)
+      .order('id', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      console.error(`Error fetching events of job ${jobId}:`, error);
+      throw error;
+    }
+
+    return (data || []).map((row: any) => this.mapRowToJobEvent(row));
+  }
+
+  /**
+   * Claim and run one job. Does nothing when the job is not due or another
+   * worker holds it.
+   */
+  async processJob(id: string): Promise<void> {
+    const [job] = await this.claimJobs(1, id);
+    if (job) {
+      await this.runJob(job);
+    }
+  }
+
+  /**
+   * Run up to `limit` due jobs one after another. Intended to run from a cron job.
+   * Each job is claimed right before it runs, so waiting jobs do not sit on a
+   * lease that expires while earlier ones run.
+   */
+  async processDueJobs(limit: number = 5): Promise<{ attempted: number; succeeded: number; failed: number }> {
+    const summary = { attempted: 0, succeeded: 0, failed: 0 };
+
+    while (summary.attempted < limit) {
+      const [job] = await this.claimJobs(1);
+      if (!job) {
+        break;
+      }
+
+      summary.attempted++;
+      if (await this.runJob(job)) {
+        summary.succeeded++;
+      } else {
+        summary.failed++;
+      }
+    }
+
+    if (summary.attempted > 0) {
+      console.log(`⚙️ Jobs: ${summary.attempted} attempted, ${summary.succeeded} succeeded, ${summary.failed} failed`);
+    }
+
+    return summary;
+  }
+
+  private async claimJobs(limit: number, jobId?: string): Promise<Job[]> {
+    const { data, error } = await this.db.getClient()
+      .rpc('claim_jobs', {
+        p_limit: limit,
+        p_lease_seconds: JOB_LEASE_SECONDS,
+        p_job_id: jobId || null
+      });
+
+    if (error) {
+      console.error('Error claiming jobs:', error);
+      throw error;
+    }
+
+    return (data || []).map((row: any) => this.mapRowToJob(row));
+  }
+
+  /**
+   * Run a claimed job and record the outcome. Returns whether it succeeded.
+   * The outcome is only written while this attempt still holds the job.
+   */
+  private async runJob(job: Job): Promise<boolean> {
+    try {
+      const result = await this.runAnalysis(job);
+      await this.updateJob(job, {
+        status: 'succeeded',
+        current_step: 'complete',
+        progress: getAnalysisStepProgress('complete'),
+        result,
+        last_error: null,
+        locked_until: null,
+        finished_at: new Date().toISOString()
+      });
+      return true;
+    } catch (error) {
+      if (error instanceof JobLeaseLostError) {
+        console.warn(`⚠️ ${error.message}, leaving the job to its new attempt`);
+        return false;
+      }
+
+      if (error instanceof JobCancelledError) {
+        console.log(`🛑 ${error.message}`);
+        await this.updateJob(job, {
+          status: 'cancelled',
+          locked_until: null,
+          finished_at: new Date().toISOString()
+        });
+        return false;
+      }
+
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const retryDelay = getJobRetryDelayMs(job.attempts, job.maxAttempts);
+      console.error(`❌ Job ${job.id} attempt ${job.attempts} failed:`, message);
+
+      await this.updateJob(job, retryDelay === null
+        ? {
+            status: 'failed',
+            last_error: message,
+            locked_until: null,
+            finished_at: new Date().toISOString()
+          }
+        : {
+            status: 'queued',
+            current_step: 'queued',
+            progress: 0,
+            last_error: message,
+            locked_until: null,
+            run_after: new Date(Date.now() + retryDelay).toISOString()
+          });
+      return false;
+    }
+  }
+
+  private async runAnalysis(job: Job): Promise<AnalysisJobResult> {
+    const { request } = job.payload;
+    const owner = { organisationId: job.organisationId, apiKeyId: job.apiKeyId };
+    const events = new JobEventRecorder(job.id);
+
+    try {
+      // OpenAI and Perplexity calls made during the analysis are metered to the job's organisation
+      const analysis = await usageMeteringService.meterCalls(owner, () =>
+        conflictAnalysisService.analyzeConflicts(
+          analysisHistoryService.toConflictAnalysisParams(request, job.organisationId),
+          {
+            onProgress: async step => {
+              await events.flush();
+              await this.reportProgress(job, step);
+            },
+            onEvent: event => events.record(event)
+          }
+        )
+      );
+
+      events.record({ type: 'step', step: 'saving' });
+      await events.flush();
+      await this.reportProgress(job, 'saving');
+      const savedAnalysis = await analysisHistoryService.saveAnalysis(request, analysis, {
+        userId: job.userId,
+        organisationId: job.organisationId
+      });
+
+      // Recorded last, so an attempt that fails while saving and is retried is charged only once
+      await usageMeteringService.record(owner, 'analysis');
+
+      return { analysisId: savedAnalysis?.id || null, data: analysis };
+    } finally {
+      await events.flush();
+    }
+  }
+
+  /**
+   * Record the step a running job entered and renew its lease. Throws
+   * JobCancelledError when cancellation was requested meanwhile, and
+   * JobLeaseLostError when another attempt took the job over.
+   */
+  private async reportProgress(job: Job, step: AnalysisJobStep): Promise<void> {
+    const { data, error } = await this.db.getClient()
+      .from('jobs')
+      .update({
+        current_step: step,
+        progress: getAnalysisStepProgress(step),
+        locked_until: new Date(Date.now() + JOB_LEASE_SECONDS * 1000).toISOString()
+      })
+      .eq('id', job.id)
+      .eq('status', 'running')
+      .eq('attempts', job.attempts)
+      .select('cancel_requested_at')
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') { // No longer running under this attempt
+        throw new JobLeaseLostError(job.id, job.attempts);
+      }
+      // Progress is informational - keep the analysis running
+      console.error(`Failed to record progress of job ${job.id}:`, error);
+      return;
+    }
+
+    if (data?.cancel_requested_at) {
+      throw new JobCancelledError(job.id);
+    }
+  }
+
+  /**
+   * Update a job while the given attempt still holds it. Claiming increments
+   * attempts, so a stale worker never overwrites the outcome of a newer attempt.
+   */
+  private async updateJob(job: Job, updates: Record<string, any>): Promise<void> {
+    const { data, error } = await this.db.getClient()
+      .from('jobs')
+      .update(updates)
+      .eq('id', job.id)
+      .eq('status', 'running')
+      .eq('attempts', job.attempts)
+      .select('id');
+
+    if (error) {
+      console.error(`Failed to update job ${job.id}:`, error);
+    } else if (!data || data.length === 0) {
+      console.warn(`⚠️ Job ${job.id} attempt ${job.attempts} lost its lease, outcome not recorded`);
+    }
+  }
+
+  private mapRowToJobEvent(row: any): JobProgressEvent {
+    return {
+      ...row.data,
+      type: row.type,
+      id: Number(row.id),
+      createdAt: row.created_at
+    };
+  }
+
+  private mapRowToJob(row: any): Job {
+    return {
+      id: row.id,
+      type: row.type,
+      status: row.status,
+      payload: row.payload,
+      currentStep: row.current_step || null,
+      progress: row.progress || 0,
+      attempts: row.attempts || 0,
+      maxAttempts: row.max_attempts || JOB_MAX_ATTEMPTS,
+      lastError: row.last_error || null,
+      result: row.result || null,
+      organisationId: row.organisation_id || null,
+      userId: row.user_id || null,
+      apiKeyId: row.api_key_id || null,
+      runAfter: row.run_after,
+      lockedUntil: row.locked_until || null,
+      cancelRequestedAt: row.cancel_requested_at || null,
+      startedAt: row.started_at || null,
+      finishedAt: row.finished_at || null,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+}
+
+// Export singleton instance
+export const jobQueueService = new JobQueueService();
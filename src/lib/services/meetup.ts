@@ -0,0 +1,245 @@
+// src/lib/services/meetup.ts
+import { Event } from '@/types';
+import { CreateEventData } from '@/lib/types/events';
+import { dataTransformer } from './data-transformer';
+
+interface MeetupEvent {
+  id: string;
+  title: string;
+  description?: string | null;
+  dateTime: string; // 2025-11-18T18:00:00+01:00
+  endTime?: string | null;
+  eventUrl: string;
+  eventType: 'PHYSICAL' | 'ONLINE' | 'HYBRID';
+  going?: number | null;
+  maxTickets?: number | null;
+  imageUrl?: string | null;
+  venue?: {
+    name?: string | null;
+    address?: string | null;
+    city?: string | null;
+    lat?: number | null;
+    lng?: number | null;
+  } | null;
+  group?: {
+    name: string;
+    urlname: string;
+    topicCategory?: { name: string } | null;
+  } | null;
+}
+
+interface MeetupSearchResponse {
+  data?: {
+    keywordSearch: {
+      count: number;
+      pageInfo: { hasNextPage: boolean; endCursor?: string | null };
+      edges: Array<{ node: { id: string; result: MeetupEvent | Record<string, never> } }>;
+    } | null;
+  };
+  errors?: Array<{ message: string }>;
+}
+
+export interface MeetupSearchParams {
+  city: string;
+  startDate: string;
+  endDate: string;
+  radiusKm?: number;
+  keyword?: string;
+}
+
+const KM_PER_MILE = 1.609344;
+const DEFAULT_RADIUS_KM = 25;
+const PAGE_SIZE = 50;
+const MAX_PAGES = 10;
+
+const SEARCH_EVENTS_QUERY = `
+  query SearchEvents($filter: SearchConnectionFilter!, $input: ConnectionInput) {
+    keywordSearch(filter: $filter, input: $input) {
+      count
+      pageInfo { hasNextPage endCursor }
+      edges {
+        node {
+          id
+          result {
+            ... on Event {
+              id
+              title
+              description
+              dateTime
+              endTime
+              eventUrl
+              eventType
+              going
+              maxTickets
+              imageUrl
+              venue { name address city lat lng }
+              group { name urlname topicCategory { name } }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+// Search centres; keyed by lowercase city name without diacritics
+const CITY_COORDINATES: Record<string, { lat: number; lon: number }> = {
+  'prague': { lat: 50.0755, lon: 14.4378 },
+  'praha': { lat: 50.0755, lon: 14.4378 },
+  'brno': { lat: 49.1951, lon: 16.6068 },
+  'ostrava': { lat: 49.8209, lon: 18.2625 },
+  'olomouc': { lat: 49.5938, lon: 17.2509 },
+  'plzen': { lat: 49.7384, lon: 13.3736 },
+  'liberec': { lat: 50.7663, lon: 15.0543 },
+  'hradec kralove': { lat: 50.2092, lon: 15.8328 },
+  'pardubice': { lat: 50.0343, lon: 15.7812 },
+  'ceske budejovice': { lat: 48.9745, lon: 14.4743 },
+  'zlin': { lat: 49.2265, lon: 17.6707 },
+  'bratislava': { lat: 48.1486, lon: 17.1077 },
+  'vienna': { lat: 48.2082, lon: 16.3738 },
+  'berlin': { lat: 52.5200, lon: 13.4050 },
+  'munich': { lat: 48.1351, lon: 11.5820 },
+  'warsaw': { lat: 52.2297, lon: 21.0122 },
+  'krakow': { lat: 50.0647, lon: 19.9450 },
+  'budapest': { lat: 47.4979, lon: 19.0402 },
+  'london': { lat: 51.5074, lon: -0.1278 },
+  'amsterdam': { lat: 52.3676, lon: 4.9041 },
+  'paris': { lat: 48.8566, lon: 2.3522 },
+};
+
+/**
+ * Meetup GraphQL API. Searches in-person group events around a city's centre;
+ * RSVP counts become the expected attendance.
+ */
+export class MeetupService {
+  private readonly endpoint = 'https://api.meetup.com/gql';
+  private readonly accessToken: string;
+
+  constructor(accessToken?: string) {
+    this.accessToken = accessToken ?? process.env.MEETUP_ACCESS_TOKEN ?? '';
+  }
+
+  isConfigured(): boolean {
+    return !!this.accessToken;
+  }
+
+  /**
+   * Whether the city has a known search centre
+   */
+  hasCoordinates(city: string): boolean {
+    return !!CITY_COORDINATES[this.normalizeCity(city)];
+  }
+
+  /**
+   * In-person events within `radiusKm` of the city centre in the date range
+   */
+  async getEventsForCity(params: MeetupSearchParams): Promise<Event[]> {
+    const coordinates = CITY_COORDINATES[this.normalizeCity(params.city)];
+    if (!coordinates) {
+      throw new Error(`No Meetup search centre for city: ${params.city}`);
+    }
+
+    const events: Event[] = [];
+    let cursor: string | undefined;
+
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const data = await this.query<MeetupSearchResponse['data']>(SEARCH_EVENTS_QUERY, {
+        filter: {
+          query: params.keyword || '',
+          lat: coordinates.lat,
+          lon: coordinates.lon,
+          radius: Math.round((params.radiusKm || DEFAULT_RADIUS_KM) / KM_PER_MILE),
+          source: 'EVENTS',
+          eventType: 'PHYSICAL',
+          startDateRange: `${params.startDate}T00:00:00`,
+          endDateRange: `${params.endDate}T23:59:59`
+        },
+        input: { first: PAGE_SIZE, ...(cursor && { after: cursor }) }
+      });
+
+      const search = data?.keywordSearch;
+      if (!search) break;
+
+      for (const edge of search.edges) {
+        const rawEvent = edge.node.result as MeetupEvent;
+        if (!rawEvent?.dateTime || rawEvent.eventType === 'ONLINE') {
+          continue;
+        }
+        events.push(this.toEvent(dataTransformer.transformEvent('meetup', rawEvent)));
+      }
+
+      if (!search.pageInfo.hasNextPage || !search.pageInfo.endCursor) {
+        break;
+      }
+      cursor = search.pageInfo.endCursor;
+    }
+
+    console.log(`👥 Meetup: ${events.length} events within ${params.radiusKm || DEFAULT_RADIUS_KM}km of ${params.city}`);
+    return events;
+  }
+
+  /**
+   * Minimal authenticated request, for health checks
+   */
+  async testConnection(): Promise<void> {
+    await this.query('query { self { id } }', {});
+  }
+
+  private async query<T>(query: string, variables: Record<string, unknown>): Promise<T> {
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.accessToken}`,
+        'Content-Type': 'application/json',
+        'Accept': 'application/json'
+      },
+      body: JSON.stringify({ query, variables })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Meetup API error: ${response.status} ${response.statusText} - ${errorText}`);
+    }
+
+    // GraphQL reports query errors with a 200 status
+    const body: { data?: T; errors?: Array<{ message: string }> } = await response.json();
+    if (body.errors?.length) {
+      throw new Error(`Meetup API error: ${body.errors.map(error => error.message).join('; ')}`);
+    }
+
+    return body.data as T;
+  }
+
+  /**
+   * Events without RSVPs leave expectedAttendees unset, so storage estimates
+   * them instead of treating an estimate as an RSVP count
+   */
+  private toEvent(event: CreateEventData): Event {
+    const now = new Date().toISOString();
+    return {
+      id: `meetup_${event.source_id}`,
+      title: event.title,
+      description: event.description,
+      date: event.date,
+      endDate: event.end_date,
+      city: event.city,
+      venue: event.venue,
+      category: event.category,
+      subcategory: event.subcategory,
+      expectedAttendees: event.attendee_source === 'rsvp_count' ? event.expected_attendees : undefined,
+      source: 'meetup',
+      sourceId: event.source_id,
+      url: event.url,
+      imageUrl: event.image_url,
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+
+  private normalizeCity(city: string): string {
+    return city.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+  }
+}
+
+// Export singleton instance
+export const meetupService = new MeetupService();
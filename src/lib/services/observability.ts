@@ -30,6 +30,25 @@ interface SeasonalBaseline {
   status: 'healthy' | 'warning' | 'critical';
 }
 
+interface SiteParserRun {
+  parser: string;
+  pageUrl: string;
+  succeeded: boolean;
+  eventsParsed: number;
+  eventsSkipped: number;
+  error?: string;
+}
+
+interface SiteParserStats {
+  parser: string;
+  runs: number;
+  succeeded: number;
+  successRate: number; // 0-1; failed runs fell back to LLM extraction
+  eventsParsed: number;
+  eventsSkipped: number;
+  lastError: string | null;
+}
+
 export class ObservabilityService {
   /**
    * Get comprehensive metrics for all event sources
@@ -319,6 +338,81 @@ export class ObservabilityService {
       console.error('Error logging normalization metrics:', error);
     }
   }
+
+  /**
+   * Record the outcome of a dedicated site parser on one page
+   */
+  async logSiteParserRun(run: SiteParserRun): Promise<void> {
+    try {
+      const client = serverDatabaseService.getClient();
+
+      await client
+        .from('site_parser_runs')
+        .insert({
+          parser: run.parser,
+          page_url: run.pageUrl,
+          succeeded: run.succeeded,
+          events_parsed: run.eventsParsed,
+          events_skipped: run.eventsSkipped,
+          error: run.error || null,
+          ran_at: new Date().toISOString()
+        });
+
+    } catch (error) {
+      console.error('Error logging site parser run:', error);
+    }
+  }
+
+  /**
+   * Success rates of the dedicated site parsers over the last `days` days
+   */
+  async getSiteParserStats(days: number = 7): Promise<SiteParserStats[]> {
+    try {
+      const client = serverDatabaseService.getClient();
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+      const { data: runs, error } = await client
+        .from('site_parser_runs')
+        .select('parser, succeeded, events_parsed, events_skipped, error, ran_at')
+        .gte('ran_at', since)
+        .order('ran_at', { ascending: true });
+
+      if (error) throw error;
+
+      const statsMap = new Map<string, SiteParserStats>();
+      runs?.forEach(run => {
+        const stats = statsMap.get(run.parser) || {
+          parser: run.parser,
+          runs: 0,
+          succeeded: 0,
+          successRate: 0,
+          eventsParsed: 0,
+          eventsSkipped: 0,
+          lastError: null
+        };
+
+        stats.runs++;
+        stats.eventsParsed += run.events_parsed || 0;
+        stats.eventsSkipped += run.events_skipped || 0;
+        if (run.succeeded) {
+          stats.succeeded++;
+        } else if (run.error) {
+          stats.lastError = run.error;
+        }
+        statsMap.set(run.parser, stats);
+      });
+
+      statsMap.forEach(stats => {
+        stats.successRate = stats.runs > 0 ? stats.succeeded / stats.runs : 0;
+      });
+
+      return Array.from(statsMap.values());
+
+    } catch (error) {
+      console.error('Error getting site parser stats:', error);
+      return [];
+    }
+  }
 }
 
 export const observabilityService = new ObservabilityService();
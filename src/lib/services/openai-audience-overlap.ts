@@ -2,6 +2,7 @@
 import { Event } from '@/types';
 import { AudienceOverlapPrediction } from '@/types/audience';
 import { audienceOverlapCacheService, OverlapCacheKey } from './audience-overlap-cache';
+import { countUsage } from '@/lib/utils/usage-scope';
 
 export class OpenAIAudienceOverlapService {
   private readonly apiKey: string;
@@ -344,6 +345,7 @@ export class OpenAIAudienceOverlapService {
     const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout
 
     try {
+      countUsage('openai_overlap_call');
       const response = await fetch(`${this.baseUrl}/chat/completions`, {
         method: 'POST',
         headers: {
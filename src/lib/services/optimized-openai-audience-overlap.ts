@@ -2,6 +2,7 @@
 import { Event } from '@/types';
 import { AudienceOverlapPrediction } from '@/types/audience';
 import { audienceOverlapCacheService, OverlapCacheKey } from './audience-overlap-cache';
+import { countUsage } from '@/lib/utils/usage-scope';
 
 export class OptimizedOpenAIAudienceOverlapService {
   private readonly apiKey: string;
@@ -326,6 +327,7 @@ export class OptimizedOpenAIAudienceOverlapService {
     const timeoutId = setTimeout(() => controller.abort(), 15000); // 15 second timeout for batch processing
 
     try {
+      countUsage('openai_overlap_call');
       const response = await fetch(`${this.baseUrl}/chat/completions`, {
         method: 'POST',
         headers: {
@@ -0,0 +1,310 @@
+// src/lib/services/organisations.ts
+import { serverDatabaseService } from '@/lib/supabase';
+import { canManageMember } from '@/lib/utils/api-keys';
+import { AuthorizationError, ConflictError } from '@/lib/utils/error-handling';
+import {
+  AddOrganisationMemberData,
+  CreateOrganisationData,
+  Organisation,
+  OrganisationMember,
+  OrganisationRole
+} from '@/types/organisations';
+
+/**
+ * Organisations group users (from the users table) under roles and own
+ * analyses, watchlists, feedback and API keys.
+ */
+export class OrganisationService {
+  private db = serverDatabaseService;
+
+  /**
+   * Create an organisation and make the given user its owner
+   */
+  async createOrganisation(data: CreateOrganisationData): Promise<{ organisation: Organisation; owner: OrganisationMember }> {
+    const { data: row, error } = await this.db.executeWithRetry(async () => {
+      return await this.db.getClient()
+        .from('organisations')
+        .insert({
+          name: data.name,
+          slug: data.slug || this.slugify(data.name),
+          plan: data.plan
+        })
+        .select()
+        .single();
+    });
+
+    if (error) {
+      if (error.code === '23505') { // unique_violation
+        throw new ConflictError('An organisation with this slug already exists');
+      }
+      console.error('Failed to create organisation:', error);
+      throw error;
+    }
+
+    const organisation = this.mapRowToOrganisation(row);
+    const owner = await this.insertMember(organisation.id, { ...data.owner, role: 'owner' });
+
+    return { organisation, owner };
+  }
+
+  /**
+   * Get an organisation by ID
+   */
+  async getOrganisation(id: string): Promise<Organisation | null> {
+    const { data, error } = await this.db.getClient()
+      .from('organisations')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') { // PGRST116 = no rows returned
+        return null;
+      }
+      console.error(`Error fetching organisation ${id}:`, error);
+      throw error;
+    }
+
+    return data ? this.mapRowToOrganisation(data) : null;
+  }
+
+  /**
+   * List the members of an organisation, owners first
+   */
+  async listMembers(organisationId: string): Promise<OrganisationMember[]> {
+    const { data, error } = await this.db.getClient()
+      .from('organisation_members')
+      .select('organisation_id, user_id, role, created_at, users(email, first_name, last_name)')
+      .eq('organisation_id', organisationId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error(`Error fetching members of organisation ${organisationId}:`, error);
+      throw error;
+    }
+
+    const rank: Record<OrganisationRole, number> = { owner: 0, admin: 1, member: 2, viewer: 3 };
+    return (data || [])
+      .map(row => this.mapRowToMember(row))
+      .sort((a, b) => rank[a.role] - rank[b.role]);
+  }
+
+  /**
+   * Role of a user in an organisation, or null when they are not a member
+   */
+  async getMemberRole(organisationId: string, userId: string): Promise<OrganisationRole | null> {
+    const { data, error } = await this.db.getClient()
+      .from('organisation_members')
+      .select('role')
+      .eq('organisation_id', organisationId)
+      .eq('user_id', userId)
+      .limit(1);
+
+    if (error) {
+      console.error(`Error fetching membership of ${userId} in ${organisationId}:`, error);
+      throw error;
+    }
+
+    return data?.[0]?.role || null;
+  }
+
+  /**
+   * Add a user to an organisation. The user is created in the users table when
+   * their email is not known yet. Pass actorRole to enforce role rules; the
+   * operator (null) may do anything.
+   */
+  async addMember(
+    organisationId: string,
+    data: AddOrganisationMemberData,
+    actorRole: OrganisationRole | null
+  ): Promise<OrganisationMember> {
+    if (actorRole && !canManageMember(actorRole, 'viewer', data.role)) {
+      throw new AuthorizationError(`A ${actorRole} cannot add members with the ${data.role} role`);
+    }
+    return await this.insertMember(organisationId, data);
+  }
+
+  /**
+   * Change a member's role. Returns null when the user is not a member.
+   */
+  async updateMemberRole(
+    organisationId: string,
+    userId: string,
+    role: OrganisationRole,
+    actorRole: OrganisationRole | null
+  ): Promise<OrganisationMember | null> {
+    const currentRole = await this.getMemberRole(organisationId, userId);
+    if (!currentRole) {
+      return null;
+    }
+    if (actorRole && !canManageMember(actorRole, currentRole, role)) {
+      throw new AuthorizationError(`A ${actorRole} cannot change the role of a ${currentRole}`);
+    }
+    if (currentRole === 'owner' && role !== 'owner') {
+      await this.assertAnotherOwner(organisationId);
+    }
+
+    const { error } = await this.db.getClient()
+      .from('organisation_members')
+      .update({ role })
+      .eq('organisation_id', organisationId)
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error(`Error updating role of ${userId} in ${organisationId}:`, error);
+      throw error;
+    }
+
+    const members = await this.listMembers(organisationId);
+    return members.find(member => member.userId === userId) || null;
+  }
+
+  /**
+   * Remove a member. Their API keys stop working because key scopes are
+   * limited to the creator's current role. Returns false when the user is not a member.
+   */
+  async removeMember(organisationId: string, userId: string, actorRole: OrganisationRole | null): Promise<boolean> {
+    const currentRole = await this.getMemberRole(organisationId, userId);
+    if (!currentRole) {
+      return false;
+    }
+    if (actorRole && !canManageMember(actorRole, currentRole)) {
+      throw new AuthorizationError(`A ${actorRole} cannot remove a ${currentRole}`);
+    }
+    if (currentRole === 'owner') {
+      await this.assertAnotherOwner(organisationId);
+    }
+
+    const { error } = await this.db.getClient()
+      .from('organisation_members')
+      .delete()
+      .eq('organisation_id', organisationId)
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error(`Error removing ${userId} from ${organisationId}:`, error);
+      throw error;
+    }
+
+    return true;
+  }
+
+  private async insertMember(
+    organisationId: string,
+    data: AddOrganisationMemberData
+  ): Promise<OrganisationMember> {
+    const userId = await this.findOrCreateUser(data);
+
+    const { data: row, error } = await this.db.getClient()
+      .from('organisation_members')
+      .insert({
+        organisation_id: organisationId,
+        user_id: userId,
+        role: data.role
+      })
+      .select('organisation_id, user_id, role, created_at, users(email, first_name, last_name)')
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new ConflictError('User is already a member of this organisation');
+      }
+      console.error(`Error adding member to organisation ${organisationId}:`, error);
+      throw error;
+    }
+
+    return this.mapRowToMember(row);
+  }
+
+  /**
+   * Look a user up by email, creating the users row when it does not exist
+   */
+  private async findOrCreateUser(data: { email: string; firstName?: string | null; lastName?: string | null }): Promise<string> {
+    const email = data.email.trim().toLowerCase();
+
+    const { data: existing, error: lookupError } = await this.db.getClient()
+      .from('users')
+      .select('id')
+      .eq('email', email)
+      .limit(1);
+
+    if (lookupError) {
+      console.error(`Error looking up user ${email}:`, lookupError);
+      throw lookupError;
+    }
+    if (existing?.[0]) {
+      return existing[0].id;
+    }
+
+    const { data: created, error } = await this.db.getClient()
+      .from('users')
+      .insert({
+        email,
+        first_name: data.firstName || null,
+        last_name: data.lastName || null
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error(`Error creating user ${email}:`, error);
+      throw error;
+    }
+
+    return created.id;
+  }
+
+  private async assertAnotherOwner(organisationId: string): Promise<void> {
+    const { count, error } = await this.db.getClient()
+      .from('organisation_members')
+      .select('user_id', { count: 'exact', head: true })
+      .eq('organisation_id', organisationId)
+      .eq('role', 'owner');
+
+    if (error) {
+      console.error(`Error counting owners of ${organisationId}:`, error);
+      throw error;
+    }
+    if ((count || 0) <= 1) {
+      throw new ConflictError('An organisation must keep at least one owner');
+    }
+  }
+
+  private slugify(name: string): string {
+    const slug = name
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 60);
+    return slug.length >= 2 ? slug : `org-${Date.now().toString(36)}`;
+  }
+
+  private mapRowToOrganisation(row: any): Organisation {
+    return {
+      id: row.id,
+      name: row.name,
+      slug: row.slug,
+      plan: row.plan || 'starter',
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private mapRowToMember(row: any): OrganisationMember {
+    const user = Array.isArray(row.users) ? row.users[0] : row.users;
+    return {
+      organisationId: row.organisation_id,
+      userId: row.user_id,
+      email: user?.email || '',
+      firstName: user?.first_name || null,
+      lastName: user?.last_name || null,
+      role: row.role,
+      createdAt: row.created_at
+    };
+  }
+}
+
+// Export singleton instance
+export const organisationService = new OrganisationService();
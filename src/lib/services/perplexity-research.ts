@@ -3,6 +3,7 @@ import { PerplexityConflictResearch, PerplexityResearchParams, PerplexityBatchRe
 import { formatNearbyCities } from '@/lib/utils/city-proximity';
 import { cityDatabaseService } from '@/lib/services/city-database';
 import { z } from 'zod';
+import { countUsage } from '@/lib/utils/usage-scope';
 
 // Zod schema for structured output validation
 const PerplexityEventSchema = z.object({
@@ -735,6 +736,7 @@ IMPORTANT GUIDELINES:
       });
       
       const fetchStartTime = Date.now();
+      countUsage('perplexity_research');
       const response = await fetch(`${this.baseUrl}/chat/completions`, {
         method: 'POST',
         headers: {
@@ -0,0 +1,213 @@
+// src/lib/services/scoring-profiles.ts
+import { serverDatabaseService } from '@/lib/supabase';
+import { scoringWeightCalculator } from './scoring-weights';
+import {
+  CreateScoringProfileData,
+  ScoringProfile,
+  ScoringWeights,
+  UpdateScoringProfileData
+} from '@/types/scoring-profiles';
+
+/**
+ * Named scoring profiles let an account tune how conflict scores weigh category
+ * match, attendance, audience overlap, holidays, seasonality and distance.
+ */
+export class ScoringProfileService {
+  private db = serverDatabaseService;
+
+  /**
+   * Create a profile. Marking it as default clears the flag on the account's other profiles.
+   */
+  async createProfile(data: CreateScoringProfileData): Promise<ScoringProfile> {
+    if (data.isDefault) {
+      await this.clearDefault(data.userId || null);
+    }
+
+    const { data: row, error } = await this.db.executeWithRetry(async () => {
+      return await this.db.getClient()
+        .from('scoring_profiles')
+        .insert({
+          user_id: data.userId || null,
+          name: data.name,
+          description: data.description || null,
+          weights: scoringWeightCalculator.resolve(data.weights),
+          is_default: data.isDefault || false
+        })
+        .select()
+        .single();
+    });
+
+    if (error) {
+      console.error('Failed to create scoring profile:', error);
+      throw error;
+    }
+
+    return this.mapRowToProfile(row);
+  }
+
+  /**
+   * Get a profile by ID
+   */
+  async getProfile(id: string): Promise<ScoringProfile | null> {
+    const { data, error } = await this.db.getClient()
+      .from('scoring_profiles')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') { // PGRST116 = no rows returned
+        return null;
+      }
+      console.error(`Error fetching scoring profile ${id}:`, error);
+      throw error;
+    }
+
+    return data ? this.mapRowToProfile(data) : null;
+  }
+
+  /**
+   * List the profiles of an account, default profile first
+   */
+  async listProfiles(userId?: string): Promise<ScoringProfile[]> {
+    let query = this.db.getClient()
+      .from('scoring_profiles')
+      .select('*')
+      .order('is_default', { ascending: false })
+      .order('name', { ascending: true });
+
+    if (userId) {
+      query = query.eq('user_id', userId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching scoring profiles:', error);
+      throw error;
+    }
+
+    return (data || []).map(row => this.mapRowToProfile(row));
+  }
+
+  /**
+   * Update a profile. Weights are merged over the stored ones.
+   */
+  async updateProfile(id: string, updates: UpdateScoringProfileData): Promise<ScoringProfile | null> {
+    const existing = await this.getProfile(id);
+    if (!existing) {
+      return null;
+    }
+
+    const updateData: Record<string, any> = {};
+    if (updates.name !== undefined) updateData.name = updates.name;
+    if (updates.description !== undefined) updateData.description = updates.description;
+    if (updates.weights !== undefined) {
+      updateData.weights = scoringWeightCalculator.resolve({ ...existing.weights, ...updates.weights });
+    }
+    if (updates.isDefault !== undefined) {
+      if (updates.isDefault) {
+        await this.clearDefault(existing.userId);
+      }
+      updateData.is_default = updates.isDefault;
+    }
+
+    const { data, error } = await this.db.getClient()
+      .from('scoring_profiles')
+      .update(updateData)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      console.error(`Error updating scoring profile ${id}:`, error);
+      throw error;
+    }
+
+    return this.mapRowToProfile(data);
+  }
+
+  /**
+   * Delete a profile. Saved analyses keep a copy of the weights they used.
+   */
+  async deleteProfile(id: string): Promise<void> {
+    const { error } = await this.db.getClient()
+      .from('scoring_profiles')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error(`Error deleting scoring profile ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Weights to analyse with: the named profile, else the account's default
+   * profile, else undefined for the built-in weights. Returns null when the
+   * named profile does not exist or belongs to another user; profiles without
+   * an owner can be used by anyone.
+   */
+  async resolveWeights(options: { profileId?: string | null; userId?: string | null; isOperator?: boolean }): Promise<ScoringWeights | undefined | null> {
+    if (options.profileId) {
+      const profile = await this.getProfile(options.profileId);
+      if (!profile || (profile.userId && profile.userId !== options.userId && !options.isOperator)) {
+        return null;
+      }
+      return profile.weights;
+    }
+
+    if (options.userId) {
+      const { data, error } = await this.db.getClient()
+        .from('scoring_profiles')
+        .select('*')
+        .eq('user_id', options.userId)
+        .eq('is_default', true)
+        .limit(1);
+
+      if (error) {
+        console.warn(`Failed to load default scoring profile for ${options.userId}, using built-in weights:`, error);
+        return undefined;
+      }
+      if (data?.[0]) {
+        return this.mapRowToProfile(data[0]).weights;
+      }
+    }
+
+    return undefined;
+  }
+
+  private async clearDefault(userId: string | null): Promise<void> {
+    let query = this.db.getClient()
+      .from('scoring_profiles')
+      .update({ is_default: false })
+      .eq('is_default', true);
+
+    query = userId ? query.eq('user_id', userId) : query.is('user_id', null);
+
+    const { error } = await query;
+    if (error) {
+      console.error('Error clearing default scoring profile:', error);
+      throw error;
+    }
+  }
+
+  private mapRowToProfile(row: any): ScoringProfile {
+    return {
+      id: row.id,
+      userId: row.user_id || null,
+      name: row.name,
+      description: row.description || null,
+      weights: scoringWeightCalculator.resolve(row.weights),
+      isDefault: row.is_default,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+}
+
+// Export singleton instance
+export const scoringProfileService = new ScoringProfileService();
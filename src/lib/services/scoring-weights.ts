@@ -0,0 +1,61 @@
+// src/lib/services/scoring-weights.ts
+import type { ScoringWeights } from '@/types/scoring-profiles';
+
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+  categoryMatch: 1,
+  attendance: 1,
+  audienceOverlap: 1,
+  holidayPenalty: 1,
+  seasonality: 1,
+  distance: 1
+};
+
+const WEIGHT_KEYS = Object.keys(DEFAULT_SCORING_WEIGHTS) as Array<keyof ScoringWeights>;
+
+/**
+ * Applies scoring profile weights to the parts of a conflict score.
+ * Kept free of database access so it can be tested in isolation.
+ */
+export class ScoringWeightCalculator {
+  /**
+   * Fill missing weights with the defaults
+   */
+  resolve(weights?: Partial<ScoringWeights> | null): ScoringWeights {
+    const resolved = { ...DEFAULT_SCORING_WEIGHTS };
+    if (!weights) return resolved;
+
+    for (const key of WEIGHT_KEYS) {
+      const value = weights[key];
+      if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+        resolved[key] = value;
+      }
+    }
+    return resolved;
+  }
+
+  isDefault(weights?: Partial<ScoringWeights> | null): boolean {
+    const resolved = this.resolve(weights);
+    return WEIGHT_KEYS.every(key => resolved[key] === DEFAULT_SCORING_WEIGHTS[key]);
+  }
+
+  /**
+   * Stable key for caching per-event scores; empty for the default weights
+   * so existing cache entries stay valid
+   */
+  cacheKey(weights?: Partial<ScoringWeights> | null): string {
+    if (this.isDefault(weights)) return '';
+    const resolved = this.resolve(weights);
+    return WEIGHT_KEYS.map(key => resolved[key]).join(':');
+  }
+
+  /**
+   * Scale how far a multiplier moves a score away from 1: a weight of 0
+   * neutralises it, 2 doubles its effect. Never drops below 0.
+   */
+  scaleMultiplier(multiplier: number, weight: number): number {
+    return Math.max(0, 1 + (multiplier - 1) * weight);
+  }
+}
+
+// Export singleton instance
+export const scoringWeightCalculator = new ScoringWeightCalculator();
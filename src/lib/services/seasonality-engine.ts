@@ -11,11 +11,15 @@
  * - Seasonal recommendations for optimal event timing
  * - Performance-optimized caching and batch processing
  * - Regional customization for Czech Republic with scalability
+ * - School breaks, long weekends and bridge days flagged for the event city
  * 
  * @fileoverview Core seasonality engine for enhanced conflict analysis
  */
 
 import { supabase } from '@/lib/supabase';
+import { holidayService } from './holiday-service';
+import { formatSchoolHoliday } from '@/lib/utils/school-holidays';
+import { describeLongWeekend, findLongWeekendOnDate, findLongWeekends, getLongWeekendSearchRange } from '@/lib/utils/long-weekends';
 import {
   SeasonalMultiplier,
   HolidayImpact,
@@ -71,14 +75,23 @@ export class SeasonalityEngine {
    * @param category - Event category
    * @param subcategory - Event subcategory (optional)
    * @param region - Geographic region (defaults to CZ)
+   * @param city - Event city; flags the school breaks of its district and
+   *   long weekends and bridge days around its public holidays
    * @returns Promise<SeasonalMultiplier>
    */
   async getSeasonalMultiplier(
     date: string,
     category: string,
     subcategory?: string,
-    region: string = this.config.defaultRegion
+    region: string = this.config.defaultRegion,
+    city?: string
   ): Promise<SeasonalMultiplier> {
+    if (city) {
+      const monthly = await this.getSeasonalMultiplier(date, category, subcategory, region);
+      const withSchoolBreaks = await this.addSchoolHolidayReasoning(monthly, date, city);
+      return this.addLongWeekendReasoning(withSchoolBreaks, date, city);
+    }
+
     const startTime = Date.now();
     
     // Validate and parse date
@@ -194,6 +207,87 @@ export class SeasonalityEngine {
     }
   }
 
+  /**
+   * Flag school breaks covering the date in the city's district. The monthly
+   * multiplier is kept; the attendance impact of the break is applied by the
+   * holiday multiplier (school_holiday impact rules).
+   */
+  private async addSchoolHolidayReasoning(
+    multiplier: SeasonalMultiplier,
+    date: string,
+    city: string
+  ): Promise<SeasonalMultiplier> {
+    const day = date.split('T')[0];
+    const cacheKey = `school_holidays_${day}_${city}`;
+    let breaks: string[] | null = this.getCachedResult(cacheKey);
+
+    if (!breaks) {
+      try {
+        const schoolHolidays = await holidayService.getSchoolHolidays(day, day, city);
+        breaks = schoolHolidays.map(holiday =>
+          `${formatSchoolHoliday(holiday)} from ${holiday.start_date} to ${holiday.end_date}: families with children are often away`
+        );
+        this.setCachedResult(cacheKey, breaks);
+      } catch (error) {
+        this.logError('Error checking school holidays:', error);
+        breaks = [];
+      }
+    }
+
+    return breaks.length > 0
+      ? { ...multiplier, reasoning: [...multiplier.reasoning, ...breaks] }
+      : multiplier;
+  }
+
+  /**
+   * Flag long weekends and bridge days around the public holidays of the
+   * city's country and region. Like school breaks, the multiplier is kept; the
+   * attendance impact is applied by the holiday multiplier (long_weekend and
+   * bridge_day impact rules).
+   */
+  private async addLongWeekendReasoning(
+    multiplier: SeasonalMultiplier,
+    date: string,
+    city: string
+  ): Promise<SeasonalMultiplier> {
+    const day = date.split('T')[0];
+    const cacheKey = `long_weekends_${day}_${city}`;
+    let notes: string[] | null = this.getCachedResult(cacheKey);
+
+    if (!notes) {
+      try {
+        const location = await holidayService.resolveHolidayLocation(city);
+        const searchRange = getLongWeekendSearchRange(day);
+        const holidays = (await holidayService.getHolidaysForDateRange(
+          searchRange.start_date,
+          searchRange.end_date,
+          location?.region_code ?? this.config.defaultRegion,
+          location?.country_code
+        )).filter(holiday => holiday.holiday_type === 'public_holiday');
+        const longWeekend = findLongWeekendOnDate(findLongWeekends(holidays.map(holiday => holiday.observed_date)), day);
+
+        notes = [];
+        if (longWeekend) {
+          const holidayNames = holidays
+            .filter(holiday => longWeekend.holiday_dates.includes(holiday.observed_date))
+            .map(holiday => holiday.holiday_name)
+            .join(', ');
+          notes.push(longWeekend.bridge_days.includes(day)
+            ? `Bridge day between ${holidayNames} and the weekend: many people take it off and leave town`
+            : `${describeLongWeekend(longWeekend)} around ${holidayNames}: city residents often travel`);
+        }
+        this.setCachedResult(cacheKey, notes);
+      } catch (error) {
+        this.logError('Error checking long weekends:', error);
+        notes = [];
+      }
+    }
+
+    return notes.length > 0
+      ? { ...multiplier, reasoning: [...multiplier.reasoning, ...notes] }
+      : multiplier;
+  }
+
   /**
    * Get seasonal demand curve for a category (12 months)
    * 
@@ -0,0 +1,313 @@
+// src/lib/services/site-parsers.ts
+import { CreateEventData } from '@/lib/types/events';
+import { SiteEventParser, SiteParseResult, SitePresetKey } from '@/lib/types/crawl';
+import { eventCleaningService } from './event-cleaning.service';
+
+/**
+ * Raised when a page has no event markup a site parser recognises, so the
+ * scraper falls back to LLM extraction
+ */
+export class SiteParseError extends Error {
+  constructor(public preset: SitePresetKey, message: string) {
+    super(`${preset} parser: ${message}`);
+    this.name = 'SiteParseError';
+  }
+}
+
+interface ParsedEntry {
+  title?: string;
+  description?: string;
+  startDate?: string;
+  endDate?: string;
+  city?: string;
+  venue?: string;
+  category?: string;
+  url?: string;
+  imageUrl?: string;
+  capacity?: number;
+}
+
+// schema.org event types, as both sites publish them in JSON-LD
+const SCHEMA_EVENT_CATEGORIES: Record<string, string> = {
+  MusicEvent: 'Entertainment',
+  Festival: 'Entertainment',
+  ComedyEvent: 'Entertainment',
+  ScreeningEvent: 'Entertainment',
+  DanceEvent: 'Arts & Culture',
+  TheaterEvent: 'Arts & Culture',
+  ExhibitionEvent: 'Arts & Culture',
+  VisualArtsEvent: 'Arts & Culture',
+  LiteraryEvent: 'Arts & Culture',
+  SportsEvent: 'Sports',
+  EducationEvent: 'Education',
+  BusinessEvent: 'Business',
+  FoodEvent: 'Other',
+  ChildrensEvent: 'Other',
+  SocialEvent: 'Other',
+  Event: 'Other'
+};
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' '
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (entity, code: string) => {
+    if (code.startsWith('#x') || code.startsWith('#X')) return String.fromCharCode(parseInt(code.slice(2), 16));
+    if (code.startsWith('#')) return String.fromCharCode(parseInt(code.slice(1), 10));
+    return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function textContent(html: string | undefined): string | undefined {
+  if (!html) return undefined;
+  const text = decodeEntities(html.replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]+>/g, ' '))
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\s*\n\s*/g, '\n')
+    .trim();
+  return text || undefined;
+}
+
+/**
+ * Local calendar date (YYYY-MM-DD) of an ISO 8601 value or a Czech
+ * "14. 11. 2025" date; null when the value is not a real date
+ */
+export function parseLocalDate(value: string | undefined): string | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+
+  let year: number;
+  let month: number;
+  let day: number;
+  const iso = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  const czech = trimmed.match(/^(\d{1,2})\.\s*(\d{1,2})\.\s*(\d{4})/);
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (czech) {
+    [day, month, year] = [Number(czech[1]), Number(czech[2]), Number(czech[3])];
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().split('T')[0];
+}
+
+function absoluteUrl(href: string | undefined, pageUrl: string): string | undefined {
+  if (!href) return undefined;
+  try {
+    return new URL(decodeEntities(href), pageUrl).toString();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * schema.org Event nodes in the page's JSON-LD blocks, including events
+ * nested in @graph and ItemList elements
+ */
+function findJsonLdEvents(html: string): any[] {
+  const events: any[] = [];
+  const blocks = [...html.matchAll(/<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi)];
+
+  for (const block of blocks) {
+    let json: unknown;
+    try {
+      json = JSON.parse(block[1].trim());
+    } catch {
+      continue; // Malformed blocks are ignored, as other blocks may still be valid
+    }
+
+    const stack: unknown[] = [json];
+    while (stack.length) {
+      const node = stack.pop();
+      if (Array.isArray(node)) {
+        stack.push(...node);
+        continue;
+      }
+      if (!node || typeof node !== 'object') continue;
+
+      const record = node as Record<string, any>;
+      const types = ([] as string[]).concat(record['@type'] || []);
+      if (types.some(type => type in SCHEMA_EVENT_CATEGORIES || /Event$/.test(type))) {
+        events.push(record);
+      }
+      if (record['@graph']) stack.push(record['@graph']);
+      if (record.itemListElement) stack.push(record.itemListElement);
+      if (record.item) stack.push(record.item);
+    }
+  }
+
+  // The walk is depth-first from the end; restore page order
+  return events.reverse();
+}
+
+function fromJsonLd(node: Record<string, any>, pageUrl: string): ParsedEntry {
+  const location = Array.isArray(node.location) ? node.location[0] : node.location;
+  const address = typeof location?.address === 'object' ? location.address : undefined;
+  const image = Array.isArray(node.image) ? node.image[0] : node.image;
+  const type = ([] as string[]).concat(node['@type'] || []).find(t => t in SCHEMA_EVENT_CATEGORIES);
+  const capacity = Number(node.maximumAttendeeCapacity ?? location?.maximumAttendeeCapacity);
+
+  return {
+    title: textContent(node.name),
+    description: textContent(node.description),
+    startDate: node.startDate,
+    endDate: node.endDate,
+    city: address?.addressLocality || undefined,
+    venue: textContent(location?.name),
+    category: type ? SCHEMA_EVENT_CATEGORIES[type] : 'Other',
+    url: absoluteUrl(node.url || node['@id'], pageUrl),
+    imageUrl: typeof image === 'string' ? image : image?.url,
+    capacity: Number.isFinite(capacity) && capacity > 0 ? capacity : undefined
+  };
+}
+
+/**
+ * HTML of each element opened by `openingTag` (e.g. every event card), up to
+ * the next card or the end of the page
+ */
+function splitBlocks(html: string, openingTag: RegExp): string[] {
+  const starts = [...html.matchAll(new RegExp(openingTag.source, 'gi'))].map(match => match.index ?? 0);
+  return starts.map((start, i) => html.slice(start, starts[i + 1] ?? html.length));
+}
+
+function matchText(block: string, pattern: RegExp): string | undefined {
+  const match = block.match(pattern);
+  return match ? textContent(match[1]) : undefined;
+}
+
+/**
+ * Turn parsed entries into CreateEventData, dropping those without a title or
+ * a real date. Source IDs match the ones LLM extraction gives the same event.
+ */
+function toResult(
+  preset: SitePresetKey,
+  entries: ParsedEntry[],
+  pageUrl: string,
+  sourceName: string
+): SiteParseResult {
+  const events: CreateEventData[] = [];
+  let skipped = 0;
+
+  for (const entry of entries) {
+    const date = parseLocalDate(entry.startDate);
+    if (!entry.title || !date) {
+      skipped++;
+      continue;
+    }
+
+    const url = entry.url || pageUrl;
+    const endDate = parseLocalDate(entry.endDate);
+    events.push({
+      title: entry.title,
+      description: entry.description || '',
+      date,
+      end_date: endDate && endDate !== date ? endDate : undefined,
+      city: entry.city || eventCleaningService.extractCityFallback(
+        { title: entry.title, date, city: '', venue: entry.venue, url },
+        sourceName,
+        eventCleaningService.extractCityFromUrl(pageUrl) || undefined // e.g. GoOut's /cs/brno/akce/
+      ),
+      venue: entry.venue,
+      category: entry.category || 'Other',
+      expected_attendees: entry.capacity,
+      source: 'scraper',
+      source_id: eventCleaningService.normalizeSourceId(sourceName, url, date),
+      url,
+      image_url: entry.imageUrl
+    });
+  }
+
+  if (events.length === 0) {
+    throw new SiteParseError(
+      preset,
+      skipped > 0 ? `${skipped} event entries found but none had a title and date` : 'no event markup found'
+    );
+  }
+
+  return { events, skipped };
+}
+
+/**
+ * GoOut (goout.net). Detail and listing pages publish schema.org events in
+ * JSON-LD; listings rendered without it are read from their event cards.
+ */
+export class GoOutParser implements SiteEventParser {
+  readonly preset = 'goout' as const;
+
+  parse(html: string, pageUrl: string, sourceName: string): SiteParseResult {
+    const jsonLdEvents = findJsonLdEvents(html);
+    if (jsonLdEvents.length > 0) {
+      return toResult(this.preset, jsonLdEvents.map(node => fromJsonLd(node, pageUrl)), pageUrl, sourceName);
+    }
+
+    const cards = splitBlocks(html, /<[a-z]+[^>]*data-testid=["']eventCard["'][^>]*>/);
+    const entries = cards.map(card => ({
+      title: matchText(card, /<h[2-4][^>]*>([\s\S]*?)<\/h[2-4]>/i),
+      startDate: card.match(/<time[^>]*datetime=["']([^"']+)["']/i)?.[1],
+      venue: matchText(card, /data-testid=["']eventCardVenue["'][^>]*>([\s\S]*?)<\//i),
+      url: absoluteUrl(card.match(/<a[^>]*href=["']([^"']*\/event\/[^"']*)["']/i)?.[1], pageUrl),
+      imageUrl: card.match(/<img[^>]*src=["']([^"']+)["']/i)?.[1]
+    }));
+
+    return toResult(this.preset, entries, pageUrl, sourceName);
+  }
+}
+
+/**
+ * Ticketportal (ticketportal.cz). Detail pages publish a schema.org event in
+ * JSON-LD; listing pages are read from their `.event-item` cards, whose venue
+ * line reads "Venue, City".
+ */
+export class TicketportalParser implements SiteEventParser {
+  readonly preset = 'ticketportal' as const;
+
+  parse(html: string, pageUrl: string, sourceName: string): SiteParseResult {
+    const jsonLdEvents = findJsonLdEvents(html);
+    if (jsonLdEvents.length > 0) {
+      return toResult(this.preset, jsonLdEvents.map(node => fromJsonLd(node, pageUrl)), pageUrl, sourceName);
+    }
+
+    const cards = splitBlocks(html, /<[a-z]+[^>]*class=["'][^"']*\bevent-(?:list-)?item\b[^"']*["'][^>]*>/);
+    const entries = cards.map(card => {
+      // "14.11.2025 20:00" or a run such as "14.11.2025 - 16.11.2025"
+      const [startDate, endDate] = (matchText(card, /class=["'][^"']*\bevent-date\b[^"']*["'][^>]*>([\s\S]*?)<\//i) || '')
+        .split(/\s+[–-]\s+/);
+      const venueLine = matchText(card, /class=["'][^"']*\bevent-venue\b[^"']*["'][^>]*>([\s\S]*?)<\//i);
+      const commaIndex = venueLine?.lastIndexOf(',') ?? -1;
+
+      return {
+        title: matchText(card, /class=["'][^"']*\bevent-(?:name|title)\b[^"']*["'][^>]*>([\s\S]*?)<\/(?:h\d|a|span|div)>/i),
+        startDate,
+        endDate,
+        venue: commaIndex > 0 ? venueLine!.slice(0, commaIndex).trim() : venueLine,
+        city: commaIndex > 0 ? venueLine!.slice(commaIndex + 1).trim() : undefined,
+        url: absoluteUrl(card.match(/<a[^>]*href=["']([^"']*\/(?:event|detail)\/[^"']*)["']/i)?.[1], pageUrl),
+        imageUrl: card.match(/<img[^>]*src=["']([^"']+)["']/i)?.[1]
+      };
+    });
+
+    return toResult(this.preset, entries, pageUrl, sourceName);
+  }
+}
+
+const siteParsers: Partial<Record<SitePresetKey, SiteEventParser>> = {
+  goout: new GoOutParser(),
+  ticketportal: new TicketportalParser()
+};
+
+/**
+ * Dedicated parser for a site preset, if there is one
+ */
+export function getSiteParser(preset: SitePresetKey): SiteEventParser | null {
+  return siteParsers[preset] || null;
+}
@@ -0,0 +1,221 @@
+// src/lib/services/usage-metering.ts
+import { AsyncLocalStorage } from 'async_hooks';
+import { serverDatabaseService } from '@/lib/supabase';
+import { organisationService } from '@/lib/services/organisations';
+import { usageQuotaCalculator } from '@/lib/services/usage-quotas';
+import { setUsageScopeResolver, UsageScope } from '@/lib/utils/usage-scope';
+import { QuotaCheck, USAGE_METERS, UsageCounts, UsageMeter, UsageSummary } from '@/types/usage';
+import type { AuthContext } from '@/types/organisations';
+
+const usageScopeStorage = new AsyncLocalStorage<UsageScope>();
+setUsageScopeResolver(() => usageScopeStorage.getStore());
+
+/**
+ * Records metered usage per organisation and answers quota questions
+ * for the current billing period.
+ */
+export class UsageMeteringService {
+  private db = serverDatabaseService;
+
+  /**
+   * Record usage. Failures are logged and swallowed so metering never
+   * breaks the request that caused the usage.
+   */
+  async record(owner: Pick<AuthContext, 'organisationId' | 'apiKeyId'> | null, meter: UsageMeter, quantity: number = 1): Promise<void> {
+    if (quantity <= 0) return;
+
+    try {
+      const { error } = await this.db.getClient()
+        .from('usage_events')
+        .insert({
+          organisation_id: owner?.organisationId || null,
+          api_key_id: owner?.apiKeyId || null,
+          meter,
+          quantity
+        });
+
+      if (error) {
+        console.error(`Failed to record ${meter} usage:`, error);
+      }
+    } catch (error) {
+      console.error(`Failed to record ${meter} usage:`, error);
+    }
+  }
+
+  /**
+   * Record usage before doing the work, so concurrent requests already see it
+   * in their quota checks. Returns the reservation to release if the work fails,
+   * or null when nothing was recorded.
+   */
+  async reserve(owner: Pick<AuthContext, 'organisationId' | 'apiKeyId'> | null, meter: UsageMeter, quantity: number = 1): Promise<string | null> {
+    if (quantity <= 0) return null;
+
+    try {
+      const { data, error } = await this.db.getClient()
+        .from('usage_events')
+        .insert({
+          organisation_id: owner?.organisationId || null,
+          api_key_id: owner?.apiKeyId || null,
+          meter,
+          quantity
+        })
+        .select('id')
+        .single();
+
+      if (error) {
+        console.error(`Failed to reserve ${meter} usage:`, error);
+        return null;
+      }
+      return data.id;
+    } catch (error) {
+      console.error(`Failed to reserve ${meter} usage:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Take back a reservation of work that failed
+   */
+  async release(reservationId: string | null): Promise<void> {
+    if (!reservationId) return;
+
+    try {
+      const { error } = await this.db.getClient()
+        .from('usage_events')
+        .delete()
+        .eq('id', reservationId);
+
+      if (error) {
+        console.error(`Failed to release usage reservation ${reservationId}:`, error);
+      }
+    } catch (error) {
+      console.error(`Failed to release usage reservation ${reservationId}:`, error);
+    }
+  }
+
+  /**
+   * Run metered work under a reservation of `quantity` units of `meter`, recording
+   * the external calls it makes. The reservation is released when the work
+   * throws or finds nothing to do (returns null).
+   */
+  async withReservation<T>(
+    owner: Pick<AuthContext, 'organisationId' | 'apiKeyId'> | null,
+    meter: UsageMeter,
+    quantity: number,
+    fn: () => Promise<T>
+  ): Promise<T> {
+    const reservation = await this.reserve(owner, meter, quantity);
+
+    let result: T;
+    try {
+      result = await this.meterCalls(owner, fn);
+    } catch (error) {
+      await this.release(reservation);
+      throw error;
+    }
+
+    if (result === null) {
+      await this.release(reservation);
+    }
+    return result;
+  }
+
+  /**
+   * Run `fn` and record the external calls it counted via countUsage()
+   */
+  async meterCalls<T>(owner: Pick<AuthContext, 'organisationId' | 'apiKeyId'> | null, fn: () => Promise<T>): Promise<T> {
+    const scope: UsageScope = { counts: {} };
+
+    try {
+      return await usageScopeStorage.run(scope, fn);
+    } finally {
+      // Calls made before a failure were still billed by the provider
+      await Promise.all(
+        USAGE_METERS
+          .filter(meter => scope.counts[meter])
+          .map(meter => this.record(owner, meter, scope.counts[meter]))
+      );
+    }
+  }
+
+  /**
+   * Usage of an organisation per meter since the start of the current billing period
+   */
+  async getMonthlyUsage(organisationId: string, now: Date = new Date()): Promise<UsageCounts> {
+    const { start } = usageQuotaCalculator.getBillingPeriod(now);
+
+    const { data, error } = await this.db.getClient()
+      .from('usage_events')
+      .select('meter, quantity')
+      .eq('organisation_id', organisationId)
+      .gte('created_at', start.toISOString());
+
+    if (error) {
+      console.error(`Error fetching usage for organisation ${organisationId}:`, error);
+      throw error;
+    }
+
+    const counts: UsageCounts = {};
+    for (const row of data || []) {
+      const meter = row.meter as UsageMeter;
+      counts[meter] = (counts[meter] || 0) + (row.quantity || 0);
+    }
+    return counts;
+  }
+
+  /**
+   * Usage that queued and running analysis jobs of an organisation will record
+   * when they finish. Perplexity research counts once per job that asked for it.
+   */
+  async getPendingJobUsage(organisationId: string): Promise<UsageCounts> {
+    const { data, error } = await this.db.getClient()
+      .from('jobs')
+      .select('payload')
+      .eq('organisation_id', organisationId)
+      .eq('type', 'analysis')
+      .in('status', ['queued', 'running']);
+
+    if (error) {
+      console.error(`Error fetching pending jobs for organisation ${organisationId}:`, error);
+      throw error;
+    }
+
+    const rows = data || [];
+    return {
+      analysis: rows.length,
+      perplexity_research: rows.filter(row => row.payload?.request?.enablePerplexityResearch).length
+    };
+  }
+
+  /**
+   * Whether the organisation may consume `quantity` more units this month.
+   * Queued and running jobs count as used, so a burst of enqueued analyses
+   * cannot exceed the quota before the first one finishes.
+   */
+  async checkQuota(organisationId: string, meter: UsageMeter, quantity: number = 1): Promise<QuotaCheck> {
+    const [organisation, counts, pending] = await Promise.all([
+      organisationService.getOrganisation(organisationId),
+      this.getMonthlyUsage(organisationId),
+      this.getPendingJobUsage(organisationId)
+    ]);
+
+    const used = (counts[meter] || 0) + (pending[meter] || 0);
+    return usageQuotaCalculator.checkQuota(organisation?.plan || 'starter', meter, used, quantity);
+  }
+
+  /**
+   * Consumption of every meter against the organisation's plan limits
+   */
+  async getSummary(organisationId: string): Promise<UsageSummary | null> {
+    const organisation = await organisationService.getOrganisation(organisationId);
+    if (!organisation) {
+      return null;
+    }
+
+    const counts = await this.getMonthlyUsage(organisationId);
+    return usageQuotaCalculator.summarize(organisationId, organisation.plan, counts);
+  }
+}
+
+// Export singleton instance
+export const usageMeteringService = new UsageMeteringService();
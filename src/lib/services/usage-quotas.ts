@@ -0,0 +1,100 @@
+// src/lib/services/usage-quotas.ts
+import {
+  MeterUsage,
+  OrganisationPlan,
+  PlanQuotas,
+  QuotaCheck,
+  USAGE_METERS,
+  UsageCounts,
+  UsageMeter,
+  UsageSummary
+} from '@/types/usage';
+
+/**
+ * Analyses a year advertised on the pricing page for the limited plans
+ */
+export const PLAN_ANNUAL_ANALYSES: Record<Exclude<OrganisationPlan, 'agency'>, number> = {
+  starter: 25,
+  pro: 100
+};
+
+// Usage is metered per month, so each month allows a twelfth of the yearly analyses.
+// Rounded down so twelve months never exceed the advertised limit; the remainder
+// (1 of Starter's 25, 4 of Pro's 100) is not granted.
+const monthlyShare = (annual: number): number => Math.floor(annual / 12);
+
+/**
+ * Monthly quotas of the plans on the pricing page. OpenAI overlap calls are
+ * measured for every plan but not limited.
+ */
+export const PLAN_QUOTAS: Record<OrganisationPlan, PlanQuotas> = {
+  starter: { analysis: monthlyShare(PLAN_ANNUAL_ANALYSES.starter), perplexity_research: 10, openai_overlap_call: null },
+  pro: { analysis: monthlyShare(PLAN_ANNUAL_ANALYSES.pro), perplexity_research: 50, openai_overlap_call: null },
+  agency: { analysis: null, perplexity_research: null, openai_overlap_call: null }
+};
+
+/**
+ * Billing periods and quota decisions for usage metering.
+ * Kept free of database access so it can be tested in isolation.
+ */
+export class UsageQuotaCalculator {
+  /**
+   * Calendar month (UTC) containing the given moment
+   */
+  getBillingPeriod(now: Date = new Date()): { start: Date; end: Date } {
+    const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const end = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+    return { start, end };
+  }
+
+  /**
+   * Whether `requested` more units fit in the plan's monthly limit
+   */
+  checkQuota(plan: OrganisationPlan, meter: UsageMeter, used: number, requested: number = 1, now: Date = new Date()): QuotaCheck {
+    const limit = this.getLimit(plan, meter);
+    return {
+      allowed: limit === null || used + requested <= limit,
+      meter,
+      used,
+      limit,
+      requested,
+      resetsAt: this.getBillingPeriod(now).end.toISOString()
+    };
+  }
+
+  /**
+   * Consumption of every meter against the plan's limits
+   */
+  summarize(organisationId: string, plan: OrganisationPlan, counts: UsageCounts, now: Date = new Date()): UsageSummary {
+    const { start, end } = this.getBillingPeriod(now);
+
+    const meters: MeterUsage[] = USAGE_METERS.map(meter => {
+      const used = counts[meter] || 0;
+      const limit = this.getLimit(plan, meter);
+      return {
+        meter,
+        used,
+        limit,
+        remaining: limit === null ? null : Math.max(0, limit - used),
+        percentUsed: limit === null
+          ? null
+          : limit === 0 ? 100 : Math.min(100, Math.round((used / limit) * 100))
+      };
+    });
+
+    return {
+      organisationId,
+      plan,
+      periodStart: start.toISOString(),
+      periodEnd: end.toISOString(),
+      meters
+    };
+  }
+
+  private getLimit(plan: OrganisationPlan, meter: UsageMeter): number | null {
+    return (PLAN_QUOTAS[plan] || PLAN_QUOTAS.starter)[meter];
+  }
+}
+
+// Export singleton instance
+export const usageQuotaCalculator = new UsageQuotaCalculator();
@@ -0,0 +1,120 @@
+// src/lib/services/watchlist-alerts.ts
+import type { Event } from '@/types';
+import type { RiskLevel } from '@/types/analysis-history';
+import {
+  Watchlist,
+  WatchlistAlertCandidate,
+  WatchlistAlertEvent,
+  WatchlistScore
+} from '@/types/watchlists';
+
+const RISK_ORDER: Record<RiskLevel, number> = { Low: 0, Medium: 1, High: 2 };
+
+/**
+ * Decides which alerts to raise when a watched date is re-scored.
+ * Kept free of database access so the rules can be tested in isolation.
+ */
+export class WatchlistAlertEvaluator {
+  /**
+   * Compare a new score with the state stored on the watchlist.
+   * The first check only establishes a baseline and never alerts.
+   */
+  evaluate(watchlist: Watchlist, score: WatchlistScore): WatchlistAlertCandidate[] {
+    if (!watchlist.lastCheckedAt || !watchlist.lastRiskLevel) {
+      return [];
+    }
+
+    const alerts: WatchlistAlertCandidate[] = [];
+    const base = {
+      previousRiskLevel: watchlist.lastRiskLevel,
+      riskLevel: score.riskLevel,
+      previousConflictScore: watchlist.lastConflictScore,
+      conflictScore: score.conflictScore
+    };
+
+    // Risk threshold crossed in either direction
+    const threshold = RISK_ORDER[watchlist.riskThreshold];
+    const wasAbove = RISK_ORDER[watchlist.lastRiskLevel] >= threshold;
+    const isAbove = RISK_ORDER[score.riskLevel] >= threshold;
+
+    if (wasAbove !== isAbove) {
+      const newEvents = this.getNewEvents(watchlist, score);
+      alerts.push({
+        ...base,
+        alertType: 'risk_threshold_crossed',
+        message: isAbove
+          ? `Risk for ${watchlist.city} on ${this.formatRange(watchlist)} rose from ${watchlist.lastRiskLevel} to ${score.riskLevel} (score ${score.conflictScore.toFixed(1)}/20)`
+          : `Risk for ${watchlist.city} on ${this.formatRange(watchlist)} dropped from ${watchlist.lastRiskLevel} to ${score.riskLevel} (score ${score.conflictScore.toFixed(1)}/20)`,
+        events: isAbove ? newEvents : []
+      });
+    }
+
+    // New high-attendance competing events within the window
+    const highAttendanceEvents = this.getNewEvents(watchlist, score).filter(event =>
+      (event.expectedAttendees || 0) >= watchlist.highAttendanceThreshold
+    );
+
+    if (highAttendanceEvents.length > 0) {
+      const names = highAttendanceEvents
+        .map(event => `${event.title} (~${event.expectedAttendees!.toLocaleString()})`)
+        .join(', ');
+      alerts.push({
+        ...base,
+        alertType: 'high_attendance_event',
+        message: `${highAttendanceEvents.length} new high-attendance competing event${highAttendanceEvents.length === 1 ? '' : 's'} near ${this.formatRange(watchlist)}: ${names}`,
+        events: highAttendanceEvents
+      });
+    }
+
+    return alerts;
+  }
+
+  /**
+   * Convert competing events into the compact form stored on watchlists and alerts
+   */
+  toAlertEvents(events: Event[]): WatchlistAlertEvent[] {
+    const seen = new Set<string>();
+    const result: WatchlistAlertEvent[] = [];
+
+    for (const event of events) {
+      const key = this.getEventKey(event);
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      result.push({
+        key,
+        title: event.title,
+        date: event.date,
+        venue: event.venue,
+        expectedAttendees: event.expectedAttendees,
+        source: event.source
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Events are matched by normalized title and day rather than ID, because
+   * re-scraped events can be stored under a new ID.
+   */
+  getEventKey(event: Pick<Event, 'title' | 'date'>): string {
+    const day = (event.date || '').split('T')[0];
+    const title = (event.title || '').toLowerCase().replace(/\s+/g, ' ').trim();
+    return `${title}|${day}`;
+  }
+
+  private getNewEvents(watchlist: Watchlist, score: WatchlistScore): WatchlistAlertEvent[] {
+    const known = new Set(watchlist.lastCompetingEventKeys);
+    return score.competingEvents.filter(event => !known.has(event.key));
+  }
+
+  private formatRange(watchlist: Watchlist): string {
+    return watchlist.dateRangeStart === watchlist.dateRangeEnd
+      ? watchlist.dateRangeStart
+      : `${watchlist.dateRangeStart} – ${watchlist.dateRangeEnd}`;
+  }
+}
+
+// Export singleton instance
+export const watchlistAlertEvaluator = new WatchlistAlertEvaluator();
@@ -0,0 +1,455 @@
+// src/lib/services/watchlist.ts
+import { serverDatabaseService } from '@/lib/supabase';
+import { conflictAnalysisService } from './conflict-analysis';
+import { watchlistAlertEvaluator } from './watchlist-alerts';
+import {
+  CreateWatchlistData,
+  UpdateWatchlistData,
+  Watchlist,
+  WatchlistAlert,
+  WatchlistAlertCandidate,
+  WatchlistCheckResult,
+  WatchlistCheckTrigger,
+  WatchlistScore
+} from '@/types/watchlists';
+import { isDeliverableWebhookUrl } from '@/lib/utils/webhook-urls';
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+/**
+ * Watchlists keep a chosen event date under observation: after every event sync the
+ * date is re-scored with the regular conflict analysis and alerts are recorded when
+ * its risk level crosses the configured threshold or a large competing event appears.
+ */
+export class WatchlistService {
+  private db = serverDatabaseService;
+
+  /**
+   * Create a watchlist and score it once to establish the baseline
+   */
+  async createWatchlist(data: CreateWatchlistData): Promise<Watchlist> {
+    const { data: row, error } = await this.db.executeWithRetry(async () => {
+      return await this.db.getClient()
+        .from('watchlists')
+        .insert({
+          user_id: data.userId || null,
+          organisation_id: data.organisationId || null,
+          analysis_id: data.analysisId || null,
+          name: data.name || null,
+          city: data.city,
+          category: data.category,
+          subcategory: data.subcategory || null,
+          date_range_start: data.dateRangeStart,
+          date_range_end: data.dateRangeEnd,
+          expected_attendees: data.expectedAttendees,
+          risk_threshold: data.riskThreshold || 'High',
+          high_attendance_threshold: data.highAttendanceThreshold ?? 1000,
+          webhook_url: data.webhookUrl || null
+        })
+        .select()
+        .single();
+    });
+
+    if (error) {
+      console.error('Failed to create watchlist:', error);
+      throw error;
+    }
+
+    const watchlist = this.mapRowToWatchlist(row);
+
+    try {
+      await this.checkWatchlist(watchlist, 'created');
+      return (await this.getWatchlist(watchlist.id)) || watchlist;
+    } catch (checkError) {
+      // The watchlist is still valid, the baseline is set on the next sync
+      console.warn(`⚠️ Initial scoring failed for watchlist ${watchlist.id}:`, checkError);
+      return watchlist;
+    }
+  }
+
+  /**
+   * Get a watchlist by ID
+   */
+  async getWatchlist(id: string): Promise<Watchlist | null> {
+    const { data, error } = await this.db.getClient()
+      .from('watchlists')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') { // PGRST116 = no rows returned
+        return null;
+      }
+      console.error(`Error fetching watchlist ${id}:`, error);
+      throw error;
+    }
+
+    return data ? this.mapRowToWatchlist(data) : null;
+  }
+
+  /**
+   * List watchlists, optionally filtered by user, organisation or city.
+   * An organisationId of null lists only watchlists without an organisation.
+   */
+  async listWatchlists(
+    filters: { userId?: string; organisationId?: string | null; city?: string; activeOnly?: boolean } = {}
+  ): Promise<Watchlist[]> {
+    let query = this.db.getClient()
+      .from('watchlists')
+      .select('*')
+      .order('date_range_start', { ascending: true });
+
+    if (filters.userId) {
+      query = query.eq('user_id', filters.userId);
+    }
+    if (filters.organisationId !== undefined) {
+      query = filters.organisationId
+        ? query.eq('organisation_id', filters.organisationId)
+        : query.is('organisation_id', null);
+    }
+    if (filters.city) {
+      query = query.ilike('city', filters.city);
+    }
+    if (filters.activeOnly) {
+      query = query
+        .eq('enabled', true)
+        .gte('date_range_end', new Date().toISOString().split('T')[0]);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching watchlists:', error);
+      throw error;
+    }
+
+    return (data || []).map(row => this.mapRowToWatchlist(row));
+  }
+
+  /**
+   * Update alert settings of a watchlist
+   */
+  async updateWatchlist(id: string, updates: UpdateWatchlistData): Promise<Watchlist | null> {
+    const updateData: Record<string, any> = {};
+    if (updates.name !== undefined) updateData.name = updates.name;
+    if (updates.riskThreshold !== undefined) updateData.risk_threshold = updates.riskThreshold;
+    if (updates.highAttendanceThreshold !== undefined) updateData.high_attendance_threshold = updates.highAttendanceThreshold;
+    if (updates.webhookUrl !== undefined) updateData.webhook_url = updates.webhookUrl;
+    if (updates.enabled !== undefined) updateData.enabled = updates.enabled;
+
+    const { data, error } = await this.db.getClient()
+      .from('watchlists')
+      .update(updateData)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      console.error(`Error updating watchlist ${id}:`, error);
+      throw error;
+    }
+
+    return this.mapRowToWatchlist(data);
+  }
+
+  /**
+   * Delete a watchlist and its alerts
+   */
+  async deleteWatchlist(id: string): Promise<void> {
+    const { error } = await this.db.getClient()
+      .from('watchlists')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error(`Error deleting watchlist ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the most recent alerts of a watchlist
+   */
+  async getAlerts(watchlistId: string, limit: number = 50): Promise<WatchlistAlert[]> {
+    const { data, error } = await this.db.getClient()
+      .from('watchlist_alerts')
+      .select('*')
+      .eq('watchlist_id', watchlistId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error(`Error fetching alerts for watchlist ${watchlistId}:`, error);
+      throw error;
+    }
+
+    return (data || []).map(row => this.mapRowToAlert(row));
+  }
+
+  /**
+   * Re-score a watchlist, store any alerts and update its baseline
+   */
+  async checkWatchlist(watchlist: Watchlist, trigger: WatchlistCheckTrigger = 'manual'): Promise<WatchlistCheckResult> {
+    const score = await this.scoreWatchlist(watchlist);
+    const candidates = watchlistAlertEvaluator.evaluate(watchlist, score);
+
+    const alerts: WatchlistAlert[] = [];
+    for (const candidate of candidates) {
+      const alert = await this.recordAlert(watchlist, candidate, trigger);
+      if (alert) {
+        alerts.push(alert);
+      }
+    }
+
+    const { error } = await this.db.getClient()
+      .from('watchlists')
+      .update({
+        last_conflict_score: score.conflictScore,
+        last_risk_level: score.riskLevel,
+        last_competing_event_keys: score.competingEvents.map(event => event.key),
+        last_checked_at: new Date().toISOString()
+      })
+      .eq('id', watchlist.id);
+
+    if (error) {
+      console.error(`Failed to update baseline for watchlist ${watchlist.id}:`, error);
+    }
+
+    if (alerts.length > 0) {
+      console.log(`🔔 Watchlist ${watchlist.id}: ${alerts.length} alert(s) raised (${score.riskLevel}, score ${score.conflictScore})`);
+    }
+
+    return { watchlistId: watchlist.id, score, alerts };
+  }
+
+  /**
+   * Re-score all active watchlists, optionally limited to the cities that were just synced.
+   * Failures are logged per watchlist so one bad entry never breaks a sync.
+   */
+  async rescoreWatchlists(
+    trigger: WatchlistCheckTrigger,
+    options: { cities?: string[] } = {}
+  ): Promise<{ checked: number; alerts: number; errors: string[] }> {
+    const summary = { checked: 0, alerts: 0, errors: [] as string[] };
+
+    let watchlists: Watchlist[];
+    try {
+      watchlists = await this.listWatchlists({ activeOnly: true });
+    } catch (error) {
+      summary.errors.push(`Failed to load watchlists: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return summary;
+    }
+
+    if (options.cities && options.cities.length > 0) {
+      const cities = new Set(options.cities.map(city => city.toLowerCase()));
+      watchlists = watchlists.filter(watchlist => cities.has(watchlist.city.toLowerCase()));
+    }
+
+    if (watchlists.length === 0) {
+      return summary;
+    }
+
+    console.log(`👀 Re-scoring ${watchlists.length} watchlist(s) after ${trigger}`);
+
+    // Sequential on purpose - each check runs a full conflict analysis
+    for (const watchlist of watchlists) {
+      try {
+        const result = await this.checkWatchlist(watchlist, trigger);
+        summary.checked++;
+        summary.alerts += result.alerts.length;
+      } catch (error) {
+        const message = `Watchlist ${watchlist.id}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        console.error(`❌ Failed to re-score ${message}`);
+        summary.errors.push(message);
+      }
+    }
+
+    console.log(`✅ Watchlist re-scoring completed: ${summary.checked} checked, ${summary.alerts} alerts, ${summary.errors.length} errors`);
+    return summary;
+  }
+
+  /**
+   * Score the watched date range with the regular conflict analysis.
+   * The range is passed as both the preferred dates and the analysis window, and the
+   * preferred range is always part of the result.
+   */
+  private async scoreWatchlist(watchlist: Watchlist): Promise<WatchlistScore> {
+    const result = await conflictAnalysisService.analyzeConflicts({
+      city: watchlist.city,
+      category: watchlist.category,
+      subcategory: watchlist.subcategory || '',
+      expectedAttendees: watchlist.expectedAttendees,
+      startDate: watchlist.dateRangeStart,
+      endDate: watchlist.dateRangeEnd,
+      dateRangeStart: watchlist.dateRangeStart,
+      dateRangeEnd: watchlist.dateRangeEnd,
+      enableAdvancedAnalysis: false, // Keep background re-scoring free of OpenAI calls
+      enablePerplexityResearch: false,
+      enableLLMRelevanceFilter: false,
+      useComprehensiveFallback: false,
+      organisationId: watchlist.organisationId
+    });
+
+    const watched = [...result.recommendedDates, ...result.highRiskDates].find(rec =>
+      rec.startDate === watchlist.dateRangeStart && rec.endDate === watchlist.dateRangeEnd
+    );
+
+    if (!watched) {
+      // Low-risk dates without conflicts are the only ones not listed separately
+      return { conflictScore: 0, riskLevel: 'Low', competingEvents: [] };
+    }
+
+    return {
+      conflictScore: watched.conflictScore,
+      riskLevel: watched.riskLevel,
+      competingEvents: watchlistAlertEvaluator.toAlertEvents(watched.competingEvents)
+    };
+  }
+
+  /**
+   * Store an alert and deliver it to the watchlist webhook if one is configured
+   */
+  private async recordAlert(
+    watchlist: Watchlist,
+    candidate: WatchlistAlertCandidate,
+    trigger: WatchlistCheckTrigger
+  ): Promise<WatchlistAlert | null> {
+    const delivery = watchlist.webhookUrl
+      ? await this.deliverWebhook(watchlist, candidate, trigger)
+      : { status: 'skipped' as const, responseCode: null };
+
+    const { data, error } = await this.db.getClient()
+      .from('watchlist_alerts')
+      .insert({
+        watchlist_id: watchlist.id,
+        alert_type: candidate.alertType,
+        message: candidate.message,
+        previous_risk_level: candidate.previousRiskLevel,
+        risk_level: candidate.riskLevel,
+        previous_conflict_score: candidate.previousConflictScore,
+        conflict_score: candidate.conflictScore,
+        events: candidate.events,
+        trigger,
+        webhook_status: delivery.status,
+        webhook_response_code: delivery.responseCode
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error(`Failed to store alert for watchlist ${watchlist.id}:`, error);
+      return null;
+    }
+
+    return this.mapRowToAlert(data);
+  }
+
+  private async deliverWebhook(
+    watchlist: Watchlist,
+    candidate: WatchlistAlertCandidate,
+    trigger: WatchlistCheckTrigger
+  ): Promise<{ status: 'sent' | 'failed'; responseCode: number | null }> {
+    // Checked on every delivery, as a hostname can be re-pointed at an internal address
+    if (!await isDeliverableWebhookUrl(watchlist.webhookUrl!)) {
+      console.warn(`⚠️ Watchlist webhook for ${watchlist.id} is not a public https URL, skipping delivery`);
+      return { status: 'failed', responseCode: null };
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(watchlist.webhookUrl!, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Oslavu-Watchlist/1.0'
+        },
+        redirect: 'manual', // A redirect could lead to an internal address
+        body: JSON.stringify({
+          type: 'watchlist.alert',
+          trigger,
+          watchlist: {
+            id: watchlist.id,
+            name: watchlist.name,
+            city: watchlist.city,
+            category: watchlist.category,
+            subcategory: watchlist.subcategory,
+            dateRangeStart: watchlist.dateRangeStart,
+            dateRangeEnd: watchlist.dateRangeEnd
+          },
+          alert: candidate,
+          timestamp: new Date().toISOString()
+        }),
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        console.warn(`⚠️ Watchlist webhook for ${watchlist.id} returned ${response.status}`);
+      }
+
+      return { status: response.ok ? 'sent' : 'failed', responseCode: response.status };
+    } catch (error) {
+      console.warn(`⚠️ Watchlist webhook for ${watchlist.id} failed:`, error instanceof Error ? error.message : error);
+      return { status: 'failed', responseCode: null };
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  private mapRowToWatchlist(row: any): Watchlist {
+    return {
+      id: row.id,
+      userId: row.user_id || null,
+      organisationId: row.organisation_id || null,
+      analysisId: row.analysis_id || null,
+      name: row.name || null,
+      city: row.city,
+      category: row.category,
+      subcategory: row.subcategory || null,
+      dateRangeStart: row.date_range_start,
+      dateRangeEnd: row.date_range_end,
+      expectedAttendees: row.expected_attendees,
+      riskThreshold: row.risk_threshold,
+      highAttendanceThreshold: row.high_attendance_threshold,
+      webhookUrl: row.webhook_url || null,
+      enabled: row.enabled,
+      lastConflictScore: row.last_conflict_score !== null && row.last_conflict_score !== undefined
+        ? Number(row.last_conflict_score)
+        : null,
+      lastRiskLevel: row.last_risk_level || null,
+      lastCompetingEventKeys: row.last_competing_event_keys || [],
+      lastCheckedAt: row.last_checked_at || null,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private mapRowToAlert(row: any): WatchlistAlert {
+    return {
+      id: row.id,
+      watchlistId: row.watchlist_id,
+      alertType: row.alert_type,
+      message: row.message,
+      previousRiskLevel: row.previous_risk_level || null,
+      riskLevel: row.risk_level,
+      previousConflictScore: row.previous_conflict_score !== null && row.previous_conflict_score !== undefined
+        ? Number(row.previous_conflict_score)
+        : null,
+      conflictScore: Number(row.conflict_score),
+      events: row.events || [],
+      trigger: row.trigger,
+      webhookStatus: row.webhook_status,
+      webhookResponseCode: row.webhook_response_code ?? null,
+      acknowledgedAt: row.acknowledged_at || null,
+      createdAt: row.created_at
+    };
+  }
+}
+
+// Export singleton instance
+export const watchlistService = new WatchlistService();
@@ -0,0 +1,530 @@
+// src/lib/services/webhooks.ts
+import { randomUUID } from 'crypto';
+import { serverDatabaseService } from '@/lib/supabase';
+import {
+  CreateWebhookEndpointData,
+  PublicWebhookEndpoint,
+  UpdateWebhookEndpointData,
+  WebhookDelivery,
+  WebhookEndpoint,
+  WebhookEventType,
+  WebhookPayload
+} from '@/types/webhooks';
+import {
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  generateWebhookSecret,
+  getWebhookRetryDelayMs,
+  maskWebhookSecret,
+  signWebhookPayload
+} from '@/lib/utils/webhook-signing';
+import { isDeliverableWebhookUrl } from '@/lib/utils/webhook-urls';
+
+const DELIVERY_TIMEOUT_MS = 10000;
+const DELIVERY_CLAIM_SECONDS = 60; // A claimed retry whose worker vanished is attempted again after this
+const ENDPOINT_CACHE_TTL_MS = 60 * 1000;
+
+/**
+ * Minimal shape of a newly stored event used for event.high_impact deliveries
+ */
+interface StoredEventSummary {
+  id: string;
+  title: string;
+  date: string;
+  city: string;
+  venue?: string | null;
+  category: string;
+  subcategory?: string | null;
+  expected_attendees?: number | null;
+  source: string;
+  url?: string | null;
+}
+
+/**
+ * Outbound webhook registry and dispatcher.
+ * Deliveries are signed with HMAC-SHA256, logged in webhook_deliveries and retried with
+ * exponential backoff by retryDueDeliveries(). Dispatch never throws, so callers can
+ * fire webhooks without affecting their own result.
+ */
+export class WebhookService {
+  private db = serverDatabaseService;
+  private endpointCache: { endpoints: WebhookEndpoint[]; timestamp: number } | null = null;
+
+  /**
+   * Register an endpoint. A secret is generated when none is provided.
+   */
+  async createEndpoint(data: CreateWebhookEndpointData): Promise<WebhookEndpoint> {
+    const { data: row, error } = await this.db.executeWithRetry(async () => {
+      return await this.db.getClient()
+        .from('webhook_endpoints')
+        .insert({
+          user_id: data.userId || null,
+          organisation_id: data.organisationId || null,
+          url: data.url,
+          secret: data.secret || generateWebhookSecret(),
+          description: data.description || null,
+          event_types: data.eventTypes,
+          cities: data.cities || [],
+          min_expected_attendees: data.minExpectedAttendees ?? 1000
+        })
+        .select()
+        .single();
+    });
+
+    if (error) {
+      console.error('Failed to create webhook endpoint:', error);
+      throw error;
+    }
+
+    this.endpointCache = null;
+    return this.mapRowToEndpoint(row);
+  }
+
+  /**
+   * List endpoints, optionally filtered by owner or organisation.
+   * An organisationId of null lists only the operator's endpoints.
+   */
+  async listEndpoints(filters: { userId?: string; organisationId?: string | null } = {}): Promise<WebhookEndpoint[]> {
+    let query = this.db.getClient()
+      .from('webhook_endpoints')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (filters.userId) {
+      query = query.eq('user_id', filters.userId);
+    }
+    if (filters.organisationId !== undefined) {
+      query = filters.organisationId
+        ? query.eq('organisation_id', filters.organisationId)
+        : query.is('organisation_id', null);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching webhook endpoints:', error);
+      throw error;
+    }
+
+    return (data || []).map(row => this.mapRowToEndpoint(row));
+  }
+
+  /**
+   * Get an endpoint by ID
+   */
+  async getEndpoint(id: string): Promise<WebhookEndpoint | null> {
+    const { data, error } = await this.db.getClient()
+      .from('webhook_endpoints')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') { // PGRST116 = no rows returned
+        return null;
+      }
+      console.error(`Error fetching webhook endpoint ${id}:`, error);
+      throw error;
+    }
+
+    return data ? this.mapRowToEndpoint(data) : null;
+  }
+
+  /**
+   * Update an endpoint
+   */
+  async updateEndpoint(id: string, updates: UpdateWebhookEndpointData): Promise<WebhookEndpoint | null> {
+    const updateData: Record<string, any> = {};
+    if (updates.url !== undefined) updateData.url = updates.url;
+    if (updates.description !== undefined) updateData.description = updates.description;
+    if (updates.eventTypes !== undefined) updateData.event_types = updates.eventTypes;
+    if (updates.enabled !== undefined) updateData.enabled = updates.enabled;
+    if (updates.cities !== undefined) updateData.cities = updates.cities;
+    if (updates.minExpectedAttendees !== undefined) updateData.min_expected_attendees = updates.minExpectedAttendees;
+
+    const { data, error } = await this.db.getClient()
+      .from('webhook_endpoints')
+      .update(updateData)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      console.error(`Error updating webhook endpoint ${id}:`, error);
+      throw error;
+    }
+
+    this.endpointCache = null;
+    return this.mapRowToEndpoint(data);
+  }
+
+  /**
+   * Replace the signing secret of an endpoint
+   */
+  async rotateSecret(id: string): Promise<WebhookEndpoint | null> {
+    const { data, error } = await this.db.getClient()
+      .from('webhook_endpoints')
+      .update({ secret: generateWebhookSecret() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      console.error(`Error rotating secret for webhook endpoint ${id}:`, error);
+      throw error;
+    }
+
+    this.endpointCache = null;
+    return this.mapRowToEndpoint(data);
+  }
+
+  /**
+   * Delete an endpoint and its delivery log
+   */
+  async deleteEndpoint(id: string): Promise<void> {
+    const { error } = await this.db.getClient()
+      .from('webhook_endpoints')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error(`Error deleting webhook endpoint ${id}:`, error);
+      throw error;
+    }
+
+    this.endpointCache = null;
+  }
+
+  /**
+   * Get the most recent deliveries of an endpoint
+   */
+  async getDeliveries(endpointId: string, limit: number = 50): Promise<WebhookDelivery[]> {
+    const { data, error } = await this.db.getClient()
+      .from('webhook_deliveries')
+      .select('*')
+      .eq('endpoint_id', endpointId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error(`Error fetching deliveries for webhook endpoint ${endpointId}:`, error);
+      throw error;
+    }
+
+    return (data || []).map(row => this.mapRowToDelivery(row));
+  }
+
+  /**
+   * Send an event to every enabled endpoint subscribed to it. Events about an
+   * organisation's data pass its organisationId (null for anonymous data) and
+   * reach only that organisation's endpoints and the operator's.
+   */
+  async dispatch(
+    eventType: WebhookEventType,
+    data: Record<string, any>,
+    options: { organisationId?: string | null } = {}
+  ): Promise<void> {
+    try {
+      const endpoints = (await this.getActiveEndpoints())
+        .filter(endpoint => endpoint.eventTypes.includes(eventType))
+        .filter(endpoint => options.organisationId === undefined ||
+          !endpoint.organisationId ||
+          endpoint.organisationId === options.organisationId);
+
+      if (endpoints.length === 0) {
+        return;
+      }
+
+      console.log(`📤 Dispatching ${eventType} to ${endpoints.length} webhook endpoint(s)`);
+      await Promise.allSettled(endpoints.map(endpoint => this.createAndDeliver(endpoint, eventType, data)));
+    } catch (error) {
+      console.error(`❌ Failed to dispatch ${eventType} webhooks:`, error);
+    }
+  }
+
+  /**
+   * Send event.high_impact for newly stored events that pass an endpoint's city and attendee filters
+   */
+  async dispatchHighImpactEvents(events: StoredEventSummary[]): Promise<void> {
+    const candidates = events.filter(event => (event.expected_attendees || 0) > 0);
+    if (candidates.length === 0) {
+      return;
+    }
+
+    try {
+      const endpoints = (await this.getActiveEndpoints())
+        .filter(endpoint => endpoint.eventTypes.includes('event.high_impact'));
+
+      for (const endpoint of endpoints) {
+        const cities = new Set(endpoint.cities.map(city => city.toLowerCase()));
+        const matching = candidates.filter(event =>
+          (event.expected_attendees || 0) >= endpoint.minExpectedAttendees &&
+          (cities.size === 0 || cities.has(event.city.toLowerCase()))
+        );
+
+        // One delivery per event so receivers can process them independently
+        await Promise.allSettled(matching.map(event =>
+          this.createAndDeliver(endpoint, 'event.high_impact', {
+            event: {
+              id: event.id,
+              title: event.title,
+              date: event.date,
+              city: event.city,
+              venue: event.venue || null,
+              category: event.category,
+              subcategory: event.subcategory || null,
+              expectedAttendees: event.expected_attendees,
+              source: event.source,
+              url: event.url || null
+            }
+          })
+        ));
+      }
+    } catch (error) {
+      console.error('❌ Failed to dispatch event.high_impact webhooks:', error);
+    }
+  }
+
+  /**
+   * Retry deliveries whose backoff has elapsed. Intended to run from a cron job.
+   * Each delivery is claimed right before it is sent, so overlapping runs never
+   * send the same one twice.
+   */
+  async retryDueDeliveries(limit: number = 50): Promise<{ attempted: number; succeeded: number; failed: number }> {
+    const summary = { attempted: 0, succeeded: 0, failed: 0 };
+
+    for (let claimed = 0; claimed < limit; claimed++) {
+      const [row] = await this.claimDueDeliveries(1);
+      if (!row) {
+        break;
+      }
+
+      const delivery = this.mapRowToDelivery(row);
+      const endpoint = await this.getEndpoint(delivery.endpointId);
+
+      // Endpoint disabled since the first attempt - stop retrying
+      if (!endpoint || !endpoint.enabled) {
+        await this.updateDelivery(delivery.id, {
+          status: 'failed',
+          next_attempt_at: null,
+          last_error: 'Endpoint disabled'
+        });
+        summary.failed++;
+        continue;
+      }
+
+      summary.attempted++;
+      const succeeded = await this.deliver(endpoint, delivery);
+      if (succeeded) {
+        summary.succeeded++;
+      } else {
+        summary.failed++;
+      }
+    }
+
+    if (summary.attempted > 0) {
+      console.log(`🔁 Webhook retries: ${summary.attempted} attempted, ${summary.succeeded} succeeded, ${summary.failed} failed`);
+    }
+
+    return summary;
+  }
+
+  /**
+   * Endpoint representation safe to return from the API
+   */
+  toPublicEndpoint(endpoint: WebhookEndpoint): PublicWebhookEndpoint {
+    const { secret, ...rest } = endpoint;
+    return { ...rest, secretPreview: maskWebhookSecret(secret) };
+  }
+
+  private async getActiveEndpoints(): Promise<WebhookEndpoint[]> {
+    if (this.endpointCache && Date.now() - this.endpointCache.timestamp < ENDPOINT_CACHE_TTL_MS) {
+      return this.endpointCache.endpoints;
+    }
+
+    const { data, error } = await this.db.getClient()
+      .from('webhook_endpoints')
+      .select('*')
+      .eq('enabled', true);
+
+    if (error) {
+      // Table may not exist yet in environments without the migration
+      console.warn('⚠️ Could not load webhook endpoints:', error.message);
+      return [];
+    }
+
+    const endpoints = (data || []).map(row => this.mapRowToEndpoint(row));
+    this.endpointCache = { endpoints, timestamp: Date.now() };
+    return endpoints;
+  }
+
+  private async claimDueDeliveries(limit: number): Promise<any[]> {
+    const { data, error } = await this.db.getClient()
+      .rpc('claim_webhook_deliveries', {
+        p_limit: limit,
+        p_lease_seconds: DELIVERY_CLAIM_SECONDS
+      });
+
+    if (error) {
+      console.error('Error claiming due webhook deliveries:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  private async createAndDeliver(
+    endpoint: WebhookEndpoint,
+    eventType: WebhookEventType,
+    data: Record<string, any>
+  ): Promise<void> {
+    // The delivery ID doubles as the payload ID so receivers can deduplicate retries
+    const deliveryId = randomUUID();
+    const payload: WebhookPayload = {
+      id: deliveryId,
+      type: eventType,
+      createdAt: new Date().toISOString(),
+      data
+    };
+
+    const { data: row, error } = await this.db.getClient()
+      .from('webhook_deliveries')
+      .insert({
+        id: deliveryId,
+        endpoint_id: endpoint.id,
+        event_type: eventType,
+        payload,
+        status: 'pending'
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error(`Failed to log webhook delivery for endpoint ${endpoint.id}:`, error);
+      return;
+    }
+
+    await this.deliver(endpoint, this.mapRowToDelivery(row));
+  }
+
+  /**
+   * Attempt a delivery once and record the outcome and the next retry time
+   */
+  private async deliver(endpoint: WebhookEndpoint, delivery: WebhookDelivery): Promise<boolean> {
+    const body = JSON.stringify(delivery.payload);
+    const attempts = delivery.attempts + 1;
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), DELIVERY_TIMEOUT_MS);
+
+    let statusCode: number | null = null;
+    let errorMessage: string | null = null;
+
+    try {
+      // Checked on every attempt, as a hostname can be re-pointed at an internal address
+      if (!await isDeliverableWebhookUrl(endpoint.url)) {
+        throw new Error('Webhook URL is not a public https URL');
+      }
+
+      const response = await fetch(endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Oslavu-Webhooks/1.0',
+          [WEBHOOK_EVENT_HEADER]: delivery.eventType,
+          [WEBHOOK_DELIVERY_HEADER]: delivery.id,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(body, endpoint.secret)
+        },
+        body,
+        redirect: 'manual',
+        signal: controller.signal
+      });
+
+      statusCode = response.status;
+      if (!response.ok) {
+        errorMessage = `HTTP ${response.status}`;
+      }
+    } catch (error) {
+      errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    if (!errorMessage) {
+      await this.updateDelivery(delivery.id, {
+        status: 'success',
+        attempts,
+        last_status_code: statusCode,
+        last_error: null,
+        next_attempt_at: null,
+        delivered_at: new Date().toISOString()
+      });
+      return true;
+    }
+
+    const retryDelay = getWebhookRetryDelayMs(attempts);
+    console.warn(`⚠️ Webhook delivery ${delivery.id} to ${endpoint.url} failed (attempt ${attempts}): ${errorMessage}`);
+
+    await this.updateDelivery(delivery.id, {
+      status: retryDelay === null ? 'failed' : 'retrying',
+      attempts,
+      last_status_code: statusCode,
+      last_error: errorMessage,
+      next_attempt_at: retryDelay === null ? null : new Date(Date.now() + retryDelay).toISOString()
+    });
+    return false;
+  }
+
+  private async updateDelivery(id: string, updates: Record<string, any>): Promise<void> {
+    const { error } = await this.db.getClient()
+      .from('webhook_deliveries')
+      .update(updates)
+      .eq('id', id);
+
+    if (error) {
+      console.error(`Failed to update webhook delivery ${id}:`, error);
+    }
+  }
+
+  private mapRowToEndpoint(row: any): WebhookEndpoint {
+    return {
+      id: row.id,
+      userId: row.user_id || null,
+      organisationId: row.organisation_id || null,
+      url: row.url,
+      secret: row.secret,
+      description: row.description || null,
+      eventTypes: row.event_types || [],
+      enabled: row.enabled,
+      cities: row.cities || [],
+      minExpectedAttendees: row.min_expected_attendees,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private mapRowToDelivery(row: any): WebhookDelivery {
+    return {
+      id: row.id,
+      endpointId: row.endpoint_id,
+      eventType: row.event_type,
+      payload: row.payload,
+      status: row.status,
+      attempts: row.attempts || 0,
+      lastStatusCode: row.last_status_code ?? null,
+      lastError: row.last_error || null,
+      nextAttemptAt: row.next_attempt_at || null,
+      deliveredAt: row.delivered_at || null,
+      createdAt: row.created_at
+    };
+  }
+}
+
+// Export singleton instance
+export const webhookService = new WebhookService();
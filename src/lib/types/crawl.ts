@@ -1,3 +1,5 @@
+import { CreateEventData } from "@/lib/types/events";
+
 export type WaitForCondition =
   | { type: 'selector'; selector: string; timeoutMs?: number }
   | { type: 'networkIdle'; timeoutMs?: number }
@@ -57,4 +59,17 @@ export interface CrawlResultPage {
 
 export type SitePresetKey = 'kudyznudy' | 'goout' | 'ticketportal' | 'generic';
 
+export interface SiteParseResult {
+  events: CreateEventData[];
+  // Event entries found in the page's markup but dropped for a missing title or date
+  skipped: number;
+}
 
+export interface SiteEventParser {
+  preset: SitePresetKey;
+  /**
+   * Parse events from a listing or detail page; throws SiteParseError when
+   * the page holds no parseable event markup
+   */
+  parse(html: string, pageUrl: string, sourceName: string): SiteParseResult;
+}
@@ -12,11 +12,11 @@ export interface DatabaseEvent {
   category: string;
   subcategory?: string;
   expected_attendees?: number;
-  attendee_source?: 'explicit' | 'phq_api' | 'venue_capacity' | 'ai_extraction' | 'category_default' | 'user_verified';
+  attendee_source?: 'explicit' | 'phq_api' | 'rsvp_count' | 'venue_capacity' | 'ai_extraction' | 'category_default' | 'user_verified';
   attendee_confidence?: number;
   attendee_reasoning?: string[];
   attendee_verified?: boolean;
-  source: 'ticketmaster' | 'predicthq' | 'meetup' | 'manual' | 'brno' | 'scraper';
+  source: 'ticketmaster' | 'predicthq' | 'meetup' | 'eventbrite' | 'manual' | 'brno' | 'scraper' | 'import';
   source_id?: string;
   url?: string;
   image_url?: string;
@@ -43,11 +43,11 @@ export interface CreateEventData {
   category: string;
   subcategory?: string;
   expected_attendees?: number;
-  attendee_source?: 'explicit' | 'phq_api' | 'venue_capacity' | 'ai_extraction' | 'category_default' | 'user_verified';
+  attendee_source?: 'explicit' | 'phq_api' | 'rsvp_count' | 'venue_capacity' | 'ai_extraction' | 'category_default' | 'user_verified';
   attendee_confidence?: number;
   attendee_reasoning?: string[];
   attendee_verified?: boolean;
-  source: 'ticketmaster' | 'predicthq' | 'meetup' | 'manual' | 'brno' | 'scraper';
+  source: 'ticketmaster' | 'predicthq' | 'meetup' | 'eventbrite' | 'manual' | 'brno' | 'scraper' | 'import';
   source_id?: string;
   url?: string;
   image_url?: string;
@@ -237,7 +237,7 @@ export const CreateEventSchema = z.object({
   category: z.string().min(1).max(50),
   subcategory: z.string().max(50).optional(),
   expected_attendees: z.number().int().min(0).max(1000000).optional(),
-  source: z.enum(['ticketmaster', 'predicthq', 'meetup', 'manual', 'brno', 'scraper']),
+  source: z.enum(['ticketmaster', 'predicthq', 'meetup', 'eventbrite', 'manual', 'brno', 'scraper', 'import']),
   source_id: z.string().max(100).optional(),
   url: z.string().url().max(500).optional(),
   image_url: z.string().url().max(500).optional(),
@@ -248,7 +248,7 @@ export const UpdateEventSchema = CreateEventSchema.partial();
 export const EventQuerySchema = z.object({
   city: z.string().max(100).optional(),
   category: z.string().max(50).optional(),
-  source: z.enum(['ticketmaster', 'predicthq', 'meetup', 'manual', 'brno', 'scraper']).optional(),
+  source: z.enum(['ticketmaster', 'predicthq', 'meetup', 'eventbrite', 'manual', 'brno', 'scraper', 'import']).optional(),
   start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
   end_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
   limit: z.number().int().min(1).max(1000).default(50),
@@ -261,7 +261,7 @@ export const EventSearchSchema = z.object({
   query: z.string().max(200).optional(),
   city: z.string().max(100).optional(),
   category: z.string().max(50).optional(),
-  source: z.enum(['ticketmaster', 'predicthq', 'meetup', 'manual', 'brno', 'scraper']).optional(),
+  source: z.enum(['ticketmaster', 'predicthq', 'meetup', 'eventbrite', 'manual', 'brno', 'scraper', 'import']).optional(),
   start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
   end_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
   min_attendees: z.number().int().min(0).optional(),
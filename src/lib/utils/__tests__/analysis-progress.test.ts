@@ -0,0 +1,90 @@
+/**
+ * Tests for Analysis Progress Utilities
+ */
+
+import {
+  applyAnalysisProgressEvent,
+  createAnalysisProgressState,
+  describeAnalysisProgress,
+  toPartialRecommendations
+} from '../analysis-progress';
+import { formatServerSentEvent } from '../server-sent-events';
+import type { DateRecommendation } from '@/lib/services/conflict-analysis';
+
+const recommendation = (startDate: string, conflictScore: number): DateRecommendation => ({
+  startDate,
+  endDate: startDate,
+  conflictScore,
+  riskLevel: conflictScore > 10 ? 'High' : 'Low',
+  competingEvents: [],
+  reasons: []
+});
+
+describe('Analysis Progress', () => {
+  describe('toPartialRecommendations', () => {
+    it('should keep the lowest-scored dates first', () => {
+      const partial = toPartialRecommendations([
+        recommendation('2025-05-01', 12),
+        recommendation('2025-05-02', 3),
+        recommendation('2025-05-03', 7),
+        recommendation('2025-05-04', 1)
+      ]);
+
+      expect(partial.map(p => p.startDate)).toEqual(['2025-05-04', '2025-05-02', '2025-05-03']);
+      expect(partial[0]).toEqual({
+        startDate: '2025-05-04',
+        endDate: '2025-05-04',
+        conflictScore: 1,
+        riskLevel: 'Low',
+        competingEventCount: 0
+      });
+    });
+  });
+
+  describe('applyAnalysisProgressEvent', () => {
+    it('should track providers and deduplication while fetching', () => {
+      let state = createAnalysisProgressState();
+      state = applyAnalysisProgressEvent(state, { type: 'step', step: 'fetching-events' });
+      state = applyAnalysisProgressEvent(state, { type: 'provider-fetched', provider: 'ticketmaster', status: 'ok', eventCount: 42, durationMs: 800 });
+      state = applyAnalysisProgressEvent(state, { type: 'provider-fetched', provider: 'scraped', status: 'timeout', eventCount: 0, durationMs: 15000 });
+      state = applyAnalysisProgressEvent(state, { type: 'events-deduplicated', fetched: 42, afterLocationFilter: 40, unique: 37, duplicatesRemoved: 3 });
+
+      expect(describeAnalysisProgress(state, 'fetching-events')).toBe(
+        'Ticketmaster: 42 · Scraped: timed out · 37 unique events (3 duplicates removed)'
+      );
+    });
+
+    it('should ignore scored counts that arrive out of order', () => {
+      let state = createAnalysisProgressState();
+      state = applyAnalysisProgressEvent(state, { type: 'dates-scored', scored: 5, total: 20 });
+      state = applyAnalysisProgressEvent(state, { type: 'dates-scored', scored: 4, total: 20 });
+
+      expect(describeAnalysisProgress(state, 'analyzing-conflicts')).toBe('Scored 5 of 20 date ranges');
+    });
+
+    it('should start over when a retried job fetches again', () => {
+      let state = createAnalysisProgressState();
+      state = applyAnalysisProgressEvent(state, { type: 'dates-scored', scored: 20, total: 20 });
+      state = applyAnalysisProgressEvent(state, { type: 'perplexity', status: 'failed', dateCount: 4 });
+      state = applyAnalysisProgressEvent(state, { type: 'step', step: 'fetching-events' });
+
+      expect(state).toEqual({ ...createAnalysisProgressState(), step: 'fetching-events' });
+    });
+
+    it('should describe nothing for steps without reports', () => {
+      const state = createAnalysisProgressState();
+
+      expect(describeAnalysisProgress(state, 'fetching-events')).toBeUndefined();
+      expect(describeAnalysisProgress(state, 'generating-recommendations')).toBeUndefined();
+    });
+  });
+
+  describe('formatServerSentEvent', () => {
+    it('should encode ID, event name and JSON data', () => {
+      expect(formatServerSentEvent({ id: 7, event: 'progress', data: { type: 'step', step: 'saving' } })).toBe(
+        'id: 7\nevent: progress\ndata: {"type":"step","step":"saving"}\n\n'
+      );
+      expect(formatServerSentEvent({ data: 1 })).toBe('data: 1\n\n');
+    });
+  });
+});
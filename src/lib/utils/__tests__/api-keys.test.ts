@@ -0,0 +1,119 @@
+/**
+ * Tests for API Key Utilities
+ */
+
+import {
+  generateApiKey,
+  hashApiKey,
+  parseApiKeyPrefix,
+  getUngrantableScopes,
+  getEffectiveScopes,
+  isApiKeyActive,
+  canManageMember,
+  canManageApiKey
+} from '../api-keys';
+
+describe('API Keys', () => {
+  describe('generateApiKey', () => {
+    it('should embed the prefix and return the hash of the key', () => {
+      const { key, prefix, hash } = generateApiKey();
+      expect(key).toMatch(/^osk_[0-9a-f]{8}_[0-9a-f]{48}$/);
+      expect(parseApiKeyPrefix(key)).toBe(prefix);
+      expect(hash).toBe(hashApiKey(key));
+      expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('should generate different keys', () => {
+      expect(generateApiKey().key).not.toBe(generateApiKey().key);
+    });
+  });
+
+  describe('parseApiKeyPrefix', () => {
+    it('should reject keys in another format', () => {
+      expect(parseApiKeyPrefix('shared-api-key')).toBeNull();
+      expect(parseApiKeyPrefix('osk_1234_abcd')).toBeNull();
+    });
+  });
+
+  describe('scopes', () => {
+    it('should list scopes a role cannot grant', () => {
+      expect(getUngrantableScopes('member', ['analyze', 'org:admin'])).toEqual(['org:admin']);
+      expect(getUngrantableScopes('owner', ['org:admin', 'analyze'])).toEqual([]);
+    });
+
+    it('should keep scraper:admin to the operator key', () => {
+      expect(getUngrantableScopes('owner', ['analyze', 'scraper:admin'])).toEqual(['scraper:admin']);
+      expect(getEffectiveScopes(['analyze', 'scraper:admin'], 'admin')).toEqual(['analyze']);
+    });
+
+    it('should limit key scopes to the creator\'s current role', () => {
+      expect(getEffectiveScopes(['analyze', 'events:read', 'org:admin'], 'viewer')).toEqual(['events:read']);
+      expect(getEffectiveScopes(['analyze', 'org:admin'], 'admin')).toEqual(['analyze', 'org:admin']);
+    });
+
+    it('should grant nothing once the creator left the organisation', () => {
+      expect(getEffectiveScopes(['analyze'], null)).toEqual([]);
+    });
+  });
+
+  describe('isApiKeyActive', () => {
+    const now = new Date('2025-06-01T12:00:00Z');
+
+    it('should accept keys that are neither revoked nor expired', () => {
+      expect(isApiKeyActive({ revokedAt: null, expiresAt: null }, now)).toBe(true);
+      expect(isApiKeyActive({ revokedAt: null, expiresAt: '2025-06-01T12:30:00Z' }, now)).toBe(true);
+    });
+
+    it('should reject revoked and expired keys', () => {
+      expect(isApiKeyActive({ revokedAt: '2025-06-01T11:00:00Z', expiresAt: null }, now)).toBe(false);
+      expect(isApiKeyActive({ revokedAt: null, expiresAt: '2025-06-01T12:00:00Z' }, now)).toBe(false);
+    });
+  });
+
+  describe('canManageMember', () => {
+    it('should let owners manage everyone', () => {
+      expect(canManageMember('owner', 'owner', 'viewer')).toBe(true);
+    });
+
+    it('should keep admins below their own role', () => {
+      expect(canManageMember('admin', 'member', 'viewer')).toBe(true);
+      expect(canManageMember('admin', 'member', 'admin')).toBe(false);
+      expect(canManageMember('admin', 'owner')).toBe(false);
+    });
+
+    it('should not let members or viewers manage anyone', () => {
+      expect(canManageMember('member', 'viewer')).toBe(false);
+      expect(canManageMember('viewer', 'viewer')).toBe(false);
+    });
+  });
+
+  describe('canManageApiKey', () => {
+    const OWNER_ID = '11111111-1111-4111-8111-111111111111';
+    const MEMBER_ID = '22222222-2222-4222-8222-222222222222';
+    const admin = { userId: '33333333-3333-4333-8333-333333333333', role: 'admin' as const, isOperator: false };
+
+    it('should let callers act on their own keys', () => {
+      expect(canManageApiKey({ userId: MEMBER_ID, role: 'member', isOperator: false }, MEMBER_ID, 'member')).toBe(true);
+      expect(canManageApiKey(admin, admin.userId, 'admin')).toBe(true);
+    });
+
+    it('should let callers act on keys of members whose role they manage', () => {
+      expect(canManageApiKey(admin, MEMBER_ID, 'member')).toBe(true);
+      expect(canManageApiKey({ userId: OWNER_ID, role: 'owner', isOperator: false }, MEMBER_ID, 'admin')).toBe(true);
+    });
+
+    it('should not let admins act on keys of owners or other admins', () => {
+      expect(canManageApiKey(admin, OWNER_ID, 'owner')).toBe(false);
+      expect(canManageApiKey(admin, MEMBER_ID, 'admin')).toBe(false);
+    });
+
+    it('should not let members act on keys of others', () => {
+      expect(canManageApiKey({ userId: MEMBER_ID, role: 'member', isOperator: false }, OWNER_ID, 'viewer')).toBe(false);
+    });
+
+    it('should leave keys of former members to the operator', () => {
+      expect(canManageApiKey(admin, MEMBER_ID, null)).toBe(false);
+      expect(canManageApiKey({ userId: null, role: null, isOperator: true }, MEMBER_ID, null)).toBe(true);
+    });
+  });
+});
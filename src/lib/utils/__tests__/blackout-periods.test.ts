@@ -0,0 +1,72 @@
+/**
+ * Tests for Blackout Periods
+ */
+
+import { applyBlackoutPeriods, getBlackoutPeriodsOnDate } from '../blackout-periods';
+import { BlackoutPeriod, DateAvailabilityCheck } from '@/types/holidays';
+
+const period = (overrides: Partial<BlackoutPeriod>): BlackoutPeriod => ({
+  id: 'period-1',
+  organisation_id: 'org-1',
+  name: 'Company all-hands',
+  start_date: '2026-03-10',
+  end_date: '2026-03-12',
+  business_impact: 'full',
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+  ...overrides
+});
+
+const availableCheck = (date: string): DateAvailabilityCheck => ({
+  date,
+  is_available: true,
+  restrictions: {
+    holidays: [],
+    cultural_events: [],
+    business_impact: 'none',
+    venue_closure_expected: false,
+    reasons: []
+  }
+});
+
+describe('Blackout Periods', () => {
+  describe('getBlackoutPeriodsOnDate', () => {
+    it('should include both ends of the period', () => {
+      const periods = [period({})];
+      expect(getBlackoutPeriodsOnDate(periods, '2026-03-10')).toHaveLength(1);
+      expect(getBlackoutPeriodsOnDate(periods, '2026-03-12')).toHaveLength(1);
+      expect(getBlackoutPeriodsOnDate(periods, '2026-03-13')).toHaveLength(0);
+    });
+
+    it('should apply city periods only to that city', () => {
+      const periods = [period({ id: 'fair', name: 'Trade fair week', city: 'Brno' }), period({ id: 'all' })];
+      expect(getBlackoutPeriodsOnDate(periods, '2026-03-11', 'brno').map(p => p.id)).toEqual(['fair', 'all']);
+      expect(getBlackoutPeriodsOnDate(periods, '2026-03-11', 'Prague').map(p => p.id)).toEqual(['all']);
+      expect(getBlackoutPeriodsOnDate(periods, '2026-03-11').map(p => p.id)).toEqual(['all']);
+    });
+  });
+
+  describe('applyBlackoutPeriods', () => {
+    it('should make a fully blacked-out date unavailable', () => {
+      const check = applyBlackoutPeriods(availableCheck('2026-03-11'), [period({})], 'full');
+      expect(check.is_available).toBe(false);
+      expect(check.restrictions.business_impact).toBe('full');
+      expect(check.restrictions.reasons).toEqual(['Blackout period: Company all-hands (full impact)']);
+      expect(check.restrictions.blackout_periods).toHaveLength(1);
+    });
+
+    it('should weigh partial periods against the threshold', () => {
+      const periods = [period({ business_impact: 'partial' })];
+      expect(applyBlackoutPeriods(availableCheck('2026-03-11'), periods, 'partial').is_available).toBe(false);
+
+      const check = applyBlackoutPeriods(availableCheck('2026-03-11'), periods, 'full');
+      expect(check.is_available).toBe(true);
+      expect(check.restrictions.business_impact).toBe('partial');
+    });
+
+    it('should leave dates outside every period unchanged', () => {
+      const check = availableCheck('2026-04-01');
+      expect(applyBlackoutPeriods(check, [period({})], 'partial')).toBe(check);
+    });
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Tests for Holiday Countries
+ */
+
+import {
+  crossBorderImpactMultiplier,
+  isRegionOfCountry,
+  selectCrossBorderNeighbours,
+  toHolidayCountryCode
+} from '../holiday-countries';
+
+describe('Holiday Countries', () => {
+  describe('toHolidayCountryCode', () => {
+    it('should map city country codes to holiday country codes', () => {
+      expect(toHolidayCountryCode('CZ')).toBe('CZE');
+      expect(toHolidayCountryCode('sk')).toBe('SVK');
+      expect(toHolidayCountryCode('DEU')).toBe('DEU');
+    });
+
+    it('should return null for countries without holiday data', () => {
+      expect(toHolidayCountryCode('HU')).toBeNull();
+      expect(toHolidayCountryCode('USA')).toBeNull();
+    });
+  });
+
+  describe('isRegionOfCountry', () => {
+    it('should match regions by their country prefix', () => {
+      expect(isRegionOfCountry('DE-BY', 'DEU')).toBe(true);
+      expect(isRegionOfCountry('AT-9', 'AT')).toBe(true);
+      expect(isRegionOfCountry('CZ-PR', 'DEU')).toBe(false);
+    });
+  });
+
+  describe('selectCrossBorderNeighbours', () => {
+    it('should keep the closest city of each other country', () => {
+      const cities = [
+        { name_en: 'Gyor', country_code: 'HU', distance_km: 70 },
+        { name_en: 'Brno', country_code: 'CZ', distance_km: 120 },
+        { name_en: 'St. Polten', country_code: 'AT', distance_km: 110 },
+        { name_en: 'Vienna', country_code: 'AT', distance_km: 55 },
+        { name_en: 'Trnava', country_code: 'SK', distance_km: 45 }
+      ];
+
+      expect(selectCrossBorderNeighbours(cities, 'SK').map(c => c.name_en)).toEqual(['Vienna']);
+    });
+  });
+
+  describe('crossBorderImpactMultiplier', () => {
+    it('should scale the impact down with distance', () => {
+      expect(crossBorderImpactMultiplier(1.5, 0)).toBe(1.25);
+      expect(crossBorderImpactMultiplier(1.5, 55)).toBe(1.11);
+      expect(crossBorderImpactMultiplier(1.5, 100)).toBe(1);
+      expect(crossBorderImpactMultiplier(0.8, 0)).toBe(0.9);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Tests for Holiday Rule Evaluation
+ */
+
+import {
+  calculateEasterSunday,
+  evaluateHolidayRule,
+  getHolidayDatesInRange,
+  HolidayRule,
+  isCompleteHolidayRule,
+  nthWeekdayOfMonth,
+  yearsInRange
+} from '../holiday-rules';
+
+const fixed = (month: number, day: number, extra: Partial<HolidayRule> = {}): HolidayRule => ({
+  date_type: 'fixed',
+  month,
+  day,
+  ...extra
+});
+
+const easter = (easter_offset: number, extra: Partial<HolidayRule> = {}): HolidayRule => ({
+  date_type: 'variable',
+  easter_offset,
+  ...extra
+});
+
+describe('Holiday Rules', () => {
+  describe('calculateEasterSunday', () => {
+    it('should match published Western Easter dates', () => {
+      expect(calculateEasterSunday(2024)).toBe('2024-03-31');
+      expect(calculateEasterSunday(2025)).toBe('2025-04-20');
+      expect(calculateEasterSunday(2026)).toBe('2026-04-05');
+      expect(calculateEasterSunday(2027)).toBe('2027-03-28');
+      expect(calculateEasterSunday(2038)).toBe('2038-04-25');
+    });
+  });
+
+  describe('nthWeekdayOfMonth', () => {
+    it('should find the nth and last weekday of a month', () => {
+      // Mother's Day: second Sunday of May
+      expect(nthWeekdayOfMonth(2026, 5, 0, 2)).toBe('2026-05-10');
+      // Last Monday of May
+      expect(nthWeekdayOfMonth(2026, 5, 1, -1)).toBe('2026-05-25');
+      // First Monday when the month starts on one
+      expect(nthWeekdayOfMonth(2026, 6, 1, 1)).toBe('2026-06-01');
+    });
+
+    it('should return null when the month has no such day', () => {
+      expect(nthWeekdayOfMonth(2026, 2, 1, 5)).toBeNull();
+      expect(nthWeekdayOfMonth(2026, 2, 1, 0)).toBeNull();
+    });
+  });
+
+  describe('evaluateHolidayRule', () => {
+    it('should place Easter-relative holidays from the computus', () => {
+      expect(evaluateHolidayRule(easter(1), 2026)).toBe('2026-04-06');
+      expect(evaluateHolidayRule(easter(-2), 2026)).toBe('2026-04-03');
+      expect(evaluateHolidayRule(easter(1), 2024)).toBe('2024-04-01');
+    });
+
+    it('should place fixed holidays and skip days missing that year', () => {
+      expect(evaluateHolidayRule(fixed(10, 28), 2026)).toBe('2026-10-28');
+      expect(evaluateHolidayRule(fixed(2, 29), 2024)).toBe('2024-02-29');
+      expect(evaluateHolidayRule(fixed(2, 29), 2026)).toBeNull();
+    });
+
+    it('should place floating holidays by week of month or first weekday on or after a day', () => {
+      expect(evaluateHolidayRule({ date_type: 'floating', month: 5, weekday: 0, week_of_month: 2 }, 2026)).toBe('2026-05-10');
+      // Midsummer Saturday: first Saturday on or after 20 June
+      expect(evaluateHolidayRule({ date_type: 'floating', month: 6, day: 20, weekday: 6 }, 2026)).toBe('2026-06-20');
+      expect(evaluateHolidayRule({ date_type: 'floating', month: 6, day: 20, weekday: 6 }, 2025)).toBe('2025-06-21');
+      // Buß- und Bettag: Wednesday before 23 November
+      const repentanceDay: HolidayRule = { date_type: 'floating', month: 11, day: 16, weekday: 3 };
+      expect(evaluateHolidayRule(repentanceDay, 2022)).toBe('2022-11-16');
+      expect(evaluateHolidayRule(repentanceDay, 2025)).toBe('2025-11-19');
+      expect(evaluateHolidayRule(repentanceDay, 2026)).toBe('2026-11-18');
+    });
+
+    it('should respect the years a holiday is observed', () => {
+      const goodFriday = easter(-2, { year_start: 2016 });
+      expect(evaluateHolidayRule(goodFriday, 2015)).toBeNull();
+      expect(evaluateHolidayRule(goodFriday, 2016)).toBe('2016-03-25');
+      expect(evaluateHolidayRule(fixed(1, 1, { year_end: 2020 }), 2021)).toBeNull();
+    });
+
+    it('should return null for incomplete definitions', () => {
+      expect(evaluateHolidayRule({ date_type: 'fixed', month: 5 }, 2026)).toBeNull();
+      expect(evaluateHolidayRule({ date_type: 'variable' }, 2026)).toBeNull();
+      expect(evaluateHolidayRule({ date_type: 'floating', month: 5, weekday: 0 }, 2026)).toBeNull();
+    });
+  });
+
+  describe('isCompleteHolidayRule', () => {
+    it('should require the fields of the date type', () => {
+      expect(isCompleteHolidayRule(fixed(5, 8))).toBe(true);
+      expect(isCompleteHolidayRule(easter(0))).toBe(true);
+      expect(isCompleteHolidayRule({ date_type: 'floating', month: 11, weekday: 3, day: 16 })).toBe(true);
+      expect(isCompleteHolidayRule({ date_type: 'fixed', month: 5 })).toBe(false);
+      expect(isCompleteHolidayRule({ date_type: 'floating', month: 5, weekday: 0 })).toBe(false);
+    });
+  });
+
+  describe('getHolidayDatesInRange', () => {
+    it('should return each year\'s date that falls in the range', () => {
+      expect(getHolidayDatesInRange(fixed(1, 1), '2025-12-01', '2027-01-31')).toEqual(['2026-01-01', '2027-01-01']);
+      expect(getHolidayDatesInRange(easter(1), '2026-04-07', '2026-12-31')).toEqual([]);
+    });
+  });
+
+  describe('yearsInRange', () => {
+    it('should list every year the range touches', () => {
+      expect(yearsInRange('2025-12-30', '2027-01-02')).toEqual([2025, 2026, 2027]);
+      expect(yearsInRange('2026-03-01', '2026-03-31')).toEqual([2026]);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+// Tests for the iCalendar writer
+import {
+  buildICalendar,
+  escapeICalText,
+  foldICalLine,
+  formatICalDate,
+  formatICalDateTime,
+  parseICalendar
+} from '../icalendar';
+
+describe('icalendar', () => {
+  const now = new Date('2025-03-01T12:00:00Z');
+
+  it('escapes special characters in text values', () => {
+    expect(escapeICalText('Jazz, Blues; Soul\\Funk\nLive')).toBe('Jazz\\, Blues\\; Soul\\\\Funk\\nLive');
+  });
+
+  it('writes URLs unescaped and keeps scraped URLs from starting new properties', () => {
+    const ics = buildICalendar({
+      name: 'Test',
+      events: [
+        { uid: 'c@test', summary: 'Concert', start: '2025-04-10', allDay: true, url: 'https://example.com/a,b;c' },
+        {
+          uid: 'd@test',
+          summary: 'Concert',
+          start: '2025-04-10',
+          allDay: true,
+          url: 'https://example.com/e\r\nATTACH:https://evil.example\rX-INJECTED:1'
+        },
+        { uid: 'e@test', summary: 'Concert', start: '2025-04-10', allDay: true, url: 'javascript:alert(1)' }
+      ]
+    }, now);
+
+    expect(ics).toContain('URL:https://example.com/a,b;c\r\n');
+    expect(ics).toContain('URL:https://example.com/eATTACH:https://evil.exampleX-INJECTED:1\r\n');
+    expect(ics).not.toMatch(/[\r\n](ATTACH|X-INJECTED)/);
+    expect(ics).not.toContain('javascript:');
+    expect(parseICalendar(ics)[0].url).toBe('https://example.com/a,b;c');
+  });
+
+  it('folds long lines at 75 octets without splitting multi-byte characters', () => {
+    const line = `SUMMARY:${'Přehlídka '.repeat(12)}`;
+    const folded = foldICalLine(line);
+
+    expect(folded).toContain('\r\n ');
+    for (const part of folded.split('\r\n')) {
+      expect(Buffer.byteLength(part, 'utf8')).toBeLessThanOrEqual(75);
+    }
+    expect(folded.split('\r\n ').join('')).toBe(line);
+  });
+
+  it('leaves short lines untouched', () => {
+    expect(foldICalLine('SUMMARY:Short')).toBe('SUMMARY:Short');
+  });
+
+  it('formats dates and UTC timestamps', () => {
+    expect(formatICalDate('2025-04-10')).toBe('20250410');
+    expect(formatICalDate('2025-04-10T18:00:00Z')).toBe('20250410');
+    expect(formatICalDateTime('2025-04-10T18:30:00+02:00')).toBe('20250410T163000Z');
+  });
+
+  it('writes all-day events with an exclusive end date', () => {
+    const ics = buildICalendar({
+      name: 'Test',
+      events: [{ uid: 'a@test', summary: 'Window', start: '2025-04-10', end: '2025-04-12', allDay: true }]
+    }, now);
+
+    expect(ics).toContain('DTSTART;VALUE=DATE:20250410\r\n');
+    expect(ics).toContain('DTEND;VALUE=DATE:20250413\r\n');
+    expect(ics).toContain('DTSTAMP:20250301T120000Z\r\n');
+  });
+
+  it('falls back to a default duration for timed events without an end', () => {
+    const ics = buildICalendar({
+      name: 'Test',
+      events: [{ uid: 'b@test', summary: 'Concert', start: '2025-04-10T19:00:00Z', allDay: false }]
+    }, now);
+
+    expect(ics).toContain('DTSTART:20250410T190000Z\r\n');
+    expect(ics).toContain('DURATION:PT2H\r\n');
+    expect(ics).not.toContain('DTEND');
+  });
+
+  it('wraps events in a calendar with refresh hints for feeds', () => {
+    const ics = buildICalendar({ name: 'Prague, Music', refreshIntervalHours: 6, events: [] }, now);
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(ics).toContain('X-WR-CALNAME:Prague\\, Music\r\n');
+    expect(ics).toContain('REFRESH-INTERVAL;VALUE=DURATION:PT6H\r\n');
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+});
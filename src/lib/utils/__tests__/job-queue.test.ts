@@ -0,0 +1,45 @@
+/**
+ * Tests for Job Queue Utilities
+ */
+
+import { getAnalysisStepProgress, getJobRetryDelayMs, isTerminalJobStatus } from '../job-queue';
+
+describe('Job Queue Utilities', () => {
+  describe('getJobRetryDelayMs', () => {
+    it('should back off exponentially between attempts', () => {
+      expect(getJobRetryDelayMs(1, 5)).toBe(30 * 1000);
+      expect(getJobRetryDelayMs(2, 5)).toBe(60 * 1000);
+      expect(getJobRetryDelayMs(3, 5)).toBe(120 * 1000);
+    });
+
+    it('should cap the delay at 10 minutes', () => {
+      expect(getJobRetryDelayMs(9, 20)).toBe(10 * 60 * 1000);
+    });
+
+    it('should return null once the job is out of attempts', () => {
+      expect(getJobRetryDelayMs(3, 3)).toBeNull();
+      expect(getJobRetryDelayMs(2, 3)).not.toBeNull();
+    });
+  });
+
+  describe('getAnalysisStepProgress', () => {
+    it('should increase with every step', () => {
+      const steps = ['queued', 'fetching-events', 'analyzing-conflicts', 'generating-recommendations', 'saving', 'complete'] as const;
+      const progress = steps.map(getAnalysisStepProgress);
+
+      expect(progress[0]).toBe(0);
+      expect(progress[progress.length - 1]).toBe(100);
+      progress.slice(1).forEach((value, index) => expect(value).toBeGreaterThan(progress[index]));
+    });
+  });
+
+  describe('isTerminalJobStatus', () => {
+    it('should treat only finished jobs as terminal', () => {
+      expect(isTerminalJobStatus('succeeded')).toBe(true);
+      expect(isTerminalJobStatus('failed')).toBe(true);
+      expect(isTerminalJobStatus('cancelled')).toBe(true);
+      expect(isTerminalJobStatus('queued')).toBe(false);
+      expect(isTerminalJobStatus('running')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Tests for Long Weekends
+ */
+
+import {
+  describeLongWeekend,
+  findBridgeDays,
+  findLongWeekendOnDate,
+  findLongWeekends,
+  isWeekend
+} from '../long-weekends';
+
+describe('Long Weekends', () => {
+  describe('isWeekend', () => {
+    it('should match Saturdays and Sundays only', () => {
+      expect(isWeekend('2026-11-14')).toBe(true);
+      expect(isWeekend('2026-11-15')).toBe(true);
+      expect(isWeekend('2026-11-16')).toBe(false);
+    });
+  });
+
+  describe('findBridgeDays', () => {
+    it('should bridge Tuesday and Thursday holidays to the weekend', () => {
+      // Struggle for Freedom and Democracy Day (Tue), Liberation Day 2025 (Thu)
+      expect(findBridgeDays(['2026-11-17'])).toEqual(['2026-11-16']);
+      expect(findBridgeDays(['2025-05-08'])).toEqual(['2025-05-09']);
+    });
+
+    it('should bridge a working day between two holidays', () => {
+      // Labour Day and Liberation Day on Thursdays, plus a made-up Tuesday holiday
+      expect(findBridgeDays(['2025-05-06', '2025-05-08'])).toEqual(['2025-05-05', '2025-05-07', '2025-05-09']);
+    });
+
+    it('should not bridge Monday, Wednesday or Friday holidays', () => {
+      expect(findBridgeDays(['2026-09-28'])).toEqual([]); // Statehood Day (Mon)
+      expect(findBridgeDays(['2026-10-28'])).toEqual([]); // Independence Day (Wed)
+    });
+  });
+
+  describe('findLongWeekends', () => {
+    it('should join a Monday holiday to the weekend', () => {
+      expect(findLongWeekends(['2026-09-28'])).toEqual([{
+        start_date: '2026-09-26',
+        end_date: '2026-09-28',
+        days: 3,
+        holiday_dates: ['2026-09-28'],
+        bridge_days: []
+      }]);
+    });
+
+    it('should include the bridge day of a Tuesday holiday', () => {
+      expect(findLongWeekends(['2026-11-17'])).toEqual([{
+        start_date: '2026-11-14',
+        end_date: '2026-11-17',
+        days: 4,
+        holiday_dates: ['2026-11-17'],
+        bridge_days: ['2026-11-16']
+      }]);
+    });
+
+    it('should run Christmas holidays into the weekend', () => {
+      const [christmas] = findLongWeekends(['2025-12-24', '2025-12-25', '2025-12-26']);
+      expect(christmas.start_date).toBe('2025-12-24');
+      expect(christmas.end_date).toBe('2025-12-28');
+      expect(christmas.holiday_dates).toHaveLength(3);
+    });
+
+    it('should ignore midweek holidays', () => {
+      expect(findLongWeekends(['2026-10-28'])).toEqual([]);
+    });
+  });
+
+  describe('findLongWeekendOnDate', () => {
+    it('should find the long weekend covering a date', () => {
+      const longWeekends = findLongWeekends(['2026-11-17']);
+      expect(findLongWeekendOnDate(longWeekends, '2026-11-16')?.start_date).toBe('2026-11-14');
+      expect(findLongWeekendOnDate(longWeekends, '2026-11-18')).toBeNull();
+    });
+  });
+
+  describe('describeLongWeekend', () => {
+    it('should list the dates and bridge days', () => {
+      const [longWeekend] = findLongWeekends(['2026-11-17']);
+      expect(describeLongWeekend(longWeekend)).toBe('Long weekend 2026-11-14 to 2026-11-17 (4 days, bridge day 2026-11-16)');
+    });
+  });
+});
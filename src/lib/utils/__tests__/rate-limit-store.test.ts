@@ -0,0 +1,59 @@
+/**
+ * Tests for Rate Limit Stores
+ */
+
+import { checkRateLimit, MemoryRateLimitStore } from '../rate-limit-store';
+
+describe('Rate Limit Stores', () => {
+  let now: number;
+  let store: MemoryRateLimitStore;
+
+  beforeEach(() => {
+    now = 1_735_689_600_000;
+    store = new MemoryRateLimitStore(() => now);
+  });
+
+  describe('MemoryRateLimitStore', () => {
+    it('should reject hits once the window is full without recording them', async () => {
+      expect((await store.consume('a', 2, 60000)).allowed).toBe(true);
+      expect((await store.consume('a', 2, 60000)).allowed).toBe(true);
+
+      const rejected = await store.consume('a', 2, 60000);
+      expect(rejected).toEqual({ allowed: false, count: 2, resetAt: now + 60000 });
+    });
+
+    it('should slide the window instead of resetting it', async () => {
+      await store.consume('a', 2, 60000);
+      now += 30000;
+      await store.consume('a', 2, 60000);
+
+      now += 30001; // The first hit has left the window, the second has not
+      const window = await store.consume('a', 2, 60000);
+      expect(window.allowed).toBe(true);
+      expect(window.count).toBe(2);
+      expect(window.resetAt).toBe(now - 30001 + 60000);
+    });
+
+    it('should keep buckets apart', async () => {
+      await store.consume('a', 1, 60000);
+      expect((await store.consume('a', 1, 60000)).allowed).toBe(false);
+      expect((await store.consume('b', 1, 60000)).allowed).toBe(true);
+    });
+  });
+
+  describe('checkRateLimit', () => {
+    it('should report the remaining budget and when to retry', async () => {
+      const realNow = Date.now();
+      const budgets = new MemoryRateLimitStore();
+
+      const first = await checkRateLimit('provider:a', 1, 60000, budgets);
+      expect(first).toMatchObject({ success: true, limit: 1, remaining: 0 });
+      expect(first.retryAfter).toBeUndefined();
+
+      const second = await checkRateLimit('provider:a', 1, 60000, budgets);
+      expect(second.success).toBe(false);
+      expect(second.retryAfter).toBeGreaterThan(0);
+      expect(second.reset).toBeGreaterThanOrEqual(Math.floor((realNow + 60000) / 1000));
+    });
+  });
+});
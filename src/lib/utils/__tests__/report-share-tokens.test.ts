@@ -0,0 +1,36 @@
+/**
+ * Tests for Report Share Tokens
+ */
+
+import { createReportShareToken, verifyReportShareToken } from '../report-share-tokens';
+
+describe('Report Share Tokens', () => {
+  const secret = 'report-share-test-secret';
+  const analysisId = '0b6f3c52-7a1e-4f4b-9d2e-5c3a8e1f2d40';
+  const now = new Date('2026-03-01T12:00:00Z');
+  const expiresAt = new Date('2026-03-08T12:00:00Z');
+
+  it('should accept a token for its analysis until it expires', () => {
+    const token = createReportShareToken(analysisId, expiresAt, secret);
+    expect(token).toMatch(/^\d+\.[0-9a-f]{64}$/);
+    expect(verifyReportShareToken(analysisId, token, secret, now)).toBe(true);
+    expect(verifyReportShareToken(analysisId, token, secret, new Date('2026-03-08T12:00:00Z'))).toBe(false);
+  });
+
+  it('should reject tokens of other analyses or signed with another secret', () => {
+    const token = createReportShareToken(analysisId, expiresAt, secret);
+    expect(verifyReportShareToken('7d1e2f3a-1b2c-4d5e-8f90-123456789abc', token, secret, now)).toBe(false);
+    expect(verifyReportShareToken(analysisId, token, 'another-secret', now)).toBe(false);
+  });
+
+  it('should reject a token whose expiry was extended', () => {
+    const [, signature] = createReportShareToken(analysisId, expiresAt, secret).split('.');
+    const extended = `${Math.floor(expiresAt.getTime() / 1000) + 86400}.${signature}`;
+    expect(verifyReportShareToken(analysisId, extended, secret, now)).toBe(false);
+  });
+
+  it('should reject malformed tokens', () => {
+    expect(verifyReportShareToken(analysisId, 'not-a-token', secret, now)).toBe(false);
+    expect(verifyReportShareToken(analysisId, '', secret, now)).toBe(false);
+  });
+});
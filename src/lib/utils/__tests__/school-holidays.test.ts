@@ -0,0 +1,72 @@
+/**
+ * Tests for School Holiday Utilities
+ */
+
+import {
+  filterSchoolHolidaysForCity,
+  formatSchoolHoliday,
+  getSchoolHolidaysOnDate,
+  resolveSchoolDistricts
+} from '../school-holidays';
+import type { SchoolHoliday } from '@/types/holidays';
+
+const schoolHoliday = (
+  kind: SchoolHoliday['kind'],
+  name: string,
+  start_date: string,
+  end_date: string,
+  district?: string
+): SchoolHoliday => ({
+  id: `${kind}-${district || 'national'}`,
+  country_id: 'cze',
+  district,
+  kind,
+  name,
+  start_date,
+  end_date,
+  school_year: '2025/2026',
+  created_at: '2025-01-01T00:00:00Z'
+});
+
+const holidays = [
+  schoolHoliday('spring', 'Spring break', '2026-02-23', '2026-03-01', 'Brno-město'),
+  schoolHoliday('spring', 'Spring break', '2026-02-09', '2026-02-15', 'Praha 1-5'),
+  schoolHoliday('spring', 'Spring break', '2026-02-16', '2026-02-22', 'Praha 6-10'),
+  schoolHoliday('spring', 'Spring break', '2026-03-02', '2026-03-08', 'Hradec Králové'),
+  schoolHoliday('half_term', 'Half-term break', '2026-01-30', '2026-01-30')
+];
+
+describe('School Holidays', () => {
+  describe('resolveSchoolDistricts', () => {
+    it('should map cities to the districts their schools belong to', () => {
+      expect(resolveSchoolDistricts('Brno')).toEqual(['Brno-město']);
+      expect(resolveSchoolDistricts('Praha')).toEqual(['Praha 1-5', 'Praha 6-10']);
+      expect(resolveSchoolDistricts('Plzeň')).toEqual(['Plzeň-město']);
+      expect(resolveSchoolDistricts('Jihlava')).toEqual(['Jihlava']);
+    });
+  });
+
+  describe('filterSchoolHolidaysForCity', () => {
+    it('should keep nationwide breaks and the city\'s own spring break', () => {
+      expect(filterSchoolHolidaysForCity(holidays, 'Brno').map(formatSchoolHoliday)).toEqual([
+        'Spring break (Brno-město)',
+        'Half-term break'
+      ]);
+    });
+
+    it('should keep both Prague spring breaks and match district names without diacritics', () => {
+      expect(filterSchoolHolidaysForCity(holidays, 'Prague').map(h => h.district)).toEqual(['Praha 1-5', 'Praha 6-10', undefined]);
+      expect(filterSchoolHolidaysForCity(holidays, 'Hradec Kralove').map(h => h.district)).toEqual(['Hradec Králové', undefined]);
+    });
+  });
+
+  describe('getSchoolHolidaysOnDate', () => {
+    it('should include the first and last day of a break', () => {
+      const brno = filterSchoolHolidaysForCity(holidays, 'Brno');
+
+      expect(getSchoolHolidaysOnDate(brno, '2026-02-23')).toHaveLength(1);
+      expect(getSchoolHolidaysOnDate(brno, '2026-03-01')).toHaveLength(1);
+      expect(getSchoolHolidaysOnDate(brno, '2026-03-02')).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Tests for Webhook Signing Utilities
+ */
+
+import {
+  generateWebhookSecret,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  getWebhookRetryDelayMs,
+  maskWebhookSecret,
+  WEBHOOK_MAX_ATTEMPTS
+} from '../webhook-signing';
+
+describe('Webhook Signing', () => {
+  const secret = 'whsec_test_secret_value';
+  const body = JSON.stringify({ id: 'delivery-1', type: 'analysis.completed', data: { analysisId: 'abc' } });
+  const now = 1735689600;
+
+  describe('signWebhookPayload', () => {
+    it('should produce a timestamped HMAC-SHA256 signature', () => {
+      const header = signWebhookPayload(body, secret, now);
+      expect(header).toMatch(/^t=1735689600,v1=[0-9a-f]{64}$/);
+    });
+
+    it('should be deterministic for the same input', () => {
+      expect(signWebhookPayload(body, secret, now)).toBe(signWebhookPayload(body, secret, now));
+    });
+
+    it('should change when the body or secret changes', () => {
+      const header = signWebhookPayload(body, secret, now);
+      expect(signWebhookPayload(body + ' ', secret, now)).not.toBe(header);
+      expect(signWebhookPayload(body, 'other_secret_value', now)).not.toBe(header);
+    });
+  });
+
+  describe('verifyWebhookSignature', () => {
+    it('should accept a valid signature', () => {
+      const header = signWebhookPayload(body, secret, now);
+      expect(verifyWebhookSignature(body, header, secret, 300, now + 10)).toBe(true);
+    });
+
+    it('should reject a tampered body', () => {
+      const header = signWebhookPayload(body, secret, now);
+      expect(verifyWebhookSignature(body.replace('abc', 'xyz'), header, secret, 300, now)).toBe(false);
+    });
+
+    it('should reject the wrong secret', () => {
+      const header = signWebhookPayload(body, secret, now);
+      expect(verifyWebhookSignature(body, header, 'whsec_wrong_secret', 300, now)).toBe(false);
+    });
+
+    it('should reject signatures outside the tolerance window', () => {
+      const header = signWebhookPayload(body, secret, now);
+      expect(verifyWebhookSignature(body, header, secret, 300, now + 301)).toBe(false);
+    });
+
+    it('should reject malformed headers', () => {
+      expect(verifyWebhookSignature(body, 'garbage', secret, 300, now)).toBe(false);
+      expect(verifyWebhookSignature(body, `t=${now},v1=abcd`, secret, 300, now)).toBe(false);
+    });
+  });
+
+  describe('getWebhookRetryDelayMs', () => {
+    it('should back off exponentially', () => {
+      expect(getWebhookRetryDelayMs(1)).toBe(60 * 1000);
+      expect(getWebhookRetryDelayMs(2)).toBe(4 * 60 * 1000);
+      expect(getWebhookRetryDelayMs(3)).toBe(16 * 60 * 1000);
+    });
+
+    it('should stop retrying after the maximum number of attempts', () => {
+      expect(getWebhookRetryDelayMs(WEBHOOK_MAX_ATTEMPTS - 1)).not.toBeNull();
+      expect(getWebhookRetryDelayMs(WEBHOOK_MAX_ATTEMPTS)).toBeNull();
+    });
+  });
+
+  describe('secrets', () => {
+    it('should generate unique prefixed secrets', () => {
+      const first = generateWebhookSecret();
+      expect(first).toMatch(/^whsec_[0-9a-f]{48}$/);
+      expect(generateWebhookSecret()).not.toBe(first);
+    });
+
+    it('should mask secrets', () => {
+      expect(maskWebhookSecret('whsec_0123456789abcdef')).toBe('whsec_…cdef');
+      expect(maskWebhookSecret('short')).toBe('••••');
+    });
+  });
+});
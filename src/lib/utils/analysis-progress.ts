@@ -0,0 +1,130 @@
+// src/lib/utils/analysis-progress.ts
+import type { DateRecommendation } from '@/lib/services/conflict-analysis';
+import type {
+  AnalysisProgressEvent,
+  AnalysisProgressState,
+  PartialDateRecommendation
+} from '@/types/analysis-progress';
+
+const PARTIAL_RECOMMENDATION_LIMIT = 3;
+
+const PROVIDER_LABELS: Record<string, string> = {
+  ticketmaster: 'Ticketmaster',
+  eventbrite: 'Eventbrite',
+  meetup: 'Meetup',
+  brno: 'Brno',
+  scraped: 'Scraped'
+};
+
+/**
+ * Best dates so far - lowest conflict score first - in the lean shape streamed to clients
+ */
+export function toPartialRecommendations(
+  recommendations: DateRecommendation[],
+  limit: number = PARTIAL_RECOMMENDATION_LIMIT
+): PartialDateRecommendation[] {
+  return [...recommendations]
+    .sort((a, b) => a.conflictScore - b.conflictScore)
+    .slice(0, limit)
+    .map(rec => ({
+      startDate: rec.startDate,
+      endDate: rec.endDate,
+      conflictScore: rec.conflictScore,
+      riskLevel: rec.riskLevel,
+      competingEventCount: rec.competingEvents.length
+    }));
+}
+
+export function createAnalysisProgressState(): AnalysisProgressState {
+  return {
+    step: null,
+    providers: [],
+    deduplication: null,
+    datesScored: 0,
+    datesTotal: 0,
+    perplexity: null,
+    perplexityDateCount: 0,
+    recommendations: []
+  };
+}
+
+/**
+ * Fold a progress event into the state. Returns a new state object.
+ */
+export function applyAnalysisProgressEvent(
+  state: AnalysisProgressState,
+  event: AnalysisProgressEvent
+): AnalysisProgressState {
+  switch (event.type) {
+    case 'step':
+      // Fetching starts every attempt; a retried job reports its counts anew
+      return event.step === 'fetching-events'
+        ? { ...createAnalysisProgressState(), step: event.step }
+        : { ...state, step: event.step };
+    case 'provider-fetched':
+      return {
+        ...state,
+        providers: [
+          ...state.providers.filter(p => p.provider !== event.provider),
+          { provider: event.provider, status: event.status, eventCount: event.eventCount }
+        ]
+      };
+    case 'events-deduplicated':
+      return {
+        ...state,
+        deduplication: {
+          fetched: event.fetched,
+          afterLocationFilter: event.afterLocationFilter,
+          unique: event.unique,
+          duplicatesRemoved: event.duplicatesRemoved
+        }
+      };
+    case 'dates-scored':
+      // Scoring runs in parallel, so counts may arrive out of order
+      return {
+        ...state,
+        datesScored: Math.max(state.datesScored, event.scored),
+        datesTotal: event.total
+      };
+    case 'perplexity':
+      return { ...state, perplexity: event.status, perplexityDateCount: event.dateCount };
+    case 'partial-recommendations':
+      return { ...state, recommendations: event.recommendations };
+    default:
+      return state;
+  }
+}
+
+/**
+ * Live description of what a pipeline step has done so far;
+ * undefined when nothing has been reported for it yet
+ */
+export function describeAnalysisProgress(state: AnalysisProgressState, stepId: string): string | undefined {
+  switch (stepId) {
+    case 'fetching-events': {
+      const parts = state.providers.map(p => {
+        const label = PROVIDER_LABELS[p.provider] || p.provider.replace(/^impact-/, 'Nearby: ');
+        return p.status === 'ok' ? `${label}: ${p.eventCount}` : `${label}: ${p.status === 'timeout' ? 'timed out' : 'failed'}`;
+      });
+      if (state.deduplication) {
+        parts.push(`${state.deduplication.unique} unique events (${state.deduplication.duplicatesRemoved} duplicates removed)`);
+      }
+      return parts.length > 0 ? parts.join(' · ') : undefined;
+    }
+    case 'analyzing-conflicts':
+      return state.datesTotal > 0 ? `Scored ${state.datesScored} of ${state.datesTotal} date ranges` : undefined;
+    case 'generating-recommendations':
+      switch (state.perplexity) {
+        case 'started':
+          return `Researching ${state.perplexityDateCount} date ranges with Perplexity...`;
+        case 'completed':
+          return `Perplexity research finished for ${state.perplexityDateCount} date ranges`;
+        case 'failed':
+          return 'Perplexity research unavailable, continuing without it';
+        default:
+          return undefined;
+      }
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,100 @@
+// src/lib/utils/api-keys.ts
+import { createHash, randomBytes } from 'crypto';
+import type { ApiKeyScope, OrganisationRole } from '@/types/organisations';
+
+export const API_KEY_PREFIX = 'osk';
+
+/**
+ * Scopes a member of each role may grant to the keys they create. No role grants
+ * scraper:admin: imported and scraped events are shared by every organisation,
+ * so only the operator key may write them.
+ */
+export const ROLE_SCOPES: Record<OrganisationRole, ApiKeyScope[]> = {
+  owner: ['analyze', 'events:read', 'feedback:write', 'org:admin'],
+  admin: ['analyze', 'events:read', 'feedback:write', 'org:admin'],
+  member: ['analyze', 'events:read', 'feedback:write'],
+  viewer: ['events:read']
+};
+
+const ROLE_RANK: Record<OrganisationRole, number> = {
+  owner: 3,
+  admin: 2,
+  member: 1,
+  viewer: 0
+};
+
+/**
+ * Generate a new organisation API key in the form `osk_<prefix>_<secret>`.
+ * The prefix is stored in plain text so keys can be told apart and looked up.
+ */
+export function generateApiKey(): { key: string; prefix: string; hash: string } {
+  const prefix = randomBytes(4).toString('hex');
+  const key = `${API_KEY_PREFIX}_${prefix}_${randomBytes(24).toString('hex')}`;
+  return { key, prefix, hash: hashApiKey(key) };
+}
+
+/**
+ * SHA-256 hex digest of a key. Keys are long random strings, so a fast hash is enough.
+ */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Extract the lookup prefix from an organisation key; null for anything else
+ */
+export function parseApiKeyPrefix(key: string): string | null {
+  const match = key.match(/^osk_([0-9a-f]{8})_[0-9a-f]{48}$/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Requested scopes the role is not allowed to grant
+ */
+export function getUngrantableScopes(role: OrganisationRole, scopes: ApiKeyScope[]): ApiKeyScope[] {
+  return scopes.filter(scope => !ROLE_SCOPES[role].includes(scope));
+}
+
+/**
+ * Scopes a key actually has: the ones it was created with that its creator's
+ * current role still allows. Keys of users who left the organisation have none.
+ */
+export function getEffectiveScopes(keyScopes: ApiKeyScope[], creatorRole: OrganisationRole | null): ApiKeyScope[] {
+  if (!creatorRole) return [];
+  return keyScopes.filter(scope => ROLE_SCOPES[creatorRole].includes(scope));
+}
+
+/**
+ * Whether a key can still be used: not revoked and not expired
+ */
+export function isApiKeyActive(key: { revokedAt: string | null; expiresAt: string | null }, now: Date = new Date()): boolean {
+  if (key.revokedAt && new Date(key.revokedAt) <= now) return false;
+  if (key.expiresAt && new Date(key.expiresAt) <= now) return false;
+  return true;
+}
+
+/**
+ * Owners manage everyone; admins manage members and viewers and may not
+ * hand out a role above their own.
+ */
+export function canManageMember(actorRole: OrganisationRole, targetRole: OrganisationRole, newRole?: OrganisationRole): boolean {
+  if (actorRole === 'owner') return true;
+  if (actorRole !== 'admin') return false;
+  if (ROLE_RANK[targetRole] >= ROLE_RANK.admin) return false;
+  return !newRole || ROLE_RANK[newRole] < ROLE_RANK.admin;
+}
+
+/**
+ * Whether a caller may act on a key in place of its creator, such as rotating it:
+ * its own keys, or keys of members whose role the caller manages. Keys of users
+ * who left the organisation belong to no one and are left to the operator.
+ */
+export function canManageApiKey(
+  actor: { userId: string | null; role: OrganisationRole | null; isOperator: boolean },
+  createdBy: string,
+  creatorRole: OrganisationRole | null
+): boolean {
+  if (actor.isOperator) return true;
+  if (actor.userId !== null && actor.userId === createdBy) return true;
+  return actor.role !== null && creatorRole !== null && canManageMember(actor.role, creatorRole);
+}
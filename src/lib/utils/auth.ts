@@ -4,6 +4,8 @@
  */
 
 import { NextRequest } from 'next/server';
+import { apiKeyService } from '@/lib/services/api-keys';
+import { API_KEY_SCOPES, ApiKeyScope, AuthContext } from '@/types/organisations';
 
 /**
  * Verify API key authentication
@@ -25,6 +27,157 @@ export function verifyApiKey(request: NextRequest): boolean {
   return apiKey === expectedApiKey;
 }
 
+/**
+ * Key presented with the request, from the `x-api-key` header or an
+ * `Authorization: Bearer` header
+ */
+export function getPresentedApiKey(request: NextRequest): string | null {
+  const apiKey = request.headers.get('x-api-key');
+  if (apiKey) {
+    return apiKey;
+  }
+
+  const authHeader = request.headers.get('authorization');
+  if (authHeader && authHeader.startsWith('Bearer ')) {
+    return authHeader.substring(7);
+  }
+  return null;
+}
+
+/**
+ * Context of the operator: the shared API_KEY, or any caller in development when
+ * no API_KEY is configured. Not bound to an organisation and holds every scope.
+ */
+export function getOperatorContext(): AuthContext {
+  return {
+    organisationId: null,
+    userId: null,
+    apiKeyId: null,
+    role: null,
+    scopes: [...API_KEY_SCOPES],
+    isOperator: true
+  };
+}
+
+// Authentication results per request, so rate limiting and the route handler share one key lookup
+const authenticatedRequests = new WeakMap<Request, Promise<AuthContext | null>>();
+
+/**
+ * Caller identified by the presented key: the operator for the shared API_KEY,
+ * the key's organisation context for a valid organisation key, null when no key
+ * was presented or it is invalid. Rejects when the key could not be verified.
+ */
+export function authenticateRequest(request: NextRequest): Promise<AuthContext | null> {
+  const presentedKey = getPresentedApiKey(request);
+  if (!presentedKey) {
+    return Promise.resolve(null);
+  }
+
+  const expectedApiKey = process.env.API_KEY;
+  if (expectedApiKey && presentedKey === expectedApiKey) {
+    return Promise.resolve(getOperatorContext());
+  }
+
+  let pending = authenticatedRequests.get(request);
+  if (!pending) {
+    pending = apiKeyService.authenticate(presentedKey);
+    authenticatedRequests.set(request, pending);
+  }
+  return pending;
+}
+
+/**
+ * Resolve the caller of a request. Returns null when no key was presented and
+ * an error response when the key is invalid or lacks the scope.
+ */
+async function resolveAuthContext(request: NextRequest, scope: ApiKeyScope): Promise<AuthContext | Response | null> {
+  if (!getPresentedApiKey(request)) {
+    return null;
+  }
+
+  let context: AuthContext | null;
+  try {
+    context = await authenticateRequest(request);
+  } catch (error) {
+    console.error('API key verification failed:', error);
+    return Response.json(
+      {
+        error: 'Service Unavailable',
+        message: 'Could not verify API key',
+      },
+      { status: 503 }
+    );
+  }
+
+  if (!context) {
+    return createAuthErrorResponse('Invalid, expired or revoked API key');
+  }
+  if (!context.scopes.includes(scope)) {
+    return createForbiddenResponse(`API key lacks the ${scope} scope`);
+  }
+  return context;
+}
+
+/**
+ * Require an organisation API key with the given scope, or the shared API_KEY.
+ * Returns the caller's context, or an error response to return as-is.
+ */
+export async function requireScope(request: NextRequest, scope: ApiKeyScope): Promise<AuthContext | Response> {
+  const context = await resolveAuthContext(request, scope);
+  if (context) {
+    return context;
+  }
+
+  // No key presented - allowed in development when API_KEY is not configured
+  if (verifyApiKey(request)) {
+    return getOperatorContext();
+  }
+  return createAuthErrorResponse('Valid API key required');
+}
+
+/**
+ * For endpoints the web app calls anonymously: no key means an anonymous caller (null),
+ * a presented key must be valid and carry the scope.
+ */
+export async function getOptionalAuthContext(request: NextRequest, scope: ApiKeyScope): Promise<AuthContext | Response | null> {
+  return await resolveAuthContext(request, scope);
+}
+
+/**
+ * Whether a caller may see a record owned by an organisation. Records without
+ * an organisation were created anonymously and stay public.
+ */
+export function canAccessOrganisationResource(context: AuthContext | null, organisationId: string | null): boolean {
+  if (!organisationId) return true;
+  if (!context) return false;
+  return context.isOperator || context.organisationId === organisationId;
+}
+
+/**
+ * Whether a caller may see or change a record owned by a single user, such as
+ * a scoring profile. Only the owner's keys and the operator qualify.
+ */
+export function canAccessUserResource(context: AuthContext, userId: string | null): boolean {
+  if (context.isOperator) return true;
+  return context.userId !== null && context.userId === userId;
+}
+
+/**
+ * Whether a caller may manage an organisation (members, keys)
+ */
+export function canManageOrganisation(context: AuthContext, organisationId: string): boolean {
+  if (context.isOperator) return true;
+  return context.organisationId === organisationId && context.scopes.includes('org:admin');
+}
+
+/**
+ * Whether a caller may manage a record of an organisation, such as a webhook
+ * endpoint. Records without an organisation belong to the operator.
+ */
+export function canManageOrganisationResource(context: AuthContext, organisationId: string | null): boolean {
+  return organisationId ? canManageOrganisation(context, organisationId) : context.isOperator;
+}
+
 /**
  * Verify Bearer token authentication
  */
@@ -57,6 +210,19 @@ export function createAuthErrorResponse(message: string = 'Authentication requir
   );
 }
 
+/**
+ * Create authorization error response for authenticated callers without access
+ */
+export function createForbiddenResponse(message: string = 'Insufficient permissions') {
+  return Response.json(
+    {
+      error: 'Forbidden',
+      message,
+    },
+    { status: 403 }
+  );
+}
+
 /**
  * Middleware to require API key authentication
  */
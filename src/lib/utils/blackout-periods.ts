@@ -0,0 +1,62 @@
+// src/lib/utils/blackout-periods.ts
+import { BlackoutPeriod, DateAvailabilityCheck } from '@/types/holidays';
+
+type BusinessImpact = 'none' | 'partial' | 'full';
+
+const IMPACT_LEVELS: Record<BusinessImpact, number> = { none: 0, partial: 1, full: 2 };
+
+/**
+ * Blackout periods covering a date. A period set for a city applies only to
+ * events in that city; without a city only the periods for every city apply.
+ */
+export function getBlackoutPeriodsOnDate(
+  periods: BlackoutPeriod[],
+  date: string,
+  city?: string
+): BlackoutPeriod[] {
+  const cityKey = city?.trim().toLowerCase();
+  return periods.filter(period =>
+    date >= period.start_date &&
+    date <= period.end_date &&
+    (!period.city || period.city.trim().toLowerCase() === cityKey)
+  );
+}
+
+/**
+ * Add the blackout periods covering a date to its availability check. Like a
+ * holiday, a period with full impact, or an impact at or above the threshold,
+ * makes the date unavailable.
+ */
+export function applyBlackoutPeriods(
+  check: DateAvailabilityCheck,
+  periods: BlackoutPeriod[],
+  threshold: BusinessImpact,
+  city?: string
+): DateAvailabilityCheck {
+  const onDate = getBlackoutPeriodsOnDate(periods, check.date, city);
+  if (onDate.length === 0) {
+    return check;
+  }
+
+  const blocksDate = onDate.some(period =>
+    period.business_impact === 'full' || IMPACT_LEVELS[period.business_impact] >= IMPACT_LEVELS[threshold]
+  );
+  const businessImpact = onDate.reduce<BusinessImpact>(
+    (impact, period) => IMPACT_LEVELS[period.business_impact] > IMPACT_LEVELS[impact] ? period.business_impact : impact,
+    check.restrictions.business_impact
+  );
+
+  return {
+    ...check,
+    is_available: check.is_available && !blocksDate,
+    restrictions: {
+      ...check.restrictions,
+      business_impact: businessImpact,
+      reasons: [
+        ...check.restrictions.reasons,
+        ...onDate.map(period => `Blackout period: ${period.name} (${period.business_impact} impact)`)
+      ],
+      blackout_periods: [...(check.restrictions.blackout_periods || []), ...onDate]
+    }
+  };
+}
@@ -0,0 +1,105 @@
+// src/lib/utils/csv.ts
+
+/**
+ * Minimal CSV (RFC 4180) reader for spreadsheet imports
+ */
+
+export interface ParsedCsv {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+/**
+ * Guess the delimiter from the header line. Czech Excel exports use
+ * semicolons because the comma is the decimal separator.
+ */
+export function detectCsvDelimiter(content: string): string {
+  const headerLine = content.split(/\r?\n/, 1)[0] || '';
+  const candidates = [',', ';', '\t'];
+  let best = ',';
+  let bestCount = 0;
+
+  for (const candidate of candidates) {
+    const count = headerLine.split(candidate).length - 1;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Split CSV content into records, honouring quoted fields with embedded
+ * delimiters, newlines and doubled quotes
+ */
+export function parseCsvRecords(content: string, delimiter: string = detectCsvDelimiter(content)): string[][] {
+  const text = content.replace(/^\uFEFF/, '');
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Drop blank lines
+  return records.filter(r => r.some(value => value.trim() !== ''));
+}
+
+/**
+ * Parse CSV with a header row into objects keyed by header name
+ */
+export function parseCsv(content: string, delimiter?: string): ParsedCsv {
+  const records = parseCsvRecords(content, delimiter || detectCsvDelimiter(content));
+  if (records.length === 0) {
+    return { headers: [], rows: [] };
+  }
+
+  const headers = records[0].map(header => header.trim());
+  const rows = records.slice(1).map(record => {
+    const row: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      row[header] = (record[index] || '').trim();
+    });
+    return row;
+  });
+
+  return { headers, rows };
+}
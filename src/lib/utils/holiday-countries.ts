@@ -0,0 +1,67 @@
+// src/lib/utils/holiday-countries.ts
+
+// Countries with holiday data. Cities store ISO 3166-1 alpha-2 codes while
+// holidays are keyed by alpha-3.
+const HOLIDAY_COUNTRY_CODES: Record<string, string> = {
+  CZ: 'CZE',
+  SK: 'SVK',
+  AT: 'AUT',
+  PL: 'POL',
+  DE: 'DEU',
+};
+
+// Cross-border holidays count at most this share of their impact, fading to
+// nothing at CROSS_BORDER_MAX_DISTANCE_KM
+export const CROSS_BORDER_MAX_DISTANCE_KM = 100;
+const CROSS_BORDER_WEIGHT = 0.5;
+
+/**
+ * Holiday country code (alpha-3) for a city's country code. Alpha-3 codes
+ * pass through; null when there is no holiday data for the country.
+ */
+export function toHolidayCountryCode(countryCode: string): string | null {
+  const code = countryCode.trim().toUpperCase();
+  if (Object.values(HOLIDAY_COUNTRY_CODES).includes(code)) return code;
+  return HOLIDAY_COUNTRY_CODES[code] || null;
+}
+
+/**
+ * Whether a region code belongs to a country, e.g. 'DE-BY' to 'DEU'
+ */
+export function isRegionOfCountry(regionCode: string, countryCode: string): boolean {
+  const prefix = regionCode.split('-')[0];
+  return toHolidayCountryCode(prefix) === toHolidayCountryCode(countryCode);
+}
+
+/**
+ * Closest city of each neighbouring country with holiday data within
+ * CROSS_BORDER_MAX_DISTANCE_KM, closest first
+ */
+export function selectCrossBorderNeighbours<T extends { country_code: string; distance_km: number }>(
+  cities: T[],
+  homeCountryCode: string
+): T[] {
+  const home = toHolidayCountryCode(homeCountryCode);
+  const closest = new Map<string, T>();
+
+  for (const city of cities) {
+    const country = toHolidayCountryCode(city.country_code);
+    if (!country || country === home || city.distance_km > CROSS_BORDER_MAX_DISTANCE_KM) continue;
+
+    const current = closest.get(country);
+    if (!current || city.distance_km < current.distance_km) {
+      closest.set(country, city);
+    }
+  }
+
+  return Array.from(closest.values()).sort((a, b) => a.distance_km - b.distance_km);
+}
+
+/**
+ * Impact multiplier of a holiday across the border, scaled down with distance
+ * (e.g. an Austrian holiday's 1.5x is about 1.1x for Bratislava, 55 km from Vienna)
+ */
+export function crossBorderImpactMultiplier(multiplier: number, distanceKm: number): number {
+  const weight = CROSS_BORDER_WEIGHT * Math.max(0, 1 - distanceKm / CROSS_BORDER_MAX_DISTANCE_KM);
+  return Math.round((1 + (multiplier - 1) * weight) * 100) / 100;
+}
@@ -0,0 +1,148 @@
+// src/lib/utils/holiday-rules.ts
+import { Holiday } from '@/types/holidays';
+
+/**
+ * The date fields of a holiday definition:
+ * - fixed: `month` and `day` (e.g. 28 October)
+ * - variable: `easter_offset` days from Western Easter Sunday (Easter Monday is 1)
+ * - floating: `weekday` (0 = Sunday) of `month`, either the `week_of_month`th
+ *   one (-1 for the last) or, with `day` instead, the first one on or after
+ *   that day (e.g. the Saturday from 20 June)
+ */
+export type HolidayRule = Pick<
+  Holiday,
+  'date_type' | 'month' | 'day' | 'weekday' | 'week_of_month' | 'easter_offset' | 'year_start' | 'year_end'
+>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function formatDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function addDays(isoDate: string, days: number): string {
+  return formatDate(new Date(Date.parse(`${isoDate}T00:00:00Z`) + days * DAY_MS));
+}
+
+/**
+ * Western Easter Sunday (anonymous Gregorian computus), as YYYY-MM-DD
+ */
+export function calculateEasterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+
+  return formatDate(new Date(Date.UTC(year, month - 1, day)));
+}
+
+/**
+ * The nth `weekday` (0 = Sunday) of a month; n = -1 is the last one. Null when
+ * the month has no such day (e.g. a fifth Monday).
+ */
+export function nthWeekdayOfMonth(year: number, month: number, weekday: number, n: number): string | null {
+  if (n === 0 || weekday < 0 || weekday > 6) return null;
+
+  if (n < 0) {
+    const lastDay = new Date(Date.UTC(year, month, 0));
+    const back = (lastDay.getUTCDay() - weekday + 7) % 7;
+    const date = new Date(lastDay.getTime() - (back + (-n - 1) * 7) * DAY_MS);
+    return date.getUTCMonth() === month - 1 ? formatDate(date) : null;
+  }
+
+  const firstDay = new Date(Date.UTC(year, month - 1, 1));
+  const forward = (weekday - firstDay.getUTCDay() + 7) % 7;
+  const date = new Date(firstDay.getTime() + (forward + (n - 1) * 7) * DAY_MS);
+  return date.getUTCMonth() === month - 1 ? formatDate(date) : null;
+}
+
+function isValidDayOfMonth(year: number, month: number, day: number): boolean {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/**
+ * Date of a holiday in a year, as YYYY-MM-DD. Null when the holiday is not
+ * observed that year (outside year_start/year_end), the definition is
+ * incomplete, or the date does not exist that year (e.g. 29 February).
+ */
+export function evaluateHolidayRule(rule: HolidayRule, year: number): string | null {
+  if (rule.year_start && year < rule.year_start) return null;
+  if (rule.year_end && year > rule.year_end) return null;
+
+  switch (rule.date_type) {
+    case 'fixed':
+      if (!rule.month || !rule.day || !isValidDayOfMonth(year, rule.month, rule.day)) return null;
+      return formatDate(new Date(Date.UTC(year, rule.month - 1, rule.day)));
+
+    case 'variable':
+      if (rule.easter_offset === undefined || rule.easter_offset === null) return null;
+      return addDays(calculateEasterSunday(year), rule.easter_offset);
+
+    case 'floating': {
+      if (!rule.month || rule.weekday === undefined || rule.weekday === null) return null;
+      if (rule.week_of_month) {
+        return nthWeekdayOfMonth(year, rule.month, rule.weekday, rule.week_of_month);
+      }
+      if (rule.day && isValidDayOfMonth(year, rule.month, rule.day)) {
+        const anchor = new Date(Date.UTC(year, rule.month - 1, rule.day));
+        return addDays(formatDate(anchor), (rule.weekday - anchor.getUTCDay() + 7) % 7);
+      }
+      return null;
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Whether a rule has the fields its date type needs (see HolidayRule)
+ */
+export function isCompleteHolidayRule(rule: HolidayRule): boolean {
+  switch (rule.date_type) {
+    case 'fixed':
+      return !!rule.month && !!rule.day;
+    case 'variable':
+      return rule.easter_offset !== undefined && rule.easter_offset !== null;
+    case 'floating':
+      return !!rule.month && rule.weekday !== undefined && rule.weekday !== null && (!!rule.week_of_month || !!rule.day);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Dates of a holiday between two dates (inclusive, YYYY-MM-DD)
+ */
+export function getHolidayDatesInRange(rule: HolidayRule, startDate: string, endDate: string): string[] {
+  const dates: string[] = [];
+  for (const year of yearsInRange(startDate, endDate)) {
+    const date = evaluateHolidayRule(rule, year);
+    if (date && date >= startDate && date <= endDate) {
+      dates.push(date);
+    }
+  }
+  return dates;
+}
+
+/**
+ * Calendar years a date range touches
+ */
+export function yearsInRange(startDate: string, endDate: string): number[] {
+  const years: number[] = [];
+  for (let year = Number(startDate.slice(0, 4)); year <= Number(endDate.slice(0, 4)); year++) {
+    years.push(year);
+  }
+  return years;
+}
@@ -0,0 +1,374 @@
+// src/lib/utils/icalendar.ts
+
+/**
+ * Minimal iCalendar (RFC 5545) writer used for calendar exports and feeds
+ */
+
+export interface ICalEvent {
+  uid: string;
+  summary: string;
+  /** YYYY-MM-DD for all-day entries, ISO timestamp otherwise */
+  start: string;
+  /** Inclusive end date for all-day entries, ISO timestamp otherwise */
+  end?: string;
+  allDay: boolean;
+  description?: string;
+  location?: string;
+  url?: string;
+  categories?: string[];
+  status?: 'CONFIRMED' | 'TENTATIVE';
+  /** Free entries do not block time in the subscriber's calendar */
+  transparent?: boolean;
+  lastModified?: string;
+}
+
+export interface ICalCalendar {
+  name: string;
+  description?: string;
+  /** Suggested refresh interval for subscribed feeds */
+  refreshIntervalHours?: number;
+  events: ICalEvent[];
+}
+
+const PRODUCT_ID = '-//Oslavu//Event Conflict Analysis//EN';
+
+// Timed events without an end are shown as two-hour blocks
+const DEFAULT_EVENT_DURATION = 'PT2H';
+
+/**
+ * Escape text values (commas, semicolons, backslashes and newlines)
+ */
+export function escapeICalText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+/**
+ * URL property value. URL is a URI value, not TEXT, so it is written unescaped;
+ * only http(s) links are kept and parsing strips CR, LF and tabs so the value
+ * stays on its line. Returns null for anything that is not a usable link.
+ */
+function formatICalUri(value: string): string | null {
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * UTF-8 length of a single character
+ */
+function utf8Length(char: string): number {
+  const codePoint = char.codePointAt(0) || 0;
+  if (codePoint < 0x80) return 1;
+  if (codePoint < 0x800) return 2;
+  if (codePoint < 0x10000) return 3;
+  return 4;
+}
+
+/**
+ * Fold content lines longer than 75 octets, as required by RFC 5545.
+ * Multi-byte characters are never split.
+ */
+export function foldICalLine(line: string): string {
+  const chars = Array.from(line);
+  if (chars.reduce((total, char) => total + utf8Length(char), 0) <= 75) {
+    return line;
+  }
+
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  // Continuation lines start with a space, which counts towards the limit
+  let limit = 75;
+
+  for (const char of chars) {
+    const charBytes = utf8Length(char);
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+      limit = 74;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+/**
+ * Format a date as an iCalendar DATE value (YYYYMMDD)
+ */
+export function formatICalDate(date: string): string {
+  return date.split('T')[0].replace(/-/g, '');
+}
+
+/**
+ * Format a timestamp as a UTC iCalendar DATE-TIME value (YYYYMMDDTHHMMSSZ)
+ */
+export function formatICalDateTime(date: string | Date): string {
+  return new Date(date).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Day after a YYYY-MM-DD date - all-day DTEND values are exclusive
+ */
+function nextDay(date: string): string {
+  const next = new Date(`${date.split('T')[0]}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().split('T')[0];
+}
+
+function buildEvent(event: ICalEvent, timestamp: string): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${timestamp}`
+  ];
+
+  if (event.allDay) {
+    lines.push(`DTSTART;VALUE=DATE:${formatICalDate(event.start)}`);
+    lines.push(`DTEND;VALUE=DATE:${formatICalDate(nextDay(event.end || event.start))}`);
+  } else {
+    lines.push(`DTSTART:${formatICalDateTime(event.start)}`);
+    if (event.end && new Date(event.end).getTime() > new Date(event.start).getTime()) {
+      lines.push(`DTEND:${formatICalDateTime(event.end)}`);
+    } else {
+      lines.push(`DURATION:${DEFAULT_EVENT_DURATION}`);
+    }
+  }
+
+  lines.push(`SUMMARY:${escapeICalText(event.summary)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeICalText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeICalText(event.location)}`);
+  const url = event.url ? formatICalUri(event.url) : null;
+  if (url) lines.push(`URL:${url}`);
+  if (event.categories && event.categories.length > 0) {
+    lines.push(`CATEGORIES:${event.categories.map(escapeICalText).join(',')}`);
+  }
+  if (event.status) lines.push(`STATUS:${event.status}`);
+  lines.push(`TRANSP:${event.transparent ? 'TRANSPARENT' : 'OPAQUE'}`);
+  if (event.lastModified) lines.push(`LAST-MODIFIED:${formatICalDateTime(event.lastModified)}`);
+  lines.push('END:VEVENT');
+
+  return lines;
+}
+
+/**
+ * Build a complete VCALENDAR document with CRLF line endings
+ */
+export function buildICalendar(calendar: ICalCalendar, now: Date = new Date()): string {
+  const timestamp = formatICalDateTime(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeICalText(calendar.name)}`
+  ];
+
+  if (calendar.description) {
+    lines.push(`X-WR-CALDESC:${escapeICalText(calendar.description)}`);
+  }
+  if (calendar.refreshIntervalHours) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:PT${calendar.refreshIntervalHours}H`);
+    lines.push(`X-PUBLISHED-TTL:PT${calendar.refreshIntervalHours}H`);
+  }
+
+  for (const event of calendar.events) {
+    lines.push(...buildEvent(event, timestamp));
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldICalLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * A date or date-time property value as written in the feed
+ */
+export interface ICalDateValue {
+  /** Date part as YYYY-MM-DD */
+  date: string;
+  /** Time part as HH:MM:SS, absent for all-day values */
+  time?: string;
+  /** True when the value ends in Z */
+  utc: boolean;
+  tzid?: string;
+}
+
+/**
+ * VEVENT as read from an imported feed
+ */
+export interface ParsedICalEvent {
+  uid?: string;
+  summary?: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  categories: string[];
+  status?: string;
+  start?: ICalDateValue;
+  end?: ICalDateValue;
+  rrule?: string;
+}
+
+/**
+ * Reverse of escapeICalText
+ */
+export function unescapeICalText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char
+  );
+}
+
+/**
+ * Split a comma-separated list value, ignoring escaped commas
+ */
+function splitICalList(value: string): string[] {
+  const items: string[] = [];
+  let current = '';
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '\\' && i + 1 < value.length) {
+      current += value[i] + value[i + 1];
+      i++;
+    } else if (value[i] === ',') {
+      items.push(current);
+      current = '';
+    } else {
+      current += value[i];
+    }
+  }
+  items.push(current);
+  return items.map(item => unescapeICalText(item).trim()).filter(Boolean);
+}
+
+/**
+ * Parse a DATE or DATE-TIME value such as 20250410, 20250410T190000 or 20250410T190000Z
+ */
+export function parseICalDateValue(value: string, params: Record<string, string> = {}): ICalDateValue | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  return {
+    date: `${year}-${month}-${day}`,
+    time: hours ? `${hours}:${minutes}:${seconds}` : undefined,
+    utc: !!utc,
+    tzid: params.TZID
+  };
+}
+
+/**
+ * Split a content line into name, parameters and value. Parameter values
+ * may be quoted and contain colons.
+ */
+function parseContentLine(line: string): { name: string; params: Record<string, string>; value: string } | null {
+  let inQuotes = false;
+  let separator = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      separator = i;
+      break;
+    }
+  }
+  if (separator === -1) {
+    return null;
+  }
+
+  const [name, ...paramParts] = line.slice(0, separator).split(';');
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const [key, ...rest] = part.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(separator + 1) };
+}
+
+/**
+ * Read the VEVENT components of an iCalendar document. Recurrence rules are
+ * returned as-is and not expanded.
+ */
+export function parseICalendar(content: string): ParsedICalEvent[] {
+  // Unfold continuation lines before splitting
+  const lines = content.replace(/^\uFEFF/, '').replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: ParsedICalEvent[] = [];
+  let current: ParsedICalEvent | null = null;
+  // Nested components (VALARM) must not overwrite event properties
+  let nestedDepth = 0;
+
+  for (const line of lines) {
+    const parsed = parseContentLine(line);
+    if (!parsed) continue;
+    const { name, params, value } = parsed;
+
+    if (name === 'BEGIN') {
+      if (value.toUpperCase() === 'VEVENT') {
+        current = { categories: [] };
+      } else if (current) {
+        nestedDepth++;
+      }
+      continue;
+    }
+
+    if (name === 'END') {
+      if (value.toUpperCase() === 'VEVENT' && current) {
+        events.push(current);
+        current = null;
+        nestedDepth = 0;
+      } else if (current && nestedDepth > 0) {
+        nestedDepth--;
+      }
+      continue;
+    }
+
+    if (!current || nestedDepth > 0) continue;
+
+    switch (name) {
+      case 'UID':
+        current.uid = value.trim();
+        break;
+      case 'SUMMARY':
+        current.summary = unescapeICalText(value).trim();
+        break;
+      case 'DESCRIPTION':
+        current.description = unescapeICalText(value).trim();
+        break;
+      case 'LOCATION':
+        current.location = unescapeICalText(value).trim();
+        break;
+      case 'URL':
+        current.url = value.trim();
+        break;
+      case 'CATEGORIES':
+        current.categories.push(...splitICalList(value));
+        break;
+      case 'STATUS':
+        current.status = value.trim().toUpperCase();
+        break;
+      case 'DTSTART':
+        current.start = parseICalDateValue(value, params) || undefined;
+        break;
+      case 'DTEND':
+        current.end = parseICalDateValue(value, params) || undefined;
+        break;
+      case 'RRULE':
+        current.rrule = value.trim();
+        break;
+    }
+  }
+
+  return events;
+}
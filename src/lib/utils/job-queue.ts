@@ -0,0 +1,65 @@
+// src/lib/utils/job-queue.ts
+import type { AnalysisJobStep, JobStatus } from '@/types/jobs';
+
+export const JOB_MAX_ATTEMPTS = 3;
+export const JOB_LEASE_SECONDS = 10 * 60; // A running job whose worker vanished is picked up again after this
+
+const RETRY_BASE_DELAY_MS = 30 * 1000; // 30 seconds
+const RETRY_MAX_DELAY_MS = 10 * 60 * 1000; // 10 minutes
+
+const ANALYSIS_STEP_PROGRESS: Record<AnalysisJobStep, number> = {
+  'queued': 0,
+  'fetching-events': 10,
+  'analyzing-conflicts': 45,
+  'generating-recommendations': 75,
+  'saving': 90,
+  'complete': 100
+};
+
+/**
+ * Thrown from a progress report when cancellation of the job was requested,
+ * to stop the pipeline at the next step boundary
+ */
+export class JobCancelledError extends Error {
+  constructor(jobId: string) {
+    super(`Job ${jobId} was cancelled`);
+    this.name = 'JobCancelledError';
+  }
+}
+
+/**
+ * Thrown from a progress report when the job is no longer held by this attempt
+ * (its lease expired and another worker claimed it, or it was settled), so the
+ * stale attempt stops without saving or recording anything
+ */
+export class JobLeaseLostError extends Error {
+  constructor(jobId: string, attempt: number) {
+    super(`Job ${jobId} attempt ${attempt} lost its lease`);
+    this.name = 'JobLeaseLostError';
+  }
+}
+
+/**
+ * Delay before the next attempt after `attempts` failed ones;
+ * null when the job has no attempts left
+ */
+export function getJobRetryDelayMs(attempts: number, maxAttempts: number = JOB_MAX_ATTEMPTS): number | null {
+  if (attempts >= maxAttempts) {
+    return null;
+  }
+  return Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1)), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Overall progress (0-100) when an analysis job enters a step
+ */
+export function getAnalysisStepProgress(step: AnalysisJobStep): number {
+  return ANALYSIS_STEP_PROGRESS[step];
+}
+
+/**
+ * Whether a job has finished for good
+ */
+export function isTerminalJobStatus(status: JobStatus): boolean {
+  return status === 'succeeded' || status === 'failed' || status === 'cancelled';
+}
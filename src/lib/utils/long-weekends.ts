@@ -0,0 +1,98 @@
+// src/lib/utils/long-weekends.ts
+import { LongWeekend } from '@/types/holidays';
+
+// Holidays are looked up this many days either side of a date, enough to see
+// the whole long weekend around it
+export const LONG_WEEKEND_SEARCH_DAYS = 7;
+
+function shiftDate(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().split('T')[0];
+}
+
+/**
+ * Dates to fetch holidays for when checking the long weekend around a date
+ */
+export function getLongWeekendSearchRange(date: string): { start_date: string; end_date: string } {
+  return {
+    start_date: shiftDate(date, -LONG_WEEKEND_SEARCH_DAYS),
+    end_date: shiftDate(date, LONG_WEEKEND_SEARCH_DAYS)
+  };
+}
+
+export function isWeekend(date: string): boolean {
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return weekday === 0 || weekday === 6;
+}
+
+/**
+ * Working days people take off to join a holiday to a weekend or another
+ * holiday: the Monday before a Tuesday holiday, the Friday after a Thursday
+ * one, or a single working day between two holidays
+ */
+export function findBridgeDays(holidayDates: string[]): string[] {
+  const holidays = new Set(holidayDates);
+  const isDayOff = (date: string) => holidays.has(date) || isWeekend(date);
+  const bridgeDays = new Set<string>();
+
+  for (const holiday of holidays) {
+    for (const candidate of [shiftDate(holiday, -1), shiftDate(holiday, 1)]) {
+      if (isDayOff(candidate)) continue;
+      if (isDayOff(shiftDate(candidate, -1)) && isDayOff(shiftDate(candidate, 1))) {
+        bridgeDays.add(candidate);
+      }
+    }
+  }
+
+  return Array.from(bridgeDays).sort();
+}
+
+/**
+ * Long weekends formed by public holidays: runs of at least three days off
+ * (holidays, weekends and bridge days) that include a holiday and a weekend day
+ */
+export function findLongWeekends(holidayDates: string[]): LongWeekend[] {
+  const holidays = new Set(holidayDates);
+  const bridgeDays = new Set(findBridgeDays(holidayDates));
+  const isDayOff = (date: string) => holidays.has(date) || bridgeDays.has(date) || isWeekend(date);
+  const longWeekends = new Map<string, LongWeekend>();
+
+  for (const holiday of Array.from(holidays).sort()) {
+    let start = holiday;
+    while (isDayOff(shiftDate(start, -1))) start = shiftDate(start, -1);
+    if (longWeekends.has(start)) continue;
+
+    const dates = [start];
+    while (isDayOff(shiftDate(dates[dates.length - 1], 1))) dates.push(shiftDate(dates[dates.length - 1], 1));
+
+    if (dates.length >= 3 && dates.some(isWeekend)) {
+      longWeekends.set(start, {
+        start_date: start,
+        end_date: dates[dates.length - 1],
+        days: dates.length,
+        holiday_dates: dates.filter(date => holidays.has(date)),
+        bridge_days: dates.filter(date => bridgeDays.has(date))
+      });
+    }
+  }
+
+  return Array.from(longWeekends.values());
+}
+
+/**
+ * The long weekend a date belongs to, if any
+ */
+export function findLongWeekendOnDate(longWeekends: LongWeekend[], date: string): LongWeekend | null {
+  return longWeekends.find(longWeekend => date >= longWeekend.start_date && date <= longWeekend.end_date) || null;
+}
+
+/**
+ * e.g. "Long weekend 2026-10-24 to 2026-10-28 (5 days, bridge day 2026-10-27)"
+ */
+export function describeLongWeekend(longWeekend: LongWeekend): string {
+  const bridges = longWeekend.bridge_days.length > 0
+    ? `, bridge day${longWeekend.bridge_days.length > 1 ? 's' : ''} ${longWeekend.bridge_days.join(', ')}`
+    : '';
+  return `Long weekend ${longWeekend.start_date} to ${longWeekend.end_date} (${longWeekend.days} days${bridges})`;
+}
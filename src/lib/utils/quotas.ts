@@ -0,0 +1,50 @@
+// src/lib/utils/quotas.ts
+import { usageMeteringService } from '@/lib/services/usage-metering';
+import type { AuthContext } from '@/types/organisations';
+import type { UsageMeter } from '@/types/usage';
+
+/**
+ * Check the caller's monthly quota before doing metered work.
+ * Returns a 429 response when the quota is exhausted, null to continue.
+ * Anonymous callers and the operator key are not subject to plan quotas,
+ * and a failing usage lookup lets the request through.
+ */
+export async function enforceQuota(
+  auth: AuthContext | null,
+  meter: UsageMeter,
+  quantity: number = 1
+): Promise<Response | null> {
+  if (!auth || auth.isOperator || !auth.organisationId) {
+    return null;
+  }
+
+  try {
+    const check = await usageMeteringService.checkQuota(auth.organisationId, meter, quantity);
+    if (check.allowed) {
+      return null;
+    }
+
+    const retryAfter = Math.max(0, Math.ceil((new Date(check.resetsAt).getTime() - Date.now()) / 1000));
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Quota exceeded',
+        code: 'QUOTA_EXCEEDED',
+        message: `Monthly ${meter} quota of ${check.limit} reached (${check.used} used). The quota resets at ${check.resetsAt}.`,
+        details: check,
+        timestamp: new Date().toISOString()
+      }),
+      {
+        status: 429,
+        headers: {
+          'Content-Type': 'application/json',
+          'Retry-After': retryAfter.toString()
+        }
+      }
+    );
+  } catch (error) {
+    console.error(`Quota check for ${meter} failed, allowing request:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Rate Limit Stores
+ * Sliding-window hit counters behind withRateLimit and the event provider
+ * budgets. Kept free of database, request and auth access so client bundles can
+ * import it; the Postgres store lives in rate-limiting.ts.
+ */
+
+export interface RateLimitWindow {
+  allowed: boolean;
+  count: number; // Hits in the window, including this one when allowed
+  resetAt: number; // Epoch ms when the oldest hit leaves the window
+}
+
+export interface RateLimitResult {
+  success: boolean;
+  limit: number;
+  remaining: number;
+  reset: number; // Unix timestamp when the oldest counted request leaves the window
+  retryAfter?: number; // Seconds until retry is allowed
+}
+
+export interface RateLimitStore {
+  /**
+   * Record a hit in `key`'s sliding window unless `limit` hits are already in it.
+   * Rejected hits are not recorded.
+   */
+  consume(key: string, limit: number, windowMs: number): Promise<RateLimitWindow>;
+}
+
+/**
+ * Per-instance store. Counters reset on restart and are not shared between
+ * serverless instances, so use it for development and single-instance deployments.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, { hits: number[]; windowMs: number }>();
+  private lastSweep = 0;
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  async consume(key: string, limit: number, windowMs: number): Promise<RateLimitWindow> {
+    const now = this.now();
+    this.sweep(now);
+
+    const windowStart = now - windowMs;
+    const hits = (this.windows.get(key)?.hits || []).filter(hit => hit > windowStart);
+
+    const allowed = hits.length < limit;
+    if (allowed) {
+      hits.push(now);
+    }
+    this.windows.set(key, { hits, windowMs });
+
+    return {
+      allowed,
+      count: hits.length,
+      resetAt: (hits[0] ?? now) + windowMs
+    };
+  }
+
+  /**
+   * Drop keys without hits in their window, at most once a minute
+   */
+  private sweep(now: number): void {
+    if (now - this.lastSweep < 60000) return;
+    this.lastSweep = now;
+
+    for (const [key, { hits, windowMs }] of this.windows) {
+      if (hits.length === 0 || hits[hits.length - 1] <= now - windowMs) {
+        this.windows.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Rate limit check
+ * @param bucket - Unique counter key (e.g. policy and IP address)
+ * @param limit - Maximum requests per window
+ * @param windowMs - Sliding window in milliseconds
+ * @param store - Store the counter is kept in
+ * @returns Rate limit result
+ */
+export async function checkRateLimit(
+  bucket: string,
+  limit: number,
+  windowMs: number,
+  store: RateLimitStore
+): Promise<RateLimitResult> {
+  const now = Date.now();
+  const window = await store.consume(bucket, limit, windowMs);
+
+  return {
+    success: window.allowed,
+    limit,
+    remaining: Math.max(0, limit - window.count),
+    reset: Math.ceil(window.resetAt / 1000),
+    retryAfter: window.allowed ? undefined : Math.max(1, Math.ceil((window.resetAt - now) / 1000)),
+  };
+}
@@ -4,83 +4,69 @@
  */
 
 import type { NextRequest } from 'next/server';
-
-interface RateLimitStore {
-  [key: string]: {
-    count: number;
-    resetTime: number;
-  };
+import { serverDatabaseService } from '@/lib/supabase';
+import { authenticateRequest } from '@/lib/utils/auth';
+import {
+  checkRateLimit,
+  MemoryRateLimitStore,
+  RateLimitResult,
+  RateLimitStore,
+  RateLimitWindow
+} from '@/lib/utils/rate-limit-store';
+
+export interface RateLimitPolicy {
+  name: string; // Counters are kept per policy, so routes do not share a budget
+  windowMs: number; // Sliding window in milliseconds
+  maxRequests: number; // Maximum requests per window and client IP
+  keyMaxRequests?: number; // Maximum per window and API key for requests with a valid key (defaults to maxRequests)
 }
 
-// In-memory store (for single-instance deployments)
-// For distributed deployments, use Redis or similar
-const rateLimitStore: RateLimitStore = {};
-
-// Clean up old entries periodically
-setInterval(() => {
-  const now = Date.now();
-  Object.keys(rateLimitStore).forEach(key => {
-    if (rateLimitStore[key].resetTime < now) {
-      delete rateLimitStore[key];
+/**
+ * Store shared by every instance, backed by the consume_rate_limit() function
+ * in Postgres. Falls back to a per-instance store while the database is unreachable.
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  private db = serverDatabaseService;
+  private fallback = new MemoryRateLimitStore();
+
+  async consume(key: string, limit: number, windowMs: number): Promise<RateLimitWindow> {
+    try {
+      const { data, error } = await this.db.getClient()
+        .rpc('consume_rate_limit', {
+          p_key: key,
+          p_limit: limit,
+          p_window_ms: windowMs
+        });
+
+      if (error) {
+        throw error;
+      }
+
+      const row = Array.isArray(data) ? data[0] : data;
+      return {
+        allowed: row.allowed,
+        count: row.hit_count,
+        resetAt: new Date(row.reset_at).getTime()
+      };
+    } catch (error) {
+      console.error('Rate limit store unavailable, using in-memory counters:', error);
+      return this.fallback.consume(key, limit, windowMs);
     }
-  });
-}, 60000); // Clean up every minute
-
-export interface RateLimitOptions {
-  windowMs: number; // Time window in milliseconds
-  maxRequests: number; // Maximum requests per window
-  identifier?: string; // Custom identifier (defaults to IP)
-  skipSuccessfulRequests?: boolean; // Don't count successful requests
-  skipFailedRequests?: boolean; // Don't count failed requests
+  }
 }
 
-export interface RateLimitResult {
-  success: boolean;
-  limit: number;
-  remaining: number;
-  reset: number; // Unix timestamp when limit resets
-  retryAfter?: number; // Seconds until retry is allowed
-}
+let sharedStore: RateLimitStore | null = null;
 
 /**
- * Rate limit check
- * @param identifier - Unique identifier (e.g., IP address, user ID)
- * @param options - Rate limit options
- * @returns Rate limit result
+ * Store selected by RATE_LIMIT_STORE (`memory` or `postgres`, default `memory`)
  */
-export function checkRateLimit(
-  identifier: string,
-  options: RateLimitOptions
-): RateLimitResult {
-  const { windowMs, maxRequests } = options;
-  const now = Date.now();
-  const key = identifier;
-
-  // Get or create rate limit entry
-  let entry = rateLimitStore[key];
-
-  if (!entry || entry.resetTime < now) {
-    // Create new entry or reset expired entry
-    entry = {
-      count: 0,
-      resetTime: now + windowMs,
-    };
-    rateLimitStore[key] = entry;
+export function getRateLimitStore(): RateLimitStore {
+  if (!sharedStore) {
+    sharedStore = process.env.RATE_LIMIT_STORE === 'postgres'
+      ? new PostgresRateLimitStore()
+      : new MemoryRateLimitStore();
   }
-
-  // Increment count
-  entry.count += 1;
-
-  const remaining = Math.max(0, maxRequests - entry.count);
-  const success = entry.count <= maxRequests;
-
-  return {
-    success,
-    limit: maxRequests,
-    remaining,
-    reset: Math.floor(entry.resetTime / 1000),
-    retryAfter: success ? undefined : Math.ceil((entry.resetTime - now) / 1000),
-  };
+  return sharedStore;
 }
 
 /**
@@ -106,15 +92,52 @@ export function getClientIdentifier(request: Request | NextRequest): string {
 }
 
 /**
- * Rate limit middleware for Next.js API routes
- * Supports both Request and NextRequest types
+ * Counter a request is charged to: its API key when a valid one is presented,
+ * otherwise the client IP
  */
-export function withRateLimit(
-  options: RateLimitOptions
+async function resolveRateLimitSubject(
+  request: NextRequest,
+  policy: RateLimitPolicy
+): Promise<{ subject: string; limit: number }> {
+  try {
+    const context = await authenticateRequest(request);
+    if (context) {
+      return {
+        subject: context.isOperator ? 'key:operator' : `key:${context.apiKeyId}`,
+        limit: policy.keyMaxRequests ?? policy.maxRequests,
+      };
+    }
+  } catch {
+    // Key could not be verified - the route handler reports it
+  }
+
+  return { subject: `ip:${getClientIdentifier(request)}`, limit: policy.maxRequests };
+}
+
+/**
+ * Standard RateLimit-* headers (IETF draft) for a result
+ */
+export function getRateLimitHeaders(result: RateLimitResult, policy: RateLimitPolicy): Record<string, string> {
+  return {
+    'RateLimit-Limit': result.limit.toString(),
+    'RateLimit-Remaining': result.remaining.toString(),
+    'RateLimit-Reset': Math.max(0, result.reset - Math.floor(Date.now() / 1000)).toString(),
+    'RateLimit-Policy': `${result.limit};w=${Math.ceil(policy.windowMs / 1000)}`,
+  };
+}
+
+/**
+ * Rate limit middleware for Next.js API routes. Wraps a route handler, answers
+ * 429 when the caller's window is full and adds RateLimit-* headers to every response.
+ */
+export function withRateLimit<C>(
+  policy: RateLimitPolicy,
+  handler: (request: NextRequest, context: C) => Promise<Response>
 ) {
-  return async (request: Request | NextRequest): Promise<Response | null> => {
-    const identifier = options.identifier || getClientIdentifier(request);
-    const result = checkRateLimit(identifier, options);
+  return async (request: NextRequest, context: C): Promise<Response> => {
+    const { subject, limit } = await resolveRateLimitSubject(request, policy);
+    const result = await checkRateLimit(`${policy.name}:${subject}`, limit, policy.windowMs, getRateLimitStore());
+    const headers = getRateLimitHeaders(result, policy);
 
     if (!result.success) {
       return new Response(
@@ -127,16 +150,18 @@ export function withRateLimit(
           status: 429,
           headers: {
             'Content-Type': 'application/json',
-            'X-RateLimit-Limit': result.limit.toString(),
-            'X-RateLimit-Remaining': result.remaining.toString(),
-            'X-RateLimit-Reset': result.reset.toString(),
+            ...headers,
             'Retry-After': result.retryAfter?.toString() || '0',
           },
         }
       );
     }
 
-    return null; // Continue with request
+    const response = await handler(request, context);
+    for (const [name, value] of Object.entries(headers)) {
+      response.headers.set(name, value);
+    }
+    return response;
   };
 }
 
@@ -166,3 +191,18 @@ export const rateLimitConfigs = {
   },
 };
 
+/**
+ * Per-route policies. Requests with an organisation key get a larger budget
+ * counted per key, shared by all of the key's clients.
+ */
+export const rateLimitPolicies = {
+  analyze: { name: 'analyze', ...rateLimitConfigs.strict, keyMaxRequests: 30 },
+  // One comparison runs several analyses
+  compare: { name: 'compare', ...rateLimitConfigs.strict },
+  series: { name: 'series', ...rateLimitConfigs.strict },
+  rerun: { name: 'rerun', ...rateLimitConfigs.strict, keyMaxRequests: 30 },
+  perplexityResearch: { name: 'perplexity-research', ...rateLimitConfigs.strict },
+  conflictAnalysis: { name: 'conflict-analysis', ...rateLimitConfigs.standard, keyMaxRequests: 120 },
+  // Creating or checking a watchlist runs a conflict analysis
+  watchlists: { name: 'watchlists', ...rateLimitConfigs.strict, keyMaxRequests: 30 },
+} satisfies Record<string, RateLimitPolicy>;
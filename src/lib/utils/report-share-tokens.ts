@@ -0,0 +1,53 @@
+// src/lib/utils/report-share-tokens.ts
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export const DEFAULT_REPORT_SHARE_HOURS = 7 * 24;
+export const MAX_REPORT_SHARE_HOURS = 30 * 24;
+
+/**
+ * Secret report share tokens are signed with; null when sharing is not configured
+ */
+export function getReportShareSecret(): string | null {
+  return process.env.REPORT_SHARE_SECRET || null;
+}
+
+function signReportShare(analysisId: string, expiresAt: number, secret: string): string {
+  return createHmac('sha256', secret)
+    .update(`report.${analysisId}.${expiresAt}`)
+    .digest('hex');
+}
+
+/**
+ * Create a token that opens the report of one analysis until it expires.
+ * Returns `<expiry unix seconds>.<hex hmac-sha256>`.
+ */
+export function createReportShareToken(analysisId: string, expiresAt: Date, secret: string): string {
+  const expiry = Math.floor(expiresAt.getTime() / 1000);
+  return `${expiry}.${signReportShare(analysisId, expiry, secret)}`;
+}
+
+/**
+ * Verify a token produced by createReportShareToken for this analysis.
+ * Expired tokens and tokens of other analyses are rejected.
+ */
+export function verifyReportShareToken(
+  analysisId: string,
+  token: string,
+  secret: string,
+  now: Date = new Date()
+): boolean {
+  const match = token.match(/^(\d+)\.([0-9a-f]{64})$/);
+  if (!match) {
+    return false;
+  }
+
+  const expiry = parseInt(match[1], 10);
+  if (expiry * 1000 <= now.getTime()) {
+    return false;
+  }
+
+  const expectedBuffer = Buffer.from(signReportShare(analysisId, expiry, secret), 'hex');
+  const providedBuffer = Buffer.from(match[2], 'hex');
+
+  return expectedBuffer.length === providedBuffer.length && timingSafeEqual(expectedBuffer, providedBuffer);
+}
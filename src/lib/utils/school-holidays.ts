@@ -0,0 +1,48 @@
+// src/lib/utils/school-holidays.ts
+import { SchoolHoliday } from '@/types/holidays';
+
+// Cities whose school district (okres) is not named after the city; keyed by
+// lowercase name without diacritics. Prague's districts have separate spring breaks.
+const CITY_DISTRICTS: Record<string, string[]> = {
+  'praha': ['Praha 1-5', 'Praha 6-10'],
+  'prague': ['Praha 1-5', 'Praha 6-10'],
+  'brno': ['Brno-město'],
+  'ostrava': ['Ostrava-město'],
+  'plzen': ['Plzeň-město'],
+  'pilsen': ['Plzeň-město'],
+};
+
+function normalize(name: string): string {
+  return name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+}
+
+/**
+ * School districts (okresy) whose breaks apply in a city. Other cities are
+ * taken to be their district's seat (e.g. Kolín, Jihlava).
+ */
+export function resolveSchoolDistricts(city: string): string[] {
+  return CITY_DISTRICTS[normalize(city)] || [city.trim()];
+}
+
+/**
+ * School holidays that apply in a city: nationwide breaks plus the breaks of
+ * the city's districts
+ */
+export function filterSchoolHolidaysForCity(holidays: SchoolHoliday[], city: string): SchoolHoliday[] {
+  const districts = new Set(resolveSchoolDistricts(city).map(normalize));
+  return holidays.filter(holiday => !holiday.district || districts.has(normalize(holiday.district)));
+}
+
+/**
+ * School holidays covering a date (YYYY-MM-DD)
+ */
+export function getSchoolHolidaysOnDate(holidays: SchoolHoliday[], date: string): SchoolHoliday[] {
+  return holidays.filter(holiday => holiday.start_date <= date && date <= holiday.end_date);
+}
+
+/**
+ * e.g. "Spring break (Brno-město)" or "Summer holidays"
+ */
+export function formatSchoolHoliday(holiday: SchoolHoliday): string {
+  return holiday.district ? `${holiday.name} (${holiday.district})` : holiday.name;
+}
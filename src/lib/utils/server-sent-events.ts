@@ -0,0 +1,20 @@
+// src/lib/utils/server-sent-events.ts
+
+/**
+ * Encode one server-sent event. `data` is sent as JSON on a single line.
+ */
+export function formatServerSentEvent(message: { id?: string | number; event?: string; data: unknown }): string {
+  let frame = '';
+  if (message.id !== undefined) {
+    frame += `id: ${message.id}\n`;
+  }
+  if (message.event) {
+    frame += `event: ${message.event}\n`;
+  }
+  return `${frame}data: ${JSON.stringify(message.data)}\n\n`;
+}
+
+/**
+ * Comment line that keeps idle connections open through proxies
+ */
+export const SERVER_SENT_EVENT_KEEPALIVE = ': keep-alive\n\n';
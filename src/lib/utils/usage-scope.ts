@@ -0,0 +1,31 @@
+// src/lib/utils/usage-scope.ts
+import type { UsageCounts, UsageMeter } from '@/types/usage';
+
+/**
+ * Counts collected while one metered request runs
+ */
+export interface UsageScope {
+  counts: UsageCounts;
+}
+
+let resolveActiveScope: () => UsageScope | undefined = () => undefined;
+
+/**
+ * Install the lookup of the active scope. The server-side metering service
+ * registers an AsyncLocalStorage-backed resolver; this module stays free of
+ * Node-only imports because the analysis services are also bundled for the browser.
+ */
+export function setUsageScopeResolver(resolver: () => UsageScope | undefined): void {
+  resolveActiveScope = resolver;
+}
+
+/**
+ * Count a billable external call against the request that caused it.
+ * Does nothing outside a metered request (cron jobs, the browser).
+ */
+export function countUsage(meter: UsageMeter, quantity: number = 1): void {
+  const scope = resolveActiveScope();
+  if (scope) {
+    scope.counts[meter] = (scope.counts[meter] || 0) + quantity;
+  }
+}
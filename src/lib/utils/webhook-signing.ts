@@ -0,0 +1,79 @@
+// src/lib/utils/webhook-signing.ts
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Oslavu-Signature';
+export const WEBHOOK_EVENT_HEADER = 'X-Oslavu-Event';
+export const WEBHOOK_DELIVERY_HEADER = 'X-Oslavu-Delivery';
+
+export const WEBHOOK_MAX_ATTEMPTS = 6;
+
+const RETRY_BASE_DELAY_MS = 60 * 1000; // 1 minute
+const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000; // 6 hours
+const DEFAULT_TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * Generate a new webhook signing secret
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Sign a webhook body. The signature covers the timestamp and the exact body string,
+ * so receivers must verify against the raw request body.
+ * Returns the header value in the form `t=<unix seconds>,v1=<hex hmac-sha256>`.
+ */
+export function signWebhookPayload(body: string, secret: string, timestamp: number = Math.floor(Date.now() / 1000)): string {
+  const signature = createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Verify a signature header produced by signWebhookPayload.
+ * Rejects signatures older than the tolerance to prevent replays.
+ */
+export function verifyWebhookSignature(
+  body: string,
+  header: string,
+  secret: string,
+  toleranceSeconds: number = DEFAULT_TOLERANCE_SECONDS,
+  now: number = Math.floor(Date.now() / 1000)
+): boolean {
+  const parts = Object.fromEntries(
+    header.split(',').map(part => {
+      const [key, ...value] = part.trim().split('=');
+      return [key, value.join('=')];
+    })
+  );
+
+  const timestamp = parseInt(parts.t, 10);
+  if (!parts.v1 || isNaN(timestamp) || Math.abs(now - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = signWebhookPayload(body, secret, timestamp).split('v1=')[1];
+  const expectedBuffer = Buffer.from(expected, 'hex');
+  const providedBuffer = Buffer.from(parts.v1, 'hex');
+
+  return expectedBuffer.length === providedBuffer.length && timingSafeEqual(expectedBuffer, providedBuffer);
+}
+
+/**
+ * Delay before the next attempt after `attempts` failed attempts (exponential backoff: 1m, 4m, 16m, ...).
+ * Returns null once the maximum number of attempts is reached.
+ */
+export function getWebhookRetryDelayMs(attempts: number): number | null {
+  if (attempts >= WEBHOOK_MAX_ATTEMPTS) {
+    return null;
+  }
+  return Math.min(RETRY_BASE_DELAY_MS * Math.pow(4, Math.max(0, attempts - 1)), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Show only the end of a secret, e.g. `whsec_…9f3a`
+ */
+export function maskWebhookSecret(secret: string): string {
+  return secret.length <= 10 ? '••••' : `${secret.slice(0, 6)}…${secret.slice(-4)}`;
+}
@@ -0,0 +1,99 @@
+// src/lib/utils/webhook-urls.ts
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+
+export const PUBLIC_WEBHOOK_URL_MESSAGE = 'Webhook URL must be an https URL to a public host';
+
+// Hostnames that never resolve to a public address
+const INTERNAL_HOSTNAME_SUFFIXES = ['.localhost', '.local', '.internal', '.lan', '.home.arpa'];
+
+function parseIPv4(address: string): number[] | null {
+  const parts = address.split('.');
+  if (parts.length !== 4) return null;
+  const octets = parts.map(Number);
+  return octets.every(octet => Number.isInteger(octet) && octet >= 0 && octet <= 255) ? octets : null;
+}
+
+function isPrivateIPv4([a, b]: number[]): boolean {
+  return a === 0 || // "this" network
+    a === 10 ||
+    a === 127 || // loopback
+    (a === 100 && b >= 64 && b <= 127) || // carrier-grade NAT
+    (a === 169 && b === 254) || // link-local, including cloud metadata endpoints
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) || // benchmarking
+    a >= 224; // multicast and reserved
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not
+ * reachable on the public internet. Anything that is not an IP address counts
+ * as private.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const unbracketed = address.replace(/^\[|\]$/g, '').toLowerCase();
+
+  if (isIP(unbracketed) === 4) {
+    return isPrivateIPv4(parseIPv4(unbracketed)!);
+  }
+  if (isIP(unbracketed) !== 6) {
+    return true;
+  }
+
+  // IPv4-mapped addresses (::ffff:10.0.0.1) are checked as IPv4
+  const mapped = unbracketed.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) {
+    return isPrivateAddress(mapped[1]);
+  }
+
+  return unbracketed === '::' ||
+    unbracketed === '::1' ||
+    unbracketed.startsWith('::ffff:') || // mapped addresses in hex form
+    /^f[cd]/.test(unbracketed) || // unique local fc00::/7
+    /^fe[89ab]/.test(unbracketed) || // link-local fe80::/10
+    unbracketed.startsWith('ff'); // multicast
+}
+
+/**
+ * Whether a URL is an https URL to a host that may be public. Hostnames are
+ * checked again when delivering, against the addresses they resolve to.
+ */
+export function isPublicHttpsUrl(url: string): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+
+  if (parsed.protocol !== 'https:' || parsed.username || parsed.password) {
+    return false;
+  }
+
+  const hostname = parsed.hostname.toLowerCase().replace(/\.$/, '');
+  if (isIP(hostname.replace(/^\[|\]$/g, '')) !== 0) {
+    return !isPrivateAddress(hostname);
+  }
+
+  return hostname.includes('.') &&
+    hostname !== 'localhost' &&
+    !INTERNAL_HOSTNAME_SUFFIXES.some(suffix => hostname.endsWith(suffix));
+}
+
+/**
+ * Whether a URL may be delivered to: an https URL to a public host whose
+ * addresses are all public, so DNS names pointing inside the network are refused
+ */
+export async function isDeliverableWebhookUrl(url: string): Promise<boolean> {
+  if (!isPublicHttpsUrl(url)) {
+    return false;
+  }
+
+  try {
+    const addresses = await lookup(new URL(url).hostname, { all: true });
+    return addresses.length > 0 && addresses.every(({ address }) => !isPrivateAddress(address));
+  } catch {
+    return false;
+  }
+}
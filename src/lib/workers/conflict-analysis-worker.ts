@@ -18,6 +18,49 @@ interface Event {
   imageUrl?: string;
   createdAt: string;
   updatedAt: string;
+  impactCityMetadata?: {
+    sourceCity: string;
+    distance_km: number;
+    impact_factor: number;
+  };
+  temporalProximity?: 'before' | 'on_date' | 'after';
+}
+
+// Mirrors ScoringWeights in src/types/scoring-profiles.ts
+interface ScoringWeights {
+  categoryMatch: number;
+  attendance: number;
+  audienceOverlap: number;
+  holidayPenalty: number;
+  seasonality: number;
+  distance: number;
+}
+
+// Mirrors ConflictEventContribution in src/types/score-breakdown.ts
+interface ConflictEventContribution {
+  eventId: string;
+  title: string;
+  date: string;
+  category: string;
+  subcategory?: string | null;
+  venue?: string;
+  components: {
+    base: number;
+    category: number;
+    venue: number;
+    promotion: number;
+    attendance: number;
+    depthBonus: number;
+  };
+  durationMultiplier: number;
+  temporalProximity: 'before' | 'on_date' | 'after';
+  temporalMultiplier: number;
+  seasonalMultiplier: number;
+  holidayMultiplier: number;
+  audienceOverlap: number | null;
+  audienceOverlapMultiplier: number;
+  distanceMultiplier: number;
+  score: number;
 }
 
 interface ConflictCalculationTask {
@@ -33,6 +76,7 @@ interface ConflictCalculationTask {
       stringSimilarityThreshold: number;
       spatialRadius: number;
     };
+    weights?: ScoringWeights;
   };
   taskId: string;
 }
@@ -40,14 +84,19 @@ interface ConflictCalculationTask {
 interface ConflictCalculationResult {
   type: 'calculateConflictScore';
   taskId: string;
-  result: {
-    score: number;
-    processingTime: number;
-    eventsProcessed: number;
-  };
+  result: ConflictCalculationOutput;
   error?: string;
 }
 
+// The main thread combines the contributions into the score and its breakdown
+interface ConflictCalculationOutput {
+  contributions: ConflictEventContribution[];
+  /** Competing events beyond maxComparisons, which only get a flat score */
+  unscoredEvents: number;
+  processingTime: number;
+  eventsProcessed: number;
+}
+
 // Worker message handler
 self.onmessage = function(e: MessageEvent<ConflictCalculationTask>) {
   const task = e.data;
@@ -71,7 +120,8 @@ self.onmessage = function(e: MessageEvent<ConflictCalculationTask>) {
       type: 'calculateConflictScore',
       taskId: task.taskId,
       result: {
-        score: 0,
+        contributions: [],
+        unscoredEvents: 0,
         processingTime: 0,
         eventsProcessed: 0
       },
@@ -82,26 +132,13 @@ self.onmessage = function(e: MessageEvent<ConflictCalculationTask>) {
 };
 
 /**
- * Calculate conflict score in worker thread
+ * Score the most significant competing events in the worker thread. Seasonal,
+ * holiday and audience overlap multipliers need the database and are left at 1.
  */
-function calculateConflictScoreInWorker(data: ConflictCalculationTask['data']): {
-  score: number;
-  processingTime: number;
-  eventsProcessed: number;
-} {
+function calculateConflictScoreInWorker(data: ConflictCalculationTask['data']): ConflictCalculationOutput {
   const startTime = performance.now();
-  const { competingEvents, expectedAttendees, category, config } = data;
-  
-  if (competingEvents.length === 0) {
-    return {
-      score: 0,
-      processingTime: performance.now() - startTime,
-      eventsProcessed: 0
-    };
-  }
+  const { competingEvents, category, config } = data;
 
-  let score = 0;
-  
   // Sort events by significance for prioritized processing
   const sortedEvents = competingEvents
     .map(event => ({
@@ -112,32 +149,14 @@ function calculateConflictScoreInWorker(data: ConflictCalculationTask['data']):
     .slice(0, config.maxComparisons);
 
   // Process events with optimized algorithms
-  for (const { event } of sortedEvents) {
-    const eventScore = calculateEventConflictScore(event, category, config, data.plannedSubcategory);
-    score += eventScore;
-  }
-
-  // Add base score for remaining events
-  const remainingEvents = competingEvents.length - sortedEvents.length;
-  if (remainingEvents > 0) {
-    const remainingScore = remainingEvents * 2; // Reduced from 10 to 2
-    score += remainingScore;
-  }
-
-  // Adjust based on expected attendees (reduced multipliers)
-  if (expectedAttendees > 1000) {
-    score *= 1.1; // Reduced from 1.2 to 1.1
-  } else if (expectedAttendees > 500) {
-    score *= 1.05; // Reduced from 1.1 to 1.05
-  }
-
-  // Cap the score at 20 (adjusted for new scoring system)
-  const finalScore = Math.min(score, 20);
-  const processingTime = performance.now() - startTime;
+  const contributions = sortedEvents.map(({ event }) =>
+    calculateEventContribution(event, category, config, data.plannedSubcategory, data.weights)
+  );
 
   return {
-    score: finalScore,
-    processingTime,
+    contributions,
+    unscoredEvents: competingEvents.length - sortedEvents.length,
+    processingTime: performance.now() - startTime,
     eventsProcessed: sortedEvents.length
   };
 }
@@ -197,52 +216,81 @@ function getDurationMultiplier(duration: number): number {
 }
 
 /**
- * Calculate conflict score for a single event using optimized algorithm
+ * Calculate how a single event contributes to the conflict score using optimized algorithm
  */
-function calculateEventConflictScore(event: Event, category: string, config: ConflictCalculationTask['data']['config'], plannedSubcategory?: string): number {
-  let eventScore = 0;
-  
-  // Base score for any competing event (reduced from 20 to 3)
-  eventScore += 3;
-  
-  // Smart category conflict scoring based on audience overlap with subcategory awareness
-  const categoryConflictScore = calculateCategoryConflictScore(
-    event.category, 
-    category, 
-    event.subcategory, 
-    plannedSubcategory
-  );
-  eventScore += categoryConflictScore;
-  
-  // Higher score for events with venues (more significant) (reduced from 15 to 4)
-  if (event.venue) {
-    eventScore += 4;
-  }
-  
+function calculateEventContribution(
+  event: Event,
+  category: string,
+  config: ConflictCalculationTask['data']['config'],
+  plannedSubcategory?: string,
+  weights?: ScoringWeights
+): ConflictEventContribution {
+  const components: ConflictEventContribution['components'] = {
+    // Base score for any competing event (reduced from 20 to 3)
+    base: 3,
+    // Smart category conflict scoring based on audience overlap with subcategory awareness
+    category: calculateCategoryConflictScore(
+      event.category,
+      category,
+      event.subcategory,
+      plannedSubcategory
+    ) * (weights?.categoryMatch ?? 1),
+    // Higher score for events with venues (more significant) (reduced from 15 to 4)
+    venue: event.venue ? 4 : 0,
+    promotion: 0,
+    attendance: 0,
+    depthBonus: 0
+  };
+
   // Higher score for events with images (more professional/promoted) (reduced from 10 to 2)
   if (event.imageUrl) {
-    eventScore += 2;
+    components.promotion += 2;
   }
-  
+
   // Higher score for events with descriptions (more detailed/promoted) (reduced from 5 to 1)
   if (event.description && event.description.length > 50) {
-    eventScore += 1;
+    components.promotion += 1;
   }
-  
+
   // Adjust based on analysis depth
   if (config.depth === 'deep') {
     // More detailed analysis for deep mode
     if (event.expectedAttendees && event.expectedAttendees > 500) {
-      eventScore += 2; // Reduced from 10 to 2
+      components.depthBonus += 2 * (weights?.attendance ?? 1); // Reduced from 10 to 2
     }
   }
-  
+
   // Apply duration multiplier (longer events = higher conflict impact)
   const eventDuration = calculateEventDuration(event);
   const durationMultiplier = getDurationMultiplier(eventDuration);
-  eventScore *= durationMultiplier;
-  
-  return eventScore;
+
+  // Events just before or after the date weigh less than events on it
+  const temporalProximity = event.temporalProximity || 'on_date';
+  const temporalMultiplier = temporalProximity === 'before' ? 0.6 : temporalProximity === 'after' ? 0.7 : 1.0;
+
+  // Events from nearby cities count with the scoring profile's distance weight
+  const distanceMultiplier = event.impactCityMetadata ? weights?.distance ?? 1 : 1;
+
+  const points = Object.values(components).reduce((sum, value) => sum + value, 0);
+
+  return {
+    eventId: event.id,
+    title: event.title,
+    date: event.date,
+    category: event.category,
+    subcategory: event.subcategory,
+    venue: event.venue,
+    components,
+    durationMultiplier,
+    temporalProximity,
+    temporalMultiplier,
+    seasonalMultiplier: 1,
+    holidayMultiplier: 1,
+    audienceOverlap: null,
+    audienceOverlapMultiplier: 1,
+    distanceMultiplier,
+    score: points * durationMultiplier * temporalMultiplier * distanceMultiplier
+  };
 }
 
 /**
@@ -318,4 +366,4 @@ function calculateCategoryConflictScore(competingCategory: string, plannedCatego
 }
 
 // Export types for use in main thread
-export type { ConflictCalculationTask, ConflictCalculationResult };
+export type { ConflictCalculationTask, ConflictCalculationResult, ConflictCalculationOutput };
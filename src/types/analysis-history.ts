@@ -0,0 +1,124 @@
+// src/types/analysis-history.ts
+import type { ConflictAnalysisResult } from '@/lib/services/conflict-analysis';
+import type { ScoringWeights } from './scoring-profiles';
+
+/**
+ * Parameters a saved analysis was run with - enough to re-run it later
+ */
+export interface SavedAnalysisRequest {
+  city: string;
+  category: string;
+  subcategory: string | null;
+  expectedAttendees: number;
+  dateRangeStart: string;
+  dateRangeEnd: string;
+  preferredStartDate: string;
+  preferredEndDate: string;
+  enablePerplexityResearch?: boolean;
+  enableLLMRelevanceFilter?: boolean;
+  /** Scoring profile the analysis was run with */
+  scoringProfileId?: string | null;
+  /** Copy of the profile's weights, so re-runs score the same way after the profile changes */
+  scoringWeights?: ScoringWeights | null;
+}
+
+export interface SavedAnalysisSummary {
+  totalRecommendations: number;
+  totalHighRiskDates: number;
+  totalEventsAnalyzed: number;
+  averageConflictScore: number;
+}
+
+/**
+ * A persisted conflict analysis run, including its full result
+ */
+export interface SavedAnalysis {
+  id: string;
+  userId: string | null;
+  /** Owning organisation; null for anonymous analyses */
+  organisationId: string | null;
+  request: SavedAnalysisRequest;
+  result: ConflictAnalysisResult;
+  summary: SavedAnalysisSummary;
+  version: number;
+  parentAnalysisId: string | null;
+  rootAnalysisId: string | null;
+  createdAt: string;
+}
+
+/**
+ * Lightweight entry used when listing the versions of an analysis
+ */
+export interface SavedAnalysisVersion {
+  id: string;
+  version: number;
+  parentAnalysisId: string | null;
+  averageConflictScore: number;
+  totalRecommendations: number;
+  createdAt: string;
+}
+
+/**
+ * Minimal description of a competing event used in analysis diffs
+ */
+export interface DiffEventSummary {
+  key: string;
+  id: string;
+  title: string;
+  date: string;
+  venue?: string;
+  category: string;
+  expectedAttendees?: number;
+  source: string;
+}
+
+export type RiskLevel = 'Low' | 'Medium' | 'High';
+
+export interface DateSnapshot {
+  conflictScore: number;
+  riskLevel: RiskLevel;
+  recommended: boolean;
+  competingEventCount: number;
+}
+
+/**
+ * How a single date range changed between two versions of an analysis
+ */
+export interface DateRecommendationDiff {
+  startDate: string;
+  endDate: string;
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  before?: DateSnapshot;
+  after?: DateSnapshot;
+  scoreDelta: number;
+  riskChange: 'increased' | 'decreased' | 'unchanged';
+  eventsAppeared: DiffEventSummary[];
+  eventsDisappeared: DiffEventSummary[];
+}
+
+export interface AnalysisDiff {
+  baseAnalysisId: string;
+  compareAnalysisId: string;
+  baseAnalysisDate: string;
+  compareAnalysisDate: string;
+  summary: {
+    averageScoreBefore: number;
+    averageScoreAfter: number;
+    datesChanged: number;
+    riskIncreased: number;
+    riskDecreased: number;
+    eventsAppeared: number;
+    eventsDisappeared: number;
+  };
+  competingEventsAppeared: DiffEventSummary[];
+  competingEventsDisappeared: DiffEventSummary[];
+  droppedFromRecommended: Array<{
+    startDate: string;
+    endDate: string;
+    previousRank: number;
+    nowHighRisk: boolean;
+    after?: DateSnapshot;
+  }>;
+  newlyRecommended: Array<{ startDate: string; endDate: string; rank: number; after: DateSnapshot }>;
+  dates: DateRecommendationDiff[];
+}
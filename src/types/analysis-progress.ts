@@ -0,0 +1,51 @@
+// src/types/analysis-progress.ts
+import type { AnalysisJobStep } from './jobs';
+
+/**
+ * Lean view of a date recommendation, streamed while the analysis is still running
+ */
+export interface PartialDateRecommendation {
+  startDate: string;
+  endDate: string;
+  conflictScore: number;
+  riskLevel: 'Low' | 'Medium' | 'High';
+  competingEventCount: number;
+}
+
+export type PerplexityProgressStatus = 'started' | 'completed' | 'failed';
+
+/**
+ * Structured progress event emitted by ConflictAnalysisService.analyzeConflicts()
+ */
+export type AnalysisProgressEvent =
+  | { type: 'step'; step: AnalysisJobStep }
+  | { type: 'provider-fetched'; provider: string; status: 'ok' | 'error' | 'timeout'; eventCount: number; durationMs: number }
+  | { type: 'events-deduplicated'; fetched: number; afterLocationFilter: number; unique: number; duplicatesRemoved: number }
+  | { type: 'dates-scored'; scored: number; total: number }
+  | { type: 'perplexity'; status: PerplexityProgressStatus; dateCount: number }
+  | { type: 'partial-recommendations'; recommendations: PartialDateRecommendation[] };
+
+export type AnalysisProgressEventType = AnalysisProgressEvent['type'];
+
+/**
+ * Progress event as stored for a job; `id` increases within a job and is used as
+ * the SSE event ID so reconnecting clients resume where they stopped
+ */
+export type JobProgressEvent = AnalysisProgressEvent & {
+  id: number;
+  createdAt: string;
+};
+
+/**
+ * What the analyzer knows about a running analysis, folded from its progress events
+ */
+export interface AnalysisProgressState {
+  step: AnalysisJobStep | null;
+  providers: Array<{ provider: string; status: 'ok' | 'error' | 'timeout'; eventCount: number }>;
+  deduplication: { fetched: number; afterLocationFilter: number; unique: number; duplicatesRemoved: number } | null;
+  datesScored: number;
+  datesTotal: number;
+  perplexity: PerplexityProgressStatus | null;
+  perplexityDateCount: number;
+  recommendations: PartialDateRecommendation[];
+}
@@ -0,0 +1,51 @@
+// src/types/analysis-report.ts
+import type { ConflictDataPoint } from '@/components/data-visualization/conflict-heatmap';
+import type { DateRecommendation } from '@/lib/services/conflict-analysis';
+import type { SavedAnalysis } from './analysis-history';
+
+/**
+ * Optional agency branding printed on a client report
+ */
+export interface ReportBranding {
+  agencyName?: string;
+  logoUrl?: string;
+  preparedFor?: string;
+  notes?: string;
+}
+
+/**
+ * A holiday or cultural event affecting one of the reported date windows
+ */
+export interface ReportHolidayRestriction {
+  startDate: string;
+  endDate: string;
+  name: string;
+  kind: 'holiday' | 'cultural_event';
+  type: string;
+  businessImpact: 'none' | 'partial' | 'full';
+  venueClosureExpected: boolean;
+}
+
+export interface ReportSeasonalFactor {
+  startDate: string;
+  endDate: string;
+  demandLevel: string;
+  seasonalMultiplier: number;
+  holidayMultiplier: number;
+  optimalityScore: number;
+  reasoning: string[];
+}
+
+/**
+ * Everything needed to render a printable client report for a saved analysis
+ */
+export interface AnalysisReport {
+  analysis: SavedAnalysis;
+  branding: ReportBranding;
+  heatmap: ConflictDataPoint[];
+  topRecommendations: DateRecommendation[];
+  highRiskDates: DateRecommendation[];
+  holidayRestrictions: ReportHolidayRestriction[];
+  seasonalFactors: ReportSeasonalFactor[];
+  generatedAt: string;
+}
@@ -0,0 +1,111 @@
+// src/types/city-comparison.ts
+import { z } from 'zod';
+
+export const MIN_COMPARISON_CITIES = 2;
+export const MAX_COMPARISON_CITIES = 5;
+
+export type HolidayImpact = 'none' | 'partial' | 'full';
+
+/**
+ * Compare the same event across several cities
+ */
+export interface CityComparisonRequest {
+  cities: string[];
+  category: string;
+  subcategory: string;
+  expectedAttendees: number;
+  dateRange: { start: string; end: string };
+  /** Preferred first and last day of the event; defaults to the analysis date range */
+  preferredDates?: [string, string];
+  enablePerplexityResearch?: boolean;
+  enableLLMRelevanceFilter?: boolean;
+  /** Scoring profile applied to every city */
+  scoringProfileId?: string;
+}
+
+/**
+ * One date window of a city's analysis, reduced to what the comparison needs
+ */
+export interface CityComparisonDate {
+  startDate: string;
+  endDate: string;
+  conflictScore: number;
+  riskLevel: 'Low' | 'Medium' | 'High';
+  /** Seasonal demand multiplier - above 1 means a busier time of year */
+  seasonalMultiplier: number | null;
+  holidayImpact: HolidayImpact;
+  holidays: string[];
+  competingEventCount: number;
+}
+
+/**
+ * A row of the comparison matrix
+ */
+export interface CityComparisonEntry {
+  city: string;
+  status: 'completed' | 'failed';
+  /** 1-based position; failed cities are ranked last */
+  rank: number;
+  /** Saved analysis with the full result, when it could be stored */
+  analysisId: string | null;
+  bestDate: CityComparisonDate | null;
+  /** Next best dates after bestDate */
+  alternatives: CityComparisonDate[];
+  totalEventsAnalyzed: number;
+  error?: string;
+}
+
+export interface CityComparisonResult {
+  category: string;
+  subcategory: string;
+  expectedAttendees: number;
+  dateRange: { start: string; end: string };
+  preferredDates: [string, string];
+  /** Ranked best first */
+  cities: CityComparisonEntry[];
+  comparedAt: string;
+}
+
+const DateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date');
+
+export const CityComparisonRequestSchema = z.object({
+  cities: z.array(z.string().trim().min(2).max(100))
+    .min(MIN_COMPARISON_CITIES, `Compare at least ${MIN_COMPARISON_CITIES} cities`)
+    .max(MAX_COMPARISON_CITIES, `Compare at most ${MAX_COMPARISON_CITIES} cities`),
+  category: z.string().min(1).max(50),
+  subcategory: z.string().min(1).max(100),
+  expectedAttendees: z.number().int().positive(),
+  dateRange: z.object({ start: DateString, end: DateString }),
+  preferredDates: z.tuple([DateString, DateString]).optional(),
+  enablePerplexityResearch: z.boolean().optional(),
+  enableLLMRelevanceFilter: z.boolean().optional(),
+  scoringProfileId: z.string().uuid().optional()
+})
+  .refine(request => request.dateRange.start < request.dateRange.end, {
+    message: 'Analysis start date must be before analysis end date',
+    path: ['dateRange']
+  })
+  .refine(request => {
+    if (!request.preferredDates) return true;
+    const [start, end] = request.preferredDates;
+    return start <= end && start >= request.dateRange.start && end <= request.dateRange.end;
+  }, {
+    message: 'Preferred event dates must be in order and within the analysis date range',
+    path: ['preferredDates']
+  })
+  .refine(request => {
+    if (!request.preferredDates) return true;
+    const [start, end] = request.preferredDates;
+    const durationDays = Math.round((Date.parse(end) - Date.parse(start)) / (1000 * 60 * 60 * 24)) + 1;
+    return durationDays <= 31;
+  }, {
+    message: 'Event duration cannot exceed 31 days',
+    path: ['preferredDates']
+  })
+  .refine(request => {
+    const names = request.cities.map(city => city.toLowerCase());
+    return new Set(names).size === names.length;
+  }, {
+    message: 'Each city can only be compared once',
+    path: ['cities']
+  });
@@ -0,0 +1,150 @@
+// src/types/event-import.ts
+import { z } from 'zod';
+import type { CreateEventData } from '@/lib/types/events';
+
+export const EVENT_IMPORT_FORMATS = ['ics', 'csv'] as const;
+
+export type EventImportFormat = typeof EVENT_IMPORT_FORMATS[number];
+
+/**
+ * Which CSV column holds each event field. Values are header names.
+ */
+export interface CsvColumnMapping {
+  title: string;
+  date: string;
+  endDate?: string;
+  city?: string;
+  venue?: string;
+  category?: string;
+  subcategory?: string;
+  description?: string;
+  url?: string;
+  imageUrl?: string;
+  expectedAttendees?: string;
+  /** Stable row identifier - rows without one are keyed by title and date */
+  sourceId?: string;
+}
+
+/**
+ * How to read an import. Stored as `config` on `scraper_sources` rows of type `import`.
+ */
+export interface EventImportSettings {
+  format: EventImportFormat;
+  /** Default city for rows or events without one */
+  city?: string;
+  /** Default category for rows or events without one */
+  category?: string;
+  /** Required for CSV */
+  mapping?: CsvColumnMapping;
+  /** CSV delimiter, detected from the header row when omitted */
+  delimiter?: string;
+  /** Time zone used to turn UTC timestamps into event dates (defaults to Europe/Prague) */
+  timeZone?: string;
+}
+
+export interface EventImportConfig extends EventImportSettings {
+  /** Used in source IDs and sync logs, so re-imports update the same events */
+  sourceName: string;
+}
+
+/**
+ * A one-off import - either a URL to fetch or the file content itself
+ */
+export interface EventImportRequest extends EventImportConfig {
+  url?: string;
+  content?: string;
+}
+
+export interface EventImportParseResult {
+  events: CreateEventData[];
+  totalRecords: number;
+  errors: string[];
+}
+
+export interface EventImportResult {
+  /** Events read from the file */
+  parsed: number;
+  /** Events dropped because they duplicate stored events from other sources */
+  duplicatesRemoved: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  errors: string[];
+  /** Events passed to storage */
+  events: CreateEventData[];
+}
+
+/**
+ * An import registered in `scraper_sources`, refreshed on the normal sync schedule
+ */
+export interface EventImportSource {
+  id: string;
+  name: string;
+  url: string;
+  enabled: boolean;
+  config: EventImportSettings;
+  lastScrapedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateEventImportSourceData {
+  name: string;
+  url: string;
+  enabled?: boolean;
+  config: EventImportSettings;
+}
+
+const ColumnName = z.string().min(1).max(100);
+
+export const CsvColumnMappingSchema = z.object({
+  title: ColumnName,
+  date: ColumnName,
+  endDate: ColumnName.optional(),
+  city: ColumnName.optional(),
+  venue: ColumnName.optional(),
+  category: ColumnName.optional(),
+  subcategory: ColumnName.optional(),
+  description: ColumnName.optional(),
+  url: ColumnName.optional(),
+  imageUrl: ColumnName.optional(),
+  expectedAttendees: ColumnName.optional(),
+  sourceId: ColumnName.optional()
+});
+
+const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const EventImportSettingsFields = z.object({
+  format: z.enum(EVENT_IMPORT_FORMATS),
+  city: z.string().min(1).max(100).optional(),
+  category: z.string().min(1).max(50).optional(),
+  mapping: CsvColumnMappingSchema.optional(),
+  delimiter: z.string().length(1).optional(),
+  timeZone: z.string().max(50).refine(isValidTimeZone, { message: 'Unknown time zone' }).optional()
+});
+
+const hasCsvMapping = (settings: { format: EventImportFormat; mapping?: CsvColumnMapping }) =>
+  settings.format !== 'csv' || !!settings.mapping;
+
+export const EventImportSettingsSchema = EventImportSettingsFields.refine(hasCsvMapping, {
+  message: 'CSV imports require a column mapping',
+  path: ['mapping']
+});
+
+export const EventImportRequestSchema = EventImportSettingsFields.extend({
+  sourceName: z.string().min(1).max(100),
+  url: z.string().url().optional(),
+  content: z.string().min(1).optional()
+})
+  .refine(hasCsvMapping, { message: 'CSV imports require a column mapping', path: ['mapping'] })
+  .refine(request => !!request.url !== !!request.content, {
+    message: 'Provide either url or content',
+    path: ['url']
+  });
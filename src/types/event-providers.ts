@@ -0,0 +1,82 @@
+// src/types/event-providers.ts
+import type { Event } from './index';
+
+/**
+ * What a provider can do beyond returning events for a city and date range:
+ * - radius-search: honours `radiusKm`
+ * - category-filter: filters by `category` at the source
+ * - attendance-estimates: returns expected attendees
+ * - scheduled-sync: its events are stored by DataSyncService for `syncCities`
+ */
+export const EVENT_PROVIDER_CAPABILITIES = [
+  'radius-search',
+  'category-filter',
+  'attendance-estimates',
+  'scheduled-sync'
+] as const;
+export type EventProviderCapability = typeof EVENT_PROVIDER_CAPABILITIES[number];
+
+export type EventProviderType = 'api' | 'local' | 'scraper';
+
+/**
+ * active providers are queried by conflict analyses; inactive ones only sync
+ */
+export type EventProviderStatus = 'active' | 'inactive' | 'maintenance';
+
+export interface EventProviderRateLimit {
+  maxRequests: number; // Fetches allowed per window, counted by the registry
+  windowMs: number;
+}
+
+export interface EventProviderInfo {
+  id: string; // Names the provider in progress events, sync results and USP data
+  name: string;
+  type: EventProviderType;
+  status: EventProviderStatus;
+  description: string;
+  endpoint?: string;
+  coverage: string[]; // Human-readable, e.g. 'Global' or 'Brno, Czech Republic'
+  capabilities: EventProviderCapability[];
+  rateLimit: EventProviderRateLimit;
+  timeoutMs: number; // Per fetch during an analysis
+  syncCities?: string[]; // Cities stored by scheduled syncs (requires scheduled-sync)
+}
+
+export interface EventProviderQuery {
+  city: string; // Normalized (English) city name
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+  category?: string;
+  radiusKm?: number;
+  size?: number; // Maximum events wanted
+}
+
+export interface EventProviderHealth {
+  provider: string;
+  healthy: boolean;
+  configured: boolean;
+  latencyMs: number;
+  message?: string;
+  checkedAt: string;
+}
+
+/**
+ * Contract every event source implements. Register new providers in
+ * lib/services/event-provider-registry.ts.
+ */
+export interface EventProvider {
+  readonly info: EventProviderInfo;
+
+  /** Whether credentials and settings needed to fetch are present */
+  isConfigured(): boolean;
+
+  /** Whether the provider has events for the (normalized) city */
+  supportsCity(city: string): boolean;
+
+  fetchEvents(query: EventProviderQuery): Promise<Event[]>;
+
+  /** Every event of a city in the range, paging through all results; used by scheduled syncs */
+  fetchAllEvents?(city: string, startDate: string, endDate: string): Promise<Event[]>;
+
+  healthCheck(): Promise<EventProviderHealth>;
+}
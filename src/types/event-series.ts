@@ -0,0 +1,129 @@
+// src/types/event-series.ts
+import { z } from 'zod';
+import type { Event } from './index';
+
+export const MAX_SERIES_OCCURRENCES = 52;
+export const MAX_SERIES_RANGE_DAYS = 366;
+
+/**
+ * A repeating event, e.g. a meetup every second Thursday or on the first
+ * Monday of each month. The weekday (and week of month) of the analysis
+ * start date is the pattern the organiser asked for; other weekdays and
+ * offsets are scored as alternatives.
+ */
+export interface RecurringSeriesPattern {
+  type: 'recurring';
+  frequency: 'weekly' | 'monthly';
+  /** Every Nth week or month */
+  interval: number;
+  /** Length of each occurrence in days */
+  durationDays: number;
+  /** Stop after this many occurrences; defaults to as many as fit in the date range */
+  occurrences?: number;
+}
+
+/**
+ * One fixed-length block, e.g. a three-day festival, placed anywhere in the date range
+ */
+export interface MultiDayBlockPattern {
+  type: 'multi_day';
+  durationDays: number;
+  /** Only start on these weekdays (0 = Sunday) */
+  startWeekdays?: number[];
+}
+
+export type EventSeriesPattern = RecurringSeriesPattern | MultiDayBlockPattern;
+
+/**
+ * A concrete schedule to score - one weekday/offset choice for a series
+ */
+export interface EventSeriesCandidate {
+  /** Stable identifier, e.g. `weekly-2:4:+7` */
+  key: string;
+  label: string;
+  /** Weekday of the occurrences (0 = Sunday) */
+  weekday: number;
+  /** Days after the range start of the first occurrence (weekly and multi-day) */
+  offsetDays?: number;
+  /** Week of the month, -1 for the last one (monthly) */
+  weekOfMonth?: number;
+  occurrences: Array<{ startDate: string; endDate: string }>;
+}
+
+export interface EventSeriesOccurrence {
+  startDate: string;
+  endDate: string;
+  conflictScore: number;
+  riskLevel: 'Low' | 'Medium' | 'High';
+  competingEvents: Event[];
+  reasons: string[];
+  holidayRestrictions?: any;
+}
+
+export interface EventSeriesPatternResult extends Omit<EventSeriesCandidate, 'occurrences'> {
+  occurrences: EventSeriesOccurrence[];
+  averageScore: number;
+  maxScore: number;
+  highRiskOccurrences: number;
+}
+
+export interface EventSeriesAnalysisResult {
+  series: EventSeriesPattern;
+  bestPattern: EventSeriesPatternResult | null;
+  /** The pattern anchored on the requested start date, when it is in the date range */
+  requestedPattern: EventSeriesPatternResult | null;
+  /** Next best patterns after bestPattern */
+  alternatives: EventSeriesPatternResult[];
+  candidatesEvaluated: number;
+  analysisDate: string;
+}
+
+const Weekday = z.number().int().min(0).max(6);
+
+export const EventSeriesPatternSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('recurring'),
+    frequency: z.enum(['weekly', 'monthly']),
+    interval: z.number().int().min(1).max(4),
+    durationDays: z.number().int().min(1).max(7),
+    occurrences: z.number().int().min(2).max(MAX_SERIES_OCCURRENCES).optional()
+  }),
+  z.object({
+    type: z.literal('multi_day'),
+    durationDays: z.number().int().min(1).max(31),
+    startWeekdays: z.array(Weekday).min(1).max(7).optional()
+  })
+]);
+
+const DateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date');
+
+export const EventSeriesRequestSchema = z.object({
+  city: z.string().trim().min(2).max(100),
+  category: z.string().min(1).max(50),
+  subcategory: z.string().min(1).max(100),
+  expectedAttendees: z.number().int().positive(),
+  /** The span the whole series must fit in */
+  dateRange: z.object({ start: DateString, end: DateString }),
+  /** First occurrence the organiser has in mind; defaults to the range start */
+  startDate: DateString.optional(),
+  series: EventSeriesPatternSchema,
+  scoringProfileId: z.string().uuid().optional()
+})
+  .refine(request => request.dateRange.start < request.dateRange.end, {
+    message: 'Series start date must be before series end date',
+    path: ['dateRange']
+  })
+  .refine(request => {
+    const days = (Date.parse(request.dateRange.end) - Date.parse(request.dateRange.start)) / (1000 * 60 * 60 * 24);
+    return days < MAX_SERIES_RANGE_DAYS;
+  }, {
+    message: `A series can span at most ${MAX_SERIES_RANGE_DAYS} days`,
+    path: ['dateRange']
+  })
+  .refine(request => !request.startDate ||
+    (request.startDate >= request.dateRange.start && request.startDate <= request.dateRange.end), {
+    message: 'Start date must be within the series date range',
+    path: ['startDate']
+  });
+
+export type EventSeriesRequest = z.infer<typeof EventSeriesRequestSchema>;
@@ -1,4 +1,6 @@
 // src/types/holidays.ts
+import { z } from 'zod';
+
 export interface Country {
   id: string;
   code: string; // ISO 3166-1 alpha-3 code
@@ -49,6 +51,13 @@ export interface Holiday {
   updated_at: string;
 }
 
+// A holiday with its type, country and region as codes, as the admin API lists it
+export interface HolidayDetails extends Holiday {
+  holiday_type: string;
+  country_code: string;
+  region_code?: string;
+}
+
 export interface HolidayObservance {
   id: string;
   holiday_id: string;
@@ -81,6 +90,11 @@ export interface CulturalEvent {
   updated_at: string;
 }
 
+export interface CulturalEventDetails extends CulturalEvent {
+  country_code: string;
+  region_code?: string;
+}
+
 export interface HolidayInfo {
   holiday_name: string;
   holiday_name_native?: string;
@@ -90,6 +104,74 @@ export interface HolidayInfo {
   is_observed: boolean;
 }
 
+// A holiday on the date it is observed, as returned for date ranges
+export interface HolidayObservanceInfo extends HolidayInfo {
+  holiday_id: string;
+  observed_date: string;
+  region_code?: string;
+}
+
+// Where a city's holidays come from, resolved from the city database
+export interface HolidayLocation {
+  city: string;
+  country_code: string; // ISO 3166-1 alpha-3, as used by holidays
+  region_code?: string; // ISO 3166-2 (e.g. 'DE-BY'); regional holidays apply
+  cross_border: CrossBorderNeighbour[];
+}
+
+// A nearby city in another country whose holidays also affect attendance
+export interface CrossBorderNeighbour {
+  city: string;
+  country_code: string; // ISO 3166-1 alpha-3
+  region_code?: string;
+  distance_km: number;
+}
+
+// Three or more days off in a row around public holidays: the holidays, the
+// weekend next to them and the bridge days people take off to join them
+// (e.g. the Monday before a Tuesday holiday)
+export interface LongWeekend {
+  start_date: string;
+  end_date: string; // Inclusive
+  days: number;
+  holiday_dates: string[];
+  bridge_days: string[]; // Working days between a holiday and a weekend or another holiday
+}
+
+export type SchoolHolidayKind = 'autumn' | 'christmas' | 'half_term' | 'spring' | 'easter' | 'summer';
+
+// A school break; spring breaks rotate by district (okres) every school year
+export interface SchoolHoliday {
+  id: string;
+  country_id: string;
+  region_id?: string;
+  district?: string; // e.g. "Brno-město"; undefined for nationwide breaks
+  kind: SchoolHolidayKind;
+  name: string;
+  name_native?: string;
+  start_date: string;
+  end_date: string;
+  school_year: string; // e.g. "2025/2026"
+  created_at: string;
+}
+
+// Dates an organisation keeps free of events (company all-hands, trade-fair
+// week, exam period). Private to the organisation and applied only to its own
+// analyses.
+export interface BlackoutPeriod {
+  id: string;
+  organisation_id: string;
+  name: string;
+  description?: string;
+  start_date: string;
+  end_date: string; // Inclusive
+  city?: string; // undefined applies to every city
+  business_impact: 'partial' | 'full';
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface CulturalEventInfo {
   event_name: string;
   event_name_native?: string;
@@ -108,12 +190,15 @@ export interface DateAvailabilityCheck {
     business_impact: 'none' | 'partial' | 'full';
     venue_closure_expected: boolean;
     reasons: string[];
+    blackout_periods?: BlackoutPeriod[]; // The analysing organisation's own
+    long_weekend?: LongWeekend; // Break the date is a bridge day or weekend day of
   };
 }
 
 export interface HolidayServiceConfig {
   country_code: string;
   region_code?: string;
+  city?: string; // Event city; blackout periods set for another city do not apply
   include_cultural_events: boolean;
   business_impact_threshold: 'none' | 'partial' | 'full';
 }
@@ -143,3 +228,79 @@ export interface DateRangeAvailability {
     venue_closure_days: number;
   };
 }
+
+const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+const businessImpactSchema = z.enum(['none', 'partial', 'full']);
+
+// Date rule shared by holidays and cultural events; the service checks that
+// the fields the date type needs are set
+const dateRuleSchema = {
+  date_type: z.enum(['fixed', 'variable', 'floating']),
+  month: z.number().int().min(1).max(12).nullable().optional(),
+  day: z.number().int().min(1).max(31).nullable().optional(),
+  weekday: z.number().int().min(0).max(6).nullable().optional(),
+  week_of_month: z.number().int().min(-1).max(5).nullable().optional(),
+  easter_offset: z.number().int().min(-100).max(100).nullable().optional(),
+  year_start: z.number().int().min(1900).max(2200).nullable().optional(),
+  year_end: z.number().int().min(1900).max(2200).nullable().optional()
+};
+
+export const CreateHolidaySchema = z.object({
+  name: z.string().min(1).max(200),
+  name_native: z.string().max(200).nullable().optional(),
+  description: z.string().max(1000).nullable().optional(),
+  holiday_type: z.string().min(1).max(50), // holiday_types.name, e.g. 'public_holiday'
+  country_code: z.string().length(3), // ISO 3166-1 alpha-3
+  region_code: z.string().max(20).nullable().optional(),
+  ...dateRuleSchema,
+  is_observed: z.boolean().optional(),
+  business_impact: businessImpactSchema,
+  venue_closure_expected: z.boolean()
+});
+
+export const UpdateHolidaySchema = CreateHolidaySchema.omit({ country_code: true }).partial();
+
+export const CreateCulturalEventSchema = z.object({
+  name: z.string().min(1).max(200),
+  name_native: z.string().max(200).nullable().optional(),
+  description: z.string().max(1000).nullable().optional(),
+  event_type: z.string().min(1).max(50), // e.g. 'festival', 'tradition'
+  country_code: z.string().length(3),
+  region_code: z.string().max(20).nullable().optional(),
+  ...dateRuleSchema,
+  // get_cultural_events_for_date only evaluates fixed and Easter-based dates
+  date_type: z.enum(['fixed', 'variable']),
+  duration_days: z.number().int().min(1).max(366).optional(),
+  business_impact: businessImpactSchema,
+  venue_closure_expected: z.boolean()
+});
+
+export const UpdateCulturalEventSchema = CreateCulturalEventSchema.omit({ country_code: true }).partial();
+
+export const CreateBlackoutPeriodSchema = z.object({
+  name: z.string().min(1).max(200),
+  description: z.string().max(1000).nullable().optional(),
+  start_date: isoDateSchema,
+  end_date: isoDateSchema,
+  city: z.string().min(1).max(100).nullable().optional(),
+  business_impact: z.enum(['partial', 'full']).optional()
+}).refine(period => period.end_date >= period.start_date, {
+  message: 'end_date must not be before start_date',
+  path: ['end_date']
+});
+
+export const UpdateBlackoutPeriodSchema = z.object({
+  name: z.string().min(1).max(200).optional(),
+  description: z.string().max(1000).nullable().optional(),
+  start_date: isoDateSchema.optional(),
+  end_date: isoDateSchema.optional(),
+  city: z.string().min(1).max(100).nullable().optional(),
+  business_impact: z.enum(['partial', 'full']).optional()
+});
+
+export type CreateHolidayData = z.infer<typeof CreateHolidaySchema>;
+export type UpdateHolidayData = z.infer<typeof UpdateHolidaySchema>;
+export type CreateCulturalEventData = z.infer<typeof CreateCulturalEventSchema>;
+export type UpdateCulturalEventData = z.infer<typeof UpdateCulturalEventSchema>;
+export type CreateBlackoutPeriodData = z.infer<typeof CreateBlackoutPeriodSchema>;
+export type UpdateBlackoutPeriodData = z.infer<typeof UpdateBlackoutPeriodSchema>;
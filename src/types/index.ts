@@ -9,7 +9,7 @@ export interface Event {
   category: string;
   subcategory?: string;
   expectedAttendees?: number;
-  source: 'ticketmaster' | 'meetup' | 'predicthq' | 'manual' | 'brno' | 'online_research';
+  source: 'ticketmaster' | 'meetup' | 'predicthq' | 'eventbrite' | 'manual' | 'brno' | 'online_research' | 'import';
   sourceId?: string;
   url?: string;
   imageUrl?: string;
@@ -67,7 +67,8 @@ export interface AnalysisRequest {
   };
   enableAdvancedAnalysis?: boolean;
   enablePerplexityResearch?: boolean;
-  enableLLMRelevanceFilter?: boolean; // Opt-in LLM relevance filtering
+  enableLLMRelevanceFilter?: boolean; // LLM relevance filtering, on unless set to false
+  scoringProfileId?: string; // Named scoring profile to weigh the conflict score with
 }
 
 export interface User {
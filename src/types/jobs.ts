@@ -0,0 +1,64 @@
+// src/types/jobs.ts
+import type { ConflictAnalysisResult } from '@/lib/services/conflict-analysis';
+import type { SavedAnalysisRequest } from './analysis-history';
+
+export const JOB_TYPES = ['analysis'] as const;
+export type JobType = typeof JOB_TYPES[number];
+
+/**
+ * Lifecycle: queued -> running -> succeeded | failed | cancelled.
+ * A failed attempt goes back to queued until the job runs out of attempts.
+ */
+export const JOB_STATUSES = ['queued', 'running', 'succeeded', 'failed', 'cancelled'] as const;
+export type JobStatus = typeof JOB_STATUSES[number];
+
+/**
+ * Steps of an analysis job, in order. The pipeline steps match the ones
+ * the analyzer UI shows.
+ */
+export const ANALYSIS_JOB_STEPS = [
+  'queued',
+  'fetching-events',
+  'analyzing-conflicts',
+  'generating-recommendations',
+  'saving',
+  'complete'
+] as const;
+export type AnalysisJobStep = typeof ANALYSIS_JOB_STEPS[number];
+
+/**
+ * Steps reported by the conflict analysis pipeline itself
+ */
+export type AnalysisPipelineStep = Extract<AnalysisJobStep, 'fetching-events' | 'analyzing-conflicts' | 'generating-recommendations'>;
+
+export interface AnalysisJobPayload {
+  request: SavedAnalysisRequest;
+}
+
+export interface AnalysisJobResult {
+  analysisId: string | null; // null when saving the analysis failed
+  data: ConflictAnalysisResult;
+}
+
+export interface Job<TPayload = AnalysisJobPayload, TResult = AnalysisJobResult> {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  payload: TPayload;
+  currentStep: string | null;
+  progress: number; // 0-100
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+  result: TResult | null;
+  organisationId: string | null;
+  userId: string | null;
+  apiKeyId: string | null;
+  runAfter: string; // Earliest start of the next attempt
+  lockedUntil: string | null; // Lease of the worker running the job
+  cancelRequestedAt: string | null;
+  startedAt: string | null;
+  finishedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
@@ -0,0 +1,120 @@
+// src/types/organisations.ts
+import { z } from 'zod';
+import { ORGANISATION_PLANS, OrganisationPlan } from './usage';
+
+export const ORGANISATION_ROLES = ['owner', 'admin', 'member', 'viewer'] as const;
+export type OrganisationRole = typeof ORGANISATION_ROLES[number];
+
+/**
+ * What an API key may be used for:
+ * - analyze: run conflict analyses and manage watchlists
+ * - events:read: read events and saved analyses
+ * - feedback:write: submit attendance and venue corrections
+ * - scraper:admin: trigger scraper runs, syncs and event imports (operator key only)
+ * - org:admin: manage members, API keys and webhooks of the organisation
+ */
+export const API_KEY_SCOPES = ['analyze', 'events:read', 'feedback:write', 'scraper:admin', 'org:admin'] as const;
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export interface Organisation {
+  id: string;
+  name: string;
+  slug: string;
+  plan: OrganisationPlan;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A user's membership in an organisation. Member details come from the users table.
+ */
+export interface OrganisationMember {
+  organisationId: string;
+  userId: string;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+  role: OrganisationRole;
+  createdAt: string;
+}
+
+/**
+ * An organisation API key. Only the SHA-256 hash of the key is stored;
+ * the key itself is shown once when it is created or rotated.
+ */
+export interface ApiKey {
+  id: string;
+  organisationId: string;
+  name: string;
+  /** First characters of the key, shown in listings to tell keys apart */
+  keyPrefix: string;
+  scopes: ApiKeyScope[];
+  /** Member who created the key - the key never has more scopes than their role allows */
+  createdBy: string;
+  lastUsedAt: string | null;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  /** Key this one replaced when it was rotated */
+  rotatedFromId: string | null;
+  createdAt: string;
+}
+
+export interface CreatedApiKey {
+  apiKey: ApiKey;
+  /** Plaintext key - returned only once */
+  key: string;
+}
+
+/**
+ * Who is calling an API route. Requests with the shared API_KEY (or no key in
+ * development) act as the operator, which is not bound to an organisation.
+ */
+export interface AuthContext {
+  organisationId: string | null;
+  userId: string | null;
+  apiKeyId: string | null;
+  role: OrganisationRole | null;
+  scopes: ApiKeyScope[];
+  isOperator: boolean;
+}
+
+const slugSchema = z.string().min(2).max(60).regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Slug may only contain lowercase letters, digits and dashes');
+
+const memberUserSchema = z.object({
+  email: z.string().email().max(255),
+  firstName: z.string().max(100).nullable().optional(),
+  lastName: z.string().max(100).nullable().optional()
+});
+
+export const CreateOrganisationSchema = z.object({
+  name: z.string().min(1).max(200),
+  slug: slugSchema.optional(),
+  plan: z.enum(ORGANISATION_PLANS).default('starter'),
+  // The owner is looked up by email in the users table and created when missing
+  owner: memberUserSchema
+});
+
+export const AddOrganisationMemberSchema = memberUserSchema.extend({
+  role: z.enum(ORGANISATION_ROLES)
+});
+
+export const UpdateOrganisationMemberSchema = z.object({
+  role: z.enum(ORGANISATION_ROLES)
+});
+
+export const CreateApiKeySchema = z.object({
+  name: z.string().min(1).max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1),
+  // Only the operator names the member; organisation keys create keys for their own creator
+  createdBy: z.string().uuid().optional(),
+  expiresAt: z.string().datetime().nullable().optional()
+});
+
+export const RotateApiKeySchema = z.object({
+  // Keep the old key working for a while so clients can switch over
+  graceMinutes: z.number().int().min(0).max(7 * 24 * 60).optional()
+});
+
+export type CreateOrganisationData = z.infer<typeof CreateOrganisationSchema>;
+export type AddOrganisationMemberData = z.infer<typeof AddOrganisationMemberSchema>;
+export type CreateApiKeyData = z.infer<typeof CreateApiKeySchema>;
@@ -0,0 +1,92 @@
+// src/types/score-breakdown.ts
+import type { ScoringWeights } from './scoring-profiles';
+
+/**
+ * Additive points a competing event earns before multipliers are applied
+ */
+export interface ConflictScoreComponents {
+  /** Flat score every competing event gets */
+  base: number;
+  /** Category/subcategory overlap with the planned event */
+  category: number;
+  /** Event has a venue */
+  venue: number;
+  /** Event has an image or a detailed description */
+  promotion: number;
+  /** Expected attendance of the competing event */
+  attendance: number;
+  /** Extra points for large events in deep analysis */
+  depthBonus: number;
+}
+
+/**
+ * How one competing event contributed to a date's conflict score
+ */
+export interface ConflictEventContribution {
+  eventId: string;
+  title: string;
+  date: string;
+  category: string;
+  subcategory?: string | null;
+  venue?: string;
+  components: ConflictScoreComponents;
+  /** Longer events weigh more */
+  durationMultiplier: number;
+  /** Events just before or after the date weigh less than events on it */
+  temporalProximity: 'before' | 'on_date' | 'after';
+  temporalMultiplier: number;
+  seasonalMultiplier: number;
+  holidayMultiplier: number;
+  /** Predicted share of the planned event's audience (0-1), when advanced analysis ran */
+  audienceOverlap: number | null;
+  audienceOverlapMultiplier: number;
+  /** Scoring profile weight for events from a nearby city, 1 for events in the analysed city */
+  distanceMultiplier: number;
+  /** Points after every multiplier */
+  score: number;
+}
+
+export interface HolidayPenaltyBreakdown {
+  businessImpact: number;
+  venueClosure: number;
+  publicHolidays: number;
+  culturalEvents: number;
+  total: number;
+}
+
+/**
+ * One bar of the score waterfall
+ */
+export interface ConflictScoreStep {
+  label: string;
+  type: 'add' | 'multiply' | 'cap';
+  /** Points added, or the factor applied */
+  value: number;
+  /** Change to the running total */
+  delta: number;
+  /** Running total after this step */
+  total: number;
+  eventId?: string;
+}
+
+/**
+ * Structured explanation of a date's conflict score. Replaying `steps`
+ * reproduces `finalScore`.
+ */
+export interface ConflictScoreBreakdown {
+  /** Competing events scored in detail, highest contribution first */
+  contributions: ConflictEventContribution[];
+  /** Less significant events that only got a flat score */
+  unscoredEvents: number;
+  unscoredEventsScore: number;
+  audienceScalingFactor: number;
+  /** Larger planned events are hit harder by conflicts */
+  eventSizeMultiplier: number;
+  holidayPenalty: HolidayPenaltyBreakdown;
+  uncappedScore: number;
+  finalScore: number;
+  maxScore: number;
+  steps: ConflictScoreStep[];
+  /** Scoring profile weights already applied to the figures above */
+  weights: ScoringWeights;
+}
@@ -0,0 +1,69 @@
+// src/types/scoring-profiles.ts
+import { z } from 'zod';
+
+export const MIN_SCORING_WEIGHT = 0;
+export const MAX_SCORING_WEIGHT = 3;
+
+/**
+ * How strongly each factor counts towards a conflict score. 1 keeps the
+ * default behaviour, 0 ignores the factor and 2 doubles its effect.
+ */
+export interface ScoringWeights {
+  /** Points for a competing event in the same or a related category/subcategory */
+  categoryMatch: number;
+  /** Points for the competing event's expected attendance */
+  attendance: number;
+  /** How far the predicted audience overlap moves an event's score */
+  audienceOverlap: number;
+  /** Penalty for public holidays, cultural events and venue closures on the date */
+  holidayPenalty: number;
+  /** How far seasonal demand and holiday demand move an event's score */
+  seasonality: number;
+  /** Weight of competing events in nearby cities, relative to events in the analysed city */
+  distance: number;
+}
+
+/**
+ * A named set of weights stored for an account
+ */
+export interface ScoringProfile {
+  id: string;
+  userId: string | null;
+  name: string;
+  description: string | null;
+  weights: ScoringWeights;
+  /** Used when an analysis does not name a profile */
+  isDefault: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const weightSchema = z.number().min(MIN_SCORING_WEIGHT).max(MAX_SCORING_WEIGHT);
+
+export const ScoringWeightsSchema = z.object({
+  categoryMatch: weightSchema,
+  attendance: weightSchema,
+  audienceOverlap: weightSchema,
+  holidayPenalty: weightSchema,
+  seasonality: weightSchema,
+  distance: weightSchema
+}).partial();
+
+export const CreateScoringProfileSchema = z.object({
+  userId: z.string().uuid().nullable().optional(),
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).nullable().optional(),
+  // Missing weights default to 1
+  weights: ScoringWeightsSchema,
+  isDefault: z.boolean().optional()
+});
+
+export const UpdateScoringProfileSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().max(500).nullable().optional(),
+  weights: ScoringWeightsSchema.optional(),
+  isDefault: z.boolean().optional()
+});
+
+export type CreateScoringProfileData = z.infer<typeof CreateScoringProfileSchema>;
+export type UpdateScoringProfileData = z.infer<typeof UpdateScoringProfileSchema>;
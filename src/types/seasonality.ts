@@ -71,6 +71,10 @@ export interface HolidayConflict {
   businessImpact: 'none' | 'partial' | 'full';
   /** Whether venue closure is expected */
   venueClosureExpected: boolean;
+  /** Country observing the holiday (ISO 3166-1 alpha-3) */
+  countryCode?: string;
+  /** Holiday of a neighbouring country near the event city (e.g. Austria for Bratislava) */
+  crossBorder?: boolean;
 }
 
 /**
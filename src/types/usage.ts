@@ -0,0 +1,51 @@
+// src/types/usage.ts
+
+export const ORGANISATION_PLANS = ['starter', 'pro', 'agency'] as const;
+export type OrganisationPlan = typeof ORGANISATION_PLANS[number];
+
+/**
+ * What is metered:
+ * - analysis: one conflict analysis run (a city comparison counts one per city)
+ * - perplexity_research: one Perplexity API request
+ * - openai_overlap_call: one OpenAI request for audience overlap (cache hits are free)
+ */
+export const USAGE_METERS = ['analysis', 'perplexity_research', 'openai_overlap_call'] as const;
+export type UsageMeter = typeof USAGE_METERS[number];
+
+/**
+ * Monthly limit per meter; null means unlimited
+ */
+export type PlanQuotas = Record<UsageMeter, number | null>;
+
+export type UsageCounts = Partial<Record<UsageMeter, number>>;
+
+export interface MeterUsage {
+  meter: UsageMeter;
+  used: number;
+  limit: number | null;
+  /** null when unlimited */
+  remaining: number | null;
+  /** 0-100, null when unlimited */
+  percentUsed: number | null;
+}
+
+/**
+ * Consumption of an organisation in the current billing period (calendar month, UTC)
+ */
+export interface UsageSummary {
+  organisationId: string;
+  plan: OrganisationPlan;
+  periodStart: string;
+  periodEnd: string;
+  meters: MeterUsage[];
+}
+
+export interface QuotaCheck {
+  allowed: boolean;
+  meter: UsageMeter;
+  used: number;
+  limit: number | null;
+  requested: number;
+  /** Start of the next billing period */
+  resetsAt: string;
+}
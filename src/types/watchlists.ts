@@ -0,0 +1,107 @@
+// src/types/watchlists.ts
+import type { RiskLevel } from './analysis-history';
+
+export type WatchlistRiskThreshold = Extract<RiskLevel, 'Medium' | 'High'>;
+
+export type WatchlistAlertType = 'risk_threshold_crossed' | 'high_attendance_event';
+
+export type WatchlistCheckTrigger = 'data_sync' | 'scraper_sync' | 'manual' | 'created';
+
+/**
+ * A chosen event date that is re-scored after every event sync
+ */
+export interface Watchlist {
+  id: string;
+  userId: string | null;
+  /** Owning organisation; null for watchlists created without an API key */
+  organisationId: string | null;
+  analysisId: string | null;
+  name: string | null;
+  city: string;
+  category: string;
+  subcategory: string | null;
+  dateRangeStart: string;
+  dateRangeEnd: string;
+  expectedAttendees: number;
+  riskThreshold: WatchlistRiskThreshold;
+  highAttendanceThreshold: number;
+  webhookUrl: string | null;
+  enabled: boolean;
+  lastConflictScore: number | null;
+  lastRiskLevel: RiskLevel | null;
+  lastCompetingEventKeys: string[];
+  lastCheckedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateWatchlistData {
+  userId?: string | null;
+  organisationId?: string | null;
+  analysisId?: string | null;
+  name?: string | null;
+  city: string;
+  category: string;
+  subcategory?: string | null;
+  dateRangeStart: string;
+  dateRangeEnd: string;
+  expectedAttendees: number;
+  riskThreshold?: WatchlistRiskThreshold;
+  highAttendanceThreshold?: number;
+  webhookUrl?: string | null;
+}
+
+export type UpdateWatchlistData = Partial<Pick<
+  Watchlist,
+  'name' | 'riskThreshold' | 'highAttendanceThreshold' | 'webhookUrl' | 'enabled'
+>>;
+
+/**
+ * Competing event as stored on a watchlist alert
+ */
+export interface WatchlistAlertEvent {
+  key: string;
+  title: string;
+  date: string;
+  venue?: string;
+  expectedAttendees?: number;
+  source: string;
+}
+
+/**
+ * Result of re-scoring a watched date range
+ */
+export interface WatchlistScore {
+  conflictScore: number;
+  riskLevel: RiskLevel;
+  competingEvents: WatchlistAlertEvent[];
+}
+
+/**
+ * Alert produced by comparing a new score with the previous one, before it is stored
+ */
+export interface WatchlistAlertCandidate {
+  alertType: WatchlistAlertType;
+  message: string;
+  previousRiskLevel: RiskLevel | null;
+  riskLevel: RiskLevel;
+  previousConflictScore: number | null;
+  conflictScore: number;
+  events: WatchlistAlertEvent[];
+}
+
+export interface WatchlistAlert extends WatchlistAlertCandidate {
+  id: string;
+  watchlistId: string;
+  trigger: WatchlistCheckTrigger;
+  webhookStatus: 'skipped' | 'sent' | 'failed';
+  webhookResponseCode: number | null;
+  acknowledgedAt: string | null;
+  createdAt: string;
+}
+
+export interface WatchlistCheckResult {
+  watchlistId: string;
+  score: WatchlistScore;
+  alerts: WatchlistAlert[];
+}
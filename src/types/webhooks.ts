@@ -0,0 +1,71 @@
+// src/types/webhooks.ts
+
+export const WEBHOOK_EVENT_TYPES = ['analysis.completed', 'sync.completed', 'event.high_impact'] as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number];
+
+export type WebhookDeliveryStatus = 'pending' | 'success' | 'retrying' | 'failed';
+
+/**
+ * A registered outbound webhook endpoint
+ */
+export interface WebhookEndpoint {
+  id: string;
+  userId: string | null;
+  /** Owning organisation; null for endpoints registered with the operator key */
+  organisationId: string | null;
+  url: string;
+  secret: string;
+  description: string | null;
+  eventTypes: WebhookEventType[];
+  enabled: boolean;
+  cities: string[];
+  minExpectedAttendees: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Endpoint as returned by the API - the secret is only shown in full when the endpoint is created
+ */
+export type PublicWebhookEndpoint = Omit<WebhookEndpoint, 'secret'> & { secretPreview: string };
+
+export interface CreateWebhookEndpointData {
+  userId?: string | null;
+  organisationId?: string | null;
+  url: string;
+  secret?: string;
+  description?: string | null;
+  eventTypes: WebhookEventType[];
+  cities?: string[];
+  minExpectedAttendees?: number;
+}
+
+export type UpdateWebhookEndpointData = Partial<Pick<
+  WebhookEndpoint,
+  'url' | 'description' | 'eventTypes' | 'enabled' | 'cities' | 'minExpectedAttendees'
+>>;
+
+/**
+ * Body sent to webhook endpoints
+ */
+export interface WebhookPayload<T = Record<string, any>> {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  data: T;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  eventType: WebhookEventType;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  nextAttemptAt: string | null;
+  deliveredAt: string | null;
+  createdAt: string;
+}
@@ -0,0 +1,25 @@
+-- Migration to support saved analysis history with permalinks and re-runs
+-- Each re-run of an analysis is stored as a new row linked to the original
+
+ALTER TABLE conflict_analyses
+  ADD COLUMN IF NOT EXISTS parent_analysis_id UUID REFERENCES conflict_analyses(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS root_analysis_id UUID REFERENCES conflict_analyses(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+-- Backfill existing records: every existing analysis is the first version of its own chain
+UPDATE conflict_analyses
+SET root_analysis_id = id
+WHERE root_analysis_id IS NULL;
+
+-- Create indexes for version lookups
+CREATE INDEX IF NOT EXISTS idx_conflict_analyses_parent_analysis_id
+ON conflict_analyses(parent_analysis_id);
+
+-- Unique so two concurrent re-runs cannot both save the same version
+CREATE UNIQUE INDEX IF NOT EXISTS idx_conflict_analyses_root_analysis_id
+ON conflict_analyses(root_analysis_id, version);
+
+-- Add comments for documentation
+COMMENT ON COLUMN conflict_analyses.parent_analysis_id IS 'Analysis this one was re-run from (NULL for original analyses)';
+COMMENT ON COLUMN conflict_analyses.root_analysis_id IS 'First analysis in the re-run chain - shared by all versions';
+COMMENT ON COLUMN conflict_analyses.version IS 'Version number within the re-run chain (1 = original)';
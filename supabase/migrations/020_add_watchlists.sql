@@ -0,0 +1,73 @@
+-- Migration to add watchlists that re-check a chosen date after every event sync
+-- and record alerts when its conflict risk changes
+
+CREATE TABLE IF NOT EXISTS watchlists (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  analysis_id UUID REFERENCES conflict_analyses(id) ON DELETE SET NULL,
+  name VARCHAR(200),
+
+  -- Watched event parameters
+  city VARCHAR(100) NOT NULL,
+  category VARCHAR(100) NOT NULL,
+  subcategory VARCHAR(100),
+  date_range_start DATE NOT NULL,
+  date_range_end DATE NOT NULL,
+  expected_attendees INTEGER NOT NULL,
+
+  -- Alert configuration
+  risk_threshold VARCHAR(10) NOT NULL DEFAULT 'High' CHECK (risk_threshold IN ('Medium', 'High')),
+  high_attendance_threshold INTEGER NOT NULL DEFAULT 1000,
+  webhook_url TEXT,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+
+  -- Latest scoring state
+  last_conflict_score DECIMAL(5,2),
+  last_risk_level VARCHAR(10) CHECK (last_risk_level IN ('Low', 'Medium', 'High')),
+  last_competing_event_keys JSONB NOT NULL DEFAULT '[]'::jsonb,
+  last_checked_at TIMESTAMP WITH TIME ZONE,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT watchlists_date_range_check CHECK (date_range_end >= date_range_start)
+);
+
+CREATE TABLE IF NOT EXISTS watchlist_alerts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  watchlist_id UUID NOT NULL REFERENCES watchlists(id) ON DELETE CASCADE,
+  alert_type VARCHAR(30) NOT NULL CHECK (alert_type IN ('risk_threshold_crossed', 'high_attendance_event')),
+  message TEXT NOT NULL,
+
+  previous_risk_level VARCHAR(10),
+  risk_level VARCHAR(10) NOT NULL,
+  previous_conflict_score DECIMAL(5,2),
+  conflict_score DECIMAL(5,2) NOT NULL,
+  events JSONB NOT NULL DEFAULT '[]'::jsonb,
+
+  -- What triggered the re-check (data_sync, scraper_sync, manual)
+  trigger VARCHAR(30) NOT NULL DEFAULT 'manual',
+
+  webhook_status VARCHAR(20) NOT NULL DEFAULT 'skipped' CHECK (webhook_status IN ('skipped', 'sent', 'failed')),
+  webhook_response_code INTEGER,
+  acknowledged_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes for re-scoring after syncs and alert lookups
+CREATE INDEX IF NOT EXISTS idx_watchlists_city_enabled ON watchlists(city, enabled);
+CREATE INDEX IF NOT EXISTS idx_watchlists_date_range_end ON watchlists(date_range_end);
+CREATE INDEX IF NOT EXISTS idx_watchlists_user_id ON watchlists(user_id);
+CREATE INDEX IF NOT EXISTS idx_watchlist_alerts_watchlist_id ON watchlist_alerts(watchlist_id, created_at DESC);
+
+DROP TRIGGER IF EXISTS update_watchlists_updated_at ON watchlists;
+CREATE TRIGGER update_watchlists_updated_at BEFORE UPDATE ON watchlists
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Add comments for documentation
+COMMENT ON TABLE watchlists IS 'Chosen event dates that are re-scored after every event sync';
+COMMENT ON COLUMN watchlists.risk_threshold IS 'Alert when the risk level crosses this level in either direction';
+COMMENT ON COLUMN watchlists.high_attendance_threshold IS 'Alert when a new competing event with at least this many expected attendees appears';
+COMMENT ON COLUMN watchlists.last_competing_event_keys IS 'Normalized title|day keys of competing events at the last check';
+COMMENT ON TABLE watchlist_alerts IS 'Alerts raised when a watched date''s conflict risk changes';
+COMMENT ON COLUMN watchlist_alerts.webhook_status IS 'Delivery status of the optional watchlist webhook call';
@@ -0,0 +1,61 @@
+-- Migration to add outbound webhooks with HMAC-signed deliveries and a delivery log
+
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  -- Shared secret used to sign deliveries (HMAC-SHA256). Stored as-is because it is needed for signing.
+  secret TEXT NOT NULL,
+  description VARCHAR(200),
+  event_types TEXT[] NOT NULL DEFAULT ARRAY['analysis.completed']::TEXT[],
+  enabled BOOLEAN NOT NULL DEFAULT true,
+
+  -- Filters for event.high_impact deliveries
+  cities TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  min_expected_attendees INTEGER NOT NULL DEFAULT 1000,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT webhook_endpoints_event_types_check CHECK (
+    event_types <@ ARRAY['analysis.completed', 'sync.completed', 'event.high_impact']::TEXT[]
+  )
+);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  endpoint_id UUID NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+  event_type VARCHAR(50) NOT NULL,
+  payload JSONB NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'success', 'retrying', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_status_code INTEGER,
+  last_error TEXT,
+  next_attempt_at TIMESTAMP WITH TIME ZONE,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes for dispatch and retry lookups
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_enabled ON webhook_endpoints(enabled);
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_user_id ON webhook_endpoints(user_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint_id ON webhook_deliveries(endpoint_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_retry ON webhook_deliveries(next_attempt_at)
+  WHERE status = 'retrying';
+
+DROP TRIGGER IF EXISTS update_webhook_endpoints_updated_at ON webhook_endpoints;
+CREATE TRIGGER update_webhook_endpoints_updated_at BEFORE UPDATE ON webhook_endpoints
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_webhook_deliveries_updated_at ON webhook_deliveries;
+CREATE TRIGGER update_webhook_deliveries_updated_at BEFORE UPDATE ON webhook_deliveries
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Add comments for documentation
+COMMENT ON TABLE webhook_endpoints IS 'Registered outbound webhook endpoints';
+COMMENT ON COLUMN webhook_endpoints.event_types IS 'Subscribed event types: analysis.completed, sync.completed, event.high_impact';
+COMMENT ON COLUMN webhook_endpoints.cities IS 'Watched cities for event.high_impact (empty = all cities)';
+COMMENT ON COLUMN webhook_endpoints.min_expected_attendees IS 'Minimum expected_attendees of a newly stored event for event.high_impact';
+COMMENT ON TABLE webhook_deliveries IS 'Delivery log for outbound webhooks, including retry state';
+COMMENT ON COLUMN webhook_deliveries.next_attempt_at IS 'When a retrying delivery is attempted next (exponential backoff)';
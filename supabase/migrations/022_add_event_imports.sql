@@ -0,0 +1,17 @@
+-- Migration to add ICS/CSV imports as an event source
+-- Imported events use source = 'import'; feeds that refresh on the sync schedule
+-- are registered as scraper_sources rows with type = 'import'
+
+-- Allow imported events
+ALTER TABLE events DROP CONSTRAINT IF EXISTS events_source_check;
+ALTER TABLE events ADD CONSTRAINT events_source_check
+  CHECK (source IN ('ticketmaster', 'meetup', 'predicthq', 'manual', 'brno', 'goout', 'brnoexpat', 'firecrawl', 'agentql', 'scraper', 'import'));
+
+-- Allow import sources. config holds the import settings:
+-- { "format": "ics" | "csv", "city": "...", "category": "...", "mapping": { ... }, "delimiter": ";", "timeZone": "Europe/Prague" }
+ALTER TABLE scraper_sources DROP CONSTRAINT IF EXISTS scraper_sources_type_check;
+ALTER TABLE scraper_sources ADD CONSTRAINT scraper_sources_type_check
+  CHECK (type IN ('firecrawl', 'agentql', 'api', 'import'));
+
+COMMENT ON CONSTRAINT scraper_sources_type_check ON scraper_sources IS
+  'import sources fetch an ICS feed or CSV file from url and read their settings from config';
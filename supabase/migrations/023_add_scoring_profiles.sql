@@ -0,0 +1,32 @@
+-- Migration to add named scoring profiles with per-account weights for conflict scoring
+
+CREATE TABLE IF NOT EXISTS scoring_profiles (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  description VARCHAR(500),
+
+  -- Factor weights (1 = default behaviour, 0 = ignore the factor)
+  weights JSONB NOT NULL DEFAULT '{}'::jsonb,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT scoring_profiles_user_name_unique UNIQUE (user_id, name)
+);
+
+-- Create indexes for per-account lookups
+CREATE INDEX IF NOT EXISTS idx_scoring_profiles_user_id ON scoring_profiles(user_id);
+-- At most one default profile per account
+CREATE UNIQUE INDEX IF NOT EXISTS idx_scoring_profiles_user_default
+  ON scoring_profiles(user_id) WHERE is_default;
+
+DROP TRIGGER IF EXISTS update_scoring_profiles_updated_at ON scoring_profiles;
+CREATE TRIGGER update_scoring_profiles_updated_at BEFORE UPDATE ON scoring_profiles
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Add comments for documentation
+COMMENT ON TABLE scoring_profiles IS 'Named sets of conflict scoring weights stored per account';
+COMMENT ON COLUMN scoring_profiles.weights IS 'categoryMatch, attendance, audienceOverlap, holidayPenalty, seasonality and distance weights (0-3); missing weights default to 1';
+COMMENT ON COLUMN scoring_profiles.is_default IS 'Profile applied when an analysis for this account does not name one';
@@ -0,0 +1,75 @@
+-- Migration to add organisations with member roles and hashed per-organisation API keys,
+-- and to scope analyses, watchlists and feedback to the owning organisation
+
+CREATE TABLE IF NOT EXISTS organisations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name VARCHAR(200) NOT NULL,
+  slug VARCHAR(60) UNIQUE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS organisation_members (
+  organisation_id UUID NOT NULL REFERENCES organisations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  role VARCHAR(10) NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'admin', 'member', 'viewer')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (organisation_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS api_keys (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organisation_id UUID NOT NULL REFERENCES organisations(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+
+  -- Only the SHA-256 hash of the key is stored
+  key_prefix VARCHAR(8) UNIQUE NOT NULL,
+  key_hash VARCHAR(64) NOT NULL,
+  scopes TEXT[] NOT NULL DEFAULT '{}',
+
+  created_by UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  rotated_from_id UUID REFERENCES api_keys(id) ON DELETE SET NULL,
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT api_keys_scopes_check CHECK (
+    scopes <@ ARRAY['analyze', 'events:read', 'feedback:write', 'scraper:admin', 'org:admin']::TEXT[]
+  )
+);
+
+-- Scope existing per-user data to organisations
+ALTER TABLE conflict_analyses
+  ADD COLUMN IF NOT EXISTS organisation_id UUID REFERENCES organisations(id) ON DELETE CASCADE;
+ALTER TABLE watchlists
+  ADD COLUMN IF NOT EXISTS organisation_id UUID REFERENCES organisations(id) ON DELETE CASCADE;
+ALTER TABLE event_feedback
+  ADD COLUMN IF NOT EXISTS organisation_id UUID REFERENCES organisations(id) ON DELETE CASCADE;
+
+-- Create indexes for membership, key lookups and per-organisation listings
+CREATE INDEX IF NOT EXISTS idx_organisation_members_user_id ON organisation_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_api_keys_organisation_id ON api_keys(organisation_id);
+CREATE INDEX IF NOT EXISTS idx_conflict_analyses_organisation_id ON conflict_analyses(organisation_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_watchlists_organisation_id ON watchlists(organisation_id);
+CREATE INDEX IF NOT EXISTS idx_event_feedback_organisation_id ON event_feedback(organisation_id);
+
+DROP TRIGGER IF EXISTS update_organisations_updated_at ON organisations;
+CREATE TRIGGER update_organisations_updated_at BEFORE UPDATE ON organisations
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_organisation_members_updated_at ON organisation_members;
+CREATE TRIGGER update_organisation_members_updated_at BEFORE UPDATE ON organisation_members
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Add comments for documentation
+COMMENT ON TABLE organisations IS 'Tenants that own analyses, watchlists, feedback and API keys';
+COMMENT ON TABLE organisation_members IS 'Users of an organisation and their role (owner, admin, member, viewer)';
+COMMENT ON TABLE api_keys IS 'Per-organisation API keys; keys are stored as SHA-256 hashes';
+COMMENT ON COLUMN api_keys.key_prefix IS 'Random prefix embedded in the key (osk_<prefix>_<secret>) used to look the key up';
+COMMENT ON COLUMN api_keys.scopes IS 'Granted scopes, limited at request time to what the creator''s current role allows';
+COMMENT ON COLUMN api_keys.expires_at IS 'Set on rotation so the replaced key keeps working during the grace period';
+COMMENT ON COLUMN conflict_analyses.organisation_id IS 'Owning organisation; NULL for anonymous analyses from the web app';
+COMMENT ON COLUMN watchlists.organisation_id IS 'Owning organisation; NULL for watchlists created without an API key';
+COMMENT ON COLUMN event_feedback.organisation_id IS 'Organisation that submitted the feedback';
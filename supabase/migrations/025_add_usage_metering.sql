@@ -0,0 +1,25 @@
+-- Migration to add pricing plans to organisations and a usage ledger for
+-- analyses, Perplexity research and OpenAI overlap calls
+
+ALTER TABLE organisations
+  ADD COLUMN IF NOT EXISTS plan VARCHAR(10) NOT NULL DEFAULT 'starter'
+    CHECK (plan IN ('starter', 'pro', 'agency'));
+
+CREATE TABLE IF NOT EXISTS usage_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organisation_id UUID REFERENCES organisations(id) ON DELETE CASCADE,
+  api_key_id UUID REFERENCES api_keys(id) ON DELETE SET NULL,
+  meter VARCHAR(30) NOT NULL CHECK (meter IN ('analysis', 'perplexity_research', 'openai_overlap_call')),
+  quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create index for monthly sums per organisation and meter
+CREATE INDEX IF NOT EXISTS idx_usage_events_organisation_meter
+  ON usage_events(organisation_id, meter, created_at);
+
+-- Add comments for documentation
+COMMENT ON COLUMN organisations.plan IS 'Pricing plan that sets the monthly quotas (starter, pro, agency)';
+COMMENT ON TABLE usage_events IS 'Metered usage; monthly quotas are enforced on the sum per organisation and meter';
+COMMENT ON COLUMN usage_events.organisation_id IS 'Organisation billed for the usage; NULL for anonymous web app requests';
+COMMENT ON COLUMN usage_events.quantity IS 'Units consumed, e.g. number of OpenAI calls made by one analysis';
@@ -0,0 +1,51 @@
+-- Migration to add shared sliding-window rate limit counters, so limits hold
+-- across serverless instances and survive cold starts
+
+CREATE TABLE IF NOT EXISTS rate_limit_hits (
+  id BIGSERIAL PRIMARY KEY,
+  bucket_key VARCHAR(200) NOT NULL,
+  hit_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Create index for window counts per bucket
+CREATE INDEX IF NOT EXISTS idx_rate_limit_hits_bucket ON rate_limit_hits(bucket_key, hit_at);
+
+-- Record a hit unless the bucket already holds p_limit hits in the last p_window_ms
+CREATE OR REPLACE FUNCTION consume_rate_limit(p_key TEXT, p_limit INTEGER, p_window_ms INTEGER)
+RETURNS TABLE (allowed BOOLEAN, hit_count INTEGER, reset_at TIMESTAMP WITH TIME ZONE) AS $$
+DECLARE
+  v_now TIMESTAMP WITH TIME ZONE := clock_timestamp();
+  v_window INTERVAL := make_interval(secs => p_window_ms / 1000.0);
+  v_count INTEGER;
+  v_oldest TIMESTAMP WITH TIME ZONE;
+BEGIN
+  -- Serialise concurrent hits on the same bucket
+  PERFORM pg_advisory_xact_lock(hashtext(p_key));
+
+  DELETE FROM rate_limit_hits WHERE bucket_key = p_key AND hit_at <= v_now - v_window;
+
+  -- Occasionally clear buckets that are no longer hit
+  IF random() < 0.01 THEN
+    DELETE FROM rate_limit_hits WHERE hit_at < v_now - INTERVAL '1 day';
+  END IF;
+
+  SELECT COUNT(*), MIN(hit_at) INTO v_count, v_oldest
+  FROM rate_limit_hits
+  WHERE bucket_key = p_key;
+
+  allowed := v_count < p_limit;
+  IF allowed THEN
+    INSERT INTO rate_limit_hits (bucket_key, hit_at) VALUES (p_key, v_now);
+    v_count := v_count + 1;
+  END IF;
+
+  hit_count := v_count;
+  reset_at := COALESCE(v_oldest, v_now) + v_window;
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add comments for documentation
+COMMENT ON TABLE rate_limit_hits IS 'Sliding-window rate limit hits, used when RATE_LIMIT_STORE=postgres';
+COMMENT ON COLUMN rate_limit_hits.bucket_key IS 'Policy and caller, e.g. analyze:ip:203.0.113.7 or analyze:key:<api key id>';
+COMMENT ON FUNCTION consume_rate_limit IS 'Atomically records a hit unless the bucket is full; returns the window state';
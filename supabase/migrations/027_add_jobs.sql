@@ -0,0 +1,91 @@
+-- Migration to add a durable background job queue for long-running analyses,
+-- with step-level progress, cancellation and retries
+
+CREATE TABLE IF NOT EXISTS jobs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  type VARCHAR(30) NOT NULL CHECK (type IN ('analysis')),
+  status VARCHAR(20) NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'succeeded', 'failed', 'cancelled')),
+  payload JSONB NOT NULL,
+
+  -- Progress of the current attempt
+  current_step VARCHAR(50),
+  progress INTEGER NOT NULL DEFAULT 0 CHECK (progress BETWEEN 0 AND 100),
+
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  last_error TEXT,
+  result JSONB,
+
+  -- Owner, for access checks and usage metering
+  organisation_id UUID REFERENCES organisations(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  api_key_id UUID REFERENCES api_keys(id) ON DELETE SET NULL,
+
+  run_after TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  locked_until TIMESTAMP WITH TIME ZONE,
+  cancel_requested_at TIMESTAMP WITH TIME ZONE,
+  started_at TIMESTAMP WITH TIME ZONE,
+  finished_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes for claiming due jobs and per-organisation listings
+CREATE INDEX IF NOT EXISTS idx_jobs_due ON jobs(run_after) WHERE status = 'queued';
+CREATE INDEX IF NOT EXISTS idx_jobs_lease ON jobs(locked_until) WHERE status = 'running';
+CREATE INDEX IF NOT EXISTS idx_jobs_organisation_id ON jobs(organisation_id, created_at DESC);
+
+DROP TRIGGER IF EXISTS update_jobs_updated_at ON jobs;
+CREATE TRIGGER update_jobs_updated_at BEFORE UPDATE ON jobs
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Claim due jobs for a worker: queued jobs whose run_after has passed and running
+-- jobs whose lease expired (their worker died). Pass p_job_id to claim one specific job.
+-- SKIP LOCKED keeps concurrent workers from claiming the same job.
+CREATE OR REPLACE FUNCTION claim_jobs(p_limit INTEGER, p_lease_seconds INTEGER, p_job_id UUID DEFAULT NULL)
+RETURNS SETOF jobs AS $$
+BEGIN
+  -- Settle running jobs whose worker died and that cannot be retried
+  UPDATE jobs
+  SET status = CASE WHEN cancel_requested_at IS NOT NULL THEN 'cancelled' ELSE 'failed' END,
+      last_error = CASE WHEN cancel_requested_at IS NOT NULL THEN last_error ELSE 'Worker lease expired' END,
+      locked_until = NULL,
+      finished_at = NOW()
+  WHERE status = 'running'
+    AND locked_until < NOW()
+    AND (attempts >= max_attempts OR cancel_requested_at IS NOT NULL);
+
+  RETURN QUERY
+  UPDATE jobs
+  SET status = 'running',
+      attempts = jobs.attempts + 1,
+      locked_until = NOW() + make_interval(secs => p_lease_seconds),
+      started_at = COALESCE(jobs.started_at, NOW()),
+      last_error = CASE WHEN jobs.status = 'running' THEN 'Worker lease expired' ELSE jobs.last_error END
+  WHERE jobs.id IN (
+    SELECT candidate.id
+    FROM jobs candidate
+    WHERE (p_job_id IS NULL OR candidate.id = p_job_id)
+      AND candidate.cancel_requested_at IS NULL
+      AND (
+        (candidate.status = 'queued' AND candidate.run_after <= NOW())
+        OR (candidate.status = 'running' AND candidate.locked_until < NOW())
+      )
+      AND candidate.attempts < candidate.max_attempts
+    ORDER BY candidate.run_after
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING jobs.*;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add comments for documentation
+COMMENT ON TABLE jobs IS 'Background jobs (currently conflict analyses) with progress, cancellation and retries';
+COMMENT ON COLUMN jobs.payload IS 'Job input; for analysis jobs the saved analysis request';
+COMMENT ON COLUMN jobs.current_step IS 'Step the running attempt is in, e.g. fetching-events';
+COMMENT ON COLUMN jobs.result IS 'Job output; for analysis jobs the saved analysis ID and the analysis result';
+COMMENT ON COLUMN jobs.run_after IS 'Earliest start of the next attempt (retry backoff)';
+COMMENT ON COLUMN jobs.locked_until IS 'Lease of the worker running the job; expired leases are reclaimed';
+COMMENT ON COLUMN jobs.cancel_requested_at IS 'Set when cancellation of a running job was requested; the worker stops at the next step';
@@ -0,0 +1,19 @@
+-- Migration to store progress events of background jobs, streamed to clients
+-- by GET /api/jobs/[id]/stream
+
+CREATE TABLE IF NOT EXISTS job_events (
+  id BIGSERIAL PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  type VARCHAR(40) NOT NULL,
+  data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create index for tailing a job's events
+CREATE INDEX IF NOT EXISTS idx_job_events_job_id ON job_events(job_id, id);
+
+-- Add comments for documentation
+COMMENT ON TABLE job_events IS 'Progress events of background jobs, e.g. provider fetches and best dates so far of an analysis';
+COMMENT ON COLUMN job_events.id IS 'Increasing ID, used as the server-sent event ID so clients can resume a stream';
+COMMENT ON COLUMN job_events.type IS 'Event type, e.g. step, provider-fetched, dates-scored, partial-recommendations';
+COMMENT ON COLUMN job_events.data IS 'Event fields other than the type';
@@ -0,0 +1,5 @@
+-- Migration to allow events synced from Eventbrite
+
+ALTER TABLE events DROP CONSTRAINT IF EXISTS events_source_check;
+ALTER TABLE events ADD CONSTRAINT events_source_check
+  CHECK (source IN ('ticketmaster', 'meetup', 'predicthq', 'eventbrite', 'manual', 'brno', 'goout', 'brnoexpat', 'firecrawl', 'agentql', 'scraper', 'import'));
@@ -0,0 +1,3 @@
+-- Migration to document RSVP counts (Meetup) as a source of attendee data
+
+COMMENT ON COLUMN events.attendee_source IS 'Source of attendee data: explicit, phq_api, rsvp_count, venue_capacity, ai_extraction, category_default, user_verified';
@@ -0,0 +1,21 @@
+-- Migration to record outcomes of the dedicated site parsers (GoOut, Ticketportal),
+-- reported as per-parser success rates by GET /api/observability
+
+CREATE TABLE IF NOT EXISTS site_parser_runs (
+  id BIGSERIAL PRIMARY KEY,
+  parser VARCHAR(40) NOT NULL,
+  page_url TEXT NOT NULL,
+  succeeded BOOLEAN NOT NULL,
+  events_parsed INTEGER NOT NULL DEFAULT 0,
+  events_skipped INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  ran_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create index for success rates per parser over recent runs
+CREATE INDEX IF NOT EXISTS idx_site_parser_runs_parser ON site_parser_runs(parser, ran_at);
+
+-- Add comments for documentation
+COMMENT ON TABLE site_parser_runs IS 'One row per page a dedicated site parser was run on';
+COMMENT ON COLUMN site_parser_runs.succeeded IS 'False when the parser found no events and the page fell back to LLM extraction';
+COMMENT ON COLUMN site_parser_runs.events_skipped IS 'Event entries in the page markup dropped for a missing title or date';
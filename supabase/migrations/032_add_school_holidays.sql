@@ -0,0 +1,108 @@
+-- Migration to add Czech school holiday calendars. Nationwide breaks (autumn,
+-- Christmas, half-term, Easter, summer) apply everywhere; the one-week spring
+-- break (jarní prázdniny) is set per district (okres) and rotates every school
+-- year. Add each new school year's rows from MŠMT's "Organizace školního roku".
+
+INSERT INTO holiday_types (name, description, impact_level) VALUES
+('school_holiday', 'School break; many families with children are away', 'medium')
+ON CONFLICT (name) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS school_holidays (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  country_id UUID REFERENCES countries(id) ON DELETE CASCADE,
+  region_id UUID REFERENCES regions(id) ON DELETE CASCADE, -- Kraj of the district; NULL for nationwide breaks
+  district VARCHAR(100), -- Okres (e.g. 'Brno-město'); NULL for nationwide breaks
+  kind VARCHAR(20) NOT NULL CHECK (kind IN ('autumn', 'christmas', 'half_term', 'spring', 'easter', 'summer')),
+  name VARCHAR(200) NOT NULL,
+  name_native VARCHAR(200),
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  school_year VARCHAR(9) NOT NULL, -- e.g. '2025/2026'
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (end_date >= start_date)
+);
+
+-- Create indexes for range lookups by district
+CREATE INDEX IF NOT EXISTS idx_school_holidays_dates ON school_holidays(start_date, end_date);
+CREATE INDEX IF NOT EXISTS idx_school_holidays_district ON school_holidays(district);
+
+-- Nationwide breaks
+INSERT INTO school_holidays (country_id, kind, name, name_native, start_date, end_date, school_year)
+SELECT c.id, b.kind, b.name, b.name_native, b.start_date, b.end_date, b.school_year
+FROM countries c
+CROSS JOIN (VALUES
+  ('autumn', 'Autumn break', 'Podzimní prázdniny', DATE '2025-10-29', DATE '2025-10-30', '2025/2026'),
+  ('christmas', 'Christmas break', 'Vánoční prázdniny', DATE '2025-12-22', DATE '2026-01-02', '2025/2026'),
+  ('half_term', 'Half-term break', 'Pololetní prázdniny', DATE '2026-01-30', DATE '2026-01-30', '2025/2026'),
+  ('easter', 'Easter break', 'Velikonoční prázdniny', DATE '2026-04-02', DATE '2026-04-02', '2025/2026'),
+  ('summer', 'Summer holidays', 'Hlavní prázdniny', DATE '2026-07-01', DATE '2026-08-31', '2025/2026'),
+  ('autumn', 'Autumn break', 'Podzimní prázdniny', DATE '2026-10-29', DATE '2026-10-30', '2026/2027'),
+  ('christmas', 'Christmas break', 'Vánoční prázdniny', DATE '2026-12-23', DATE '2027-01-03', '2026/2027'),
+  ('half_term', 'Half-term break', 'Pololetní prázdniny', DATE '2027-01-29', DATE '2027-01-29', '2026/2027'),
+  ('easter', 'Easter break', 'Velikonoční prázdniny', DATE '2027-03-25', DATE '2027-03-25', '2026/2027'),
+  ('summer', 'Summer holidays', 'Hlavní prázdniny', DATE '2027-07-01', DATE '2027-08-31', '2026/2027')
+) AS b(kind, name, name_native, start_date, end_date, school_year)
+WHERE c.code = 'CZE';
+
+-- Spring breaks: each district belongs to one of six groups, and each school
+-- year gives every group one week between February and mid-March
+INSERT INTO school_holidays (country_id, region_id, district, kind, name, name_native, start_date, end_date, school_year)
+SELECT c.id, r.id, d.district, 'spring', 'Spring break', 'Jarní prázdniny', w.start_date, w.start_date + 6, w.school_year
+FROM (VALUES
+  ('Benešov', 'CZ-CE', 1), ('Beroun', 'CZ-CE', 1), ('Kladno', 'CZ-CE', 1), ('Kolín', 'CZ-CE', 1),
+  ('Kutná Hora', 'CZ-CE', 1), ('Mělník', 'CZ-CE', 1), ('Mladá Boleslav', 'CZ-CE', 1), ('Nymburk', 'CZ-CE', 1),
+  ('Praha-východ', 'CZ-CE', 1), ('Praha-západ', 'CZ-CE', 1), ('Příbram', 'CZ-CE', 1), ('Rakovník', 'CZ-CE', 1),
+  ('Praha 1-5', 'CZ-PR', 2),
+  ('Děčín', 'CZ-US', 2), ('Chomutov', 'CZ-US', 2), ('Litoměřice', 'CZ-US', 2), ('Louny', 'CZ-US', 2),
+  ('Most', 'CZ-US', 2), ('Teplice', 'CZ-US', 2), ('Ústí nad Labem', 'CZ-US', 2),
+  ('Cheb', 'CZ-KA', 2), ('Karlovy Vary', 'CZ-KA', 2), ('Sokolov', 'CZ-KA', 2),
+  ('Praha 6-10', 'CZ-PR', 3),
+  ('Domažlice', 'CZ-PL', 3), ('Klatovy', 'CZ-PL', 3), ('Plzeň-jih', 'CZ-PL', 3), ('Plzeň-město', 'CZ-PL', 3),
+  ('Plzeň-sever', 'CZ-PL', 3), ('Rokycany', 'CZ-PL', 3), ('Tachov', 'CZ-PL', 3),
+  ('Česká Lípa', 'CZ-LI', 3), ('Jablonec nad Nisou', 'CZ-LI', 3), ('Liberec', 'CZ-LI', 3), ('Semily', 'CZ-LI', 3),
+  ('Blansko', 'CZ-JM', 4), ('Brno-město', 'CZ-JM', 4), ('Brno-venkov', 'CZ-JM', 4), ('Břeclav', 'CZ-JM', 4),
+  ('Hodonín', 'CZ-JM', 4), ('Vyškov', 'CZ-JM', 4), ('Znojmo', 'CZ-JM', 4),
+  ('Havlíčkův Brod', 'CZ-VY', 4), ('Jihlava', 'CZ-VY', 4), ('Pelhřimov', 'CZ-VY', 4), ('Třebíč', 'CZ-VY', 4),
+  ('Žďár nad Sázavou', 'CZ-VY', 4),
+  ('České Budějovice', 'CZ-SO', 5), ('Český Krumlov', 'CZ-SO', 5), ('Jindřichův Hradec', 'CZ-SO', 5),
+  ('Písek', 'CZ-SO', 5), ('Prachatice', 'CZ-SO', 5), ('Strakonice', 'CZ-SO', 5), ('Tábor', 'CZ-SO', 5),
+  ('Hradec Králové', 'CZ-KR', 5), ('Jičín', 'CZ-KR', 5), ('Náchod', 'CZ-KR', 5), ('Rychnov nad Kněžnou', 'CZ-KR', 5),
+  ('Trutnov', 'CZ-KR', 5),
+  ('Chrudim', 'CZ-PA', 5), ('Pardubice', 'CZ-PA', 5), ('Svitavy', 'CZ-PA', 5), ('Ústí nad Orlicí', 'CZ-PA', 5),
+  ('Jeseník', 'CZ-OL', 6), ('Olomouc', 'CZ-OL', 6), ('Prostějov', 'CZ-OL', 6), ('Přerov', 'CZ-OL', 6),
+  ('Šumperk', 'CZ-OL', 6),
+  ('Kroměříž', 'CZ-ZL', 6), ('Uherské Hradiště', 'CZ-ZL', 6), ('Vsetín', 'CZ-ZL', 6), ('Zlín', 'CZ-ZL', 6),
+  ('Bruntál', 'CZ-MO', 6), ('Frýdek-Místek', 'CZ-MO', 6), ('Karviná', 'CZ-MO', 6), ('Nový Jičín', 'CZ-MO', 6),
+  ('Opava', 'CZ-MO', 6), ('Ostrava-město', 'CZ-MO', 6)
+) AS d(district, region_code, spring_group)
+JOIN (VALUES
+  (1, DATE '2026-02-02', '2025/2026'),
+  (2, DATE '2026-02-09', '2025/2026'),
+  (3, DATE '2026-02-16', '2025/2026'),
+  (4, DATE '2026-02-23', '2025/2026'),
+  (5, DATE '2026-03-02', '2025/2026'),
+  (6, DATE '2026-03-09', '2025/2026'),
+  (2, DATE '2027-02-01', '2026/2027'),
+  (3, DATE '2027-02-08', '2026/2027'),
+  (4, DATE '2027-02-15', '2026/2027'),
+  (5, DATE '2027-02-22', '2026/2027'),
+  (6, DATE '2027-03-01', '2026/2027'),
+  (1, DATE '2027-03-08', '2026/2027')
+) AS w(spring_group, start_date, school_year) ON w.spring_group = d.spring_group
+JOIN countries c ON c.code = 'CZE'
+JOIN regions r ON r.code = d.region_code;
+
+-- Attendance impact of school breaks by event category; family and cultural
+-- audiences are the most affected
+INSERT INTO holiday_impact_rules (holiday_type, event_category, days_before, days_after, impact_multiplier, impact_type, region, confidence, data_source, reasoning) VALUES
+('school_holiday', 'Entertainment', 0, 0, 1.60, 'demand', 'CZ', 0.75, 'expert_rules', 'Families with children travel during school breaks, especially the district spring break'),
+('school_holiday', 'Arts & Culture', 0, 0, 1.50, 'demand', 'CZ', 0.75, 'expert_rules', 'Family and school audiences for cultural events are away during school breaks'),
+('school_holiday', 'Sports', 0, 0, 1.30, 'demand', 'CZ', 0.70, 'expert_rules', 'Youth and family sports attendance drops during school breaks'),
+('school_holiday', 'Education', 0, 0, 1.20, 'demand', 'CZ', 0.65, 'expert_rules', 'Teachers and parents are less available during school breaks'),
+('school_holiday', 'Business', 0, 0, 1.10, 'demand', 'CZ', 0.60, 'expert_rules', 'Parents among professionals often take leave during school breaks'),
+('school_holiday', 'Technology', 0, 0, 1.10, 'demand', 'CZ', 0.60, 'expert_rules', 'Parents among professionals often take leave during school breaks')
+ON CONFLICT (holiday_type, event_category, event_subcategory, region) DO NOTHING;
+
+-- Add comments for documentation
+COMMENT ON TABLE school_holidays IS 'Czech school breaks by school year; spring breaks are per district (okres)';
+COMMENT ON COLUMN school_holidays.district IS 'Okres the break applies to; NULL for nationwide breaks. Prague is split into Praha 1-5 and Praha 6-10';
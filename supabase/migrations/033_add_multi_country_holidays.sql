@@ -0,0 +1,236 @@
+-- Migration to add holiday data for Slovakia, Austria, Poland and Germany,
+-- with German Länder holidays as regional holidays, and the region of each
+-- city so events resolve their country and region from the city database.
+-- Dates are stored as rules; observances are materialised per year by
+-- HolidayService. Austrian state patron days are not statutory days off and
+-- are left out.
+
+-- Countries
+INSERT INTO countries (code, name, name_native, region) VALUES
+('SVK', 'Slovakia', 'Slovensko', 'Europe'),
+('AUT', 'Austria', 'Österreich', 'Europe'),
+('POL', 'Poland', 'Polska', 'Europe'),
+('DEU', 'Germany', 'Deutschland', 'Europe')
+ON CONFLICT (code) DO NOTHING;
+
+-- First-level regions (ISO 3166-2)
+INSERT INTO regions (country_id, code, name, name_native)
+SELECT c.id, r.code, r.name, r.name_native
+FROM (VALUES
+  ('SVK', 'SK-BL', 'Bratislava Region', 'Bratislavský kraj'),
+  ('SVK', 'SK-TA', 'Trnava Region', 'Trnavský kraj'),
+  ('SVK', 'SK-TC', 'Trenčín Region', 'Trenčiansky kraj'),
+  ('SVK', 'SK-NI', 'Nitra Region', 'Nitriansky kraj'),
+  ('SVK', 'SK-ZI', 'Žilina Region', 'Žilinský kraj'),
+  ('SVK', 'SK-BC', 'Banská Bystrica Region', 'Banskobystrický kraj'),
+  ('SVK', 'SK-PV', 'Prešov Region', 'Prešovský kraj'),
+  ('SVK', 'SK-KI', 'Košice Region', 'Košický kraj'),
+  ('AUT', 'AT-1', 'Burgenland', 'Burgenland'),
+  ('AUT', 'AT-2', 'Carinthia', 'Kärnten'),
+  ('AUT', 'AT-3', 'Lower Austria', 'Niederösterreich'),
+  ('AUT', 'AT-4', 'Upper Austria', 'Oberösterreich'),
+  ('AUT', 'AT-5', 'Salzburg', 'Salzburg'),
+  ('AUT', 'AT-6', 'Styria', 'Steiermark'),
+  ('AUT', 'AT-7', 'Tyrol', 'Tirol'),
+  ('AUT', 'AT-8', 'Vorarlberg', 'Vorarlberg'),
+  ('AUT', 'AT-9', 'Vienna', 'Wien'),
+  ('POL', 'PL-DS', 'Lower Silesian', 'Dolnośląskie'),
+  ('POL', 'PL-KP', 'Kuyavian-Pomeranian', 'Kujawsko-pomorskie'),
+  ('POL', 'PL-LU', 'Lublin', 'Lubelskie'),
+  ('POL', 'PL-LB', 'Lubusz', 'Lubuskie'),
+  ('POL', 'PL-LD', 'Łódź', 'Łódzkie'),
+  ('POL', 'PL-MA', 'Lesser Poland', 'Małopolskie'),
+  ('POL', 'PL-MZ', 'Masovian', 'Mazowieckie'),
+  ('POL', 'PL-OP', 'Opole', 'Opolskie'),
+  ('POL', 'PL-PK', 'Subcarpathian', 'Podkarpackie'),
+  ('POL', 'PL-PD', 'Podlaskie', 'Podlaskie'),
+  ('POL', 'PL-PM', 'Pomeranian', 'Pomorskie'),
+  ('POL', 'PL-SL', 'Silesian', 'Śląskie'),
+  ('POL', 'PL-SK', 'Holy Cross', 'Świętokrzyskie'),
+  ('POL', 'PL-WN', 'Warmian-Masurian', 'Warmińsko-mazurskie'),
+  ('POL', 'PL-WP', 'Greater Poland', 'Wielkopolskie'),
+  ('POL', 'PL-ZP', 'West Pomeranian', 'Zachodniopomorskie'),
+  ('DEU', 'DE-BW', 'Baden-Württemberg', 'Baden-Württemberg'),
+  ('DEU', 'DE-BY', 'Bavaria', 'Bayern'),
+  ('DEU', 'DE-BE', 'Berlin', 'Berlin'),
+  ('DEU', 'DE-BB', 'Brandenburg', 'Brandenburg'),
+  ('DEU', 'DE-HB', 'Bremen', 'Bremen'),
+  ('DEU', 'DE-HH', 'Hamburg', 'Hamburg'),
+  ('DEU', 'DE-HE', 'Hesse', 'Hessen'),
+  ('DEU', 'DE-MV', 'Mecklenburg-Vorpommern', 'Mecklenburg-Vorpommern'),
+  ('DEU', 'DE-NI', 'Lower Saxony', 'Niedersachsen'),
+  ('DEU', 'DE-NW', 'North Rhine-Westphalia', 'Nordrhein-Westfalen'),
+  ('DEU', 'DE-RP', 'Rhineland-Palatinate', 'Rheinland-Pfalz'),
+  ('DEU', 'DE-SL', 'Saarland', 'Saarland'),
+  ('DEU', 'DE-SN', 'Saxony', 'Sachsen'),
+  ('DEU', 'DE-ST', 'Saxony-Anhalt', 'Sachsen-Anhalt'),
+  ('DEU', 'DE-SH', 'Schleswig-Holstein', 'Schleswig-Holstein'),
+  ('DEU', 'DE-TH', 'Thuringia', 'Thüringen')
+) AS r(country_code, code, name, name_native)
+JOIN countries c ON c.code = r.country_code
+ON CONFLICT (country_id, code) DO NOTHING;
+
+-- Public holidays; rows with a region code apply only there (German Länder).
+-- date_type 'variable' is easter_offset days from Easter Sunday; 'floating'
+-- is the first weekday (0 = Sunday) on or after month/day.
+INSERT INTO holidays (name, name_native, description, holiday_type_id, country_id, region_id, date_type, month, day, weekday, easter_offset, business_impact, venue_closure_expected, year_start, year_end)
+SELECT h.name, h.name_native, h.name, ht.id, c.id, r.id, h.date_type,
+       h.month::INTEGER, h.day::INTEGER, h.weekday::INTEGER, h.easter_offset::INTEGER,
+       h.business_impact, h.business_impact = 'full', h.year_start::INTEGER, h.year_end::INTEGER
+FROM (VALUES
+  -- Slovakia (Act 241/1993; 1 September and 17 November stopped being days
+  -- off under the consolidation packages, check against the current act)
+  ('SVK', NULL, 'Day of the Establishment of the Slovak Republic', 'Deň vzniku Slovenskej republiky', 'fixed', 1, 1, NULL, NULL, 'full', 1993, NULL),
+  ('SVK', NULL, 'Epiphany', 'Zjavenie Pána', 'fixed', 1, 6, NULL, NULL, 'full', 1993, NULL),
+  ('SVK', NULL, 'Good Friday', 'Veľký piatok', 'variable', NULL, NULL, NULL, -2, 'full', 1993, NULL),
+  ('SVK', NULL, 'Easter Monday', 'Veľkonočný pondelok', 'variable', NULL, NULL, NULL, 1, 'full', 1993, NULL),
+  ('SVK', NULL, 'Labour Day', 'Sviatok práce', 'fixed', 5, 1, NULL, NULL, 'full', 1993, NULL),
+  ('SVK', NULL, 'Victory over Fascism Day', 'Deň víťazstva nad fašizmom', 'fixed', 5, 8, NULL, NULL, 'full', 1993, NULL),
+  ('SVK', NULL, 'St. Cyril and Methodius Day', 'Sviatok svätého Cyrila a svätého Metoda', 'fixed', 7, 5, NULL, NULL, 'full', 1993, NULL),
+  ('SVK', NULL, 'Slovak National Uprising Anniversary', 'Výročie Slovenského národného povstania', 'fixed', 8, 29, NULL, NULL, 'full', 1993, NULL),
+  ('SVK', NULL, 'Constitution Day', 'Deň Ústavy Slovenskej republiky', 'fixed', 9, 1, NULL, NULL, 'full', 1993, 2024),
+  ('SVK', NULL, 'Our Lady of Sorrows', 'Sedembolestná Panna Mária', 'fixed', 9, 15, NULL, NULL, 'full', 1993, NULL),
+  ('SVK', NULL, 'All Saints'' Day', 'Sviatok všetkých svätých', 'fixed', 11, 1, NULL, NULL, 'full', 1993, NULL),
+  ('SVK', NULL, 'Struggle for Freedom and Democracy Day', 'Deň boja za slobodu a demokraciu', 'fixed', 11, 17, NULL, NULL, 'full', 1993, 2024),
+  ('SVK', NULL, 'Christmas Eve', 'Štedrý deň', 'fixed', 12, 24, NULL, NULL, 'full', 1993, NULL),
+  ('SVK', NULL, 'Christmas Day', 'Prvý sviatok vianočný', 'fixed', 12, 25, NULL, NULL, 'full', 1993, NULL),
+  ('SVK', NULL, 'St. Stephen''s Day', 'Druhý sviatok vianočný', 'fixed', 12, 26, NULL, NULL, 'full', 1993, NULL),
+  -- Austria (Feiertagsruhegesetz)
+  ('AUT', NULL, 'New Year''s Day', 'Neujahr', 'fixed', 1, 1, NULL, NULL, 'full', NULL, NULL),
+  ('AUT', NULL, 'Epiphany', 'Heilige Drei Könige', 'fixed', 1, 6, NULL, NULL, 'full', NULL, NULL),
+  ('AUT', NULL, 'Easter Monday', 'Ostermontag', 'variable', NULL, NULL, NULL, 1, 'full', NULL, NULL),
+  ('AUT', NULL, 'Labour Day', 'Staatsfeiertag', 'fixed', 5, 1, NULL, NULL, 'full', NULL, NULL),
+  ('AUT', NULL, 'Ascension Day', 'Christi Himmelfahrt', 'variable', NULL, NULL, NULL, 39, 'full', NULL, NULL),
+  ('AUT', NULL, 'Whit Monday', 'Pfingstmontag', 'variable', NULL, NULL, NULL, 50, 'full', NULL, NULL),
+  ('AUT', NULL, 'Corpus Christi', 'Fronleichnam', 'variable', NULL, NULL, NULL, 60, 'full', NULL, NULL),
+  ('AUT', NULL, 'Assumption Day', 'Mariä Himmelfahrt', 'fixed', 8, 15, NULL, NULL, 'full', NULL, NULL),
+  ('AUT', NULL, 'National Day', 'Nationalfeiertag', 'fixed', 10, 26, NULL, NULL, 'full', 1965, NULL),
+  ('AUT', NULL, 'All Saints'' Day', 'Allerheiligen', 'fixed', 11, 1, NULL, NULL, 'full', NULL, NULL),
+  ('AUT', NULL, 'Immaculate Conception', 'Mariä Empfängnis', 'fixed', 12, 8, NULL, NULL, 'partial', NULL, NULL),
+  ('AUT', NULL, 'Christmas Day', 'Christtag', 'fixed', 12, 25, NULL, NULL, 'full', NULL, NULL),
+  ('AUT', NULL, 'St. Stephen''s Day', 'Stefanitag', 'fixed', 12, 26, NULL, NULL, 'full', NULL, NULL),
+  -- Poland
+  ('POL', NULL, 'New Year''s Day', 'Nowy Rok', 'fixed', 1, 1, NULL, NULL, 'full', NULL, NULL),
+  ('POL', NULL, 'Epiphany', 'Święto Trzech Króli', 'fixed', 1, 6, NULL, NULL, 'full', 2011, NULL),
+  ('POL', NULL, 'Easter Sunday', 'Wielkanoc', 'variable', NULL, NULL, NULL, 0, 'full', NULL, NULL),
+  ('POL', NULL, 'Easter Monday', 'Poniedziałek Wielkanocny', 'variable', NULL, NULL, NULL, 1, 'full', NULL, NULL),
+  ('POL', NULL, 'Labour Day', 'Święto Pracy', 'fixed', 5, 1, NULL, NULL, 'full', NULL, NULL),
+  ('POL', NULL, 'Constitution Day', 'Święto Konstytucji 3 Maja', 'fixed', 5, 3, NULL, NULL, 'full', 1990, NULL),
+  ('POL', NULL, 'Pentecost', 'Zielone Świątki', 'variable', NULL, NULL, NULL, 49, 'full', NULL, NULL),
+  ('POL', NULL, 'Corpus Christi', 'Boże Ciało', 'variable', NULL, NULL, NULL, 60, 'full', NULL, NULL),
+  ('POL', NULL, 'Assumption Day', 'Wniebowzięcie Najświętszej Maryi Panny', 'fixed', 8, 15, NULL, NULL, 'full', NULL, NULL),
+  ('POL', NULL, 'All Saints'' Day', 'Wszystkich Świętych', 'fixed', 11, 1, NULL, NULL, 'full', NULL, NULL),
+  ('POL', NULL, 'Independence Day', 'Narodowe Święto Niepodległości', 'fixed', 11, 11, NULL, NULL, 'full', 1989, NULL),
+  ('POL', NULL, 'Christmas Eve', 'Wigilia Bożego Narodzenia', 'fixed', 12, 24, NULL, NULL, 'full', 2025, NULL),
+  ('POL', NULL, 'Christmas Day', 'Boże Narodzenie', 'fixed', 12, 25, NULL, NULL, 'full', NULL, NULL),
+  ('POL', NULL, 'Second Day of Christmas', 'Drugi dzień Bożego Narodzenia', 'fixed', 12, 26, NULL, NULL, 'full', NULL, NULL),
+  -- Germany, nationwide
+  ('DEU', NULL, 'New Year''s Day', 'Neujahr', 'fixed', 1, 1, NULL, NULL, 'full', NULL, NULL),
+  ('DEU', NULL, 'Good Friday', 'Karfreitag', 'variable', NULL, NULL, NULL, -2, 'full', NULL, NULL),
+  ('DEU', NULL, 'Easter Monday', 'Ostermontag', 'variable', NULL, NULL, NULL, 1, 'full', NULL, NULL),
+  ('DEU', NULL, 'Labour Day', 'Tag der Arbeit', 'fixed', 5, 1, NULL, NULL, 'full', NULL, NULL),
+  ('DEU', NULL, 'Ascension Day', 'Christi Himmelfahrt', 'variable', NULL, NULL, NULL, 39, 'full', NULL, NULL),
+  ('DEU', NULL, 'Whit Monday', 'Pfingstmontag', 'variable', NULL, NULL, NULL, 50, 'full', NULL, NULL),
+  ('DEU', NULL, 'German Unity Day', 'Tag der Deutschen Einheit', 'fixed', 10, 3, NULL, NULL, 'full', 1990, NULL),
+  ('DEU', NULL, 'Christmas Day', '1. Weihnachtstag', 'fixed', 12, 25, NULL, NULL, 'full', NULL, NULL),
+  ('DEU', NULL, 'St. Stephen''s Day', '2. Weihnachtstag', 'fixed', 12, 26, NULL, NULL, 'full', NULL, NULL),
+  -- Germany, by Land
+  ('DEU', 'DE-BW', 'Epiphany', 'Heilige Drei Könige', 'fixed', 1, 6, NULL, NULL, 'full', NULL, NULL),
+  ('DEU', 'DE-BY', 'Epiphany', 'Heilige Drei Könige', 'fixed', 1, 6, NULL, NULL, 'full', NULL, NULL),
+  ('DEU', 'DE-ST', 'Epiphany', 'Heilige Drei Könige', 'fixed', 1, 6, NULL, NULL, 'full', NULL, NULL),
+  ('DEU', 'DE-BE', 'International Women''s Day', 'Internationaler Frauentag', 'fixed', 3, 8, NULL, NULL, 'full', 2019, NULL),
+  ('DEU', 'DE-MV', 'International Women''s Day', 'Internationaler Frauentag', 'fixed', 3, 8, NULL, NULL, 'full', 2023, NULL),
+  ('DEU', 'DE-BW', 'Corpus Christi', 'Fronleichnam', 'variable', NULL, NULL, NULL, 60, 'full', NULL, NULL),
+  ('DEU', 'DE-BY', 'Corpus Christi', 'Fronleichnam', 'variable', NULL, NULL, NULL, 60, 'full', NULL, NULL),
+  ('DEU', 'DE-HE', 'Corpus Christi', 'Fronleichnam', 'variable', NULL, NULL, NULL, 60, 'full', NULL, NULL),
+  ('DEU', 'DE-NW', 'Corpus Christi', 'Fronleichnam', 'variable', NULL, NULL, NULL, 60, 'full', NULL, NULL),
+  ('DEU', 'DE-RP', 'Corpus Christi', 'Fronleichnam', 'variable', NULL, NULL, NULL, 60, 'full', NULL, NULL),
+  ('DEU', 'DE-SL', 'Corpus Christi', 'Fronleichnam', 'variable', NULL, NULL, NULL, 60, 'full', NULL, NULL),
+  -- Bavaria observes Assumption only in its Catholic-majority municipalities
+  ('DEU', 'DE-BY', 'Assumption Day', 'Mariä Himmelfahrt', 'fixed', 8, 15, NULL, NULL, 'partial', NULL, NULL),
+  ('DEU', 'DE-SL', 'Assumption Day', 'Mariä Himmelfahrt', 'fixed', 8, 15, NULL, NULL, 'full', NULL, NULL),
+  ('DEU', 'DE-TH', 'World Children''s Day', 'Weltkindertag', 'fixed', 9, 20, NULL, NULL, 'full', 2019, NULL),
+  ('DEU', 'DE-BB', 'Reformation Day', 'Reformationstag', 'fixed', 10, 31, NULL, NULL, 'full', NULL, NULL),
+  ('DEU', 'DE-MV', 'Reformation Day', 'Reformationstag', 'fixed', 10, 31, NULL, NULL, 'full', NULL, NULL),
+  ('DEU', 'DE-SN', 'Reformation Day', 'Reformationstag', 'fixed', 10, 31, NULL, NULL, 'full', NULL, NULL),
+  ('DEU', 'DE-ST', 'Reformation Day', 'Reformationstag', 'fixed', 10, 31, NULL, NULL, 'full', NULL, NULL),
+  ('DEU', 'DE-TH', 'Reformation Day', 'Reformationstag', 'fixed', 10, 31, NULL, NULL, 'full', NULL, NULL),
+  ('DEU', 'DE-HB', 'Reformation Day', 'Reformationstag', 'fixed', 10, 31, NULL, NULL, 'full', 2018, NULL),
+  ('DEU', 'DE-HH', 'Reformation Day', 'Reformationstag', 'fixed', 10, 31, NULL, NULL, 'full', 2018, NULL),
+  ('DEU', 'DE-NI', 'Reformation Day', 'Reformationstag', 'fixed', 10, 31, NULL, NULL, 'full', 2018, NULL),
+  ('DEU', 'DE-SH', 'Reformation Day', 'Reformationstag', 'fixed', 10, 31, NULL, NULL, 'full', 2018, NULL),
+  ('DEU', 'DE-BW', 'All Saints'' Day', 'Allerheiligen', 'fixed', 11, 1, NULL, NULL, 'full', NULL, NULL),
+  ('DEU', 'DE-BY', 'All Saints'' Day', 'Allerheiligen', 'fixed', 11, 1, NULL, NULL, 'full', NULL, NULL),
+  ('DEU', 'DE-NW', 'All Saints'' Day', 'Allerheiligen', 'fixed', 11, 1, NULL, NULL, 'full', NULL, NULL),
+  ('DEU', 'DE-RP', 'All Saints'' Day', 'Allerheiligen', 'fixed', 11, 1, NULL, NULL, 'full', NULL, NULL),
+  ('DEU', 'DE-SL', 'All Saints'' Day', 'Allerheiligen', 'fixed', 11, 1, NULL, NULL, 'full', NULL, NULL),
+  -- Wednesday before 23 November
+  ('DEU', 'DE-SN', 'Day of Repentance and Prayer', 'Buß- und Bettag', 'floating', 11, 16, 3, NULL, 'full', NULL, NULL)
+) AS h(country_code, region_code, name, name_native, date_type, month, day, weekday, easter_offset, business_impact, year_start, year_end)
+JOIN countries c ON c.code = h.country_code
+JOIN holiday_types ht ON ht.name = 'public_holiday'
+LEFT JOIN regions r ON r.country_id = c.id AND r.code = h.region_code
+WHERE NOT EXISTS (
+  SELECT 1 FROM holidays existing
+  WHERE existing.country_id = c.id
+    AND existing.name = h.name
+    AND existing.region_id IS NOT DISTINCT FROM r.id
+);
+
+-- Region of each city, used to apply regional holidays
+ALTER TABLE cities ADD COLUMN IF NOT EXISTS region_code VARCHAR(20); -- ISO 3166-2 (e.g. 'CZ-JM', 'DE-BY')
+
+UPDATE cities SET region_code = v.region_code
+FROM (VALUES
+  ('Prague', 'CZ-PR'), ('Kladno', 'CZ-CE'), ('Ceske Budejovice', 'CZ-SO'), ('Plzen', 'CZ-PL'),
+  ('Karlovy Vary', 'CZ-KA'), ('Usti nad Labem', 'CZ-US'), ('Liberec', 'CZ-LI'), ('Hradec Kralove', 'CZ-KR'),
+  ('Pardubice', 'CZ-PA'), ('Jihlava', 'CZ-VY'), ('Brno', 'CZ-JM'), ('Olomouc', 'CZ-OL'),
+  ('Zlin', 'CZ-ZL'), ('Ostrava', 'CZ-MO')
+) AS v(name_en, region_code)
+WHERE cities.name_en = v.name_en AND cities.country_code = 'CZ';
+
+-- Major cities of the neighbouring countries, including those near the Czech
+-- and Slovak borders (e.g. Vienna for Bratislava, Dresden for Ústí nad Labem)
+INSERT INTO cities (name_en, name_cs, country_code, region_code, population, latitude, longitude) VALUES
+  ('Bratislava', 'Bratislava', 'SK', 'SK-BL', 475000, 48.1486, 17.1077),
+  ('Kosice', 'Košice', 'SK', 'SK-KI', 229000, 48.7164, 21.2611),
+  ('Presov', 'Prešov', 'SK', 'SK-PV', 84000, 49.0018, 21.2393),
+  ('Zilina', 'Žilina', 'SK', 'SK-ZI', 80000, 49.2231, 18.7394),
+  ('Nitra', 'Nitra', 'SK', 'SK-NI', 77000, 48.3069, 18.0864),
+  ('Banska Bystrica', 'Banská Bystrica', 'SK', 'SK-BC', 76000, 48.7363, 19.1462),
+  ('Trnava', 'Trnava', 'SK', 'SK-TA', 63000, 48.3774, 17.5883),
+  ('Trencin', 'Trenčín', 'SK', 'SK-TC', 54000, 48.8945, 18.0444),
+  ('Vienna', 'Vídeň', 'AT', 'AT-9', 2005000, 48.2082, 16.3738),
+  ('Graz', 'Štýrský Hradec', 'AT', 'AT-6', 303000, 47.0707, 15.4395),
+  ('Linz', 'Linec', 'AT', 'AT-4', 210000, 48.3069, 14.2858),
+  ('Salzburg', 'Salcburk', 'AT', 'AT-5', 157000, 47.8095, 13.0550),
+  ('Innsbruck', 'Innsbruck', 'AT', 'AT-7', 131000, 47.2692, 11.4041),
+  ('Klagenfurt', 'Celovec', 'AT', 'AT-2', 104000, 46.6247, 14.3053),
+  ('St. Polten', 'Svatý Hypolit', 'AT', 'AT-3', 57000, 48.2047, 15.6256),
+  ('Warsaw', 'Varšava', 'PL', 'PL-MZ', 1860000, 52.2297, 21.0122),
+  ('Krakow', 'Krakov', 'PL', 'PL-MA', 804000, 50.0647, 19.9450),
+  ('Wroclaw', 'Vratislav', 'PL', 'PL-DS', 674000, 51.1079, 17.0385),
+  ('Lodz', 'Lodž', 'PL', 'PL-LD', 655000, 51.7592, 19.4560),
+  ('Poznan', 'Poznaň', 'PL', 'PL-WP', 540000, 52.4064, 16.9252),
+  ('Gdansk', 'Gdaňsk', 'PL', 'PL-PM', 486000, 54.3520, 18.6466),
+  ('Katowice', 'Katovice', 'PL', 'PL-SL', 280000, 50.2649, 19.0238),
+  ('Gliwice', 'Gliwice', 'PL', 'PL-SL', 174000, 50.2945, 18.6714),
+  ('Bielsko-Biala', 'Bílsko-Bělá', 'PL', 'PL-SL', 167000, 49.8224, 19.0584),
+  ('Opole', 'Opolí', 'PL', 'PL-OP', 126000, 50.6751, 17.9213),
+  ('Berlin', 'Berlín', 'DE', 'DE-BE', 3755000, 52.5200, 13.4050),
+  ('Hamburg', 'Hamburk', 'DE', 'DE-HH', 1892000, 53.5511, 9.9937),
+  ('Munich', 'Mnichov', 'DE', 'DE-BY', 1512000, 48.1351, 11.5820),
+  ('Cologne', 'Kolín nad Rýnem', 'DE', 'DE-NW', 1084000, 50.9375, 6.9603),
+  ('Frankfurt am Main', 'Frankfurt nad Mohanem', 'DE', 'DE-HE', 773000, 50.1109, 8.6821),
+  ('Stuttgart', 'Stuttgart', 'DE', 'DE-BW', 633000, 48.7758, 9.1829),
+  ('Leipzig', 'Lipsko', 'DE', 'DE-SN', 619000, 51.3397, 12.3731),
+  ('Dresden', 'Drážďany', 'DE', 'DE-SN', 567000, 51.0504, 13.7373),
+  ('Nuremberg', 'Norimberk', 'DE', 'DE-BY', 527000, 49.4521, 11.0767),
+  ('Chemnitz', 'Saská Kamenice', 'DE', 'DE-SN', 248000, 50.8278, 12.9214),
+  ('Regensburg', 'Řezno', 'DE', 'DE-BY', 156000, 49.0134, 12.1016),
+  ('Gorlitz', 'Zhořelec', 'DE', 'DE-SN', 56000, 51.1506, 14.9870),
+  ('Passau', 'Pasov', 'DE', 'DE-BY', 53000, 48.5667, 13.4319)
+ON CONFLICT (name_en, country_code) DO UPDATE SET region_code = EXCLUDED.region_code;
+
+-- Add comments for documentation
+COMMENT ON COLUMN cities.region_code IS 'ISO 3166-2 first-level region (kraj, Land, voivodeship); selects regional holidays';
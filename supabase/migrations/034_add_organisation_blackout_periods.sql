@@ -0,0 +1,31 @@
+-- Migration to add organisation blackout periods: dates an organisation keeps
+-- free of events (company all-hands, trade-fair weeks, exam periods). They are
+-- private to the organisation and only restrict its own analyses.
+
+CREATE TABLE IF NOT EXISTS organisation_blackout_periods (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organisation_id UUID NOT NULL REFERENCES organisations(id) ON DELETE CASCADE,
+  name VARCHAR(200) NOT NULL,
+  description TEXT,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL, -- Inclusive
+  city VARCHAR(100), -- NULL applies to every city
+  business_impact VARCHAR(10) NOT NULL DEFAULT 'full' CHECK (business_impact IN ('partial', 'full')),
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (end_date >= start_date)
+);
+
+-- Create index for per-organisation range lookups
+CREATE INDEX IF NOT EXISTS idx_organisation_blackout_periods_dates
+  ON organisation_blackout_periods(organisation_id, start_date, end_date);
+
+DROP TRIGGER IF EXISTS update_organisation_blackout_periods_updated_at ON organisation_blackout_periods;
+CREATE TRIGGER update_organisation_blackout_periods_updated_at BEFORE UPDATE ON organisation_blackout_periods
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Add comments for documentation
+COMMENT ON TABLE organisation_blackout_periods IS 'Private blackout dates of an organisation, applied only to its own analyses';
+COMMENT ON COLUMN organisation_blackout_periods.city IS 'Event city the period applies to; NULL for every city';
+COMMENT ON COLUMN organisation_blackout_periods.business_impact IS 'Weighed like a holiday''s business impact against the analysis threshold';
@@ -0,0 +1,26 @@
+-- Migration to add long weekend and bridge day impact rules. When a public
+-- holiday falls on a Tuesday or Thursday most Czechs take the Monday or Friday
+-- off (a bridge day, "most") and leave town, so city events lose attendance on
+-- the bridge day and across the whole long weekend, not just on the holiday.
+
+INSERT INTO holiday_types (name, description, impact_level) VALUES
+('long_weekend', 'Weekend joined to a public holiday; city residents often travel', 'medium'),
+('bridge_day', 'Working day between a public holiday and the weekend that most people take off', 'medium')
+ON CONFLICT (name) DO NOTHING;
+
+-- days_before on long weekend rules reaches back to the Friday evening
+-- departures before a Saturday start
+INSERT INTO holiday_impact_rules (holiday_type, event_category, days_before, days_after, impact_multiplier, impact_type, region, confidence, data_source, reasoning) VALUES
+('long_weekend', 'Entertainment', 1, 0, 1.40, 'demand', 'CZ', 0.75, 'expert_rules', 'City residents leave for cottages and trips over long weekends'),
+('long_weekend', 'Arts & Culture', 1, 0, 1.40, 'demand', 'CZ', 0.75, 'expert_rules', 'Local cultural audiences are away over long weekends'),
+('long_weekend', 'Sports', 0, 0, 1.20, 'demand', 'CZ', 0.65, 'expert_rules', 'Amateur sports attendance drops when people travel over long weekends'),
+('long_weekend', 'Education', 1, 0, 1.20, 'demand', 'CZ', 0.65, 'expert_rules', 'Participants avoid courses that cut into a long weekend'),
+('long_weekend', 'Business', 1, 0, 1.30, 'demand', 'CZ', 0.70, 'expert_rules', 'Professionals take leave around long weekends'),
+('long_weekend', 'Technology', 1, 0, 1.30, 'demand', 'CZ', 0.70, 'expert_rules', 'Professionals take leave around long weekends'),
+('bridge_day', 'Entertainment', 0, 0, 1.50, 'demand', 'CZ', 0.75, 'expert_rules', 'Most people take the bridge day off and leave town'),
+('bridge_day', 'Arts & Culture', 0, 0, 1.50, 'demand', 'CZ', 0.75, 'expert_rules', 'Most people take the bridge day off and leave town'),
+('bridge_day', 'Sports', 0, 0, 1.30, 'demand', 'CZ', 0.65, 'expert_rules', 'Fans are away on bridge days'),
+('bridge_day', 'Education', 0, 0, 1.60, 'demand', 'CZ', 0.70, 'expert_rules', 'Schools and participants treat bridge days as time off'),
+('bridge_day', 'Business', 0, 0, 1.80, 'demand', 'CZ', 0.80, 'expert_rules', 'Offices run half-empty on bridge days; business events draw few attendees'),
+('bridge_day', 'Technology', 0, 0, 1.70, 'demand', 'CZ', 0.75, 'expert_rules', 'Offices run half-empty on bridge days; tech meetups and conferences draw few attendees')
+ON CONFLICT (holiday_type, event_category, event_subcategory, region) DO NOTHING;
@@ -0,0 +1,11 @@
+-- Migration to scope webhook endpoints to the organisation that registered them.
+-- Endpoints without an organisation were registered with the operator key.
+
+ALTER TABLE webhook_endpoints
+  ADD COLUMN IF NOT EXISTS organisation_id UUID REFERENCES organisations(id) ON DELETE CASCADE;
+
+-- Create index for per-organisation listings
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_organisation_id ON webhook_endpoints(organisation_id);
+
+-- Add comments for documentation
+COMMENT ON COLUMN webhook_endpoints.organisation_id IS 'Owning organisation; receives analysis.completed only for its own analyses. NULL for operator endpoints, which receive every event';
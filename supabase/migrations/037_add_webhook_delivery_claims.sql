@@ -0,0 +1,28 @@
+-- Migration to claim due webhook deliveries atomically, so overlapping retry runs
+-- never send the same delivery twice
+
+-- Claim due retries for a worker. The claimed deliveries' next attempt is pushed
+-- back by p_lease_seconds while they are sent; the worker then records the real
+-- outcome, and deliveries of a worker that died are retried once the lease passes.
+-- SKIP LOCKED keeps concurrent runs from claiming the same delivery.
+CREATE OR REPLACE FUNCTION claim_webhook_deliveries(p_limit INTEGER, p_lease_seconds INTEGER)
+RETURNS SETOF webhook_deliveries AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE webhook_deliveries
+  SET next_attempt_at = NOW() + make_interval(secs => p_lease_seconds)
+  WHERE webhook_deliveries.id IN (
+    SELECT candidate.id
+    FROM webhook_deliveries candidate
+    WHERE candidate.status = 'retrying'
+      AND candidate.next_attempt_at <= NOW()
+    ORDER BY candidate.next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING webhook_deliveries.*;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add comments for documentation
+COMMENT ON FUNCTION claim_webhook_deliveries IS 'Claim due webhook retries for one worker, leasing them for p_lease_seconds';